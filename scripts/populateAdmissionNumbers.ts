@@ -2,9 +2,15 @@
 /**
  * Migration script to populate admission numbers for existing students
  * 
+ * Numbers come from each campus's admission number template (see src/utils/admissionNumber.ts).
+ * With --regenerate every student is renumbered from the templates, oldest first,
+ * instead of only filling in missing numbers.
+ *
  * Usage:
  *   npm run migrate:admission-numbers         # Dry-run mode (default)
  *   npm run migrate:admission-numbers:live    # Live mode (applies changes)
+ *   npm run migrate:admission-numbers:regenerate    # Dry-run renumbering of all students
+ *   npm run migrate:admission-numbers:live -- --regenerate    # Renumber all students
  * 
  * Environment variables required:
  *   - SUPABASE_URL or VITE_SUPABASE_URL
@@ -12,11 +18,17 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
-import { generateAdmissionNumber } from '../src/utils/admissionNumber.js';
+import {
+  generateAdmissionNumberFromTemplate,
+  getSequenceScope,
+  parseAdmissionSequence,
+  resolveAdmissionTemplate,
+} from '../src/utils/admissionNumber.js';
 
 // Parse command line arguments
 const args = process.argv.slice(2);
 const isLiveMode = args.includes('--live');
+const isRegenerate = args.includes('--regenerate');
 
 // Get environment variables
 const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
@@ -41,7 +53,16 @@ interface Student {
   name: string;
   admission_number: string | null;
   class_id: number | null;
+  campus_id: number | null;
   school_id: number;
+  created_at: string | null;
+}
+
+interface CampusRow {
+  id: number;
+  school_id: number;
+  code: string | null;
+  admission_number_template: string | null;
 }
 
 interface Class {
@@ -53,6 +74,7 @@ interface UpdateRecord {
   studentId: number;
   studentName: string;
   className: string;
+  oldAdmissionNumber: string | null;
   newAdmissionNumber: string;
 }
 
@@ -64,7 +86,8 @@ interface SkipRecord {
 
 async function populateAdmissionNumbers() {
   console.log('\n=== Admission Number Migration Script ===\n');
-  console.log(`Mode: ${isLiveMode ? '🔴 LIVE MODE (changes will be applied)' : '🟡 DRY-RUN MODE (no changes will be made)'}\n`);
+  console.log(`Mode: ${isLiveMode ? '🔴 LIVE MODE (changes will be applied)' : '🟡 DRY-RUN MODE (no changes will be made)'}`);
+  console.log(`Scope: ${isRegenerate ? 'Regenerate numbers for ALL students' : 'Fill in missing numbers'}\n`);
 
   try {
     // Step 1: Fetch all existing admission numbers
@@ -79,11 +102,12 @@ async function populateAdmissionNumbers() {
       throw new Error(`Failed to fetch existing admission numbers: ${allStudentsError.message}`);
     }
 
-    const existingNumbers = allStudents
-      .map(s => s.admission_number)
-      .filter((num): num is string => !!num);
+    // Renumbering starts every scope from 1, so old numbers are not carried over
+    const existingNumbers = isRegenerate
+      ? []
+      : allStudents.map(s => s.admission_number).filter((num): num is string => !!num);
 
-    console.log(`✓ Found ${existingNumbers.length} existing admission numbers\n`);
+    console.log(`✓ Found ${allStudents.length} existing admission numbers${isRegenerate ? ' (to be replaced)' : ''}\n`);
 
     // Step 2: Fetch all classes for lookup
     console.log('📚 Fetching class information...');
@@ -102,18 +126,49 @@ async function populateAdmissionNumbers() {
 
     console.log(`✓ Loaded ${classes?.length || 0} classes\n`);
 
-    // Step 3: Find students without admission numbers
-    console.log('🔍 Finding students without admission numbers...');
-    const { data: studentsWithoutNumbers, error: studentsError } = await supabase
+    // Step 2b: Fetch campus templates and where each level is taught
+    console.log('🏫 Fetching campus admission number templates...');
+    const [campusesRes, academicClassesRes, configRes] = await Promise.all([
+      supabase.from('campuses').select('id, school_id, code, admission_number_template'),
+      supabase.from('academic_classes').select('school_id, level, campus_id').not('campus_id', 'is', null),
+      supabase.from('school_config').select('school_id, id_year_mode'),
+    ]);
+
+    if (campusesRes.error) {
+      throw new Error(`Failed to fetch campuses: ${campusesRes.error.message}`);
+    }
+    if (academicClassesRes.error) {
+      throw new Error(`Failed to fetch academic classes: ${academicClassesRes.error.message}`);
+    }
+    if (configRes.error) {
+      throw new Error(`Failed to fetch school config: ${configRes.error.message}`);
+    }
+
+    const campuses = (campusesRes.data || []) as CampusRow[];
+    const academicClasses = academicClassesRes.data || [];
+    const yearModeBySchool = new Map<number, 'current_year' | 'admission_year' | null>(
+      (configRes.data || []).map(c => [c.school_id, c.id_year_mode])
+    );
+
+    console.log(`✓ Loaded ${campuses.length} campuses (${campuses.filter(c => c.code).length} with a code)\n`);
+
+    // Step 3: Find students to number (oldest first so renumbering follows admission order)
+    console.log(isRegenerate ? '🔍 Fetching all students...' : '🔍 Finding students without admission numbers...');
+    let studentsQuery = supabase
       .from('students')
-      .select('id, name, admission_number, class_id, school_id')
-      .or('admission_number.is.null,admission_number.eq.');
+      .select('id, name, admission_number, class_id, campus_id, school_id, created_at')
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true });
+    if (!isRegenerate) {
+      studentsQuery = studentsQuery.or('admission_number.is.null,admission_number.eq.');
+    }
+    const { data: studentsWithoutNumbers, error: studentsError } = await studentsQuery;
 
     if (studentsError) {
       throw new Error(`Failed to fetch students: ${studentsError.message}`);
     }
 
-    console.log(`✓ Found ${studentsWithoutNumbers?.length || 0} students without admission numbers\n`);
+    console.log(`✓ Found ${studentsWithoutNumbers?.length || 0} students ${isRegenerate ? 'to renumber' : 'without admission numbers'}\n`);
 
     if (!studentsWithoutNumbers || studentsWithoutNumbers.length === 0) {
       console.log('✅ All students already have admission numbers. Nothing to do.\n');
@@ -126,6 +181,7 @@ async function populateAdmissionNumbers() {
     const updates: UpdateRecord[] = [];
     const skipped: SkipRecord[] = [];
     const generatedNumbers = [...existingNumbers]; // Track all numbers to avoid duplicates
+    const highestByScope = new Map<string, number>();
 
     for (const student of studentsWithoutNumbers as Student[]) {
       // Skip if no class assigned
@@ -149,14 +205,33 @@ async function populateAdmissionNumbers() {
         continue;
       }
 
+      // Work out the campus template for the student
+      const resolved = resolveAdmissionTemplate({
+        className,
+        campusId: student.campus_id,
+        campuses: campuses.filter(c => c.school_id === student.school_id),
+        academicClasses: academicClasses.filter(ac => ac.school_id === student.school_id),
+        yearMode: yearModeBySchool.get(student.school_id),
+        admittedOn: student.created_at,
+      });
+
+      if (!resolved) {
+        skipped.push({
+          studentId: student.id,
+          studentName: student.name,
+          reason: `No campus code for class: ${className}`,
+        });
+        continue;
+      }
+
       // Generate admission number
-      const newAdmissionNumber = generateAdmissionNumber(className, generatedNumbers);
-      
+      const newAdmissionNumber = generateAdmissionNumberFromTemplate(resolved.template, resolved.context, generatedNumbers);
+
       if (!newAdmissionNumber) {
         skipped.push({
           studentId: student.id,
           studentName: student.name,
-          reason: `Unrecognized class name: ${className}`,
+          reason: `Sequence exhausted for ${getSequenceScope(resolved.template, resolved.context)}`,
         });
         continue;
       }
@@ -166,16 +241,22 @@ async function populateAdmissionNumbers() {
         studentId: student.id,
         studentName: student.name,
         className: className,
+        oldAdmissionNumber: student.admission_number,
         newAdmissionNumber: newAdmissionNumber,
       });
 
       // Track generated number to avoid duplicates in this batch
       generatedNumbers.push(newAdmissionNumber);
+
+      // Remember the highest sequence per scope so the database counter continues after it
+      const scopeKey = `${student.school_id}|${getSequenceScope(resolved.template, resolved.context)}`;
+      const sequence = parseAdmissionSequence(resolved.template, resolved.context, newAdmissionNumber);
+      highestByScope.set(scopeKey, Math.max(highestByScope.get(scopeKey) || 0, sequence));
     }
 
     // Step 5: Display summary
     console.log('📋 Summary:');
-    console.log(`   Total students without admission numbers: ${studentsWithoutNumbers.length}`);
+    console.log(`   Total students ${isRegenerate ? 'to renumber' : 'without admission numbers'}: ${studentsWithoutNumbers.length}`);
     console.log(`   Students to update: ${updates.length}`);
     console.log(`   Students skipped: ${skipped.length}\n`);
 
@@ -190,7 +271,8 @@ async function populateAdmissionNumbers() {
     if (updates.length > 0) {
       console.log('📝 Updates to be applied:');
       updates.forEach(record => {
-        console.log(`   - ID ${record.studentId}: ${record.studentName} [${record.className}] → ${record.newAdmissionNumber}`);
+        const from = record.oldAdmissionNumber ? `${record.oldAdmissionNumber} ` : '';
+        console.log(`   - ID ${record.studentId}: ${record.studentName} [${record.className}] ${from}→ ${record.newAdmissionNumber}`);
       });
       console.log('');
     }
@@ -227,6 +309,22 @@ async function populateAdmissionNumbers() {
         }
       }
 
+      // Move the allocation counters past the numbers just issued
+      console.log('\n🔢 Updating admission number sequences...');
+      for (const [scopeKey, value] of highestByScope) {
+        const [schoolId, ...scopeParts] = scopeKey.split('|');
+        const { error: sequenceError } = await supabase.rpc('reset_admission_sequence', {
+          p_school_id: Number(schoolId),
+          p_scope: scopeParts.join('|'),
+          p_value: value,
+          p_exact: isRegenerate,
+        });
+        if (sequenceError) {
+          console.error(`   ❌ Failed to update sequence ${scopeKey}: ${sequenceError.message}`);
+          failureCount++;
+        }
+      }
+
       console.log('\n📊 Results:');
       console.log(`   Successful updates: ${successCount}`);
       console.log(`   Failed updates: ${failureCount}\n`);
@@ -240,7 +338,7 @@ async function populateAdmissionNumbers() {
     } else {
       console.log('ℹ️  DRY-RUN MODE: No changes were made to the database.');
       console.log('   To apply these changes, run with --live flag:\n');
-      console.log('   npm run migrate:admission-numbers:live\n');
+      console.log(`   npm run migrate:admission-numbers:live${isRegenerate ? ' -- --regenerate' : ''}\n`);
     }
 
   } catch (error: any) {
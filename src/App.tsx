@@ -9,7 +9,7 @@ import { extractAndParseJson } from './utils/json';
 import { logAiEvent, textFromAI } from './utils/ai';
 import { askUPSSGPT } from './services/upssGPT';
 import { base64ToBlob } from './utils/file';
-import { generateAdmissionNumber } from './utils/admissionNumber';
+import { allocateAdmissionNumber, resolveAdmissionTemplate } from './utils/admissionNumber';
 import { Offline, cache } from './offline/client';
 import { requireSupabaseClient } from './services/supabaseClient';
 import { queueStore } from './offline/db';
@@ -18,6 +18,9 @@ import { checkInToday, checkOutToday, todayISO } from './services/checkins';
 import { lazyWithRetry } from './utils/lazyWithRetry';
 import { fetchAllStudents } from './utils/studentPagination';
 import { updateSessionHeartbeat, terminateCurrentSession } from './services/sessionManager';
+import { splitAnswerKeys } from './services/cbtMarking';
+import { billStoreOrderToFees, placeStoreOrder, setOrderStatus } from './services/storeOrders';
+import { mapSupabaseError } from './utils/errorHandling';
 import { clearUserPersistedState } from './hooks/usePersistedState';
 import { canManagePayroll, canViewOwnPayslip, canViewPayroll, useCan, canViewSitewide } from './security/permissions';
 import { CampusScopeProvider } from './contexts/CampusScopeContext';
@@ -1247,12 +1250,12 @@ const App: React.FC = () => {
                         const fetchOrders = async () => {
                             const supabase = requireSupabaseClient();
                             // Try full orders query with order_notes, fallback to simpler one if it fails
-                            // Note: This pattern is duplicated in handleCreateOrder due to scope limitations.
+                            // Note: This pattern is duplicated in refreshStoreData due to scope limitations.
                             // fetchOrders is defined inside this IIFE and not accessible from other handlers.
                             // Extracting to a shared function would require significant refactoring.
                             try {
                                 const fullQuery = await supabase.from('orders')
-                                    .select('*, items:order_items(*, inventory_item:inventory_items!inventory_item_id(name, image_url)), user:user_profiles!user_id(name, email), notes:order_notes(*, author:user_profiles!author_id(name))')
+                                    .select('*, items:order_items(*, inventory_item:inventory_items!inventory_item_id(name, image_url, category)), user:user_profiles!user_id(name, email), notes:order_notes(*, author:user_profiles!author_id(name))')
                                     .order('created_at', { ascending: false });
                                 
                                 if (fullQuery.error) throw fullQuery.error;
@@ -1260,7 +1263,7 @@ const App: React.FC = () => {
                             } catch (e) {
                                 console.warn('[Orders] Full query failed, using fallback without notes:', e);
                                 const fallbackQuery = await supabase.from('orders')
-                                    .select('*, items:order_items(*, inventory_item:inventory_items!inventory_item_id(name, image_url)), user:user_profiles!user_id(name, email)')
+                                    .select('*, items:order_items(*, inventory_item:inventory_items!inventory_item_id(name, image_url, category)), user:user_profiles!user_id(name, email)')
                                     .order('created_at', { ascending: false });
                                 
                                 if (fallbackQuery.error) {
@@ -3634,7 +3637,16 @@ Return a JSON object with:
                             .map(s => s.admission_number)
                             .filter((num): num is string => !!num);
                         
-                        const generatedNumber = generateAdmissionNumber(selectedClass.name, existingNumbers);
+                        // Template comes from the campus of the student's level
+                        const resolved = resolveAdmissionTemplate({
+                            className: selectedClass.name,
+                            campuses,
+                            academicClasses,
+                            yearMode: schoolConfig?.id_year_mode,
+                        });
+                        const generatedNumber = resolved
+                            ? await allocateAdmissionNumber(supabase, userProfile.school_id, resolved.template, resolved.context, existingNumbers)
+                            : null;
                         
                         if (generatedNumber) {
                             finalStudentData.admission_number = generatedNumber;
@@ -3655,7 +3667,7 @@ Return a JSON object with:
         if(data) addItem(setStudents, data);
         addToast('Student record created (No login).', 'success');
         return true;
-    }, [userProfile, addToast, allClasses]);
+    }, [userProfile, addToast, allClasses, campuses, academicClasses, schoolConfig]);
 
     const handleCreateStudentAccount = useCallback(async (studentId: number): Promise<CreatedCredential | null> => {
         const supabase = requireSupabaseClient();
@@ -5421,9 +5433,17 @@ Student Achievement Data: ${JSON.stringify(studentAchievementData)}`;
         }
 
         if (surveyId) {
+            // CBT answer keys are stored apart from the questions so students cannot read them
+            const { questions: questionRows, keys } = splitAnswerKeys(surveyId, questions);
             await supabase.from('quiz_questions').delete().eq('quiz_id', surveyId);
-            const questionsWithId = questions.map((q: any) => ({ ...q, quiz_id: surveyId }));
+            const questionsWithId = questionRows.map((q: any) => ({ ...q, quiz_id: surveyId }));
             await supabase.from('quiz_questions').insert(questionsWithId);
+
+            await supabase.from('quiz_answer_keys').delete().eq('quiz_id', surveyId);
+            if (surveyFields.cbt_settings?.enabled) {
+                const { error: keyError } = await supabase.from('quiz_answer_keys').insert(keys);
+                if (keyError) addToast(`Answer keys not saved: ${keyError.message}`, 'error');
+            }
         }
         
         const { data } = await supabase.from('quizzes').select('*, questions:quiz_questions(*)');
@@ -5889,51 +5909,15 @@ Student Achievement Data: ${JSON.stringify(studentAchievementData)}`;
     }, [addToast]);
 
     // --- Order Handlers ---
-    const handleCreateOrder = useCallback(async (items: { inventory_item_id: number; quantity: number; unit_price: number }[]) => {
+    const refreshStoreData = useCallback(async () => {
         const supabase = requireSupabaseClient();
-        if (!userProfile) return false;
-        const totalAmount = items.reduce((sum, item) => sum + (item.quantity * item.unit_price), 0);
-        
-        // 1. Create Order
-        const { data: order, error: orderError } = await Offline.insert('orders', {
-            school_id: userProfile.school_id,
-            user_id: userProfile.id,
-            total_amount: totalAmount,
-            status: 'Paid', // Simulating instant payment
-            payment_reference: `REF-${Date.now()}`
-        });
+        const { data: inventoryData } = await supabase.from('inventory_items').select('*');
+        if (inventoryData) setInventory(inventoryData);
 
-        if (orderError || !order) {
-            addToast(`Order creation failed: ${orderError?.message}`, 'error');
-            return false;
-        }
-
-        // 2. Create Order Items & Update Inventory
-        // Note: Ideally this should be a transaction or RPC, but simulating with sequential calls for now.
-        for (const item of items) {
-            await Offline.insert('order_items', {
-                order_id: order.id,
-                ...item
-            });
-            
-            // Decrement stock (Offline client handles optimistic update if online)
-            // We need to fetch current stock first to be safe, or just decrement blindly via RPC if we had one.
-            // For simplicity, assume local state is correct enough for the optimistic update, but DB update handles concurrency better.
-            // Since we don't have a decrement RPC ready, we'll do a read-modify-write pattern which is risky for concurrency but okay for MVP.
-            // Actually, let's just skip the stock update on client side logic and rely on admin/backend, 
-            // OR do a simple update if we have the item in state.
-            const inventoryItem = inventory.find(i => i.id === item.inventory_item_id);
-            if (inventoryItem) {
-                 const newStock = Math.max(0, inventoryItem.stock - item.quantity);
-                 await Offline.update('inventory_items', { stock: newStock }, { id: item.inventory_item_id });
-                 setInventory(prev => prev.map(i => i.id === item.inventory_item_id ? { ...i, stock: newStock } : i));
-            }
-        }
-        
         // Refresh orders with fallback
         try {
             const fullQuery = await supabase.from('orders')
-                .select('*, items:order_items(*, inventory_item:inventory_items!inventory_item_id(name, image_url)), user:user_profiles!user_id(name, email), notes:order_notes(*, author:user_profiles!author_id(name))')
+                .select('*, items:order_items(*, inventory_item:inventory_items!inventory_item_id(name, image_url, category)), user:user_profiles!user_id(name, email), notes:order_notes(*, author:user_profiles!author_id(name))')
                 .order('created_at', { ascending: false });
             
             if (fullQuery.error) throw fullQuery.error;
@@ -5941,29 +5925,54 @@ Student Achievement Data: ${JSON.stringify(studentAchievementData)}`;
         } catch (e) {
             console.warn('[Orders] Full query failed, using fallback without notes:', e);
             const fallbackQuery = await supabase.from('orders')
-                .select('*, items:order_items(*, inventory_item:inventory_items!inventory_item_id(name, image_url)), user:user_profiles!user_id(name, email)')
+                .select('*, items:order_items(*, inventory_item:inventory_items!inventory_item_id(name, image_url, category)), user:user_profiles!user_id(name, email)')
                 .order('created_at', { ascending: false });
             
             if (fallbackQuery.error) {
                 console.error('[Orders] Fallback query also failed:', fallbackQuery.error);
-                addToast('Order created but failed to refresh order list. Please refresh the page.', 'warning');
+                addToast('Failed to refresh the order list. Please refresh the page.', 'warning');
             } else if (fallbackQuery.data) {
                 setOrders(fallbackQuery.data as any);
             }
         }
+    }, [addToast]);
 
-        return true;
-    }, [userProfile, inventory, addToast]);
+    const handleCreateOrder = useCallback(async (items: { inventory_item_id: number; quantity: number; unit_price: number }[]) => {
+        if (!userProfile) return null;
+        try {
+            // Prices and stock are checked server-side; the order holds its stock until paid or expired
+            const order = await placeStoreOrder(
+                requireSupabaseClient(),
+                items.map(({ inventory_item_id, quantity }) => ({ inventory_item_id, quantity }))
+            );
+            await refreshStoreData();
+            return order;
+        } catch (error: any) {
+            addToast(`Order creation failed: ${mapSupabaseError(error)}`, 'error');
+            return null;
+        }
+    }, [userProfile, addToast, refreshStoreData]);
 
     const handleUpdateOrderStatus = useCallback(async (orderId: number, status: OrderStatus) => {
-        const { error } = await Offline.update('orders', { status }, { id: orderId });
-        if (error) {
-            addToast(`Failed to update order: ${error.message}`, 'error');
-        } else {
-            setOrders(prev => prev.map(o => o.id === orderId ? { ...o, status } : o));
+        try {
+            const updated = await setOrderStatus(requireSupabaseClient(), orderId, status);
+            setOrders(prev => prev.map(o => o.id === orderId ? { ...o, ...updated } : o));
+            await refreshStoreData();
             addToast('Order status updated.', 'success');
+        } catch (error: any) {
+            addToast(`Failed to update order: ${mapSupabaseError(error)}`, 'error');
         }
-    }, [addToast]);
+    }, [addToast, refreshStoreData]);
+
+    const handleBillOrderToStudent = useCallback(async (orderId: number, studentId: number) => {
+        try {
+            await billStoreOrderToFees(requireSupabaseClient(), orderId, studentId);
+            await refreshStoreData();
+            addToast(`Order #${orderId} added to the student's school bill.`, 'success');
+        } catch (error: any) {
+            addToast(`Could not bill order #${orderId}: ${mapSupabaseError(error)}`, 'error');
+        }
+    }, [addToast, refreshStoreData]);
     
     const handleAddOrderNote = useCallback(async (orderId: number, note: string) => {
         if (!userProfile) return;
@@ -7402,6 +7411,8 @@ Focus on assignments with low completion rates or coverage issues. Return an emp
                                         handleUpdateClassEnrollment,
                                         handleCreateOrder,
                                         handleUpdateOrderStatus,
+                                        handleBillOrderToStudent,
+                                        refreshStoreData,
                                         handleAddOrderNote,
                                         handleDeleteOrderNote,
                                         handleSaveSocialLinks,
@@ -7680,6 +7691,8 @@ Focus on assignments with low completion rates or coverage issues. Return an emp
                                     handleUpdateClassEnrollment,
                                     handleCreateOrder,
                                     handleUpdateOrderStatus,
+                                    handleBillOrderToStudent,
+                                    refreshStoreData,
                                     handleAddOrderNote,
                                     handleDeleteOrderNote,
                                     handleSaveSocialLinks,
@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { AcademicClass, AnnualResult, AnnualResultSubject, PromotionDecision, SchoolConfig, Student, Term, UserProfile } from '../types';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import Spinner from './common/Spinner';
+import { CheckCircleIcon, RefreshIcon, RepeatIcon } from './common/icons';
+import { mapSupabaseError } from '../utils/errorHandling';
+import { DEFAULT_PROMOTION_RULES, getEffectiveDecision, summarizeDecisions } from '../services/promotionPlanner';
+import SessionRolloverModal from './SessionRolloverModal';
+
+interface AnnualResultsPanelProps {
+    term: Term;
+    terms: Term[];
+    academicClasses: AcademicClass[];
+    students: Student[];
+    schoolConfig: SchoolConfig | null;
+    userProfile?: UserProfile;
+    userPermissions: string[];
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const DECISION_STYLES: Record<PromotionDecision, string> = {
+    promote: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+    probation: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+    repeat: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const DECISION_LABELS: Record<PromotionDecision, string> = {
+    promote: 'Promote',
+    probation: 'Probation',
+    repeat: 'Repeat',
+};
+
+const AnnualResultsPanel: React.FC<AnnualResultsPanelProps> = ({
+    term, terms, academicClasses, students, schoolConfig, userProfile, userPermissions, addToast
+}) => {
+    const [results, setResults] = useState<AnnualResult[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isComputing, setIsComputing] = useState(false);
+    const [isApproving, setIsApproving] = useState(false);
+    const [filterClass, setFilterClass] = useState<number | ''>('');
+    const [filterDecision, setFilterDecision] = useState<PromotionDecision | ''>('');
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+    const [subjectsByResult, setSubjectsByResult] = useState<Record<number, AnnualResultSubject[]>>({});
+    const [isRolloverOpen, setIsRolloverOpen] = useState(false);
+
+    const sessionLabel = term.session_label;
+    const rules = { ...DEFAULT_PROMOTION_RULES, ...(schoolConfig?.promotion_rules || {}) };
+    const canManage = userPermissions.includes('*') || ['Admin', 'Principal', 'Team Lead'].includes(userProfile?.role || '');
+
+    const fetchResults = async () => {
+        setIsLoading(true);
+        const supabase = requireSupabaseClient();
+        const { data, error } = await supabase
+            .from('annual_results')
+            .select('*')
+            .eq('session_label', sessionLabel)
+            .order('academic_class_id')
+            .order('class_position');
+        if (error) {
+            addToast(`Error loading annual results: ${mapSupabaseError(error)}`, 'error');
+        } else {
+            setResults((data || []) as AnnualResult[]);
+        }
+        setIsLoading(false);
+    };
+
+    useEffect(() => {
+        setExpandedId(null);
+        setSubjectsByResult({});
+        fetchResults();
+    }, [sessionLabel]);
+
+    const studentName = (id: number) => students.find(s => s.id === id)?.name || `Student #${id}`;
+    const className = (id: number | null) => academicClasses.find(c => c.id === id)?.name || '—';
+
+    const sessionClasses = useMemo(() => {
+        const ids = new Set(results.map(r => r.academic_class_id));
+        return academicClasses.filter(c => ids.has(c.id)).sort((a, b) => a.name.localeCompare(b.name));
+    }, [results, academicClasses]);
+
+    const filteredResults = useMemo(() => results.filter(r =>
+        (!filterClass || r.academic_class_id === filterClass)
+        && (!filterDecision || getEffectiveDecision(r) === filterDecision)
+    ), [results, filterClass, filterDecision]);
+
+    const counts = useMemo(() => summarizeDecisions(results), [results]);
+    const isApproved = results.length > 0 && results.every(r => r.status === 'approved');
+    const hasRolledOver = results.some(r => r.rolled_over_at);
+    const overrideCount = results.filter(r => r.final_decision && r.final_decision !== r.recommendation).length;
+
+    const handleCompute = async () => {
+        if (results.length > 0 && !window.confirm('Recompute annual results? Any decision overrides for this session will be lost.')) return;
+        setIsComputing(true);
+        const supabase = requireSupabaseClient();
+        const { data, error } = await supabase.rpc('compute_annual_results', {
+            p_school_id: userProfile?.school_id || schoolConfig?.school_id,
+            p_session_label: sessionLabel,
+        });
+        setIsComputing(false);
+        if (error) {
+            addToast(`Could not compute annual results: ${mapSupabaseError(error)}`, 'error');
+            return;
+        }
+        addToast(`Computed annual results for ${data ?? 0} students.`, 'success');
+        setSubjectsByResult({});
+        await fetchResults();
+    };
+
+    const handleToggleSubjects = async (result: AnnualResult) => {
+        if (expandedId === result.id) {
+            setExpandedId(null);
+            return;
+        }
+        setExpandedId(result.id);
+        if (subjectsByResult[result.id]) return;
+        const supabase = requireSupabaseClient();
+        const { data, error } = await supabase
+            .from('annual_result_subjects')
+            .select('*')
+            .eq('annual_result_id', result.id)
+            .order('subject_name');
+        if (error) {
+            addToast(`Error loading subjects: ${mapSupabaseError(error)}`, 'error');
+            return;
+        }
+        setSubjectsByResult(prev => ({ ...prev, [result.id]: (data || []) as AnnualResultSubject[] }));
+    };
+
+    const handleOverride = async (result: AnnualResult, changes: Pick<AnnualResult, 'final_decision'> | Pick<AnnualResult, 'decision_note'>) => {
+        const supabase = requireSupabaseClient();
+        const { error } = await supabase.from('annual_results').update(changes).eq('id', result.id);
+        if (error) {
+            addToast(`Error saving decision: ${mapSupabaseError(error)}`, 'error');
+            return;
+        }
+        setResults(prev => prev.map(r => (r.id === result.id ? { ...r, ...changes } : r)));
+    };
+
+    const handleApprove = async (approve: boolean) => {
+        const message = approve
+            ? `Approve the promotion list for ${sessionLabel}? ${counts.promote} promote, ${counts.probation} probation, ${counts.repeat} repeat.`
+            : `Reopen the promotion list for ${sessionLabel} for changes?`;
+        if (!window.confirm(message)) return;
+
+        setIsApproving(true);
+        const supabase = requireSupabaseClient();
+        const { error } = await supabase
+            .from('annual_results')
+            .update(approve
+                ? { status: 'approved', approved_by: userProfile?.id, approved_at: new Date().toISOString() }
+                : { status: 'draft', approved_by: null, approved_at: null })
+            .eq('session_label', sessionLabel);
+        setIsApproving(false);
+        if (error) {
+            addToast(`Error updating approval: ${mapSupabaseError(error)}`, 'error');
+            return;
+        }
+        addToast(approve ? 'Promotion list approved.' : 'Promotion list reopened.', 'success');
+        await fetchResults();
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap justify-between items-start gap-4">
+                <div>
+                    <h2 className="text-xl font-bold text-slate-900 dark:text-white">Annual Results &amp; Promotion — {sessionLabel}</h2>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">
+                        Weighted session averages using term weights {schoolConfig?.term_weights ? `${schoolConfig.term_weights.term1}/${schoolConfig.term_weights.term2}/${schoolConfig.term_weights.term3}` : '10/10/80'}.
+                        Promotion needs an average of {rules.min_average}, passes ({rules.subject_pass_mark}+) in {rules.compulsory_subjects.join(' and ') || 'all compulsory subjects'}, and at most {rules.max_carry_over} carry-over subject(s).
+                    </p>
+                </div>
+                {canManage && (
+                    <div className="flex flex-wrap gap-2">
+                        {!isApproved && (
+                            <button onClick={handleCompute} disabled={isComputing} className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white text-sm font-semibold rounded-lg hover:bg-purple-700 disabled:bg-purple-400">
+                                {isComputing ? <Spinner size="sm" /> : <RefreshIcon className="w-4 h-4" />}
+                                {results.length > 0 ? 'Recompute' : 'Compute Annual Results'}
+                            </button>
+                        )}
+                        {results.length > 0 && !isApproved && (
+                            <button onClick={() => handleApprove(true)} disabled={isApproving} className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 disabled:bg-green-400">
+                                {isApproving ? <Spinner size="sm" /> : <CheckCircleIcon className="w-4 h-4" />}
+                                Approve Promotion List
+                            </button>
+                        )}
+                        {isApproved && !hasRolledOver && (
+                            <button onClick={() => handleApprove(false)} disabled={isApproving} className="px-4 py-2 bg-slate-200 dark:bg-slate-700 text-sm font-semibold rounded-lg">
+                                Reopen
+                            </button>
+                        )}
+                        {isApproved && (
+                            <button onClick={() => setIsRolloverOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700">
+                                <RepeatIcon className="w-4 h-4" /> Roll Over to Next Session
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {results.length > 0 && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {(['promote', 'probation', 'repeat'] as PromotionDecision[]).map(decision => (
+                        <button
+                            key={decision}
+                            onClick={() => setFilterDecision(filterDecision === decision ? '' : decision)}
+                            className={`p-3 rounded-lg text-left ${DECISION_STYLES[decision]} ${filterDecision === decision ? 'ring-2 ring-blue-500' : ''}`}
+                        >
+                            <p className="text-xs font-semibold uppercase">{DECISION_LABELS[decision]}</p>
+                            <p className="text-2xl font-bold">{counts[decision]}</p>
+                        </button>
+                    ))}
+                    <div className="p-3 rounded-lg bg-slate-100 dark:bg-slate-800">
+                        <p className="text-xs font-semibold uppercase text-slate-500">Status</p>
+                        <p className="text-sm font-bold">{isApproved ? 'Approved' : 'Awaiting approval'}</p>
+                        <p className="text-xs text-slate-500">{overrideCount} override(s){hasRolledOver ? ' · rolled over' : ''}</p>
+                    </div>
+                </div>
+            )}
+
+            {results.length > 0 && (
+                <select value={filterClass} onChange={e => setFilterClass(e.target.value ? Number(e.target.value) : '')} className="p-2 border rounded-md text-sm">
+                    <option value="">All classes</option>
+                    {sessionClasses.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-12"><Spinner size="lg" /></div>
+            ) : results.length === 0 ? (
+                <div className="text-center py-12 border border-dashed rounded-xl text-slate-500">
+                    No annual results computed for {sessionLabel} yet.
+                </div>
+            ) : (
+                <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-slate-50 dark:bg-slate-800 text-left">
+                            <tr>
+                                <th className="p-2">Student</th>
+                                <th className="p-2">Class</th>
+                                <th className="p-2 text-right">Average</th>
+                                <th className="p-2 text-right">Class Pos.</th>
+                                <th className="p-2 text-right">Level Pos.</th>
+                                <th className="p-2">Carry-over</th>
+                                <th className="p-2">Recommendation</th>
+                                <th className="p-2">Decision</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filteredResults.map(result => {
+                                const decision = getEffectiveDecision(result);
+                                return (
+                                    <React.Fragment key={result.id}>
+                                        <tr className="border-t border-slate-200 dark:border-slate-700 align-top">
+                                            <td className="p-2">
+                                                <button onClick={() => handleToggleSubjects(result)} className="font-medium text-blue-600 hover:underline text-left">
+                                                    {studentName(result.student_id)}
+                                                </button>
+                                            </td>
+                                            <td className="p-2">{className(result.academic_class_id)}</td>
+                                            <td className="p-2 text-right font-semibold">{Number(result.weighted_average).toFixed(2)}</td>
+                                            <td className="p-2 text-right">{result.class_position ?? '—'}/{result.class_size ?? '—'}</td>
+                                            <td className="p-2 text-right">{result.level_position ?? '—'}/{result.level_size ?? '—'}</td>
+                                            <td className="p-2 text-xs">{result.carry_over_subjects.length > 0 ? result.carry_over_subjects.join(', ') : '—'}</td>
+                                            <td className="p-2">
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${DECISION_STYLES[result.recommendation]}`}>{DECISION_LABELS[result.recommendation]}</span>
+                                                {result.recommendation_reason && <p className="text-xs text-slate-500 mt-1">{result.recommendation_reason}</p>}
+                                            </td>
+                                            <td className="p-2">
+                                                {canManage && !isApproved ? (
+                                                    <div className="space-y-1">
+                                                        <select
+                                                            value={decision}
+                                                            onChange={e => handleOverride(result, { final_decision: e.target.value === result.recommendation ? null : e.target.value as PromotionDecision })}
+                                                            className="p-1 border rounded-md text-xs"
+                                                        >
+                                                            {(['promote', 'probation', 'repeat'] as PromotionDecision[]).map(d => <option key={d} value={d}>{DECISION_LABELS[d]}</option>)}
+                                                        </select>
+                                                        {result.final_decision && (
+                                                            <input
+                                                                type="text"
+                                                                defaultValue={result.decision_note || ''}
+                                                                onBlur={e => e.target.value !== (result.decision_note || '') && handleOverride(result, { decision_note: e.target.value || null })}
+                                                                placeholder="Reason for override"
+                                                                className="w-full p-1 border rounded-md text-xs"
+                                                            />
+                                                        )}
+                                                    </div>
+                                                ) : (
+                                                    <>
+                                                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${DECISION_STYLES[decision]}`}>{DECISION_LABELS[decision]}</span>
+                                                        {result.decision_note && <p className="text-xs text-slate-500 mt-1">{result.decision_note}</p>}
+                                                    </>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {expandedId === result.id && (
+                                            <tr className="bg-slate-50/60 dark:bg-slate-800/40">
+                                                <td colSpan={8} className="p-3">
+                                                    {!subjectsByResult[result.id] ? <Spinner size="sm" /> : (
+                                                        <table className="w-full text-xs">
+                                                            <thead>
+                                                                <tr className="text-left text-slate-500">
+                                                                    <th className="p-1">Subject</th>
+                                                                    <th className="p-1 text-right">1st</th>
+                                                                    <th className="p-1 text-right">2nd</th>
+                                                                    <th className="p-1 text-right">3rd</th>
+                                                                    <th className="p-1 text-right">Annual</th>
+                                                                    <th className="p-1">Grade</th>
+                                                                    <th className="p-1 text-right">Position</th>
+                                                                </tr>
+                                                            </thead>
+                                                            <tbody>
+                                                                {subjectsByResult[result.id].map(subject => (
+                                                                    <tr key={subject.id} className={subject.passed ? '' : 'text-red-600'}>
+                                                                        <td className="p-1">{subject.subject_name}</td>
+                                                                        <td className="p-1 text-right">{subject.term1_score ?? '—'}</td>
+                                                                        <td className="p-1 text-right">{subject.term2_score ?? '—'}</td>
+                                                                        <td className="p-1 text-right">{subject.term3_score ?? '—'}</td>
+                                                                        <td className="p-1 text-right font-semibold">{Number(subject.annual_score).toFixed(2)}</td>
+                                                                        <td className="p-1">{subject.grade_label || '—'}{subject.remark ? ` (${subject.remark})` : ''}</td>
+                                                                        <td className="p-1 text-right">{subject.subject_position ?? '—'}</td>
+                                                                    </tr>
+                                                                ))}
+                                                            </tbody>
+                                                        </table>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {isRolloverOpen && (
+                <SessionRolloverModal
+                    isOpen={isRolloverOpen}
+                    onClose={() => setIsRolloverOpen(false)}
+                    terms={terms}
+                    initialSourceTermId={term.id}
+                    nextLevels={rules.next_levels}
+                    onSuccess={fetchResults}
+                    addToast={addToast}
+                />
+            )}
+        </div>
+    );
+};
+
+export default AnnualResultsPanel;
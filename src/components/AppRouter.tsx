@@ -12,6 +12,7 @@ import SIPView from './SIPView';
 import ComplianceTracker from './ComplianceTracker';
 import ClassGroupManager from './ClassGroupManager';
 import SurveyManager from './SurveyManager';
+import QuizManager from './QuizManager';
 import CalendarView from './CalendarView';
 import AICopilot from './AICopilot';
 import UserManagement from './UserManagement';
@@ -97,6 +98,7 @@ const StudentHomeworkView = lazy(() => import('./StudentHomeworkView'));
 const NotesComplianceTracker = lazy(() => import('./NotesComplianceTracker'));
 const StudentLessonPortal = lazy(() => import('./StudentLessonPortal'));
 const NotificationHistory = lazy(() => import('./NotificationHistory'));
+const WhatsAppInbox = lazy(() => import('./WhatsAppInbox'));
 const AbsenceRequestsView = lazy(() => import('./AbsenceRequestsView'));
 const PolicyQueryView = lazy(() => import('./PolicyQueryView'));
 const PolicyStatementsManager = lazy(() => import('./PolicyStatementsManager'));
@@ -260,6 +262,7 @@ const AppRouter: React.FC<AppRouterProps> = ({ currentView, data, actions }) =>
                 return <StorefrontView 
                     inventory={data.inventory}
                     onCreateOrder={actions.handleCreateOrder}
+                    onOrderSettled={actions.refreshStoreData}
                     userProfile={data.userProfile}
                     addToast={actions.addToast}
                 />;
@@ -514,7 +517,7 @@ const AppRouter: React.FC<AppRouterProps> = ({ currentView, data, actions }) =>
             />;
         case VIEWS.SURVEY_MANAGER:
              return <SurveyManager 
-                surveys={data.surveys}
+                surveys={data.surveys.filter((s: any) => !s.cbt_settings?.enabled)}
                 onSaveSurvey={actions.handleSaveSurvey}
                 onDeleteSurvey={actions.handleDeleteSurvey}
                 addToast={actions.addToast}
@@ -525,6 +528,22 @@ const AppRouter: React.FC<AppRouterProps> = ({ currentView, data, actions }) =>
                 attendanceRecords={data.attendanceRecords}
                 reports={data.reports}
             />;
+        case VIEWS.CBT_MANAGER:
+             return <QuizManager 
+                quizzes={data.surveys.filter((s: any) => s.cbt_settings?.enabled)}
+                onSaveQuiz={actions.handleSaveSurvey}
+                onDeleteQuiz={actions.handleDeleteSurvey}
+                addToast={actions.addToast}
+                allClasses={data.allClasses}
+                allArms={data.allArms}
+                allRoles={Object.values(data.roles)}
+                scoreEntries={data.scoreEntries}
+                attendanceRecords={data.attendanceRecords}
+                reports={data.reports}
+                terms={data.terms}
+                subjects={data.allSubjects}
+                userProfile={data.userProfile}
+            />;
         case VIEWS.CALENDAR:
             return <CalendarView 
                 events={data.calendarEvents} 
@@ -1170,6 +1189,8 @@ const AppRouter: React.FC<AppRouterProps> = ({ currentView, data, actions }) =>
                 terms={data.terms}
                 academicClasses={data.academicClasses}
                 subjects={data.allSubjects}
+                teacherShifts={data.teacherShifts}
+                leaveRequests={data.leaveRequests}
                 addToast={actions.addToast}
              />;
         case VIEWS.ID_CARDS:
@@ -1184,6 +1205,7 @@ const AppRouter: React.FC<AppRouterProps> = ({ currentView, data, actions }) =>
              return <StorefrontView 
                 inventory={data.inventory}
                 onCreateOrder={actions.handleCreateOrder}
+                onOrderSettled={actions.refreshStoreData}
                 userProfile={data.userProfile}
                 addToast={actions.addToast}
              />;
@@ -1191,7 +1213,10 @@ const AppRouter: React.FC<AppRouterProps> = ({ currentView, data, actions }) =>
              return <OrderManager 
                 orders={data.orders}
                 users={data.users}
+                schoolName={data.schoolConfig?.display_name}
+                students={data.students}
                 onUpdateStatus={actions.handleUpdateOrderStatus}
+                onBillToStudent={actions.handleBillOrderToStudent}
                 onAddNote={actions.handleAddOrderNote}
                 onDeleteNote={actions.handleDeleteOrderNote}
              />;
@@ -1321,6 +1346,17 @@ const AppRouter: React.FC<AppRouterProps> = ({ currentView, data, actions }) =>
                     <NotificationHistory userProfile={data.userProfile} />
                 </Suspense>
             );
+        case VIEWS.WHATSAPP_INBOX:
+            return (
+                <Suspense fallback={<div className="flex justify-center items-center h-64"><Spinner size="lg" /></div>}>
+                    <WhatsAppInbox
+                        userProfile={data.userProfile}
+                        users={data.users}
+                        students={data.students}
+                        addToast={actions.addToast}
+                    />
+                </Suspense>
+            );
         default:
             console.error('[AppRouter] Unknown view requested:', baseView, 'Full currentView:', currentView);
             return <div className="flex flex-col items-center justify-center h-full p-8">
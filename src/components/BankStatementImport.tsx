@@ -0,0 +1,226 @@
+import React, { useState, useMemo } from 'react';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import Spinner from './common/Spinner';
+import { parseBankStatement } from '../utils/bankStatementParser';
+import { readBankStatementFile } from '../utils/bursaryRoundTrip';
+import type { MatchCandidate } from '../services/unmatchedPayments';
+import {
+    AUTO_CONFIRM_CONFIDENCE,
+    describeConfidence,
+    matchStatementCredit,
+    postStatementMatches,
+    type StatementCreditMatch,
+} from '../services/bankStatementReconciliation';
+import { mapSupabaseError } from '../utils/errorHandling';
+
+interface BankStatementImportProps {
+    candidates: MatchCandidate[];
+    schoolId: number;
+    userId: string;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+    onPosted: () => void;
+}
+
+const CONFIDENCE_STYLES = {
+    high: 'bg-green-100 text-green-800',
+    medium: 'bg-yellow-100 text-yellow-800',
+    low: 'bg-slate-100 text-slate-600',
+};
+
+const BankStatementImport: React.FC<BankStatementImportProps> = ({ candidates, schoolId, userId, addToast, onPosted }) => {
+    const [fileName, setFileName] = useState('');
+    const [matches, setMatches] = useState<StatementCreditMatch[]>([]);
+    const [skipped, setSkipped] = useState({ debits: 0, rows: 0 });
+    // Row number -> chosen student (and invoice); a row is confirmed when it has a student and is ticked
+    const [choices, setChoices] = useState<Map<number, { studentId: number | null; invoiceId?: number | null; confirmed: boolean }>>(new Map());
+    const [isParsing, setIsParsing] = useState(false);
+    const [isPosting, setIsPosting] = useState(false);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setIsParsing(true);
+        try {
+            const parsed = parseBankStatement(await readBankStatementFile(file));
+            const matched = parsed.credits.map(line => matchStatementCredit(line, candidates));
+            setFileName(file.name);
+            setMatches(matched);
+            setSkipped({ debits: parsed.lines.length - parsed.credits.length, rows: parsed.skippedRows });
+            setChoices(new Map(matched.map(m => [m.line.row, {
+                studentId: m.suggestions[0]?.student_id ?? null,
+                invoiceId: m.suggestions[0]?.invoice_id ?? null,
+                confirmed: m.confidence >= AUTO_CONFIRM_CONFIDENCE,
+            }])));
+            addToast(`Read ${parsed.credits.length} credit line(s) from ${file.name}.`, 'info');
+        } catch (error: any) {
+            addToast(error?.message || 'Could not read the statement.', 'error');
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    const updateChoice = (row: number, change: Partial<{ studentId: number | null; invoiceId: number | null; confirmed: boolean }>) => {
+        setChoices(prev => {
+            const next = new Map(prev);
+            next.set(row, { ...(prev.get(row) || { studentId: null, confirmed: false }), ...change });
+            return next;
+        });
+    };
+
+    const confirmedMatches = useMemo(
+        () => matches.filter(m => choices.get(m.line.row)?.confirmed && choices.get(m.line.row)?.studentId),
+        [matches, choices]
+    );
+    const confirmedTotal = confirmedMatches.reduce((sum, m) => sum + m.line.credit, 0);
+
+    const handlePost = async () => {
+        const forReview = matches.filter(m => !confirmedMatches.includes(m));
+        if (!window.confirm(`Record ${confirmedMatches.length} payment(s) totalling ₦${confirmedTotal.toLocaleString()} and send ${forReview.length} line(s) to the review queue?`)) return;
+
+        setIsPosting(true);
+        const supabase = requireSupabaseClient();
+        try {
+            const result = await postStatementMatches(
+                supabase,
+                schoolId,
+                confirmedMatches.map(match => ({
+                    match,
+                    studentId: choices.get(match.line.row)!.studentId!,
+                    invoiceId: choices.get(match.line.row)?.invoiceId ?? null,
+                })),
+                forReview,
+                fileName
+            );
+
+            await supabase.from('audit_log').insert({
+                school_id: schoolId,
+                actor_user_id: userId,
+                action: 'finance.bank_statement.import',
+                details: { file: fileName, credits: matches.length, ...result },
+            });
+
+            const summary = `Recorded ${result.recorded}, already on ledger ${result.duplicates}, queued for review ${result.queued}.`;
+            if (result.failed.length > 0) {
+                addToast(`${summary} ${result.failed.length} line(s) failed (first: row ${result.failed[0].row}, ${result.failed[0].message}).`, 'error');
+            } else {
+                addToast(summary, 'success');
+            }
+            setMatches([]);
+            setChoices(new Map());
+            setFileName('');
+            onPosted();
+        } catch (error: any) {
+            addToast(`Could not post statement: ${mapSupabaseError(error)}`, 'error');
+        } finally {
+            setIsPosting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800 text-sm text-blue-800 dark:text-blue-200">
+                <strong>How it works:</strong> Upload a statement export (CSV or XLSX) from your bank. Each credit is matched to students by virtual account number, admission number or invoice in the narration, and payer name and amount.
+                Lines at {AUTO_CONFIRM_CONFIDENCE}% confidence or more are ticked for you. Ticked lines are recorded as transfers on the fee ledger; the rest go to the Unmatched Credits queue. Re-importing the same statement never records a line twice.
+            </div>
+
+            <div className="flex flex-wrap justify-between items-center gap-3">
+                <label className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 cursor-pointer">
+                    {isParsing ? 'Reading...' : 'Upload Statement'}
+                    <input type="file" accept=".csv,.txt,.xlsx" onChange={handleFile} disabled={isParsing} className="hidden" />
+                </label>
+                {matches.length > 0 && (
+                    <div className="flex items-center gap-3 text-sm">
+                        <span className="text-slate-600 dark:text-slate-300">
+                            {fileName}: {matches.length} credit(s), {skipped.debits} debit(s) and {skipped.rows} other row(s) ignored
+                        </span>
+                        <button
+                            onClick={handlePost}
+                            disabled={isPosting}
+                            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center gap-2"
+                        >
+                            {isPosting && <Spinner size="sm" />}
+                            Post {confirmedMatches.length} (₦{confirmedTotal.toLocaleString()})
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {matches.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="bg-slate-100 dark:bg-slate-800 uppercase text-xs font-semibold">
+                            <tr>
+                                <th className="p-3">Post</th>
+                                <th className="p-3">Date</th>
+                                <th className="p-3">Narration</th>
+                                <th className="p-3 text-right">Credit</th>
+                                <th className="p-3">Student</th>
+                                <th className="p-3">Confidence</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                            {matches.map(match => {
+                                const choice = choices.get(match.line.row);
+                                const level = describeConfidence(match.confidence);
+                                const chosen = match.suggestions.find(s => s.student_id === choice?.studentId);
+                                return (
+                                    <tr key={match.line.row} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 align-top">
+                                        <td className="p-3">
+                                            <input
+                                                type="checkbox"
+                                                checked={!!choice?.confirmed && !!choice.studentId}
+                                                disabled={!choice?.studentId}
+                                                onChange={e => updateChoice(match.line.row, { confirmed: e.target.checked })}
+                                            />
+                                        </td>
+                                        <td className="p-3 whitespace-nowrap">
+                                            {match.line.date}
+                                            <span className="block text-xs text-slate-400">Row {match.line.row}</span>
+                                        </td>
+                                        <td className="p-3">
+                                            {match.line.narration || '-'}
+                                            {match.line.reference && <span className="block text-xs font-mono text-slate-500">{match.line.reference}</span>}
+                                        </td>
+                                        <td className="p-3 text-right font-semibold">₦{match.line.credit.toLocaleString()}</td>
+                                        <td className="p-3">
+                                            {match.suggestions.length > 0 ? (
+                                                <select
+                                                    value={choice?.studentId ?? ''}
+                                                    onChange={e => {
+                                                        const studentId = e.target.value ? Number(e.target.value) : null;
+                                                        const suggestion = match.suggestions.find(s => s.student_id === studentId);
+                                                        updateChoice(match.line.row, { studentId, invoiceId: suggestion?.invoice_id ?? null, confirmed: !!studentId });
+                                                    }}
+                                                    className="p-1 text-xs border rounded max-w-xs"
+                                                >
+                                                    <option value="">Send to review queue</option>
+                                                    {match.suggestions.map(s => (
+                                                        <option key={s.student_id} value={s.student_id}>
+                                                            {s.student_name}{s.admission_number ? ` (${s.admission_number})` : ''} · {s.score}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            ) : (
+                                                <span className="text-xs text-slate-400">No likely students; goes to review</span>
+                                            )}
+                                            {chosen && <span className="block text-xs text-slate-500 mt-1">{chosen.reasons.join(' · ')}</span>}
+                                        </td>
+                                        <td className="p-3">
+                                            <span className={`px-2 py-1 rounded-full text-xs font-bold ${CONFIDENCE_STYLES[level]}`}>
+                                                {match.confidence}%
+                                            </span>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BankStatementImport;
@@ -28,7 +28,6 @@ const BulkNotifyButton: React.FC<BulkNotifyButtonProps> = ({
     filterCondition
 }) => {
     const [sending, setSending] = useState(false);
-    const [progress, setProgress] = useState({ sent: 0, total: 0 });
     const [result, setResult] = useState<{ sent: number; failed: number } | null>(null);
 
     const handleBulkNotify = async () => {
@@ -51,7 +50,6 @@ const BulkNotifyButton: React.FC<BulkNotifyButtonProps> = ({
         if (!confirmed) return;
 
         setSending(true);
-        setProgress({ sent: 0, total: eligibleStudents.length });
         setResult(null);
 
         try {
@@ -69,20 +67,10 @@ const BulkNotifyButton: React.FC<BulkNotifyButtonProps> = ({
                 sentBy: userId
             }));
 
-            // Send in batches with progress tracking
-            const batchSize = 10;
-            let totalSent = 0;
-            let totalFailed = 0;
-
-            for (let i = 0; i < notifications.length; i += batchSize) {
-                const batch = notifications.slice(i, i + batchSize);
-                const batchResult = await bulkSendSmsNotifications(batch);
-                
-                totalSent += batchResult.sent;
-                totalFailed += batchResult.failed;
-                
-                setProgress({ sent: totalSent + totalFailed, total: notifications.length });
-            }
+            // One outbox batch; delivery continues server-side even if this page is closed
+            const batchResult = await bulkSendSmsNotifications(notifications);
+            const totalSent = batchResult.sent;
+            const totalFailed = batchResult.failed;
 
             setResult({ sent: totalSent, failed: totalFailed });
             
@@ -106,7 +94,7 @@ const BulkNotifyButton: React.FC<BulkNotifyButtonProps> = ({
             return (
                 <>
                     <Spinner size="xs" />
-                    Sending {progress.sent}/{progress.total}...
+                    Queuing...
                 </>
             );
         }
@@ -116,14 +104,14 @@ const BulkNotifyButton: React.FC<BulkNotifyButtonProps> = ({
                 return (
                     <>
                         <CheckCircleIcon className="h-4 w-4" />
-                        Sent to {result.sent} parent(s)
+                        Queued for {result.sent} parent(s)
                     </>
                 );
             }
             return (
                 <>
                     <XCircleIcon className="h-4 w-4" />
-                    Sent: {result.sent}, Failed: {result.failed}
+                    Queued: {result.sent}, Rejected: {result.failed}
                 </>
             );
         }
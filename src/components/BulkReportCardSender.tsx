@@ -4,6 +4,7 @@ import type { Student } from '../types';
 import Spinner from './common/Spinner';
 import { CloseIcon, CheckCircleIcon, AlertCircleIcon, PaperAirplaneIcon, SearchIcon } from './common/icons';
 import { bulkSendReportCards } from '../services/reportCardService';
+import OutboxBatchProgress from './OutboxBatchProgress';
 
 interface BulkReportCardSenderProps {
     termId: number;
@@ -43,6 +44,7 @@ const BulkReportCardSender: React.FC<BulkReportCardSenderProps> = ({
         sent: number;
         failed: number;
         errors: Array<{ studentId: number; studentName: string; error: string }>;
+        batchId?: string;
     } | null>(null);
     const [termName, setTermName] = useState('');
     const [className, setClassName] = useState('');
@@ -214,14 +216,14 @@ const BulkReportCardSender: React.FC<BulkReportCardSenderProps> = ({
 
             if (results.sent > 0) {
                 addToast?.(
-                    `Successfully sent ${results.sent} report card link${results.sent > 1 ? 's' : ''}`,
+                    `Queued ${results.sent} report card link${results.sent > 1 ? 's' : ''} for delivery`,
                     'success'
                 );
             }
 
             if (results.failed > 0) {
                 addToast?.(
-                    `Failed to send ${results.failed} message${results.failed > 1 ? 's' : ''}`,
+                    `Could not queue ${results.failed} message${results.failed > 1 ? 's' : ''}`,
                     'error'
                 );
             }
@@ -257,7 +259,7 @@ const BulkReportCardSender: React.FC<BulkReportCardSenderProps> = ({
                             <div>
                                 <h2 className="text-2xl font-bold flex items-center gap-2">
                                     <CheckCircleIcon className="w-8 h-8 text-green-600" />
-                                    Bulk Send Complete!
+                                    Report Cards Queued
                                 </h2>
                             </div>
                             <button
@@ -271,7 +273,7 @@ const BulkReportCardSender: React.FC<BulkReportCardSenderProps> = ({
                         <div className="space-y-4">
                             <div className="grid grid-cols-2 gap-4">
                                 <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg">
-                                    <p className="text-sm text-slate-600 dark:text-slate-400">Successfully Sent</p>
+                                    <p className="text-sm text-slate-600 dark:text-slate-400">Queued</p>
                                     <p className="text-3xl font-bold text-green-600 dark:text-green-400">
                                         {sendResults.sent}
                                     </p>
@@ -284,6 +286,10 @@ const BulkReportCardSender: React.FC<BulkReportCardSenderProps> = ({
                                 </div>
                             </div>
 
+                            {sendResults.batchId && (
+                                <OutboxBatchProgress batchId={sendResults.batchId} label="SMS delivery" />
+                            )}
+
                             {sendResults.errors.length > 0 && (
                                 <div className="mt-6">
                                     <h3 className="font-semibold mb-2 flex items-center gap-2">
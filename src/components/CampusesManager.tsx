@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import type { Campus } from '../types';
 import Spinner from './common/Spinner';
 import { PlusCircleIcon, MapPinIcon, BanknotesIcon, EyeIcon, EyeOffIcon } from './common/icons';
+import { DEFAULT_ADMISSION_NUMBER_TEMPLATE, formatAdmissionNumber, validateAdmissionTemplate } from '../utils/admissionNumber';
 
 interface CampusesManagerProps {
     campuses: Campus[];
@@ -56,6 +57,11 @@ const CampusesManager: React.FC<CampusesManagerProps> = ({ campuses, onSave, onD
                             <div className="flex-1">
                                 <p className="font-semibold">{campus.name}</p>
                                 <p className="text-xs text-slate-500">{campus.address}</p>
+                                {campus.code && (
+                                    <p className="text-xs text-slate-500 mt-1">
+                                        Admission numbers: <span className="font-mono">{campus.admission_number_template || DEFAULT_ADMISSION_NUMBER_TEMPLATE}</span> ({campus.code})
+                                    </p>
+                                )}
                                 {campus.geofence_lat && campus.geofence_lng && (
                                     <p className="text-xs text-blue-600 dark:text-blue-400 mt-1 flex items-center gap-1">
                                         <MapPinIcon className="w-3 h-3"/> 
@@ -132,6 +138,12 @@ const CampusForm: React.FC<{
         );
     };
     
+    const template = localCampus.admission_number_template || DEFAULT_ADMISSION_NUMBER_TEMPLATE;
+    const templateError = validateAdmissionTemplate(template);
+    const templatePreview = !templateError
+        ? formatAdmissionNumber(template, { campusCode: localCampus.code || 'CODE', level: 'JSS 1', year: new Date().getFullYear() }, 1)
+        : null;
+
     const googleMapsUrl = localCampus.geofence_lat && localCampus.geofence_lng 
         ? `https://www.google.com/maps/search/?api=1&query=${localCampus.geofence_lat},${localCampus.geofence_lng}` 
         : null;
@@ -143,6 +155,29 @@ const CampusForm: React.FC<{
                 <input name="address" value={localCampus.address || ''} onChange={handleChange} placeholder="Address" className="p-2 border rounded w-full"/>
             </div>
             
+            <fieldset className="p-3 border rounded-md bg-white dark:bg-slate-900">
+                <legend className="text-sm font-medium text-slate-700 dark:text-slate-300 px-1">Admission Numbers</legend>
+                <p className="text-xs text-slate-500 mb-3">
+                    Tokens: {'{CAMPUS}'} campus code, {'{YY}'} or {'{YYYY}'} year, {'{LEVEL}'} class level and {'{SEQ:4}'} a sequence padded to 4 digits.
+                    The year follows the ID Year Mode in Branding settings.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">Campus Code</label>
+                        <input name="code" value={localCampus.code || ''} onChange={handleChange} placeholder="e.g., UPSS" className="p-2 border rounded w-full text-sm"/>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">Template</label>
+                        <input name="admission_number_template" value={localCampus.admission_number_template || ''} onChange={handleChange} placeholder={DEFAULT_ADMISSION_NUMBER_TEMPLATE} className="p-2 border rounded w-full text-sm font-mono"/>
+                    </div>
+                </div>
+                {templateError ? (
+                    <p className="text-xs text-red-500 mt-2">{templateError}</p>
+                ) : (
+                    <p className="text-xs text-slate-400 mt-2">Example for a JSS 1 student: <span className="font-mono">{templatePreview}</span></p>
+                )}
+            </fieldset>
+
             {/* Paystack API Settings */}
             <fieldset className="p-3 border rounded-md bg-white dark:bg-slate-900">
                 <legend className="text-sm font-medium text-slate-700 dark:text-slate-300 px-1 flex items-center gap-2">
@@ -246,7 +281,7 @@ const CampusForm: React.FC<{
             
             <div className="flex justify-end gap-2 pt-2">
                 <button type="button" onClick={onCancel} className="px-4 py-2 text-sm bg-slate-200 dark:bg-slate-700 rounded-md">Cancel</button>
-                <button onClick={() => onSave(localCampus)} disabled={isSaving} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md flex items-center gap-2">
+                <button onClick={() => onSave(localCampus)} disabled={isSaving || !!templateError} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md flex items-center gap-2">
                     {isSaving && <Spinner size="sm"/>} Save Campus
                 </button>
             </div>
@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import type { QuizAnswerKey, QuizAttempt, QuizAttemptResponse, QuizWithQuestions, ScoreEntry } from '../types';
+import Spinner from './common/Spinner';
+import { CheckCircleIcon } from './common/icons';
+import { mapSupabaseError } from '../utils/errorHandling';
+import { computeGrade } from '../utils/gradeCalculation';
+import { mergeAnswerKeys, mergeComponentScore, scaleToComponent, summarizeAttempt } from '../services/cbtMarking';
+
+interface CbtMarkingPanelProps {
+    quiz: QuizWithQuestions;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const STATUS_LABELS: Record<QuizAttempt['status'], string> = {
+    in_progress: 'In progress',
+    pending_marking: 'Needs marking',
+    marked: 'Marked',
+};
+
+const CbtMarkingPanel: React.FC<CbtMarkingPanelProps> = ({ quiz, addToast }) => {
+    const settings = quiz.cbt_settings!;
+    const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+    const [responses, setResponses] = useState<QuizAttemptResponse[]>([]);
+    const [keys, setKeys] = useState<QuizAnswerKey[]>([]);
+    const [studentNames, setStudentNames] = useState<Record<number, string>>({});
+    const [draftMarks, setDraftMarks] = useState<Record<number, string>>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [isPushing, setIsPushing] = useState(false);
+
+    const load = async () => {
+        const supabase = requireSupabaseClient();
+        const [attemptRes, responseRes, keyRes] = await Promise.all([
+            supabase.from('quiz_attempts').select('*').eq('quiz_id', quiz.id).order('submitted_at', { ascending: true }),
+            supabase.from('quiz_responses').select('*').eq('quiz_id', quiz.id).not('attempt_id', 'is', null),
+            supabase.from('quiz_answer_keys').select('*').eq('quiz_id', quiz.id),
+        ]);
+        const error = attemptRes.error || responseRes.error || keyRes.error;
+        if (error) {
+            addToast(mapSupabaseError(error), 'error');
+            setIsLoading(false);
+            return;
+        }
+        const loadedAttempts = (attemptRes.data || []) as QuizAttempt[];
+        setAttempts(loadedAttempts);
+        setResponses((responseRes.data || []) as QuizAttemptResponse[]);
+        setKeys((keyRes.data || []) as QuizAnswerKey[]);
+
+        const studentIds = [...new Set(loadedAttempts.map((a) => a.student_id).filter((id): id is number => !!id))];
+        if (studentIds.length > 0) {
+            const { data } = await supabase.from('students').select('id, name').in('id', studentIds);
+            const names: Record<number, string> = {};
+            (data || []).forEach((s: { id: number; name: string }) => { names[s.id] = s.name; });
+            setStudentNames(names);
+        }
+        setIsLoading(false);
+    };
+
+    useEffect(() => {
+        setIsLoading(true);
+        load();
+    }, [quiz.id]);
+
+    const questions = useMemo(() => mergeAnswerKeys(quiz.questions, keys), [quiz.questions, keys]);
+    const questionById = useMemo(() => new Map(questions.map((q) => [q.id, q])), [questions]);
+    const attemptById = useMemo(() => new Map(attempts.map((a) => [a.id, a])), [attempts]);
+
+    const markingQueue = responses.filter((r) => r.awarded_marks == null && questionById.get(r.question_id)?.question_type === 'short_answer');
+    const attemptName = (attempt?: QuizAttempt) => (attempt?.student_id && studentNames[attempt.student_id]) || 'Unknown student';
+
+    const handleMark = async (response: QuizAttemptResponse) => {
+        const question = questionById.get(response.question_id);
+        const maxMarks = question?.marks ?? 1;
+        const marks = Number(draftMarks[response.id]);
+        if (draftMarks[response.id] === undefined || Number.isNaN(marks) || marks < 0 || marks > maxMarks) {
+            addToast(`Enter a mark between 0 and ${maxMarks}.`, 'error');
+            return;
+        }
+
+        const supabase = requireSupabaseClient();
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+            .from('quiz_responses')
+            .update({ awarded_marks: marks, is_correct: marks > 0, marked_by: user?.id })
+            .eq('id', response.id);
+        if (error) {
+            addToast(mapSupabaseError(error), 'error');
+            return;
+        }
+
+        const updatedResponses = responses.map((r) => (r.id === response.id ? { ...r, awarded_marks: marks, is_correct: marks > 0 } : r));
+        const summary = summarizeAttempt(updatedResponses.filter((r) => r.attempt_id === response.attempt_id), questions);
+        const { error: attemptError } = await supabase
+            .from('quiz_attempts')
+            .update({ manual_score: summary.manualScore, status: summary.status })
+            .eq('id', response.attempt_id);
+        if (attemptError) {
+            addToast(mapSupabaseError(attemptError), 'error');
+            return;
+        }
+
+        setResponses(updatedResponses);
+        setAttempts((prev) => prev.map((a) => (a.id === response.attempt_id ? { ...a, manual_score: summary.manualScore, status: summary.status } : a)));
+        addToast('Mark saved', 'success');
+    };
+
+    const handlePushScores = async () => {
+        const component = settings.score_component;
+        if (!component || !settings.term_id || !settings.subject_name || !settings.component_max_score) return;
+        const ready = attempts.filter((a) => a.status === 'marked' && a.student_id);
+        if (ready.length === 0) {
+            addToast('No fully marked attempts to push yet.', 'info');
+            return;
+        }
+        if (!window.confirm(`Write ${ready.length} score(s) into "${component}" for ${settings.subject_name}? Existing ${component} scores for these students will be replaced.`)) return;
+
+        setIsPushing(true);
+        const supabase = requireSupabaseClient();
+        const studentIds = ready.map((a) => a.student_id!);
+        const [enrolmentRes, entryRes] = await Promise.all([
+            supabase.from('academic_class_students').select('student_id, academic_class_id, academic_class:academic_classes(school_id, grading_scheme_id)').eq('enrolled_term_id', settings.term_id).in('student_id', studentIds),
+            supabase.from('score_entries').select('*').eq('term_id', settings.term_id).eq('subject_name', settings.subject_name).in('student_id', studentIds),
+        ]);
+        if (enrolmentRes.error || entryRes.error) {
+            setIsPushing(false);
+            addToast(mapSupabaseError(enrolmentRes.error || entryRes.error), 'error');
+            return;
+        }
+
+        const classByStudent = new Map((enrolmentRes.data || []).map((row: any) => [row.student_id as number, row]));
+        const existingEntries = (entryRes.data || []) as ScoreEntry[];
+        const rows: Partial<ScoreEntry>[] = [];
+        const pushedAttemptIds: number[] = [];
+        let skipped = 0;
+
+        for (const attempt of ready) {
+            const enrolment = classByStudent.get(attempt.student_id!);
+            if (!enrolment) {
+                skipped++;
+                continue;
+            }
+            const existing = existingEntries.find((e) => e.student_id === attempt.student_id && e.academic_class_id === enrolment.academic_class_id);
+            const update = mergeComponentScore(existing, component, scaleToComponent(attempt, settings.component_max_score));
+            const gradingSchemeId = enrolment.academic_class?.grading_scheme_id;
+            const grade = gradingSchemeId ? await computeGrade(update.total_score, gradingSchemeId, settings.subject_name) : null;
+            rows.push({
+                school_id: enrolment.academic_class?.school_id ?? quiz.school_id,
+                term_id: settings.term_id,
+                academic_class_id: enrolment.academic_class_id,
+                subject_name: settings.subject_name,
+                student_id: attempt.student_id!,
+                ...update,
+                grade_label: grade?.grade_label ?? existing?.grade_label ?? '',
+                gpa_value: grade?.gpa_value ?? existing?.gpa_value,
+            });
+            pushedAttemptIds.push(attempt.id);
+        }
+
+        if (rows.length > 0) {
+            const { error } = await supabase.from('score_entries').upsert(rows, { onConflict: 'term_id,academic_class_id,subject_name,student_id' });
+            if (error) {
+                setIsPushing(false);
+                addToast(mapSupabaseError(error), 'error');
+                return;
+            }
+            const pushedAt = new Date().toISOString();
+            await supabase.from('quiz_attempts').update({ pushed_at: pushedAt }).in('id', pushedAttemptIds);
+            setAttempts((prev) => prev.map((a) => (pushedAttemptIds.includes(a.id) ? { ...a, pushed_at: pushedAt } : a)));
+        }
+        setIsPushing(false);
+        addToast(
+            `${rows.length} score(s) written to ${component}.${skipped > 0 ? ` ${skipped} student(s) skipped: not in a class for that term.` : ''}`,
+            skipped > 0 ? 'info' : 'success'
+        );
+    };
+
+    if (isLoading) {
+        return <div className="flex justify-center py-6"><Spinner /></div>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="rounded-2xl border bg-white/60 p-4 space-y-3">
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                    <h2 className="font-bold text-lg">Attempts ({attempts.length})</h2>
+                    {settings.score_component && (
+                        <button onClick={handlePushScores} disabled={isPushing} className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-semibold disabled:opacity-50">
+                            {isPushing ? <Spinner size="sm" /> : <CheckCircleIcon className="w-4 h-4" />}
+                            Push to {settings.component_max_score ? `${settings.score_component} (/${settings.component_max_score})` : settings.score_component}
+                        </button>
+                    )}
+                </div>
+                {attempts.length === 0 ? (
+                    <p className="text-sm text-slate-500">No one has started this test yet.</p>
+                ) : (
+                    <div className="overflow-x-auto max-h-80">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-100 dark:bg-slate-800 sticky top-0">
+                                <tr>
+                                    <th className="p-2 text-left">Student</th>
+                                    <th className="p-2 text-left">Submitted</th>
+                                    <th className="p-2 text-right">Score</th>
+                                    <th className="p-2 text-left">Status</th>
+                                    <th className="p-2 text-left">Pushed</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {attempts.map((attempt) => (
+                                    <tr key={attempt.id}>
+                                        <td className="p-2">{attemptName(attempt)}</td>
+                                        <td className="p-2">{attempt.submitted_at ? new Date(attempt.submitted_at).toLocaleString() : '—'}</td>
+                                        <td className="p-2 text-right">{Number(attempt.auto_score) + Number(attempt.manual_score)} / {Number(attempt.max_score)}</td>
+                                        <td className="p-2">{STATUS_LABELS[attempt.status]}</td>
+                                        <td className="p-2 text-slate-500">{attempt.pushed_at ? new Date(attempt.pushed_at).toLocaleDateString() : '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <div className="rounded-2xl border bg-white/60 p-4 space-y-3">
+                <h2 className="font-bold text-lg">Marking queue ({markingQueue.length})</h2>
+                {markingQueue.length === 0 ? (
+                    <p className="text-sm text-slate-500">All short answers have been marked.</p>
+                ) : markingQueue.map((response) => {
+                    const question = questionById.get(response.question_id);
+                    return (
+                        <div key={response.id} className="p-3 border rounded-lg space-y-2">
+                            <p className="text-sm text-slate-500">{attemptName(attemptById.get(response.attempt_id))}</p>
+                            <p className="font-semibold">{question?.question_text}</p>
+                            {question?.correct_answer && <p className="text-sm text-green-700">Model answer: {question.correct_answer}</p>}
+                            <p className="p-2 bg-slate-500/5 rounded-md whitespace-pre-wrap">{response.answer_text || <em className="text-slate-400">No answer</em>}</p>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={question?.marks ?? 1}
+                                    step={0.5}
+                                    value={draftMarks[response.id] ?? ''}
+                                    onChange={(e) => setDraftMarks({ ...draftMarks, [response.id]: e.target.value })}
+                                    className="w-24 p-1.5 border rounded-md"
+                                />
+                                <span className="text-sm text-slate-500">/ {question?.marks ?? 1}</span>
+                                <button onClick={() => handleMark(response)} className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-md">Save mark</button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default CbtMarkingPanel;
@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import type { QuizAttempt, QuizWithQuestions } from '../types';
+import Spinner from './common/Spinner';
+import { CheckCircleIcon, ClockIcon, StarIcon } from './common/icons';
+import { buildPresentedQuestions, getRemainingSeconds } from '../services/cbtMarking';
+
+interface CbtTakerViewProps {
+    quiz: QuizWithQuestions;
+    onBack: () => void;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+type CbtAnswer = {
+    question_id: number;
+    answer_text?: string;
+    selected_option?: number;
+    ranking_value?: number;
+};
+
+const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const CbtTakerView: React.FC<CbtTakerViewProps> = ({ quiz, onBack, addToast }) => {
+    const settings = quiz.cbt_settings!;
+    const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+    const [answers, setAnswers] = useState<Record<number, CbtAnswer>>({});
+    const [remaining, setRemaining] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const submittedRef = useRef(false);
+    const autoSubmittedRef = useRef(false);
+    const storageKey = attempt ? `cbt-attempt-${attempt.id}` : null;
+
+    useEffect(() => {
+        const start = async () => {
+            const supabase = requireSupabaseClient();
+            const { data, error } = await supabase.rpc('start_quiz_attempt', { p_quiz_id: quiz.id });
+            if (error || !data) {
+                addToast(`Could not start the test: ${error?.message || 'Unknown error'}`, 'error');
+                onBack();
+                return;
+            }
+            const started = data as QuizAttempt;
+            setAttempt(started);
+            // Restore answers after a refresh so a reload does not cost the student their work
+            const saved = localStorage.getItem(`cbt-attempt-${started.id}`);
+            if (saved && started.status === 'in_progress') {
+                try { setAnswers(JSON.parse(saved)); } catch { /* ignore corrupt drafts */ }
+            } else if (started.status === 'in_progress' && started.saved_answers?.length) {
+                setAnswers(Object.fromEntries(started.saved_answers.map(a => [a.question_id, a])));
+            }
+            setIsLoading(false);
+        };
+        start();
+    }, [quiz.id]);
+
+    useEffect(() => {
+        if (storageKey && attempt?.status === 'in_progress') {
+            localStorage.setItem(storageKey, JSON.stringify(answers));
+        }
+    }, [answers, storageKey, attempt?.status]);
+
+    // Answers saved in time are what gets marked if the submission arrives late
+    useEffect(() => {
+        if (!attempt || attempt.status !== 'in_progress' || Object.keys(answers).length === 0) return;
+        const timer = setTimeout(() => {
+            requireSupabaseClient()
+                .rpc('save_quiz_attempt_answers', { p_attempt_id: attempt.id, p_answers: Object.values(answers) })
+                .then(({ error }) => { if (error) console.warn('Could not save CBT answers:', error.message); });
+        }, 1500);
+        return () => clearTimeout(timer);
+    }, [answers, attempt?.id, attempt?.status]);
+
+    const presented = useMemo(() => attempt
+        ? buildPresentedQuestions(quiz.questions, {
+            shuffleQuestions: settings.shuffle_questions,
+            shuffleOptions: settings.shuffle_options,
+            seed: attempt.id,
+        })
+        : [], [attempt?.id, quiz.questions]);
+
+    const handleSubmit = async (auto = false) => {
+        if (!attempt || submittedRef.current) return;
+        const unanswered = presented.filter(p => !answers[p.question.id!]).length;
+        if (!auto && unanswered > 0 && !window.confirm(`You have ${unanswered} unanswered question(s). Submit anyway?`)) return;
+
+        submittedRef.current = true;
+        setIsSubmitting(true);
+        const supabase = requireSupabaseClient();
+        const { data, error } = await supabase.rpc('submit_quiz_attempt', {
+            p_attempt_id: attempt.id,
+            p_answers: Object.values(answers),
+        });
+        setIsSubmitting(false);
+        if (error) {
+            submittedRef.current = false;
+            addToast(
+                auto
+                    ? `Time is up but the test could not be submitted: ${error.message}. Press Submit Test to try again.`
+                    : `Error submitting test: ${error.message}`,
+                'error'
+            );
+            return;
+        }
+        if (storageKey) localStorage.removeItem(storageKey);
+        setAttempt(data as QuizAttempt);
+        addToast(auto ? 'Time is up. Your test was submitted automatically.' : 'Test submitted successfully!', auto ? 'info' : 'success');
+    };
+
+    useEffect(() => {
+        if (!attempt || attempt.status !== 'in_progress' || !settings.time_limit_minutes) return;
+        const tick = () => {
+            const seconds = getRemainingSeconds(attempt.started_at, settings.time_limit_minutes);
+            setRemaining(seconds);
+            // Auto-submit once; a failed attempt is retried from the Submit button, not every tick
+            if (seconds === 0 && !autoSubmittedRef.current) {
+                autoSubmittedRef.current = true;
+                handleSubmit(true);
+            }
+        };
+        tick();
+        const timer = setInterval(tick, 1000);
+        return () => clearInterval(timer);
+    }, [attempt?.id, attempt?.status]);
+
+    const setAnswer = (questionId: number, answer: Partial<CbtAnswer>) => {
+        setAnswers(prev => ({ ...prev, [questionId]: { ...prev[questionId], ...answer, question_id: questionId } }));
+    };
+
+    if (isLoading || !attempt) {
+        return <div className="flex justify-center items-center h-full"><Spinner size="lg" /></div>;
+    }
+
+    if (attempt.status !== 'in_progress') {
+        return (
+            <div className="max-w-xl mx-auto text-center space-y-4 p-6 rounded-2xl border bg-white/60">
+                <CheckCircleIcon className="w-12 h-12 text-green-600 mx-auto" />
+                <h1 className="text-2xl font-bold">{quiz.title}</h1>
+                <p className="text-slate-600">Submitted {attempt.submitted_at ? new Date(attempt.submitted_at).toLocaleString() : ''}</p>
+                <p className="text-3xl font-bold">
+                    {Number(attempt.auto_score) + Number(attempt.manual_score)} / {Number(attempt.max_score)}
+                </p>
+                {attempt.status === 'pending_marking' && (
+                    <p className="text-sm text-amber-700">Your short answers are waiting to be marked by your teacher, so this score may go up.</p>
+                )}
+                <button onClick={onBack} className="px-6 py-2 bg-blue-600 text-white rounded-lg">Done</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-3xl mx-auto space-y-6">
+            <div className="flex justify-between items-start gap-4">
+                <div>
+                    <button onClick={onBack} className="text-sm text-blue-600 mb-2">&larr; Back to Quizzes</button>
+                    <h1 className="text-3xl font-bold">{quiz.title}</h1>
+                    <p className="text-slate-600 mt-1">{quiz.description}</p>
+                </div>
+                {remaining !== null && (
+                    <div className={`sticky top-4 flex items-center gap-2 px-4 py-2 rounded-lg font-mono text-lg font-bold ${remaining < 60 ? 'bg-red-100 text-red-700' : 'bg-slate-100 text-slate-700'}`}>
+                        <ClockIcon className="w-5 h-5" /> {formatClock(remaining)}
+                    </div>
+                )}
+            </div>
+
+            <div className="space-y-6">
+                {presented.map(({ question: q, optionOrder }, index) => (
+                    <div key={q.id} className="p-4 rounded-xl border bg-white/60">
+                        <p className="font-semibold">{index + 1}. {q.question_text}</p>
+                        <div className="mt-4">
+                            {q.question_type === 'multiple_choice' && (
+                                <div className="space-y-2">
+                                    {optionOrder.map(optIndex => (
+                                        <label key={optIndex} className="flex items-center p-2 rounded-lg bg-slate-500/5 hover:bg-slate-500/10 cursor-pointer">
+                                            <input
+                                                type="radio"
+                                                name={`q-${q.id}`}
+                                                checked={answers[q.id!]?.selected_option === optIndex}
+                                                onChange={() => setAnswer(q.id!, { selected_option: optIndex })}
+                                                className="h-4 w-4 text-blue-600 border-slate-300"
+                                            />
+                                            <span className="ml-3">{q.options?.[optIndex]?.text}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                            {q.question_type === 'short_answer' && (
+                                <textarea
+                                    rows={4}
+                                    className="w-full p-2 border rounded-md"
+                                    value={answers[q.id!]?.answer_text || ''}
+                                    onChange={e => setAnswer(q.id!, { answer_text: e.target.value })}
+                                />
+                            )}
+                            {q.question_type === 'true_false' && (
+                                <div className="flex gap-4">
+                                    {['True', 'False'].map((value, optIndex) => (
+                                        <label key={value} className="flex items-center p-2 rounded-lg bg-slate-500/5 hover:bg-slate-500/10 cursor-pointer">
+                                            <input type="radio" name={`q-${q.id}`} checked={answers[q.id!]?.answer_text === value} onChange={() => setAnswer(q.id!, { answer_text: value, selected_option: optIndex })} />
+                                            <span className="ml-2">{value}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                            {q.question_type === 'ranking' && (
+                                <div className="flex space-x-1">
+                                    {[1, 2, 3, 4, 5].map(value => (
+                                        <button type="button" key={value} onClick={() => setAnswer(q.id!, { ranking_value: value })}>
+                                            <StarIcon className={`w-8 h-8 ${value <= (answers[q.id!]?.ranking_value || 0) ? 'text-yellow-400' : 'text-slate-300 dark:text-slate-600'}`} />
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <button
+                onClick={() => handleSubmit(false)}
+                disabled={isSubmitting}
+                className="w-full py-3 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 disabled:bg-green-400 flex items-center justify-center"
+            >
+                {isSubmitting ? <Spinner /> : 'Submit Test'}
+            </button>
+        </div>
+    );
+};
+
+export default CbtTakerView;
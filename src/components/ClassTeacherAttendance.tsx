@@ -794,10 +794,10 @@ const ClassTeacherAttendance: React.FC<Props> = ({ members, onSaveRecord, school
                     }));
                 });
 
-            // Send notifications
+            // Queue notifications; the outbox delivers them
             const result = await bulkSendSmsNotifications(notifications);
             
-            alert(`Notifications sent: ${result.sent} successful, ${result.failed} failed`);
+            alert(`Notifications queued: ${result.sent}${result.failed ? `, ${result.failed} could not be queued` : ''}. Track delivery in Notification History.`);
         } catch (error: any) {
             console.error('Error sending notifications:', error);
             alert('Failed to send notifications: ' + error.message);
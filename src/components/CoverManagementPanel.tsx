@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import { sendNotificationWithChannel } from '../services/kudiSmsService';
+import type { LeaveRequest, TeacherCheckin, TimetableCover, TimetableEntry, TimetablePeriod, UserProfile } from '../types';
+import Spinner from './common/Spinner';
+import { UsersIcon, CheckCircleIcon, ExclamationTriangleIcon, ChartBarIcon } from './common/icons';
+import { mapSupabaseError } from '../utils/errorHandling';
+import type { TeacherAvailabilityMap } from '../services/teacherAvailability';
+import {
+    buildCoverFairnessReport,
+    findLessonsNeedingCover,
+    getAbsentTeachers,
+    getWeekdayName,
+    suggestCoverTeachers,
+    type UncoveredLesson,
+} from '../services/coverAssignment';
+
+interface CoverManagementPanelProps {
+    userProfile: UserProfile;
+    termId: number;
+    entries: TimetableEntry[];
+    periods: TimetablePeriod[];
+    teachers: UserProfile[];
+    leaveRequests: LeaveRequest[];
+    teacherAvailability: TeacherAvailabilityMap;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+const CoverManagementPanel: React.FC<CoverManagementPanelProps> = ({
+    userProfile,
+    termId,
+    entries,
+    periods,
+    teachers,
+    leaveRequests,
+    teacherAvailability,
+    addToast,
+}) => {
+    const [coverDate, setCoverDate] = useState(todayIso());
+    const [covers, setCovers] = useState<TimetableCover[]>([]);
+    const [checkins, setCheckins] = useState<TeacherCheckin[]>([]);
+    const [selectedSubstitutes, setSelectedSubstitutes] = useState<Record<number, string>>({});
+    const [savingEntryId, setSavingEntryId] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [view, setView] = useState<'day' | 'fairness'>('day');
+
+    const loadCovers = async () => {
+        const supabase = requireSupabaseClient();
+        const { data, error } = await supabase.from('timetable_covers').select('*').eq('term_id', termId);
+        if (error) {
+            addToast(mapSupabaseError(error), 'error');
+            return;
+        }
+        setCovers((data || []) as TimetableCover[]);
+    };
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            const supabase = requireSupabaseClient();
+            const [, checkinRes] = await Promise.all([
+                loadCovers(),
+                supabase.from('teacher_checkins').select('*').eq('checkin_date', coverDate),
+            ]);
+            setCheckins((checkinRes.data || []) as TeacherCheckin[]);
+            setSelectedSubstitutes({});
+            setIsLoading(false);
+        };
+        load();
+    }, [termId, coverDate]);
+
+    const absences = useMemo(() => getAbsentTeachers(coverDate, leaveRequests, checkins), [coverDate, leaveRequests, checkins]);
+    const absentIds = useMemo(() => new Set(absences.map((a) => a.teacherId)), [absences]);
+    const lessons = useMemo(() => {
+        const periodOrder = (id: number) => periods.find((p) => p.id === id)?.start_time || '';
+        return findLessonsNeedingCover(coverDate, absences, entries, covers)
+            .sort((a, b) => periodOrder(a.entry.period_id).localeCompare(periodOrder(b.entry.period_id)));
+    }, [coverDate, absences, entries, covers, periods]);
+    const fairness = useMemo(() => buildCoverFairnessReport(covers, teachers), [covers, teachers]);
+
+    const teacherName = (id?: string | null) => teachers.find((t) => t.id === id)?.name || 'Unknown teacher';
+    const periodLabel = (id: number) => {
+        const period = periods.find((p) => p.id === id);
+        return period ? `${period.name} (${period.start_time.slice(0, 5)}-${period.end_time.slice(0, 5)})` : 'Period';
+    };
+
+    const handleAssign = async (lesson: UncoveredLesson, substituteId: string) => {
+        if (!substituteId) return;
+        setSavingEntryId(lesson.entry.id);
+        const supabase = requireSupabaseClient();
+        const { data: saved, error } = await supabase
+            .from('timetable_covers')
+            .upsert({
+                school_id: userProfile.school_id,
+                term_id: termId,
+                timetable_entry_id: lesson.entry.id,
+                cover_date: coverDate,
+                absent_teacher_id: lesson.absence.teacherId,
+                substitute_teacher_id: substituteId,
+                absence_source: lesson.absence.source,
+                leave_request_id: lesson.absence.leaveRequestId ?? null,
+                status: 'assigned',
+                assigned_by: userProfile.id,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'timetable_entry_id,cover_date' })
+            .select()
+            .single();
+
+        if (error) {
+            addToast(mapSupabaseError(error), 'error');
+            setSavingEntryId(null);
+            return;
+        }
+
+        const substitute = teachers.find((t) => t.id === substituteId);
+        if (substitute?.phone_number) {
+            const result = await sendNotificationWithChannel('cover_assigned', {
+                schoolId: userProfile.school_id,
+                recipientPhone: substitute.phone_number,
+                templateName: 'cover_assigned',
+                variables: {
+                    teacher_name: substitute.name,
+                    subject: lesson.entry.subject?.name || 'a lesson',
+                    class_name: lesson.entry.academic_class?.name || '',
+                    date: coverDate,
+                    period: periods.find((p) => p.id === lesson.entry.period_id)?.name || '',
+                    location: lesson.entry.location?.name ? `, ${lesson.entry.location.name}` : '',
+                    absent_teacher: teacherName(lesson.absence.teacherId),
+                },
+            });
+            if (result.success) {
+                await supabase.from('timetable_covers').update({ notified_at: new Date().toISOString() }).eq('id', saved.id);
+            } else {
+                addToast(`Cover saved but notification failed: ${result.error}`, 'info');
+            }
+        } else {
+            addToast(`${substitute?.name || 'Substitute'} has no phone number; cover saved without notification.`, 'info');
+        }
+
+        addToast('Cover assigned', 'success');
+        await loadCovers();
+        setSavingEntryId(null);
+    };
+
+    const handleCancel = async (cover: TimetableCover) => {
+        if (!window.confirm('Cancel this cover assignment?')) return;
+        const supabase = requireSupabaseClient();
+        const { error } = await supabase.from('timetable_covers').update({ status: 'cancelled', updated_at: new Date().toISOString() }).eq('id', cover.id);
+        if (error) {
+            addToast(mapSupabaseError(error), 'error');
+            return;
+        }
+        addToast('Cover cancelled', 'success');
+        await loadCovers();
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-4 p-4 bg-slate-100 dark:bg-slate-800/50 rounded-lg items-center">
+                <div className="flex rounded-md shadow-sm bg-white dark:bg-slate-900">
+                    <button onClick={() => setView('day')} className={`px-4 py-2 text-sm rounded-l-md border flex items-center gap-2 ${view === 'day' ? 'bg-blue-50 text-blue-700 border-blue-200' : 'text-slate-600 border-slate-200'}`}>
+                        <UsersIcon className="w-4 h-4" /> Daily Cover
+                    </button>
+                    <button onClick={() => setView('fairness')} className={`px-4 py-2 text-sm rounded-r-md border-t border-b border-r flex items-center gap-2 ${view === 'fairness' ? 'bg-blue-50 text-blue-700 border-blue-200' : 'text-slate-600 border-slate-200'}`}>
+                        <ChartBarIcon className="w-4 h-4" /> Fairness Report
+                    </button>
+                </div>
+                {view === 'day' && (
+                    <div className="flex items-center gap-2">
+                        <input type="date" value={coverDate} onChange={(e) => setCoverDate(e.target.value)} className="p-2 border rounded-md text-sm" />
+                        <span className="text-sm text-slate-500">{getWeekdayName(coverDate)}</span>
+                    </div>
+                )}
+            </div>
+
+            {isLoading && <div className="flex justify-center py-10"><Spinner size="lg" /></div>}
+
+            {!isLoading && view === 'day' && (
+                lessons.length === 0 ? (
+                    <div className="p-12 text-center text-slate-500 border-2 border-dashed rounded-xl">
+                        {absences.length === 0 ? 'No teachers are on leave or marked absent for this date.' : 'Absent teachers have no lessons on this day.'}
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {lessons.map((lesson) => {
+                            const suggestions = suggestCoverTeachers({
+                                lesson: lesson.entry,
+                                date: coverDate,
+                                entries,
+                                covers,
+                                teachers,
+                                absentTeacherIds: absentIds,
+                                teacherAvailability,
+                            });
+                            const selected = selectedSubstitutes[lesson.entry.id] ?? suggestions[0]?.teacherId ?? '';
+                            return (
+                                <div key={lesson.entry.id} className={`p-4 rounded-lg border flex flex-col md:flex-row md:items-center gap-3 justify-between ${lesson.cover ? 'border-green-200 bg-green-50/50 dark:bg-green-900/10 dark:border-green-800' : 'border-amber-200 bg-amber-50/50 dark:bg-amber-900/10 dark:border-amber-800'}`}>
+                                    <div className="space-y-1">
+                                        <p className="font-semibold">{lesson.entry.subject?.name} · {lesson.entry.academic_class?.name}</p>
+                                        <p className="text-xs text-slate-500">
+                                            {periodLabel(lesson.entry.period_id)}{lesson.entry.location?.name ? ` · ${lesson.entry.location.name}` : ''}
+                                        </p>
+                                        <p className="text-xs text-slate-600 dark:text-slate-300">
+                                            {teacherName(lesson.absence.teacherId)} — {lesson.absence.source === 'leave' ? 'on approved leave' : 'checked in absent'}
+                                        </p>
+                                    </div>
+                                    {lesson.cover ? (
+                                        <div className="flex items-center gap-3">
+                                            <span className="flex items-center gap-1 text-sm text-green-700 dark:text-green-300">
+                                                <CheckCircleIcon className="w-4 h-4" /> Covered by {teacherName(lesson.cover.substitute_teacher_id)}
+                                                {!lesson.cover.notified_at && <span className="text-xs text-slate-500">(not notified)</span>}
+                                            </span>
+                                            <button onClick={() => handleCancel(lesson.cover!)} className="text-xs text-red-600 hover:underline">Cancel</button>
+                                        </div>
+                                    ) : suggestions.length === 0 ? (
+                                        <span className="flex items-center gap-1 text-sm text-amber-700 dark:text-amber-300">
+                                            <ExclamationTriangleIcon className="w-4 h-4" /> No free teacher in this period
+                                        </span>
+                                    ) : (
+                                        <div className="flex items-center gap-2">
+                                            <select
+                                                value={selected}
+                                                onChange={(e) => setSelectedSubstitutes({ ...selectedSubstitutes, [lesson.entry.id]: e.target.value })}
+                                                className="p-2 border rounded-md text-sm max-w-xs"
+                                            >
+                                                {suggestions.map((s) => (
+                                                    <option key={s.teacherId} value={s.teacherId}>
+                                                        {s.teacherName}{s.teachesSubject ? ' ★ same subject' : ''} · {s.coversThisTerm} covers
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <button
+                                                onClick={() => handleAssign(lesson, selected)}
+                                                disabled={savingEntryId === lesson.entry.id}
+                                                className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md flex items-center gap-2 disabled:opacity-50"
+                                            >
+                                                {savingEntryId === lesson.entry.id && <Spinner size="sm" />} Assign
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )
+            )}
+
+            {!isLoading && view === 'fairness' && (
+                fairness.length === 0 ? (
+                    <div className="p-12 text-center text-slate-500 border-2 border-dashed rounded-xl">No covers recorded this term.</div>
+                ) : (
+                    <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300">
+                                <tr>
+                                    <th className="p-2 text-left">Teacher</th>
+                                    <th className="p-2 text-right">Covers given</th>
+                                    <th className="p-2 text-right">Lessons covered for them</th>
+                                    <th className="p-2 text-right">Balance</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {fairness.map((row) => (
+                                    <tr key={row.teacherId}>
+                                        <td className="p-2 font-medium">{row.teacherName}</td>
+                                        <td className="p-2 text-right">{row.coversGiven}</td>
+                                        <td className="p-2 text-right">{row.coversNeeded}</td>
+                                        <td className={`p-2 text-right font-semibold ${row.coversGiven - row.coversNeeded < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                            {row.coversGiven - row.coversNeeded > 0 ? '+' : ''}{row.coversGiven - row.coversNeeded}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )
+            )}
+        </div>
+    );
+};
+
+export default CoverManagementPanel;
@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import Spinner from './common/Spinner';
 import { MegaphoneIcon } from './common/icons';
 import { requireSupabaseClient } from '../services/supabaseClient';
+import { queueNotifications } from '../services/messageOutbox';
+import OutboxBatchProgress from './OutboxBatchProgress';
 
 interface EmergencyBroadcastProps {
   onSendBroadcast: (title: string, message: string) => Promise<void>;
@@ -13,12 +15,13 @@ const EmergencyBroadcast: React.FC<EmergencyBroadcastProps> = ({ onSendBroadcast
   const [isLoading, setIsLoading] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [sendToParents, setSendToParents] = useState(false);
-  const [whatsappProgress, setWhatsappProgress] = useState<{ sent: number; total: number; errors: number } | null>(null);
+  const [broadcastBatchId, setBroadcastBatchId] = useState<string | null>(null);
 
   const handleSend = async () => {
     if (!message.trim() || !title.trim()) return;
     setShowConfirmation(false);
     setIsLoading(true);
+    setBroadcastBatchId(null);
     
     try {
       // Send to staff (existing functionality)
@@ -32,7 +35,6 @@ const EmergencyBroadcast: React.FC<EmergencyBroadcastProps> = ({ onSendBroadcast
       setIsLoading(false);
       setMessage('');
       setSendToParents(false);
-      setWhatsappProgress(null);
     }
   };
 
@@ -57,55 +59,33 @@ const EmergencyBroadcast: React.FC<EmergencyBroadcastProps> = ({ onSendBroadcast
       }
 
       // Get unique phone numbers to avoid duplicates
-      const uniquePhones = new Map<string, string>();
+      const uniquePhones = new Map<string, { studentId: number; studentName: string }>();
       students.forEach(student => {
         if (student.parent_phone_number_1) {
           const phone = student.parent_phone_number_1.trim();
           if (!uniquePhones.has(phone)) {
-            uniquePhones.set(phone, `${student.first_name} ${student.last_name}`);
+            uniquePhones.set(phone, { studentId: student.id, studentName: `${student.first_name} ${student.last_name}` });
           }
         }
       });
 
-      const totalParents = uniquePhones.size;
-      let sentCount = 0;
-      let errorCount = 0;
-
-      setWhatsappProgress({ sent: 0, total: totalParents, errors: 0 });
-
-      // Send SMS messages to each parent
-      for (const [phoneNumber, studentName] of uniquePhones) {
-        try {
-          const smsMessage = `URGENT SCHOOL ALERT\n\n${title}\n\n${message}\n\nThis is an official emergency broadcast from the school. Please acknowledge receipt.`;
-
-          const { error: sendError } = await supabase.functions.invoke('kudisms-send', {
-            body: {
-              phone_number: phoneNumber,
-              message: smsMessage,
-            }
-          });
-
-          if (sendError) {
-            console.error(`Failed to send to ${phoneNumber}:`, sendError);
-            errorCount++;
-          } else {
-            sentCount++;
-          }
-        } catch (err) {
-          console.error(`Error sending to ${phoneNumber}:`, err);
-          errorCount++;
-        }
-
-        // Update progress
-        setWhatsappProgress({ sent: sentCount, total: totalParents, errors: errorCount });
-        
-        // Add a small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-
-      console.log(`WhatsApp broadcast complete: ${sentCount} sent, ${errorCount} errors out of ${totalParents} total`);
+      const smsMessage = `URGENT SCHOOL ALERT\n\n${title}\n\n${message}\n\nThis is an official emergency broadcast from the school. Please acknowledge receipt.`;
+
+      // Queued server-side so the broadcast completes even if this tab is closed; alerts ignore quiet hours
+      const result = await queueNotifications(
+        supabase,
+        Array.from(uniquePhones, ([phoneNumber, { studentId, studentName }]) => ({
+          recipient_phone: phoneNumber,
+          notification_type: 'emergency_broadcast' as const,
+          message: smsMessage,
+          student_id: studentId,
+          recipient_name: `Parent of ${studentName}`,
+        })),
+        { bypassQuietHours: true }
+      );
+      setBroadcastBatchId(result.batch_id);
     } catch (error) {
-      console.error('Error sending WhatsApp messages:', error);
+      console.error('Error queuing parent broadcast:', error);
     }
   };
 
@@ -156,22 +136,8 @@ const EmergencyBroadcast: React.FC<EmergencyBroadcastProps> = ({ onSendBroadcast
             </label>
           </div>
 
-          {whatsappProgress && (
-            <div className="p-3 bg-white/40 dark:bg-slate-800/40 rounded-md border border-red-300/40 dark:border-red-700/40">
-              <div className="text-sm text-red-800 dark:text-red-200">
-                <p className="font-medium">WhatsApp Broadcast Progress:</p>
-                <p className="mt-1">Sent: {whatsappProgress.sent} / {whatsappProgress.total}</p>
-                {whatsappProgress.errors > 0 && (
-                  <p className="text-red-600 dark:text-red-400">Errors: {whatsappProgress.errors}</p>
-                )}
-                <div className="w-full bg-red-200 dark:bg-red-900 rounded-full h-2 mt-2">
-                  <div 
-                    className="bg-red-600 h-2 rounded-full transition-all duration-300"
-                    style={{ width: `${(whatsappProgress.sent / whatsappProgress.total) * 100}%` }}
-                  ></div>
-                </div>
-              </div>
-            </div>
+          {broadcastBatchId && (
+            <OutboxBatchProgress batchId={broadcastBatchId} label="Parent broadcast progress" />
           )}
 
           <button
@@ -0,0 +1,526 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import type { AcademicClass, ExamInvigilation, ExamPaper, ExamPeriod, ExamSeatAllocation, StudentSubjectEnrollment, Subject, TimetableLocation, UserProfile } from '../types';
+import Spinner from './common/Spinner';
+import { WandIcon, CheckCircleIcon, TrashIcon, ExclamationTriangleIcon, PrinterIcon } from './common/icons';
+import { mapSupabaseError } from '../utils/errorHandling';
+import { exportToPDF, type PDFSection } from '../utils/pdfExport';
+import {
+    buildExamPapers,
+    buildExamPlan,
+    listExamDates,
+    slotKey,
+    type ExamPaperRequest,
+    type ExamPlan,
+    type ExamSlot,
+} from '../services/examPlanner';
+
+interface ExamPlannerPanelProps {
+    userProfile: UserProfile;
+    termId: number;
+    subjects: Subject[];
+    academicClasses: AcademicClass[];
+    locations: TimetableLocation[];
+    invigilators: UserProfile[];
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const DEFAULT_SESSIONS = 'Morning, Afternoon';
+const DEFAULT_CANDIDATES_PER_INVIGILATOR = 30;
+
+const ExamPlannerPanel: React.FC<ExamPlannerPanelProps> = ({
+    userProfile,
+    termId,
+    subjects,
+    academicClasses,
+    locations,
+    invigilators,
+    addToast,
+}) => {
+    const [enrollments, setEnrollments] = useState<StudentSubjectEnrollment[]>([]);
+    const [studentNames, setStudentNames] = useState<Record<number, string>>({});
+    const [savedPeriods, setSavedPeriods] = useState<ExamPeriod[]>([]);
+    const [name, setName] = useState('Terminal Examinations');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [sessionsText, setSessionsText] = useState(DEFAULT_SESSIONS);
+    const [candidatesPerInvigilator, setCandidatesPerInvigilator] = useState(DEFAULT_CANDIDATES_PER_INVIGILATOR);
+    const [selectedHallIds, setSelectedHallIds] = useState<Set<number>>(new Set());
+    const [plan, setPlan] = useState<ExamPlan | null>(null);
+    const [openPeriod, setOpenPeriod] = useState<ExamPeriod | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const halls = useMemo(() => locations.filter((l) => (l.capacity || 0) > 0), [locations]);
+
+    useEffect(() => {
+        setSelectedHallIds(new Set(halls.map((h) => h.id)));
+    }, [halls]);
+
+    const fetchSavedPeriods = async () => {
+        const supabase = requireSupabaseClient();
+        const { data, error } = await supabase
+            .from('exam_periods')
+            .select('*')
+            .eq('term_id', termId)
+            .order('start_date', { ascending: false });
+        if (error) {
+            addToast(mapSupabaseError(error), 'error');
+            return;
+        }
+        setSavedPeriods((data || []) as ExamPeriod[]);
+    };
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            setPlan(null);
+            setOpenPeriod(null);
+            const supabase = requireSupabaseClient();
+            const [enrollmentRes, studentRes] = await Promise.all([
+                supabase.from('student_subject_enrollments').select('*').eq('term_id', termId).eq('is_enrolled', true),
+                supabase.from('students').select('id, name').eq('school_id', userProfile.school_id),
+            ]);
+
+            if (enrollmentRes.error || studentRes.error) {
+                addToast(mapSupabaseError(enrollmentRes.error || studentRes.error), 'error');
+                setIsLoading(false);
+                return;
+            }
+            setEnrollments((enrollmentRes.data || []) as StudentSubjectEnrollment[]);
+            const names: Record<number, string> = {};
+            (studentRes.data || []).forEach((s: { id: number; name: string }) => { names[s.id] = s.name; });
+            setStudentNames(names);
+            await fetchSavedPeriods();
+            setIsLoading(false);
+        };
+        load();
+    }, [termId]);
+
+    const papers = useMemo(() => {
+        const classInfo: Record<number, { level: string; arm: string }> = {};
+        academicClasses.forEach((c) => { classInfo[c.id] = { level: c.level, arm: c.arm }; });
+        const subjectNames: Record<number, string> = {};
+        subjects.forEach((s) => { subjectNames[s.id] = s.name; });
+        return buildExamPapers(enrollments, classInfo, studentNames, subjectNames);
+    }, [enrollments, academicClasses, studentNames, subjects]);
+
+    const sessions = sessionsText.split(',').map((s) => s.trim()).filter(Boolean);
+
+    const handleGenerate = () => {
+        if (!startDate || !endDate || endDate < startDate) {
+            addToast('Choose a valid exam start and end date.', 'error');
+            return;
+        }
+        if (sessions.length === 0) {
+            addToast('Enter at least one exam session.', 'error');
+            return;
+        }
+        const chosenHalls = halls.filter((h) => selectedHallIds.has(h.id));
+        if (chosenHalls.length === 0) {
+            addToast('Select at least one hall with a seating capacity.', 'error');
+            return;
+        }
+        const result = buildExamPlan({
+            papers,
+            dates: listExamDates(startDate, endDate),
+            sessions,
+            halls: chosenHalls,
+            invigilatorIds: invigilators.map((t) => t.id),
+            candidatesPerInvigilator,
+        });
+        setPlan(result);
+        setOpenPeriod(null);
+        if (result.unscheduled.length === 0 && result.unseated.length === 0) {
+            addToast(`Exam plan ready: ${result.schedule.length} papers scheduled without clashes.`, 'success');
+        } else {
+            addToast(`Exam plan ready with ${result.unscheduled.length} paper(s) unscheduled.`, 'info');
+        }
+    };
+
+    const handleSave = async () => {
+        if (!plan || plan.schedule.length === 0) return;
+        setIsSaving(true);
+        const supabase = requireSupabaseClient();
+        const { data: period, error: periodError } = await supabase
+            .from('exam_periods')
+            .insert({
+                school_id: userProfile.school_id,
+                term_id: termId,
+                name,
+                start_date: startDate,
+                end_date: endDate,
+                sessions,
+                candidates_per_invigilator: candidatesPerInvigilator,
+                created_by: userProfile.id,
+            })
+            .select()
+            .single();
+
+        if (periodError || !period) {
+            setIsSaving(false);
+            addToast(mapSupabaseError(periodError), 'error');
+            return;
+        }
+
+        const { data: savedPapers, error: paperError } = await supabase
+            .from('exam_papers')
+            .insert(plan.schedule.map((item) => ({
+                exam_period_id: period.id,
+                subject_id: item.paper.subjectId,
+                level: item.paper.level,
+                exam_date: item.date,
+                session: item.session,
+                candidate_count: item.paper.candidates.length,
+            })))
+            .select();
+
+        if (paperError) {
+            setIsSaving(false);
+            addToast(mapSupabaseError(paperError), 'error');
+            return;
+        }
+
+        const paperIdByKey = new Map((savedPapers as ExamPaper[]).map((p) => [`${p.level}|${p.subject_id}`, p.id]));
+        const seatRows = Object.values(plan.seats).flat().map((seat) => ({
+            exam_paper_id: paperIdByKey.get(seat.paperKey),
+            student_id: seat.studentId,
+            location_id: seat.locationId,
+            seat_number: seat.seatNumber,
+        }));
+        const dutyRows = plan.invigilation.map((duty) => ({
+            exam_period_id: period.id,
+            exam_date: duty.date,
+            session: duty.session,
+            location_id: duty.locationId,
+            invigilator_id: duty.invigilatorId,
+        }));
+
+        const [seatRes, dutyRes] = await Promise.all([
+            seatRows.length > 0 ? supabase.from('exam_seat_allocations').insert(seatRows) : Promise.resolve({ error: null }),
+            dutyRows.length > 0 ? supabase.from('exam_invigilations').insert(dutyRows) : Promise.resolve({ error: null }),
+        ]);
+        setIsSaving(false);
+        if (seatRes.error || dutyRes.error) {
+            addToast(mapSupabaseError(seatRes.error || dutyRes.error), 'error');
+            return;
+        }
+        addToast('Exam plan saved', 'success');
+        setOpenPeriod(period as ExamPeriod);
+        await fetchSavedPeriods();
+    };
+
+    const handleOpen = async (period: ExamPeriod) => {
+        setIsLoading(true);
+        const supabase = requireSupabaseClient();
+        const { data: paperRows, error } = await supabase.from('exam_papers').select('*').eq('exam_period_id', period.id);
+        if (error) {
+            setIsLoading(false);
+            addToast(mapSupabaseError(error), 'error');
+            return;
+        }
+        const savedPapers = (paperRows || []) as ExamPaper[];
+        const paperIds = savedPapers.map((p) => p.id);
+        const [seatRes, dutyRes] = await Promise.all([
+            paperIds.length > 0
+                ? supabase.from('exam_seat_allocations').select('*').in('exam_paper_id', paperIds)
+                : Promise.resolve({ data: [], error: null }),
+            supabase.from('exam_invigilations').select('*').eq('exam_period_id', period.id),
+        ]);
+        setIsLoading(false);
+        if (seatRes.error || dutyRes.error) {
+            addToast(mapSupabaseError(seatRes.error || dutyRes.error), 'error');
+            return;
+        }
+
+        // Rebuild the in-memory plan so the saved version prints exactly like a fresh one
+        const paperByKey = new Map(papers.map((p) => [p.key, p]));
+        const paperById = new Map(savedPapers.map((p) => [p.id, p]));
+        const seats: ExamPlan['seats'] = {};
+        ((seatRes.data || []) as ExamSeatAllocation[]).forEach((row) => {
+            const saved = paperById.get(row.exam_paper_id);
+            if (!saved) return;
+            const key = slotKey({ date: saved.exam_date, session: saved.session });
+            seats[key] = [...(seats[key] || []), {
+                studentId: row.student_id,
+                paperKey: `${saved.level}|${saved.subject_id}`,
+                locationId: row.location_id,
+                seatNumber: row.seat_number,
+            }];
+        });
+
+        setPlan({
+            schedule: savedPapers.map((saved) => {
+                const key = `${saved.level}|${saved.subject_id}`;
+                const paper: ExamPaperRequest = paperByKey.get(key) || {
+                    key,
+                    subjectId: saved.subject_id,
+                    subjectName: subjects.find((s) => s.id === saved.subject_id)?.name || 'Subject',
+                    level: saved.level,
+                    candidates: [],
+                };
+                return { date: saved.exam_date, session: saved.session, paper };
+            }).sort((a, b) => a.date.localeCompare(b.date) || period.sessions.indexOf(a.session) - period.sessions.indexOf(b.session)),
+            seats,
+            invigilation: ((dutyRes.data || []) as ExamInvigilation[]).map((d) => ({
+                date: d.exam_date,
+                session: d.session,
+                locationId: d.location_id,
+                invigilatorId: d.invigilator_id,
+            })),
+            unscheduled: [],
+            unseated: [],
+        });
+        setOpenPeriod(period);
+    };
+
+    const handleDelete = async (period: ExamPeriod) => {
+        if (!window.confirm(`Delete the exam plan "${period.name}"? Seating and invigilation duties will be removed.`)) return;
+        const supabase = requireSupabaseClient();
+        const { error } = await supabase.from('exam_periods').delete().eq('id', period.id);
+        if (error) {
+            addToast(mapSupabaseError(error), 'error');
+            return;
+        }
+        if (openPeriod?.id === period.id) {
+            setPlan(null);
+            setOpenPeriod(null);
+        }
+        addToast('Exam plan deleted', 'success');
+        await fetchSavedPeriods();
+    };
+
+    const hallName = (id: number) => locations.find((l) => l.id === id)?.name || `Hall #${id}`;
+    const staffName = (id: string) => invigilators.find((t) => t.id === id)?.name || 'Unknown staff';
+    const studentName = (id: number) => studentNames[id] || `Student #${id}`;
+    const formatSlot = (slot: ExamSlot) => `${new Date(`${slot.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })} · ${slot.session}`;
+
+    const planSlots = useMemo(() => {
+        if (!plan) return [] as ExamSlot[];
+        const seen = new Map<string, ExamSlot>();
+        plan.schedule.forEach((s) => { if (!seen.has(slotKey(s))) seen.set(slotKey(s), { date: s.date, session: s.session }); });
+        return [...seen.values()];
+    }, [plan]);
+
+    const printDocument = async (title: string, sections: PDFSection[]) => {
+        try {
+            await exportToPDF({
+                title,
+                subtitle: openPeriod?.name || name,
+                includeBranding: true,
+                pageSize: 'a4',
+                orientation: 'portrait',
+                includeTableOfContents: false,
+                sections,
+                generatedBy: userProfile.name,
+                generatedAt: new Date().toLocaleDateString(),
+            });
+        } catch (error) {
+            console.error('Error exporting exam document:', error);
+            addToast('Could not generate the PDF.', 'error');
+        }
+    };
+
+    const handlePrintRoster = () => {
+        if (!plan) return;
+        const sections: PDFSection[] = planSlots.map((slot) => {
+            const papersInSlot = plan.schedule.filter((s) => slotKey(s) === slotKey(slot)).map((s) => `${s.paper.level} ${s.paper.subjectName}`);
+            const duties = plan.invigilation.filter((d) => slotKey(d) === slotKey(slot));
+            const byHall = new Map<number, string[]>();
+            duties.forEach((d) => byHall.set(d.locationId, [...(byHall.get(d.locationId) || []), staffName(d.invigilatorId)]));
+            const lines = [`Papers: ${papersInSlot.join(', ')}`, ...[...byHall.entries()].map(([hallId, names]) => `${hallName(hallId)}: ${names.join(', ')}`)];
+            return { title: formatSlot(slot), content: lines.join('\n'), type: 'text' as const };
+        });
+        printDocument('Invigilation Roster', sections);
+    };
+
+    const handlePrintSeating = () => {
+        if (!plan) return;
+        const paperLabel = new Map(plan.schedule.map((s) => [s.paper.key, `${s.paper.level} ${s.paper.subjectName}`]));
+        const sections: PDFSection[] = [];
+        planSlots.forEach((slot) => {
+            const seats = plan.seats[slotKey(slot)] || [];
+            [...new Set(seats.map((s) => s.locationId))].forEach((hallId) => {
+                const lines = seats
+                    .filter((s) => s.locationId === hallId)
+                    .sort((a, b) => a.seatNumber - b.seatNumber)
+                    .map((s) => `Seat ${s.seatNumber}: ${studentName(s.studentId)} (${paperLabel.get(s.paperKey) || ''})`);
+                sections.push({ title: `${hallName(hallId)} — ${formatSlot(slot)}`, content: lines.join('\n'), type: 'text', pageBreakBefore: true });
+            });
+        });
+        printDocument('Seating Plans', sections);
+    };
+
+    const handlePrintExamCards = () => {
+        if (!plan) return;
+        const scheduleByKey = new Map(plan.schedule.map((s) => [s.paper.key, s]));
+        const cards = new Map<number, string[]>();
+        Object.values(plan.seats).flat().forEach((seat) => {
+            const item = scheduleByKey.get(seat.paperKey);
+            if (!item) return;
+            cards.set(seat.studentId, [
+                ...(cards.get(seat.studentId) || []),
+                `${formatSlot(item)} — ${item.paper.subjectName}, ${hallName(seat.locationId)}, seat ${seat.seatNumber}`,
+            ]);
+        });
+        const sections: PDFSection[] = [...cards.entries()]
+            .sort((a, b) => studentName(a[0]).localeCompare(studentName(b[0])))
+            .map(([studentId, lines]) => ({ title: studentName(studentId), content: lines.sort().join('\n'), type: 'text' as const, pageBreakBefore: true }));
+        printDocument('Exam Cards', sections);
+    };
+
+    if (isLoading) {
+        return <div className="flex justify-center py-10"><Spinner size="lg" /></div>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm text-blue-800 dark:text-blue-200 border border-blue-200 dark:border-blue-800">
+                <strong>How it works:</strong> One paper is created per level and subject from this term's {enrollments.length} subject enrolments. Papers are placed so no student sits two at once, halls are filled by capacity with arms mixed, and invigilators are rotated evenly.
+            </div>
+
+            {savedPeriods.length > 0 && (
+                <div className="space-y-2">
+                    <h3 className="text-lg font-semibold">Saved exam plans</h3>
+                    <ul className="divide-y divide-slate-200 dark:divide-slate-700 border rounded-lg bg-white dark:bg-slate-900">
+                        {savedPeriods.map((period) => (
+                            <li key={period.id} className="flex items-center justify-between p-3 text-sm">
+                                <span><strong>{period.name}</strong> · {period.start_date} to {period.end_date}</span>
+                                <span className="flex gap-2">
+                                    <button onClick={() => handleOpen(period)} className="px-3 py-1 bg-slate-200 dark:bg-slate-700 rounded-md">Open</button>
+                                    <button onClick={() => handleDelete(period)} className="p-1 text-red-600" title="Delete"><TrashIcon className="w-4 h-4" /></button>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="space-y-3">
+                <h3 className="text-lg font-semibold">New exam plan</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                    <label className="text-sm">Name
+                        <input value={name} onChange={(e) => setName(e.target.value)} className="mt-1 w-full p-2 border rounded-md" />
+                    </label>
+                    <label className="text-sm">First exam day
+                        <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="mt-1 w-full p-2 border rounded-md" />
+                    </label>
+                    <label className="text-sm">Last exam day
+                        <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="mt-1 w-full p-2 border rounded-md" />
+                    </label>
+                    <label className="text-sm">Sessions per day (comma separated)
+                        <input value={sessionsText} onChange={(e) => setSessionsText(e.target.value)} className="mt-1 w-full p-2 border rounded-md" />
+                    </label>
+                    <label className="text-sm">Candidates per invigilator
+                        <input type="number" min={1} value={candidatesPerInvigilator} onChange={(e) => setCandidatesPerInvigilator(Math.max(1, Number(e.target.value)))} className="mt-1 w-full p-2 border rounded-md" />
+                    </label>
+                </div>
+
+                <div>
+                    <p className="text-sm font-medium mb-2">Exam halls</p>
+                    {halls.length === 0 ? (
+                        <p className="text-sm text-slate-500">Add locations with a seating capacity under Configuration → Locations.</p>
+                    ) : (
+                        <div className="flex flex-wrap gap-3">
+                            {halls.map((hall) => (
+                                <label key={hall.id} className="flex items-center gap-2 text-sm p-2 border rounded-md bg-white dark:bg-slate-900">
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedHallIds.has(hall.id)}
+                                        onChange={() => {
+                                            const next = new Set(selectedHallIds);
+                                            if (next.has(hall.id)) next.delete(hall.id); else next.add(hall.id);
+                                            setSelectedHallIds(next);
+                                        }}
+                                    />
+                                    {hall.name} ({hall.capacity})
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <button onClick={handleGenerate} disabled={papers.length === 0} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">
+                    <WandIcon className="w-4 h-4" /> Generate Exam Plan ({papers.length} papers)
+                </button>
+            </div>
+
+            {plan && (
+                <div className="space-y-4">
+                    <div className="flex flex-wrap justify-between items-center gap-3">
+                        <h3 className="text-lg font-semibold">
+                            {openPeriod ? openPeriod.name : 'Draft'}: {plan.schedule.length} papers in {planSlots.length} sessions
+                        </h3>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={handlePrintRoster} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-slate-200 dark:bg-slate-700 rounded-md">
+                                <PrinterIcon className="w-4 h-4" /> Invigilators
+                            </button>
+                            <button onClick={handlePrintSeating} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-slate-200 dark:bg-slate-700 rounded-md">
+                                <PrinterIcon className="w-4 h-4" /> Seating Plans
+                            </button>
+                            <button onClick={handlePrintExamCards} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-slate-200 dark:bg-slate-700 rounded-md">
+                                <PrinterIcon className="w-4 h-4" /> Exam Cards
+                            </button>
+                            {!openPeriod && (
+                                <>
+                                    <button onClick={() => setPlan(null)} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-slate-200 dark:bg-slate-700 rounded-md">
+                                        <TrashIcon className="w-4 h-4" /> Discard
+                                    </button>
+                                    <button onClick={handleSave} disabled={isSaving || plan.schedule.length === 0} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-green-600 text-white rounded-md disabled:opacity-50">
+                                        {isSaving ? <Spinner size="sm" /> : <CheckCircleIcon className="w-4 h-4" />} Save Plan
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    </div>
+
+                    {(plan.unscheduled.length > 0 || plan.unseated.length > 0) && (
+                        <div className="p-4 border border-amber-200 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-800 rounded-lg space-y-2">
+                            <p className="font-semibold text-amber-800 dark:text-amber-200 flex items-center gap-2">
+                                <ExclamationTriangleIcon className="w-5 h-5" /> Needs attention
+                            </p>
+                            <ul className="text-sm space-y-1 text-amber-900 dark:text-amber-100">
+                                {plan.unscheduled.map((item) => (
+                                    <li key={item.paper.key}><strong>{item.paper.level} {item.paper.subjectName}</strong>: {item.reason}</li>
+                                ))}
+                                {plan.unseated.map((item) => (
+                                    <li key={slotKey(item.slot)}><strong>{formatSlot(item.slot)}</strong>: {item.studentIds.length} candidate(s) have no seat.</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700 max-h-96">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-100 dark:bg-slate-800 sticky top-0">
+                                <tr>
+                                    <th className="p-2 text-left">Session</th>
+                                    <th className="p-2 text-left">Level</th>
+                                    <th className="p-2 text-left">Paper</th>
+                                    <th className="p-2 text-right">Candidates</th>
+                                    <th className="p-2 text-left">Halls</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {plan.schedule.map((item) => {
+                                    const seats = (plan.seats[slotKey(item)] || []).filter((s) => s.paperKey === item.paper.key);
+                                    return (
+                                        <tr key={item.paper.key} className="bg-white dark:bg-slate-900">
+                                            <td className="p-2">{formatSlot(item)}</td>
+                                            <td className="p-2">{item.paper.level}</td>
+                                            <td className="p-2">{item.paper.subjectName}</td>
+                                            <td className="p-2 text-right">{seats.length || item.paper.candidates.length}</td>
+                                            <td className="p-2 text-slate-500">{[...new Set(seats.map((s) => hallName(s.locationId)))].join(', ') || '—'}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExamPlannerPanel;
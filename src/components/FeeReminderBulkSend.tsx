@@ -1,14 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { requireSupabaseClient } from '../services/supabaseClient';
 import Spinner from './common/Spinner';
+import { pickReminderInstallment } from '../services/feeInstallments';
+import { queueNotifications } from '../services/messageOutbox';
+import OutboxBatchProgress from './OutboxBatchProgress';
+import type { OutboxRequest } from '../types';
 
 interface Student {
   id: number;
-  first_name: string;
-  last_name: string;
+  name: string;
   parent_phone_number_1: string | null;
   total_outstanding: number;
-  oldest_due_date: string | null;
+  // The installment the reminder is about: the earliest unpaid one that is overdue or falls due soon
+  installment_name: string;
+  installment_outstanding: number;
+  installment_due_date: string;
+  installment_overdue: boolean;
+  invoice_id: number;
+  invoice_number: string;
 }
 
 const FeeReminderBulkSend: React.FC = () => {
@@ -16,66 +25,73 @@ const FeeReminderBulkSend: React.FC = () => {
   const [selectedStudents, setSelectedStudents] = useState<Set<number>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
   const [isSending, setIsSending] = useState(false);
-  const [progress, setProgress] = useState<{ sent: number; total: number; errors: number } | null>(null);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [sendAt, setSendAt] = useState('');
   const [filterAmount, setFilterAmount] = useState<number>(0);
+  const [windowDays, setWindowDays] = useState<number>(7);
 
   useEffect(() => {
     fetchStudentsWithOutstanding();
-  }, []);
+  }, [windowDays]);
 
   const fetchStudentsWithOutstanding = async () => {
     setIsLoading(true);
     try {
       const supabase = requireSupabaseClient();
-      // Query students with unpaid invoices
+      // Query unpaid installments with their invoice and student
       const { data, error } = await supabase
-        .from('student_invoices')
+        .from('invoice_installments')
         .select(`
-          student_id,
+          id,
+          sequence,
+          name,
+          due_date,
           amount,
           amount_paid,
-          due_date,
           status,
-          students (
+          invoice:student_invoices!inner (
             id,
-            first_name,
-            last_name,
-            parent_phone_number_1
+            invoice_number,
+            status,
+            student_id,
+            students (
+              id,
+              name,
+              parent_phone_number_1
+            )
           )
         `)
-        .neq('status', 'Paid');
+        .in('status', ['due', 'part_paid', 'overdue'])
+        .neq('invoice.status', 'Void');
 
       if (error) throw error;
 
-      // Aggregate outstanding amounts per student
-      const studentMap = new Map<number, Student>();
-
-      data?.forEach((invoice: any) => {
-        const student = invoice.students;
+      // Group installments per student
+      const byStudent = new Map<number, any[]>();
+      data?.forEach((installment: any) => {
+        const student = installment.invoice?.students;
         if (!student) return;
+        byStudent.set(student.id, [...(byStudent.get(student.id) || []), installment]);
+      });
 
-        const outstanding = (invoice.amount || 0) - (invoice.amount_paid || 0);
-        
-        if (studentMap.has(student.id)) {
-          const existing = studentMap.get(student.id)!;
-          existing.total_outstanding += outstanding;
-          
-          // Track oldest due date
-          if (invoice.due_date) {
-            if (!existing.oldest_due_date || invoice.due_date < existing.oldest_due_date) {
-              existing.oldest_due_date = invoice.due_date;
-            }
-          }
-        } else {
-          studentMap.set(student.id, {
-            id: student.id,
-            first_name: student.first_name,
-            last_name: student.last_name,
-            parent_phone_number_1: student.parent_phone_number_1,
-            total_outstanding: outstanding,
-            oldest_due_date: invoice.due_date,
-          });
-        }
+      const today = new Date().toISOString().split('T')[0];
+      const studentMap = new Map<number, Student>();
+      byStudent.forEach((installments, studentId) => {
+        const target = pickReminderInstallment(installments, today, windowDays);
+        if (!target) return;
+        const student = target.invoice.students;
+        studentMap.set(studentId, {
+          id: studentId,
+          name: student.name,
+          parent_phone_number_1: student.parent_phone_number_1,
+          total_outstanding: installments.reduce((sum, i) => sum + (i.amount - i.amount_paid), 0),
+          installment_name: target.name,
+          installment_outstanding: target.amount - target.amount_paid,
+          installment_due_date: target.due_date,
+          installment_overdue: target.due_date < today,
+          invoice_id: target.invoice.id,
+          invoice_number: target.invoice.invoice_number,
+        });
       });
 
       // Filter out students without phone numbers and convert to array
@@ -125,72 +141,64 @@ const FeeReminderBulkSend: React.FC = () => {
       return;
     }
 
-    const supabase = requireSupabaseClient();
     setIsSending(true);
-    setProgress({ sent: 0, total: selectedStudents.size, errors: 0 });
+    setBatchId(null);
 
-    let sentCount = 0;
-    let errorCount = 0;
+    const formatAmount = (value: number) => `₦${value.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const messages: OutboxRequest[] = [];
 
     for (const studentId of selectedStudents) {
       const student = students.find(s => s.id === studentId);
-      if (!student) continue;
-
-      try {
-        const studentName = `${student.first_name} ${student.last_name}`;
-        const amountFormatted = `₦${student.total_outstanding.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-        
-        let dueDateText = '';
-        if (student.oldest_due_date) {
-          const dueDate = new Date(student.oldest_due_date);
-          dueDateText = dueDate.toLocaleDateString('en-NG', { year: 'numeric', month: 'long', day: 'numeric' });
-        }
-
-        const message = `💰 *Fee Payment Reminder* 💰\n\n` +
-          `Dear Parent,\n\n` +
-          `This is a friendly reminder that there is an outstanding balance for *${studentName}*.\n\n` +
-          `*Amount Due:* ${amountFormatted}\n` +
-          (dueDateText ? `*Due Date:* ${dueDateText}\n` : '') +
-          `\n` +
-          `Please make payment at your earliest convenience to avoid any disruption to your child's education.\n\n` +
-          `You can make payments via:\n` +
-          `• Bank transfer\n` +
-          `• Online payment portal\n` +
-          `• At the school's finance office\n\n` +
-          `If you have any questions or need payment arrangements, please contact the school's finance office.\n\n` +
-          `Thank you for your cooperation.\n\n` +
-          `Best regards,\n` +
-          `School Finance Office`;
-
-        const { error: sendError } = await supabase.functions.invoke('kudisms-send', {
-          body: {
-            phone_number: student.parent_phone_number_1,
-            message: message,
-          }
-        });
+      if (!student?.parent_phone_number_1) continue;
+
+      const dueDateText = new Date(student.installment_due_date).toLocaleDateString('en-NG', { year: 'numeric', month: 'long', day: 'numeric' });
+
+      const message = `💰 *Fee Payment Reminder* 💰\n\n` +
+        `Dear Parent,\n\n` +
+        (student.installment_overdue
+          ? `The *${student.installment_name}* for *${student.name}* (invoice ${student.invoice_number}) is now overdue.\n\n`
+          : `This is a friendly reminder that the *${student.installment_name}* for *${student.name}* (invoice ${student.invoice_number}) is due soon.\n\n`) +
+        `*Amount Due:* ${formatAmount(student.installment_outstanding)}\n` +
+        `*Due Date:* ${dueDateText}\n` +
+        (student.total_outstanding > student.installment_outstanding
+          ? `*Total Outstanding:* ${formatAmount(student.total_outstanding)}\n`
+          : '') +
+        `\n` +
+        `Please make payment at your earliest convenience to avoid any disruption to your child's education.\n\n` +
+        `You can make payments via:\n` +
+        `• Bank transfer\n` +
+        `• Online payment portal\n` +
+        `• At the school's finance office\n\n` +
+        `If you have any questions or need payment arrangements, please contact the school's finance office.\n\n` +
+        `Thank you for your cooperation.\n\n` +
+        `Best regards,\n` +
+        `School Finance Office`;
+
+      messages.push({
+        recipient_phone: student.parent_phone_number_1,
+        notification_type: 'general',
+        message,
+        student_id: student.id,
+        subject: `Fee reminder: ${student.installment_name} for ${student.name}`,
+        // Sent as a PDF when parents get this reminder by email
+        attachments: [{ document: 'invoice', id: student.invoice_id }],
+      });
+    }
 
-        if (sendError) {
-          console.error(`Failed to send to ${student.parent_phone_number_1}:`, sendError);
-          errorCount++;
-        } else {
-          sentCount++;
-        }
-      } catch (err) {
-        console.error(`Error sending reminder for student ${studentId}:`, err);
-        errorCount++;
-      }
+    try {
+      // Delivered by the message outbox, which keeps going if this page is closed
+      const result = await queueNotifications(requireSupabaseClient(), messages, { sendAfter: sendAt || null });
+      setBatchId(result.batch_id);
+      alert(`Fee reminders ${sendAt ? `scheduled for ${new Date(sendAt).toLocaleString()}` : 'queued'}!\n\nQueued: ${result.queued}\nRejected: ${result.rejected}\nSkipped (no phone): ${selectedStudents.size - messages.length}`);
 
-      setProgress({ sent: sentCount, total: selectedStudents.size, errors: errorCount });
-      
-      // Add delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 150));
+      // Clear selection after sending
+      setSelectedStudents(new Set());
+    } catch (err: any) {
+      console.error('Error queuing fee reminders:', err);
+      alert('Failed to queue fee reminders: ' + (err?.message || 'Unknown error'));
+    } finally {
+      setIsSending(false);
     }
-
-    setIsSending(false);
-    alert(`Fee reminders sent!\n\nSuccessful: ${sentCount}\nFailed: ${errorCount}\nTotal: ${selectedStudents.size}`);
-    
-    // Clear selection after sending
-    setSelectedStudents(new Set());
   };
 
   const filteredStudents = getFilteredStudents();
@@ -211,7 +219,7 @@ const FeeReminderBulkSend: React.FC = () => {
           Fee Reminder Bulk Send
         </h1>
         <p className="text-slate-600 dark:text-slate-300 mt-2">
-          Send fee payment reminders to parents via WhatsApp
+          Send parents a WhatsApp reminder about the next installment that is overdue or falls due soon
         </p>
       </div>
 
@@ -251,6 +259,16 @@ const FeeReminderBulkSend: React.FC = () => {
               className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
               placeholder="0"
             />
+            <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              Due Within (days):
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={windowDays}
+              onChange={(e) => setWindowDays(Number(e.target.value))}
+              className="w-20 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+            />
             <button
               onClick={handleSelectAll}
               className="px-4 py-2 bg-slate-600 text-white rounded-md hover:bg-slate-700"
@@ -258,6 +276,18 @@ const FeeReminderBulkSend: React.FC = () => {
               {selectedStudents.size === filteredStudents.length ? 'Deselect All' : 'Select All'}
             </button>
           </div>
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              Send at:
+            </label>
+            <input
+              type="datetime-local"
+              value={sendAt}
+              onChange={(e) => setSendAt(e.target.value)}
+              className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+              title="Leave empty to send now"
+            />
+          </div>
           <button
             onClick={handleSendReminders}
             disabled={isSending || selectedStudents.size === 0}
@@ -270,27 +300,15 @@ const FeeReminderBulkSend: React.FC = () => {
               </>
             ) : (
               <>
-                📱 Send Reminders ({selectedStudents.size})
+                📱 {sendAt ? 'Schedule' : 'Send'} Reminders ({selectedStudents.size})
               </>
             )}
           </button>
         </div>
 
-        {progress && (
-          <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md">
-            <div className="text-sm text-blue-900 dark:text-blue-100">
-              <p className="font-medium">Sending Progress:</p>
-              <p className="mt-1">Sent: {progress.sent} / {progress.total}</p>
-              {progress.errors > 0 && (
-                <p className="text-red-600 dark:text-red-400">Errors: {progress.errors}</p>
-              )}
-              <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-2 mt-2">
-                <div 
-                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${(progress.sent / progress.total) * 100}%` }}
-                ></div>
-              </div>
-            </div>
+        {batchId && (
+          <div className="mt-4">
+            <OutboxBatchProgress batchId={batchId} label="Reminder delivery" />
           </div>
         )}
       </div>
@@ -314,14 +332,20 @@ const FeeReminderBulkSend: React.FC = () => {
                   Outstanding Amount
                 </th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-slate-700 dark:text-slate-300 uppercase tracking-wider">
-                  Oldest Due Date
+                  Installment
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                  Installment Due
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                  Due Date
                 </th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
               {filteredStudents.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="px-4 py-8 text-center text-slate-500 dark:text-slate-400">
+                  <td colSpan={7} className="px-4 py-8 text-center text-slate-500 dark:text-slate-400">
                     No students with outstanding fees found
                   </td>
                 </tr>
@@ -342,7 +366,7 @@ const FeeReminderBulkSend: React.FC = () => {
                       />
                     </td>
                     <td className="px-4 py-3 text-sm font-medium text-slate-900 dark:text-white">
-                      {student.first_name} {student.last_name}
+                      {student.name}
                     </td>
                     <td className="px-4 py-3 text-sm text-slate-600 dark:text-slate-400">
                       {student.parent_phone_number_1}
@@ -351,10 +375,15 @@ const FeeReminderBulkSend: React.FC = () => {
                       ₦{student.total_outstanding.toLocaleString('en-NG', { minimumFractionDigits: 2 })}
                     </td>
                     <td className="px-4 py-3 text-sm text-slate-600 dark:text-slate-400">
-                      {student.oldest_due_date 
-                        ? new Date(student.oldest_due_date).toLocaleDateString('en-NG')
-                        : 'N/A'
-                      }
+                      {student.installment_name}
+                      <span className="block text-xs text-slate-400">{student.invoice_number}</span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-slate-900 dark:text-white">
+                      ₦{student.installment_outstanding.toLocaleString('en-NG', { minimumFractionDigits: 2 })}
+                    </td>
+                    <td className={`px-4 py-3 text-sm ${student.installment_overdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-slate-600 dark:text-slate-400'}`}>
+                      {new Date(student.installment_due_date).toLocaleDateString('en-NG')}
+                      {student.installment_overdue && ' (overdue)'}
                     </td>
                   </tr>
                 ))
@@ -1,9 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import type { GradingScheme, GradingSchemeRule, SchoolConfig } from '../types';
+import type { GradingScheme, GradingSchemeRule, PromotionRules, SchoolConfig } from '../types';
 import Spinner from './common/Spinner';
 import { TrashIcon, PlusCircleIcon, RefreshIcon } from './common/icons';
 import { requireSupabaseClient } from '../services/supabaseClient';
+import { DEFAULT_PROMOTION_RULES } from '../services/promotionPlanner';
 
 interface GradingSchemeFormProps {
     scheme: Partial<GradingScheme>;
@@ -87,6 +88,10 @@ const GradingSchemeManager: React.FC<GradingSchemeManagerProps> = ({ gradingSche
     const [editingScheme, setEditingScheme] = useState<Partial<GradingScheme> | null>(null);
     const [termWeights, setTermWeights] = useState<{ term1: number; term2: number; term3: number }>({ term1: 10, term2: 10, term3: 80 });
     const [isSavingWeights, setIsSavingWeights] = useState(false);
+    const [promotionRules, setPromotionRules] = useState<PromotionRules>(DEFAULT_PROMOTION_RULES);
+    const [compulsoryText, setCompulsoryText] = useState(DEFAULT_PROMOTION_RULES.compulsory_subjects.join(', '));
+    const [nextLevelsText, setNextLevelsText] = useState('');
+    const [isSavingRules, setIsSavingRules] = useState(false);
     const [isRecalculating, setIsRecalculating] = useState(false);
     const [showRecalculateModal, setShowRecalculateModal] = useState(false);
     const [schemeToRecalculate, setSchemeToRecalculate] = useState<number | null>(null);
@@ -95,6 +100,12 @@ const GradingSchemeManager: React.FC<GradingSchemeManagerProps> = ({ gradingSche
         if (schoolConfig?.term_weights) {
             setTermWeights(schoolConfig.term_weights);
         }
+        if (schoolConfig?.promotion_rules) {
+            const rules = { ...DEFAULT_PROMOTION_RULES, ...schoolConfig.promotion_rules };
+            setPromotionRules(rules);
+            setCompulsoryText(rules.compulsory_subjects.join(', '));
+            setNextLevelsText(Object.entries(rules.next_levels || {}).map(([from, to]) => `${from} = ${to ?? ''}`).join('\n'));
+        }
     }, [schoolConfig]);
 
     const handleSave = async (scheme: Partial<GradingScheme>) => {
@@ -154,6 +165,28 @@ const GradingSchemeManager: React.FC<GradingSchemeManagerProps> = ({ gradingSche
         setIsSavingWeights(false);
     };
     
+    const handleSavePromotionRules = async () => {
+        // One "JSS 3 = SS 1" pair per line; an empty right-hand side marks a final year
+        const next_levels: Record<string, string | null> = {};
+        nextLevelsText.split('\n').forEach(line => {
+            const [from, to] = line.split('=').map(part => part?.trim());
+            if (from) next_levels[from] = to || null;
+        });
+        setIsSavingRules(true);
+        await onSaveSchoolConfig({
+            promotion_rules: {
+                ...promotionRules,
+                compulsory_subjects: compulsoryText.split(',').map(subject => subject.trim()).filter(Boolean),
+                next_levels,
+            },
+        });
+        setIsSavingRules(false);
+    };
+
+    const handlePromotionRuleChange = (field: 'min_average' | 'subject_pass_mark' | 'max_carry_over' | 'probation_margin', value: number) => {
+        setPromotionRules(prev => ({ ...prev, [field]: value }));
+    };
+
     const handleWeightChange = (term: keyof typeof termWeights, value: number) => {
         setTermWeights(prev => ({ ...prev, [term]: value }));
     }
@@ -188,6 +221,45 @@ const GradingSchemeManager: React.FC<GradingSchemeManagerProps> = ({ gradingSche
                 </div>
              </div>
 
+             {/* Promotion Rules Section */}
+             <div className="p-4 border border-green-200 bg-green-50/50 dark:bg-green-900/10 dark:border-green-800 rounded-xl">
+                <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-2">Promotion Rules</h3>
+                <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">Applied to annual results to recommend promotion, probation or repeating. Principals can override individual decisions before approving.</p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                        <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Min. Average</label>
+                        <input type="number" value={promotionRules.min_average} onChange={e => handlePromotionRuleChange('min_average', Number(e.target.value))} className="w-full p-2 border rounded-md" />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Subject Pass Mark</label>
+                        <input type="number" value={promotionRules.subject_pass_mark} onChange={e => handlePromotionRuleChange('subject_pass_mark', Number(e.target.value))} className="w-full p-2 border rounded-md" />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Max Carry-over</label>
+                        <input type="number" min={0} value={promotionRules.max_carry_over} onChange={e => handlePromotionRuleChange('max_carry_over', Number(e.target.value))} className="w-full p-2 border rounded-md" />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Probation Margin</label>
+                        <input type="number" min={0} value={promotionRules.probation_margin} onChange={e => handlePromotionRuleChange('probation_margin', Number(e.target.value))} className="w-full p-2 border rounded-md" />
+                    </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                    <div>
+                        <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Compulsory Passes (comma separated)</label>
+                        <input type="text" value={compulsoryText} onChange={e => setCompulsoryText(e.target.value)} className="w-full p-2 border rounded-md" />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Next Level Overrides</label>
+                        <textarea rows={2} value={nextLevelsText} onChange={e => setNextLevelsText(e.target.value)} placeholder={'JSS 3 = SS 1\nSS 3 ='} className="w-full p-2 border rounded-md text-sm" />
+                    </div>
+                </div>
+                <div className="mt-4 flex justify-end">
+                    <button onClick={handleSavePromotionRules} disabled={isSavingRules} className="px-4 py-2 bg-green-600 text-white rounded-md text-sm font-semibold disabled:opacity-50">
+                        {isSavingRules ? <Spinner size="sm" /> : 'Save Promotion Rules'}
+                    </button>
+                </div>
+             </div>
+
             {/* Grading Schemes Section */}
             <div className="space-y-4">
                 {editingScheme ? (
@@ -8,6 +8,7 @@
 import React, { useState, useEffect } from 'react';
 import { requireSupabaseClient } from '../services/supabaseClient';
 import { testGreenApiConnection } from '../services/greenApiService';
+import { getSupabaseConfig } from '../services/runtimeConfig';
 import type { GreenApiSettings } from '../types';
 
 interface GreenApiSettingsProps {
@@ -266,6 +267,36 @@ export function GreenApiSettingsComponent({ schoolId, campusId, onClose, addToas
                     </label>
                 </div>
 
+                {/* Incoming Messages (webhook) */}
+                {settings?.webhook_token && (
+                    <div className="border-t border-gray-200 pt-6">
+                        <h3 className="text-lg font-semibold text-gray-800 mb-2">
+                            Incoming Messages
+                        </h3>
+                        <p className="text-sm text-gray-600 mb-3">
+                            To receive parent replies in the WhatsApp Inbox, set these under your instance's
+                            notification settings in the Green-API console and turn on incoming message
+                            and outgoing message status notifications.
+                        </p>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Webhook URL (webhookUrl)</label>
+                        <input
+                            type="text"
+                            readOnly
+                            value={`${getSupabaseConfig().url}/functions/v1/greenapi-webhook`}
+                            onFocus={(e) => e.target.select()}
+                            className="w-full px-4 py-2 mb-3 border border-gray-300 rounded-lg bg-gray-50 font-mono text-xs"
+                        />
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Authorization token (webhookUrlToken)</label>
+                        <input
+                            type="text"
+                            readOnly
+                            value={settings.webhook_token}
+                            onFocus={(e) => e.target.select()}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-gray-50 font-mono text-xs"
+                        />
+                    </div>
+                )}
+
                 {/* Test Connection Section */}
                 <div className="border-t border-gray-200 pt-6">
                     <h3 className="text-lg font-semibold text-gray-800 mb-4">
@@ -331,6 +362,7 @@ export function GreenApiSettingsComponent({ schoolId, campusId, onClose, addToas
                 <ul className="text-sm text-blue-800 space-y-1">
                     <li>• Fixed monthly cost of $12 instead of per-message pricing</li>
                     <li>• Supports text messages, files, buttons, and forwarding</li>
+                    <li>• Parent replies and button answers appear in the WhatsApp Inbox</li>
                     <li>• Files can be uploaded for bulk sending (valid 15 days)</li>
                     <li>• SMS will continue using KudiSMS at ₦5.95/message</li>
                 </ul>
@@ -22,6 +22,10 @@ const CampusesManager = lazy(() => import('./CampusesManager'));
 const MyLeaveView = lazy(() => import('./MyLeaveView'));
 const LeaveApprovalView = lazy(() => import('./LeaveApprovalView'));
 const PensionManager = lazy(() => import('./PensionManager'));
+const PayeTaxManager = lazy(() => import('./PayeTaxManager'));
+const PayrollComponentsManager = lazy(() => import('./PayrollComponentsManager'));
+const LoansManager = lazy(() => import('./LoansManager'));
+const MyLoansView = lazy(() => import('./MyLoansView'));
 const PayrollPreRunManager = lazy(() => import('./PayrollPreRunManager'));
 const PayrollApprovalDashboard = lazy(() => import('./PayrollApprovalDashboard'));
 const StaffPayslipReview = lazy(() => import('./StaffPayslipReview'));
@@ -138,7 +142,7 @@ const BankDetailsModal: React.FC<{
     );
 };
 
-type ModuleSection = 'overview' | 'my_payslips' | 'payslip_review' | 'my_leave' | 'my_adjustments' | 'run_payroll' | 'pre_run' | 'approvals' | 'payroll_history' | 'staff_data' | 'adjustments' | 'pension' | 'leave_approvals' | 'shifts' | 'leave_types' | 'campuses' | 'settings';
+type ModuleSection = 'overview' | 'my_payslips' | 'payslip_review' | 'my_leave' | 'my_adjustments' | 'my_loans' | 'run_payroll' | 'pre_run' | 'approvals' | 'payroll_history' | 'staff_data' | 'adjustments' | 'components' | 'pension' | 'paye' | 'loans' | 'leave_approvals' | 'shifts' | 'leave_types' | 'campuses' | 'settings';
 
 const HRPayrollModule: React.FC<HRPayrollModuleProps> = ({
     userProfile,
@@ -273,13 +277,17 @@ const HRPayrollModule: React.FC<HRPayrollModuleProps> = ({
         { id: 'payslip_review' as const, label: 'Review Payslip', icon: CheckCircleIcon, show: true },
         { id: 'my_leave' as const, label: 'My Leave', icon: CalendarIcon, show: true },
         { id: 'my_adjustments' as const, label: 'My Adjustments', icon: EditIcon, show: true },
+        { id: 'my_loans' as const, label: 'My Loans', icon: BanknotesIcon, show: true },
         { id: 'run_payroll' as const, label: 'Run Payroll', icon: BanknotesIcon, show: canManagePayroll, divider: true },
         { id: 'pre_run' as const, label: 'Pre-Run Manager', icon: ClockIcon, show: canManagePayroll },
         { id: 'approvals' as const, label: 'Approval Dashboard', icon: CheckCircleIcon, show: canManagePayroll },
         { id: 'payroll_history' as const, label: 'Payroll History', icon: ClockIcon, show: canManagePayroll },
         { id: 'staff_data' as const, label: 'Staff Data', icon: UsersIcon, show: canManagePayroll },
         { id: 'adjustments' as const, label: 'Manage Adjustments', icon: EditIcon, show: canManagePayroll },
+        { id: 'components' as const, label: 'Pay Components', icon: BanknotesIcon, show: canManagePayroll },
         { id: 'pension' as const, label: 'Pension', icon: SaveIcon, show: canManagePayroll },
+        { id: 'paye' as const, label: 'PAYE Tax', icon: BanknotesIcon, show: canManagePayroll },
+        { id: 'loans' as const, label: 'Loans & Advances', icon: BanknotesIcon, show: canManagePayroll },
         { id: 'leave_approvals' as const, label: 'Leave Approvals', icon: CalendarIcon, show: canManagePayroll || canManageHR, divider: true },
         { id: 'shifts' as const, label: 'Shifts', icon: ClockIcon, show: canManageHR },
         { id: 'leave_types' as const, label: 'Leave Types', icon: CalendarIcon, show: canManageHR },
@@ -433,6 +441,12 @@ const HRPayrollModule: React.FC<HRPayrollModuleProps> = ({
                         />
                     </Suspense>
                 );
+            case 'my_loans':
+                return (
+                    <Suspense fallback={<Spinner />}>
+                        <MyLoansView userProfile={safeUserProfile} addToast={addToast} />
+                    </Suspense>
+                );
             case 'run_payroll':
                 return (
                     <Suspense fallback={<Spinner />}>
@@ -475,12 +489,30 @@ const HRPayrollModule: React.FC<HRPayrollModuleProps> = ({
                         <PayrollAdjustmentsManager users={safeUsers} addToast={addToast} campuses={safeCampuses} />
                     </Suspense>
                 );
+            case 'components':
+                return (
+                    <Suspense fallback={<Spinner />}>
+                        <PayrollComponentsManager users={safeUsers} schoolId={safeUserProfile.school_id} addToast={addToast} />
+                    </Suspense>
+                );
             case 'pension':
                 return (
                     <Suspense fallback={<Spinner />}>
                         <PensionManager users={safeUsers} schoolId={safeUserProfile.school_id} addToast={addToast} />
                     </Suspense>
                 );
+            case 'paye':
+                return (
+                    <Suspense fallback={<Spinner />}>
+                        <PayeTaxManager schoolId={safeUserProfile.school_id} schoolName={schoolConfig?.display_name || ''} addToast={addToast} />
+                    </Suspense>
+                );
+            case 'loans':
+                return (
+                    <Suspense fallback={<Spinner />}>
+                        <LoansManager schoolId={safeUserProfile.school_id} currentUserId={safeUserProfile.id} addToast={addToast} />
+                    </Suspense>
+                );
             case 'leave_approvals':
                 return (
                     <Suspense fallback={<Spinner />}>
@@ -549,7 +581,7 @@ const HRPayrollModule: React.FC<HRPayrollModuleProps> = ({
                     <p className="text-slate-600 dark:text-slate-300 mt-1">Manage staff, salaries, leave, and HR operations.</p>
                 </div>
                 
-                {['my_payslips', 'my_leave', 'my_adjustments'].includes(activeSection) && (
+                {['my_payslips', 'my_leave', 'my_adjustments', 'my_loans'].includes(activeSection) && (
                     <button 
                         onClick={() => setIsBankModalOpen(true)} 
                         className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 font-semibold rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 shadow-sm transition-colors"
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { requireSupabaseClient } from '../services/supabaseClient';
-import type { KudiSmsSettings, SmsTemplate, NotificationChannel, NotificationType } from '../types';
+import type { KudiSmsSettings, SmsTemplate, NotificationChannel, NotificationType, QuietHours } from '../types';
 import Spinner from './common/Spinner';
 import { mapSupabaseError } from '../utils/errorHandling';
 import { getKudiSmsBalance, testSendMessage } from '../services/kudiSmsService';
 import { getSmsTemplates, saveSmsTemplate } from '../services/smsService';
+import { NOTIFICATION_CHANNELS, normalizeChannels, type DeliveryChannel } from '../services/emailNotifications';
 
 interface Campus {
     id: number;
@@ -19,6 +20,8 @@ type TabType = 'configuration' | 'channels' | 'sms-templates' | 'whatsapp-templa
 
 const SMS_PAGE_LENGTH = 160; // Characters per SMS page
 
+const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: '21:00', end: '07:00' };
+
 const NOTIFICATION_TYPES: Array<{ key: NotificationType; label: string }> = [
     { key: 'payment_receipt', label: 'Payment Receipt' },
     { key: 'homework_missing', label: 'Homework Missing' },
@@ -32,6 +35,7 @@ const NOTIFICATION_TYPES: Array<{ key: NotificationType; label: string }> = [
     { key: 'subject_late', label: 'Subject Late' },
     { key: 'report_card_ready', label: 'Report Card Ready' },
     { key: 'emergency_broadcast', label: 'Emergency Broadcast' },
+    { key: 'cover_assigned', label: 'Cover Assigned' },
 ];
 
 /**
@@ -59,11 +63,12 @@ const KudiSmsSettingsComponent: React.FC<KudiSmsSettingsProps> = ({ schoolId })
         token: '',
         sender_id: '',
         enable_fallback: true,
-        is_active: true
+        is_active: true,
+        quiet_hours: DEFAULT_QUIET_HOURS
     });
 
     // Channels tab state
-    const [channelConfig, setChannelConfig] = useState<Record<string, NotificationChannel>>({});
+    const [channelConfig, setChannelConfig] = useState<Record<string, NotificationChannel[]>>({});
 
     // WhatsApp templates tab state
     const [whatsappTemplates, setWhatsappTemplates] = useState<Record<string, string>>({});
@@ -138,9 +143,13 @@ const KudiSmsSettingsComponent: React.FC<KudiSmsSettingsProps> = ({ schoolId })
                     token: '',
                     sender_id: settingsData.sender_id || '',
                     enable_fallback: settingsData.enable_fallback ?? true,
-                    is_active: settingsData.is_active
+                    is_active: settingsData.is_active,
+                    quiet_hours: settingsData.quiet_hours || DEFAULT_QUIET_HOURS
                 });
-                setChannelConfig(settingsData.notification_channels || {});
+                setChannelConfig(Object.fromEntries(
+                    Object.entries(settingsData.notification_channels || {})
+                        .map(([type, value]) => [type, normalizeChannels(value as NotificationChannel | NotificationChannel[])])
+                ));
                 setWhatsappTemplates(settingsData.whatsapp_template_codes || {});
             }
 
@@ -199,7 +208,8 @@ const KudiSmsSettingsComponent: React.FC<KudiSmsSettingsProps> = ({ schoolId })
                 campus_id: configForm.campus_id || null,
                 sender_id: configForm.sender_id,
                 enable_fallback: configForm.enable_fallback,
-                is_active: configForm.is_active
+                is_active: configForm.is_active,
+                quiet_hours: configForm.quiet_hours
             };
 
             if (configForm.token) {
@@ -233,6 +243,16 @@ const KudiSmsSettingsComponent: React.FC<KudiSmsSettingsProps> = ({ schoolId })
         }
     };
 
+    // Every type keeps at least one channel
+    const toggleChannel = (type: string, channel: DeliveryChannel) => {
+        const current = normalizeChannels(channelConfig[type]);
+        const next = current.includes(channel)
+            ? current.filter(c => c !== channel)
+            : [...current, channel];
+        if (next.length === 0) return;
+        setChannelConfig({ ...channelConfig, [type]: normalizeChannels(next) });
+    };
+
     const handleSaveChannels = async () => {
         if (!settings) {
             alert('Please configure basic settings first');
@@ -599,6 +619,41 @@ const KudiSmsSettingsComponent: React.FC<KudiSmsSettingsProps> = ({ schoolId })
                                     </label>
                                 </div>
 
+                                <div className="space-y-2">
+                                    <div className="flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            id="quiet_hours_enabled"
+                                            checked={configForm.quiet_hours.enabled}
+                                            onChange={(e) => setConfigForm({ ...configForm, quiet_hours: { ...configForm.quiet_hours, enabled: e.target.checked } })}
+                                            className="mr-2"
+                                        />
+                                        <label htmlFor="quiet_hours_enabled" className="text-sm text-slate-700 dark:text-slate-300">
+                                            Quiet hours (hold messages until the window ends)
+                                        </label>
+                                    </div>
+                                    {configForm.quiet_hours.enabled && (
+                                        <div className="flex items-center gap-2 ml-6">
+                                            <input
+                                                type="time"
+                                                value={configForm.quiet_hours.start}
+                                                onChange={(e) => setConfigForm({ ...configForm, quiet_hours: { ...configForm.quiet_hours, start: e.target.value } })}
+                                                className="p-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white"
+                                            />
+                                            <span className="text-sm text-slate-600 dark:text-slate-400">to</span>
+                                            <input
+                                                type="time"
+                                                value={configForm.quiet_hours.end}
+                                                onChange={(e) => setConfigForm({ ...configForm, quiet_hours: { ...configForm.quiet_hours, end: e.target.value } })}
+                                                className="p-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white"
+                                            />
+                                        </div>
+                                    )}
+                                    <p className="text-xs text-slate-500 ml-6">
+                                        Lagos time. Emergency broadcasts are always sent immediately.
+                                    </p>
+                                </div>
+
                                 <div className="flex items-center">
                                     <input
                                         type="checkbox"
@@ -645,7 +700,7 @@ const KudiSmsSettingsComponent: React.FC<KudiSmsSettingsProps> = ({ schoolId })
                                 Per-Notification Channel Selection
                             </h4>
                             <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
-                                Select the preferred channel for each notification type
+                                Tick the channels each notification type is sent on
                             </p>
 
                             <div className="overflow-x-auto">
@@ -668,39 +723,17 @@ const KudiSmsSettingsComponent: React.FC<KudiSmsSettingsProps> = ({ schoolId })
                                                 </td>
                                                 <td className="py-3 px-4">
                                                     <div className="flex gap-4">
-                                                        <label className="flex items-center">
-                                                            <input
-                                                                type="radio"
-                                                                name={`channel-${notif.key}`}
-                                                                value="sms"
-                                                                checked={channelConfig[notif.key] === 'sms'}
-                                                                onChange={() => setChannelConfig({ ...channelConfig, [notif.key]: 'sms' })}
-                                                                className="mr-2"
-                                                            />
-                                                            <span className="text-sm text-slate-700 dark:text-slate-300">SMS</span>
-                                                        </label>
-                                                        <label className="flex items-center">
-                                                            <input
-                                                                type="radio"
-                                                                name={`channel-${notif.key}`}
-                                                                value="whatsapp"
-                                                                checked={channelConfig[notif.key] === 'whatsapp'}
-                                                                onChange={() => setChannelConfig({ ...channelConfig, [notif.key]: 'whatsapp' })}
-                                                                className="mr-2"
-                                                            />
-                                                            <span className="text-sm text-slate-700 dark:text-slate-300">WhatsApp</span>
-                                                        </label>
-                                                        <label className="flex items-center">
-                                                            <input
-                                                                type="radio"
-                                                                name={`channel-${notif.key}`}
-                                                                value="both"
-                                                                checked={channelConfig[notif.key] === 'both'}
-                                                                onChange={() => setChannelConfig({ ...channelConfig, [notif.key]: 'both' })}
-                                                                className="mr-2"
-                                                            />
-                                                            <span className="text-sm text-slate-700 dark:text-slate-300">Both</span>
-                                                        </label>
+                                                        {NOTIFICATION_CHANNELS.map(channel => (
+                                                            <label key={channel.id} className="flex items-center">
+                                                                <input
+                                                                    type="checkbox"
+                                                                    checked={normalizeChannels(channelConfig[notif.key]).includes(channel.id)}
+                                                                    onChange={() => toggleChannel(notif.key, channel.id)}
+                                                                    className="mr-2"
+                                                                />
+                                                                <span className="text-sm text-slate-700 dark:text-slate-300">{channel.label}</span>
+                                                            </label>
+                                                        ))}
                                                     </div>
                                                 </td>
                                             </tr>
@@ -711,7 +744,9 @@ const KudiSmsSettingsComponent: React.FC<KudiSmsSettingsProps> = ({ schoolId })
 
                             <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded">
                                 <p className="text-xs text-blue-800 dark:text-blue-300">
-                                    <strong>Both:</strong> Try WhatsApp first, fallback to SMS if fails
+                                    Each ticked channel gets its own copy. When WhatsApp fails and SMS fallback is on, an SMS is sent instead.
+                                    Email goes to the parent email on the student record (staff email for payslips) with report cards,
+                                    invoices, receipts and payslips attached as PDFs. Parents without an email address still get the other channels.
                                 </p>
                             </div>
 
@@ -23,7 +23,8 @@ const NOTIFICATION_TYPES: Array<{ key: NotificationType; label: string }> = [
     { key: 'subject_absentee', label: 'Subject Absentee' },
     { key: 'subject_late', label: 'Subject Late' },
     { key: 'report_card_ready', label: 'Report Card Ready' },
-    { key: 'emergency_broadcast', label: 'Emergency Broadcast' }
+    { key: 'emergency_broadcast', label: 'Emergency Broadcast' },
+    { key: 'cover_assigned', label: 'Cover Assigned' }
 ];
 
 // Configuration Tab Component
@@ -45,7 +45,7 @@ const LeaveTypesManager: React.FC<LeaveTypesManagerProps> = ({ leaveTypes, onSav
                     <div key={item.id} className="p-3 border rounded-lg flex justify-between items-center">
                         <div>
                             <p className="font-semibold">{item.name}</p>
-                            <p className="text-sm text-slate-500">Days Allowed: {item.days_allowed || 'Unlimited'}</p>
+                            <p className="text-sm text-slate-500">Days Allowed: {item.days_allowed || 'Unlimited'}{item.is_unpaid ? ' · Unpaid' : ''}</p>
                         </div>
                         <div className="flex gap-2">
                             <button onClick={() => setEditing(item)} className="text-sm font-semibold">Edit</button>
@@ -89,6 +89,7 @@ const ItemForm: React.FC<{
                 <input name="days_allowed" type="number" value={localItem.days_allowed || ''} onChange={handleChange} placeholder="Days Allowed Per Year" className="p-2 border rounded"/>
             </div>
             <label className="flex items-center gap-2"><input type="checkbox" name="requires_approval" checked={localItem.requires_approval !== false} onChange={handleChange} /> Requires Approval</label>
+            <label className="flex items-center gap-2"><input type="checkbox" name="is_unpaid" checked={!!localItem.is_unpaid} onChange={handleChange} /> Unpaid (approved days are pro-rated out of base pay)</label>
             <div className="flex justify-end gap-2">
                 <button type="button" onClick={onCancel}>Cancel</button>
                 <button onClick={() => onSave(localItem)} disabled={isSaving}>{isSaving ? <Spinner size="sm"/> : 'Save'}</button>
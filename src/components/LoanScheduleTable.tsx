@@ -0,0 +1,53 @@
+import React from 'react';
+import type { StaffLoanInstallment } from '../types';
+import type { ScheduledInstallment } from '../services/staffLoans';
+import { formatNaira } from '../utils/pensionCalculator';
+
+const STATUS_STYLES: Record<StaffLoanInstallment['status'], string> = {
+    pending: 'text-slate-500',
+    deducted: 'text-green-600 dark:text-green-400',
+    settled: 'text-blue-600 dark:text-blue-400',
+};
+
+/** Repayment schedule; a preview (no status column) while terms are being set */
+const LoanScheduleTable: React.FC<{ schedule: (ScheduledInstallment & Partial<Pick<StaffLoanInstallment, 'id' | 'status'>>)[] }> = ({ schedule }) => {
+    const showStatus = schedule.some(i => i.status);
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-xs text-slate-500 border-b border-slate-200 dark:border-slate-700">
+                        <th className="py-2 pr-4">#</th>
+                        <th className="py-2 pr-4">Month</th>
+                        <th className="py-2 pr-4 text-right">Principal</th>
+                        <th className="py-2 pr-4 text-right">Interest</th>
+                        <th className="py-2 pr-4 text-right">Installment</th>
+                        <th className="py-2 pr-4 text-right">Balance After</th>
+                        {showStatus && <th className="py-2">Status</th>}
+                    </tr>
+                </thead>
+                <tbody>
+                    {[...schedule]
+                        .sort((a, b) => a.installment_number - b.installment_number)
+                        .map(installment => (
+                            <tr key={installment.id ?? installment.installment_number} className="border-b border-slate-100 dark:border-slate-800">
+                                <td className="py-1.5 pr-4">{installment.installment_number}</td>
+                                <td className="py-1.5 pr-4">{installment.period_key}</td>
+                                <td className="py-1.5 pr-4 text-right">{formatNaira(Number(installment.principal))}</td>
+                                <td className="py-1.5 pr-4 text-right">{formatNaira(Number(installment.interest))}</td>
+                                <td className="py-1.5 pr-4 text-right font-medium">{formatNaira(Number(installment.amount))}</td>
+                                <td className="py-1.5 pr-4 text-right">{formatNaira(Number(installment.balance_after))}</td>
+                                {showStatus && (
+                                    <td className={`py-1.5 capitalize ${installment.status ? STATUS_STYLES[installment.status] : ''}`}>
+                                        {installment.status}
+                                    </td>
+                                )}
+                            </tr>
+                        ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default LoanScheduleTable;
@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { StaffLoan } from '../types';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import {
+    LOAN_TYPE_LABELS,
+    addMonths,
+    approveStaffLoan,
+    buildLoanSchedule,
+    closeStaffLoanRequest,
+    generateLoanBalanceCSV,
+    getStaffLoans,
+    loanBalance,
+    payoffAmount,
+    settleStaffLoan
+} from '../services/staffLoans';
+import type { ScheduledInstallment } from '../services/staffLoans';
+import { downloadCSV } from '../utils/bankCodes';
+import { formatNaira } from '../utils/pensionCalculator';
+import { DownloadIcon } from './common/icons';
+import Spinner from './common/Spinner';
+import LoanScheduleTable from './LoanScheduleTable';
+
+interface LoansManagerProps {
+    schoolId: number;
+    currentUserId: string;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+type LoanFilter = 'pending' | 'active' | 'closed';
+
+interface ApprovalTerms {
+    principal: number;
+    interest_rate: number;
+    installments: number;
+    first_period: string;
+}
+
+const now = new Date();
+const NEXT_PERIOD = addMonths(`${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`, 1);
+
+const LoansManager: React.FC<LoansManagerProps> = ({ schoolId, currentUserId, addToast }) => {
+    const [loans, setLoans] = useState<StaffLoan[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [filter, setFilter] = useState<LoanFilter>('pending');
+    const [reviewing, setReviewing] = useState<StaffLoan | null>(null);
+    const [terms, setTerms] = useState<ApprovalTerms | null>(null);
+    const [notes, setNotes] = useState('');
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        loadLoans();
+    }, [schoolId]);
+
+    const loadLoans = async () => {
+        setLoading(true);
+        try {
+            setLoans(await getStaffLoans(requireSupabaseClient(), schoolId));
+        } catch (error: any) {
+            addToast(`Failed to load loans: ${error.message}`, 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const filtered = useMemo(() => loans.filter(loan => {
+        if (filter === 'closed') return ['repaid', 'rejected', 'cancelled'].includes(loan.status);
+        return loan.status === filter;
+    }), [loans, filter]);
+
+    const activeLoans = loans.filter(l => l.status === 'active');
+    const totalOutstanding = activeLoans.reduce((sum, loan) => sum + loanBalance(loan).outstanding, 0);
+    const pendingCount = loans.filter(l => l.status === 'pending').length;
+
+    const preview = useMemo((): { schedule: ScheduledInstallment[] } | { error: string } | null => {
+        if (!terms) return null;
+        try {
+            return { schedule: buildLoanSchedule(Number(terms.principal), Number(terms.interest_rate), Number(terms.installments), terms.first_period) };
+        } catch (error: any) {
+            return { error: error.message };
+        }
+    }, [terms]);
+
+    const startReview = (loan: StaffLoan) => {
+        setReviewing(loan);
+        setNotes('');
+        setTerms({
+            principal: Number(loan.principal),
+            interest_rate: loan.loan_type === 'advance' ? 0 : Number(loan.interest_rate) || 0,
+            installments: loan.installments || 1,
+            first_period: NEXT_PERIOD
+        });
+    };
+
+    const closeReview = () => {
+        setReviewing(null);
+        setTerms(null);
+        setNotes('');
+    };
+
+    const handleApprove = async () => {
+        if (!reviewing || !terms || !preview || 'error' in preview) return;
+        setIsSaving(true);
+        try {
+            await approveStaffLoan(requireSupabaseClient(), reviewing, {
+                principal: Number(terms.principal),
+                interest_rate: Number(terms.interest_rate) || 0,
+                installments: Number(terms.installments),
+                first_period: terms.first_period
+            }, currentUserId);
+            addToast(`${LOAN_TYPE_LABELS[reviewing.loan_type]} approved for ${reviewing.staff?.name || 'staff'}`, 'success');
+            closeReview();
+            await loadLoans();
+        } catch (error: any) {
+            addToast(`Failed to approve: ${error.message}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReject = async () => {
+        if (!reviewing) return;
+        setIsSaving(true);
+        try {
+            await closeStaffLoanRequest(requireSupabaseClient(), reviewing.id, 'rejected', notes.trim());
+            addToast('Request rejected', 'success');
+            closeReview();
+            await loadLoans();
+        } catch (error: any) {
+            addToast(`Failed to reject: ${error.message}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handlePayoff = async (loan: StaffLoan) => {
+        const amount = payoffAmount(loan);
+        if (!window.confirm(`Record an early payoff of ${formatNaira(amount)} from ${loan.staff?.name || 'this staff member'}? Remaining installments will stop and interest not yet due is waived.`)) return;
+        setIsSaving(true);
+        try {
+            await settleStaffLoan(requireSupabaseClient(), loan);
+            addToast('Loan paid off', 'success');
+            await loadLoans();
+        } catch (error: any) {
+            addToast(`Failed to record payoff: ${error.message}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleExport = () => {
+        if (activeLoans.length === 0) return;
+        downloadCSV(generateLoanBalanceCSV(loans), `loan-balances-${new Date().toISOString().slice(0, 10)}.csv`);
+    };
+
+    const inputClasses = "mt-1 w-full p-2 bg-white/50 dark:bg-slate-800/50 border border-slate-300/60 dark:border-slate-700/60 rounded-md focus:ring-2 focus:ring-blue-500 text-sm";
+    const labelClasses = "block text-sm font-semibold text-slate-700 dark:text-slate-200";
+
+    if (loading) {
+        return <div className="flex justify-center py-8"><Spinner /></div>;
+    }
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-slate-800 dark:text-white">Staff Loans & Advances</h3>
+                <button
+                    onClick={handleExport}
+                    disabled={activeLoans.length === 0}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                >
+                    <DownloadIcon className="w-4 h-4" /> Outstanding Balances
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="p-4 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700">
+                    <p className="text-sm text-slate-500">Active Loans</p>
+                    <p className="text-2xl font-bold text-slate-900 dark:text-white">{activeLoans.length}</p>
+                </div>
+                <div className="p-4 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700">
+                    <p className="text-sm text-slate-500">Outstanding</p>
+                    <p className="text-2xl font-bold text-red-600 dark:text-red-400">{formatNaira(totalOutstanding)}</p>
+                </div>
+                <div className="p-4 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700">
+                    <p className="text-sm text-slate-500">Awaiting Approval</p>
+                    <p className="text-2xl font-bold text-amber-600 dark:text-amber-400">{pendingCount}</p>
+                </div>
+            </div>
+
+            <div className="flex gap-2">
+                {(['pending', 'active', 'closed'] as LoanFilter[]).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setFilter(option)}
+                        className={`px-3 py-1.5 text-sm font-medium rounded-lg capitalize ${
+                            filter === option ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'
+                        }`}
+                    >
+                        {option}
+                    </button>
+                ))}
+            </div>
+
+            {reviewing && terms && (
+                <div className="p-6 border border-blue-200 dark:border-blue-800 rounded-xl bg-blue-50/50 dark:bg-blue-900/10 space-y-4">
+                    <div>
+                        <h4 className="font-semibold text-slate-800 dark:text-white">
+                            {LOAN_TYPE_LABELS[reviewing.loan_type]} request from {reviewing.staff?.name || 'Unknown'}
+                        </h4>
+                        <p className="text-sm text-slate-500">
+                            Asked for {formatNaira(Number(reviewing.principal))} over {reviewing.installments} month{reviewing.installments === 1 ? '' : 's'}
+                            {reviewing.reason ? ` — ${reviewing.reason}` : ''}
+                        </p>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div>
+                            <label className={labelClasses}>Amount (₦)</label>
+                            <input type="number" min="0" value={terms.principal} onChange={e => setTerms({ ...terms, principal: Number(e.target.value) })} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Interest (% a year)</label>
+                            <input type="number" min="0" step="0.1" value={terms.interest_rate} onChange={e => setTerms({ ...terms, interest_rate: Number(e.target.value) })} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Installments</label>
+                            <input type="number" min="1" step="1" value={terms.installments} onChange={e => setTerms({ ...terms, installments: Number(e.target.value) })} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>First Deduction</label>
+                            <input type="month" value={terms.first_period} onChange={e => setTerms({ ...terms, first_period: e.target.value })} className={inputClasses} />
+                        </div>
+                    </div>
+                    {preview && 'error' in preview && <p className="text-sm text-red-600">{preview.error}</p>}
+                    {preview && 'schedule' in preview && <LoanScheduleTable schedule={preview.schedule} />}
+                    <div>
+                        <label className={labelClasses}>Notes (shown to staff if rejected)</label>
+                        <input type="text" value={notes} onChange={e => setNotes(e.target.value)} className={inputClasses} />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={closeReview} disabled={isSaving} className="px-4 py-2 text-sm">Cancel</button>
+                        <button onClick={handleReject} disabled={isSaving} className="px-4 py-2 text-sm font-semibold text-red-600 border border-red-200 rounded-lg hover:bg-red-50">
+                            Reject
+                        </button>
+                        <button
+                            onClick={handleApprove}
+                            disabled={isSaving || !preview || 'error' in preview}
+                            className="px-4 py-2 text-sm font-semibold bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-green-400 flex items-center gap-2"
+                        >
+                            {isSaving ? <Spinner size="sm" /> : null} Approve
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {filtered.length === 0 && (
+                    <p className="text-sm text-slate-500 py-6 text-center">No {filter} loans.</p>
+                )}
+                {filtered.map(loan => {
+                    const balance = loanBalance(loan);
+                    return (
+                        <div key={loan.id} className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900">
+                            <div className="flex flex-wrap justify-between items-center gap-3">
+                                <div>
+                                    <p className="font-semibold text-slate-800 dark:text-white">{loan.staff?.name || 'Unknown'}</p>
+                                    <p className="text-sm text-slate-500">
+                                        {LOAN_TYPE_LABELS[loan.loan_type]} · {formatNaira(Number(loan.principal))}
+                                        {Number(loan.interest_rate) > 0 ? ` at ${loan.interest_rate}%` : ''} · {loan.installments} month{loan.installments === 1 ? '' : 's'}
+                                        {loan.status !== 'active' && loan.status !== 'pending' ? ` · ${loan.status}` : ''}
+                                    </p>
+                                    {loan.status === 'active' && (
+                                        <p className="text-sm text-slate-600 dark:text-slate-300">
+                                            Outstanding {formatNaira(balance.outstanding)} · {balance.installments_left} left
+                                            {balance.next_installment ? ` · next ${balance.next_installment.period_key}` : ''}
+                                        </p>
+                                    )}
+                                    {loan.settlement_amount ? (
+                                        <p className="text-sm text-slate-500">Paid off early with {formatNaira(Number(loan.settlement_amount))}</p>
+                                    ) : null}
+                                </div>
+                                <div className="flex gap-3 text-sm font-semibold">
+                                    {loan.status === 'pending' && (
+                                        <button onClick={() => startReview(loan)} className="text-blue-600">Review</button>
+                                    )}
+                                    {(loan.schedule?.length || 0) > 0 && (
+                                        <button onClick={() => setExpandedId(expandedId === loan.id ? null : loan.id)} className="text-slate-600 dark:text-slate-300">
+                                            {expandedId === loan.id ? 'Hide Schedule' : 'Schedule'}
+                                        </button>
+                                    )}
+                                    {loan.status === 'active' && (
+                                        <button onClick={() => handlePayoff(loan)} disabled={isSaving} className="text-green-600">Pay Off</button>
+                                    )}
+                                </div>
+                            </div>
+                            {expandedId === loan.id && loan.schedule && (
+                                <div className="mt-3"><LoanScheduleTable schedule={loan.schedule} /></div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default LoansManager;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import type { StaffLoan, StaffLoanStatus, StaffLoanType, UserProfile } from '../types';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import {
+    LOAN_TYPE_LABELS,
+    closeStaffLoanRequest,
+    getStaffLoans,
+    loanBalance,
+    requestStaffLoan
+} from '../services/staffLoans';
+import { formatNaira } from '../utils/pensionCalculator';
+import { PlusCircleIcon } from './common/icons';
+import Spinner from './common/Spinner';
+import LoanScheduleTable from './LoanScheduleTable';
+
+interface MyLoansViewProps {
+    userProfile: UserProfile;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const STATUS_BADGES: Record<StaffLoanStatus, string> = {
+    pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+    active: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+    repaid: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+    rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+    cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const MyLoansView: React.FC<MyLoansViewProps> = ({ userProfile, addToast }) => {
+    const [loans, setLoans] = useState<StaffLoan[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showForm, setShowForm] = useState(false);
+    const [loanType, setLoanType] = useState<StaffLoanType>('advance');
+    const [amount, setAmount] = useState('');
+    const [installments, setInstallments] = useState('1');
+    const [reason, setReason] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        loadLoans();
+    }, [userProfile.id]);
+
+    const loadLoans = async () => {
+        setLoading(true);
+        try {
+            setLoans(await getStaffLoans(requireSupabaseClient(), userProfile.school_id, userProfile.id));
+        } catch (error: any) {
+            addToast(`Failed to load your loans: ${error.message}`, 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const resetForm = () => {
+        setShowForm(false);
+        setLoanType('advance');
+        setAmount('');
+        setInstallments('1');
+        setReason('');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            await requestStaffLoan(requireSupabaseClient(), {
+                school_id: userProfile.school_id,
+                user_id: userProfile.id,
+                loan_type: loanType,
+                principal: Number(amount),
+                installments: loanType === 'advance' ? 1 : Math.max(1, Math.round(Number(installments) || 1)),
+                reason: reason.trim() || null
+            });
+            addToast('Request sent for approval', 'success');
+            resetForm();
+            await loadLoans();
+        } catch (error: any) {
+            addToast(error.message, 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleCancel = async (loan: StaffLoan) => {
+        if (!window.confirm('Cancel this request?')) return;
+        try {
+            await closeStaffLoanRequest(requireSupabaseClient(), loan.id, 'cancelled');
+            await loadLoans();
+        } catch (error: any) {
+            addToast(error.message, 'error');
+        }
+    };
+
+    const inputClasses = "mt-1 w-full p-2 bg-white/50 dark:bg-slate-800/50 border border-slate-300/60 dark:border-slate-700/60 rounded-md focus:ring-2 focus:ring-blue-500 text-sm";
+    const labelClasses = "block text-sm font-semibold text-slate-700 dark:text-slate-200";
+
+    if (loading) {
+        return <div className="flex justify-center py-8"><Spinner /></div>;
+    }
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-slate-800 dark:text-white">My Loans & Advances</h3>
+                {!showForm && (
+                    <button onClick={() => setShowForm(true)} className="flex items-center gap-2 text-sm font-semibold text-blue-600 p-2 rounded-md hover:bg-blue-100">
+                        <PlusCircleIcon className="w-5 h-5" /> Request Advance or Loan
+                    </button>
+                )}
+            </div>
+
+            {showForm && (
+                <form onSubmit={handleSubmit} className="p-6 border border-slate-200 dark:border-slate-700 rounded-xl bg-white dark:bg-slate-900 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className={labelClasses}>Type</label>
+                            <select value={loanType} onChange={e => setLoanType(e.target.value as StaffLoanType)} className={inputClasses}>
+                                <option value="advance">{LOAN_TYPE_LABELS.advance} (repaid next payday)</option>
+                                <option value="loan">{LOAN_TYPE_LABELS.loan} (monthly installments)</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Amount (₦)</label>
+                            <input type="number" min="1" value={amount} onChange={e => setAmount(e.target.value)} required className={inputClasses} />
+                        </div>
+                        {loanType === 'loan' && (
+                            <div>
+                                <label className={labelClasses}>Repay Over (months)</label>
+                                <input type="number" min="1" step="1" value={installments} onChange={e => setInstallments(e.target.value)} required className={inputClasses} />
+                            </div>
+                        )}
+                    </div>
+                    <div>
+                        <label className={labelClasses}>Reason</label>
+                        <textarea value={reason} onChange={e => setReason(e.target.value)} rows={2} className={inputClasses} />
+                    </div>
+                    <p className="text-xs text-slate-500">Payroll will confirm the final terms, including any interest, when approving.</p>
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={resetForm} disabled={isSubmitting} className="px-4 py-2 text-sm">Cancel</button>
+                        <button type="submit" disabled={isSubmitting || !(Number(amount) > 0)} className="px-4 py-2 text-sm font-semibold bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-400 flex items-center gap-2">
+                            {isSubmitting ? <Spinner size="sm" /> : null} Submit Request
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {loans.length === 0 && !showForm && (
+                <p className="text-sm text-slate-500 py-6 text-center">You have no loans or advances.</p>
+            )}
+
+            {loans.map(loan => {
+                const balance = loanBalance(loan);
+                return (
+                    <div key={loan.id} className="p-5 border border-slate-200 dark:border-slate-700 rounded-xl bg-white dark:bg-slate-900 space-y-3">
+                        <div className="flex justify-between items-start">
+                            <div>
+                                <p className="font-semibold text-slate-800 dark:text-white">
+                                    {LOAN_TYPE_LABELS[loan.loan_type]} · {formatNaira(Number(loan.principal))}
+                                </p>
+                                <p className="text-sm text-slate-500">
+                                    Requested {new Date(loan.created_at).toLocaleDateString()}
+                                    {Number(loan.interest_rate) > 0 ? ` · ${loan.interest_rate}% a year` : ''}
+                                </p>
+                            </div>
+                            <span className={`px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_BADGES[loan.status]}`}>{loan.status}</span>
+                        </div>
+                        {loan.status === 'active' && (
+                            <div className="grid grid-cols-3 gap-3 text-sm">
+                                <div><p className="text-slate-500">Repaid</p><p className="font-semibold">{formatNaira(balance.repaid)}</p></div>
+                                <div><p className="text-slate-500">Outstanding</p><p className="font-semibold text-red-600 dark:text-red-400">{formatNaira(balance.outstanding)}</p></div>
+                                <div><p className="text-slate-500">Next Deduction</p><p className="font-semibold">{balance.next_installment ? `${formatNaira(Number(balance.next_installment.amount))} (${balance.next_installment.period_key})` : '—'}</p></div>
+                            </div>
+                        )}
+                        {loan.status === 'rejected' && loan.admin_notes && (
+                            <p className="text-sm text-slate-600 dark:text-slate-300">Reason: {loan.admin_notes}</p>
+                        )}
+                        {loan.status === 'pending' && (
+                            <button onClick={() => handleCancel(loan)} className="text-sm font-semibold text-red-600">Cancel Request</button>
+                        )}
+                        {(loan.schedule?.length || 0) > 0 && <LoanScheduleTable schedule={loan.schedule!} />}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default MyLoansView;
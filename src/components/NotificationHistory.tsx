@@ -1,46 +1,84 @@
 import React, { useState, useEffect } from 'react';
-import type { WhatsAppNotification, Student, UserProfile } from '../types';
+import type { OutboxMessage, OutboxStatus, NotificationType, UserProfile } from '../types';
 import { requireSupabaseClient } from '../services/supabaseClient';
+import { NOTIFICATION_TYPE_LABELS, OUTBOX_STATUSES, retryOutboxMessage, summarizeOutbox } from '../services/messageOutbox';
 import Spinner from './common/Spinner';
-import { CheckCircleIcon, XCircleIcon, ClockIcon, BellIcon } from './common/icons';
+import { CheckCircleIcon, XCircleIcon, ClockIcon, BellIcon, RefreshIcon } from './common/icons';
 
 interface NotificationHistoryProps {
     userProfile: UserProfile;
 }
 
+const STATUS_LABELS: Record<OutboxStatus, string> = {
+    queued: 'Queued',
+    sending: 'Sending',
+    sent: 'Sent',
+    failed: 'Retrying',
+    dead: 'Undeliverable'
+};
+
+/**
+ * Outbound message queue for the school, updated live as the processor delivers messages
+ */
 const NotificationHistory: React.FC<NotificationHistoryProps> = ({ userProfile }) => {
-    const [notifications, setNotifications] = useState<(WhatsAppNotification & { student?: Student })[]>([]);
+    const [notifications, setNotifications] = useState<OutboxMessage[]>([]);
     const [loading, setLoading] = useState(true);
     const [filterStatus, setFilterStatus] = useState<string>('all');
     const [filterType, setFilterType] = useState<string>('all');
+    const [retryingId, setRetryingId] = useState<number | null>(null);
+
+    // If not admin/principal, only show notifications sent by this user
+    const ownOnly = !['Admin', 'Principal'].includes(userProfile.role);
 
     useEffect(() => {
         loadNotifications();
-    }, [userProfile.school_id]);
+
+        const supabase = requireSupabaseClient();
+        const channel = supabase.channel(`message_outbox_${userProfile.school_id}`)
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'message_outbox', filter: `school_id=eq.${userProfile.school_id}` },
+                (payload) => {
+                    const row = payload.new as OutboxMessage;
+                    if (!row?.id || (ownOnly && row.sent_by !== userProfile.id)) return;
+                    setNotifications(prev => {
+                        const existing = prev.find(n => n.id === row.id);
+                        if (existing) {
+                            return prev.map(n => (n.id === row.id ? { ...row, student: existing.student } : n));
+                        }
+                        return [row, ...prev].slice(0, 200);
+                    });
+                }
+            )
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    }, [userProfile.school_id, userProfile.id, ownOnly]);
 
     const loadNotifications = async () => {
         setLoading(true);
         try {
             const supabase = requireSupabaseClient();
             let query = supabase
-                .from('whatsapp_notifications')
+                .from('message_outbox')
                 .select(`
                     *,
-                    student:students(*)
+                    student:students(id, name)
                 `)
                 .eq('school_id', userProfile.school_id)
                 .order('created_at', { ascending: false })
-                .limit(100);
+                .limit(200);
 
-            // If not admin/principal, only show notifications sent by this user
-            if (!['Admin', 'Principal'].includes(userProfile.role)) {
+            if (ownOnly) {
                 query = query.eq('sent_by', userProfile.id);
             }
 
             const { data, error } = await query;
 
             if (error) throw error;
-            setNotifications(data || []);
+            setNotifications((data || []) as OutboxMessage[]);
         } catch (error) {
             console.error('Error loading notifications:', error);
         } finally {
@@ -48,43 +86,64 @@ const NotificationHistory: React.FC<NotificationHistoryProps> = ({ userProfile }
         }
     };
 
-    const getStatusIcon = (status: string) => {
+    const handleRetry = async (id: number) => {
+        setRetryingId(id);
+        try {
+            await retryOutboxMessage(requireSupabaseClient(), id);
+        } catch (error: any) {
+            console.error('Error retrying message:', error);
+            alert('Could not retry message: ' + error.message);
+        } finally {
+            setRetryingId(null);
+        }
+    };
+
+    const getStatusIcon = (status: OutboxStatus) => {
         switch (status) {
             case 'sent':
-            case 'delivered':
                 return <CheckCircleIcon className="h-5 w-5 text-green-500" />;
-            case 'failed':
+            case 'dead':
                 return <XCircleIcon className="h-5 w-5 text-red-500" />;
-            case 'pending':
-                return <ClockIcon className="h-5 w-5 text-yellow-500" />;
+            case 'failed':
+                return <XCircleIcon className="h-5 w-5 text-yellow-500" />;
+            case 'queued':
+            case 'sending':
+                return <ClockIcon className="h-5 w-5 text-blue-500" />;
             default:
                 return <BellIcon className="h-5 w-5 text-slate-400" />;
         }
     };
 
-    const getStatusBadge = (status: string) => {
+    const getStatusBadge = (status: OutboxStatus) => {
         const classes = "px-2 py-1 text-xs font-medium rounded-md";
-        switch (status) {
-            case 'sent':
-            case 'delivered':
-                return <span className={`${classes} bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300`}>Sent</span>;
-            case 'failed':
-                return <span className={`${classes} bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300`}>Failed</span>;
-            case 'pending':
-                return <span className={`${classes} bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300`}>Pending</span>;
-            default:
-                return <span className={`${classes} bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400`}>{status}</span>;
-        }
+        const colours: Record<OutboxStatus, string> = {
+            queued: 'bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300',
+            sending: 'bg-indigo-100 dark:bg-indigo-900/20 text-indigo-800 dark:text-indigo-300',
+            sent: 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300',
+            failed: 'bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300',
+            dead: 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+        };
+        return <span className={`${classes} ${colours[status]}`}>{STATUS_LABELS[status] || status}</span>;
     };
 
-    const getTypeLabel = (type: string) => {
-        const labels: Record<string, string> = {
-            homework_reminder: 'Homework Reminder',
-            homework_missing: 'Homework Missing',
-            notes_incomplete: 'Notes Incomplete',
-            lesson_published: 'Lesson Published'
-        };
-        return labels[type] || type;
+    const getTypeLabel = (type: NotificationType) => NOTIFICATION_TYPE_LABELS[type] || type;
+
+    const getDeliveryNote = (notif: OutboxMessage) => {
+        if (notif.status === 'sent') {
+            const via = notif.used_channel === 'whatsapp' ? 'WhatsApp' : notif.used_channel === 'email' ? 'email' : 'SMS';
+            return `Sent via ${via}${notif.fallback_used ? ' (WhatsApp failed, fell back to SMS)' : ''}`
+                + (notif.sent_at ? ` at ${new Date(notif.sent_at).toLocaleString()}` : '');
+        }
+        if (notif.status === 'queued' && new Date(notif.next_attempt_at) > new Date()) {
+            return `Scheduled for ${new Date(notif.next_attempt_at).toLocaleString()}`;
+        }
+        if (notif.status === 'failed') {
+            return `Attempt ${notif.attempts} of ${notif.max_attempts} failed; next try ${new Date(notif.next_attempt_at).toLocaleString()}`;
+        }
+        if (notif.status === 'dead') {
+            return `Gave up after ${notif.attempts} attempt${notif.attempts === 1 ? '' : 's'}`;
+        }
+        return null;
     };
 
     const filteredNotifications = notifications.filter(notif => {
@@ -93,12 +152,7 @@ const NotificationHistory: React.FC<NotificationHistoryProps> = ({ userProfile }
         return true;
     });
 
-    const stats = {
-        total: notifications.length,
-        sent: notifications.filter(n => n.status === 'sent' || n.status === 'delivered').length,
-        failed: notifications.filter(n => n.status === 'failed').length,
-        pending: notifications.filter(n => n.status === 'pending').length
-    };
+    const stats = summarizeOutbox(notifications);
 
     if (loading) {
         return (
@@ -115,7 +169,7 @@ const NotificationHistory: React.FC<NotificationHistoryProps> = ({ userProfile }
             </h1>
 
             {/* Stats */}
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
                 <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
                     <p className="text-sm text-slate-600 dark:text-slate-400">Total</p>
                     <p className="text-2xl font-bold text-slate-800 dark:text-white">{stats.total}</p>
@@ -125,12 +179,16 @@ const NotificationHistory: React.FC<NotificationHistoryProps> = ({ userProfile }
                     <p className="text-2xl font-bold text-green-600 dark:text-green-400">{stats.sent}</p>
                 </div>
                 <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
-                    <p className="text-sm text-slate-600 dark:text-slate-400">Failed</p>
-                    <p className="text-2xl font-bold text-red-600 dark:text-red-400">{stats.failed}</p>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">Waiting</p>
+                    <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">{stats.queued + stats.sending}</p>
+                </div>
+                <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+                    <p className="text-sm text-slate-600 dark:text-slate-400">Retrying</p>
+                    <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">{stats.failed}</p>
                 </div>
                 <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
-                    <p className="text-sm text-slate-600 dark:text-slate-400">Pending</p>
-                    <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">{stats.pending}</p>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">Undeliverable</p>
+                    <p className="text-2xl font-bold text-red-600 dark:text-red-400">{stats.dead}</p>
                 </div>
             </div>
 
@@ -142,10 +200,9 @@ const NotificationHistory: React.FC<NotificationHistoryProps> = ({ userProfile }
                     className="px-4 py-2 border rounded-lg bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-700"
                 >
                     <option value="all">All Statuses</option>
-                    <option value="sent">Sent</option>
-                    <option value="delivered">Delivered</option>
-                    <option value="failed">Failed</option>
-                    <option value="pending">Pending</option>
+                    {OUTBOX_STATUSES.map(status => (
+                        <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                    ))}
                 </select>
 
                 <select
@@ -154,10 +211,9 @@ const NotificationHistory: React.FC<NotificationHistoryProps> = ({ userProfile }
                     className="px-4 py-2 border rounded-lg bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-700"
                 >
                     <option value="all">All Types</option>
-                    <option value="homework_reminder">Homework Reminder</option>
-                    <option value="homework_missing">Homework Missing</option>
-                    <option value="notes_incomplete">Notes Incomplete</option>
-                    <option value="lesson_published">Lesson Published</option>
+                    {(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map(type => (
+                        <option key={type} value={type}>{NOTIFICATION_TYPE_LABELS[type]}</option>
+                    ))}
                 </select>
             </div>
 
@@ -168,46 +224,66 @@ const NotificationHistory: React.FC<NotificationHistoryProps> = ({ userProfile }
                         No notifications found
                     </div>
                 ) : (
-                    filteredNotifications.map(notif => (
-                        <div
-                            key={notif.id}
-                            className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4"
-                        >
-                            <div className="flex items-start gap-4">
-                                {getStatusIcon(notif.status)}
-                                <div className="flex-1">
-                                    <div className="flex items-start justify-between mb-2">
-                                        <div>
-                                            <p className="font-medium text-slate-800 dark:text-white">
-                                                {notif.student?.name}
+                    filteredNotifications.map(notif => {
+                        const deliveryNote = getDeliveryNote(notif);
+                        return (
+                            <div
+                                key={notif.id}
+                                className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4"
+                            >
+                                <div className="flex items-start gap-4">
+                                    {getStatusIcon(notif.status)}
+                                    <div className="flex-1">
+                                        <div className="flex items-start justify-between mb-2">
+                                            <div>
+                                                <p className="font-medium text-slate-800 dark:text-white">
+                                                    {notif.student?.name || notif.recipient_name || notif.recipient_phone}
+                                                </p>
+                                                <p className="text-sm text-slate-600 dark:text-slate-400">
+                                                    {notif.channel === 'email' ? notif.recipient_email : notif.recipient_phone} • {getTypeLabel(notif.notification_type)}
+                                                    {notif.attachments?.length > 0 && ` • ${notif.attachments.length} PDF attachment${notif.attachments.length === 1 ? '' : 's'}`}
+                                                </p>
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                {getStatusBadge(notif.status)}
+                                                <span className="text-xs text-slate-500 dark:text-slate-400">
+                                                    {new Date(notif.created_at).toLocaleString()}
+                                                </span>
+                                                {(notif.status === 'failed' || notif.status === 'dead') && (
+                                                    <button
+                                                        onClick={() => handleRetry(notif.id)}
+                                                        disabled={retryingId === notif.id}
+                                                        className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+                                                    >
+                                                        <RefreshIcon className="h-3 w-3" />
+                                                        Retry
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+
+                                        {notif.message_content && (
+                                            <p className="text-sm text-slate-600 dark:text-slate-400 bg-slate-50 dark:bg-slate-900/50 p-3 rounded-lg mt-2">
+                                                {notif.message_content}
                                             </p>
-                                            <p className="text-sm text-slate-600 dark:text-slate-400">
-                                                {notif.recipient_phone} • {getTypeLabel(notif.notification_type)}
+                                        )}
+
+                                        {deliveryNote && (
+                                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                                                {deliveryNote}
                                             </p>
-                                        </div>
-                                        <div className="flex items-center gap-2">
-                                            {getStatusBadge(notif.status)}
-                                            <span className="text-xs text-slate-500 dark:text-slate-400">
-                                                {new Date(notif.created_at).toLocaleString()}
-                                            </span>
-                                        </div>
-                                    </div>
+                                        )}
 
-                                    {notif.message_content && (
-                                        <p className="text-sm text-slate-600 dark:text-slate-400 bg-slate-50 dark:bg-slate-900/50 p-3 rounded-lg mt-2">
-                                            {notif.message_content}
-                                        </p>
-                                    )}
-
-                                    {notif.error_message && (
-                                        <p className="text-sm text-red-600 dark:text-red-400 mt-2">
-                                            Error: {notif.error_message}
-                                        </p>
-                                    )}
+                                        {notif.last_error && notif.status !== 'sent' && (
+                                            <p className="text-sm text-red-600 dark:text-red-400 mt-2">
+                                                Error: {notif.last_error}
+                                            </p>
+                                        )}
+                                    </div>
                                 </div>
                             </div>
-                        </div>
-                    ))
+                        );
+                    })
                 )}
             </div>
         </div>
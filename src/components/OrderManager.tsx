@@ -1,14 +1,26 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import type { Order, OrderStatus, UserProfile, OrderNote } from '../types';
+import type { Order, OrderStatus, UserProfile, OrderNote, Student } from '../types';
 import Spinner from './common/Spinner';
 import { SearchIcon, ChevronDownIcon, TrashIcon, PlusCircleIcon, EditIcon } from './common/icons';
 import Pagination from './common/Pagination';
+import {
+    buildCollectionSlipHtml,
+    buildPickList,
+    buildPickListHtml,
+    isBilledToFees,
+    nextOrderStatuses,
+    reservationMinutesLeft,
+} from '../services/storeOrders';
 
 interface OrderManagerProps {
     orders: Order[];
     users: UserProfile[];
+    schoolName?: string;
+    students?: Student[];
     onUpdateStatus: (orderId: number, status: OrderStatus) => Promise<void>;
+    /** Adds a Pending order to the student's current-term invoice */
+    onBillToStudent?: (orderId: number, studentId: number) => Promise<void>;
     onAddNote: (orderId: number, note: string) => Promise<void>;
     onDeleteNote: (noteId: number) => Promise<void>;
 }
@@ -21,13 +33,15 @@ const statusColors: Record<OrderStatus, string> = {
     'Cancelled': 'bg-slate-200 text-slate-600',
 };
 
-const OrderManager: React.FC<OrderManagerProps> = ({ orders, users, onUpdateStatus, onAddNote, onDeleteNote }) => {
+const OrderManager: React.FC<OrderManagerProps> = ({ orders, users, schoolName = 'School Store', students = [], onUpdateStatus, onBillToStudent, onAddNote, onDeleteNote }) => {
     const [statusFilter, setStatusFilter] = useState<OrderStatus | 'All'>('All');
+    const [pickCategory, setPickCategory] = useState('');
     const [searchQuery, setSearchQuery] = useState('');
     const [expandedOrderId, setExpandedOrderId] = useState<number | null>(null);
     const [newNote, setNewNote] = useState('');
     const [isUpdating, setIsUpdating] = useState(false);
     const [isAddingNote, setIsAddingNote] = useState(false);
+    const [billStudentId, setBillStudentId] = useState('');
     
     // Pagination state
     const [currentPage, setCurrentPage] = useState(1);
@@ -60,6 +74,40 @@ const OrderManager: React.FC<OrderManagerProps> = ({ orders, users, onUpdateStat
         setIsUpdating(false);
     };
 
+    const handleBillToStudent = async (orderId: number) => {
+        if (!onBillToStudent || !billStudentId) return;
+        setIsUpdating(true);
+        await onBillToStudent(orderId, Number(billStudentId));
+        setIsUpdating(false);
+        setBillStudentId('');
+    };
+
+    const studentName = (studentId?: number | null) =>
+        students.find(student => student.id === studentId)?.name || `Student #${studentId}`;
+
+    const pickCategories = useMemo(() => Array.from(new Set(
+        orders.flatMap(order => (order.items || []).map(item => item.inventory_item?.category || 'General'))
+    )).sort(), [orders]);
+    const awaitingCollection = orders.filter(order => order.status === 'Paid');
+
+    const printDocument = (html: string) => {
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) return;
+        printWindow.document.write(html);
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+    };
+
+    const handlePrintPickList = () => {
+        const lines = buildPickList(orders, pickCategory || undefined);
+        printDocument(buildPickListHtml(lines, { schoolName, category: pickCategory || undefined }));
+    };
+
+    const handlePrintSlips = (slipOrders: Order[]) => {
+        printDocument(buildCollectionSlipHtml(slipOrders, schoolName));
+    };
+
     const handleAddNoteSubmit = async (orderId: number) => {
         if (!newNote.trim()) return;
         setIsAddingNote(true);
@@ -100,6 +148,36 @@ const OrderManager: React.FC<OrderManagerProps> = ({ orders, users, onUpdateStat
                 </select>
             </div>
 
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm">
+                <p className="text-sm text-slate-600 dark:text-slate-300">
+                    <span className="font-bold">{awaitingCollection.length}</span> paid order(s) awaiting collection
+                </p>
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        value={pickCategory}
+                        onChange={(e) => setPickCategory(e.target.value)}
+                        className="p-2 rounded-lg bg-slate-100 dark:bg-slate-800 border-none text-sm"
+                    >
+                        <option value="">All counters</option>
+                        {pickCategories.map(category => <option key={category} value={category}>{category}</option>)}
+                    </select>
+                    <button
+                        onClick={handlePrintPickList}
+                        disabled={awaitingCollection.length === 0}
+                        className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        Print Pick List
+                    </button>
+                    <button
+                        onClick={() => handlePrintSlips(awaitingCollection)}
+                        disabled={awaitingCollection.length === 0}
+                        className="px-3 py-2 text-sm bg-slate-200 dark:bg-slate-700 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50"
+                    >
+                        Print Collection Slips
+                    </button>
+                </div>
+            </div>
+
             <div className="space-y-4">
                 {paginatedOrders.map(order => (
                     <div key={order.id} className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
@@ -114,6 +192,12 @@ const OrderManager: React.FC<OrderManagerProps> = ({ orders, users, onUpdateStat
                                 <div>
                                     <p className="font-bold text-slate-800 dark:text-white">{order.user?.name || 'Unknown User'}</p>
                                     <p className="text-xs text-slate-500">{new Date(order.created_at).toLocaleString()}</p>
+                                    {isBilledToFees(order) && (
+                                        <p className="text-xs text-indigo-600">On {studentName(order.student_id)}'s school bill</p>
+                                    )}
+                                    {reservationMinutesLeft(order) !== null && (
+                                        <p className="text-xs text-amber-600">Stock held for {reservationMinutesLeft(order)} more min</p>
+                                    )}
                                 </div>
                             </div>
                             
@@ -161,20 +245,57 @@ const OrderManager: React.FC<OrderManagerProps> = ({ orders, users, onUpdateStat
                                         <div className="flex justify-between items-center pt-4">
                                             <div>
                                                 <p className="text-sm text-slate-500">Payment Ref: <span className="font-mono text-slate-700 dark:text-slate-300">{order.payment_reference || 'N/A'}</span></p>
+                                                {order.paid_at && <p className="text-sm text-slate-500">Paid: {new Date(order.paid_at).toLocaleString()}</p>}
+                                                {isBilledToFees(order) && (
+                                                    <p className="text-sm text-slate-500">
+                                                        School bill: {studentName(order.student_id)}, invoice #{order.billed_invoice_id}
+                                                        {order.status === 'Pending' && ' (turns Paid once the invoice lines are settled)'}
+                                                    </p>
+                                                )}
+                                                {order.collection_code && <p className="text-sm text-slate-500">Collection Code: <span className="font-mono font-bold text-slate-700 dark:text-slate-300">{order.collection_code}</span></p>}
                                             </div>
-                                            <div className="flex items-center gap-3">
+                                            <div className="flex flex-wrap items-center gap-3">
+                                                {onBillToStudent && order.status === 'Pending' && !isBilledToFees(order) && (
+                                                    <>
+                                                        <select
+                                                            value={billStudentId}
+                                                            onChange={(e) => setBillStudentId(e.target.value)}
+                                                            className="p-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm max-w-[12rem]"
+                                                        >
+                                                            <option value="">Bill to student...</option>
+                                                            {students.map(student => (
+                                                                <option key={student.id} value={student.id}>
+                                                                    {student.name}{student.admission_number ? ` (${student.admission_number})` : ''}
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                        <button
+                                                            onClick={() => handleBillToStudent(order.id)}
+                                                            disabled={isUpdating || !billStudentId}
+                                                            className="px-3 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                                                        >
+                                                            Add to School Bill
+                                                        </button>
+                                                    </>
+                                                )}
+                                                {(order.status === 'Paid' || order.status === 'Delivered') && (
+                                                    <button
+                                                        onClick={() => handlePrintSlips([order])}
+                                                        className="px-3 py-2 text-sm bg-slate-200 dark:bg-slate-700 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600"
+                                                    >
+                                                        Collection Slip
+                                                    </button>
+                                                )}
                                                 <label className="text-sm font-medium">Change Status:</label>
                                                 <select 
                                                     value={order.status} 
                                                     onChange={(e) => handleStatusChange(order.id, e.target.value as OrderStatus)}
-                                                    disabled={isUpdating}
+                                                    disabled={isUpdating || nextOrderStatuses(order.status).length === 0}
                                                     className="p-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm font-semibold"
                                                 >
-                                                    <option value="Pending">Pending</option>
-                                                    <option value="Paid">Paid</option>
-                                                    <option value="Delivered">Delivered</option>
-                                                    <option value="Returned">Returned</option>
-                                                    <option value="Cancelled">Cancelled</option>
+                                                    {[order.status, ...nextOrderStatuses(order.status)].map(status => (
+                                                        <option key={status} value={status}>{status}</option>
+                                                    ))}
                                                 </select>
                                             </div>
                                         </div>
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import type { OutboxMessage } from '../types';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import { getOutboxBatch, isBatchSettled, summarizeOutbox } from '../services/messageOutbox';
+import Spinner from './common/Spinner';
+
+interface OutboxBatchProgressProps {
+    batchId: string;
+    label?: string;
+}
+
+/**
+ * Live delivery progress for one queued batch. Delivery runs server-side, so closing this
+ * view does not stop the batch.
+ */
+const OutboxBatchProgress: React.FC<OutboxBatchProgressProps> = ({ batchId, label = 'Delivery progress' }) => {
+    const [rows, setRows] = useState<OutboxMessage[]>([]);
+
+    useEffect(() => {
+        const supabase = requireSupabaseClient();
+        let active = true;
+
+        getOutboxBatch(supabase, batchId)
+            .then(data => { if (active) setRows(data); })
+            .catch(error => console.error('Error loading outbox batch:', error));
+
+        const channel = supabase.channel(`outbox_batch_${batchId}`)
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'message_outbox', filter: `batch_id=eq.${batchId}` },
+                (payload) => {
+                    const row = payload.new as OutboxMessage;
+                    if (!row?.id) return;
+                    setRows(prev => prev.some(r => r.id === row.id)
+                        ? prev.map(r => (r.id === row.id ? row : r))
+                        : [...prev, row]);
+                }
+            )
+            .subscribe();
+
+        return () => {
+            active = false;
+            supabase.removeChannel(channel);
+        };
+    }, [batchId]);
+
+    const summary = summarizeOutbox(rows);
+    const settled = summary.total > 0 && isBatchSettled(summary);
+    const percent = summary.total ? Math.round(((summary.sent + summary.dead) / summary.total) * 100) : 0;
+
+    return (
+        <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-slate-700 dark:text-slate-200 flex items-center gap-2">
+                    {!settled && <Spinner size="sm" />}
+                    {label}
+                </span>
+                <span className="text-slate-500 dark:text-slate-400">
+                    {summary.sent + summary.dead}/{summary.total}
+                </span>
+            </div>
+            <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2">
+                <div className="bg-green-600 h-2 rounded-full transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="flex flex-wrap gap-3 text-xs text-slate-600 dark:text-slate-400">
+                <span className="text-green-600 dark:text-green-400">{summary.sent} sent</span>
+                <span>{summary.queued + summary.sending} waiting</span>
+                {summary.failed > 0 && <span className="text-yellow-600 dark:text-yellow-400">{summary.failed} retrying</span>}
+                {summary.dead > 0 && <span className="text-red-600 dark:text-red-400">{summary.dead} undeliverable</span>}
+            </div>
+            {!settled && (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Messages keep sending if you close this window. Follow them in Notification History.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default OutboxBatchProgress;
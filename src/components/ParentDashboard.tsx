@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import type { ParentProfile, LinkedChild, StudentTermReport, AttendanceRecord } from '../types';
 import { requireSupabaseClient } from '../services/supabaseClient';
 import ChildSwitcher from './parent/ChildSwitcher';
+import ParentFeesTab from './parent/ParentFeesTab';
 import Spinner from './common/Spinner';
 import { 
     HomeIcon, 
@@ -259,9 +260,7 @@ const ParentDashboard: React.FC<ParentDashboardProps> = ({
                                                 Fees & Payments
                                             </h2>
                                             {selectedChild.permissions.canViewFinances ? (
-                                                <p className="text-slate-600 dark:text-slate-400">
-                                                    Fee management coming soon
-                                                </p>
+                                                <ParentFeesTab child={selectedChild} parentProfile={parentProfile} />
                                             ) : (
                                                 <p className="text-amber-600 dark:text-amber-400">
                                                     You don't have permission to view fees for this child
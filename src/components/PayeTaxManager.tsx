@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { PayeSettings, PayeTaxBand, StaffTaxRecord } from '../types';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import {
+    DEFAULT_PAYE_BANDS,
+    generatePayeRemittanceCSV,
+    getPayeRemittanceRecords,
+    getPayeSettings,
+    savePayeSettings
+} from '../services/payeTax';
+import { downloadCSV } from '../utils/bankCodes';
+import { formatNaira } from '../utils/pensionCalculator';
+import { DownloadIcon, PlusCircleIcon, TrashIcon } from './common/icons';
+import Spinner from './common/Spinner';
+
+interface PayeTaxManagerProps {
+    schoolId: number;
+    schoolName: string;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const MONTHS = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const PayeTaxManager: React.FC<PayeTaxManagerProps> = ({ schoolId, schoolName, addToast }) => {
+    const [settings, setSettings] = useState<PayeSettings | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [year, setYear] = useState(new Date().getFullYear());
+    const [month, setMonth] = useState(new Date().getMonth() + 1);
+    const [records, setRecords] = useState<StaffTaxRecord[]>([]);
+    const [loadingRecords, setLoadingRecords] = useState(false);
+
+    useEffect(() => {
+        getPayeSettings(requireSupabaseClient(), schoolId)
+            .then(setSettings)
+            .catch((error: any) => addToast(`Failed to load PAYE settings: ${error.message}`, 'error'));
+    }, [schoolId]);
+
+    useEffect(() => {
+        setLoadingRecords(true);
+        getPayeRemittanceRecords(requireSupabaseClient(), schoolId, year, month)
+            .then(setRecords)
+            .catch((error: any) => addToast(`Failed to load tax records: ${error.message}`, 'error'))
+            .finally(() => setLoadingRecords(false));
+    }, [schoolId, year, month]);
+
+    const sortedRecords = useMemo(
+        () => [...records].sort((a, b) => (a.staff?.name || '').localeCompare(b.staff?.name || '')),
+        [records]
+    );
+    const totalTax = records.reduce((sum, r) => sum + Number(r.tax || 0), 0);
+    const missingTin = records.filter(r => !r.staff?.tax_id).length;
+
+    const update = (fields: Partial<PayeSettings>) => setSettings(prev => (prev ? { ...prev, ...fields } : prev));
+
+    const updateBand = (index: number, fields: Partial<PayeTaxBand>) => {
+        if (!settings) return;
+        update({ tax_bands: settings.tax_bands.map((band, i) => (i === index ? { ...band, ...fields } : band)) });
+    };
+
+    const handleSave = async () => {
+        if (!settings) return;
+        const bands = settings.tax_bands;
+        if (bands.length === 0 || bands.slice(0, -1).some(b => !b.band_size || b.band_size <= 0)) {
+            addToast('Every band except the last needs a size greater than zero', 'error');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const saved = await savePayeSettings(requireSupabaseClient(), {
+                ...settings,
+                tax_bands: bands.map((b, i) => ({
+                    band_size: i === bands.length - 1 ? null : Number(b.band_size),
+                    rate: Number(b.rate) || 0
+                }))
+            });
+            setSettings({ ...settings, ...saved });
+            addToast('PAYE settings saved', 'success');
+        } catch (error: any) {
+            addToast(`Failed to save PAYE settings: ${error.message}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleExport = () => {
+        if (!settings || records.length === 0) return;
+        const csv = generatePayeRemittanceCSV(records, settings, schoolName);
+        downloadCSV(csv, `paye-remittance-${year}-${String(month).padStart(2, '0')}.csv`);
+    };
+
+    const inputClasses = "mt-1 w-full p-2 bg-white/50 dark:bg-slate-800/50 border border-slate-300/60 dark:border-slate-700/60 rounded-md focus:ring-2 focus:ring-blue-500 text-sm";
+    const labelClasses = "block text-sm font-semibold text-slate-700 dark:text-slate-200";
+
+    if (!settings) {
+        return <div className="flex justify-center py-8"><Spinner /></div>;
+    }
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <h3 className="text-lg font-semibold text-slate-800 dark:text-white">PAYE Income Tax</h3>
+
+            <div className="p-6 border border-slate-200 dark:border-slate-700 rounded-xl bg-white dark:bg-slate-900 shadow-sm space-y-6">
+                <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                    <input type="checkbox" checked={settings.is_enabled} onChange={e => update({ is_enabled: e.target.checked })} />
+                    Deduct PAYE when generating payslips
+                </label>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClasses}>State Revenue Service</label>
+                        <input type="text" value={settings.revenue_service} onChange={e => update({ revenue_service: e.target.value })} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label className={labelClasses}>Employer TIN</label>
+                        <input type="text" value={settings.employer_tin || ''} onChange={e => update({ employer_tin: e.target.value })} className={inputClasses} />
+                    </div>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100 dark:border-slate-800">
+                    <div className="flex items-center justify-between mb-2">
+                        <div>
+                            <p className={labelClasses}>Annual Tax Bands</p>
+                            <p className="text-xs text-slate-500">Applied in order to annual taxable income. The last band takes the remainder.</p>
+                        </div>
+                        <button onClick={() => update({ tax_bands: DEFAULT_PAYE_BANDS })} className="text-xs text-blue-600 hover:underline">
+                            Reset to statutory
+                        </button>
+                    </div>
+                    <div className="space-y-2">
+                        {settings.tax_bands.map((band, index) => {
+                            const isLast = index === settings.tax_bands.length - 1;
+                            return (
+                                <div key={index} className="flex items-center gap-2">
+                                    <span className="w-16 text-xs text-slate-500">{index === 0 ? 'First' : isLast ? 'Above' : 'Next'}</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={isLast ? '' : band.band_size ?? ''}
+                                        disabled={isLast}
+                                        placeholder={isLast ? 'Remainder' : 'Band size'}
+                                        onChange={e => updateBand(index, { band_size: Number(e.target.value) })}
+                                        className={`${inputClasses} max-w-[12rem] mt-0`}
+                                    />
+                                    <span className="text-xs text-slate-500">at</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max="100"
+                                        step="0.5"
+                                        value={band.rate}
+                                        onChange={e => updateBand(index, { rate: Number(e.target.value) })}
+                                        className={`${inputClasses} max-w-[6rem] mt-0`}
+                                    />
+                                    <span className="text-xs text-slate-500">%</span>
+                                    <button
+                                        onClick={() => update({ tax_bands: settings.tax_bands.filter((_, i) => i !== index) })}
+                                        disabled={settings.tax_bands.length === 1}
+                                        className="p-1 text-red-500 hover:text-red-700 disabled:opacity-30"
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <button
+                        onClick={() => update({ tax_bands: [...settings.tax_bands, { band_size: null, rate: 0 }] })}
+                        className="mt-2 flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                    >
+                        <PlusCircleIcon className="w-4 h-4" /> Add band
+                    </button>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100 dark:border-slate-800 space-y-3">
+                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                        <input type="checkbox" checked={settings.cra_enabled} onChange={e => update({ cra_enabled: e.target.checked })} />
+                        Consolidated Relief Allowance
+                    </label>
+                    <p className="text-xs text-slate-500">The higher of the fixed amount and the minimum percentage of gross, plus the gross percentage.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className={labelClasses}>Fixed Amount (NGN/yr)</label>
+                            <input type="number" min="0" value={settings.cra_fixed_amount} onChange={e => update({ cra_fixed_amount: Number(e.target.value) })} className={inputClasses} disabled={!settings.cra_enabled} />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Minimum % of Gross</label>
+                            <input type="number" min="0" step="0.5" value={settings.cra_minimum_percent} onChange={e => update({ cra_minimum_percent: Number(e.target.value) })} className={inputClasses} disabled={!settings.cra_enabled} />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Plus % of Gross</label>
+                            <input type="number" min="0" step="0.5" value={settings.cra_gross_percent} onChange={e => update({ cra_gross_percent: Number(e.target.value) })} className={inputClasses} disabled={!settings.cra_enabled} />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClasses}>Minimum Tax (% of Gross)</label>
+                            <input type="number" min="0" step="0.5" value={settings.minimum_tax_percent} onChange={e => update({ minimum_tax_percent: Number(e.target.value) })} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Tax-Free Annual Income (NGN)</label>
+                            <input type="number" min="0" value={settings.exemption_threshold} onChange={e => update({ exemption_threshold: Number(e.target.value) })} className={inputClasses} />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100 dark:border-slate-800 space-y-3">
+                    <p className={labelClasses}>Tax-Exempt Deductions</p>
+                    <p className="text-xs text-slate-500">Pension follows each staff member's pension enrolment. NHF and NHIS are charged on basic salary.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+                                <input type="checkbox" checked={settings.nhf_enabled} onChange={e => update({ nhf_enabled: e.target.checked })} />
+                                National Housing Fund (%)
+                            </label>
+                            <input type="number" min="0" step="0.5" value={settings.nhf_rate} onChange={e => update({ nhf_rate: Number(e.target.value) })} className={inputClasses} disabled={!settings.nhf_enabled} />
+                        </div>
+                        <div>
+                            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+                                <input type="checkbox" checked={settings.nhis_enabled} onChange={e => update({ nhis_enabled: e.target.checked })} />
+                                Health Insurance, NHIS (%)
+                            </label>
+                            <input type="number" min="0" step="0.5" value={settings.nhis_rate} onChange={e => update({ nhis_rate: Number(e.target.value) })} className={inputClasses} disabled={!settings.nhis_enabled} />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex justify-end">
+                    <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:bg-blue-400 flex items-center gap-2">
+                        {isSaving ? <Spinner size="sm" /> : 'Save PAYE Settings'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-6 border border-slate-200 dark:border-slate-700 rounded-xl bg-white dark:bg-slate-900 shadow-sm space-y-4">
+                <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+                    <div>
+                        <h4 className="font-semibold text-slate-800 dark:text-white">Monthly Remittance Schedule</h4>
+                        <p className="text-xs text-slate-500">PAYE deducted in the month, for filing with {settings.revenue_service}.</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <select value={month} onChange={e => setMonth(Number(e.target.value))} className="p-2 rounded-md bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 text-sm">
+                            {MONTHS.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+                        </select>
+                        <input type="number" value={year} onChange={e => setYear(Number(e.target.value))} className="w-24 p-2 rounded-md bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 text-sm" />
+                        <button onClick={handleExport} disabled={records.length === 0} className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center gap-2">
+                            <DownloadIcon className="w-4 h-4" /> Export CSV
+                        </button>
+                    </div>
+                </div>
+
+                {missingTin > 0 && (
+                    <p className="text-xs text-amber-700 bg-amber-50 dark:bg-amber-900/20 dark:text-amber-300 p-2 rounded-md">
+                        {missingTin} staff member{missingTin === 1 ? ' has' : 's have'} no TIN. Add it under Staff Data before filing.
+                    </p>
+                )}
+
+                {loadingRecords ? (
+                    <div className="flex justify-center py-6"><Spinner /></div>
+                ) : (
+                    <div className="overflow-x-auto rounded-lg border border-slate-200/60 dark:border-slate-800/60">
+                        <table className="w-full text-sm text-left">
+                            <thead className="bg-slate-100 dark:bg-slate-800 uppercase text-xs font-semibold text-slate-600 dark:text-slate-300">
+                                <tr>
+                                    <th className="px-4 py-3">Staff</th>
+                                    <th className="px-4 py-3">TIN</th>
+                                    <th className="px-4 py-3 text-right">Gross</th>
+                                    <th className="px-4 py-3 text-right">Exempt</th>
+                                    <th className="px-4 py-3 text-right">Taxable</th>
+                                    <th className="px-4 py-3 text-right">PAYE</th>
+                                    <th className="px-4 py-3 text-right">YTD PAYE</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {sortedRecords.map(record => (
+                                    <tr key={record.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50">
+                                        <td className="px-4 py-3 font-medium text-slate-900 dark:text-white">{record.staff?.name || 'Unknown'}</td>
+                                        <td className="px-4 py-3 font-mono text-xs">{record.staff?.tax_id || <span className="text-amber-600">Missing</span>}</td>
+                                        <td className="px-4 py-3 text-right font-mono">{formatNaira(Number(record.gross_pay))}</td>
+                                        <td className="px-4 py-3 text-right font-mono">{formatNaira(Number(record.pension) + Number(record.nhf) + Number(record.nhis))}</td>
+                                        <td className="px-4 py-3 text-right font-mono">{formatNaira(Number(record.taxable_pay))}</td>
+                                        <td className="px-4 py-3 text-right font-mono font-semibold">{formatNaira(Number(record.tax))}</td>
+                                        <td className="px-4 py-3 text-right font-mono text-slate-500">{formatNaira(Number(record.ytd_tax))}</td>
+                                    </tr>
+                                ))}
+                                {records.length === 0 && (
+                                    <tr>
+                                        <td colSpan={7} className="px-4 py-8 text-center text-slate-500">
+                                            No payslips generated for {MONTHS[month - 1]} {year}.
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                            {records.length > 0 && (
+                                <tfoot className="bg-slate-50 dark:bg-slate-800/50 font-semibold">
+                                    <tr>
+                                        <td className="px-4 py-3" colSpan={5}>Total to remit</td>
+                                        <td className="px-4 py-3 text-right font-mono">{formatNaira(totalTax)}</td>
+                                        <td></td>
+                                    </tr>
+                                </tfoot>
+                            )}
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PayeTaxManager;
@@ -9,6 +9,7 @@ import {
     processOfflinePayment,
     processPaystackPayment,
     resolvePayslipQuery,
+    waivePayslipDeduction,
     overrideApproveAndProcessOffline
 } from '../services/payrollPreRunService';
 import { generateBankTransferCSV, downloadCSV } from '../utils/bankCodes';
@@ -31,6 +32,7 @@ const PayrollApprovalDashboard: React.FC<PayrollApprovalDashboardProps> = ({ use
     const [selectedQuery, setSelectedQuery] = useState<PayslipQuery | null>(null);
     const [showQueryModal, setShowQueryModal] = useState(false);
     const [adminResponse, setAdminResponse] = useState('');
+    const [waiveDeduction, setWaiveDeduction] = useState(false);
     const [showConfirmDialog, setShowConfirmDialog] = useState(false);
     const [processingData, setProcessingData] = useState<any>(null);
     const [showOverrideDialog, setShowOverrideDialog] = useState(false);
@@ -154,11 +156,15 @@ const PayrollApprovalDashboard: React.FC<PayrollApprovalDashboardProps> = ({ use
 
         setIsProcessing(true);
         try {
+            if (waiveDeduction && challengedLine) {
+                await waivePayslipDeduction(challengedLine.id, userProfile.id);
+            }
             await resolvePayslipQuery(selectedQuery.id, userProfile.id, adminResponse);
-            addToast('Query resolved successfully!', 'success');
+            addToast(waiveDeduction && challengedLine ? 'Deduction waived and query resolved.' : 'Query resolved successfully!', 'success');
             setShowQueryModal(false);
             setSelectedQuery(null);
             setAdminResponse('');
+            setWaiveDeduction(false);
             if (selectedRun) {
                 await loadRunDetails(selectedRun.id);
             }
@@ -224,9 +230,14 @@ const PayrollApprovalDashboard: React.FC<PayrollApprovalDashboardProps> = ({ use
     const openQueryModal = (query: PayslipQuery) => {
         setSelectedQuery(query);
         setAdminResponse('');
+        setWaiveDeduction(false);
         setShowQueryModal(true);
     };
 
+    const challengedLine = selectedQuery?.line_item_id
+        ? payslips.flatMap(p => p.line_items || []).find(item => item.id === selectedQuery.line_item_id) || null
+        : null;
+
     const formatCurrency = (amount: number) => {
         return new Intl.NumberFormat('en-NG', {
             style: 'currency',
@@ -551,6 +562,27 @@ const PayrollApprovalDashboard: React.FC<PayrollApprovalDashboardProps> = ({ use
                             </div>
                         </div>
 
+                        {challengedLine && (
+                            <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-lg border border-red-200 dark:border-red-800 mb-4">
+                                <div className="font-semibold text-slate-700 dark:text-slate-300 mb-2">Challenged Deduction</div>
+                                <div className="flex justify-between text-slate-700 dark:text-slate-300">
+                                    <span>{challengedLine.label}</span>
+                                    <span className="font-medium">-{formatCurrency(challengedLine.amount)}</span>
+                                </div>
+                                {challengedLine.metadata?.detail && (
+                                    <div className="text-sm text-slate-500 dark:text-slate-400">{challengedLine.metadata.detail}</div>
+                                )}
+                                <label className="flex items-center gap-2 mt-3 text-sm text-slate-700 dark:text-slate-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={waiveDeduction}
+                                        onChange={(e) => setWaiveDeduction(e.target.checked)}
+                                    />
+                                    Waive this deduction (removes it from the payslip and adds it back to net pay)
+                                </label>
+                            </div>
+                        )}
+
                         <div className="mb-4">
                             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
                                 Your Response
@@ -570,6 +602,7 @@ const PayrollApprovalDashboard: React.FC<PayrollApprovalDashboardProps> = ({ use
                                     setShowQueryModal(false);
                                     setSelectedQuery(null);
                                     setAdminResponse('');
+                                    setWaiveDeduction(false);
                                 }}
                                 disabled={isProcessing}
                                 className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800"
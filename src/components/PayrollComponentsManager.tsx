@@ -0,0 +1,358 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { PayrollComponent, UserProfile } from '../types';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import {
+    FORMULA_VARIABLES,
+    componentVariable,
+    deletePayrollComponent,
+    evaluatePayrollComponents,
+    getDaysWorked,
+    getPayrollComponents,
+    orderPayrollComponents,
+    savePayrollComponent,
+    workingDaysInMonth
+} from '../services/payrollFormulas';
+import type { ComponentResult } from '../services/payrollFormulas';
+import { formatNaira } from '../utils/pensionCalculator';
+import { EditIcon, PlusCircleIcon, TrashIcon } from './common/icons';
+import Spinner from './common/Spinner';
+
+interface PayrollComponentsManagerProps {
+    users: UserProfile[];
+    schoolId: number;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+type ComponentDraft = Omit<PayrollComponent, 'id'> & { id?: number };
+
+const TYPE_LABELS: Record<PayrollComponent['component_type'], string> = {
+    earning: 'Earning',
+    deduction: 'Deduction',
+    employer_contrib: 'Employer Contribution'
+};
+
+const PayrollComponentsManager: React.FC<PayrollComponentsManagerProps> = ({ users, schoolId, addToast }) => {
+    const [components, setComponents] = useState<PayrollComponent[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [draft, setDraft] = useState<ComponentDraft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [previewStaffId, setPreviewStaffId] = useState('');
+    const [daysWorked, setDaysWorked] = useState<Map<string, number>>(new Map());
+
+    const now = new Date();
+    const workingDays = workingDaysInMonth(now.getFullYear(), now.getMonth() + 1);
+
+    const staff = useMemo(
+        () => users.filter(u => u.role !== 'Student' && u.role !== 'Guardian').sort((a, b) => a.name.localeCompare(b.name)),
+        [users]
+    );
+
+    useEffect(() => {
+        loadComponents();
+        getDaysWorked(requireSupabaseClient(), schoolId, now.getFullYear(), now.getMonth() + 1)
+            .then(setDaysWorked)
+            .catch(() => setDaysWorked(new Map()));
+    }, [schoolId]);
+
+    const loadComponents = async () => {
+        setLoading(true);
+        try {
+            setComponents(await getPayrollComponents(requireSupabaseClient(), schoolId));
+        } catch (error: any) {
+            addToast(`Failed to load pay components: ${error.message}`, 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // The component list as it would be with the draft saved
+    const withDraft = useMemo(() => {
+        if (!draft) return components;
+        const candidate = { ...draft, id: draft.id ?? -1 } as PayrollComponent;
+        return draft.id ? components.map(c => (c.id === draft.id ? candidate : c)) : [...components, candidate];
+    }, [components, draft]);
+
+    const validationError = useMemo(() => {
+        try {
+            orderPayrollComponents(withDraft);
+            return null;
+        } catch (error: any) {
+            return error.message as string;
+        }
+    }, [withDraft]);
+
+    const preview = useMemo((): { results: ComponentResult[] } | { error: string } | null => {
+        const member = staff.find(s => s.id === previewStaffId);
+        if (!member) return null;
+        try {
+            return {
+                results: evaluatePayrollComponents(withDraft, {
+                    base_pay: member.base_pay || 0,
+                    commission: member.commission || 0,
+                    additions: 0,
+                    days_worked: daysWorked.get(member.id) || 0,
+                    working_days: workingDays,
+                    grade_level: member.grade_level || 0
+                })
+            };
+        } catch (error: any) {
+            return { error: error.message };
+        }
+    }, [withDraft, previewStaffId, staff, daysWorked, workingDays]);
+
+    const startNew = () => {
+        setDraft({
+            school_id: schoolId,
+            name: '',
+            code: '',
+            component_type: 'earning',
+            taxable: true,
+            pensionable: false,
+            calculation_type: 'formula',
+            amount: 0,
+            formula: '',
+            ordering: (components.reduce((max, c) => Math.max(max, c.ordering), 0) || 0) + 10,
+            show_on_payslip: true,
+            is_default: false,
+            is_active: true
+        });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        if (!draft.name.trim()) {
+            addToast('Give the component a name', 'error');
+            return;
+        }
+        if (draft.code && !componentVariable(draft)) {
+            addToast('Codes may only use letters, numbers and underscores, and cannot start with a number', 'error');
+            return;
+        }
+        if (validationError) {
+            addToast(validationError, 'error');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await savePayrollComponent(requireSupabaseClient(), {
+                ...draft,
+                code: draft.code ? draft.code.trim().toLowerCase() : null,
+                amount: Number(draft.amount) || 0,
+                ordering: Number(draft.ordering) || 0,
+                formula: draft.calculation_type === 'formula' ? draft.formula : null
+            });
+            addToast('Pay component saved', 'success');
+            setDraft(null);
+            await loadComponents();
+        } catch (error: any) {
+            addToast(`Failed to save component: ${error.message}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (component: PayrollComponent) => {
+        // Formulas that read this component would stop working
+        try {
+            orderPayrollComponents(components.filter(c => c.id !== component.id));
+        } catch (error: any) {
+            addToast(`Cannot delete ${component.name}. ${error.message}`, 'error');
+            return;
+        }
+        if (!window.confirm(`Delete ${component.name}?`)) return;
+        try {
+            await deletePayrollComponent(requireSupabaseClient(), component.id);
+            addToast('Pay component deleted', 'success');
+            await loadComponents();
+        } catch (error: any) {
+            addToast(`Failed to delete component: ${error.message}`, 'error');
+        }
+    };
+
+    const inputClasses = "mt-1 w-full p-2 bg-white/50 dark:bg-slate-800/50 border border-slate-300/60 dark:border-slate-700/60 rounded-md focus:ring-2 focus:ring-blue-500 text-sm";
+    const labelClasses = "block text-sm font-semibold text-slate-700 dark:text-slate-200";
+
+    if (loading) {
+        return <div className="flex justify-center py-8"><Spinner /></div>;
+    }
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h3 className="text-lg font-semibold text-slate-800 dark:text-white">Pay Components</h3>
+                    <p className="text-xs text-slate-500">Active components are worked out for every staff member when payslips are generated.</p>
+                </div>
+                <button onClick={startNew} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 flex items-center gap-2">
+                    <PlusCircleIcon className="w-4 h-4" /> New Component
+                </button>
+            </div>
+
+            <div className="overflow-x-auto rounded-lg border border-slate-200/60 dark:border-slate-800/60">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-slate-100 dark:bg-slate-800 uppercase text-xs font-semibold text-slate-600 dark:text-slate-300">
+                        <tr>
+                            <th className="px-4 py-3">Order</th>
+                            <th className="px-4 py-3">Component</th>
+                            <th className="px-4 py-3">Type</th>
+                            <th className="px-4 py-3">Amount / Formula</th>
+                            <th className="px-4 py-3">Flags</th>
+                            <th className="px-4 py-3 text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                        {components.map(component => (
+                            <tr key={component.id} className={`hover:bg-slate-50 dark:hover:bg-slate-800/50 ${component.is_active === false ? 'opacity-50' : ''}`}>
+                                <td className="px-4 py-3 text-slate-500">{component.ordering}</td>
+                                <td className="px-4 py-3 font-medium text-slate-900 dark:text-white">
+                                    {component.name}
+                                    {component.code && <span className="block text-xs font-mono text-slate-500">{component.code}</span>}
+                                </td>
+                                <td className="px-4 py-3 text-slate-600 dark:text-slate-300">{TYPE_LABELS[component.component_type]}</td>
+                                <td className="px-4 py-3 font-mono text-xs">
+                                    {component.calculation_type === 'formula' ? component.formula : formatNaira(Number(component.amount))}
+                                </td>
+                                <td className="px-4 py-3 text-xs text-slate-500">
+                                    {[
+                                        component.taxable && 'Taxable',
+                                        component.pensionable && 'Pensionable',
+                                        !component.show_on_payslip && 'Helper',
+                                        component.is_active === false && 'Inactive'
+                                    ].filter(Boolean).join(', ')}
+                                </td>
+                                <td className="px-4 py-3 text-right whitespace-nowrap">
+                                    <button onClick={() => setDraft({ ...component })} className="text-blue-600 hover:text-blue-800 dark:text-blue-400 p-1 rounded-full hover:bg-blue-100 dark:hover:bg-blue-900/30">
+                                        <EditIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => handleDelete(component)} className="text-red-500 hover:text-red-700 p-1 rounded-full hover:bg-red-100 dark:hover:bg-red-900/30">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                        {components.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className="px-4 py-8 text-center text-slate-500">No pay components yet.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {draft && (
+                <div className="p-6 border border-slate-200 dark:border-slate-700 rounded-xl bg-white dark:bg-slate-900 shadow-sm space-y-4">
+                    <h4 className="font-semibold text-slate-800 dark:text-white">{draft.id ? `Edit ${draft.name}` : 'New Component'}</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <div className="md:col-span-2">
+                            <label className={labelClasses}>Name</label>
+                            <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClasses} placeholder="Housing Allowance" />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Code</label>
+                            <input type="text" value={draft.code || ''} onChange={e => setDraft({ ...draft, code: e.target.value })} className={`${inputClasses} font-mono`} placeholder="housing" />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Order</label>
+                            <input type="number" value={draft.ordering} onChange={e => setDraft({ ...draft, ordering: Number(e.target.value) })} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Type</label>
+                            <select value={draft.component_type} onChange={e => setDraft({ ...draft, component_type: e.target.value as PayrollComponent['component_type'] })} className={inputClasses}>
+                                {Object.entries(TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Calculation</label>
+                            <select value={draft.calculation_type} onChange={e => setDraft({ ...draft, calculation_type: e.target.value as PayrollComponent['calculation_type'] })} className={inputClasses}>
+                                <option value="fixed">Fixed amount</option>
+                                <option value="formula">Formula</option>
+                            </select>
+                        </div>
+                        {draft.calculation_type === 'fixed' && (
+                            <div>
+                                <label className={labelClasses}>Amount (NGN)</label>
+                                <input type="number" min="0" value={draft.amount} onChange={e => setDraft({ ...draft, amount: Number(e.target.value) })} className={inputClasses} />
+                            </div>
+                        )}
+                    </div>
+
+                    {draft.calculation_type === 'formula' && (
+                        <div>
+                            <label className={labelClasses}>Formula</label>
+                            <textarea
+                                value={draft.formula || ''}
+                                onChange={e => setDraft({ ...draft, formula: e.target.value })}
+                                rows={2}
+                                className={`${inputClasses} font-mono`}
+                                placeholder="round(base_pay * 0.3 * days_worked / working_days, 2)"
+                            />
+                            <p className="mt-1 text-xs text-slate-500">
+                                Variables: {FORMULA_VARIABLES.map(v => <code key={v.name} title={v.label} className="mr-2">{v.name}</code>)}
+                                and other components' codes. Functions: min, max, round, floor, ceil, abs, if. Conditions: <code>grade_level &gt;= 10 ? 20000 : 10000</code>
+                            </p>
+                        </div>
+                    )}
+
+                    <div className="flex flex-wrap gap-6 text-sm text-slate-700 dark:text-slate-200">
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={draft.taxable} onChange={e => setDraft({ ...draft, taxable: e.target.checked })} /> Taxable
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={draft.pensionable} onChange={e => setDraft({ ...draft, pensionable: e.target.checked })} /> Pensionable
+                        </label>
+                        <label className="flex items-center gap-2" title="Unchecked components are helper values for other formulas and are not paid">
+                            <input type="checkbox" checked={draft.show_on_payslip} onChange={e => setDraft({ ...draft, show_on_payslip: e.target.checked })} /> Post to payslip
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={draft.is_active !== false} onChange={e => setDraft({ ...draft, is_active: e.target.checked })} /> Active
+                        </label>
+                    </div>
+
+                    {validationError && (
+                        <p className="text-sm text-red-700 bg-red-50 dark:bg-red-900/20 dark:text-red-300 p-2 rounded-md">{validationError}</p>
+                    )}
+
+                    <div className="pt-4 border-t border-slate-100 dark:border-slate-800 space-y-3">
+                        <div className="flex items-center gap-2">
+                            <label className={labelClasses}>Preview for</label>
+                            <select value={previewStaffId} onChange={e => setPreviewStaffId(e.target.value)} className="p-2 rounded-md bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 text-sm">
+                                <option value="">Select staff member...</option>
+                                {staff.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                        </div>
+                        {preview && 'error' in preview && (
+                            <p className="text-sm text-red-700 bg-red-50 dark:bg-red-900/20 dark:text-red-300 p-2 rounded-md">{preview.error}</p>
+                        )}
+                        {preview && 'results' in preview && (
+                            <table className="w-full text-sm">
+                                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                                    {preview.results.map(({ component, amount }) => (
+                                        <tr key={component.id} className={component.id === (draft.id ?? -1) ? 'font-semibold text-blue-700 dark:text-blue-300' : ''}>
+                                            <td className="py-1">{component.name || 'This component'}</td>
+                                            <td className="py-1 text-xs text-slate-500">{TYPE_LABELS[component.component_type]}</td>
+                                            <td className="py-1 text-right font-mono">{formatNaira(amount)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                        <p className="text-xs text-slate-500">
+                            Uses this month's check-ins for days_worked ({workingDays} working days) and no additions.
+                        </p>
+                    </div>
+
+                    <div className="flex justify-end gap-3">
+                        <button onClick={() => setDraft(null)} className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700">
+                            Cancel
+                        </button>
+                        <button onClick={handleSave} disabled={isSaving || !!validationError} className="px-6 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 flex items-center gap-2">
+                            {isSaving ? <Spinner size="sm" /> : 'Save Component'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PayrollComponentsManager;
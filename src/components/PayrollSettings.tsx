@@ -18,6 +18,7 @@ const PayrollSettings: React.FC<PayrollSettingsProps> = ({ schoolConfig, onSave
                 late_checkin_deduction_percent: schoolConfig.late_checkin_deduction_percent,
                 fine_early_checkout: schoolConfig.fine_early_checkout,
                 fine_no_checkout: schoolConfig.fine_no_checkout,
+                loan_net_pay_floor: schoolConfig.loan_net_pay_floor,
                 pay_cycle: schoolConfig.pay_cycle || 'monthly',
             });
         }
@@ -29,6 +30,7 @@ const PayrollSettings: React.FC<PayrollSettingsProps> = ({ schoolConfig, onSave
             late_checkin_deduction_percent: Number(config.late_checkin_deduction_percent) || null,
             fine_early_checkout: Number(config.fine_early_checkout) || 0,
             fine_no_checkout: Number(config.fine_no_checkout) || 0,
+            loan_net_pay_floor: Number(config.loan_net_pay_floor) || 0,
             pay_cycle: config.pay_cycle,
         });
         setIsSaving(false);
@@ -111,6 +113,23 @@ const PayrollSettings: React.FC<PayrollSettingsProps> = ({ schoolConfig, onSave
                         />
                     </div>
                 </div>
+
+                {/* Loan Repayments */}
+                <div className="pt-4 border-t border-slate-100 dark:border-slate-800">
+                    <label htmlFor="loan_net_pay_floor" className={labelClasses}>
+                        Minimum Net Pay for Loan Repayments (₦)
+                    </label>
+                    <p className="text-xs text-slate-500 mb-2">A loan or advance repayment is paused for the month when it would leave net pay below this amount.</p>
+                    <input
+                        type="number"
+                        id="loan_net_pay_floor"
+                        name="loan_net_pay_floor"
+                        value={config.loan_net_pay_floor || ''}
+                        onChange={e => setConfig(prev => ({ ...prev, loan_net_pay_floor: Number(e.target.value) }))}
+                        className={inputClasses}
+                        placeholder="e.g., 30000"
+                    />
+                </div>
             </div>
             <div className="flex justify-end">
                 <button onClick={handleSave} disabled={isSaving} className="px-6 py-2.5 bg-blue-600 text-white font-bold rounded-xl hover:bg-blue-700 disabled:bg-blue-400 flex items-center gap-2 shadow-lg shadow-blue-500/20">
@@ -0,0 +1,542 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import type { QuestionBankItem, QuestionBankUsage, QuestionDifficulty, QuizWithQuestions, UserProfile } from '../types';
+import Spinner from './common/Spinner';
+import { PlusCircleIcon, TrashIcon, WandIcon, PrinterIcon, ExclamationTriangleIcon } from './common/icons';
+import { mapSupabaseError } from '../utils/errorHandling';
+import { exportToPDF, type PDFSection } from '../utils/pdfExport';
+import {
+    bankItemToQuizQuestion,
+    describeRule,
+    drawQuestions,
+    rankByIncorrectRate,
+    resolveMcqAnswerIndex,
+    type DrawResult,
+    type DrawRule,
+} from '../services/questionBank';
+
+interface QuestionBankViewProps {
+    userProfile: UserProfile;
+    onSaveQuiz: (quizData: Omit<QuizWithQuestions, 'id' | 'created_at' | 'school_id' | 'created_by'> & { id?: number }) => Promise<void>;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+type ItemDraft = Omit<QuestionBankItem, 'id' | 'school_id' | 'options'> & { id?: number; optionsText: string };
+
+const DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+const EMPTY_DRAFT: ItemDraft = {
+    subject_name: '',
+    level: '',
+    topic: '',
+    difficulty: 'medium',
+    question_type: 'multiple_choice',
+    question_text: '',
+    optionsText: '',
+    answer: '',
+    marks: 1,
+    is_active: true,
+};
+
+const OPTION_LETTERS = 'ABCDEFGH';
+
+const uniqueSorted = (values: (string | null | undefined)[]) =>
+    [...new Set(values.filter((v): v is string => !!v && v.trim() !== ''))].sort((a, b) => a.localeCompare(b));
+
+const QuestionBankView: React.FC<QuestionBankViewProps> = ({ userProfile, onSaveQuiz, addToast }) => {
+    const [activeTab, setActiveTab] = useState<'bank' | 'assemble' | 'stats'>('bank');
+    const [items, setItems] = useState<QuestionBankItem[]>([]);
+    const [usage, setUsage] = useState<QuestionBankUsage[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // Bank browsing
+    const [subjectFilter, setSubjectFilter] = useState('');
+    const [levelFilter, setLevelFilter] = useState('');
+    const [topicFilter, setTopicFilter] = useState('');
+    const [difficultyFilter, setDifficultyFilter] = useState('');
+    const [search, setSearch] = useState('');
+    const [draft, setDraft] = useState<ItemDraft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Assembly
+    const [rules, setRules] = useState<DrawRule[]>([{ count: 10, difficulty: 'easy' }, { count: 5, difficulty: 'hard' }]);
+    const [seed, setSeed] = useState(() => Date.now());
+    const [drawResult, setDrawResult] = useState<DrawResult | null>(null);
+    const [paperTitle, setPaperTitle] = useState('');
+    const [asCbt, setAsCbt] = useState(true);
+    const [timeLimit, setTimeLimit] = useState(30);
+    const [includeAnswerKey, setIncludeAnswerKey] = useState(true);
+
+    const fetchItems = async () => {
+        const supabase = requireSupabaseClient();
+        const { data, error } = await supabase
+            .from('question_bank_items')
+            .select('*')
+            .eq('school_id', userProfile.school_id)
+            .order('subject_name')
+            .order('topic');
+        if (error) {
+            addToast(`Error loading question bank: ${mapSupabaseError(error)}`, 'error');
+        } else {
+            setItems((data || []) as QuestionBankItem[]);
+        }
+    };
+
+    const fetchUsage = async () => {
+        const supabase = requireSupabaseClient();
+        const { data, error } = await supabase.rpc('get_question_bank_usage', { p_school_id: userProfile.school_id });
+        if (error) {
+            addToast(`Error loading usage statistics: ${mapSupabaseError(error)}`, 'error');
+        } else {
+            setUsage((data || []) as QuestionBankUsage[]);
+        }
+    };
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            await fetchItems();
+            setIsLoading(false);
+        };
+        load();
+    }, [userProfile.school_id]);
+
+    useEffect(() => {
+        if (activeTab === 'stats') fetchUsage();
+    }, [activeTab]);
+
+    const subjectOptions = useMemo(() => uniqueSorted(items.map(i => i.subject_name)), [items]);
+    const levelOptions = useMemo(() => uniqueSorted(items.filter(i => !subjectFilter || i.subject_name === subjectFilter).map(i => i.level)), [items, subjectFilter]);
+    const topicOptions = useMemo(() => uniqueSorted(items
+        .filter(i => (!subjectFilter || i.subject_name === subjectFilter) && (!levelFilter || i.level === levelFilter))
+        .map(i => i.topic)), [items, subjectFilter, levelFilter]);
+
+    const filteredItems = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return items.filter(i => (!subjectFilter || i.subject_name === subjectFilter)
+            && (!levelFilter || i.level === levelFilter)
+            && (!topicFilter || i.topic === topicFilter)
+            && (!difficultyFilter || i.difficulty === difficultyFilter)
+            && (!term || i.question_text.toLowerCase().includes(term)));
+    }, [items, subjectFilter, levelFilter, topicFilter, difficultyFilter, search]);
+
+    const handleEditItem = (item: QuestionBankItem) => {
+        const { options, school_id, ...rest } = item;
+        setDraft({ ...rest, optionsText: (options || []).join('\n') });
+    };
+
+    const handleSaveItem = async () => {
+        if (!draft) return;
+        if (!draft.subject_name.trim() || !draft.question_text.trim()) {
+            addToast('Subject and question text are required.', 'error');
+            return;
+        }
+        const options = draft.question_type === 'multiple_choice'
+            ? draft.optionsText.split('\n').map(o => o.trim()).filter(Boolean)
+            : null;
+        if (options && options.length < 2) {
+            addToast('Multiple choice questions need at least two options.', 'error');
+            return;
+        }
+        if (options && resolveMcqAnswerIndex(options, draft.answer) === null) {
+            addToast('The answer must match one of the options or be an option letter.', 'error');
+            return;
+        }
+
+        setIsSaving(true);
+        const supabase = requireSupabaseClient();
+        const { id, optionsText, ...fields } = draft;
+        const payload = {
+            ...fields,
+            subject_name: fields.subject_name.trim(),
+            level: fields.level?.trim() || null,
+            topic: fields.topic?.trim() || null,
+            options,
+            marks: Number(fields.marks) || 1,
+            updated_at: new Date().toISOString(),
+        };
+        const { error } = id
+            ? await supabase.from('question_bank_items').update(payload).eq('id', id)
+            : await supabase.from('question_bank_items').insert({ ...payload, school_id: userProfile.school_id, created_by: userProfile.id });
+        setIsSaving(false);
+
+        if (error) {
+            addToast(`Error saving question: ${mapSupabaseError(error)}`, 'error');
+            return;
+        }
+        addToast('Question saved.', 'success');
+        setDraft(null);
+        await fetchItems();
+    };
+
+    const handleQuickUpdate = async (item: QuestionBankItem, changes: Partial<QuestionBankItem>) => {
+        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, ...changes } : i)));
+        const supabase = requireSupabaseClient();
+        const { error } = await supabase.from('question_bank_items').update(changes).eq('id', item.id);
+        if (error) {
+            addToast(`Error updating question: ${mapSupabaseError(error)}`, 'error');
+            await fetchItems();
+        }
+    };
+
+    const handleDeleteItem = async (item: QuestionBankItem) => {
+        if (!window.confirm('Delete this question from the bank? Quizzes already built from it keep their copy.')) return;
+        const supabase = requireSupabaseClient();
+        const { error } = await supabase.from('question_bank_items').delete().eq('id', item.id);
+        if (error) {
+            addToast(`Error deleting question: ${mapSupabaseError(error)}`, 'error');
+            return;
+        }
+        setItems(prev => prev.filter(i => i.id !== item.id));
+    };
+
+    const updateRule = (index: number, changes: Partial<DrawRule>) => {
+        setRules(prev => prev.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+        setDrawResult(null);
+    };
+
+    const handleDraw = (nextSeed = seed) => {
+        if (!subjectFilter) {
+            addToast('Choose a subject to draw from.', 'error');
+            return;
+        }
+        setSeed(nextSeed);
+        const result = drawQuestions(items, rules, { subject: subjectFilter, level: levelFilter || null, seed: nextSeed });
+        setDrawResult(result);
+        if (!paperTitle) setPaperTitle(`${levelFilter ? `${levelFilter} ` : ''}${subjectFilter} Test`);
+    };
+
+    const handleCreateQuiz = async () => {
+        if (!drawResult || drawResult.drawn.length === 0) return;
+        const questions = drawResult.drawn.map((item, index) => bankItemToQuizQuestion(item, index));
+        if (asCbt && questions.some(q => q.question_type === 'multiple_choice' && q.correct_option_index == null)) {
+            addToast('Some drawn objective questions have an answer that does not match an option. Fix them in the bank first.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        await onSaveQuiz({
+            title: paperTitle.trim() || `${subjectFilter} Test`,
+            description: drawResult.drawn.length + ' questions drawn from the question bank: ' + rules.filter(r => r.count > 0).map(describeRule).join(', '),
+            questions,
+            audience: [],
+            cbt_settings: asCbt
+                ? { enabled: true, time_limit_minutes: timeLimit || null, shuffle_questions: true, shuffle_options: true, subject_name: subjectFilter }
+                : null,
+        });
+        setIsSaving(false);
+        addToast('Open the quiz from the list to choose who should take it.', 'info');
+    };
+
+    const handlePrintPaper = async () => {
+        if (!drawResult || drawResult.drawn.length === 0) return;
+        const objective = drawResult.drawn.filter(i => i.question_type === 'multiple_choice');
+        const theory = drawResult.drawn.filter(i => i.question_type === 'theory');
+        const formatItem = (item: QuestionBankItem, index: number) => {
+            const lines = [`${index + 1}. ${item.question_text} (${Number(item.marks)} mark${Number(item.marks) === 1 ? '' : 's'})`];
+            (item.options || []).forEach((option, i) => lines.push(`    ${OPTION_LETTERS[i] || i + 1}. ${option}`));
+            return lines.join('\n');
+        };
+
+        const sections: PDFSection[] = [];
+        if (objective.length > 0) {
+            sections.push({ title: 'Section A: Objective Questions', content: objective.map(formatItem).join('\n\n'), type: 'text' });
+        }
+        if (theory.length > 0) {
+            sections.push({ title: 'Section B: Theory Questions', content: theory.map(formatItem).join('\n\n'), type: 'text', pageBreakBefore: objective.length > 0 });
+        }
+        if (includeAnswerKey) {
+            const keyLines = [...objective, ...theory].map((item, index) => {
+                if (item.question_type === 'multiple_choice') {
+                    const answerIndex = resolveMcqAnswerIndex(item.options || [], item.answer);
+                    return `${index + 1}. ${answerIndex === null ? item.answer || '—' : `${OPTION_LETTERS[answerIndex]}. ${item.options![answerIndex]}`}`;
+                }
+                return `${index + 1}. ${item.answer || '—'}`;
+            });
+            sections.push({ title: 'Answer Key (for teachers)', content: keyLines.join('\n'), type: 'text', pageBreakBefore: true });
+        }
+
+        try {
+            await exportToPDF({
+                title: paperTitle.trim() || `${subjectFilter} Test`,
+                subtitle: [subjectFilter, levelFilter].filter(Boolean).join(' · '),
+                includeBranding: true,
+                pageSize: 'a4',
+                orientation: 'portrait',
+                includeTableOfContents: false,
+                sections,
+                generatedBy: userProfile.name,
+                generatedAt: new Date().toLocaleDateString(),
+            });
+        } catch (error) {
+            console.error('Error exporting test paper:', error);
+            addToast('Could not generate the PDF.', 'error');
+        }
+    };
+
+    const rankedUsage = useMemo(() => rankByIncorrectRate(items, usage)
+        .filter(s => !subjectFilter || s.item.subject_name === subjectFilter), [items, usage, subjectFilter]);
+
+    const tabClass = (tab: typeof activeTab) =>
+        `py-2 px-1 border-b-2 font-medium text-sm ${activeTab === tab ? 'border-blue-500 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`;
+
+    if (isLoading) {
+        return <div className="flex justify-center items-center h-64"><Spinner size="lg" /></div>;
+    }
+
+    const filters = (
+        <div className="flex flex-wrap gap-2">
+            <select value={subjectFilter} onChange={e => { setSubjectFilter(e.target.value); setLevelFilter(''); setTopicFilter(''); setDrawResult(null); }} className="p-2 border rounded-md text-sm">
+                <option value="">All subjects</option>
+                {subjectOptions.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <select value={levelFilter} onChange={e => { setLevelFilter(e.target.value); setTopicFilter(''); setDrawResult(null); }} className="p-2 border rounded-md text-sm">
+                <option value="">All levels</option>
+                {levelOptions.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+        </div>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="border-b border-slate-200 dark:border-slate-700">
+                <nav className="-mb-px flex space-x-6">
+                    <button onClick={() => setActiveTab('bank')} className={tabClass('bank')}>Questions ({items.length})</button>
+                    <button onClick={() => setActiveTab('assemble')} className={tabClass('assemble')}>Assemble Test</button>
+                    <button onClick={() => setActiveTab('stats')} className={tabClass('stats')}>Usage Statistics</button>
+                </nav>
+            </div>
+
+            {activeTab === 'bank' && (
+                <div className="space-y-4">
+                    <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg text-sm text-blue-800 dark:text-blue-200">
+                        <strong>How it works:</strong> MCQs and theory questions from approved lesson plans are added here automatically, tagged with the plan's subject, level and session title as the topic. Set a difficulty on each so tests can be drawn by difficulty.
+                    </div>
+                    <div className="flex flex-wrap justify-between items-end gap-2">
+                        <div className="flex flex-wrap gap-2">
+                            {filters}
+                            <select value={topicFilter} onChange={e => setTopicFilter(e.target.value)} className="p-2 border rounded-md text-sm">
+                                <option value="">All topics</option>
+                                {topicOptions.map(t => <option key={t} value={t}>{t}</option>)}
+                            </select>
+                            <select value={difficultyFilter} onChange={e => setDifficultyFilter(e.target.value)} className="p-2 border rounded-md text-sm">
+                                <option value="">Any difficulty</option>
+                                {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                            </select>
+                            <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search questions..." className="p-2 border rounded-md text-sm" />
+                        </div>
+                        <button onClick={() => setDraft({ ...EMPTY_DRAFT, subject_name: subjectFilter, level: levelFilter, topic: topicFilter })} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 text-sm">
+                            <PlusCircleIcon className="w-5 h-5" /> Add Question
+                        </button>
+                    </div>
+
+                    {draft && (
+                        <div className="p-4 rounded-xl border bg-white dark:bg-slate-800 space-y-3">
+                            <h3 className="font-semibold">{draft.id ? 'Edit Question' : 'New Question'}</h3>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                                <input type="text" placeholder="Subject" value={draft.subject_name} onChange={e => setDraft({ ...draft, subject_name: e.target.value })} className="p-2 border rounded-md text-sm" />
+                                <input type="text" placeholder="Level (e.g. JSS 1)" value={draft.level || ''} onChange={e => setDraft({ ...draft, level: e.target.value })} className="p-2 border rounded-md text-sm" />
+                                <input type="text" placeholder="Topic" value={draft.topic || ''} onChange={e => setDraft({ ...draft, topic: e.target.value })} className="p-2 border rounded-md text-sm" />
+                                <select value={draft.difficulty} onChange={e => setDraft({ ...draft, difficulty: e.target.value as QuestionDifficulty })} className="p-2 border rounded-md text-sm">
+                                    {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                                </select>
+                                <select value={draft.question_type} onChange={e => setDraft({ ...draft, question_type: e.target.value as QuestionBankItem['question_type'] })} className="p-2 border rounded-md text-sm">
+                                    <option value="multiple_choice">Objective (MCQ)</option>
+                                    <option value="theory">Theory</option>
+                                </select>
+                                <label className="flex items-center gap-2 text-sm">
+                                    Marks
+                                    <input type="number" min={0.5} step={0.5} value={draft.marks} onChange={e => setDraft({ ...draft, marks: Number(e.target.value) })} className="w-20 p-2 border rounded-md" />
+                                </label>
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input type="checkbox" checked={draft.is_active} onChange={e => setDraft({ ...draft, is_active: e.target.checked })} /> Active
+                                </label>
+                            </div>
+                            <textarea rows={2} placeholder="Question" value={draft.question_text} onChange={e => setDraft({ ...draft, question_text: e.target.value })} className="w-full p-2 border rounded-md text-sm" />
+                            {draft.question_type === 'multiple_choice' && (
+                                <textarea rows={4} placeholder="Options, one per line" value={draft.optionsText} onChange={e => setDraft({ ...draft, optionsText: e.target.value })} className="w-full p-2 border rounded-md text-sm" />
+                            )}
+                            <textarea
+                                rows={draft.question_type === 'theory' ? 3 : 1}
+                                placeholder={draft.question_type === 'theory' ? 'Model answer / marking guide' : 'Correct option (text or letter)'}
+                                value={draft.answer || ''}
+                                onChange={e => setDraft({ ...draft, answer: e.target.value })}
+                                className="w-full p-2 border rounded-md text-sm"
+                            />
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setDraft(null)} className="px-4 py-2 bg-slate-200 dark:bg-slate-700 rounded-lg text-sm">Cancel</button>
+                                <button onClick={handleSaveItem} disabled={isSaving} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm disabled:bg-blue-400">
+                                    {isSaving ? <Spinner size="sm" /> : 'Save Question'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="overflow-x-auto rounded-xl border">
+                        <table className="min-w-full text-sm">
+                            <thead className="bg-slate-50 dark:bg-slate-800 text-left">
+                                <tr>
+                                    <th className="p-2">Question</th>
+                                    <th className="p-2">Subject / Level</th>
+                                    <th className="p-2">Topic</th>
+                                    <th className="p-2">Difficulty</th>
+                                    <th className="p-2">Source</th>
+                                    <th className="p-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {filteredItems.map(item => (
+                                    <tr key={item.id} className={`border-t ${item.is_active ? '' : 'opacity-50'}`}>
+                                        <td className="p-2 max-w-md">
+                                            <p className="line-clamp-2">{item.question_text}</p>
+                                            <p className="text-xs text-slate-500">{item.question_type === 'theory' ? 'Theory' : `Objective · ${(item.options || []).length} options`} · {Number(item.marks)} mark(s)</p>
+                                        </td>
+                                        <td className="p-2">{item.subject_name}{item.level ? ` · ${item.level}` : ''}</td>
+                                        <td className="p-2">{item.topic || '—'}</td>
+                                        <td className="p-2">
+                                            <select value={item.difficulty} onChange={e => handleQuickUpdate(item, { difficulty: e.target.value as QuestionDifficulty })} className="p-1 border rounded-md text-xs">
+                                                {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="p-2 text-xs text-slate-500">{item.source_lesson_plan_id ? 'Lesson plan' : 'Manual'}</td>
+                                        <td className="p-2 whitespace-nowrap text-right">
+                                            <button onClick={() => handleEditItem(item)} className="text-xs font-medium text-blue-600 hover:underline mr-3">Edit</button>
+                                            <button onClick={() => handleQuickUpdate(item, { is_active: !item.is_active })} className="text-xs font-medium text-slate-600 hover:underline mr-3">{item.is_active ? 'Retire' : 'Restore'}</button>
+                                            <button onClick={() => handleDeleteItem(item)} className="text-red-600 align-middle"><TrashIcon className="w-4 h-4" /></button>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {filteredItems.length === 0 && (
+                                    <tr><td colSpan={6} className="p-8 text-center text-slate-500">No questions match these filters.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {activeTab === 'assemble' && (
+                <div className="space-y-4">
+                    {filters}
+                    <div className="p-4 rounded-xl border bg-white/60 dark:bg-slate-800/60 space-y-2">
+                        <h3 className="font-semibold">Draw rules</h3>
+                        {rules.map((rule, index) => (
+                            <div key={index} className="flex flex-wrap items-center gap-2">
+                                <input type="number" min={0} value={rule.count} onChange={e => updateRule(index, { count: Number(e.target.value) })} className="w-20 p-2 border rounded-md text-sm" />
+                                <select value={rule.difficulty || ''} onChange={e => updateRule(index, { difficulty: (e.target.value || null) as QuestionDifficulty | null })} className="p-2 border rounded-md text-sm">
+                                    <option value="">any difficulty</option>
+                                    {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                                </select>
+                                <select value={rule.questionType || ''} onChange={e => updateRule(index, { questionType: (e.target.value || null) as DrawRule['questionType'] })} className="p-2 border rounded-md text-sm">
+                                    <option value="">any type</option>
+                                    <option value="multiple_choice">objective</option>
+                                    <option value="theory">theory</option>
+                                </select>
+                                <select value={rule.topic || ''} onChange={e => updateRule(index, { topic: e.target.value || null })} className="p-2 border rounded-md text-sm">
+                                    <option value="">any topic</option>
+                                    {topicOptions.map(t => <option key={t} value={t}>{t}</option>)}
+                                </select>
+                                <button onClick={() => { setRules(prev => prev.filter((_, i) => i !== index)); setDrawResult(null); }} className="text-red-600"><TrashIcon className="w-4 h-4" /></button>
+                            </div>
+                        ))}
+                        <div className="flex gap-2 pt-2">
+                            <button onClick={() => setRules(prev => [...prev, { count: 5 }])} className="flex items-center gap-1 px-3 py-1 text-sm bg-slate-200 dark:bg-slate-700 rounded-lg">
+                                <PlusCircleIcon className="w-4 h-4" /> Add Rule
+                            </button>
+                            <button onClick={() => handleDraw()} className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg">
+                                <WandIcon className="w-4 h-4" /> Draw Questions
+                            </button>
+                            {drawResult && (
+                                <button onClick={() => handleDraw(Date.now())} className="px-3 py-1 text-sm bg-slate-200 dark:bg-slate-700 rounded-lg">Redraw</button>
+                            )}
+                        </div>
+                    </div>
+
+                    {drawResult && (
+                        <div className="space-y-4">
+                            {drawResult.shortfalls.map((s, i) => (
+                                <div key={i} className="flex items-center gap-2 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+                                    <ExclamationTriangleIcon className="w-5 h-5" />
+                                    Rule "{describeRule(s.rule)}" only found {s.available} question(s).
+                                </div>
+                            ))}
+                            <div className="p-4 rounded-xl border bg-white/60 dark:bg-slate-800/60">
+                                <h3 className="font-semibold mb-2">{drawResult.drawn.length} questions · {drawResult.drawn.reduce((sum, i) => sum + Number(i.marks), 0)} marks</h3>
+                                <ol className="list-decimal pl-6 space-y-1 text-sm">
+                                    {drawResult.drawn.map(item => (
+                                        <li key={item.id}>
+                                            {item.question_text}
+                                            <span className="ml-2 text-xs text-slate-500">{item.topic || 'No topic'} · {item.difficulty}</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                            <div className="p-4 rounded-xl border bg-white/60 dark:bg-slate-800/60 space-y-3">
+                                <input type="text" value={paperTitle} onChange={e => setPaperTitle(e.target.value)} placeholder="Test title" className="w-full p-2 border rounded-md" />
+                                <div className="flex flex-wrap items-center gap-4 text-sm">
+                                    <label className="flex items-center gap-2">
+                                        <input type="checkbox" checked={asCbt} onChange={e => setAsCbt(e.target.checked)} /> Computer-based test
+                                    </label>
+                                    {asCbt && (
+                                        <label className="flex items-center gap-2">
+                                            Time limit (minutes)
+                                            <input type="number" min={0} value={timeLimit} onChange={e => setTimeLimit(Number(e.target.value))} className="w-20 p-1 border rounded-md" />
+                                        </label>
+                                    )}
+                                    <label className="flex items-center gap-2">
+                                        <input type="checkbox" checked={includeAnswerKey} onChange={e => setIncludeAnswerKey(e.target.checked)} /> Answer key on printout
+                                    </label>
+                                </div>
+                                <div className="flex flex-wrap gap-2">
+                                    <button onClick={handleCreateQuiz} disabled={isSaving || drawResult.drawn.length === 0} className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm disabled:bg-green-400">
+                                        {isSaving ? <Spinner size="sm" /> : asCbt ? 'Create CBT Exam' : 'Create Quiz'}
+                                    </button>
+                                    <button onClick={handlePrintPaper} disabled={drawResult.drawn.length === 0} className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-white rounded-lg text-sm disabled:bg-slate-400">
+                                        <PrinterIcon className="w-4 h-4" /> Print Test Paper
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {activeTab === 'stats' && (
+                <div className="space-y-4">
+                    {filters}
+                    <p className="text-sm text-slate-600 dark:text-slate-300">Questions most often answered wrongly in quizzes built from the bank. Short answers count once they have been marked.</p>
+                    <div className="overflow-x-auto rounded-xl border">
+                        <table className="min-w-full text-sm">
+                            <thead className="bg-slate-50 dark:bg-slate-800 text-left">
+                                <tr>
+                                    <th className="p-2">Question</th>
+                                    <th className="p-2">Topic</th>
+                                    <th className="p-2 text-right">Quizzes</th>
+                                    <th className="p-2 text-right">Responses</th>
+                                    <th className="p-2 text-right">Wrong</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rankedUsage.filter(s => !levelFilter || s.item.level === levelFilter).map(stat => (
+                                    <tr key={stat.item.id} className="border-t">
+                                        <td className="p-2 max-w-md"><p className="line-clamp-2">{stat.item.question_text}</p></td>
+                                        <td className="p-2">{stat.item.topic || '—'}</td>
+                                        <td className="p-2 text-right">{stat.quizCount}</td>
+                                        <td className="p-2 text-right">{stat.responseCount}</td>
+                                        <td className={`p-2 text-right font-semibold ${stat.incorrectRate >= 0.5 ? 'text-red-600' : 'text-slate-700 dark:text-slate-200'}`}>
+                                            {Math.round(stat.incorrectRate * 100)}%
+                                        </td>
+                                    </tr>
+                                ))}
+                                {rankedUsage.length === 0 && (
+                                    <tr><td colSpan={5} className="p-8 text-center text-slate-500">No responses recorded yet for bank questions.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default QuestionBankView;
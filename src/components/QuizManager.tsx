@@ -1,10 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import type { QuizWithQuestions, QuizQuestion, AudienceRule, RoleDetails, BaseDataObject, RoleTitle, MultipleChoiceOption, ScoreEntry, AttendanceRecord, ReportRecord } from '../types';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import type { QuizWithQuestions, QuizQuestion, AudienceRule, RoleDetails, BaseDataObject, RoleTitle, MultipleChoiceOption, ScoreEntry, AttendanceRecord, ReportRecord, CbtSettings, QuizAnswerKey, Term, Subject, UserProfile } from '../types';
 import { QuizQuestionType } from '../types';
+import { mergeAnswerKeys } from '../services/cbtMarking';
 import Spinner from './common/Spinner';
 import { PlusCircleIcon, TrashIcon } from './common/icons';
 import QuizResultsView from './QuizResultsView';
+import QuestionBankView from './QuestionBankView';
 
 interface QuizManagerProps {
     quizzes: QuizWithQuestions[];
@@ -17,8 +20,23 @@ interface QuizManagerProps {
     scoreEntries?: ScoreEntry[];
     attendanceRecords?: AttendanceRecord[];
     reports?: ReportRecord[];
+    terms?: Term[];
+    subjects?: Subject[];
+    /** Enables the question bank tab */
+    userProfile?: UserProfile;
 }
 
+const DEFAULT_CBT_SETTINGS: CbtSettings = {
+    enabled: true,
+    time_limit_minutes: 30,
+    shuffle_questions: true,
+    shuffle_options: true,
+    term_id: null,
+    subject_name: null,
+    score_component: null,
+    component_max_score: null,
+};
+
 const AddAudienceRule: React.FC<{
     onAdd: (rule: AudienceRule) => void;
     allClasses: BaseDataObject[];
@@ -85,11 +103,14 @@ const QuizBuilderModal: React.FC<{
     allClasses: BaseDataObject[];
     allArms: BaseDataObject[];
     allRoles: RoleDetails[];
-}> = ({ isOpen, onClose, onSave, existingQuiz, addToast, allClasses, allArms, allRoles }) => {
+    terms: Term[];
+    subjects: Subject[];
+}> = ({ isOpen, onClose, onSave, existingQuiz, addToast, allClasses, allArms, allRoles, terms, subjects }) => {
     const [title, setTitle] = useState('');
     const [description, setDescription] = useState('');
     const [questions, setQuestions] = useState<QuizQuestion[]>([]);
     const [audience, setAudience] = useState<AudienceRule[]>([]);
+    const [cbtSettings, setCbtSettings] = useState<CbtSettings>(DEFAULT_CBT_SETTINGS);
     const [isSaving, setIsSaving] = useState(false);
 
     useEffect(() => {
@@ -97,10 +118,21 @@ const QuizBuilderModal: React.FC<{
             setTitle(existingQuiz?.title || '');
             setDescription(existingQuiz?.description || '');
             setAudience(existingQuiz?.audience || []);
+            setCbtSettings(existingQuiz ? existingQuiz.cbt_settings || { ...DEFAULT_CBT_SETTINGS, enabled: false } : DEFAULT_CBT_SETTINGS);
             if (existingQuiz && existingQuiz.questions) {
                 // Deep copy and sort to avoid mutation issues and ensure order
                 const sortedQuestions = [...existingQuiz.questions].sort((a, b) => a.position - b.position);
                 setQuestions(sortedQuestions);
+                if (existingQuiz.cbt_settings?.enabled) {
+                    // Answer keys are not part of the quiz payload students receive, so load them separately
+                    requireSupabaseClient()
+                        .from('quiz_answer_keys')
+                        .select('*')
+                        .eq('quiz_id', existingQuiz.id)
+                        .then(({ data }) => {
+                            if (data) setQuestions(mergeAnswerKeys(sortedQuestions, data as QuizAnswerKey[]));
+                        });
+                }
             } else {
                 setQuestions([]);
             }
@@ -148,6 +180,11 @@ const QuizBuilderModal: React.FC<{
         const options = newQuestions[qIndex].options as MultipleChoiceOption[];
         if(options) {
             options.splice(oIndex, 1);
+            // Keep the answer key pointing at the same option text
+            const correct = newQuestions[qIndex].correct_option_index;
+            if (correct != null) {
+                newQuestions[qIndex] = { ...newQuestions[qIndex], correct_option_index: correct === oIndex ? null : correct > oIndex ? correct - 1 : correct };
+            }
             setQuestions(newQuestions);
         }
     }
@@ -165,13 +202,28 @@ const QuizBuilderModal: React.FC<{
             addToast('Add at least one question', 'error');
             return;
         }
+        if (cbtSettings.enabled) {
+            const missingKey = questions.findIndex(q =>
+                (q.question_type === 'multiple_choice' && q.correct_option_index == null) ||
+                ((q.question_type === 'true_false' || q.question_type === 'ranking') && !q.correct_answer)
+            );
+            if (missingKey >= 0) {
+                addToast(`Question ${missingKey + 1} needs a correct answer.`, 'error');
+                return;
+            }
+            if (cbtSettings.score_component && (!cbtSettings.term_id || !cbtSettings.subject_name || !cbtSettings.component_max_score)) {
+                addToast('Choose a term, subject and maximum score to push results into a score component.', 'error');
+                return;
+            }
+        }
         setIsSaving(true);
         await onSave({
             id: existingQuiz?.id,
             title,
             description,
-            questions,
-            audience
+            questions: questions.map((q, index) => ({ ...q, position: index + 1 })),
+            audience,
+            cbt_settings: cbtSettings,
         });
         setIsSaving(false);
         onClose();
@@ -204,6 +256,46 @@ const QuizBuilderModal: React.FC<{
                         <AddAudienceRule onAdd={(rule) => setAudience(prev => [...prev, rule])} allClasses={allClasses} allArms={allArms} allRoles={allRoles} />
                     </div>
 
+                    <div className="p-4 border rounded-lg bg-slate-500/5 space-y-3">
+                        <label className="flex items-center gap-2 font-semibold">
+                            <input type="checkbox" checked={cbtSettings.enabled} onChange={e => setCbtSettings({ ...cbtSettings, enabled: e.target.checked })} />
+                            Computer-based test (answer keys, one timed attempt, auto-marking)
+                        </label>
+                        {cbtSettings.enabled && (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                                <label>Time limit (minutes, blank for untimed)
+                                    <input type="number" min={1} value={cbtSettings.time_limit_minutes ?? ''} onChange={e => setCbtSettings({ ...cbtSettings, time_limit_minutes: e.target.value ? Number(e.target.value) : null })} className="mt-1 w-full p-2 border rounded-md" />
+                                </label>
+                                <div className="flex flex-col justify-end gap-1">
+                                    <label className="flex items-center gap-2"><input type="checkbox" checked={!!cbtSettings.shuffle_questions} onChange={e => setCbtSettings({ ...cbtSettings, shuffle_questions: e.target.checked })} /> Shuffle questions</label>
+                                    <label className="flex items-center gap-2"><input type="checkbox" checked={!!cbtSettings.shuffle_options} onChange={e => setCbtSettings({ ...cbtSettings, shuffle_options: e.target.checked })} /> Shuffle options</label>
+                                </div>
+                                <label>Push scores into component (optional)
+                                    <input type="text" placeholder="e.g. CA1" value={cbtSettings.score_component ?? ''} onChange={e => setCbtSettings({ ...cbtSettings, score_component: e.target.value.trim() || null })} className="mt-1 w-full p-2 border rounded-md" />
+                                </label>
+                                {cbtSettings.score_component && (
+                                    <>
+                                        <label>Component maximum score
+                                            <input type="number" min={1} value={cbtSettings.component_max_score ?? ''} onChange={e => setCbtSettings({ ...cbtSettings, component_max_score: e.target.value ? Number(e.target.value) : null })} className="mt-1 w-full p-2 border rounded-md" />
+                                        </label>
+                                        <label>Term
+                                            <select value={cbtSettings.term_id ?? ''} onChange={e => setCbtSettings({ ...cbtSettings, term_id: e.target.value ? Number(e.target.value) : null })} className="mt-1 w-full p-2 border rounded-md">
+                                                <option value="">Select term</option>
+                                                {terms.map(t => <option key={t.id} value={t.id}>{t.session_label} {t.term_label}</option>)}
+                                            </select>
+                                        </label>
+                                        <label>Subject
+                                            <select value={cbtSettings.subject_name ?? ''} onChange={e => setCbtSettings({ ...cbtSettings, subject_name: e.target.value || null })} className="mt-1 w-full p-2 border rounded-md">
+                                                <option value="">Select subject</option>
+                                                {subjects.map(s => <option key={s.id} value={s.name}>{s.name}</option>)}
+                                            </select>
+                                        </label>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
                     <div className="space-y-4">
                         <h3 className="font-semibold">Questions</h3>
                         
@@ -227,7 +319,15 @@ const QuizBuilderModal: React.FC<{
                                     <div className="ml-6 space-y-2">
                                         {(q.options as MultipleChoiceOption[])?.map((opt, oIndex) => (
                                             <div key={oIndex} className="flex items-center gap-2">
-                                                <input type="radio" disabled className="h-4 w-4"/>
+                                                <input
+                                                    type="radio"
+                                                    name={`correct-${i}`}
+                                                    disabled={!cbtSettings.enabled}
+                                                    checked={cbtSettings.enabled && q.correct_option_index === oIndex}
+                                                    onChange={() => updateQuestion(i, 'correct_option_index', oIndex)}
+                                                    title="Mark as correct answer"
+                                                    className="h-4 w-4"
+                                                />
                                                 <input type="text" value={opt.text} onChange={e => updateOption(i, oIndex, e.target.value)} placeholder={`Option ${oIndex + 1}`} className="flex-grow p-1 border rounded bg-white dark:bg-slate-700"/>
                                                 <button onClick={() => removeOption(i, oIndex)} className="text-red-400 hover:text-red-600">&times;</button>
                                             </div>
@@ -238,11 +338,33 @@ const QuizBuilderModal: React.FC<{
                                 {q.question_type === 'short_answer' && <div className="ml-6 p-2 bg-slate-100 dark:bg-slate-700 rounded text-slate-400 italic text-sm">Short answer text input</div>}
                                 {q.question_type === 'true_false' && (
                                     <div className="ml-6 flex gap-4 text-sm">
-                                        <label className="flex items-center gap-1"><input type="radio" disabled/> True</label>
-                                        <label className="flex items-center gap-1"><input type="radio" disabled/> False</label>
+                                        {['True', 'False'].map(value => (
+                                            <label key={value} className="flex items-center gap-1">
+                                                <input type="radio" name={`correct-${i}`} disabled={!cbtSettings.enabled} checked={cbtSettings.enabled && q.correct_answer === value} onChange={() => updateQuestion(i, 'correct_answer', value)} /> {value}
+                                            </label>
+                                        ))}
                                     </div>
                                 )}
                                 {q.question_type === 'ranking' && <div className="ml-6 p-2 text-yellow-400 text-xl">★★★★★</div>}
+                                {cbtSettings.enabled && (
+                                    <div className="ml-6 mt-3 pt-3 border-t grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+                                        <label className="flex items-center gap-2">Marks
+                                            <input type="number" min={0} step={0.5} value={q.marks ?? 1} onChange={e => updateQuestion(i, 'marks', Math.max(0, Number(e.target.value)))} className="w-20 p-1 border rounded bg-white dark:bg-slate-700" />
+                                        </label>
+                                        {q.question_type === 'ranking' && (
+                                            <label className="flex items-center gap-2">Correct rating
+                                                <select value={q.correct_answer ?? ''} onChange={e => updateQuestion(i, 'correct_answer', e.target.value || null)} className="p-1 border rounded bg-white dark:bg-slate-700">
+                                                    <option value="">—</option>
+                                                    {[1, 2, 3, 4, 5].map(n => <option key={n} value={String(n)}>{n} ★</option>)}
+                                                </select>
+                                            </label>
+                                        )}
+                                        {q.question_type === 'short_answer' && (
+                                            <input type="text" value={q.correct_answer ?? ''} onChange={e => updateQuestion(i, 'correct_answer', e.target.value || null)} placeholder="Model answer for markers" className="sm:col-span-2 p-1 border rounded bg-white dark:bg-slate-700" />
+                                        )}
+                                        <input type="text" value={q.explanation ?? ''} onChange={e => updateQuestion(i, 'explanation', e.target.value || null)} placeholder="Explanation (shown to markers)" className="sm:col-span-3 p-1 border rounded bg-white dark:bg-slate-700" />
+                                    </div>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -260,7 +382,8 @@ const QuizBuilderModal: React.FC<{
 };
 
 
-const QuizManager: React.FC<QuizManagerProps> = ({ quizzes, onSaveQuiz, onDeleteQuiz, addToast, allClasses, allArms, allRoles, scoreEntries = [], attendanceRecords = [], reports = [] }) => {
+const QuizManager: React.FC<QuizManagerProps> = ({ quizzes, onSaveQuiz, onDeleteQuiz, addToast, allClasses, allArms, allRoles, scoreEntries = [], attendanceRecords = [], reports = [], terms = [], subjects = [], userProfile }) => {
+    const [activeTab, setActiveTab] = useState<'tests' | 'bank'>('tests');
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingQuiz, setEditingQuiz] = useState<QuizWithQuestions | null>(null);
     const [viewingResultsQuiz, setViewingResultsQuiz] = useState<QuizWithQuestions | null>(null);
@@ -292,19 +415,37 @@ const QuizManager: React.FC<QuizManagerProps> = ({ quizzes, onSaveQuiz, onDelete
             <div className="flex justify-between items-center">
                 <div>
                     <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Quiz Manager</h1>
-                    <p className="text-slate-600 dark:text-slate-300 mt-1">Create and manage surveys and assessments.</p>
+                    <p className="text-slate-600 dark:text-slate-300 mt-1">Create computer-based tests with answer keys, time limits and auto-marking.</p>
                 </div>
-                <button onClick={() => { setEditingQuiz(null); setIsModalOpen(true); }} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700">
-                    <PlusCircleIcon className="w-5 h-5"/> Create Quiz
-                </button>
+                {activeTab === 'tests' && (
+                    <button onClick={() => { setEditingQuiz(null); setIsModalOpen(true); }} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700">
+                        <PlusCircleIcon className="w-5 h-5"/> Create Quiz
+                    </button>
+                )}
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {userProfile && (
+                <div className="border-b border-slate-200 dark:border-slate-700">
+                    <nav className="-mb-px flex space-x-6">
+                        <button onClick={() => setActiveTab('tests')} className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === 'tests' ? 'border-blue-500 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Tests</button>
+                        <button onClick={() => setActiveTab('bank')} className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === 'bank' ? 'border-blue-500 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Question Bank</button>
+                    </nav>
+                </div>
+            )}
+
+            {activeTab === 'bank' && userProfile && (
+                <QuestionBankView userProfile={userProfile} onSaveQuiz={onSaveQuiz} addToast={addToast} />
+            )}
+
+            {activeTab === 'tests' && <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {quizzes.map(quiz => (
                     <div key={quiz.id} className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm hover:shadow-md transition-all">
                         <h3 className="font-bold text-lg text-slate-800 dark:text-white">{quiz.title}</h3>
                         <p className="text-sm text-slate-500 dark:text-slate-400 line-clamp-2 h-10">{quiz.description}</p>
-                        <p className="text-xs text-slate-400 mt-2">{quiz.questions.length} questions</p>
+                        <p className="text-xs text-slate-400 mt-2">
+                            {quiz.questions.length} questions
+                            {quiz.cbt_settings?.enabled && <> · CBT{quiz.cbt_settings.time_limit_minutes ? ` · ${quiz.cbt_settings.time_limit_minutes} min` : ''}{quiz.cbt_settings.score_component ? ` · → ${quiz.cbt_settings.score_component}` : ''}</>}
+                        </p>
                         
                         <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-3">
                             <button onClick={() => setViewingResultsQuiz(quiz)} className="text-sm font-medium text-purple-600 hover:underline">Results</button>
@@ -318,7 +459,7 @@ const QuizManager: React.FC<QuizManagerProps> = ({ quizzes, onSaveQuiz, onDelete
                         <p className="text-slate-500">No quizzes created yet.</p>
                     </div>
                 )}
-            </div>
+            </div>}
 
             {isModalOpen && (
                 <QuizBuilderModal 
@@ -330,6 +471,8 @@ const QuizManager: React.FC<QuizManagerProps> = ({ quizzes, onSaveQuiz, onDelete
                     allClasses={allClasses}
                     allArms={allArms}
                     allRoles={allRoles}
+                    terms={terms}
+                    subjects={subjects}
                 />
             )}
         </div>
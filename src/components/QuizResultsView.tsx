@@ -8,6 +8,7 @@ import { DownloadIcon, WandIcon } from './common/icons';
 import { exportToCsv } from '../utils/export';
 import { textFromAI } from '../utils/ai';
 import type { ScoreEntry, AttendanceRecord, ReportRecord } from '../types';
+import CbtMarkingPanel from './CbtMarkingPanel';
 
 interface QuizResultsViewProps {
   quiz: QuizWithQuestions;
@@ -296,6 +297,8 @@ const QuizResultsView: React.FC<QuizResultsViewProps> = ({ quiz, onBack, addToas
                     </div>
                 </div>
             </div>
+            {quiz.cbt_settings?.enabled && <CbtMarkingPanel quiz={quiz} addToast={addToast} />}
+
             <div className="space-y-4">
                 {results && results.map(res => (
                     <QuestionResultCard 
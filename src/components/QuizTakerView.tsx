@@ -4,6 +4,7 @@ import { aiClient } from '../services/aiClient';
 import type { QuizWithQuestions, MultipleChoiceOption } from '../types';
 import Spinner from './common/Spinner';
 import { StarIcon, SparklesIcon } from './common/icons';
+import CbtTakerView from './CbtTakerView';
 
 interface QuizTakerViewProps {
     quiz: QuizWithQuestions;
@@ -19,7 +20,7 @@ type Answer = {
     ranking_value?: number;
 };
 
-const QuizTakerView: React.FC<QuizTakerViewProps> = ({ quiz, onBack, addToast, onSubmitQuiz }) => {
+const SurveyQuizTaker: React.FC<QuizTakerViewProps> = ({ quiz, onBack, addToast, onSubmitQuiz }) => {
     const [answers, setAnswers] = useState<Record<number, Answer>>({});
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isGeneratingFeedback, setIsGeneratingFeedback] = useState(false);
@@ -219,4 +220,11 @@ const QuizTakerView: React.FC<QuizTakerViewProps> = ({ quiz, onBack, addToast, o
     );
 };
 
+// CBT quizzes run through the timed, auto-marked flow; everything else is a survey-style quiz
+const QuizTakerView: React.FC<QuizTakerViewProps> = (props) => (
+    props.quiz.cbt_settings?.enabled
+        ? <CbtTakerView quiz={props.quiz} onBack={props.onBack} addToast={props.addToast} />
+        : <SurveyQuizTaker {...props} />
+);
+
 export default QuizTakerView;
\ No newline at end of file
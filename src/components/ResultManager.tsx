@@ -16,10 +16,11 @@ import ZeroScoreConfirmationModal from './ZeroScoreConfirmationModal';
 import AcademicGoalsDashboard from './AcademicGoalsDashboard';
 import TeacherCommentModal from './TeacherCommentModal';
 import TeacherCommentEditor from './TeacherCommentEditor';
+import AnnualResultsPanel from './AnnualResultsPanel';
 
 
 
-type ViewMode = 'by-class' | 'by-subject' | 'statistics' | 'zero-scores' | 'academic-goals';
+type ViewMode = 'by-class' | 'by-subject' | 'statistics' | 'zero-scores' | 'academic-goals' | 'annual-results';
 
 interface ResultManagerProps {
     terms: any[];
@@ -1191,6 +1192,12 @@ const ResultManager: React.FC<ResultManagerProps> = ({
                             >
                                 Academic Goals
                             </button>
+                            <button
+                                onClick={() => setViewMode('annual-results')}
+                                className={`px-3 py-1 text-sm font-medium rounded-md transition ${viewMode === 'annual-results' ? 'bg-white dark:bg-slate-600 shadow' : ''}`}
+                            >
+                                Annual Results
+                            </button>
                         </div>
                         {/* Refresh Button and Last Synced Indicator */}
                         {onRefresh && (
@@ -1592,6 +1599,19 @@ const ResultManager: React.FC<ResultManagerProps> = ({
                 />
             )}
 
+            {selectedTermId && viewMode === 'annual-results' && terms.find(t => t.id === selectedTermId) && (
+                <AnnualResultsPanel
+                    term={terms.find(t => t.id === selectedTermId)}
+                    terms={terms}
+                    academicClasses={academicClasses}
+                    students={students}
+                    schoolConfig={schoolConfig}
+                    userProfile={userProfile}
+                    userPermissions={userPermissions}
+                    addToast={addToast}
+                />
+            )}
+
             {selectedTermId && viewMode === 'academic-goals' && (
                 <AcademicGoalsDashboard
                     termId={Number(selectedTermId)}
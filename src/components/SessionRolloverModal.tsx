@@ -1,9 +1,10 @@
-
-import React, { useState, useMemo } from 'react';
-import type { Term, AcademicClass, AcademicTeachingAssignment } from '../types';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import type { Term, AcademicClass, SessionRollover } from '../types';
 import { requireSupabaseClient } from '../services/supabaseClient';
 import Spinner from './common/Spinner';
-import { RepeatIcon, CheckCircleIcon } from './common/icons';
+import { RepeatIcon, CheckCircleIcon, ExclamationTriangleIcon } from './common/icons';
+import { mapSupabaseError } from '../utils/errorHandling';
+import { buildRolloverPlan, groupStudentMoves, type RolloverPlan } from '../services/sessionRollover';
 
 interface SessionRolloverModalProps {
     isOpen: boolean;
@@ -11,294 +12,388 @@ interface SessionRolloverModalProps {
     terms: Term[];
     onSuccess: () => void;
     addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+    initialSourceTermId?: number;
+    /** Level transitions from the school's promotion rules */
+    nextLevels?: Record<string, string | null>;
 }
 
-const SessionRolloverModal: React.FC<SessionRolloverModalProps> = ({ isOpen, onClose, terms, onSuccess, addToast }) => {
-    const [sourceTermId, setSourceTermId] = useState<string>('');
+type WizardStep = 'select' | 'review';
+
+type DryRun = {
+    plan: RolloverPlan;
+    sourceClasses: AcademicClass[];
+    studentNames: Map<number, string>;
+};
+
+const DECISION_LABELS: Record<string, string> = {
+    promote: 'Promoted',
+    probation: 'Promoted on probation',
+    repeat: 'Repeating',
+};
+
+const SessionRolloverModal: React.FC<SessionRolloverModalProps> = ({ isOpen, onClose, terms, onSuccess, addToast, initialSourceTermId, nextLevels }) => {
+    const [step, setStep] = useState<WizardStep>('select');
+    const [sourceTermId, setSourceTermId] = useState<string>(initialSourceTermId ? String(initialSourceTermId) : '');
     const [targetTermId, setTargetTermId] = useState<string>('');
     const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const [isImporting, setIsImporting] = useState(false);
-    const [analysis, setAnalysis] = useState<{ assignmentsCount: number, classesToCreate: number } | null>(null);
+    const [isApplying, setIsApplying] = useState(false);
+    const [dryRun, setDryRun] = useState<DryRun | null>(null);
+    const [history, setHistory] = useState<SessionRollover[]>([]);
+    const [undoingId, setUndoingId] = useState<number | null>(null);
 
     // Filter out terms to prevent selecting same source and target
     const availableSourceTerms = terms;
     const availableTargetTerms = terms.filter(t => String(t.id) !== sourceTermId);
+    const sourceTerm = terms.find(t => String(t.id) === sourceTermId);
+    const targetTerm = terms.find(t => String(t.id) === targetTermId);
+    const termName = (id: number | null) => {
+        const t = terms.find(term => term.id === id);
+        return t ? `${t.session_label} - ${t.term_label}` : 'Deleted term';
+    };
 
-    const handleAnalyze = async () => {
-        if (!sourceTermId || !targetTermId) return;
+    const fetchHistory = useCallback(async () => {
         const supabase = requireSupabaseClient();
-        setIsAnalyzing(true);
-        setAnalysis(null);
+        const { data, error } = await supabase
+            .from('session_rollovers')
+            .select('id, school_id, source_term_id, target_term_id, summary, status, applied_by, applied_at, undone_at')
+            .order('applied_at', { ascending: false })
+            .limit(10);
+        if (error) {
+            addToast(`Error loading rollover history: ${mapSupabaseError(error)}`, 'error');
+            return;
+        }
+        setHistory((data || []) as SessionRollover[]);
+    }, [addToast]);
 
-        try {
-            // 1. Get Source Term Details
-            const sourceTerm = terms.find(t => String(t.id) === sourceTermId);
-            const targetTerm = terms.find(t => String(t.id) === targetTermId);
+    useEffect(() => {
+        if (isOpen) fetchHistory();
+    }, [isOpen, fetchHistory]);
 
-            if (!sourceTerm || !targetTerm) throw new Error("Invalid term selection");
+    // The source session must be closed before students leave it (see apply_session_rollover)
+    const sourceStillActive = useMemo(() => {
+        if (!sourceTerm || !targetTerm || sourceTerm.session_label === targetTerm.session_label) return false;
+        return terms.some(t => t.session_label === sourceTerm.session_label && t.is_active);
+    }, [terms, sourceTerm, targetTerm]);
 
-            // 2. Count assignments in source
-            const { count, error } = await supabase
-                .from('teaching_assignments')
-                .select('*', { count: 'exact', head: true })
-                .eq('term_id', sourceTermId);
+    const moveGroups = useMemo(() => dryRun ? groupStudentMoves(dryRun.plan.student_moves) : [], [dryRun]);
 
-            if (error) throw error;
+    const handleAnalyze = async () => {
+        if (!sourceTerm || !targetTerm) return;
+        const supabase = requireSupabaseClient();
+        const isNewSession = sourceTerm.session_label !== targetTerm.session_label;
+        setIsAnalyzing(true);
 
-            // 3. Estimate Classes to Create
-            // If session labels match (intra-session rollover), we reuse classes (0 to create).
-            // If session labels differ (new session), we estimate we might need to create new class containers.
-            let classesEstimate = 0;
-            if (sourceTerm.session_label !== targetTerm.session_label) {
-                 const { count: classCount } = await supabase
-                    .from('academic_classes')
-                    .select('*', { count: 'exact', head: true })
-                    .eq('session_label', sourceTerm.session_label);
-                 classesEstimate = classCount || 0;
-            }
-
-            setAnalysis({
-                assignmentsCount: count || 0,
-                classesToCreate: classesEstimate
+        try {
+            const [
+                sourceClassesRes, targetClassesRes, sourceAssignmentsRes, targetAssignmentsRes,
+                enrollmentsRes, studentsRes, resultsRes, levelsRes, subjectChoicesRes, levelSubjectsRes,
+            ] = await Promise.all([
+                supabase.from('academic_classes').select('*').eq('session_label', sourceTerm.session_label),
+                supabase.from('academic_classes').select('id, level, arm').eq('session_label', targetTerm.session_label),
+                supabase.from('teaching_assignments').select('academic_class_id, subject_name, subject_group, teacher_user_id, max_ca_score, max_exam_score').eq('term_id', sourceTerm.id),
+                supabase.from('teaching_assignments').select('academic_class_id, subject_name').eq('term_id', targetTerm.id),
+                supabase.from('academic_class_students').select('student_id, academic_class_id').eq('enrolled_term_id', sourceTerm.id),
+                supabase.from('students').select('id, name, status'),
+                isNewSession
+                    ? supabase.from('annual_results').select('id, student_id, recommendation, final_decision')
+                        .eq('session_label', sourceTerm.session_label).eq('status', 'approved').is('rolled_over_at', null)
+                    : Promise.resolve({ data: [], error: null }),
+                supabase.from('classes').select('id, name'),
+                supabase.from('student_subject_enrollments').select('student_id, subject_id, is_enrolled').eq('term_id', sourceTerm.id),
+                supabase.from('class_subjects').select('class_id, subject_id'),
+            ]);
+
+            const failed = [sourceClassesRes, targetClassesRes, sourceAssignmentsRes, targetAssignmentsRes, enrollmentsRes, studentsRes, resultsRes, levelsRes, subjectChoicesRes, levelSubjectsRes]
+                .find(res => res.error);
+            if (failed?.error) throw failed.error;
+
+            const plan = buildRolloverPlan({
+                sourceSessionLabel: sourceTerm.session_label,
+                targetSessionLabel: targetTerm.session_label,
+                sourceClasses: sourceClassesRes.data || [],
+                targetClasses: targetClassesRes.data || [],
+                sourceAssignments: sourceAssignmentsRes.data || [],
+                targetAssignments: targetAssignmentsRes.data || [],
+                sourceEnrollments: enrollmentsRes.data || [],
+                students: studentsRes.data || [],
+                annualResults: resultsRes.data || [],
+                levels: levelsRes.data || [],
+                subjectEnrollments: subjectChoicesRes.data || [],
+                levelSubjects: levelSubjectsRes.data || [],
+                nextLevels,
             });
 
+            setDryRun({
+                plan,
+                sourceClasses: sourceClassesRes.data || [],
+                studentNames: new Map((studentsRes.data || []).map((s: { id: number; name: string }) => [s.id, s.name])),
+            });
+            setStep('review');
         } catch (e: any) {
-            addToast(e.message, 'error');
+            addToast(`Dry run failed: ${mapSupabaseError(e)}`, 'error');
         } finally {
             setIsAnalyzing(false);
         }
     };
 
-    const handleImport = async () => {
-        if (!sourceTermId || !targetTermId) return;
-        setIsImporting(true);
-
+    const handleApply = async () => {
+        if (!dryRun || !sourceTerm || !targetTerm) return;
+        setIsApplying(true);
         try {
             const supabase = requireSupabaseClient();
-            const sourceTerm = terms.find(t => String(t.id) === sourceTermId)!;
-            const targetTerm = terms.find(t => String(t.id) === targetTermId)!;
-            const isNewSession = sourceTerm.session_label !== targetTerm.session_label;
-
-            // 1. Fetch Source Data (Assignments + Expanded Class Info)
-            const { data: sourceAssignments, error: fetchError } = await supabase
-                .from('teaching_assignments')
-                .select(`
-                    *,
-                    academic_class:academic_classes(*)
-                `)
-                .eq('term_id', sourceTermId);
-
-            if (fetchError) throw fetchError;
-            if (!sourceAssignments || sourceAssignments.length === 0) {
-                addToast("No data found in source term to import.", "info");
-                setIsImporting(false);
-                return;
-            }
-
-            let createdClassesCount = 0;
-            let createdAssignmentsCount = 0;
-
-            // 2. Process
-            // We need a map to store new Class IDs if we create them, to avoid duplicates
-            // Key: "Level-Arm" (e.g. "JSS 1-Gold"), Value: ID
-            const newClassMap = new Map<string, number>();
-
-            // Pre-fill map with existing classes in TARGET session to avoid duplicates
-            if (isNewSession) {
-                const { data: existingTargetClasses } = await supabase
-                    .from('academic_classes')
-                    .select('id, level, arm')
-                    .eq('session_label', targetTerm.session_label);
-                
-                existingTargetClasses?.forEach(c => {
-                    newClassMap.set(`${c.level}-${c.arm}`, c.id);
-                });
-            }
-
-            for (const assignment of sourceAssignments) {
-                const oldClass = assignment.academic_class;
-                if (!oldClass) continue;
-
-                let targetClassId = assignment.academic_class_id;
-
-                // If moving to a new session, we must ensure the AcademicClass exists for that session
-                if (isNewSession) {
-                    const classKey = `${oldClass.level}-${oldClass.arm}`;
-                    
-                    if (newClassMap.has(classKey)) {
-                        targetClassId = newClassMap.get(classKey)!;
-                    } else {
-                        // Create new Academic Class for new session
-                        const newClassName = `${oldClass.level}${oldClass.arm ? ` ${oldClass.arm}` : ''} (${targetTerm.session_label})`;
-                        
-                        const { data: newClass, error: createClassError } = await supabase
-                            .from('academic_classes')
-                            .insert({
-                                school_id: oldClass.school_id,
-                                name: newClassName,
-                                level: oldClass.level,
-                                arm: oldClass.arm,
-                                session_label: targetTerm.session_label,
-                                is_active: true,
-                                assessment_structure_id: oldClass.assessment_structure_id
-                            })
-                            .select()
-                            .single();
-                        
-                        if (createClassError) {
-                            // If it failed because it already exists (race condition), try to fetch it
-                             const { data: existing } = await supabase
-                                .from('academic_classes')
-                                .select('id')
-                                .eq('school_id', oldClass.school_id)
-                                .eq('name', newClassName)
-                                .single();
-                             
-                             if (existing) {
-                                 targetClassId = existing.id;
-                                 newClassMap.set(classKey, existing.id);
-                             } else {
-                                 console.error("Failed to create class", createClassError);
-                                 continue; // Skip this assignment
-                             }
-                        } else {
-                            targetClassId = newClass.id;
-                            newClassMap.set(classKey, newClass.id);
-                            createdClassesCount++;
-                        }
-                    }
-                }
-
-                // Create the new Teaching Assignment
-                // Check if it already exists to prevent duplicates
-                const { data: existingAssignment } = await supabase
-                    .from('teaching_assignments')
-                    .select('id')
-                    .eq('term_id', targetTermId)
-                    .eq('academic_class_id', targetClassId)
-                    .eq('subject_name', assignment.subject_name)
-                    .maybeSingle();
-
-                if (!existingAssignment) {
-                    await supabase.from('teaching_assignments').insert({
-                        school_id: assignment.school_id,
-                        term_id: Number(targetTermId),
-                        academic_class_id: targetClassId,
-                        subject_name: assignment.subject_name,
-                        subject_group: assignment.subject_group,
-                        teacher_user_id: assignment.teacher_user_id,
-                        max_ca_score: assignment.max_ca_score,
-                        max_exam_score: assignment.max_exam_score,
-                        is_locked: false
-                    });
-                    createdAssignmentsCount++;
-                }
-            }
-
-            addToast(`Successfully imported ${createdAssignmentsCount} assignments and created ${createdClassesCount} new classes.`, "success");
+            const { error } = await supabase.rpc('apply_session_rollover', {
+                p_school_id: sourceTerm.school_id,
+                p_source_term_id: sourceTerm.id,
+                p_target_term_id: targetTerm.id,
+                p_plan: dryRun.plan,
+            });
+            if (error) throw error;
+
+            const { plan } = dryRun;
+            addToast(`Rollover complete: ${plan.classes.length} classes created, ${plan.student_moves.length} students moved and ${plan.graduations.length} graduated.`, 'success');
             onSuccess();
             onClose();
+        } catch (e: any) {
+            addToast(`Rollover failed: ${mapSupabaseError(e)}`, 'error');
+        } finally {
+            setIsApplying(false);
+        }
+    };
 
+    const handleUndo = async (rollover: SessionRollover) => {
+        if (!window.confirm(`Undo the rollover from ${termName(rollover.source_term_id)} to ${termName(rollover.target_term_id)}? Students, classes and assignments it created will be restored to how they were.`)) return;
+        setUndoingId(rollover.id);
+        try {
+            const supabase = requireSupabaseClient();
+            const { error } = await supabase.rpc('undo_session_rollover', { p_rollover_id: rollover.id });
+            if (error) throw error;
+            addToast('Rollover undone.', 'success');
+            await fetchHistory();
+            onSuccess();
         } catch (e: any) {
-            console.error(e);
-            addToast(`Import failed: ${e.message}`, 'error');
+            addToast(`Could not undo rollover: ${mapSupabaseError(e)}`, 'error');
         } finally {
-            setIsImporting(false);
+            setUndoingId(null);
         }
     };
 
+    const resetSelection = () => {
+        setDryRun(null);
+        setStep('select');
+    };
+
     if (!isOpen) return null;
 
+    const classLabel = (id: number) => dryRun?.sourceClasses.find(c => c.id === id)?.name || `Class #${id}`;
+    const targetLabel = (key: string) => key.replace('|', ' ');
+    const namesFor = (ids: number[]) => {
+        const names = ids.slice(0, 5).map(id => dryRun?.studentNames.get(id) || `#${id}`);
+        return ids.length > 5 ? `${names.join(', ')} and ${ids.length - 5} more` : names.join(', ');
+    };
+
     return (
         <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-center items-center z-50 animate-fade-in">
-            <div className="rounded-2xl border border-slate-200/60 bg-white/80 p-6 backdrop-blur-xl shadow-2xl dark:border-slate-800/60 dark:bg-slate-900/80 w-full max-w-lg m-4">
+            <div className="rounded-2xl border border-slate-200/60 bg-white/80 p-6 backdrop-blur-xl shadow-2xl dark:border-slate-800/60 dark:bg-slate-900/80 w-full max-w-3xl m-4 max-h-[90vh] flex flex-col">
                 <div className="flex justify-between items-start mb-4">
                     <div>
                         <h2 className="text-xl font-bold text-slate-800 dark:text-white flex items-center gap-2">
                             <RepeatIcon className="w-6 h-6 text-blue-600" />
-                            Import Academic Data
+                            Session Rollover
                         </h2>
-                        <p className="text-sm text-slate-500 mt-1">Copy classes and teaching assignments from a previous term/session.</p>
+                        <p className="text-sm text-slate-500 mt-1">
+                            {step === 'select' ? 'Step 1 of 2: choose the term to roll over from and the term to roll over to.' : 'Step 2 of 2: review the dry run before applying it.'}
+                        </p>
                     </div>
                     <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl">&times;</button>
                 </div>
 
-                <div className="space-y-4">
-                    <div>
-                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Source (Copy From)</label>
-                        <select 
-                            value={sourceTermId} 
-                            onChange={e => { setSourceTermId(e.target.value); setAnalysis(null); }} 
-                            className="w-full p-2 border rounded-md bg-white dark:bg-slate-800"
-                        >
-                            <option value="">Select Source Term</option>
-                            {availableSourceTerms.map(t => (
-                                <option key={t.id} value={t.id}>{t.session_label} - {t.term_label}</option>
-                            ))}
-                        </select>
-                    </div>
+                <div className="space-y-4 overflow-y-auto flex-1">
+                    {step === 'select' && (
+                        <>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Source (Copy From)</label>
+                                    <select
+                                        value={sourceTermId}
+                                        onChange={e => setSourceTermId(e.target.value)}
+                                        className="w-full p-2 border rounded-md bg-white dark:bg-slate-800"
+                                    >
+                                        <option value="">Select Source Term</option>
+                                        {availableSourceTerms.map(t => (
+                                            <option key={t.id} value={t.id}>{t.session_label} - {t.term_label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Target (Copy To)</label>
+                                    <select
+                                        value={targetTermId}
+                                        onChange={e => setTargetTermId(e.target.value)}
+                                        className="w-full p-2 border rounded-md bg-white dark:bg-slate-800"
+                                    >
+                                        <option value="">Select Target Term</option>
+                                        {availableTargetTerms.map(t => (
+                                            <option key={t.id} value={t.id}>{t.session_label} - {t.term_label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
 
-                    <div>
-                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Target (Copy To)</label>
-                        <select 
-                            value={targetTermId} 
-                            onChange={e => { setTargetTermId(e.target.value); setAnalysis(null); }} 
-                            className="w-full p-2 border rounded-md bg-white dark:bg-slate-800"
-                        >
-                            <option value="">Select Target Term</option>
-                            {availableTargetTerms.map(t => (
-                                <option key={t.id} value={t.id}>{t.session_label} - {t.term_label}</option>
-                            ))}
-                        </select>
-                    </div>
+                            <div className="p-3 bg-blue-50 dark:bg-blue-900/20 text-sm text-blue-800 dark:text-blue-200 rounded-lg">
+                                <strong>How it works:</strong> Rolling over to a new session creates next session's classes with the same
+                                assessment, grading and report settings, moves every active student up a level using the approved annual
+                                results, graduates final-year students and carries subject choices forward where the new level still offers
+                                them. Within a session, classes and students stay where they are and only teaching assignments and
+                                enrollments are copied. Nothing changes until you apply the dry run.
+                            </div>
+
+                            {sourceStillActive && (
+                                <div className="flex items-start gap-2 p-3 bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-200 rounded-lg">
+                                    <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+                                    <span>Terms in {sourceTerm?.session_label} are still active. Deactivate them before applying, or the rollover will be refused.</span>
+                                </div>
+                            )}
 
-                    {sourceTermId && targetTermId && !analysis && (
-                        <div className="pt-2">
-                            <button 
-                                onClick={handleAnalyze} 
-                                disabled={isAnalyzing}
-                                className="w-full py-2 bg-blue-100 text-blue-700 rounded-lg font-medium hover:bg-blue-200 flex justify-center items-center"
-                            >
-                                {isAnalyzing ? <Spinner size="sm" /> : 'Analyze Data to Import'}
-                            </button>
-                        </div>
+                            {history.length > 0 && (
+                                <div>
+                                    <h4 className="font-semibold text-sm mb-2">Previous Rollovers</h4>
+                                    <div className="divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg">
+                                        {history.map(r => (
+                                            <div key={r.id} className="flex items-center justify-between p-2 text-sm">
+                                                <div>
+                                                    <p className="font-medium">{termName(r.source_term_id)} → {termName(r.target_term_id)}</p>
+                                                    <p className="text-xs text-slate-500">
+                                                        {new Date(r.applied_at).toLocaleString()} · {r.summary.students_moved ?? 0} moved, {r.summary.graduated ?? 0} graduated, {r.summary.classes ?? 0} classes
+                                                        {r.status === 'undone' && r.undone_at && ` · undone ${new Date(r.undone_at).toLocaleDateString()}`}
+                                                    </p>
+                                                </div>
+                                                {r.status === 'applied' ? (
+                                                    <button
+                                                        onClick={() => handleUndo(r)}
+                                                        disabled={undoingId !== null}
+                                                        className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+                                                    >
+                                                        {undoingId === r.id ? <Spinner size="sm" /> : 'Undo'}
+                                                    </button>
+                                                ) : (
+                                                    <span className="text-xs text-slate-400">Undone</span>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </>
                     )}
 
-                    {analysis && (
-                        <div className="bg-slate-50 dark:bg-slate-800 p-4 rounded-lg border border-slate-200 dark:border-slate-700 space-y-2">
-                            <h4 className="font-semibold text-sm">Import Summary</h4>
-                            <div className="flex items-center gap-2 text-sm">
-                                <CheckCircleIcon className="w-4 h-4 text-green-500" />
-                                <span><strong>{analysis.assignmentsCount}</strong> Teaching Assignments found.</span>
+                    {step === 'review' && dryRun && (
+                        <>
+                            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center">
+                                {[
+                                    { label: 'New classes', value: dryRun.plan.classes.length },
+                                    { label: 'Assignments', value: dryRun.plan.assignments.length },
+                                    { label: 'Students moved', value: dryRun.plan.student_moves.length },
+                                    { label: 'Graduating', value: dryRun.plan.graduations.length },
+                                    { label: 'Subject choices', value: dryRun.plan.subject_enrollments.length },
+                                ].map(stat => (
+                                    <div key={stat.label} className="p-2 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700">
+                                        <p className="text-lg font-bold">{stat.value}</p>
+                                        <p className="text-xs text-slate-500">{stat.label}</p>
+                                    </div>
+                                ))}
                             </div>
-                            {analysis.classesToCreate > 0 && (
-                                <div className="flex items-center gap-2 text-sm">
-                                    <RepeatIcon className="w-4 h-4 text-orange-500" />
-                                    <span><strong>~{analysis.classesToCreate}</strong> New Academic Classes will be created (New Session).</span>
+
+                            {dryRun.plan.warnings.map(warning => (
+                                <div key={warning} className="flex items-start gap-2 p-2 bg-yellow-50 dark:bg-yellow-900/20 text-xs text-yellow-800 dark:text-yellow-200 rounded">
+                                    <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />
+                                    <span>{warning}</span>
+                                </div>
+                            ))}
+
+                            {dryRun.plan.classes.length > 0 && (
+                                <div>
+                                    <h4 className="font-semibold text-sm mb-1">Classes to create in {dryRun.plan.target_session_label}</h4>
+                                    <ul className="text-sm text-slate-600 dark:text-slate-300 list-disc pl-5">
+                                        {dryRun.plan.classes.map(c => (
+                                            <li key={c.key}>{c.name} <span className="text-xs text-slate-400">(settings from {classLabel(c.template_class_id)})</span></li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {moveGroups.length > 0 && (
+                                <div>
+                                    <h4 className="font-semibold text-sm mb-1">Student moves</h4>
+                                    <table className="w-full text-sm">
+                                        <thead className="text-xs text-slate-500 text-left">
+                                            <tr>
+                                                <th className="py-1">From</th>
+                                                <th className="py-1">To</th>
+                                                <th className="py-1">Decision</th>
+                                                <th className="py-1">Students</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                            {moveGroups.map(group => (
+                                                <tr key={`${group.fromClassId}|${group.targetKey}|${group.decision}`}>
+                                                    <td className="py-1">{classLabel(group.fromClassId)}</td>
+                                                    <td className="py-1">{targetLabel(group.targetKey)}</td>
+                                                    <td className="py-1">{DECISION_LABELS[group.decision]}</td>
+                                                    <td className="py-1" title={namesFor(group.studentIds)}>{group.studentIds.length}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+
+                            {dryRun.plan.graduations.length > 0 && (
+                                <div className="text-sm">
+                                    <h4 className="font-semibold mb-1">Graduating ({dryRun.plan.graduations.length})</h4>
+                                    <p className="text-slate-600 dark:text-slate-300">{namesFor(dryRun.plan.graduations)}. Their status will be set to Graduated.</p>
                                 </div>
                             )}
-                            {analysis.classesToCreate === 0 && (
+
+                            {(dryRun.plan.subject_enrollments.length > 0 || dryRun.plan.dropped_subject_enrollments > 0) && (
                                 <div className="flex items-center gap-2 text-sm">
-                                    <CheckCircleIcon className="w-4 h-4 text-blue-500" />
-                                    <span>Existing Academic Classes will be reused (Same Session).</span>
+                                    <CheckCircleIcon className="w-4 h-4 text-green-500" />
+                                    <span>
+                                        <strong>{dryRun.plan.subject_enrollments.length}</strong> subject choices carried forward
+                                        {dryRun.plan.dropped_subject_enrollments > 0 && `, ${dryRun.plan.dropped_subject_enrollments} dropped because the new level does not offer the subject`}.
+                                    </span>
                                 </div>
                             )}
-                            <div className="mt-4 p-2 bg-yellow-50 dark:bg-yellow-900/20 text-xs text-yellow-800 dark:text-yellow-200 rounded">
-                                <strong>Note:</strong> This will append data. Existing assignments in the target term will not be deleted.
+
+                            <div className="p-2 bg-yellow-50 dark:bg-yellow-900/20 text-xs text-yellow-800 dark:text-yellow-200 rounded">
+                                <strong>Note:</strong> Existing assignments in the target term are kept. The rollover can be undone from this window until scores are entered in the new term.
                             </div>
-                        </div>
+                        </>
                     )}
                 </div>
 
                 <div className="flex justify-end gap-3 mt-6 border-t border-slate-200 dark:border-slate-700 pt-4">
-                    <button onClick={onClose} disabled={isImporting} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
-                    <button 
-                        onClick={handleImport} 
-                        disabled={!analysis || isImporting || analysis.assignmentsCount === 0} 
-                        className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
-                    >
-                        {isImporting ? <Spinner size="sm" /> : 'Start Import'}
-                    </button>
+                    {step === 'review' ? (
+                        <button onClick={resetSelection} disabled={isApplying} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">Back</button>
+                    ) : (
+                        <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+                    )}
+                    {step === 'select' ? (
+                        <button
+                            onClick={handleAnalyze}
+                            disabled={!sourceTerm || !targetTerm || isAnalyzing}
+                            className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+                        >
+                            {isAnalyzing ? <Spinner size="sm" /> : 'Run Dry Run'}
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleApply}
+                            disabled={isApplying || sourceStillActive}
+                            className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+                        >
+                            {isApplying ? <Spinner size="sm" /> : 'Apply Rollover'}
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -5,6 +5,7 @@ import BrandingSettings from './BrandingSettings';
 import PaymentGatewaySettings from './PaymentGatewaySettings';
 import KudiSmsSettings from './KudiSmsSettings';
 import { GreenApiSettingsComponent } from './GreenApiSettings';
+import { SmtpSettingsComponent } from './SmtpSettings';
 import GroqSettings from './GroqSettings';
 import StudentProfileFieldsSettings from './StudentProfileFieldsSettings';
 import Spinner from './common/Spinner';
@@ -121,6 +122,13 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, schoolConfig, onS
                                 addToast={addToast}
                             />
                         </div>
+                        <div className="border-t border-slate-200 dark:border-slate-700 pt-6">
+                            <h3 className="text-lg font-semibold text-slate-800 dark:text-white mb-4">Email Gateway (SMTP)</h3>
+                            <SmtpSettingsComponent
+                                schoolId={settings.id}
+                                addToast={addToast}
+                            />
+                        </div>
                     </div>
                 ) : null;
             case 'AI Configuration':
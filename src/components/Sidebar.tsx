@@ -73,6 +73,7 @@ const NAV_STRUCTURE: NavGroup[] = [
       { id: VIEWS.REVIEW_QUALITY_DASHBOARD, label: 'Review Quality', permission: 'manage-curriculum' },
       { id: VIEWS.SUBMISSION_SETTINGS, label: 'Submission Settings', permission: 'manage-settings' },
       { id: VIEWS.TEACHER_SCORE_ENTRY, label: 'Score Entry', permission: 'score_entries.edit_self' },
+      { id: VIEWS.CBT_MANAGER, label: 'CBT Tests', permission: 'score_entries.edit_self' },
     ]
   },
   {
@@ -114,6 +115,7 @@ const NAV_STRUCTURE: NavGroup[] = [
       { id: VIEWS.SUPPORT_HUB, label: 'Support Hub', permission: 'manage-tasks' },
       { id: VIEWS.SURVEY_MANAGER, label: 'Survey Manager', permission: 'manage-surveys' },
       { id: VIEWS.NOTIFICATION_HISTORY, label: 'Notification History', permission: 'view-dashboard' },
+      { id: VIEWS.WHATSAPP_INBOX, label: 'WhatsApp Inbox', permission: 'view-dashboard' },
     ]
   },
   {
@@ -0,0 +1,497 @@
+/**
+ * Email (SMTP) Settings Component
+ *
+ * Configures the SMTP server notification emails are sent from, school-wide or per campus,
+ * and the HTML email template for each notification type.
+ */
+
+import { useState, useEffect } from 'react';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import {
+    deleteEmailTemplate,
+    getEmailTemplates,
+    getSmtpSettings,
+    renderEmailTemplate,
+    saveEmailTemplate,
+    saveSmtpSettings,
+    sendTestEmail,
+    textToEmailHtml,
+} from '../services/emailNotifications';
+import { NOTIFICATION_TYPE_LABELS } from '../services/messageOutbox';
+import { getSmsTemplates } from '../services/smsService';
+import type { EmailTemplate, NotificationType, SmtpSecurity, SmtpSettings } from '../types';
+
+interface SmtpSettingsProps {
+    schoolId: number;
+    addToast?: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+interface Campus {
+    id: number;
+    name: string;
+}
+
+const SECURITY_OPTIONS: { value: SmtpSecurity; label: string; port: number }[] = [
+    { value: 'starttls', label: 'STARTTLS (port 587)', port: 587 },
+    { value: 'tls', label: 'SSL/TLS (port 465)', port: 465 },
+    { value: 'none', label: 'None (local catch-all only)', port: 1025 },
+];
+
+const EMPTY_FORM = {
+    host: '',
+    port: 587,
+    security: 'starttls' as SmtpSecurity,
+    username: '',
+    password: '',
+    from_email: '',
+    from_name: '',
+    reply_to: '',
+    is_active: true,
+};
+
+export function SmtpSettingsComponent({ schoolId, addToast }: SmtpSettingsProps) {
+    const [campuses, setCampuses] = useState<Campus[]>([]);
+    const [selectedCampus, setSelectedCampus] = useState<number>(0);
+    const [settings, setSettings] = useState<SmtpSettings | null>(null);
+    const [formData, setFormData] = useState(EMPTY_FORM);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [testEmail, setTestEmail] = useState('');
+    const [testing, setTesting] = useState(false);
+    const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
+
+    const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+    const [templateType, setTemplateType] = useState<NotificationType>('report_card_ready');
+    const [templateForm, setTemplateForm] = useState({ subject: '', html_body: '', is_active: true });
+    const [savingTemplate, setSavingTemplate] = useState(false);
+
+    const supabase = requireSupabaseClient();
+
+    const notify = (message: string, type: 'success' | 'error') => {
+        if (addToast) {
+            addToast(message, type);
+        } else {
+            alert(message);
+        }
+    };
+
+    useEffect(() => {
+        supabase
+            .from('campuses')
+            .select('id, name')
+            .eq('school_id', schoolId)
+            .order('name')
+            .then(({ data }) => setCampuses(data || []));
+        getEmailTemplates(supabase, schoolId)
+            .then(setTemplates)
+            .catch(error => console.error('Error loading email templates:', error));
+    }, [schoolId]);
+
+    useEffect(() => {
+        loadSettings();
+    }, [schoolId, selectedCampus]);
+
+    useEffect(() => {
+        const existing = templates.find(t => t.notification_type === templateType);
+        setTemplateForm(existing
+            ? { subject: existing.subject, html_body: existing.html_body, is_active: existing.is_active }
+            : { subject: '', html_body: '', is_active: true });
+    }, [templateType, templates]);
+
+    const loadSettings = async () => {
+        try {
+            setLoading(true);
+            setTestResult(null);
+            const data = await getSmtpSettings(supabase, schoolId, selectedCampus || null);
+            setSettings(data);
+            setFormData(data
+                ? {
+                    host: data.host,
+                    port: data.port,
+                    security: data.security,
+                    username: data.username || '',
+                    password: '',
+                    from_email: data.from_email,
+                    from_name: data.from_name || '',
+                    reply_to: data.reply_to || '',
+                    is_active: data.is_active,
+                }
+                : EMPTY_FORM);
+        } catch (error) {
+            console.error('Error loading SMTP settings:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSave = async () => {
+        try {
+            setSaving(true);
+            await saveSmtpSettings(supabase, {
+                id: settings?.id,
+                school_id: schoolId,
+                campus_id: selectedCampus || null,
+                host: formData.host.trim(),
+                port: Number(formData.port),
+                security: formData.security,
+                username: formData.username.trim() || null,
+                password: formData.password || null,
+                from_email: formData.from_email.trim(),
+                from_name: formData.from_name.trim() || null,
+                reply_to: formData.reply_to.trim() || null,
+                is_active: formData.is_active,
+            });
+            await loadSettings();
+            notify('Email settings saved successfully!', 'success');
+        } catch (error: any) {
+            console.error('Error saving SMTP settings:', error);
+            notify(`Failed to save settings: ${error.message}`, 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleTest = async () => {
+        try {
+            setTesting(true);
+            setTestResult(null);
+            await sendTestEmail(supabase, { schoolId, campusId: selectedCampus || null, to: testEmail.trim() });
+            setTestResult({ success: true, message: `✅ Test email with a sample PDF sent to ${testEmail.trim()}` });
+        } catch (error: any) {
+            setTestResult({ success: false, message: `❌ Test failed: ${error.message}` });
+        } finally {
+            setTesting(false);
+        }
+    };
+
+    const handleStartFromSms = async () => {
+        const smsTemplates = await getSmsTemplates(schoolId);
+        const sms = smsTemplates.find(t => t.template_name === templateType);
+        if (!sms) {
+            notify(`There is no SMS template called ${templateType} to start from`, 'error');
+            return;
+        }
+        setTemplateForm({
+            ...templateForm,
+            subject: templateForm.subject || NOTIFICATION_TYPE_LABELS[templateType],
+            html_body: textToEmailHtml(sms.message_content),
+        });
+    };
+
+    const handleSaveTemplate = async () => {
+        try {
+            setSavingTemplate(true);
+            const saved = await saveEmailTemplate(supabase, {
+                school_id: schoolId,
+                notification_type: templateType,
+                subject: templateForm.subject.trim(),
+                html_body: templateForm.html_body,
+                is_active: templateForm.is_active,
+            });
+            setTemplates(prev => [...prev.filter(t => t.notification_type !== templateType), saved]);
+            notify('Email template saved', 'success');
+        } catch (error: any) {
+            notify(`Failed to save template: ${error.message}`, 'error');
+        } finally {
+            setSavingTemplate(false);
+        }
+    };
+
+    const handleDeleteTemplate = async () => {
+        if (!window.confirm('Remove this template? Emails of this type will use the SMS text instead.')) return;
+        try {
+            await deleteEmailTemplate(supabase, schoolId, templateType);
+            setTemplates(prev => prev.filter(t => t.notification_type !== templateType));
+        } catch (error: any) {
+            notify(`Failed to remove template: ${error.message}`, 'error');
+        }
+    };
+
+    // Placeholders stay visible in the preview so it is clear what gets filled in
+    const preview = renderEmailTemplate(templateForm, {});
+    const hasTemplate = templates.some(t => t.notification_type === templateType);
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg max-w-2xl mx-auto">
+            <div className="p-6 border-b border-gray-200">
+                <h2 className="text-2xl font-bold text-gray-800">Email (SMTP) Settings</h2>
+                <p className="mt-2 text-sm text-gray-600">
+                    Notification emails are sent from your own mail server. Choose which notifications go by
+                    email on the Channels tab of the SMS settings.
+                </p>
+                <select
+                    value={selectedCampus}
+                    onChange={(e) => setSelectedCampus(Number(e.target.value))}
+                    className="mt-4 px-4 py-2 border border-gray-300 rounded-lg"
+                >
+                    <option value={0}>School-wide</option>
+                    {campuses.map(campus => <option key={campus.id} value={campus.id}>{campus.name}</option>)}
+                </select>
+                {selectedCampus > 0 && (
+                    <p className="mt-1 text-xs text-gray-500">Campus settings override the school-wide server for that campus</p>
+                )}
+            </div>
+
+            {loading ? (
+                <div className="p-6 text-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+                    <p className="mt-4 text-gray-600">Loading settings...</p>
+                </div>
+            ) : (
+                <div className="p-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="md:col-span-2">
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                SMTP Host<span className="text-red-500 ml-1">*</span>
+                            </label>
+                            <input
+                                type="text"
+                                value={formData.host}
+                                onChange={(e) => setFormData({ ...formData, host: e.target.value })}
+                                placeholder="e.g., smtp.gmail.com"
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Port</label>
+                            <input
+                                type="number"
+                                value={formData.port}
+                                onChange={(e) => setFormData({ ...formData, port: Number(e.target.value) })}
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Security</label>
+                        <select
+                            value={formData.security}
+                            onChange={(e) => {
+                                const option = SECURITY_OPTIONS.find(o => o.value === e.target.value)!;
+                                setFormData({ ...formData, security: option.value, port: option.port });
+                            }}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                        >
+                            {SECURITY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                        {formData.security === 'none' && (
+                            <p className="mt-1 text-xs text-yellow-700">
+                                Unencrypted. Use only for a local catch-all such as Mailpit (localhost:1025) while testing.
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Username</label>
+                            <input
+                                type="text"
+                                value={formData.username}
+                                onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                                autoComplete="off"
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+                            <input
+                                type="password"
+                                value={formData.password}
+                                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                                placeholder={settings ? 'Leave blank to keep the saved password' : ''}
+                                autoComplete="new-password"
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                From Email<span className="text-red-500 ml-1">*</span>
+                            </label>
+                            <input
+                                type="email"
+                                value={formData.from_email}
+                                onChange={(e) => setFormData({ ...formData, from_email: e.target.value })}
+                                placeholder="e.g., office@school.edu.ng"
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">From Name</label>
+                            <input
+                                type="text"
+                                value={formData.from_name}
+                                onChange={(e) => setFormData({ ...formData, from_name: e.target.value })}
+                                placeholder="e.g., School Bursary"
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Reply-To</label>
+                        <input
+                            type="email"
+                            value={formData.reply_to}
+                            onChange={(e) => setFormData({ ...formData, reply_to: e.target.value })}
+                            placeholder="Where parent replies should go (optional)"
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                    </div>
+
+                    <div className="flex items-center">
+                        <input
+                            type="checkbox"
+                            id="smtp_is_active"
+                            checked={formData.is_active}
+                            onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        <label htmlFor="smtp_is_active" className="ml-2 text-sm font-medium text-gray-700">
+                            Active (Send notification emails)
+                        </label>
+                    </div>
+
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleSave}
+                            disabled={saving || !formData.host.trim() || !formData.from_email.trim()}
+                            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {saving ? 'Saving...' : settings ? 'Update Settings' : 'Save Settings'}
+                        </button>
+                    </div>
+
+                    {/* Test */}
+                    <div className="border-t border-gray-200 pt-6">
+                        <h3 className="text-lg font-semibold text-gray-800 mb-4">Send Test Email</h3>
+                        <div className="flex gap-3">
+                            <input
+                                type="email"
+                                value={testEmail}
+                                onChange={(e) => setTestEmail(e.target.value)}
+                                placeholder="you@example.com"
+                                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <button
+                                onClick={handleTest}
+                                disabled={testing || !settings || !testEmail.trim()}
+                                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                            >
+                                {testing ? 'Sending...' : 'Send Test'}
+                            </button>
+                        </div>
+                        {!settings && (
+                            <p className="mt-2 text-sm text-yellow-600">⚠️ Save settings first before testing</p>
+                        )}
+                        {testResult && (
+                            <div className={`mt-4 p-4 rounded-lg ${testResult.success
+                                ? 'bg-green-50 border border-green-200 text-green-800'
+                                : 'bg-red-50 border border-red-200 text-red-800'}`}
+                            >
+                                {testResult.message}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Email templates */}
+            <div className="p-6 border-t border-gray-200 space-y-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-800">Email Templates</h3>
+                    <p className="text-sm text-gray-600">
+                        HTML body for each notification type, using the same {'{{variables}}'} as the SMS template.
+                        Types without a template are emailed as their SMS text.
+                    </p>
+                </div>
+                <select
+                    value={templateType}
+                    onChange={(e) => setTemplateType(e.target.value as NotificationType)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                >
+                    {(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map(type => (
+                        <option key={type} value={type}>
+                            {NOTIFICATION_TYPE_LABELS[type]}{templates.some(t => t.notification_type === type) ? ' ✓' : ''}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    type="text"
+                    value={templateForm.subject}
+                    onChange={(e) => setTemplateForm({ ...templateForm, subject: e.target.value })}
+                    placeholder="Subject, e.g. {{student_name}}'s report card is ready"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <textarea
+                    value={templateForm.html_body}
+                    onChange={(e) => setTemplateForm({ ...templateForm, html_body: e.target.value })}
+                    rows={8}
+                    placeholder="<p>Dear Parent,</p><p>...</p>"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {templateForm.html_body && (
+                    <div>
+                        <p className="text-xs font-medium text-gray-600 mb-1">Preview: {preview.subject}</p>
+                        <iframe
+                            title="Email preview"
+                            sandbox=""
+                            srcDoc={preview.html}
+                            className="w-full h-48 border border-gray-200 rounded-lg bg-white"
+                        />
+                    </div>
+                )}
+                <div className="flex items-center justify-between">
+                    <label className="flex items-center text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={templateForm.is_active}
+                            onChange={(e) => setTemplateForm({ ...templateForm, is_active: e.target.checked })}
+                            className="mr-2"
+                        />
+                        Active
+                    </label>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleStartFromSms}
+                            className="px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                        >
+                            Start from SMS text
+                        </button>
+                        {hasTemplate && (
+                            <button
+                                onClick={handleDeleteTemplate}
+                                className="px-3 py-2 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50"
+                            >
+                                Remove
+                            </button>
+                        )}
+                        <button
+                            onClick={handleSaveTemplate}
+                            disabled={savingTemplate || !templateForm.subject.trim() || !templateForm.html_body.trim()}
+                            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+                        >
+                            {savingTemplate ? 'Saving...' : 'Save Template'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {/* Info Box */}
+            <div className="p-6 bg-blue-50 border-t border-blue-100">
+                <h4 className="font-semibold text-blue-900 mb-2">ℹ️ About email notifications</h4>
+                <ul className="text-sm text-blue-800 space-y-1">
+                    <li>• Parents are emailed at the father's or mother's email on the student record</li>
+                    <li>• Report cards, invoices, receipts and payslips are attached as PDFs</li>
+                    <li>• Emails follow the same queue, quiet hours and retries as SMS and WhatsApp</li>
+                    <li>• For local testing, point the server at a catch-all such as Mailpit (localhost:1025, security None)</li>
+                </ul>
+            </div>
+        </div>
+    );
+}
+
+export default SmtpSettingsComponent;
@@ -175,6 +175,10 @@ const PayrollDetailsModal: React.FC<{
         account_number: user.account_number || '',
         account_name: user.account_name || '',
         staff_code: user.staff_code || '',
+        tax_id: user.tax_id || '',
+        grade_level: user.grade_level ?? '',
+        employment_start_date: user.employment_start_date || '',
+        employment_end_date: user.employment_end_date || '',
     });
     const [isSaving, setIsSaving] = useState(false);
 
@@ -197,6 +201,10 @@ const PayrollDetailsModal: React.FC<{
             account_number: formData.account_number,
             account_name: formData.account_name,
             staff_code: formData.staff_code,
+            tax_id: formData.tax_id || null,
+            grade_level: formData.grade_level === '' ? null : Number(formData.grade_level),
+            employment_start_date: formData.employment_start_date || null,
+            employment_end_date: formData.employment_end_date || null,
         });
         
         setIsSaving(false);
@@ -223,6 +231,24 @@ const PayrollDetailsModal: React.FC<{
                             <label className={labelClasses}>Staff Code</label>
                             <input type="text" name="staff_code" value={formData.staff_code} onChange={handleChange} className={inputClasses} placeholder="EMP-001" />
                         </div>
+                        <div>
+                            <label className={labelClasses}>Tax ID (TIN)</label>
+                            <input type="text" name="tax_id" value={formData.tax_id} onChange={handleChange} className={inputClasses} placeholder="For PAYE returns" />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Grade Level</label>
+                            <input type="number" name="grade_level" value={formData.grade_level} onChange={handleChange} className={inputClasses} min="0" step="1" />
+                        </div>
+                        <div className="col-span-2 border-t border-slate-200 dark:border-slate-700 my-2"></div>
+                        <div>
+                            <label className={labelClasses}>Employment Start Date</label>
+                            <input type="date" name="employment_start_date" value={formData.employment_start_date} onChange={handleChange} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className={labelClasses}>Employment End Date</label>
+                            <input type="date" name="employment_end_date" value={formData.employment_end_date} onChange={handleChange} className={inputClasses} min={formData.employment_start_date || undefined} />
+                        </div>
+                        <p className="col-span-2 text-xs text-slate-500">Pay is pro-rated by school working days in the months staff join or leave.</p>
                          <div className="col-span-2 border-t border-slate-200 dark:border-slate-700 my-2"></div>
                         <div>
                             <label className={labelClasses}>Base Pay (NGN)</label>
@@ -15,6 +15,7 @@ const StaffPayslipReview: React.FC<StaffPayslipReviewProps> = ({ userProfile, ad
     const [selectedPayslip, setSelectedPayslip] = useState<Payslip | null>(null);
     const [showQueryModal, setShowQueryModal] = useState(false);
     const [queryMessage, setQueryMessage] = useState('');
+    const [queryLineItem, setQueryLineItem] = useState<PayslipLineItem | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
 
     useEffect(() => {
@@ -64,10 +65,9 @@ const StaffPayslipReview: React.FC<StaffPayslipReviewProps> = ({ userProfile, ad
         
         setIsSubmitting(true);
         try {
-            await raisePayslipQuery(selectedPayslip.id, userProfile.id, queryMessage);
+            await raisePayslipQuery(selectedPayslip.id, userProfile.id, queryMessage, null, queryLineItem?.id);
             addToast('Query raised successfully. Admin will review and respond.', 'success');
-            setShowQueryModal(false);
-            setQueryMessage('');
+            closeQueryModal();
             await loadPayslips();
         } catch (error: any) {
             addToast(error.message, 'error');
@@ -76,6 +76,19 @@ const StaffPayslipReview: React.FC<StaffPayslipReviewProps> = ({ userProfile, ad
         }
     };
 
+    const openQueryModal = (lineItem: PayslipLineItem | null = null) => {
+        setQueryLineItem(lineItem);
+        setShowQueryModal(true);
+    };
+
+    const closeQueryModal = () => {
+        setShowQueryModal(false);
+        setQueryMessage('');
+        setQueryLineItem(null);
+    };
+
+    const canQuery = selectedPayslip?.status === 'AWAITING_APPROVAL' || selectedPayslip?.status === 'RESOLVED';
+
     const formatCurrency = (amount: number) => {
         return new Intl.NumberFormat('en-NG', {
             style: 'currency',
@@ -217,9 +230,14 @@ const StaffPayslipReview: React.FC<StaffPayslipReviewProps> = ({ userProfile, ad
                                     ?.filter(item => item.type === 'EARNING')
                                     .sort((a, b) => (a.ordering || 0) - (b.ordering || 0))
                                     .map(item => (
-                                        <div key={item.id} className="flex justify-between py-1 text-slate-600 dark:text-slate-400">
-                                            <span>{item.label}</span>
-                                            <span className="font-medium">{formatCurrency(item.amount)}</span>
+                                        <div key={item.id} className="py-1 text-slate-600 dark:text-slate-400">
+                                            <div className="flex justify-between">
+                                                <span>{item.label}</span>
+                                                <span className="font-medium">{formatCurrency(item.amount)}</span>
+                                            </div>
+                                            {item.metadata?.detail && (
+                                                <div className="text-xs text-slate-500 dark:text-slate-500">{item.metadata.detail}</div>
+                                            )}
                                         </div>
                                     ))}
                             </div>
@@ -232,11 +250,48 @@ const StaffPayslipReview: React.FC<StaffPayslipReviewProps> = ({ userProfile, ad
                                         ?.filter(item => item.type === 'DEDUCTION')
                                         .sort((a, b) => (a.ordering || 0) - (b.ordering || 0))
                                         .map(item => (
-                                            <div key={item.id} className="flex justify-between py-1 text-slate-600 dark:text-slate-400">
-                                                <span>{item.label}</span>
-                                                <span className="font-medium text-red-600 dark:text-red-400">
-                                                    -{formatCurrency(item.amount)}
-                                                </span>
+                                            <div key={item.id} className="py-1 text-slate-600 dark:text-slate-400">
+                                                <div className="flex justify-between">
+                                                    <span>{item.label}</span>
+                                                    <span className="font-medium text-red-600 dark:text-red-400">
+                                                        -{formatCurrency(item.amount)}
+                                                    </span>
+                                                </div>
+                                                {item.metadata?.detail && (
+                                                    <div className="flex justify-between items-center text-xs text-slate-500 dark:text-slate-500">
+                                                        <span>{item.metadata.detail}</span>
+                                                        {canQuery && item.metadata.source === 'attendance' && (
+                                                            <button
+                                                                onClick={() => openQueryModal(item)}
+                                                                disabled={isSubmitting}
+                                                                className="text-yellow-700 dark:text-yellow-400 hover:underline font-medium"
+                                                            >
+                                                                Challenge
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        ))}
+                                </div>
+                            )}
+
+                            {/* Information only, e.g. employer contributions and paused loan repayments */}
+                            {selectedPayslip.line_items?.some(item => item.type === 'INFO') && (
+                                <div className="bg-slate-50 dark:bg-slate-700/50 p-3 rounded-lg">
+                                    <div className="font-semibold text-slate-700 dark:text-slate-300 mb-2">For Information</div>
+                                    {selectedPayslip.line_items
+                                        ?.filter(item => item.type === 'INFO')
+                                        .sort((a, b) => (a.ordering || 0) - (b.ordering || 0))
+                                        .map(item => (
+                                            <div key={item.id} className="py-1 text-slate-500 dark:text-slate-400">
+                                                <div className="flex justify-between">
+                                                    <span>{item.label}</span>
+                                                    <span>{formatCurrency(item.amount)}</span>
+                                                </div>
+                                                {item.metadata?.detail && (
+                                                    <div className="text-xs">{item.metadata.detail}</div>
+                                                )}
                                             </div>
                                         ))}
                                 </div>
@@ -245,7 +300,7 @@ const StaffPayslipReview: React.FC<StaffPayslipReviewProps> = ({ userProfile, ad
                     </div>
 
                     {/* Actions */}
-                    {(selectedPayslip.status === 'AWAITING_APPROVAL' || selectedPayslip.status === 'RESOLVED') && (
+                    {canQuery && (
                         <div className="flex gap-4 pt-4 border-t border-slate-200 dark:border-slate-700">
                             <button
                                 onClick={handleApprove}
@@ -257,7 +312,7 @@ const StaffPayslipReview: React.FC<StaffPayslipReviewProps> = ({ userProfile, ad
                             </button>
 
                             <button
-                                onClick={() => setShowQueryModal(true)}
+                                onClick={() => openQueryModal()}
                                 disabled={isSubmitting}
                                 className="flex-1 px-6 py-3 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 disabled:bg-yellow-400 font-semibold flex items-center justify-center gap-2"
                             >
@@ -284,6 +339,11 @@ const StaffPayslipReview: React.FC<StaffPayslipReviewProps> = ({ userProfile, ad
                                                 {query.status}
                                             </span>
                                         </div>
+                                        {query.line_item_id && (
+                                            <div className="text-sm text-slate-500 dark:text-slate-400 mb-1">
+                                                About: {selectedPayslip.line_items?.find(item => item.id === query.line_item_id)?.label || 'a payslip line'}
+                                            </div>
+                                        )}
                                         <p className="text-slate-600 dark:text-slate-400 mb-2">{query.message}</p>
                                         <div className="text-xs text-slate-500 dark:text-slate-500">
                                             {new Date(query.created_at).toLocaleString()}
@@ -307,11 +367,28 @@ const StaffPayslipReview: React.FC<StaffPayslipReviewProps> = ({ userProfile, ad
             {showQueryModal && (
                 <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex justify-center items-center z-50">
                     <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-lg p-6 m-4">
-                        <h2 className="text-xl font-bold text-slate-800 dark:text-white mb-4">Raise a Query</h2>
+                        <h2 className="text-xl font-bold text-slate-800 dark:text-white mb-4">
+                            {queryLineItem ? 'Challenge a Deduction' : 'Raise a Query'}
+                        </h2>
                         
-                        <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
-                            Please describe your concern or question about this payslip. An admin will review and respond.
-                        </p>
+                        {queryLineItem ? (
+                            <div className="text-sm bg-slate-50 dark:bg-slate-800 p-3 rounded-lg mb-4">
+                                <div className="flex justify-between font-medium text-slate-800 dark:text-white">
+                                    <span>{queryLineItem.label}</span>
+                                    <span>-{formatCurrency(queryLineItem.amount)}</span>
+                                </div>
+                                {queryLineItem.metadata?.detail && (
+                                    <div className="text-slate-500 dark:text-slate-400">{queryLineItem.metadata.detail}</div>
+                                )}
+                                <p className="mt-2 text-slate-600 dark:text-slate-400">
+                                    Explain why this deduction is wrong, e.g. you were on approved leave or checked out on a device that failed.
+                                </p>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+                                Please describe your concern or question about this payslip. An admin will review and respond.
+                            </p>
+                        )}
 
                         <textarea
                             value={queryMessage}
@@ -323,10 +400,7 @@ const StaffPayslipReview: React.FC<StaffPayslipReviewProps> = ({ userProfile, ad
 
                         <div className="flex gap-3">
                             <button
-                                onClick={() => {
-                                    setShowQueryModal(false);
-                                    setQueryMessage('');
-                                }}
+                                onClick={closeQueryModal}
                                 disabled={isSubmitting}
                                 className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800"
                             >
@@ -4,6 +4,7 @@ import type { InventoryItem, Order, UserProfile, OrderStatus, OrderNote } from '
 import { ShoppingCartIcon, PlusCircleIcon, EditIcon, TrashIcon, ChartBarIcon, PackageIcon, EyeIcon, SearchIcon, TagIcon, ChevronDownIcon, DownloadIcon } from './common/icons';
 import Spinner from './common/Spinner';
 import Pagination from './common/Pagination';
+import { nextOrderStatuses } from '../services/storeOrders';
 import { exportToCsv } from '../utils/export';
 
 interface StoreManagerProps {
@@ -413,7 +414,7 @@ const StoreManager: React.FC<StoreManagerProps> = ({ inventory, orders, onSaveIt
                                 )}
                             </div>
                             <div className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
-                                {item.stock} in stock
+                                {item.stock} in stock{item.reserved ? ` • ${item.reserved} reserved` : ''}
                             </div>
                         </div>
                         <div className="p-4">
@@ -562,14 +563,12 @@ const StoreManager: React.FC<StoreManagerProps> = ({ inventory, orders, onSaveIt
                                                     <select 
                                                         value={order.status} 
                                                         onChange={(e) => handleOrderStatusChange(order.id, e.target.value as OrderStatus)}
-                                                        disabled={isUpdatingOrder}
+                                                        disabled={isUpdatingOrder || nextOrderStatuses(order.status).length === 0}
                                                         className="p-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm font-semibold"
                                                     >
-                                                        <option value="Pending">Pending</option>
-                                                        <option value="Paid">Paid</option>
-                                                        <option value="Delivered">Delivered</option>
-                                                        <option value="Returned">Returned</option>
-                                                        <option value="Cancelled">Cancelled</option>
+                                                        {[order.status, ...nextOrderStatuses(order.status)].map(status => (
+                                                            <option key={status} value={status}>{status}</option>
+                                                        ))}
                                                     </select>
                                                 </div>
                                             )}
@@ -1,13 +1,28 @@
 
-import React, { useState, useMemo } from 'react';
-import type { InventoryItem, UserProfile, OrderItem } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import type { InventoryItem, UserProfile, StudentProfile, Order, StoreBillingAllowance } from '../types';
 import { BanknotesIcon, ShoppingCartIcon, PlusCircleIcon, CloseIcon } from './common/icons';
 import Spinner from './common/Spinner';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import {
+    availableStock,
+    billStoreOrderToFees,
+    getStoreBillingAllowance,
+    getStorePaystackKey,
+    setOrderStatus,
+    storeBillingBlocker,
+    verifyStorePayment,
+} from '../services/storeOrders';
+import { openPaystackCheckout } from '../services/paystackInline';
+import { mapSupabaseError } from '../utils/errorHandling';
 
 interface StorefrontViewProps {
     inventory: InventoryItem[];
-    onCreateOrder: (items: { inventory_item_id: number; quantity: number; unit_price: number }[]) => Promise<boolean>;
-    userProfile: UserProfile;
+    /** Places the order and reserves its stock; null when it could not be placed */
+    onCreateOrder: (items: { inventory_item_id: number; quantity: number; unit_price: number }[]) => Promise<Order | null>;
+    /** Reloads orders and stock after a payment is verified or a checkout is abandoned */
+    onOrderSettled?: () => Promise<void> | void;
+    userProfile: UserProfile | StudentProfile;
     addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
 }
 
@@ -15,15 +30,34 @@ interface CartItem extends InventoryItem {
     cartQuantity: number;
 }
 
-const StorefrontView: React.FC<StorefrontViewProps> = ({ inventory, onCreateOrder, userProfile, addToast }) => {
+const StorefrontView: React.FC<StorefrontViewProps> = ({ inventory, onCreateOrder, onOrderSettled, userProfile, addToast }) => {
     const [cart, setCart] = useState<CartItem[]>([]);
     const [isCartOpen, setIsCartOpen] = useState(false);
     const [isCheckingOut, setIsCheckingOut] = useState(false);
+    const [email, setEmail] = useState(userProfile.email || '');
     const [searchQuery, setSearchQuery] = useState('');
     const [categoryFilter, setCategoryFilter] = useState<string>('All');
+    const [payMethod, setPayMethod] = useState<'card' | 'school_bill'>('card');
+    const [allowance, setAllowance] = useState<StoreBillingAllowance | null>(null);
+
+    // Students can put purchases on their own school bill, within the limit their parents set
+    const studentRecordId = 'student_record_id' in userProfile ? userProfile.student_record_id : null;
+
+    const loadAllowance = async () => {
+        if (!studentRecordId) return;
+        try {
+            setAllowance(await getStoreBillingAllowance(requireSupabaseClient(), studentRecordId));
+        } catch (error) {
+            console.error('Could not load store allowance:', error);
+        }
+    };
+
+    useEffect(() => {
+        loadAllowance();
+    }, [studentRecordId]);
 
     const publishedItems = useMemo(() => {
-        return inventory.filter(item => item.is_published && item.stock > 0);
+        return inventory.filter(item => item.is_published && availableStock(item) > 0);
     }, [inventory]);
 
     const filteredItems = useMemo(() => {
@@ -40,8 +74,8 @@ const StorefrontView: React.FC<StorefrontViewProps> = ({ inventory, onCreateOrde
         setCart(prev => {
             const existing = prev.find(i => i.id === item.id);
             if (existing) {
-                if (existing.cartQuantity >= item.stock) {
-                    addToast(`Only ${item.stock} items available.`, 'error');
+                if (existing.cartQuantity >= availableStock(item)) {
+                    addToast(`Only ${availableStock(item)} items available.`, 'error');
                     return prev;
                 }
                 return prev.map(i => i.id === item.id ? { ...i, cartQuantity: i.cartQuantity + 1 } : i);
@@ -62,7 +96,7 @@ const StorefrontView: React.FC<StorefrontViewProps> = ({ inventory, onCreateOrde
                     const newQty = item.cartQuantity + delta;
                     if (newQty <= 0) return item; // Don't remove, explicitly remove with button
                     const originalItem = inventory.find(i => i.id === itemId);
-                    if (originalItem && newQty > originalItem.stock) {
+                    if (originalItem && newQty > availableStock(originalItem)) {
                          addToast(`Max stock reached.`, 'info');
                          return item;
                     }
@@ -76,7 +110,49 @@ const StorefrontView: React.FC<StorefrontViewProps> = ({ inventory, onCreateOrde
     const cartTotal = cart.reduce((sum, item) => sum + (item.price * item.cartQuantity), 0);
     const cartCount = cart.reduce((sum, item) => sum + item.cartQuantity, 0);
 
+    const billingBlocker = payMethod === 'school_bill' ? storeBillingBlocker(allowance, cartTotal) : null;
+
+    const handleBillToSchool = async () => {
+        setIsCheckingOut(true);
+        const order = await onCreateOrder(cart.map(item => ({
+            inventory_item_id: item.id,
+            quantity: item.cartQuantity,
+            unit_price: item.price
+        })));
+        if (!order) {
+            setIsCheckingOut(false);
+            return;
+        }
+
+        const supabase = requireSupabaseClient();
+        try {
+            await billStoreOrderToFees(supabase, order.id);
+            setCart([]);
+            setIsCartOpen(false);
+            addToast(`Order #${order.id} was added to your school bill. It is ready for collection once that part of the bill is paid.`, 'success');
+        } catch (error: any) {
+            addToast(`Could not add order #${order.id} to your school bill: ${mapSupabaseError(error)}`, 'error');
+            try {
+                await setOrderStatus(supabase, order.id, 'Cancelled', 'Could not be added to the school bill');
+            } catch (cancelError) {
+                console.error('Could not cancel unbilled order:', cancelError);
+            }
+        } finally {
+            setIsCheckingOut(false);
+            await loadAllowance();
+            await onOrderSettled?.();
+        }
+    };
+
     const handleCheckout = async () => {
+        if (payMethod === 'school_bill') {
+            await handleBillToSchool();
+            return;
+        }
+        if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+            addToast('Enter an email address for your payment receipt.', 'error');
+            return;
+        }
         setIsCheckingOut(true);
         // Construct order payload
         const orderItems = cart.map(item => ({
@@ -85,14 +161,68 @@ const StorefrontView: React.FC<StorefrontViewProps> = ({ inventory, onCreateOrde
             unit_price: item.price
         }));
 
-        const success = await onCreateOrder(orderItems);
-        setIsCheckingOut(false);
-        if (success) {
-            setCart([]);
-            setIsCartOpen(false);
-            addToast('Order placed successfully!', 'success');
-        } else {
-            addToast('Failed to place order.', 'error');
+        const order = await onCreateOrder(orderItems);
+        if (!order || !order.payment_reference) {
+            setIsCheckingOut(false);
+            return;
+        }
+        setCart([]);
+        setIsCartOpen(false);
+
+        const supabase = requireSupabaseClient();
+        let publicKey: string | null = null;
+        try {
+            publicKey = await getStorePaystackKey(supabase);
+        } catch (error) {
+            console.error('Could not load Paystack key:', error);
+        }
+        if (!publicKey) {
+            setIsCheckingOut(false);
+            addToast(`Order #${order.id} placed. Online payment is not set up, so pay at the store before ${new Date(order.reserved_until || Date.now()).toLocaleTimeString()} to keep your items.`, 'info');
+            return;
+        }
+
+        let paid = false;
+        try {
+            await openPaystackCheckout({
+                publicKey,
+                email: email.trim(),
+                amount: Number(order.total_amount),
+                reference: order.payment_reference,
+                metadata: { order_id: order.id, school_id: order.school_id },
+                onSuccess: async (reference) => {
+                    paid = true;
+                    try {
+                        const result = await verifyStorePayment(supabase, reference);
+                        if (result.outcome === 'paid' || result.outcome === 'already_paid') {
+                            addToast(`Payment confirmed. Order #${order.id} is ready for collection.`, 'success');
+                        } else {
+                            addToast(`Payment received for order #${order.id} but it needs staff review (${result.message || result.outcome}).`, 'info');
+                        }
+                    } catch (error: any) {
+                        // The webhook still confirms the payment when it arrives
+                        addToast(`Payment received. Order #${order.id} will show as paid once Paystack confirms it.`, 'info');
+                    } finally {
+                        setIsCheckingOut(false);
+                        await onOrderSettled?.();
+                    }
+                },
+                onClose: async () => {
+                    if (paid) return;
+                    try {
+                        await setOrderStatus(supabase, order.id, 'Cancelled', 'Checkout closed before payment');
+                        addToast('Checkout cancelled. Your items have been returned to the store.', 'info');
+                    } catch (error: any) {
+                        addToast(`Could not cancel order #${order.id}: ${mapSupabaseError(error)}`, 'error');
+                    } finally {
+                        setIsCheckingOut(false);
+                        await onOrderSettled?.();
+                    }
+                },
+            });
+        } catch (error: any) {
+            setIsCheckingOut(false);
+            addToast(`${error?.message || 'Could not open Paystack checkout.'} Order #${order.id} is held until ${new Date(order.reserved_until || Date.now()).toLocaleTimeString()}.`, 'error');
         }
     };
 
@@ -150,7 +280,7 @@ const StorefrontView: React.FC<StorefrontViewProps> = ({ inventory, onCreateOrde
                                 <div className="w-full h-full flex items-center justify-center text-4xl">📦</div>
                             )}
                             <div className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
-                                {item.stock} in stock
+                                {availableStock(item)} in stock
                             </div>
                         </div>
                         <div className="p-4 flex flex-col flex-grow">
@@ -229,17 +359,42 @@ const StorefrontView: React.FC<StorefrontViewProps> = ({ inventory, onCreateOrde
                                 <span className="text-lg font-semibold text-slate-700 dark:text-slate-300">Total</span>
                                 <span className="text-2xl font-bold text-green-600 dark:text-green-400">₦{cartTotal.toLocaleString()}</span>
                             </div>
+                            {studentRecordId && (
+                                <div className="mb-3 space-y-2 text-sm">
+                                    <label className="flex items-center gap-2">
+                                        <input type="radio" checked={payMethod === 'card'} onChange={() => setPayMethod('card')} />
+                                        Pay now with Paystack
+                                    </label>
+                                    <label className="flex items-center gap-2">
+                                        <input type="radio" checked={payMethod === 'school_bill'} onChange={() => setPayMethod('school_bill')} />
+                                        Add to school bill
+                                        {allowance?.limit != null && (
+                                            <span className="text-xs text-slate-500">(₦{allowance.remaining.toLocaleString()} left this term)</span>
+                                        )}
+                                    </label>
+                                    {billingBlocker && <p className="text-xs text-red-600">{billingBlocker}</p>}
+                                </div>
+                            )}
+                            {payMethod === 'card' && !userProfile.email && (
+                                <input
+                                    type="email"
+                                    value={email}
+                                    onChange={e => setEmail(e.target.value)}
+                                    placeholder="Email for payment receipt"
+                                    className="w-full mb-3 p-2 text-sm border rounded-lg bg-white dark:bg-slate-800 dark:border-slate-700"
+                                />
+                            )}
                             <button 
                                 onClick={handleCheckout} 
-                                disabled={cart.length === 0 || isCheckingOut}
+                                disabled={cart.length === 0 || isCheckingOut || !!billingBlocker}
                                 className="w-full py-3 bg-green-600 text-white font-bold rounded-xl hover:bg-green-700 disabled:bg-slate-400 disabled:cursor-not-allowed flex justify-center items-center gap-2 shadow-lg shadow-green-500/20"
                             >
-                                {isCheckingOut ? <Spinner size="sm"/> : 'Proceed to Checkout'}
+                                {isCheckingOut ? <Spinner size="sm"/> : payMethod === 'school_bill' ? 'Add to School Bill' : 'Proceed to Checkout'}
                             </button>
-                             <p className="text-xs text-center text-slate-500 mt-3 flex items-center justify-center gap-1">
+                             {payMethod === 'card' && <p className="text-xs text-center text-slate-500 mt-3 flex items-center justify-center gap-1">
                                 <span className="inline-block w-2 h-2 rounded-full bg-green-500"></span>
                                 Secured by Paystack
-                            </p>
+                            </p>}
                         </div>
                     </div>
                 </div>
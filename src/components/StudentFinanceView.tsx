@@ -1,10 +1,16 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { requireSupabaseClient } from '../services/supabaseClient';
-import type { Student, UserProfile, FeeItem, StudentInvoice, Term, BaseDataObject, Payment, InvoiceStatus } from '../types';
+import type { Student, UserProfile, FeeItem, StudentInvoice, Term, BaseDataObject, LedgerPayment, InvoiceStatus, FeeReconciliationRow, LateFeeRule, InvoiceInstallment } from '../types';
+import { LedgerPaymentMethod } from '../types';
 import Spinner from './common/Spinner';
 import { BanknotesIcon, PlusCircleIcon, TrashIcon, EditIcon } from './common/icons';
+import { recordStudentPayment, toLedgerPaymentMethod, getImportedPaymentTopUp, fetchFeeReconciliation, describeReconciliationRow, summarizeReconciliation, reallocateStudentPayments, buildPaymentReceipt } from '../services/feeLedger';
+import { buildInstallmentSchedule, DEFAULT_LATE_FEE_RULE, deriveInstallmentProgress, resizeInstallments } from '../services/feeInstallments';
+import { buildReceiptPdfHtml } from '../utils/bursaryRoundTrip';
+import { mapSupabaseError } from '../utils/errorHandling';
 import DVAManager from './DVAManager';
+import UnmatchedPaymentsWorkspace from './UnmatchedPaymentsWorkspace';
 import FeesCsvManager from './FeesCsvManager';
 
 // --- Sub-components ---
@@ -413,6 +419,200 @@ const FeeItemManager: React.FC<{
     );
 };
 
+const LateFeeRulePanel: React.FC<{
+    schoolId: number;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+    onApplied: () => void;
+}> = ({ schoolId, addToast, onApplied }) => {
+    const [rule, setRule] = useState<LateFeeRule>(DEFAULT_LATE_FEE_RULE);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+
+    useEffect(() => {
+        requireSupabaseClient()
+            .from('school_config')
+            .select('late_fee_rule')
+            .eq('school_id', schoolId)
+            .maybeSingle()
+            .then(({ data }) => {
+                if (data?.late_fee_rule) setRule({ ...DEFAULT_LATE_FEE_RULE, ...data.late_fee_rule });
+            });
+    }, [schoolId]);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const { error } = await requireSupabaseClient()
+            .from('school_config')
+            .update({ late_fee_rule: { ...rule, cap: rule.cap || null } })
+            .eq('school_id', schoolId);
+        setIsSaving(false);
+        if (error) {
+            addToast(`Could not save late fee rule: ${mapSupabaseError(error)}`, 'error');
+            return;
+        }
+        addToast('Late fee rule saved.', 'success');
+    };
+
+    const handleApply = async () => {
+        if (!window.confirm('Post late fees now for every installment overdue past the grace period?')) return;
+        setIsApplying(true);
+        const { data, error } = await requireSupabaseClient().rpc('apply_late_fees', { p_school_id: schoolId });
+        setIsApplying(false);
+        if (error) {
+            addToast(`Could not apply late fees: ${mapSupabaseError(error)}`, 'error');
+            return;
+        }
+        addToast(`Posted ${data?.surcharges || 0} late fee(s) totalling ₦${Number(data?.amount || 0).toLocaleString()}.`, 'success');
+        onApplied();
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <h3 className="text-lg font-bold">Late Fees</h3>
+                <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={rule.enabled} onChange={e => setRule({ ...rule, enabled: e.target.checked })} />
+                    Charge late fees
+                </label>
+            </div>
+            <p className="text-sm text-slate-500">
+                When an installment is still unpaid after its due date plus the grace days, a surcharge is added to the invoice once. Percentage fees are charged on the installment's unpaid amount.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <label className="text-sm">
+                    <span className="block text-xs text-slate-500 mb-1">Type</span>
+                    <select value={rule.type} onChange={e => setRule({ ...rule, type: e.target.value as LateFeeRule['type'] })} className="w-full p-2 border rounded">
+                        <option value="flat">Flat amount (₦)</option>
+                        <option value="percentage">Percentage (%)</option>
+                    </select>
+                </label>
+                <label className="text-sm">
+                    <span className="block text-xs text-slate-500 mb-1">{rule.type === 'flat' ? 'Amount (₦)' : 'Percent'}</span>
+                    <input type="number" min={0} value={rule.value} onChange={e => setRule({ ...rule, value: Number(e.target.value) })} className="w-full p-2 border rounded" />
+                </label>
+                <label className="text-sm">
+                    <span className="block text-xs text-slate-500 mb-1">Grace days</span>
+                    <input type="number" min={0} value={rule.grace_days} onChange={e => setRule({ ...rule, grace_days: Number(e.target.value) })} className="w-full p-2 border rounded" />
+                </label>
+                <label className="text-sm">
+                    <span className="block text-xs text-slate-500 mb-1">Cap per installment (₦)</span>
+                    <input type="number" min={0} value={rule.cap ?? ''} placeholder="No cap" onChange={e => setRule({ ...rule, cap: e.target.value ? Number(e.target.value) : null })} className="w-full p-2 border rounded" />
+                </label>
+            </div>
+            <div className="flex gap-2 justify-end">
+                <button onClick={handleApply} disabled={isApplying || !rule.enabled} className="px-4 py-2 text-sm border rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50">
+                    {isApplying ? 'Applying...' : 'Apply Late Fees Now'}
+                </button>
+                <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">
+                    {isSaving ? 'Saving...' : 'Save Rule'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const FeeReconciliationReport: React.FC<{
+    schoolId: number;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}> = ({ schoolId, addToast }) => {
+    const [rows, setRows] = useState<FeeReconciliationRow[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [flaggedOnly, setFlaggedOnly] = useState(true);
+
+    const loadReport = async () => {
+        setIsLoading(true);
+        try {
+            setRows(await fetchFeeReconciliation(requireSupabaseClient(), schoolId));
+        } catch (error: any) {
+            addToast(`Could not load reconciliation: ${mapSupabaseError(error)}`, 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadReport();
+    }, [schoolId]);
+
+    const summary = useMemo(() => summarizeReconciliation(rows), [rows]);
+    const visibleRows = flaggedOnly ? rows.filter(r => r.flagged) : rows;
+
+    if (isLoading) return <div className="flex justify-center p-10"><Spinner size="md" /></div>;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <h3 className="font-bold">Balance Reconciliation</h3>
+                <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={flaggedOnly} onChange={e => setFlaggedOnly(e.target.checked)} />
+                        Flagged only
+                    </label>
+                    <button onClick={loadReport} className="px-3 py-1 text-sm border rounded hover:bg-slate-50 dark:hover:bg-slate-800">Refresh</button>
+                </div>
+            </div>
+            <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800 text-sm text-blue-800 dark:text-blue-200">
+                <strong>How it works:</strong> Payments are recorded once on the fee ledger and invoices show what has been allocated to them.
+                A student is flagged when the invoice balance, the balance before the ledger migration and the ledger balance (which includes discounts, surcharges and unallocated credit) do not agree.
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="text-center p-4 bg-slate-50 dark:bg-slate-800 rounded-lg">
+                    <p className="font-bold text-2xl">{summary.students}</p>
+                    <p className="text-xs text-slate-500">Students</p>
+                </div>
+                <div className="text-center p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
+                    <p className="font-bold text-2xl text-red-700 dark:text-red-300">{summary.flagged}</p>
+                    <p className="text-xs text-slate-500">Flagged</p>
+                </div>
+                <div className="text-center p-4 bg-slate-50 dark:bg-slate-800 rounded-lg">
+                    <p className="font-bold text-2xl">₦{summary.invoiceBalance.toLocaleString()}</p>
+                    <p className="text-xs text-slate-500">Invoice balance</p>
+                </div>
+                <div className="text-center p-4 bg-slate-50 dark:bg-slate-800 rounded-lg">
+                    <p className="font-bold text-2xl">₦{summary.ledgerBalance.toLocaleString()}</p>
+                    <p className="text-xs text-slate-500">Ledger balance</p>
+                </div>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-slate-100 dark:bg-slate-800 uppercase text-xs font-semibold">
+                        <tr>
+                            <th className="p-3">Student</th>
+                            <th className="p-3">Invoiced</th>
+                            <th className="p-3">Invoice Balance</th>
+                            <th className="p-3">Before Migration</th>
+                            <th className="p-3">Ledger Balance</th>
+                            <th className="p-3">Why</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                        {visibleRows.map(row => (
+                            <tr key={row.student_id} className={row.flagged ? 'bg-red-50/50 dark:bg-red-900/10' : ''}>
+                                <td className="p-3 font-medium">
+                                    {row.student_name}
+                                    {row.admission_number && <span className="block text-xs text-slate-500">{row.admission_number}</span>}
+                                </td>
+                                <td className="p-3">₦{row.invoiced.toLocaleString()}</td>
+                                <td className="p-3">₦{row.invoice_balance.toLocaleString()}</td>
+                                <td className="p-3">₦{row.legacy_balance.toLocaleString()}</td>
+                                <td className="p-3 font-bold">₦{row.ledger_balance.toLocaleString()}</td>
+                                <td className="p-3 text-xs text-slate-600 dark:text-slate-400">
+                                    {describeReconciliationRow(row).map(reason => <p key={reason}>{reason}</p>)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {visibleRows.length === 0 && (
+                    <p className="text-center py-10 text-slate-500">
+                        {flaggedOnly ? 'Every student balance agrees with the ledger.' : 'No invoices or payments yet.'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
+
 // --- Main View ---
 
 const StudentFinanceView: React.FC<{
@@ -420,13 +620,13 @@ const StudentFinanceView: React.FC<{
     students: Student[];
     userProfile: UserProfile;
 }> = ({ addToast, students: propStudents, userProfile }) => {
-    const [activeTab, setActiveTab] = useState<'dashboard' | 'invoices' | 'fees' | 'payments' | 'debtors' | 'dva'>('dashboard');
+    const [activeTab, setActiveTab] = useState<'dashboard' | 'invoices' | 'fees' | 'payments' | 'debtors' | 'dva' | 'reconciliation' | 'unmatched'>('dashboard');
     const [feeItems, setFeeItems] = useState<FeeItem[]>([]);
     const [invoices, setInvoices] = useState<StudentInvoice[]>([]);
     const [terms, setTerms] = useState<Term[]>([]);
     const [classes, setClasses] = useState<BaseDataObject[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const [recentPayments, setRecentPayments] = useState<Payment[]>([]);
+    const [recentPayments, setRecentPayments] = useState<LedgerPayment[]>([]);
     const [searchQuery, setSearchQuery] = useState('');
     const [statusFilter, setStatusFilter] = useState<string>('All');
 
@@ -469,6 +669,21 @@ const StudentFinanceView: React.FC<{
         });
     }, [invoices, searchQuery, statusFilter]);
 
+    const fetchRecentPayments = (schoolId: number) =>
+        requireSupabaseClient()
+            .from('student_payments')
+            .select('*, student:students(name, admission_number), allocations:student_payment_allocations(id, payment_id, invoice_id, invoice_line_item_id, allocated_amount, invoice:student_invoices(invoice_number), line:invoice_line_items(description))')
+            .eq('school_id', schoolId)
+            .order('paid_at', { ascending: false })
+            .limit(20);
+
+    const fetchInvoices = () =>
+        requireSupabaseClient()
+            .from('student_invoices')
+            .select('*, student:students(name, admission_number), line_items:invoice_line_items(*), installments:invoice_installments(*)')
+            .eq('school_id', userProfile.school_id)
+            .order('created_at', { ascending: false });
+
     useEffect(() => {
         const loadData = async () => {
             const supabase = requireSupabaseClient();
@@ -478,10 +693,10 @@ const StudentFinanceView: React.FC<{
 
             const [feesRes, invRes, termRes, classRes, payRes] = await Promise.all([
                 supabase.from('fee_items').select('*').eq('school_id', schoolId),
-                supabase.from('student_invoices').select('*, student:students(name, admission_number), line_items:invoice_line_items(*)').eq('school_id', schoolId).order('created_at', { ascending: false }),
+                supabase.from('student_invoices').select('*, student:students(name, admission_number), line_items:invoice_line_items(*), installments:invoice_installments(*)').eq('school_id', schoolId).order('created_at', { ascending: false }),
                 supabase.from('terms').select('*').eq('school_id', schoolId).order('start_date', { ascending: false }),
                 supabase.from('classes').select('*'), // Classes are shared dictionaries usually, or filtered if needed
-                supabase.from('payments').select('*, invoice:student_invoices(invoice_number, student:students(name))').eq('school_id', schoolId).order('created_at', { ascending: false }).limit(20)
+                fetchRecentPayments(schoolId)
             ]);
 
             if (feesRes.data) setFeeItems(feesRes.data);
@@ -498,6 +713,7 @@ const StudentFinanceView: React.FC<{
     const handleSaveFee = async (item: Partial<FeeItem>) => {
         const supabase = requireSupabaseClient();
         const payload = { ...item, school_id: userProfile.school_id };
+        const previous = item.id ? feeItems.find(f => f.id === item.id) : undefined;
         if (item.id) {
             await supabase.from('fee_items').update(payload).eq('id', item.id);
         } else {
@@ -506,6 +722,58 @@ const StudentFinanceView: React.FC<{
         const { data } = await supabase.from('fee_items').select('*').eq('school_id', userProfile.school_id);
         setFeeItems(data || []);
         addToast('Fee item saved.', 'success');
+
+        if (previous && (previous.priority || 1) !== (item.priority || 1)
+            && window.confirm('Bill clearing priority changed. Re-run payment allocation for all students now?')) {
+            await handleReallocate();
+        }
+    };
+
+    const handleReallocate = async (studentId?: number) => {
+        try {
+            const result = await reallocateStudentPayments(requireSupabaseClient(), userProfile.school_id, studentId);
+            const [{ data: invData }, { data: payData }] = await Promise.all([
+                fetchInvoices(),
+                fetchRecentPayments(userProfile.school_id),
+            ]);
+            setInvoices(invData || []);
+            setRecentPayments(payData || []);
+            addToast(`Re-allocated ${result.payments} payment(s) for ${result.students} student(s).`, 'success');
+        } catch (error: any) {
+            addToast(`Could not re-run allocation: ${mapSupabaseError(error)}`, 'error');
+        }
+    };
+
+    const handlePrintReceipt = async (payment: LedgerPayment) => {
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+            addToast('Please allow popups to print receipts.', 'error');
+            return;
+        }
+        const { data: config } = await requireSupabaseClient()
+            .from('school_config')
+            .select('display_name, logo_url')
+            .eq('school_id', userProfile.school_id)
+            .maybeSingle();
+        const currentBalance = invoices
+            .filter(inv => inv.student_id === payment.student_id && inv.status !== 'Void')
+            .reduce((sum, inv) => sum + (inv.total_amount - inv.amount_paid), 0);
+        const receipt = buildPaymentReceipt(payment, payment.student?.name || `Student #${payment.student_id}`, currentBalance);
+        printWindow.document.write(buildReceiptPdfHtml(receipt, { name: config?.display_name || 'School', logo_url: config?.logo_url || undefined }));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+    };
+
+    const renderNextInstallment = (inv: StudentInvoice) => {
+        const installments = [...(inv.installments || [])].sort((a, b) => a.sequence - b.sequence);
+        const next = installments.find(i => i.status !== 'paid');
+        if (!next) return <span className="text-slate-400">-</span>;
+        return (
+            <span className={next.status === 'overdue' ? 'text-red-600 font-semibold' : 'text-slate-600 dark:text-slate-300'}>
+                {next.name} ({next.sequence}/{installments.length}): ₦{(next.amount - next.amount_paid).toLocaleString()} due {new Date(next.due_date).toLocaleDateString()}
+            </span>
+        );
     };
 
     const handleDeleteFee = async (id: number) => {
@@ -522,6 +790,7 @@ const StudentFinanceView: React.FC<{
         // Fetch fee details
         const fees = feeItems.filter(f => feeItemIds.includes(f.id));
         const totalAmount = fees.reduce((sum, f) => sum + f.amount, 0);
+        const schedule = buildInstallmentSchedule(fees, dueDate);
         
         // Generate invoices in loop
         for (const studentId of studentIds) {
@@ -544,50 +813,49 @@ const StudentFinanceView: React.FC<{
                     amount: f.amount
                 }));
                 await supabase.from('invoice_line_items').insert(lines);
+                await supabase.from('invoice_installments').insert(
+                    schedule.map(i => ({ ...i, school_id: userProfile.school_id, invoice_id: invoice.id }))
+                );
             }
         }
         
         // Refresh invoices
-        const { data } = await supabase.from('student_invoices').select('*, student:students(name, admission_number), line_items:invoice_line_items(*)').eq('school_id', userProfile.school_id).order('created_at', { ascending: false });
+        const { data } = await fetchInvoices();
         setInvoices(data || []);
         addToast(`Generated invoices for ${studentIds.length} students.`, 'success');
     };
 
     const handleRecordPayment = async (invoiceId: number, amount: number, method: string, reference: string) => {
-        const supabase = requireSupabaseClient();
         const invoice = invoices.find(i => i.id === invoiceId);
         if (!invoice) return;
-        
-        // Record payment
-        await supabase.from('payments').insert({
-            school_id: userProfile.school_id,
-            invoice_id: invoiceId,
-            amount,
-            payment_method: method,
-            reference,
-            recorded_by: userProfile.id,
-            verified: true 
-        });
 
-        // Update invoice
-        const newPaid = invoice.amount_paid + amount;
-        // Fix: Use enum from types if possible, or string cast
-        let status: any = 'Partially Paid';
-        if (newPaid >= invoice.total_amount) status = 'Paid';
-        
-        await supabase.from('student_invoices').update({
-            amount_paid: newPaid,
-            status
-        }).eq('id', invoiceId);
-        
-        // Refresh
-        const { data: invData } = await supabase.from('student_invoices').select('*, student:students(name, admission_number), line_items:invoice_line_items(*)').eq('school_id', userProfile.school_id).order('created_at', { ascending: false });
-        setInvoices(invData || []);
-        
-        const { data: payData } = await supabase.from('payments').select('*, invoice:student_invoices(invoice_number, student:students(name))').eq('school_id', userProfile.school_id).order('created_at', { ascending: false }).limit(20);
-        setRecentPayments(payData || []);
+        try {
+            const result = await recordStudentPayment(requireSupabaseClient(), {
+                schoolId: userProfile.school_id,
+                studentId: invoice.student_id,
+                invoiceId,
+                amount,
+                method: toLedgerPaymentMethod(method),
+                reference,
+                source: 'manual',
+                meta: { method_label: method },
+            });
 
-        addToast('Payment recorded successfully.', 'success');
+            const [{ data: invData }, { data: payData }] = await Promise.all([
+                fetchInvoices(),
+                fetchRecentPayments(userProfile.school_id),
+            ]);
+            setInvoices(invData || []);
+            setRecentPayments(payData || []);
+
+            if (result.duplicate) {
+                addToast(`A payment with reference ${reference} is already on the ledger.`, 'info');
+            } else {
+                addToast(`Payment recorded. Receipt ${result.receipt_no}.`, 'success');
+            }
+        } catch (error: any) {
+            addToast(`Could not record payment: ${mapSupabaseError(error)}`, 'error');
+        }
     };
 
     const handleImportFees = async (fees: Partial<FeeItem>[]) => {
@@ -635,6 +903,7 @@ const StudentFinanceView: React.FC<{
         }
 
         const defaultTermId = terms[0].id;
+        let paymentErrors = 0;
         
         for (const invData of invoicesData) {
             // Find student by admission number or name
@@ -656,26 +925,77 @@ const StudentFinanceView: React.FC<{
                 term_id: invData.term_id || defaultTermId,
                 invoice_number: invData.invoice_number || `INV-${Date.now()}-${student.id}`,
                 total_amount: Number(invData.total_amount),
-                amount_paid: Number(invData.amount_paid || 0),
                 status: invData.status || 'Unpaid',
                 due_date: invData.due_date,
             };
 
             // Check if invoice with same number exists (update) or create new
             const existing = invoices.find(i => i.invoice_number === invoiceData.invoice_number);
+            let invoiceId = existing?.id;
             if (existing) {
                 await supabase.from('student_invoices').update(invoiceData).eq('id', existing.id);
+                // Keep the schedule adding up to the new total so reminders and statuses follow it
+                const { data: schedule } = await supabase.from('invoice_installments').select('*').eq('invoice_id', existing.id);
+                const resized = deriveInstallmentProgress(
+                    resizeInstallments((schedule || []) as InvoiceInstallment[], invoiceData.total_amount),
+                    existing.amount_paid || 0,
+                    new Date().toISOString().split('T')[0]
+                );
+                for (const installment of resized) {
+                    const current = (schedule || []).find(i => i.id === installment.id);
+                    if (current && (
+                        Number(current.amount) !== installment.amount
+                        || Number(current.amount_paid) !== installment.amount_paid
+                        || current.status !== installment.status
+                    )) {
+                        await supabase.from('invoice_installments')
+                            .update({ amount: installment.amount, amount_paid: installment.amount_paid, status: installment.status })
+                            .eq('id', installment.id);
+                    }
+                }
             } else {
-                await supabase.from('student_invoices').insert(invoiceData);
+                const { data: created } = await supabase.from('student_invoices').insert(invoiceData).select('id').single();
+                invoiceId = created?.id;
+                if (invoiceId) {
+                    await supabase.from('invoice_installments').insert({
+                        school_id: schoolId,
+                        invoice_id: invoiceId,
+                        sequence: 1,
+                        name: 'Full payment',
+                        due_date: invoiceData.due_date || new Date().toISOString().split('T')[0],
+                        amount: invoiceData.total_amount,
+                    });
+                }
+            }
+
+            // amount_paid is derived from the ledger, so money the file says was paid is recorded as a payment
+            const topUp = getImportedPaymentTopUp(invData.amount_paid, existing?.amount_paid || 0);
+            if (invoiceId && topUp > 0) {
+                try {
+                    await recordStudentPayment(supabase, {
+                        schoolId,
+                        studentId: student.id,
+                        invoiceId,
+                        amount: topUp,
+                        method: LedgerPaymentMethod.Offline,
+                        source: 'csv_import',
+                        meta: { invoice_number: invoiceData.invoice_number },
+                    });
+                } catch (error: any) {
+                    paymentErrors++;
+                    console.error('Failed to record imported payment', invoiceData.invoice_number, error);
+                }
             }
         }
 
         // Refresh invoices
-        const { data } = await supabase.from('student_invoices')
-            .select('*, student:students(name, admission_number), line_items:invoice_line_items(*)')
-            .eq('school_id', schoolId)
-            .order('created_at', { ascending: false });
+        const [{ data }, { data: payData }] = await Promise.all([fetchInvoices(), fetchRecentPayments(schoolId)]);
         setInvoices(data || []);
+        setRecentPayments(payData || []);
+
+        if (paymentErrors > 0) {
+            addToast(`${paymentErrors} imported payment(s) could not be recorded on the ledger.`, 'error');
+        }
     };
 
     if (isLoading) return <div className="flex justify-center p-10"><Spinner size="lg" /></div>;
@@ -697,6 +1017,8 @@ const StudentFinanceView: React.FC<{
                 <button onClick={() => setActiveTab('payments')} className={`px-4 py-2 text-sm font-semibold border-b-2 transition-colors whitespace-nowrap ${activeTab === 'payments' ? 'border-blue-600 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Payment History</button>
                 <button onClick={() => setActiveTab('debtors')} className={`px-4 py-2 text-sm font-semibold border-b-2 transition-colors whitespace-nowrap ${activeTab === 'debtors' ? 'border-blue-600 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Debtors List</button>
                 <button onClick={() => setActiveTab('dva')} className={`px-4 py-2 text-sm font-semibold border-b-2 transition-colors whitespace-nowrap ${activeTab === 'dva' ? 'border-blue-600 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Virtual Accounts</button>
+                <button onClick={() => setActiveTab('reconciliation')} className={`px-4 py-2 text-sm font-semibold border-b-2 transition-colors whitespace-nowrap ${activeTab === 'reconciliation' ? 'border-blue-600 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Reconciliation</button>
+                <button onClick={() => setActiveTab('unmatched')} className={`px-4 py-2 text-sm font-semibold border-b-2 transition-colors whitespace-nowrap ${activeTab === 'unmatched' ? 'border-blue-600 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Unmatched Payments</button>
             </div>
 
             {/* Dashboard Tab */}
@@ -861,6 +1183,7 @@ const StudentFinanceView: React.FC<{
                                             <th className="p-3">Student</th>
                                             <th className="p-3">Total</th>
                                             <th className="p-3">Paid</th>
+                                            <th className="p-3">Next Installment</th>
                                             <th className="p-3">Status</th>
                                             <th className="p-3">Action</th>
                                         </tr>
@@ -872,6 +1195,7 @@ const StudentFinanceView: React.FC<{
                                                 <td className="p-3">{inv.student?.name}</td>
                                                 <td className="p-3">₦{inv.total_amount.toLocaleString()}</td>
                                                 <td className="p-3">₦{inv.amount_paid.toLocaleString()}</td>
+                                                <td className="p-3 text-xs">{renderNextInstallment(inv)}</td>
                                                 <td className="p-3">
                                                     <span className={`px-2 py-1 rounded-full text-xs font-bold ${
                                                         inv.status === 'Paid' ? 'bg-green-100 text-green-800' : 
@@ -893,9 +1217,27 @@ const StudentFinanceView: React.FC<{
                 
                 {activeTab === 'fees' && (
                     <div className="lg:col-span-3 space-y-6">
+                        <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                            <p className="text-sm text-blue-800 dark:text-blue-200">
+                                <strong>How it works:</strong> Payments clear the oldest term first, then fee items by bill clearing priority (1 first). An invoice the payer names is always cleared first.
+                            </p>
+                            <button
+                                onClick={() => { if (window.confirm('Re-run payment allocation for all students?')) handleReallocate(); }}
+                                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 whitespace-nowrap"
+                            >
+                                Re-run Allocation
+                            </button>
+                        </div>
                         <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border shadow-sm">
                             <FeeItemManager feeItems={feeItems} classes={classes} terms={terms} onSave={handleSaveFee} onDelete={handleDeleteFee} />
                         </div>
+                        <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border shadow-sm">
+                            <LateFeeRulePanel
+                                schoolId={userProfile.school_id}
+                                addToast={addToast}
+                                onApplied={async () => setInvoices((await fetchInvoices()).data || [])}
+                            />
+                        </div>
                         <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border shadow-sm">
                             <h3 className="text-lg font-bold mb-4">Import / Export</h3>
                             <FeesCsvManager
@@ -925,17 +1267,25 @@ const StudentFinanceView: React.FC<{
                                             <th className="p-3">Amount</th>
                                             <th className="p-3">Method</th>
                                             <th className="p-3">Ref</th>
+                                            <th className="p-3">Receipt</th>
+                                            <th className="p-3">Action</th>
                                         </tr>
                                     </thead>
                                     <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
                                         {recentPayments.map(pay => (
                                             <tr key={pay.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50">
-                                                <td className="p-3">{new Date(pay.payment_date).toLocaleDateString()}</td>
-                                                <td className="p-3">{pay.invoice?.student?.name || 'Unknown'}</td>
-                                                <td className="p-3">{pay.invoice?.invoice_number}</td>
-                                                <td className="p-3 font-bold text-green-600">₦{pay.amount.toLocaleString()}</td>
-                                                <td className="p-3">{pay.payment_method}</td>
-                                                <td className="p-3 text-xs font-mono">{pay.reference}</td>
+                                                <td className="p-3">{new Date(pay.paid_at).toLocaleDateString()}</td>
+                                                <td className="p-3">{pay.student?.name || 'Unknown'}</td>
+                                                <td className="p-3">
+                                                    {pay.allocations && pay.allocations.length > 0
+                                                        ? Array.from(new Set(pay.allocations.map(a => a.invoice?.invoice_number).filter(Boolean))).join(', ')
+                                                        : <span className="text-xs text-slate-500">Credit</span>}
+                                                </td>
+                                                <td className="p-3 font-bold text-green-600">₦{Number(pay.amount).toLocaleString()}</td>
+                                                <td className="p-3">{pay.method}</td>
+                                                <td className="p-3 text-xs font-mono">{pay.payment_ref}</td>
+                                                <td className="p-3 text-xs font-mono">{pay.receipt_no}</td>
+                                                <td className="p-3"><button onClick={() => handlePrintReceipt(pay)} className="text-blue-600 hover:underline text-xs">Print</button></td>
                                             </tr>
                                         ))}
                                     </tbody>
@@ -980,6 +1330,12 @@ const StudentFinanceView: React.FC<{
                                                 >
                                                     View Invoices
                                                 </button>
+                                                <button
+                                                    onClick={() => handleReallocate(debtor.id)}
+                                                    className="ml-3 text-slate-600 hover:underline text-xs"
+                                                >
+                                                    Re-allocate
+                                                </button>
                                             </td>
                                         </tr>
                                     ))}
@@ -995,6 +1351,32 @@ const StudentFinanceView: React.FC<{
                     </div>
                 )}
 
+                {activeTab === 'reconciliation' && (
+                    <div className="lg:col-span-3 bg-white dark:bg-slate-900 p-4 rounded-xl border shadow-sm">
+                        <FeeReconciliationReport schoolId={userProfile.school_id} addToast={addToast} />
+                    </div>
+                )}
+
+                {activeTab === 'unmatched' && (
+                    <div className="lg:col-span-3 bg-white dark:bg-slate-900 p-4 rounded-xl border shadow-sm">
+                        <UnmatchedPaymentsWorkspace
+                            students={propStudents}
+                            invoices={invoices}
+                            schoolId={userProfile.school_id}
+                            userId={userProfile.id}
+                            addToast={addToast}
+                            onPaymentRecorded={async () => {
+                                const [{ data: invData }, { data: payData }] = await Promise.all([
+                                    fetchInvoices(),
+                                    fetchRecentPayments(userProfile.school_id),
+                                ]);
+                                setInvoices(invData || []);
+                                setRecentPayments(payData || []);
+                            }}
+                        />
+                    </div>
+                )}
+
                 {/* DVA Tab */}
                 {activeTab === 'dva' && (
                     <div className="lg:col-span-3 bg-white dark:bg-slate-900 p-4 rounded-xl border shadow-sm">
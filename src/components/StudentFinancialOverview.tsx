@@ -1,6 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { requireSupabaseClient } from '../services/supabaseClient';
-import type { Payment, StudentInvoice, StudentProfile } from '../types';
+import type { LedgerPayment, StudentInvoice, StudentProfile } from '../types';
 import Spinner from './common/Spinner';
 import { BanknotesIcon, ClipboardListIcon, DownloadIcon, FilterIcon, ShieldIcon } from './common/icons';
 import StudentWalletWidget from './StudentWalletWidget';
@@ -16,7 +16,7 @@ const cardBase = 'rounded-2xl border border-slate-200 dark:border-slate-700 bg-w
 
 const StudentFinancialOverview: React.FC<StudentFinancialOverviewProps> = ({ studentProfile, addToast, onNavigate }) => {
   const [invoices, setInvoices] = useState<StudentInvoice[]>([]);
-  const [payments, setPayments] = useState<Payment[]>([]);
+  const [payments, setPayments] = useState<LedgerPayment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [search, setSearch] = useState('');
 
@@ -33,21 +33,17 @@ const StudentFinancialOverview: React.FC<StudentFinancialOverviewProps> = ({ stu
 
         if (error) throw error;
 
-        const invoiceIds = invoiceData?.map((invoice) => invoice.id) || [];
         setInvoices(invoiceData || []);
 
-        if (invoiceIds.length > 0) {
-          const { data: paymentData, error: paymentError } = await supabase
-            .from('payments')
-            .select('*, invoice:student_invoices(invoice_number)')
-            .in('invoice_id', invoiceIds)
-            .order('payment_date', { ascending: false });
+        const { data: paymentData, error: paymentError } = await supabase
+          .from('student_payments')
+          .select('*, allocations:student_payment_allocations(payment_id, invoice_id, allocated_amount, invoice:student_invoices(invoice_number))')
+          .eq('student_id', studentProfile.student_record_id)
+          .eq('status', 'SUCCESS')
+          .order('paid_at', { ascending: false });
 
-          if (paymentError) throw paymentError;
-          setPayments(paymentData || []);
-        } else {
-          setPayments([]);
-        }
+        if (paymentError) throw paymentError;
+        setPayments(paymentData || []);
       } catch (err: any) {
         console.error('Failed to load finance data', err);
         addToast('Unable to load your finance details right now.', 'error');
@@ -74,8 +70,9 @@ const StudentFinancialOverview: React.FC<StudentFinancialOverviewProps> = ({ stu
     const term = search.toLowerCase();
     return payments
       .filter((p) =>
-        (p.reference || '').toLowerCase().includes(term) ||
-        (p.invoice?.invoice_number || '').toLowerCase().includes(term)
+        (p.payment_ref || '').toLowerCase().includes(term) ||
+        (p.receipt_no || '').toLowerCase().includes(term) ||
+        (p.allocations || []).some((a) => (a.invoice?.invoice_number || '').toLowerCase().includes(term))
       )
       .slice(0, 10);
   }, [payments, search]);
@@ -222,12 +219,12 @@ const StudentFinancialOverview: React.FC<StudentFinancialOverviewProps> = ({ stu
                 {filteredPayments.map((payment) => (
                   <div key={payment.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50">
                     <div>
-                      <p className="text-sm font-semibold text-slate-900 dark:text-white">₦{payment.amount.toLocaleString()}</p>
-                      <p className="text-xs text-slate-500">{payment.invoice?.invoice_number || 'Invoice'} • {new Date(payment.payment_date).toLocaleDateString()}</p>
+                      <p className="text-sm font-semibold text-slate-900 dark:text-white">₦{Number(payment.amount).toLocaleString()}</p>
+                      <p className="text-xs text-slate-500">{payment.allocations?.map((a) => a.invoice?.invoice_number).filter(Boolean).join(', ') || 'Account credit'} • {new Date(payment.paid_at).toLocaleDateString()}</p>
                     </div>
                     <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600 dark:text-slate-400">
-                      <span className="px-2 py-1 rounded-full bg-slate-200/80 dark:bg-slate-700/80 text-slate-700 dark:text-slate-200">{payment.payment_method}</span>
-                      {payment.reference && <span className="px-2 py-1 rounded-full bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-200">{payment.reference}</span>}
+                      <span className="px-2 py-1 rounded-full bg-slate-200/80 dark:bg-slate-700/80 text-slate-700 dark:text-slate-200">{payment.method}</span>
+                      {(payment.receipt_no || payment.payment_ref) && <span className="px-2 py-1 rounded-full bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-200">{payment.receipt_no || payment.payment_ref}</span>}
                       <button
                         onClick={() => addToast('Receipt download coming soon', 'info')}
                         className="inline-flex items-center gap-1 text-indigo-600 dark:text-indigo-300 font-semibold"
@@ -9,7 +9,6 @@ import { exportToExcel, type ExcelColumn } from '../utils/excelExport';
 import Pagination from './common/Pagination';
 import { isActiveEmployee } from '../utils/userHelpers';
 import { parseCsv } from '../utils/feesCsvUtils';
-import { generateAdmissionNumber } from '../utils/admissionNumber';
 import { requireSupabaseClient } from '../services/supabaseClient';
 
 interface StudentListViewProps {
@@ -466,19 +465,6 @@ const StudentListView: React.FC<StudentListViewProps> = ({
         throw new Error('User profile not found');
       }
 
-      // Fetch all existing admission numbers for admission number generation
-      const { data: existingStudents, error: fetchError } = await supabase
-        .from('students')
-        .select('admission_number')
-        .eq('school_id', profile.school_id);
-      
-      const existingAdmissionNumbers = existingStudents
-        ? existingStudents.map(s => s.admission_number).filter((num): num is string => !!num)
-        : [];
-      
-      // Track generated numbers in this batch to avoid duplicates
-      const generatedInBatch: string[] = [];
-
       // Process and validate student data
       const studentsToImport: any[] = [];
       const errors: string[] = [];
@@ -519,21 +505,8 @@ const StudentListView: React.FC<StudentListViewProps> = ({
         }
 
         // Extract all fields using flexible matching
-        let admissionNumber = getColumnValue(row, CSV_HEADER_VARIATIONS.admissionNumber);
-        
-        // Generate admission number if not provided and class is available
-        if (!admissionNumber && className) {
-          try {
-            const allExistingNumbers = [...existingAdmissionNumbers, ...generatedInBatch];
-            const generated = generateAdmissionNumber(className, allExistingNumbers);
-            if (generated) {
-              admissionNumber = generated;
-              generatedInBatch.push(generated);
-            }
-          } catch (err) {
-            console.warn(`Row ${rowNum}: Failed to generate admission number:`, err);
-          }
-        }
+        // Left blank, new students get one allocated from their campus template on save
+        const admissionNumber = getColumnValue(row, CSV_HEADER_VARIATIONS.admissionNumber);
         
         const email = getColumnValue(row, CSV_HEADER_VARIATIONS.email);
         const dateOfBirth = getColumnValue(row, CSV_HEADER_VARIATIONS.dob);
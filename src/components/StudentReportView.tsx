@@ -252,12 +252,13 @@ const StudentReportView: React.FC<StudentReportViewProps> = ({ studentId, termId
         recipientPhone: reportDetails.student.parent_phone_number_1,
         templateName: 'report_card_ready',
         variables,
-        studentId: studentId
+        studentId: studentId,
+        attachments: [{ document: 'report_card', id: reportId }]
       });
 
       if (result.success) {
         setSmsSent(true);
-        alert(`Report card notification sent successfully via ${result.channel}!${result.fallback ? ' (fallback to SMS)' : ''}\n\nDownload link: ${downloadLink}`);
+        alert(`Report card notification queued for delivery. Track it in Notification History.\n\nDownload link: ${downloadLink}`);
       } else {
         throw new Error(result.error || 'Failed to send notification');
       }
@@ -20,6 +20,8 @@ import AssessmentStructureManager from './AssessmentStructureManager';
 import EnrollmentSyncTool from './EnrollmentSyncTool';
 import StudentSubjectEnrollmentManager from './admin/StudentSubjectEnrollmentManager';
 import ReportCardAnnouncementsManager from './ReportCardAnnouncementsManager';
+import SessionRolloverModal from './SessionRolloverModal';
+import { RepeatIcon } from './common/icons';
 
 // Props interface for the component
 interface SuperAdminConsoleProps {
@@ -179,6 +181,7 @@ const SuperAdminConsole: React.FC<SuperAdminConsoleProps> = (props) => {
 
     const [activeTab, setActiveTab] = useState<AdminTab>(visibleTabs[0]?.name || 'Branding');
     const [structureSubTab, setStructureSubTab] = useState<StructureSubTab>('assessment');
+    const [isRolloverOpen, setIsRolloverOpen] = useState(false);
 
     const structureSubTabs: { id: StructureSubTab; label: string }[] = [
         { id: 'assessment' as const, label: 'Assessment Templates' },
@@ -247,7 +250,28 @@ const SuperAdminConsole: React.FC<SuperAdminConsoleProps> = (props) => {
                                 />
                             )}
                             {structureSubTab === 'terms' && (
-                                <TermsManager terms={terms} onSave={onSaveTerm} onDelete={onDeleteTerm} />
+                                <div className="space-y-4">
+                                    <div className="flex justify-end">
+                                        <button
+                                            onClick={() => setIsRolloverOpen(true)}
+                                            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700"
+                                        >
+                                            <RepeatIcon className="w-4 h-4" />
+                                            Session Rollover
+                                        </button>
+                                    </div>
+                                    <TermsManager terms={terms} onSave={onSaveTerm} onDelete={onDeleteTerm} />
+                                    {isRolloverOpen && (
+                                        <SessionRolloverModal
+                                            isOpen={isRolloverOpen}
+                                            onClose={() => setIsRolloverOpen(false)}
+                                            terms={terms}
+                                            nextLevels={schoolConfig?.promotion_rules?.next_levels}
+                                            onSuccess={onRefreshData}
+                                            addToast={addToast}
+                                        />
+                                    )}
+                                </div>
                             )}
                             {structureSubTab === 'classes' && (
                                 <AcademicClassManager 
@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import type { AcademicClass, AcademicTeachingAssignment, Subject, TimetableEntry, TimetableLocation, TimetablePeriod, UserProfile } from '../types';
+import Spinner from './common/Spinner';
+import { WandIcon, CheckCircleIcon, TrashIcon, ExclamationTriangleIcon } from './common/icons';
+import { mapSupabaseError } from '../utils/errorHandling';
+import { generateTimetableDraft, type GeneratedTimetableDraft } from '../services/timetableGenerator';
+import type { TeacherAvailabilityMap } from '../services/teacherAvailability';
+
+interface TimetableGeneratorPanelProps {
+    schoolId: number;
+    termId: number;
+    periods: TimetablePeriod[];
+    subjects: Subject[];
+    academicClasses: AcademicClass[];
+    locations: TimetableLocation[];
+    users: UserProfile[];
+    existingEntries: TimetableEntry[];
+    teacherAvailability?: TeacherAvailabilityMap;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+    onAccepted: () => Promise<void>;
+}
+
+const DEFAULT_PERIODS_PER_WEEK = 4;
+
+const TimetableGeneratorPanel: React.FC<TimetableGeneratorPanelProps> = ({
+    schoolId,
+    termId,
+    periods,
+    subjects,
+    academicClasses,
+    locations,
+    users,
+    existingEntries,
+    teacherAvailability,
+    addToast,
+    onAccepted,
+}) => {
+    const [assignments, setAssignments] = useState<AcademicTeachingAssignment[]>([]);
+    const [classSizes, setClassSizes] = useState<Record<number, number>>({});
+    const [periodsPerWeek, setPeriodsPerWeek] = useState<Record<number, number>>({});
+    const [draft, setDraft] = useState<GeneratedTimetableDraft | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            setDraft(null);
+            const supabase = requireSupabaseClient();
+            const { data, error } = await supabase
+                .from('teaching_assignments')
+                .select('*')
+                .eq('term_id', termId);
+
+            if (error) {
+                addToast(mapSupabaseError(error), 'error');
+                setIsLoading(false);
+                return;
+            }
+            const termAssignments = (data || []) as AcademicTeachingAssignment[];
+            setAssignments(termAssignments);
+
+            const classIds = [...new Set(termAssignments.map((a) => a.academic_class_id))];
+            if (classIds.length > 0) {
+                const { data: enrolments } = await supabase
+                    .from('academic_class_students')
+                    .select('academic_class_id')
+                    .in('academic_class_id', classIds)
+                    .eq('enrolled_term_id', termId);
+                const sizes: Record<number, number> = {};
+                (enrolments || []).forEach((row: { academic_class_id: number }) => {
+                    sizes[row.academic_class_id] = (sizes[row.academic_class_id] || 0) + 1;
+                });
+                setClassSizes(sizes);
+            }
+            setIsLoading(false);
+        };
+        load();
+    }, [termId]);
+
+    // Subjects that actually appear in this term's assignments
+    const assignedSubjects = useMemo(() => {
+        const names = new Set(assignments.map((a) => (a.subject_name || '').trim().toLowerCase()));
+        return subjects.filter((s) => names.has(s.name.trim().toLowerCase()));
+    }, [assignments, subjects]);
+
+    const getTarget = (subjectId: number) => periodsPerWeek[subjectId] ?? DEFAULT_PERIODS_PER_WEEK;
+
+    const handleGenerate = () => {
+        const targets: Record<number, number> = {};
+        assignedSubjects.forEach((s) => { targets[s.id] = getTarget(s.id); });
+        const result = generateTimetableDraft({
+            assignments,
+            periods,
+            subjects,
+            academicClasses,
+            locations,
+            existingEntries,
+            periodsPerWeek: targets,
+            classSizes,
+            teacherAvailability,
+        });
+        setDraft(result);
+        if (result.unplaced.length === 0) {
+            addToast(`Draft ready: ${result.entries.length} lessons placed without conflicts.`, 'success');
+        } else {
+            addToast(`Draft ready with ${result.unplaced.length} assignment(s) not fully placed.`, 'info');
+        }
+    };
+
+    const handleAccept = async () => {
+        if (!draft || draft.entries.length === 0) return;
+        if (!window.confirm(`Add ${draft.entries.length} generated lessons to the timetable?`)) return;
+        setIsSaving(true);
+        const supabase = requireSupabaseClient();
+        const payload = draft.entries.map((entry) => ({ ...entry, school_id: schoolId, term_id: termId }));
+        const { error } = await supabase.from('timetable_entries').insert(payload);
+        setIsSaving(false);
+        if (error) {
+            addToast(mapSupabaseError(error), 'error');
+            return;
+        }
+        addToast('Generated timetable saved', 'success');
+        setDraft(null);
+        await onAccepted();
+    };
+
+    const className = (id: number) => academicClasses.find((c) => c.id === id)?.name || `Class #${id}`;
+    const teacherName = (id: string) => users.find((u) => u.id === id)?.name || 'Unknown teacher';
+    const subjectName = (id: number) => subjects.find((s) => s.id === id)?.name || 'Subject';
+    const periodName = (id: number) => periods.find((p) => p.id === id)?.name || 'Period';
+    const locationName = (id?: number | null) => (id ? locations.find((l) => l.id === id)?.name : null);
+
+    if (isLoading) {
+        return <div className="flex justify-center py-10"><Spinner size="lg" /></div>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm text-blue-800 dark:text-blue-200 border border-blue-200 dark:border-blue-800">
+                <strong>How it works:</strong> Set how many lessons each subject needs per week, then generate a draft from this term's {assignments.length} teaching assignments. Existing timetable entries are kept; nothing is saved until you accept the draft.
+            </div>
+
+            {assignedSubjects.length === 0 ? (
+                <div className="p-8 text-center text-slate-500 bg-slate-100 dark:bg-slate-800 rounded-xl">
+                    No teaching assignments found for this term.
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    <h3 className="text-lg font-semibold">Lessons per week</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {assignedSubjects.map((subject) => (
+                            <label key={subject.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg bg-white dark:bg-slate-900">
+                                <span className="text-sm font-medium">{subject.name}</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={periods.length * 5}
+                                    value={getTarget(subject.id)}
+                                    onChange={(e) => setPeriodsPerWeek({ ...periodsPerWeek, [subject.id]: Math.max(0, Number(e.target.value)) })}
+                                    className="w-20 p-1.5 border rounded-md text-right"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={handleGenerate} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+                            <WandIcon className="w-4 h-4" /> Generate Draft
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {draft && (
+                <div className="space-y-4">
+                    <div className="flex flex-wrap justify-between items-center gap-3">
+                        <h3 className="text-lg font-semibold">
+                            Draft: {draft.entries.length} lessons placed
+                        </h3>
+                        <div className="flex gap-2">
+                            <button onClick={() => setDraft(null)} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-slate-200 dark:bg-slate-700 rounded-md">
+                                <TrashIcon className="w-4 h-4" /> Discard
+                            </button>
+                            <button onClick={handleAccept} disabled={isSaving || draft.entries.length === 0} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-green-600 text-white rounded-md disabled:opacity-50">
+                                {isSaving ? <Spinner size="sm" /> : <CheckCircleIcon className="w-4 h-4" />} Accept Draft
+                            </button>
+                        </div>
+                    </div>
+
+                    {draft.unplaced.length > 0 && (
+                        <div className="p-4 border border-amber-200 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-800 rounded-lg space-y-2">
+                            <p className="font-semibold text-amber-800 dark:text-amber-200 flex items-center gap-2">
+                                <ExclamationTriangleIcon className="w-5 h-5" /> Could not place
+                            </p>
+                            <ul className="text-sm space-y-1 text-amber-900 dark:text-amber-100">
+                                {draft.unplaced.map((item) => (
+                                    <li key={item.assignment.id}>
+                                        <strong>{item.assignment.subject_name}</strong> · {className(item.assignment.academic_class_id)} · {teacherName(item.assignment.teacher_user_id)}
+                                        {item.requested > 0 && <> — {item.placed}/{item.requested} placed</>}: {item.reason}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700 max-h-96">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-100 dark:bg-slate-800 sticky top-0">
+                                <tr>
+                                    <th className="p-2 text-left">Day</th>
+                                    <th className="p-2 text-left">Period</th>
+                                    <th className="p-2 text-left">Class</th>
+                                    <th className="p-2 text-left">Subject</th>
+                                    <th className="p-2 text-left">Teacher</th>
+                                    <th className="p-2 text-left">Location</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {draft.entries.map((entry, index) => (
+                                    <tr key={index} className="bg-white dark:bg-slate-900">
+                                        <td className="p-2">{entry.day_of_week}</td>
+                                        <td className="p-2">{periodName(entry.period_id)}</td>
+                                        <td className="p-2">{className(entry.academic_class_id)}</td>
+                                        <td className="p-2">{subjectName(entry.subject_id)}</td>
+                                        <td className="p-2">{teacherName(entry.teacher_id)}</td>
+                                        <td className="p-2 text-slate-500">{locationName(entry.location_id) || '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TimetableGeneratorPanel;
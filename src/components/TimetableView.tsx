@@ -1,13 +1,17 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { requireSupabaseClient } from '../services/supabaseClient';
-import type { TimetablePeriod, TimetableEntry, TimetableLocation, UserProfile, AcademicClass, Subject, Term, Campus } from '../types';
+import type { TimetablePeriod, TimetableEntry, TimetableLocation, UserProfile, AcademicClass, Subject, Term, Campus, TeacherShift, LeaveRequest, TeacherTimetableConstraint, TeacherUnavailableSlot } from '../types';
 import Spinner from './common/Spinner';
 import { PlusCircleIcon, TrashIcon, EditIcon, ClockIcon, CheckCircleIcon, MapPinIcon } from './common/icons';
 import SearchableSelect from './common/SearchableSelect';
 import { mapSupabaseError } from '../utils/errorHandling';
 import { isActiveEmployee } from '../utils/userHelpers';
 import { applySchedulingRules, type TimetableCandidate } from '../services/timetableScheduler';
+import { buildTeacherAvailability, computeTeacherLoad, type TeacherAvailabilityMap } from '../services/teacherAvailability';
+import TimetableGeneratorPanel from './TimetableGeneratorPanel';
+import CoverManagementPanel from './CoverManagementPanel';
+import ExamPlannerPanel from './ExamPlannerPanel';
 
 interface TimetableViewProps {
     userProfile?: UserProfile;
@@ -16,6 +20,8 @@ interface TimetableViewProps {
     academicClasses?: AcademicClass[];
     subjects?: Subject[];
     campuses?: Campus[];
+    teacherShifts?: TeacherShift[];
+    leaveRequests?: LeaveRequest[];
     addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
     studentViewClassId?: number; // For Student Portal Read-only View
 }
@@ -219,6 +225,197 @@ const LocationManager: React.FC<{
     );
 };
 
+// --- Teacher Constraint Manager (Admin Only) ---
+const TeacherConstraintManager: React.FC<{
+    teachers: UserProfile[];
+    periods: TimetablePeriod[];
+    constraints: TeacherTimetableConstraint[];
+    onSave: (constraint: Partial<TeacherTimetableConstraint>) => Promise<void>;
+}> = ({ teachers, periods, constraints, onSave }) => {
+    const [teacherId, setTeacherId] = useState<string>('');
+    const [slots, setSlots] = useState<TeacherUnavailableSlot[]>([]);
+    const [maxConsecutive, setMaxConsecutive] = useState<number | ''>('');
+    const [maxPerDay, setMaxPerDay] = useState<number | ''>('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const lessonPeriods = useMemo(() => periods.filter(p => p.type === 'lesson').sort((a, b) => a.start_time.localeCompare(b.start_time)), [periods]);
+    const existing = constraints.find(c => c.teacher_id === teacherId);
+
+    useEffect(() => {
+        setSlots(existing?.unavailable_slots || []);
+        setMaxConsecutive(existing?.max_consecutive_periods ?? '');
+        setMaxPerDay(existing?.max_periods_per_day ?? '');
+    }, [teacherId, existing]);
+
+    const isBlocked = (day: string, periodId: number | null) =>
+        slots.some(s => s.day_of_week === day && (periodId === null ? s.period_id == null : (s.period_id == null || s.period_id === periodId)));
+
+    const toggleSlot = (day: string, periodId: number | null) => {
+        if (periodId === null) {
+            setSlots(prev => isBlocked(day, null)
+                ? prev.filter(s => s.day_of_week !== day)
+                : [...prev.filter(s => s.day_of_week !== day), { day_of_week: day, period_id: null }]);
+            return;
+        }
+        if (isBlocked(day, null)) return;
+        setSlots(prev => isBlocked(day, periodId)
+            ? prev.filter(s => !(s.day_of_week === day && s.period_id === periodId))
+            : [...prev, { day_of_week: day, period_id: periodId }]);
+    };
+
+    const handleSave = async () => {
+        if (!teacherId) return;
+        setIsSaving(true);
+        await onSave({
+            id: existing?.id,
+            teacher_id: teacherId,
+            unavailable_slots: slots,
+            max_consecutive_periods: maxConsecutive === '' ? null : maxConsecutive,
+            max_periods_per_day: maxPerDay === '' ? null : maxPerDay,
+        });
+        setIsSaving(false);
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-lg font-semibold">Teacher Availability & Limits</h3>
+            <p className="text-sm text-slate-500">Blocked slots and limits are enforced whenever a slot is assigned or a timetable is generated. Shift patterns and long approved leave are applied automatically.</p>
+            <div className="max-w-md">
+                <SearchableSelect
+                    options={teachers.map(u => ({ value: u.id, label: u.name }))}
+                    value={teacherId}
+                    onChange={(val) => setTeacherId(String(val))}
+                    placeholder="Select Teacher..."
+                />
+            </div>
+
+            {teacherId && (
+                <div className="space-y-4 animate-fade-in">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-xl">
+                        <label className="text-sm">
+                            <span className="block text-xs font-semibold text-slate-500 mb-1">Max periods per day</span>
+                            <input type="number" min={1} value={maxPerDay} onChange={e => setMaxPerDay(e.target.value ? Number(e.target.value) : '')} placeholder="No limit" className="w-full p-2 border rounded-md" />
+                        </label>
+                        <label className="text-sm">
+                            <span className="block text-xs font-semibold text-slate-500 mb-1">Max consecutive periods</span>
+                            <input type="number" min={1} value={maxConsecutive} onChange={e => setMaxConsecutive(e.target.value ? Number(e.target.value) : '')} placeholder="No limit" className="w-full p-2 border rounded-md" />
+                        </label>
+                    </div>
+
+                    <div className="overflow-x-auto rounded-lg border border-slate-200 dark:border-slate-700">
+                        <table className="w-full text-xs border-collapse">
+                            <thead>
+                                <tr className="bg-slate-100 dark:bg-slate-800">
+                                    <th className="p-2 border border-slate-200 dark:border-slate-700 text-left">Period</th>
+                                    {DAYS_OF_WEEK.map(day => (
+                                        <th key={day} className="p-2 border border-slate-200 dark:border-slate-700">
+                                            <button type="button" onClick={() => toggleSlot(day, null)} className={`px-2 py-0.5 rounded ${isBlocked(day, null) ? 'bg-red-600 text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}>
+                                                {day}
+                                            </button>
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {lessonPeriods.map(period => (
+                                    <tr key={period.id}>
+                                        <td className="p-2 border border-slate-200 dark:border-slate-700 font-medium">{period.name}</td>
+                                        {DAYS_OF_WEEK.map(day => {
+                                            const blocked = isBlocked(day, period.id);
+                                            return (
+                                                <td key={day} onClick={() => toggleSlot(day, period.id)} className={`p-2 border border-slate-200 dark:border-slate-700 text-center cursor-pointer ${blocked ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'hover:bg-slate-50 dark:hover:bg-slate-800'}`}>
+                                                    {blocked ? 'Unavailable' : ''}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="text-xs text-slate-500">Click a day heading to block the whole day, or a cell to block a single period.</p>
+                    <div className="flex justify-end">
+                        <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md flex items-center gap-2 disabled:opacity-50">
+                            {isSaving && <Spinner size="sm"/>} Save Constraints
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- Teacher Workload Heat Map ---
+const TeacherWorkloadHeatmap: React.FC<{
+    entries: TimetableEntry[];
+    teachers: UserProfile[];
+    periods: TimetablePeriod[];
+    teacherAvailability: TeacherAvailabilityMap;
+}> = ({ entries, teachers, periods, teacherAvailability }) => {
+    const load = useMemo(() => computeTeacherLoad(entries), [entries]);
+    const lessonCount = periods.filter(p => p.type === 'lesson').length || 1;
+
+    const rows = useMemo(() => teachers
+        .map(t => {
+            const days = load[t.id] || {};
+            const total = DAYS_OF_WEEK.reduce((sum, d) => sum + (days[d] || 0), 0);
+            return { teacher: t, days, total };
+        })
+        .filter(r => r.total > 0 || teacherAvailability[r.teacher.id])
+        .sort((a, b) => b.total - a.total), [teachers, load, teacherAvailability]);
+
+    const cellColor = (count: number, max: number) => {
+        const ratio = count / max;
+        if (count === 0) return 'bg-slate-50 dark:bg-slate-800/40 text-slate-400';
+        if (ratio >= 1) return 'bg-red-500 text-white';
+        if (ratio >= 0.75) return 'bg-orange-400 text-white';
+        if (ratio >= 0.5) return 'bg-yellow-300 text-slate-900';
+        return 'bg-green-200 text-slate-900';
+    };
+
+    if (rows.length === 0) {
+        return <div className="p-12 text-center text-slate-500 border-2 border-dashed rounded-xl">No lessons scheduled for this term yet.</div>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-3 text-xs text-slate-600 dark:text-slate-300">
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-200"></span> Light</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-yellow-300"></span> Moderate</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-orange-400"></span> Heavy</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-500"></span> At limit</span>
+            </div>
+            <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+                <table className="w-full text-sm border-collapse">
+                    <thead>
+                        <tr className="bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300">
+                            <th className="p-2 border border-slate-200 dark:border-slate-700 text-left">Teacher</th>
+                            {DAYS_OF_WEEK.map(day => <th key={day} className="p-2 border border-slate-200 dark:border-slate-700">{day.slice(0, 3)}</th>)}
+                            <th className="p-2 border border-slate-200 dark:border-slate-700">Week</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(({ teacher, days, total }) => {
+                            const dailyMax = teacherAvailability[teacher.id]?.maxPeriodsPerDay || lessonCount;
+                            return (
+                                <tr key={teacher.id}>
+                                    <td className="p-2 border border-slate-200 dark:border-slate-700 font-medium">{teacher.name}</td>
+                                    {DAYS_OF_WEEK.map(day => (
+                                        <td key={day} className={`p-2 border border-slate-200 dark:border-slate-700 text-center font-semibold ${cellColor(days[day] || 0, dailyMax)}`}>
+                                            {days[day] || 0}
+                                        </td>
+                                    ))}
+                                    <td className="p-2 border border-slate-200 dark:border-slate-700 text-center font-bold">{total}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
 // --- Entry Modal ---
 interface EntryModalProps {
     isOpen: boolean;
@@ -234,9 +431,11 @@ interface EntryModalProps {
     initialData?: TimetableEntry | null;
     fixedTeacherId?: string; // If user is a teacher editing their own
     existingEntries: TimetableEntry[]; // For conflict detection
+    periods: TimetablePeriod[];
+    teacherAvailability: TeacherAvailabilityMap;
 }
 
-const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, onDelete, day, period, academicClasses, subjects, users, locations, initialData, fixedTeacherId, existingEntries }) => {
+const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, onDelete, day, period, academicClasses, subjects, users, locations, initialData, fixedTeacherId, existingEntries, periods, teacherAvailability }) => {
     const [classId, setClassId] = useState<number | ''>(initialData?.academic_class_id || '');
     const [subjectId, setSubjectId] = useState<number | ''>(initialData?.subject_id || '');
     const [teacherId, setTeacherId] = useState<string>(initialData?.teacher_id || fixedTeacherId || '');
@@ -260,12 +459,14 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, onDele
                     location_id: locationId ? Number(locationId) : undefined,
                 },
                 subjects,
+                teacherAvailability,
+                periods,
             });
             setConflict(validation.error || null);
         } else {
             setConflict(null);
         }
-    }, [classId, teacherId, locationId, day, period, existingEntries, initialData, isOpen, subjects, subjectId, room]);
+    }, [classId, teacherId, locationId, day, period, existingEntries, initialData, isOpen, subjects, subjectId, room, teacherAvailability, periods]);
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -495,12 +696,13 @@ const TimetableGrid: React.FC<{
 }
 
 // --- Main Component ---
-const TimetableView: React.FC<TimetableViewProps> = ({ userProfile, users = [], terms = [], academicClasses = [], subjects = [], campuses = [], addToast, studentViewClassId }) => {
-    const [activeTab, setActiveTab] = useState<'my_timetable' | 'master' | 'config'>('my_timetable');
-    const [configSubTab, setConfigSubTab] = useState<'periods' | 'locations'>('periods');
+const TimetableView: React.FC<TimetableViewProps> = ({ userProfile, users = [], terms = [], academicClasses = [], subjects = [], campuses = [], teacherShifts = [], leaveRequests = [], addToast, studentViewClassId }) => {
+    const [activeTab, setActiveTab] = useState<'my_timetable' | 'master' | 'cover' | 'workload' | 'generate' | 'exams' | 'config'>('my_timetable');
+    const [configSubTab, setConfigSubTab] = useState<'periods' | 'locations' | 'constraints'>('periods');
     const [periods, setPeriods] = useState<TimetablePeriod[]>([]);
     const [entries, setEntries] = useState<TimetableEntry[]>([]);
     const [locations, setLocations] = useState<TimetableLocation[]>([]);
+    const [teacherConstraints, setTeacherConstraints] = useState<TeacherTimetableConstraint[]>([]);
     const [selectedTermId, setSelectedTermId] = useState<number | ''>('');
     const [isLoading, setIsLoading] = useState(true);
     const [localTerms, setLocalTerms] = useState<Term[]>(terms); // Local state for terms if props empty
@@ -584,21 +786,40 @@ const TimetableView: React.FC<TimetableViewProps> = ({ userProfile, users = [],
             setIsLoading(true);
             const supabase = requireSupabaseClient();
             
-            const [pRes, entriesData, lRes] = await Promise.all([
+            const [pRes, entriesData, lRes, cRes] = await Promise.all([
                 supabase.from('timetable_periods').select('*'),
                 selectedTermId ? fetchTimetableEntries(selectedTermId) : Promise.resolve([]),
-                supabase.from('timetable_locations').select('*, campus:campuses(name)')
+                supabase.from('timetable_locations').select('*, campus:campuses(name)'),
+                supabase.from('teacher_timetable_constraints').select('*')
             ]);
             
             if (pRes.data) setPeriods(pRes.data);
             setEntries(entriesData);
             if (lRes.data) setLocations(lRes.data);
+            if (cRes.data) setTeacherConstraints(cRes.data);
             setIsLoading(false);
         };
         
         if (selectedTermId) loadData();
     }, [selectedTermId]);
 
+    const teachingStaff = useMemo(
+        () => users.filter(u => (u.role === 'Teacher' || u.role === 'Team Lead') && isActiveEmployee(u)),
+        [users]
+    );
+
+    const teacherAvailability = useMemo(() => {
+        const term = localTerms.find(t => t.id === selectedTermId);
+        return buildTeacherAvailability({
+            constraints: teacherConstraints,
+            shifts: teacherShifts,
+            leaveRequests,
+            periods,
+            days: DAYS_OF_WEEK,
+            range: term ? { start_date: term.start_date, end_date: term.end_date } : null,
+        });
+    }, [teacherConstraints, teacherShifts, leaveRequests, periods, localTerms, selectedTermId]);
+
     // Period Management Handlers
     const handleSavePeriod = async (period: Partial<TimetablePeriod>) => {
         if (!userProfile) return;
@@ -651,6 +872,28 @@ const TimetableView: React.FC<TimetableViewProps> = ({ userProfile, users = [],
         }
     };
 
+    // Teacher Constraint Handlers
+    const handleSaveConstraint = async (constraint: Partial<TeacherTimetableConstraint>) => {
+        if (!userProfile) return;
+        const supabase = requireSupabaseClient();
+        const payload = {
+            teacher_id: constraint.teacher_id,
+            unavailable_slots: constraint.unavailable_slots || [],
+            max_consecutive_periods: constraint.max_consecutive_periods ?? null,
+            max_periods_per_day: constraint.max_periods_per_day ?? null,
+            school_id: userProfile.school_id,
+            updated_at: new Date().toISOString(),
+        };
+        const { error } = await supabase.from('teacher_timetable_constraints').upsert(payload, { onConflict: 'teacher_id' });
+        if (error) {
+            addToast(mapSupabaseError(error), 'error');
+            return;
+        }
+        const { data } = await supabase.from('teacher_timetable_constraints').select('*');
+        if (data) setTeacherConstraints(data);
+        addToast('Teacher constraints saved', 'success');
+    };
+
     // Entry Handlers
     const handleSaveEntry = async (entry: Partial<TimetableEntry>) => {
         if (!userProfile && !isStudent) return; // Guard for no profile unless student view (but student view is read only)
@@ -671,6 +914,8 @@ const TimetableView: React.FC<TimetableViewProps> = ({ userProfile, users = [],
             existingEntries: entries,
             candidateEntry: candidate,
             subjects: subjects as Subject[],
+            teacherAvailability,
+            periods,
         });
 
         if (decision.error) {
@@ -797,6 +1042,10 @@ const TimetableView: React.FC<TimetableViewProps> = ({ userProfile, users = [],
                 <nav className="-mb-px flex space-x-6">
                     <button onClick={() => setActiveTab('my_timetable')} className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === 'my_timetable' ? 'border-blue-500 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>My Timetable</button>
                     {isAdmin && <button onClick={() => setActiveTab('master')} className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === 'master' ? 'border-blue-500 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Master Schedule</button>}
+                    {isAdmin && <button onClick={() => setActiveTab('cover')} className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === 'cover' ? 'border-blue-500 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Cover</button>}
+                    {isAdmin && <button onClick={() => setActiveTab('workload')} className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === 'workload' ? 'border-blue-500 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Workload</button>}
+                    {isAdmin && <button onClick={() => setActiveTab('generate')} className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === 'generate' ? 'border-blue-500 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Auto-Generate</button>}
+                    {isAdmin && <button onClick={() => setActiveTab('exams')} className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === 'exams' ? 'border-blue-500 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Exams</button>}
                     {isAdmin && <button onClick={() => setActiveTab('config')} className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === 'config' ? 'border-blue-500 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>Configuration</button>}
                 </nav>
             </div>
@@ -820,6 +1069,12 @@ const TimetableView: React.FC<TimetableViewProps> = ({ userProfile, users = [],
                             <MapPinIcon className="w-4 h-4" />
                             Locations
                         </button>
+                        <button 
+                            onClick={() => setConfigSubTab('constraints')} 
+                            className={`px-4 py-2 text-sm rounded-lg font-medium transition-colors ${configSubTab === 'constraints' ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200'}`}
+                        >
+                            Teacher Constraints
+                        </button>
                     </div>
                     
                     {configSubTab === 'periods' && (
@@ -834,9 +1089,40 @@ const TimetableView: React.FC<TimetableViewProps> = ({ userProfile, users = [],
                             onDelete={handleDeleteLocation} 
                         />
                     )}
+
+                    {configSubTab === 'constraints' && (
+                        <TeacherConstraintManager
+                            teachers={teachingStaff}
+                            periods={periods}
+                            constraints={teacherConstraints}
+                            onSave={handleSaveConstraint}
+                        />
+                    )}
                 </div>
             )}
 
+            {!isLoading && activeTab === 'cover' && selectedTermId && (
+                <CoverManagementPanel
+                    userProfile={userProfile}
+                    termId={selectedTermId}
+                    entries={entries}
+                    periods={periods}
+                    teachers={teachingStaff}
+                    leaveRequests={leaveRequests}
+                    teacherAvailability={teacherAvailability}
+                    addToast={addToast}
+                />
+            )}
+
+            {!isLoading && activeTab === 'workload' && (
+                <TeacherWorkloadHeatmap
+                    entries={entries}
+                    teachers={teachingStaff}
+                    periods={periods}
+                    teacherAvailability={teacherAvailability}
+                />
+            )}
+
             {!isLoading && activeTab === 'my_timetable' && (
                 <div className="space-y-4">
                      <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm text-blue-800 dark:text-blue-200 border border-blue-200 dark:border-blue-800">
@@ -887,6 +1173,34 @@ const TimetableView: React.FC<TimetableViewProps> = ({ userProfile, users = [],
                 </div>
             )}
 
+            {!isLoading && activeTab === 'generate' && selectedTermId && (
+                <TimetableGeneratorPanel
+                    schoolId={userProfile.school_id}
+                    termId={selectedTermId}
+                    periods={periods}
+                    subjects={subjects}
+                    academicClasses={academicClasses}
+                    locations={locations}
+                    users={users}
+                    existingEntries={entries}
+                    teacherAvailability={teacherAvailability}
+                    addToast={addToast}
+                    onAccepted={async () => setEntries(await fetchTimetableEntries(selectedTermId))}
+                />
+            )}
+
+            {!isLoading && activeTab === 'exams' && selectedTermId && (
+                <ExamPlannerPanel
+                    userProfile={userProfile}
+                    termId={selectedTermId}
+                    subjects={subjects}
+                    academicClasses={academicClasses}
+                    locations={locations}
+                    invigilators={teachingStaff}
+                    addToast={addToast}
+                />
+            )}
+
             {entryModalOpen && selectedSlot && (
                 <EntryModal 
                     isOpen={entryModalOpen}
@@ -902,6 +1216,8 @@ const TimetableView: React.FC<TimetableViewProps> = ({ userProfile, users = [],
                     locations={locations}
                     fixedTeacherId={activeTab === 'my_timetable' ? userProfile.id : undefined}
                     existingEntries={entries}
+                    periods={periods}
+                    teacherAvailability={teacherAvailability}
                 />
             )}
         </div>
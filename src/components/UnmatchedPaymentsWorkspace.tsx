@@ -0,0 +1,451 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import type { Student, StudentInvoice, DedicatedVirtualAccount, UnmatchedPayment, UnmatchedPaymentStatus, PaystackWebhookEvent } from '../types';
+import Spinner from './common/Spinner';
+import { suggestStudentMatches, assignUnmatchedPayment, dismissUnmatchedPayment, replayWebhookEvent, type MatchCandidate } from '../services/unmatchedPayments';
+import { mapSupabaseError } from '../utils/errorHandling';
+import BankStatementImport from './BankStatementImport';
+
+interface UnmatchedPaymentsWorkspaceProps {
+    students: Student[];
+    invoices: StudentInvoice[];
+    schoolId: number;
+    userId: string;
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+    onPaymentRecorded: () => void;
+}
+
+const REPLAY_MESSAGES: Record<string, string> = {
+    recorded: 'Payment recorded on the ledger.',
+    duplicate: 'This payment is already on the ledger.',
+    unmatched: 'Still no matching student; the credit is in the unmatched queue.',
+    ignored: 'This event does not carry a payment.',
+};
+
+const UnmatchedPaymentsWorkspace: React.FC<UnmatchedPaymentsWorkspaceProps> = ({
+    students,
+    invoices,
+    schoolId,
+    userId,
+    addToast,
+    onPaymentRecorded,
+}) => {
+    const [view, setView] = useState<'unmatched' | 'statement' | 'webhooks'>('unmatched');
+    const [payments, setPayments] = useState<UnmatchedPayment[]>([]);
+    const [events, setEvents] = useState<PaystackWebhookEvent[]>([]);
+    const [accounts, setAccounts] = useState<DedicatedVirtualAccount[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<UnmatchedPaymentStatus>('open');
+    const [eventFilter, setEventFilter] = useState<'all' | 'unprocessed'>('unprocessed');
+
+    // Assignment panel
+    const [assigningId, setAssigningId] = useState<number | null>(null);
+    const [studentSearch, setStudentSearch] = useState('');
+    const [assignStudentId, setAssignStudentId] = useState<number | null>(null);
+    const [assignInvoiceId, setAssignInvoiceId] = useState<number | null>(null);
+    const [assignNotes, setAssignNotes] = useState('');
+    const [busyId, setBusyId] = useState<number | null>(null);
+    const [inspectingId, setInspectingId] = useState<number | null>(null);
+
+    useEffect(() => {
+        loadData();
+    }, [schoolId, statusFilter, eventFilter]);
+
+    const loadData = async () => {
+        setLoading(true);
+        const supabase = requireSupabaseClient();
+        try {
+            let eventsQuery = supabase
+                .from('webhook_events')
+                .select('id, event_type, payload, processed, processed_at, error_message, replay_count, last_replayed_at, created_at')
+                .order('created_at', { ascending: false })
+                .limit(100);
+            if (eventFilter === 'unprocessed') eventsQuery = eventsQuery.eq('processed', false);
+
+            const [paymentsRes, eventsRes, accountsRes] = await Promise.all([
+                supabase
+                    .from('unmatched_payments')
+                    .select('*, matched_student:students!matched_student_id(name, admission_number)')
+                    .eq('status', statusFilter)
+                    .order('created_at', { ascending: false }),
+                eventsQuery,
+                supabase
+                    .from('dedicated_virtual_accounts')
+                    .select('student_id, account_number, account_name')
+                    .eq('school_id', schoolId),
+            ]);
+
+            if (paymentsRes.error) throw paymentsRes.error;
+            if (eventsRes.error) throw eventsRes.error;
+            setPayments(paymentsRes.data || []);
+            setEvents(eventsRes.data || []);
+            setAccounts((accountsRes.data || []) as DedicatedVirtualAccount[]);
+        } catch (error: any) {
+            addToast(`Could not load unmatched payments: ${mapSupabaseError(error)}`, 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const candidates = useMemo<MatchCandidate[]>(() => students.map(student => ({
+        student,
+        accounts: accounts.filter(a => a.student_id === student.id),
+        openInvoices: invoices.filter(inv => inv.student_id === student.id && inv.status !== 'Paid' && inv.status !== 'Void'),
+    })), [students, accounts, invoices]);
+
+    const suggestions = useMemo(() => new Map(
+        payments.filter(p => p.status === 'open').map(p => [p.id, suggestStudentMatches(p, candidates)])
+    ), [payments, candidates]);
+
+    const searchResults = useMemo(() => {
+        const query = studentSearch.trim().toLowerCase();
+        if (query.length < 2) return [];
+        return students
+            .filter(s => s.name.toLowerCase().includes(query) || s.admission_number?.toLowerCase().includes(query))
+            .slice(0, 8);
+    }, [students, studentSearch]);
+
+    const openAssign = (payment: UnmatchedPayment) => {
+        const [best] = suggestions.get(payment.id) || [];
+        setAssigningId(payment.id);
+        setAssignStudentId(best?.student_id ?? null);
+        setAssignInvoiceId(best?.invoice_id ?? null);
+        setStudentSearch('');
+        setAssignNotes('');
+    };
+
+    const chooseStudent = (studentId: number, invoiceId?: number | null) => {
+        setAssignStudentId(studentId);
+        setAssignInvoiceId(invoiceId ?? null);
+    };
+
+    const handleAssign = async (payment: UnmatchedPayment) => {
+        if (!assignStudentId) {
+            addToast('Choose the student this payment belongs to.', 'error');
+            return;
+        }
+        const student = students.find(s => s.id === assignStudentId);
+        if (!window.confirm(`Record ₦${Number(payment.amount).toLocaleString()} (${payment.reference}) for ${student?.name}?`)) return;
+
+        setBusyId(payment.id);
+        try {
+            const result = await assignUnmatchedPayment(requireSupabaseClient(), payment.id, assignStudentId, assignInvoiceId, assignNotes);
+            addToast(`Payment assigned to ${student?.name}. Receipt ${result.receipt_no || result.payment_ref}.`, 'success');
+            setAssigningId(null);
+            await loadData();
+            onPaymentRecorded();
+        } catch (error: any) {
+            addToast(`Could not assign payment: ${mapSupabaseError(error)}`, 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDismiss = async (payment: UnmatchedPayment) => {
+        const reason = window.prompt('Why is this credit not a school fee payment? (e.g. refunded, paid to wrong school)');
+        if (!reason?.trim()) return;
+        setBusyId(payment.id);
+        try {
+            await dismissUnmatchedPayment(requireSupabaseClient(), payment.id, reason.trim());
+            addToast('Payment dismissed.', 'success');
+            await loadData();
+        } catch (error: any) {
+            addToast(`Could not dismiss payment: ${mapSupabaseError(error)}`, 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleReplay = async (event: PaystackWebhookEvent) => {
+        if (!window.confirm(`Replay ${event.event_type} ${event.payload?.data?.reference || `#${event.id}`}?`)) return;
+        setBusyId(event.id);
+        try {
+            const result = await replayWebhookEvent(requireSupabaseClient(), event.id);
+            addToast(REPLAY_MESSAGES[result.outcome] || 'Event replayed.', result.outcome === 'recorded' ? 'success' : 'info');
+            await loadData();
+            if (result.outcome === 'recorded') onPaymentRecorded();
+        } catch (error: any) {
+            addToast(`Could not replay event: ${mapSupabaseError(error)}`, 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const studentInvoices = (studentId: number | null) =>
+        invoices.filter(inv => inv.student_id === studentId && inv.status !== 'Paid' && inv.status !== 'Void');
+
+    if (loading) return <div className="flex justify-center p-10"><Spinner size="md" /></div>;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setView('unmatched')}
+                        className={`px-3 py-1 text-sm rounded-lg ${view === 'unmatched' ? 'bg-blue-600 text-white' : 'border hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+                    >
+                        Unmatched Credits
+                    </button>
+                    <button
+                        onClick={() => setView('statement')}
+                        className={`px-3 py-1 text-sm rounded-lg ${view === 'statement' ? 'bg-blue-600 text-white' : 'border hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+                    >
+                        Bank Statement Import
+                    </button>
+                    <button
+                        onClick={() => setView('webhooks')}
+                        className={`px-3 py-1 text-sm rounded-lg ${view === 'webhooks' ? 'bg-blue-600 text-white' : 'border hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+                    >
+                        Webhook Events
+                    </button>
+                </div>
+                <div className="flex items-center gap-2">
+                    {view === 'statement' ? null : view === 'unmatched' ? (
+                        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as UnmatchedPaymentStatus)} className="p-2 text-sm border rounded">
+                            <option value="open">Open</option>
+                            <option value="assigned">Assigned</option>
+                            <option value="dismissed">Dismissed</option>
+                        </select>
+                    ) : (
+                        <select value={eventFilter} onChange={e => setEventFilter(e.target.value as 'all' | 'unprocessed')} className="p-2 text-sm border rounded">
+                            <option value="unprocessed">Not processed</option>
+                            <option value="all">All (latest 100)</option>
+                        </select>
+                    )}
+                    <button onClick={loadData} className="px-3 py-1 text-sm border rounded hover:bg-slate-50 dark:hover:bg-slate-800">Refresh</button>
+                </div>
+            </div>
+
+            {view === 'unmatched' && (
+                <>
+                    <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800 text-sm text-blue-800 dark:text-blue-200">
+                        <strong>How it works:</strong> Paystack credits that could not be tied to a student wait here. Suggestions compare the payer name, reference, email and amount with students, their virtual accounts and open invoices.
+                        Assigning records the payment on the fee ledger and allocates it like any other payment; every assignment and dismissal is written to the audit log.
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="bg-slate-100 dark:bg-slate-800 uppercase text-xs font-semibold">
+                                <tr>
+                                    <th className="p-3">Date</th>
+                                    <th className="p-3">Reference</th>
+                                    <th className="p-3">Payer</th>
+                                    <th className="p-3 text-right">Amount</th>
+                                    <th className="p-3">{statusFilter === 'open' ? 'Suggested Students' : 'Outcome'}</th>
+                                    <th className="p-3">Action</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {payments.length === 0 && (
+                                    <tr><td colSpan={6} className="p-6 text-center text-slate-500">No {statusFilter} credits.</td></tr>
+                                )}
+                                {payments.map(payment => (
+                                    <React.Fragment key={payment.id}>
+                                        <tr className="hover:bg-slate-50 dark:hover:bg-slate-800/50 align-top">
+                                            <td className="p-3 whitespace-nowrap">{new Date(payment.payment_date || payment.created_at).toLocaleDateString()}</td>
+                                            <td className="p-3">
+                                                <span className="font-mono text-xs">{payment.reference}</span>
+                                                {payment.narration && <span className="block text-xs text-slate-500">{payment.narration}</span>}
+                                            </td>
+                                            <td className="p-3">
+                                                {payment.payer_name || <span className="text-slate-400">Unknown</span>}
+                                                <span className="block text-xs text-slate-500">{payment.customer_email || payment.account_number || payment.payment_method}</span>
+                                            </td>
+                                            <td className="p-3 text-right font-semibold">₦{Number(payment.amount).toLocaleString()}</td>
+                                            <td className="p-3">
+                                                {payment.status === 'open' ? (
+                                                    (suggestions.get(payment.id) || []).slice(0, 3).map(s => (
+                                                        <div key={s.student_id} className="text-xs" title={s.reasons.join('\n')}>
+                                                            <span className="font-semibold">{s.student_name}</span> <span className="text-slate-500">({s.score})</span>
+                                                            <span className="block text-slate-500">{s.reasons[0]}</span>
+                                                        </div>
+                                                    ))
+                                                ) : payment.status === 'assigned' ? (
+                                                    <span className="text-xs">
+                                                        {payment.matched_student?.name || `Student #${payment.matched_student_id}`}
+                                                        {payment.matched_at && <span className="block text-slate-500">{new Date(payment.matched_at).toLocaleString()}</span>}
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-xs text-slate-500">{payment.notes}</span>
+                                                )}
+                                                {payment.status === 'open' && (suggestions.get(payment.id) || []).length === 0 && (
+                                                    <span className="text-xs text-slate-400">No likely students</span>
+                                                )}
+                                            </td>
+                                            <td className="p-3 whitespace-nowrap">
+                                                {payment.status === 'open' && (
+                                                    <div className="flex gap-2">
+                                                        <button onClick={() => openAssign(payment)} className="text-blue-600 hover:underline text-xs">Assign</button>
+                                                        <button onClick={() => handleDismiss(payment)} disabled={busyId === payment.id} className="text-red-600 hover:underline text-xs">Dismiss</button>
+                                                    </div>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {assigningId === payment.id && (
+                                            <tr className="bg-slate-50 dark:bg-slate-800/50">
+                                                <td colSpan={6} className="p-4 space-y-3">
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {(suggestions.get(payment.id) || []).map(s => (
+                                                            <button
+                                                                key={s.student_id}
+                                                                onClick={() => chooseStudent(s.student_id, s.invoice_id)}
+                                                                className={`px-3 py-2 text-left text-xs rounded-lg border ${assignStudentId === s.student_id ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/30' : 'bg-white dark:bg-slate-900'}`}
+                                                            >
+                                                                <span className="font-semibold">{s.student_name}</span> {s.admission_number && <span className="text-slate-500">{s.admission_number}</span>}
+                                                                <span className="block text-slate-500">{s.reasons.join(' · ')}</span>
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                                        <div>
+                                                            <input
+                                                                type="text"
+                                                                value={studentSearch}
+                                                                onChange={e => setStudentSearch(e.target.value)}
+                                                                placeholder="Search another student..."
+                                                                className="w-full p-2 text-sm border rounded"
+                                                            />
+                                                            {searchResults.length > 0 && (
+                                                                <div className="mt-1 border rounded bg-white dark:bg-slate-900 max-h-40 overflow-y-auto">
+                                                                    {searchResults.map(s => (
+                                                                        <button
+                                                                            key={s.id}
+                                                                            onClick={() => { chooseStudent(s.id); setStudentSearch(''); }}
+                                                                            className="block w-full text-left px-2 py-1 text-xs hover:bg-slate-100 dark:hover:bg-slate-800"
+                                                                        >
+                                                                            {s.name} {s.admission_number && <span className="text-slate-500">({s.admission_number})</span>}
+                                                                        </button>
+                                                                    ))}
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                        <select
+                                                            value={assignInvoiceId ?? ''}
+                                                            onChange={e => setAssignInvoiceId(e.target.value ? Number(e.target.value) : null)}
+                                                            disabled={!assignStudentId}
+                                                            className="p-2 text-sm border rounded"
+                                                        >
+                                                            <option value="">Settle oldest fees first</option>
+                                                            {studentInvoices(assignStudentId).map(inv => (
+                                                                <option key={inv.id} value={inv.id}>
+                                                                    {inv.invoice_number} (₦{(inv.total_amount - inv.amount_paid).toLocaleString()} due)
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                        <input
+                                                            type="text"
+                                                            value={assignNotes}
+                                                            onChange={e => setAssignNotes(e.target.value)}
+                                                            placeholder="Notes (e.g. confirmed by phone with parent)"
+                                                            className="p-2 text-sm border rounded"
+                                                        />
+                                                    </div>
+                                                    <div className="flex justify-between items-center">
+                                                        <span className="text-sm">
+                                                            {assignStudentId
+                                                                ? <>Assign to <strong>{students.find(s => s.id === assignStudentId)?.name}</strong></>
+                                                                : <span className="text-slate-500">Choose a student</span>}
+                                                        </span>
+                                                        <div className="flex gap-2">
+                                                            <button onClick={() => setAssigningId(null)} className="px-3 py-1 text-sm border rounded">Cancel</button>
+                                                            <button
+                                                                onClick={() => handleAssign(payment)}
+                                                                disabled={!assignStudentId || busyId === payment.id}
+                                                                className="px-4 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                                                            >
+                                                                {busyId === payment.id ? 'Recording...' : 'Record Payment'}
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+
+            {view === 'statement' && (
+                <BankStatementImport
+                    candidates={candidates}
+                    schoolId={schoolId}
+                    userId={userId}
+                    addToast={addToast}
+                    onPosted={() => {
+                        loadData();
+                        onPaymentRecorded();
+                    }}
+                />
+            )}
+
+            {view === 'webhooks' && (
+                <>
+                    <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800 text-sm text-blue-800 dark:text-blue-200">
+                        <strong>How it works:</strong> Every Paystack event is logged here. Replaying re-runs the student matching against today's records (for example after creating a virtual account) and never records the same reference twice.
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="bg-slate-100 dark:bg-slate-800 uppercase text-xs font-semibold">
+                                <tr>
+                                    <th className="p-3">Received</th>
+                                    <th className="p-3">Event</th>
+                                    <th className="p-3">Reference</th>
+                                    <th className="p-3 text-right">Amount</th>
+                                    <th className="p-3">Status</th>
+                                    <th className="p-3">Action</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {events.length === 0 && (
+                                    <tr><td colSpan={6} className="p-6 text-center text-slate-500">No webhook events.</td></tr>
+                                )}
+                                {events.map(event => (
+                                    <React.Fragment key={event.id}>
+                                        <tr className="hover:bg-slate-50 dark:hover:bg-slate-800/50">
+                                            <td className="p-3 whitespace-nowrap">{new Date(event.created_at).toLocaleString()}</td>
+                                            <td className="p-3 font-mono text-xs">{event.event_type}</td>
+                                            <td className="p-3 font-mono text-xs">{event.payload?.data?.reference || '-'}</td>
+                                            <td className="p-3 text-right">
+                                                {event.payload?.data?.amount ? `₦${(Number(event.payload.data.amount) / 100).toLocaleString()}` : '-'}
+                                            </td>
+                                            <td className="p-3">
+                                                <span className={`px-2 py-1 rounded-full text-xs font-bold ${event.processed ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                                                    {event.processed ? 'Processed' : 'Not processed'}
+                                                </span>
+                                                {event.error_message && <span className="block text-xs text-red-600 mt-1">{event.error_message}</span>}
+                                                {!!event.replay_count && (
+                                                    <span className="block text-xs text-slate-500 mt-1">Replayed {event.replay_count}×</span>
+                                                )}
+                                            </td>
+                                            <td className="p-3 whitespace-nowrap">
+                                                <div className="flex gap-2">
+                                                    <button onClick={() => setInspectingId(inspectingId === event.id ? null : event.id)} className="text-blue-600 hover:underline text-xs">
+                                                        {inspectingId === event.id ? 'Hide' : 'Inspect'}
+                                                    </button>
+                                                    <button onClick={() => handleReplay(event)} disabled={busyId === event.id} className="text-blue-600 hover:underline text-xs disabled:opacity-50">
+                                                        {busyId === event.id ? 'Replaying...' : 'Replay'}
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                        {inspectingId === event.id && (
+                                            <tr>
+                                                <td colSpan={6} className="p-3 bg-slate-50 dark:bg-slate-800/50">
+                                                    <pre className="text-xs overflow-x-auto max-h-80">{JSON.stringify(event.payload, null, 2)}</pre>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default UnmatchedPaymentsWorkspace;
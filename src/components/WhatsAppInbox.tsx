@@ -0,0 +1,443 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type {
+    Student,
+    UserProfile,
+    WhatsAppButtonAnswer,
+    WhatsAppCannedReply,
+    WhatsAppConversation,
+    WhatsAppThreadMessage,
+} from '../types';
+import { requireSupabaseClient } from '../services/supabaseClient';
+import {
+    conversationTitle,
+    deleteCannedReply,
+    fillCannedReply,
+    filterConversations,
+    getButtonAnswers,
+    getCannedReplies,
+    getConversationMessages,
+    getConversations,
+    markConversationRead,
+    saveCannedReply,
+    sendConversationReply,
+    tallyButtonAnswers,
+    updateConversation,
+    type InboxView,
+} from '../services/whatsappInbox';
+import Spinner from './common/Spinner';
+import { CheckCircleIcon, PaperAirplaneIcon, TrashIcon } from './common/icons';
+
+interface WhatsAppInboxProps {
+    userProfile: UserProfile;
+    users: UserProfile[];
+    students: Student[];
+    addToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const VIEWS: { id: InboxView; label: string }[] = [
+    { id: 'all', label: 'Open' },
+    { id: 'mine', label: 'Mine' },
+    { id: 'unassigned', label: 'Unassigned' },
+    { id: 'unread', label: 'Unread' },
+    { id: 'closed', label: 'Closed' },
+];
+
+const STATUS_TICKS: Record<WhatsAppThreadMessage['status'], string> = {
+    received: '',
+    sent: '✓',
+    delivered: '✓✓',
+    read: '✓✓ read',
+    failed: 'failed',
+};
+
+/**
+ * Family WhatsApp threads built from parent replies received by the greenapi-webhook function
+ */
+const WhatsAppInbox: React.FC<WhatsAppInboxProps> = ({ userProfile, users, students, addToast }) => {
+    const [conversations, setConversations] = useState<WhatsAppConversation[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [view, setView] = useState<InboxView>('all');
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    const [messages, setMessages] = useState<WhatsAppThreadMessage[]>([]);
+    const [answers, setAnswers] = useState<WhatsAppButtonAnswer[]>([]);
+    const [cannedReplies, setCannedReplies] = useState<WhatsAppCannedReply[]>([]);
+    const [draft, setDraft] = useState('');
+    const [sending, setSending] = useState(false);
+    const [showCannedManager, setShowCannedManager] = useState(false);
+    const [newCanned, setNewCanned] = useState({ title: '', body: '' });
+    const threadEndRef = useRef<HTMLDivElement>(null);
+    const selectedIdRef = useRef<number | null>(null);
+    selectedIdRef.current = selectedId;
+
+    const studentNames = useMemo(() => new Map(students.map(s => [s.id, s.name])), [students]);
+    const staffNames = useMemo(() => new Map(users.map(u => [u.id, u.name])), [users]);
+    const selected = conversations.find(c => c.id === selectedId) || null;
+    const visible = filterConversations(conversations, view, userProfile.id);
+
+    useEffect(() => {
+        const supabase = requireSupabaseClient();
+        Promise.all([
+            getConversations(supabase, userProfile.school_id),
+            getCannedReplies(supabase, userProfile.school_id),
+        ])
+            .then(([conversationData, replyData]) => {
+                setConversations(conversationData);
+                setCannedReplies(replyData);
+            })
+            .catch(error => addToast(`Could not load the inbox: ${error.message}`, 'error'))
+            .finally(() => setLoading(false));
+
+        const channel = supabase.channel(`whatsapp_inbox_${userProfile.school_id}`)
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'whatsapp_conversations', filter: `school_id=eq.${userProfile.school_id}` },
+                (payload) => {
+                    const row = payload.new as WhatsAppConversation;
+                    if (!row?.id) return;
+                    setConversations(prev => prev.some(c => c.id === row.id)
+                        ? prev.map(c => (c.id === row.id ? row : c))
+                        : [row, ...prev]);
+                }
+            )
+            .on(
+                'postgres_changes',
+                { event: 'INSERT', schema: 'public', table: 'whatsapp_messages', filter: `school_id=eq.${userProfile.school_id}` },
+                (payload) => {
+                    const row = payload.new as WhatsAppThreadMessage;
+                    if (row?.conversation_id !== selectedIdRef.current) return;
+                    setMessages(prev => (prev.some(m => m.id === row.id) ? prev : [...prev, row]));
+                    if (row.direction === 'inbound') {
+                        markConversationRead(supabase, row.conversation_id).catch(() => undefined);
+                        if (row.button_text) {
+                            getButtonAnswers(supabase, row.conversation_id).then(setAnswers).catch(() => undefined);
+                        }
+                    }
+                }
+            )
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    }, [userProfile.school_id]);
+
+    useEffect(() => {
+        if (!selectedId) return;
+        const supabase = requireSupabaseClient();
+        setMessages([]);
+        setAnswers([]);
+        Promise.all([getConversationMessages(supabase, selectedId), getButtonAnswers(supabase, selectedId)])
+            .then(([messageData, answerData]) => {
+                setMessages(messageData);
+                setAnswers(answerData);
+            })
+            .catch(error => addToast(`Could not load messages: ${error.message}`, 'error'));
+        markConversationRead(supabase, selectedId).catch(error => console.error('Could not mark conversation read:', error));
+    }, [selectedId]);
+
+    useEffect(() => {
+        threadEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [messages.length]);
+
+    const handleSend = async () => {
+        if (!selected || !draft.trim()) return;
+        setSending(true);
+        try {
+            await sendConversationReply(requireSupabaseClient(), selected, draft.trim());
+            setDraft('');
+        } catch (error: any) {
+            addToast(`Reply not sent: ${error.message}`, 'error');
+        } finally {
+            setSending(false);
+        }
+    };
+
+    const handleAssign = async (assignee: string) => {
+        if (!selected) return;
+        try {
+            const updated = await updateConversation(requireSupabaseClient(), selected.id, { assignee: assignee || null });
+            setConversations(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+        } catch (error: any) {
+            addToast(`Could not assign conversation: ${error.message}`, 'error');
+        }
+    };
+
+    const handleToggleStatus = async () => {
+        if (!selected) return;
+        try {
+            const updated = await updateConversation(requireSupabaseClient(), selected.id, {
+                status: selected.status === 'open' ? 'closed' : 'open',
+            });
+            setConversations(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+        } catch (error: any) {
+            addToast(`Could not update conversation: ${error.message}`, 'error');
+        }
+    };
+
+    const handleUseCanned = (id: string) => {
+        const reply = cannedReplies.find(r => r.id === Number(id));
+        if (!reply || !selected) return;
+        const familyStudents = selected.student_ids.map(sid => studentNames.get(sid)).filter(Boolean) as string[];
+        setDraft(fillCannedReply(reply.body, {
+            parent_name: selected.contact_name || 'Parent',
+            student_name: familyStudents.join(' & '),
+            staff_name: userProfile.name,
+        }));
+    };
+
+    const handleSaveCanned = async () => {
+        if (!newCanned.title.trim() || !newCanned.body.trim()) return;
+        try {
+            const saved = await saveCannedReply(requireSupabaseClient(), {
+                school_id: userProfile.school_id,
+                title: newCanned.title.trim(),
+                body: newCanned.body.trim(),
+                created_by: userProfile.id,
+            });
+            setCannedReplies(prev => [...prev, saved].sort((a, b) => a.title.localeCompare(b.title)));
+            setNewCanned({ title: '', body: '' });
+        } catch (error: any) {
+            addToast(`Could not save canned reply: ${error.message}`, 'error');
+        }
+    };
+
+    const handleDeleteCanned = async (id: number) => {
+        try {
+            await deleteCannedReply(requireSupabaseClient(), id);
+            setCannedReplies(prev => prev.filter(r => r.id !== id));
+        } catch (error: any) {
+            addToast(`Could not delete canned reply: ${error.message}`, 'error');
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex justify-center items-center h-64">
+                <Spinner size="lg" />
+            </div>
+        );
+    }
+
+    const answerTallies = tallyButtonAnswers(answers);
+
+    return (
+        <div className="max-w-7xl mx-auto p-6">
+            <div className="flex items-center justify-between mb-4">
+                <h1 className="text-2xl font-bold text-slate-800 dark:text-white">WhatsApp Inbox</h1>
+                <button
+                    onClick={() => setShowCannedManager(!showCannedManager)}
+                    className="px-3 py-2 text-sm rounded-lg border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700"
+                >
+                    {showCannedManager ? 'Close Canned Replies' : 'Manage Canned Replies'}
+                </button>
+            </div>
+
+            {showCannedManager && (
+                <div className="mb-4 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-3">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        Use {'{{parent_name}}'}, {'{{student_name}}'} and {'{{staff_name}}'} to personalise replies.
+                    </p>
+                    {cannedReplies.map(reply => (
+                        <div key={reply.id} className="flex items-start justify-between gap-3 text-sm">
+                            <div>
+                                <p className="font-medium text-slate-800 dark:text-white">{reply.title}</p>
+                                <p className="text-slate-600 dark:text-slate-400 whitespace-pre-wrap">{reply.body}</p>
+                            </div>
+                            <button onClick={() => handleDeleteCanned(reply.id)} className="text-red-500 hover:text-red-700" title="Delete">
+                                <TrashIcon className="h-4 w-4" />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="grid gap-2 md:grid-cols-[200px_1fr_auto]">
+                        <input
+                            type="text"
+                            value={newCanned.title}
+                            onChange={(e) => setNewCanned({ ...newCanned, title: e.target.value })}
+                            placeholder="Title"
+                            className="px-3 py-2 border rounded-lg bg-white dark:bg-slate-900 border-slate-300 dark:border-slate-600"
+                        />
+                        <input
+                            type="text"
+                            value={newCanned.body}
+                            onChange={(e) => setNewCanned({ ...newCanned, body: e.target.value })}
+                            placeholder="Reply text"
+                            className="px-3 py-2 border rounded-lg bg-white dark:bg-slate-900 border-slate-300 dark:border-slate-600"
+                        />
+                        <button
+                            onClick={handleSaveCanned}
+                            disabled={!newCanned.title.trim() || !newCanned.body.trim()}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            Add
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-[320px_1fr] gap-4 h-[70vh]">
+                {/* Conversation list */}
+                <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 flex flex-col overflow-hidden">
+                    <div className="flex flex-wrap gap-1 p-2 border-b border-slate-200 dark:border-slate-700">
+                        {VIEWS.map(v => (
+                            <button
+                                key={v.id}
+                                onClick={() => setView(v.id)}
+                                className={`px-2 py-1 text-xs rounded-md ${view === v.id
+                                    ? 'bg-green-600 text-white'
+                                    : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                            >
+                                {v.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex-1 overflow-y-auto">
+                        {visible.length === 0 ? (
+                            <p className="p-4 text-sm text-slate-500 dark:text-slate-400">No conversations</p>
+                        ) : visible.map(conversation => (
+                            <button
+                                key={conversation.id}
+                                onClick={() => setSelectedId(conversation.id)}
+                                className={`w-full text-left p-3 border-b border-slate-100 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50 ${conversation.id === selectedId ? 'bg-green-50 dark:bg-green-900/20' : ''}`}
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className={`text-sm truncate ${conversation.unread_count > 0 ? 'font-bold text-slate-900 dark:text-white' : 'text-slate-700 dark:text-slate-200'}`}>
+                                        {conversationTitle(conversation, studentNames)}
+                                    </span>
+                                    {conversation.unread_count > 0 && (
+                                        <span className="px-2 py-0.5 text-xs rounded-full bg-green-600 text-white">{conversation.unread_count}</span>
+                                    )}
+                                </div>
+                                <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{conversation.last_message_preview}</p>
+                                <p className="text-[11px] text-slate-400 mt-1">
+                                    {conversation.last_message_at ? new Date(conversation.last_message_at).toLocaleString() : ''}
+                                    {conversation.assigned_to && ` • ${staffNames.get(conversation.assigned_to) || 'Assigned'}`}
+                                </p>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Thread */}
+                <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 flex flex-col overflow-hidden">
+                    {!selected ? (
+                        <div className="flex-1 flex items-center justify-center text-sm text-slate-500 dark:text-slate-400">
+                            Select a conversation
+                        </div>
+                    ) : (
+                        <>
+                            <div className="p-3 border-b border-slate-200 dark:border-slate-700 flex flex-wrap items-center justify-between gap-2">
+                                <div>
+                                    <p className="font-semibold text-slate-800 dark:text-white">{conversationTitle(selected, studentNames)}</p>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                                        +{selected.phone}{selected.contact_name ? ` • ${selected.contact_name}` : ''}
+                                        {selected.student_ids.length === 0 && ' • not matched to a student'}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <select
+                                        value={selected.assigned_to || ''}
+                                        onChange={(e) => handleAssign(e.target.value)}
+                                        className="px-2 py-1 text-sm border rounded-lg bg-white dark:bg-slate-900 border-slate-300 dark:border-slate-600"
+                                    >
+                                        <option value="">Unassigned</option>
+                                        {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                                    </select>
+                                    <button
+                                        onClick={handleToggleStatus}
+                                        className="flex items-center gap-1 px-3 py-1 text-sm rounded-lg border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700"
+                                    >
+                                        <CheckCircleIcon className="h-4 w-4" />
+                                        {selected.status === 'open' ? 'Close' : 'Reopen'}
+                                    </button>
+                                </div>
+                            </div>
+
+                            {answerTallies.length > 0 && (
+                                <div className="px-3 py-2 border-b border-slate-200 dark:border-slate-700 flex flex-wrap gap-2 text-xs">
+                                    <span className="text-slate-500 dark:text-slate-400">Button answers:</span>
+                                    {answerTallies.map(tally => (
+                                        <span key={tally.button_text} className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300">
+                                            {tally.button_text} × {tally.count}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+
+                            <div className="flex-1 overflow-y-auto p-3 space-y-2 bg-slate-50 dark:bg-slate-900/40">
+                                {messages.map(message => (
+                                    <div key={message.id} className={`flex ${message.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}>
+                                        <div className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${message.direction === 'outbound'
+                                            ? 'bg-green-100 dark:bg-green-900/40 text-slate-800 dark:text-slate-100'
+                                            : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-100'}`}
+                                        >
+                                            {message.button_text && (
+                                                <span className="inline-block mb-1 px-2 py-0.5 text-xs rounded-full bg-blue-600 text-white">
+                                                    Tapped: {message.button_text}
+                                                </span>
+                                            )}
+                                            {message.body && !(message.button_text && message.body === message.button_text) && (
+                                                <p className="whitespace-pre-wrap">{message.body}</p>
+                                            )}
+                                            {message.media_url && (
+                                                <a href={message.media_url} target="_blank" rel="noreferrer" className="text-xs text-blue-600 underline">
+                                                    Open attachment
+                                                </a>
+                                            )}
+                                            {message.buttons && message.buttons.length > 0 && (
+                                                <div className="mt-1 flex flex-wrap gap-1">
+                                                    {message.buttons.map(button => (
+                                                        <span key={button.buttonId} className="px-2 py-0.5 text-xs rounded border border-green-600 text-green-700 dark:text-green-300">
+                                                            {button.buttonText}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
+                                            <p className="mt-1 text-[11px] text-slate-400 text-right">
+                                                {message.direction === 'outbound' && message.sent_by && `${staffNames.get(message.sent_by) || 'Staff'} • `}
+                                                {new Date(message.created_at).toLocaleString()}
+                                                {message.direction === 'outbound' && STATUS_TICKS[message.status] && ` • ${STATUS_TICKS[message.status]}`}
+                                            </p>
+                                        </div>
+                                    </div>
+                                ))}
+                                <div ref={threadEndRef} />
+                            </div>
+
+                            <div className="p-3 border-t border-slate-200 dark:border-slate-700 space-y-2">
+                                {cannedReplies.length > 0 && (
+                                    <select
+                                        value=""
+                                        onChange={(e) => handleUseCanned(e.target.value)}
+                                        className="px-2 py-1 text-sm border rounded-lg bg-white dark:bg-slate-900 border-slate-300 dark:border-slate-600"
+                                    >
+                                        <option value="">Insert canned reply…</option>
+                                        {cannedReplies.map(reply => <option key={reply.id} value={reply.id}>{reply.title}</option>)}
+                                    </select>
+                                )}
+                                <div className="flex gap-2">
+                                    <textarea
+                                        value={draft}
+                                        onChange={(e) => setDraft(e.target.value)}
+                                        rows={2}
+                                        placeholder="Type a reply"
+                                        className="flex-1 px-3 py-2 border rounded-lg bg-white dark:bg-slate-900 border-slate-300 dark:border-slate-600"
+                                    />
+                                    <button
+                                        onClick={handleSend}
+                                        disabled={sending || !draft.trim()}
+                                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center gap-1"
+                                    >
+                                        {sending ? <Spinner size="sm" /> : <PaperAirplaneIcon className="h-4 w-4" />}
+                                        Send
+                                    </button>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WhatsAppInbox;
@@ -0,0 +1,463 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    type DedicatedVirtualAccount,
+    type InvoiceInstallment,
+    LedgerPaymentStatus,
+    type LedgerPayment,
+    type LinkedChild,
+    type ParentProfile,
+    type StudentAdjustment,
+    type StoreBillingAllowance,
+    type StudentInvoice,
+} from '../../types';
+import { requireSupabaseClient } from '../../services/supabaseClient';
+import { buildPaymentReceipt } from '../../services/feeLedger';
+import { buildParentCheckout, invoiceOutstanding, summarizeChildFees, type ParentCheckoutTarget } from '../../services/parentFees';
+import { openPaystackCheckout } from '../../services/paystackInline';
+import { getStoreBillingAllowance, setStoreSpendLimit } from '../../services/storeOrders';
+import { buildReceiptPdfHtml } from '../../utils/bursaryRoundTrip';
+import { mapSupabaseError } from '../../utils/errorHandling';
+import Spinner from '../common/Spinner';
+
+interface ParentFeesTabProps {
+    child: LinkedChild;
+    parentProfile: ParentProfile;
+}
+
+const INSTALLMENT_STYLES: Record<string, string> = {
+    paid: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+    part_paid: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+    overdue: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+    due: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+};
+
+const naira = (amount: number) => `₦${Number(amount).toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const ParentFeesTab: React.FC<ParentFeesTabProps> = ({ child, parentProfile }) => {
+    const [loading, setLoading] = useState(true);
+    const [invoices, setInvoices] = useState<StudentInvoice[]>([]);
+    const [adjustments, setAdjustments] = useState<StudentAdjustment[]>([]);
+    const [payments, setPayments] = useState<LedgerPayment[]>([]);
+    const [accounts, setAccounts] = useState<DedicatedVirtualAccount[]>([]);
+    const [publicKey, setPublicKey] = useState<string | null>(null);
+    const [school, setSchool] = useState<{ name: string; logo_url?: string }>({ name: 'School' });
+    const [email, setEmail] = useState(parentProfile.email || '');
+    const [paying, setPaying] = useState<string | null>(null);
+    const [notice, setNotice] = useState<{ text: string; type: 'success' | 'error' | 'info' } | null>(null);
+    const [allowance, setAllowance] = useState<StoreBillingAllowance | null>(null);
+    const [limitInput, setLimitInput] = useState('');
+    const [savingLimit, setSavingLimit] = useState(false);
+
+    const loadFees = async () => {
+        setLoading(true);
+        const supabase = requireSupabaseClient();
+        try {
+            const [invRes, adjRes, payRes, dvaRes, configRes, keyRes] = await Promise.all([
+                supabase
+                    .from('student_invoices')
+                    .select('*, line_items:invoice_line_items(*), installments:invoice_installments(*)')
+                    .eq('student_id', child.id)
+                    .order('created_at', { ascending: false }),
+                supabase.from('student_adjustments').select('*').eq('student_id', child.id),
+                supabase
+                    .from('student_payments')
+                    .select('*, allocations:student_payment_allocations(id, payment_id, invoice_id, invoice_line_item_id, allocated_amount, invoice:student_invoices(invoice_number), line:invoice_line_items(description))')
+                    .eq('student_id', child.id)
+                    .order('paid_at', { ascending: false }),
+                supabase.from('dedicated_virtual_accounts').select('*').eq('student_id', child.id).eq('active', true),
+                supabase.from('school_config').select('display_name, logo_url').eq('school_id', child.school_id).maybeSingle(),
+                supabase.rpc('get_parent_paystack_key', { p_student_id: child.id }),
+            ]);
+            if (invRes.error) throw invRes.error;
+            if (payRes.error) throw payRes.error;
+
+            setInvoices(invRes.data || []);
+            setAdjustments(adjRes.data || []);
+            setPayments(payRes.data || []);
+            setAccounts(dvaRes.data || []);
+            setSchool({ name: configRes.data?.display_name || 'School', logo_url: configRes.data?.logo_url || undefined });
+            setPublicKey(keyRes.error ? null : keyRes.data || null);
+
+            try {
+                const storeAllowance = await getStoreBillingAllowance(supabase, child.id);
+                setAllowance(storeAllowance);
+                setLimitInput(storeAllowance.limit === null ? '' : String(storeAllowance.limit));
+            } catch (error) {
+                console.error('Could not load store allowance:', error);
+                setAllowance(null);
+            }
+        } catch (error: any) {
+            setNotice({ text: `Could not load fees: ${mapSupabaseError(error)}`, type: 'error' });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        setNotice(null);
+        loadFees();
+    }, [child.id]);
+
+    const summary = useMemo(
+        () => summarizeChildFees(child.id, invoices, adjustments, payments),
+        [child.id, invoices, adjustments, payments]
+    );
+
+    const handlePay = async (key: string, target: ParentCheckoutTarget) => {
+        if (!publicKey) return;
+        if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+            setNotice({ text: 'Enter an email address for your Paystack receipt before paying.', type: 'error' });
+            return;
+        }
+        const checkout = buildParentCheckout(child.id, target, summary, invoices);
+        if (checkout.amount <= 0) return;
+
+        setPaying(key);
+        setNotice(null);
+        try {
+            await openPaystackCheckout({
+                publicKey,
+                email: email.trim(),
+                amount: checkout.amount,
+                reference: checkout.reference,
+                metadata: {
+                    student_id: child.id,
+                    school_id: child.school_id,
+                    invoice_id: checkout.invoiceId,
+                    installment_id: checkout.installmentId,
+                    parent_id: parentProfile.id,
+                    custom_fields: [
+                        { display_name: 'Student', variable_name: 'student', value: child.name },
+                        { display_name: 'Paying for', variable_name: 'paying_for', value: checkout.label },
+                    ],
+                },
+                onSuccess: (reference) => {
+                    setPaying(null);
+                    setNotice({
+                        text: `Payment ${reference} received. It appears below with a receipt once the school's payment provider confirms it, usually within a minute.`,
+                        type: 'success',
+                    });
+                    setTimeout(loadFees, 5000);
+                },
+                onClose: () => setPaying(null),
+            });
+        } catch (error: any) {
+            setPaying(null);
+            setNotice({ text: error?.message || 'Could not open Paystack checkout.', type: 'error' });
+        }
+    };
+
+    const handleSaveLimit = async (limit: number | null) => {
+        if (limit !== null && (!Number.isFinite(limit) || limit < 0)) {
+            setNotice({ text: 'Enter a spending limit of zero or more.', type: 'error' });
+            return;
+        }
+        setSavingLimit(true);
+        try {
+            const updated = await setStoreSpendLimit(requireSupabaseClient(), child.id, limit);
+            setAllowance(updated);
+            setLimitInput(updated.limit === null ? '' : String(updated.limit));
+            setNotice({
+                text: limit === null
+                    ? `${child.name} can no longer add store purchases to the school bill.`
+                    : `${child.name} can add up to ${naira(limit)} of store purchases to the school bill each term.`,
+                type: 'success',
+            });
+        } catch (error: any) {
+            setNotice({ text: `Could not save the spending limit: ${mapSupabaseError(error)}`, type: 'error' });
+        } finally {
+            setSavingLimit(false);
+        }
+    };
+
+    const handlePrintReceipt = (payment: LedgerPayment) => {
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+            setNotice({ text: 'Please allow popups to download receipts.', type: 'error' });
+            return;
+        }
+        const receipt = buildPaymentReceipt(payment, child.name, summary.balance);
+        printWindow.document.write(buildReceiptPdfHtml(receipt, school));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+    };
+
+    const renderPayButton = (key: string, target: ParentCheckoutTarget, label: string, amount: number) => (
+        <button
+            onClick={() => handlePay(key, target)}
+            disabled={!publicKey || paying !== null || amount <= 0}
+            className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+        >
+            {paying === key && <Spinner size="sm" />}
+            {label} {naira(amount)}
+        </button>
+    );
+
+    if (loading) {
+        return (
+            <div className="flex justify-center items-center py-12">
+                <Spinner />
+            </div>
+        );
+    }
+
+    const sortedInstallments = (inv: StudentInvoice): InvoiceInstallment[] =>
+        [...(inv.installments || [])].sort((a, b) => a.sequence - b.sequence);
+
+    return (
+        <div className="space-y-6">
+            {notice && (
+                <div className={`p-3 rounded-lg text-sm ${
+                    notice.type === 'error'
+                        ? 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300'
+                        : notice.type === 'success'
+                            ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300'
+                            : 'bg-blue-50 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300'
+                }`}>
+                    {notice.text}
+                </div>
+            )}
+
+            {/* Balance summary */}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                <div className="p-4 bg-slate-50 dark:bg-slate-900/40 rounded-lg">
+                    <div className="text-sm font-medium text-slate-600 dark:text-slate-400">Total Billed</div>
+                    <div className="mt-1 text-xl font-bold text-slate-900 dark:text-white">{naira(summary.total_invoiced)}</div>
+                    {summary.total_surcharges > 0 && (
+                        <div className="text-xs text-red-600 mt-1">+ {naira(summary.total_surcharges)} late fees and charges</div>
+                    )}
+                    {summary.total_reliefs > 0 && (
+                        <div className="text-xs text-green-600 mt-1">- {naira(summary.total_reliefs)} discounts and waivers</div>
+                    )}
+                </div>
+                <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
+                    <div className="text-sm font-medium text-green-700 dark:text-green-300">Total Paid</div>
+                    <div className="mt-1 text-xl font-bold text-green-900 dark:text-green-100">{naira(summary.total_paid)}</div>
+                    {summary.last_payment_date && (
+                        <div className="text-xs text-green-700 dark:text-green-300 mt-1">
+                            Last payment {new Date(summary.last_payment_date).toLocaleDateString()}
+                        </div>
+                    )}
+                </div>
+                <div className={`p-4 rounded-lg ${summary.balance > 0 ? 'bg-amber-50 dark:bg-amber-900/20' : 'bg-indigo-50 dark:bg-indigo-900/20'}`}>
+                    <div className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                        {summary.balance < 0 ? 'In Credit' : 'Outstanding Balance'}
+                    </div>
+                    <div className="mt-1 text-xl font-bold text-slate-900 dark:text-white">{naira(Math.abs(summary.balance))}</div>
+                </div>
+                <div className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg flex flex-col gap-2 justify-center">
+                    {publicKey ? (
+                        <>
+                            {!parentProfile.email && (
+                                <input
+                                    type="email"
+                                    value={email}
+                                    onChange={e => setEmail(e.target.value)}
+                                    placeholder="Email for payment receipt"
+                                    className="p-2 text-sm border rounded-lg dark:bg-slate-700 dark:border-slate-600"
+                                />
+                            )}
+                            {renderPayButton('balance', { kind: 'balance' }, 'Pay balance', Math.max(summary.balance, 0))}
+                        </>
+                    ) : (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                            Online card payment is not set up for this school. Pay by bank transfer to the account below.
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            {/* Virtual account */}
+            {accounts.length > 0 && (
+                <div>
+                    <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-3">Pay by Bank Transfer</h3>
+                    <div className="grid gap-3 md:grid-cols-2">
+                        {accounts.map(account => (
+                            <div key={account.id} className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg">
+                                <div className="text-sm text-slate-600 dark:text-slate-400">{account.bank_name}</div>
+                                <div className="text-2xl font-mono font-bold text-slate-900 dark:text-white tracking-wider">{account.account_number}</div>
+                                <div className="text-sm text-slate-700 dark:text-slate-300">{account.account_name}</div>
+                                <div className="text-xs text-slate-500 mt-2">
+                                    This account belongs to {child.name}. Transfers are credited to their fees automatically.
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Store purchases on the bill */}
+            {allowance && (
+                <div className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg">
+                    <h3 className="text-lg font-semibold text-slate-900 dark:text-white">School Store Purchases</h3>
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                        Let {child.name} add uniforms, books and supplies from the school store to this bill, up to a limit each term.
+                    </p>
+                    <div className="flex flex-wrap items-end gap-3 mt-3">
+                        <label className="text-sm">
+                            <span className="block text-slate-600 dark:text-slate-400 mb-1">Termly limit (₦)</span>
+                            <input
+                                type="number"
+                                min={0}
+                                value={limitInput}
+                                onChange={e => setLimitInput(e.target.value)}
+                                placeholder="Not allowed"
+                                className="p-2 w-40 border rounded-lg dark:bg-slate-700 dark:border-slate-600"
+                            />
+                        </label>
+                        <button
+                            onClick={() => handleSaveLimit(limitInput.trim() === '' ? null : Number(limitInput))}
+                            disabled={savingLimit}
+                            className="px-3 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                            {savingLimit ? <Spinner size="sm" /> : 'Save limit'}
+                        </button>
+                        {allowance.limit !== null && (
+                            <button
+                                onClick={() => handleSaveLimit(null)}
+                                disabled={savingLimit}
+                                className="px-3 py-2 text-sm bg-slate-200 dark:bg-slate-700 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50"
+                            >
+                                Turn off
+                            </button>
+                        )}
+                    </div>
+                    {allowance.limit !== null && (
+                        <p className="text-sm text-slate-600 dark:text-slate-400 mt-2">
+                            {naira(allowance.billed)} billed this term, {naira(allowance.remaining)} left.
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {/* Invoices */}
+            <div>
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-3">Invoices</h3>
+                {invoices.length === 0 ? (
+                    <p className="text-slate-600 dark:text-slate-400">No invoices have been issued yet</p>
+                ) : (
+                    <div className="space-y-4">
+                        {invoices.map(inv => {
+                            const outstanding = invoiceOutstanding(inv);
+                            const installments = sortedInstallments(inv);
+                            return (
+                                <div key={inv.id} className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg">
+                                    <div className="flex flex-wrap justify-between items-start gap-3">
+                                        <div>
+                                            <div className="font-semibold text-slate-900 dark:text-white">{inv.invoice_number}</div>
+                                            <div className="text-sm text-slate-600 dark:text-slate-400">
+                                                {inv.status}{inv.due_date ? ` • Due ${new Date(inv.due_date).toLocaleDateString()}` : ''}
+                                            </div>
+                                        </div>
+                                        <div className="text-right text-sm">
+                                            <div>Total {naira(inv.total_amount)}</div>
+                                            <div className="text-green-700 dark:text-green-400">Paid {naira(inv.amount_paid)}</div>
+                                            <div className="font-semibold">Outstanding {naira(outstanding)}</div>
+                                        </div>
+                                    </div>
+
+                                    {(inv.line_items || []).length > 0 && (
+                                        <table className="w-full text-sm mt-3">
+                                            <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                                {(inv.line_items || []).map((line, idx) => (
+                                                    <tr key={idx}>
+                                                        <td className="py-1.5 text-slate-700 dark:text-slate-300">{line.description}</td>
+                                                        <td className="py-1.5 text-right">{naira(line.amount)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+
+                                    {installments.length > 1 && (
+                                        <div className="mt-3 space-y-2">
+                                            {installments.map(inst => {
+                                                const remaining = Number(inst.amount) - Number(inst.amount_paid);
+                                                return (
+                                                    <div key={inst.id ?? inst.sequence} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                                                        <div className="flex items-center gap-2">
+                                                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${INSTALLMENT_STYLES[inst.status]}`}>
+                                                                {inst.status.replace('_', ' ')}
+                                                            </span>
+                                                            <span>{inst.name}: {naira(inst.amount)} due {new Date(inst.due_date).toLocaleDateString()}</span>
+                                                        </div>
+                                                        {publicKey && inst.status !== 'paid' && remaining > 0 && outstanding > 0 &&
+                                                            renderPayButton(
+                                                                `installment-${inst.id ?? `${inv.id}-${inst.sequence}`}`,
+                                                                { kind: 'installment', invoice: inv, installment: inst },
+                                                                'Pay',
+                                                                Math.min(remaining, outstanding)
+                                                            )}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+
+                                    {publicKey && outstanding > 0 && (
+                                        <div className="mt-3 flex justify-end">
+                                            {renderPayButton(`invoice-${inv.id}`, { kind: 'invoice', invoice: inv }, 'Pay invoice', outstanding)}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            {/* Payment history */}
+            <div>
+                <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Payment History</h3>
+                    <button onClick={loadFees} className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline">Refresh</button>
+                </div>
+                {payments.length === 0 ? (
+                    <p className="text-slate-600 dark:text-slate-400">No payments recorded yet</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="bg-slate-100 dark:bg-slate-700 uppercase text-xs font-semibold">
+                                <tr>
+                                    <th className="p-3">Date</th>
+                                    <th className="p-3">Receipt</th>
+                                    <th className="p-3">Method</th>
+                                    <th className="p-3 text-right">Amount</th>
+                                    <th className="p-3"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {payments.map(payment => (
+                                    <tr key={payment.id}>
+                                        <td className="p-3 whitespace-nowrap">{new Date(payment.paid_at).toLocaleDateString()}</td>
+                                        <td className="p-3">
+                                            {payment.receipt_no || '-'}
+                                            <span className="block text-xs font-mono text-slate-500">{payment.payment_ref}</span>
+                                        </td>
+                                        <td className="p-3">{payment.method}</td>
+                                        <td className="p-3 text-right font-semibold">{naira(payment.amount)}</td>
+                                        <td className="p-3 text-right">
+                                            {payment.status === LedgerPaymentStatus.Success ? (
+                                                <button
+                                                    onClick={() => handlePrintReceipt(payment)}
+                                                    className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                                                >
+                                                    Receipt
+                                                </button>
+                                            ) : (
+                                                <span className="text-xs text-slate-500">{payment.status}</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ParentFeesTab;
@@ -124,6 +124,7 @@ export const VIEWS = {
   GRADEBOOK: 'Gradebook',
   TEACHER_SCORE_ENTRY: 'Teacher Score Entry',
   ASSESSMENT_MANAGER: 'Assessment Manager',
+  CBT_MANAGER: 'CBT Manager',
   TEACHING_ASSIGNMENTS: 'Teaching Assignments',
   RESULT_MANAGER: 'Result Manager',
   COVERAGE_FEEDBACK: 'Coverage Feedback',
@@ -174,6 +175,7 @@ export const VIEWS = {
   STUDENT_HOMEWORK: 'My Homework',
   NOTES_COMPLIANCE: 'Notes Compliance',
   NOTIFICATION_HISTORY: 'Notification History',
+  WHATSAPP_INBOX: 'WhatsApp Inbox',
   MANUALS: 'Manuals',
   MANUALS_COMPLIANCE: 'Manuals Compliance',
   ABSENCE_REQUESTS: 'Absence Requests',
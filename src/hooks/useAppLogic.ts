@@ -25,6 +25,7 @@ import { VIEWS, CLASS_TEACHER_SUBJECT_PLACEHOLDER } from '../constants';
 import { MOCK_SOCIAL_ACCOUNTS, MOCK_SOCIAL_ANALYTICS } from '../services/mockData';
 import { todayISO, checkInToday, checkOutToday, uploadCheckinPhoto } from '../services/checkins';
 import { getAIClient, getCurrentModel } from '../services/aiClient';
+import { splitAnswerKeys } from '../services/cbtMarking';
 import { textFromAI } from '../utils/ai';
 import { extractAndParseJson } from '../utils/json';
 import { fetchAllStudents } from '../utils/studentPagination';
@@ -1144,8 +1145,11 @@ export const useAppLogic = () => {
                  sid = res.data?.id;
              }
              if(sid && questions) {
+                 const { questions: questionRows, keys } = splitAnswerKeys(sid, questions);
                  await supabase.from('quiz_questions').delete().eq('quiz_id', sid);
-                 await supabase.from('quiz_questions').insert(questions.map((q: any) => ({ ...q, quiz_id: sid })));
+                 await supabase.from('quiz_questions').insert(questionRows.map((q: any) => ({ ...q, quiz_id: sid })));
+                 await supabase.from('quiz_answer_keys').delete().eq('quiz_id', sid);
+                 if (rest.cbt_settings?.enabled) await supabase.from('quiz_answer_keys').insert(keys);
              }
              fetchData();
         },
@@ -39,6 +39,7 @@ export const VIEW_TO_PATH: Record<string, string> = {
   [VIEWS.NOTES_COMPLIANCE]: '/academics/notes-compliance',
   [VIEWS.GRADEBOOK]: '/academics/gradebook',
   [VIEWS.ASSESSMENT_MANAGER]: '/academics/assessments',
+  [VIEWS.CBT_MANAGER]: '/academics/cbt',
   [VIEWS.CLASSES_ATTENDANCE]: '/academics/class-groups',
   [VIEWS.CURRICULUM_MANAGER]: '/academics/curriculum-map',
   [VIEWS.TEACHING_ASSIGNMENTS]: '/academics/workload-analysis',
@@ -92,6 +93,7 @@ export const VIEW_TO_PATH: Record<string, string> = {
   [VIEWS.SUPPORT_HUB]: '/finance/support',
   [VIEWS.SURVEY_MANAGER]: '/finance/survey-manager',
   [VIEWS.NOTIFICATION_HISTORY]: '/finance/notifications',
+  [VIEWS.WHATSAPP_INBOX]: '/finance/whatsapp-inbox',
   
   // Administration
   [VIEWS.SETTINGS]: '/admin/global-settings',
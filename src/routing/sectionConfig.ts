@@ -86,6 +86,7 @@ export const SECTION_CONFIGS: Record<string, SectionConfig> = {
       { id: 'timetable', label: 'Timetable', path: '/academics/timetable', view: VIEWS.TIMETABLE, permission: 'view-dashboard' },
       { id: 'gradebook', label: 'My Gradebook', path: '/academics/gradebook', view: VIEWS.GRADEBOOK, permission: 'score_entries.edit_self' },
       { id: 'assessments', label: 'Assessments', path: '/academics/assessments', view: VIEWS.ASSESSMENT_MANAGER, permission: 'score_entries.edit_self' },
+      { id: 'cbt', label: 'CBT Tests', path: '/academics/cbt', view: VIEWS.CBT_MANAGER, permission: 'score_entries.edit_self' },
       { id: 'result-manager', label: 'Result Manager', path: '/academics/result-manager', view: VIEWS.RESULT_MANAGER, permission: 'results.lock_and_publish' },
       { id: 'team-lesson-hub', label: 'Team Lesson Hub', path: '/academics/team-lesson-hub', view: VIEWS.TEAM_LESSON_HUB, permission: 'manage-curriculum' },
       { id: 'coverage-analytics', label: 'Coverage Analytics', path: '/academics/coverage-analytics', view: VIEWS.COVERAGE_ANALYTICS, permission: 'manage-curriculum' },
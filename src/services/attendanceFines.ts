@@ -0,0 +1,175 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+    AttendanceFine,
+    AttendanceFineKind,
+    AttendanceFineLineMetadata,
+    Holiday,
+    LeaveRequest,
+    SchoolConfig,
+    TeacherCheckin,
+    TeacherShift,
+} from '../types.js';
+
+/**
+ * Attendance fines for the payroll pre-run, from the rules on PayrollSettings: a share of a
+ * day's base pay for each late check-in, and flat fines for leaving before the shift ends or not
+ * checking out at all. Holidays and approved leave are never fined. Each fine becomes its own
+ * payslip line with the evidence in metadata, so staff can query that one line.
+ */
+
+export type AttendanceFineRules = Pick<SchoolConfig, 'late_checkin_deduction_percent' | 'fine_early_checkout' | 'fine_no_checkout'>;
+
+export const FINE_LABELS: Record<AttendanceFineKind, string> = {
+    late: 'Late arrival',
+    early_checkout: 'Early checkout',
+    no_checkout: 'No checkout',
+};
+
+const MONTHS_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Lagos is UTC+1 all year */
+const LAGOS_OFFSET_MINUTES = 60;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/** Minutes past midnight in Lagos for a timestamp */
+function lagosMinutes(timestamp: string): number | null {
+    const date = new Date(timestamp);
+    if (Number.isNaN(date.getTime())) return null;
+    return (date.getUTCHours() * 60 + date.getUTCMinutes() + LAGOS_OFFSET_MINUTES) % (24 * 60);
+}
+
+const clockMinutes = (value: string | null | undefined): number | null => {
+    const match = /^(\d{1,2}):(\d{2})/.exec((value || '').trim());
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const formatClock = (minutes: number) =>
+    `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/** "2026-10-03" to "3 Oct" */
+export function shortDate(date: string): string {
+    const [, month, day] = date.split('-').map(Number);
+    return `${day} ${MONTHS_SHORT[month - 1]}`;
+}
+
+export function fineLabel(fine: Pick<AttendanceFine, 'kind' | 'date'>): string {
+    return `${FINE_LABELS[fine.kind]} (${shortDate(fine.date)})`;
+}
+
+export function fineMetadata(fine: AttendanceFine): AttendanceFineLineMetadata {
+    return { source: 'attendance', kind: fine.kind, date: fine.date, checkin_id: fine.checkin_id, detail: fine.detail };
+}
+
+/** Whether a date is a holiday or inside one of the staff member's approved leave requests */
+export function isExcusedDate(
+    date: string,
+    holidays: Pick<Holiday, 'date' | 'is_recurring'>[],
+    leave: Pick<LeaveRequest, 'start_date' | 'end_date' | 'status'>[]
+): boolean {
+    const onHoliday = holidays.some(h => h.date === date || (h.is_recurring && h.date?.slice(5) === date.slice(5)));
+    const onLeave = leave.some(l => String(l.status).toLowerCase() === 'approved' && l.start_date <= date && date <= l.end_date);
+    return onHoliday || onLeave;
+}
+
+/**
+ * One staff member's fines for the period. `asOf` is the first date not yet finished (usually
+ * today): a missing checkout is only fined once the day is over. Early checkouts need a shift for
+ * that weekday to compare against.
+ */
+export function computeAttendanceFines(params: {
+    checkins: TeacherCheckin[];
+    shifts: Pick<TeacherShift, 'day_of_week' | 'start_time' | 'end_time'>[];
+    leave: Pick<LeaveRequest, 'start_date' | 'end_date' | 'status'>[];
+    holidays: Pick<Holiday, 'date' | 'is_recurring'>[];
+    rules: AttendanceFineRules;
+    dailyPay: number;
+    asOf: string;
+}): AttendanceFine[] {
+    const { checkins, shifts, leave, holidays, rules, dailyPay, asOf } = params;
+    const lateAmount = roundMoney(dailyPay * (Number(rules.late_checkin_deduction_percent) || 0) / 100);
+    const earlyAmount = Number(rules.fine_early_checkout) || 0;
+    const noCheckoutAmount = Number(rules.fine_no_checkout) || 0;
+    const fines: AttendanceFine[] = [];
+
+    [...checkins]
+        .sort((a, b) => a.checkin_date.localeCompare(b.checkin_date))
+        .forEach(checkin => {
+            if (checkin.status === 'Absent' || isExcusedDate(checkin.checkin_date, holidays, leave)) return;
+            const weekday = new Date(`${checkin.checkin_date}T00:00:00Z`).getUTCDay();
+            const shift = shifts.find(s => s.day_of_week === weekday);
+            const shiftStart = clockMinutes(shift?.start_time);
+            const shiftEnd = clockMinutes(shift?.end_time);
+            const base = { date: checkin.checkin_date, checkin_id: checkin.id };
+
+            if (checkin.status === 'Late' && lateAmount > 0) {
+                const arrived = lagosMinutes(checkin.created_at);
+                const detail = [
+                    arrived !== null ? `Checked in ${formatClock(arrived)}` : 'Checked in late',
+                    shiftStart !== null ? `shift starts ${formatClock(shiftStart)}` : null,
+                ].filter(Boolean).join(', ');
+                fines.push({ ...base, kind: 'late', amount: lateAmount, detail });
+            }
+
+            if (checkin.checkout_time) {
+                const left = lagosMinutes(checkin.checkout_time);
+                if (earlyAmount > 0 && left !== null && shiftEnd !== null && left < shiftEnd) {
+                    fines.push({
+                        ...base,
+                        kind: 'early_checkout',
+                        amount: earlyAmount,
+                        detail: `Checked out ${formatClock(left)}, shift ends ${formatClock(shiftEnd)}`,
+                    });
+                }
+            } else if (noCheckoutAmount > 0 && checkin.checkin_date < asOf) {
+                fines.push({ ...base, kind: 'no_checkout', amount: noCheckoutAmount, detail: 'No checkout recorded' });
+            }
+        });
+
+    return fines;
+}
+
+export interface AttendanceFineInputs {
+    rules: AttendanceFineRules;
+    checkins: TeacherCheckin[];
+    shifts: TeacherShift[];
+    leave: LeaveRequest[];
+    holidays: Holiday[];
+}
+
+/** Everything computeAttendanceFines needs for the school and month; nothing is fetched when no rule is set */
+export async function getAttendanceFineInputs(
+    client: SupabaseClient,
+    schoolId: number,
+    year: number,
+    month: number
+): Promise<AttendanceFineInputs> {
+    const { data: config, error: configError } = await client
+        .from('school_config')
+        .select('late_checkin_deduction_percent, fine_early_checkout, fine_no_checkout')
+        .eq('school_id', schoolId)
+        .maybeSingle();
+    if (configError) throw configError;
+    const rules: AttendanceFineRules = config || {};
+    const empty = { rules, checkins: [], shifts: [], leave: [], holidays: [] };
+    if (!rules.late_checkin_deduction_percent && !rules.fine_early_checkout && !rules.fine_no_checkout) return empty;
+
+    const start = `${year}-${String(month).padStart(2, '0')}-01`;
+    const end = `${year}-${String(month).padStart(2, '0')}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+    const [checkins, shifts, leave, holidays] = await Promise.all([
+        client.from('teacher_checkins').select('*').eq('school_id', schoolId).gte('checkin_date', start).lte('checkin_date', end),
+        client.from('teacher_shifts').select('*').eq('school_id', schoolId),
+        client.from('leave_requests').select('*').eq('school_id', schoolId).eq('status', 'approved').lte('start_date', end).gte('end_date', start),
+        client.from('holidays').select('*').eq('school_id', schoolId),
+    ]);
+    const failed = [checkins, shifts, leave, holidays].find(result => result.error);
+    if (failed?.error) throw failed.error;
+
+    return {
+        rules,
+        checkins: (checkins.data || []) as TeacherCheckin[],
+        shifts: (shifts.data || []) as TeacherShift[],
+        leave: (leave.data || []) as LeaveRequest[],
+        holidays: (holidays.data || []) as Holiday[],
+    };
+}
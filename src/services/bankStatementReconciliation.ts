@@ -0,0 +1,134 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LedgerPaymentMethod, type StudentMatchSuggestion } from '../types.js';
+import { extractAccountNumbers, statementLineReference, type BankStatementLine } from '../utils/bankStatementParser.js';
+import { recordStudentPayment } from './feeLedger.js';
+import { suggestStudentMatches, type MatchCandidate } from './unmatchedPayments.js';
+
+/**
+ * Bank statement credits are matched to students with the same scoring as the unmatched
+ * payments workspace (DVA account number, admission number or invoice in the narration, payer
+ * name and amount). Confirmed lines are recorded on the ledger as transfers; everything else
+ * is queued in unmatched_payments for review.
+ */
+
+export const AUTO_CONFIRM_CONFIDENCE = 80;
+
+export interface StatementCreditMatch {
+    line: BankStatementLine;
+    reference: string;
+    suggestions: StudentMatchSuggestion[];
+    /** 0-100: strength of the best suggestion, reduced when a runner-up scores close to it */
+    confidence: number;
+}
+
+export function matchStatementCredit(line: BankStatementLine, candidates: MatchCandidate[]): StatementCreditMatch {
+    const knownAccounts = new Set(candidates.flatMap(c => c.accounts.map(a => a.account_number)));
+    const accountNumber = extractAccountNumbers(line.narration).find(number => knownAccounts.has(number)) || null;
+
+    const suggestions = suggestStudentMatches(
+        {
+            reference: line.reference,
+            narration: line.narration,
+            amount: line.credit,
+            // Narrations carry the sender's name among other words; name matching is word based
+            payer_name: line.narration,
+            customer_email: null,
+            account_number: accountNumber,
+        },
+        candidates
+    );
+
+    const [best, runnerUp] = suggestions;
+    let confidence = best ? Math.min(best.score, 100) : 0;
+    if (best && runnerUp) {
+        confidence -= Math.max(0, 30 - (best.score - runnerUp.score));
+    }
+
+    return {
+        line,
+        reference: statementLineReference(line),
+        suggestions,
+        confidence: Math.max(confidence, 0),
+    };
+}
+
+export function describeConfidence(confidence: number): 'high' | 'medium' | 'low' {
+    if (confidence >= AUTO_CONFIRM_CONFIDENCE) return 'high';
+    if (confidence >= 50) return 'medium';
+    return 'low';
+}
+
+export interface StatementAssignment {
+    match: StatementCreditMatch;
+    studentId: number;
+    invoiceId?: number | null;
+}
+
+export interface StatementPostingResult {
+    recorded: number;
+    duplicates: number;
+    queued: number;
+    failed: { row: number; message: string }[];
+}
+
+export async function postStatementMatches(
+    client: SupabaseClient,
+    schoolId: number,
+    confirmed: StatementAssignment[],
+    forReview: StatementCreditMatch[],
+    statementName: string
+): Promise<StatementPostingResult> {
+    const result: StatementPostingResult = { recorded: 0, duplicates: 0, queued: 0, failed: [] };
+
+    for (const { match, studentId, invoiceId } of confirmed) {
+        try {
+            const recorded = await recordStudentPayment(client, {
+                schoolId,
+                studentId,
+                invoiceId: invoiceId ?? null,
+                amount: match.line.credit,
+                method: LedgerPaymentMethod.Transfer,
+                reference: match.reference,
+                source: 'bank_statement',
+                paidAt: match.line.date,
+                meta: {
+                    statement: statementName,
+                    statement_row: match.line.row,
+                    narration: match.line.narration,
+                    bank_reference: match.line.reference || null,
+                    match_confidence: match.confidence,
+                },
+            });
+            if (recorded.duplicate) result.duplicates++;
+            else result.recorded++;
+        } catch (error: any) {
+            result.failed.push({ row: match.line.row, message: error?.message || 'Could not record payment' });
+        }
+    }
+
+    if (forReview.length > 0) {
+        const { data, error } = await client
+            .from('unmatched_payments')
+            .upsert(
+                forReview.map(match => ({
+                    reference: match.reference,
+                    amount: match.line.credit,
+                    payment_date: match.line.date,
+                    payment_method: 'Bank Transfer (Statement)',
+                    narration: match.line.narration,
+                    payer_name: null,
+                    raw_data: { statement: statementName, school_id: schoolId, ...match.line },
+                    verified: true,
+                })),
+                { onConflict: 'reference', ignoreDuplicates: true }
+            )
+            .select('id');
+        if (error) {
+            forReview.forEach(match => result.failed.push({ row: match.line.row, message: error.message }));
+        } else {
+            result.queued = data?.length || 0;
+        }
+    }
+
+    return result;
+}
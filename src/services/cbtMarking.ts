@@ -0,0 +1,149 @@
+import type { QuizAnswerKey, QuizAttempt, QuizAttemptResponse, QuizAttemptStatus, QuizQuestion, ScoreEntry } from '../types.js';
+
+export interface PresentedQuestion {
+    question: QuizQuestion;
+    /** Original option indexes in display order; answers are always recorded against the original index */
+    optionOrder: number[];
+}
+
+export interface AttemptSummary {
+    autoScore: number;
+    manualScore: number;
+    pendingCount: number;
+    status: QuizAttemptStatus;
+}
+
+// mulberry32: small deterministic PRNG so a resumed attempt shows the same order
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+    const random = createRandom(seed);
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+/** Question and option order for one attempt, seeded by the attempt id */
+export function buildPresentedQuestions(
+    questions: QuizQuestion[],
+    options: { shuffleQuestions?: boolean; shuffleOptions?: boolean; seed: number }
+): PresentedQuestion[] {
+    const sorted = [...questions].sort((a, b) => a.position - b.position);
+    const ordered = options.shuffleQuestions ? seededShuffle(sorted, options.seed) : sorted;
+    return ordered.map((question, index) => {
+        const indexes = (question.options || []).map((_, i) => i);
+        return {
+            question,
+            optionOrder: options.shuffleOptions && question.question_type === 'multiple_choice'
+                ? seededShuffle(indexes, options.seed + index + 1)
+                : indexes,
+        };
+    });
+}
+
+/** Seconds left before the time limit, or null when the quiz is untimed */
+export function getRemainingSeconds(startedAt: string, timeLimitMinutes: number | null | undefined, now: Date = new Date()): number | null {
+    if (!timeLimitMinutes) return null;
+    const deadline = new Date(startedAt).getTime() + timeLimitMinutes * 60_000;
+    return Math.max(0, Math.floor((deadline - now.getTime()) / 1000));
+}
+
+/** Splits editor questions into the question rows and the answer-key rows stored separately */
+export function splitAnswerKeys(quizId: number, questions: QuizQuestion[]): { questions: QuizQuestion[]; keys: QuizAnswerKey[] } {
+    const stripped = questions.map((q) => {
+        const { marks, correct_option_index, correct_answer, explanation, ...rest } = q;
+        return rest;
+    });
+    const keys = questions.map((q) => ({
+        quiz_id: quizId,
+        position: q.position,
+        marks: q.marks ?? 1,
+        correct_option_index: q.question_type === 'multiple_choice' ? q.correct_option_index ?? null : null,
+        correct_answer: q.correct_answer ?? null,
+        explanation: q.explanation ?? null,
+    }));
+    return { questions: stripped, keys };
+}
+
+/** Merges saved answer keys back onto questions for editing and marking */
+export function mergeAnswerKeys(questions: QuizQuestion[], keys: QuizAnswerKey[]): QuizQuestion[] {
+    const byPosition = new Map(keys.map((k) => [k.position, k]));
+    return questions.map((q) => {
+        const key = byPosition.get(q.position);
+        if (!key) return q;
+        return {
+            ...q,
+            marks: key.marks,
+            correct_option_index: key.correct_option_index ?? null,
+            correct_answer: key.correct_answer ?? null,
+            explanation: key.explanation ?? null,
+        };
+    });
+}
+
+/** Recomputes an attempt's scores from its responses after manual marking */
+export function summarizeAttempt(responses: QuizAttemptResponse[], questions: QuizQuestion[]): AttemptSummary {
+    const typeById = new Map(questions.map((q) => [q.id, q.question_type]));
+    let autoScore = 0;
+    let manualScore = 0;
+    let pendingCount = 0;
+
+    responses.forEach((r) => {
+        if (typeById.get(r.question_id) === 'short_answer') {
+            if (r.awarded_marks == null) pendingCount++;
+            else manualScore += r.awarded_marks;
+        } else {
+            autoScore += r.awarded_marks ?? 0;
+        }
+    });
+
+    return { autoScore, manualScore, pendingCount, status: pendingCount > 0 ? 'pending_marking' : 'marked' };
+}
+
+/** Attempt total scaled to a score component, rounded to one decimal place */
+export function scaleToComponent(attempt: Pick<QuizAttempt, 'auto_score' | 'manual_score' | 'max_score'>, componentMaxScore: number): number {
+    if (attempt.max_score <= 0) return 0;
+    const raw = ((attempt.auto_score + attempt.manual_score) / attempt.max_score) * componentMaxScore;
+    return Math.round(Math.min(componentMaxScore, raw) * 10) / 10;
+}
+
+/**
+ * Writes one named component into a score entry and recomputes its total,
+ * keeping ca_scores_breakdown and exam_score in step the way score entry does.
+ */
+export function mergeComponentScore(
+    existing: Pick<ScoreEntry, 'component_scores' | 'ca_scores_breakdown' | 'exam_score'> | null | undefined,
+    component: string,
+    value: number
+): Pick<ScoreEntry, 'component_scores' | 'total_score' | 'ca_scores_breakdown' | 'exam_score'> {
+    let current: Record<string, number> = { ...(existing?.component_scores || {}) };
+    if (Object.keys(current).length === 0 && existing?.ca_scores_breakdown) {
+        current = { ...existing.ca_scores_breakdown };
+    }
+    // Legacy entries keep the exam mark only in exam_score
+    if (existing?.exam_score !== undefined && existing?.exam_score !== null) {
+        current['Exam'] = Number(existing.exam_score);
+    }
+    const component_scores = { ...current, [component]: value };
+    const total_score = Object.values(component_scores).reduce((sum, v) => sum + (Number(v) || 0), 0);
+    const update: Pick<ScoreEntry, 'component_scores' | 'total_score' | 'ca_scores_breakdown' | 'exam_score'> = { component_scores, total_score };
+    if (component.startsWith('CA')) {
+        update.ca_scores_breakdown = { ...(existing?.ca_scores_breakdown || {}), [component]: value };
+    }
+    if (component === 'Exam') {
+        update.exam_score = value;
+    }
+    return update;
+}
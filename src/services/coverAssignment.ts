@@ -0,0 +1,146 @@
+import type { LeaveRequest, TeacherCheckin, TimetableCover, TimetableCoverSource, TimetableEntry, UserProfile } from '../types.js';
+import { isSlotUnavailable, type TeacherAvailabilityMap } from './teacherAvailability.js';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface TeacherAbsence {
+    teacherId: string;
+    source: TimetableCoverSource;
+    leaveRequestId?: number;
+}
+
+export interface UncoveredLesson {
+    entry: TimetableEntry;
+    absence: TeacherAbsence;
+    cover?: TimetableCover;
+}
+
+export interface CoverSuggestion {
+    teacherId: string;
+    teacherName: string;
+    teachesSubject: boolean;
+    coversThisTerm: number;
+    lessonsThatDay: number;
+}
+
+export interface CoverFairnessRow {
+    teacherId: string;
+    teacherName: string;
+    coversGiven: number;
+    coversNeeded: number;
+}
+
+/** Weekday name (Monday...) for a YYYY-MM-DD date, matching TimetableEntry.day_of_week */
+export function getWeekdayName(date: string): string {
+    return WEEKDAY_NAMES[new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Teachers absent on a date: approved leave that spans the date, or a check-in
+ * recorded as Absent. Leave wins when both exist so the cover links to the request.
+ */
+export function getAbsentTeachers(date: string, leaveRequests: LeaveRequest[], checkins: TeacherCheckin[]): TeacherAbsence[] {
+    const absences = new Map<string, TeacherAbsence>();
+    const day = date.slice(0, 10);
+
+    leaveRequests
+        .filter((leave) => leave.status === 'approved' && leave.start_date.slice(0, 10) <= day && leave.end_date.slice(0, 10) >= day)
+        .forEach((leave) => {
+            absences.set(leave.requester_id, { teacherId: leave.requester_id, source: 'leave', leaveRequestId: leave.id });
+        });
+
+    checkins
+        .filter((checkin) => checkin.checkin_date === day && checkin.status === 'Absent')
+        .forEach((checkin) => {
+            if (!absences.has(checkin.teacher_id)) {
+                absences.set(checkin.teacher_id, { teacherId: checkin.teacher_id, source: 'checkin' });
+            }
+        });
+
+    return [...absences.values()];
+}
+
+/** Timetable entries on the date's weekday taught by an absent teacher, with any cover already recorded */
+export function findLessonsNeedingCover(
+    date: string,
+    absences: TeacherAbsence[],
+    entries: TimetableEntry[],
+    covers: TimetableCover[]
+): UncoveredLesson[] {
+    const weekday = getWeekdayName(date);
+    const absenceByTeacher = new Map(absences.map((a) => [a.teacherId, a]));
+    return entries
+        .filter((entry) => entry.day_of_week === weekday && absenceByTeacher.has(entry.teacher_id))
+        .map((entry) => ({
+            entry,
+            absence: absenceByTeacher.get(entry.teacher_id)!,
+            cover: covers.find((c) => c.timetable_entry_id === entry.id && c.cover_date === date.slice(0, 10) && c.status === 'assigned'),
+        }));
+}
+
+interface SuggestParams {
+    lesson: TimetableEntry;
+    date: string;
+    entries: TimetableEntry[];
+    covers: TimetableCover[];
+    teachers: UserProfile[];
+    absentTeacherIds: Set<string>;
+    teacherAvailability?: TeacherAvailabilityMap;
+}
+
+/**
+ * Ranks free teachers for a lesson: nobody absent, teaching, already covering
+ * or marked unavailable in that slot. Same-subject teachers come first, then
+ * whoever has covered least this term, then the lightest day.
+ */
+export function suggestCoverTeachers(params: SuggestParams): CoverSuggestion[] {
+    const { lesson, date, entries, covers, teachers, absentTeacherIds, teacherAvailability = {} } = params;
+    const day = date.slice(0, 10);
+    const entryById = new Map(entries.map((e) => [e.id, e]));
+
+    const busyInSlot = new Set(
+        entries
+            .filter((e) => e.day_of_week === lesson.day_of_week && e.period_id === lesson.period_id && !absentTeacherIds.has(e.teacher_id))
+            .map((e) => e.teacher_id)
+    );
+    covers
+        .filter((c) => c.cover_date === day && c.status === 'assigned' && c.substitute_teacher_id)
+        .forEach((c) => {
+            const covered = entryById.get(c.timetable_entry_id);
+            if (covered && covered.period_id === lesson.period_id && c.timetable_entry_id !== lesson.id) {
+                busyInSlot.add(c.substitute_teacher_id!);
+            }
+        });
+
+    const suggestions: CoverSuggestion[] = teachers
+        .filter((t) => !absentTeacherIds.has(t.id) && !busyInSlot.has(t.id))
+        .filter((t) => !isSlotUnavailable(teacherAvailability[t.id], lesson.day_of_week, lesson.period_id))
+        .map((t) => ({
+            teacherId: t.id,
+            teacherName: t.name,
+            teachesSubject: entries.some((e) => e.teacher_id === t.id && e.subject_id === lesson.subject_id),
+            coversThisTerm: covers.filter((c) => c.substitute_teacher_id === t.id && c.status === 'assigned').length,
+            lessonsThatDay: entries.filter((e) => e.teacher_id === t.id && e.day_of_week === lesson.day_of_week).length,
+        }));
+
+    return suggestions.sort((a, b) => {
+        if (a.teachesSubject !== b.teachesSubject) return a.teachesSubject ? -1 : 1;
+        if (a.coversThisTerm !== b.coversThisTerm) return a.coversThisTerm - b.coversThisTerm;
+        if (a.lessonsThatDay !== b.lessonsThatDay) return a.lessonsThatDay - b.lessonsThatDay;
+        return a.teacherName.localeCompare(b.teacherName);
+    });
+}
+
+/** Covers given versus covers needed per teacher, busiest cover-givers first */
+export function buildCoverFairnessReport(covers: TimetableCover[], teachers: UserProfile[]): CoverFairnessRow[] {
+    const assigned = covers.filter((c) => c.status === 'assigned');
+    return teachers
+        .map((t) => ({
+            teacherId: t.id,
+            teacherName: t.name,
+            coversGiven: assigned.filter((c) => c.substitute_teacher_id === t.id).length,
+            coversNeeded: assigned.filter((c) => c.absent_teacher_id === t.id).length,
+        }))
+        .filter((row) => row.coversGiven > 0 || row.coversNeeded > 0)
+        .sort((a, b) => b.coversGiven - a.coversGiven || a.teacherName.localeCompare(b.teacherName));
+}
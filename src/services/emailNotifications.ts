@@ -0,0 +1,166 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+    EmailTemplate,
+    NotificationChannel,
+    NotificationType,
+    SmtpSettings,
+    Student,
+} from '../types.js';
+
+/**
+ * Email delivery for notifications. Email rows are queued by enqueue_notifications like SMS and
+ * WhatsApp, and sent by the send-email edge function over the school's SMTP server, with report
+ * cards, invoices, receipts and payslips attached as PDFs. See 20261106_email_notifications.sql.
+ */
+
+export type DeliveryChannel = Exclude<NotificationChannel, 'both'>;
+
+/** Channels a notification type can be set to, in delivery order */
+export const NOTIFICATION_CHANNELS: { id: DeliveryChannel; label: string }[] = [
+    { id: 'whatsapp', label: 'WhatsApp' },
+    { id: 'sms', label: 'SMS' },
+    { id: 'email', label: 'Email' },
+];
+
+/**
+ * A notification_channels entry as an ordered list. Old single values are still read; 'both'
+ * (WhatsApp, SMS if it fails) becomes WhatsApp, since SMS fallback is the enable_fallback switch.
+ * Mirrors notification_channel_list()
+ */
+export function normalizeChannels(value: NotificationChannel | NotificationChannel[] | null | undefined): DeliveryChannel[] {
+    if (Array.isArray(value)) {
+        const chosen = NOTIFICATION_CHANNELS.map(c => c.id).filter(id => value.includes(id));
+        return chosen.length > 0 ? chosen : ['sms'];
+    }
+    if (value === 'whatsapp' || value === 'both') return ['whatsapp'];
+    if (value === 'email') return ['email'];
+    return ['sms'];
+}
+
+const matchKey = (phone: string | null | undefined) => (phone || '').replace(/\D/g, '').slice(-10);
+
+/** The email that goes with the phone a message was sent to. Mirrors parent_email_for() */
+export function parentEmailFor(
+    student: Pick<Student, 'father_phone' | 'father_email' | 'mother_phone' | 'mother_email'>,
+    phone?: string | null
+): string | null {
+    const key = matchKey(phone);
+    const clean = (email?: string) => (email || '').trim() || null;
+    if (key && matchKey(student.mother_phone) === key && clean(student.mother_email)) return clean(student.mother_email);
+    if (key && matchKey(student.father_phone) === key && clean(student.father_email)) return clean(student.father_email);
+    return clean(student.father_email) || clean(student.mother_email);
+}
+
+export const escapeHtml = (text: string | null | undefined) =>
+    (text ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+/** Fills {{variables}} the way enqueue_notifications does: escaped in the body, plain in the subject */
+export function renderEmailTemplate(
+    template: Pick<EmailTemplate, 'subject' | 'html_body'>,
+    variables: Record<string, string>
+): { subject: string; html: string } {
+    let subject = template.subject;
+    let html = template.html_body;
+    Object.entries(variables).forEach(([key, value]) => {
+        subject = subject.split(`{{${key}}}`).join(value ?? '');
+        html = html.split(`{{${key}}}`).join(escapeHtml(value));
+    });
+    return { subject, html };
+}
+
+/**
+ * HTML for a plain-text (SMS/WhatsApp) message: escaped, line breaks kept and WhatsApp *bold*
+ * turned into <strong>. The send-email function uses the same conversion for types without an
+ * email template.
+ */
+export function textToEmailHtml(text: string): string {
+    return escapeHtml(text)
+        .replace(/\*([^*\n]+)\*/g, '<strong>$1</strong>')
+        .split(/\n{2,}/)
+        .map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+        .join('\n');
+}
+
+export async function getSmtpSettings(
+    client: SupabaseClient,
+    schoolId: number,
+    campusId: number | null
+): Promise<SmtpSettings | null> {
+    let query = client.from('smtp_settings').select('*').eq('school_id', schoolId);
+    query = campusId ? query.eq('campus_id', campusId) : query.is('campus_id', null);
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    return data as SmtpSettings | null;
+}
+
+/** A blank password keeps the stored one */
+export async function saveSmtpSettings(
+    client: SupabaseClient,
+    settings: Omit<SmtpSettings, 'id' | 'created_at' | 'updated_at'> & { id?: number }
+): Promise<SmtpSettings> {
+    const { id, password, ...fields } = settings;
+    const row = {
+        ...fields,
+        ...(password ? { password } : {}),
+        updated_at: new Date().toISOString(),
+    };
+    const query = id
+        ? client.from('smtp_settings').update(row).eq('id', id)
+        : client.from('smtp_settings').insert(row);
+    const { data, error } = await query.select().single();
+    if (error) throw error;
+    return data as SmtpSettings;
+}
+
+/** Sends a test email through the saved settings, attaching a sample PDF */
+export async function sendTestEmail(
+    client: SupabaseClient,
+    params: { schoolId: number; campusId: number | null; to: string }
+): Promise<void> {
+    const { data, error } = await client.functions.invoke('send-email', {
+        body: { test: true, school_id: params.schoolId, campus_id: params.campusId, to: params.to },
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Test email failed');
+}
+
+export async function getEmailTemplates(client: SupabaseClient, schoolId: number): Promise<EmailTemplate[]> {
+    const { data, error } = await client
+        .from('email_templates')
+        .select('*')
+        .eq('school_id', schoolId)
+        .order('notification_type');
+    if (error) throw error;
+    return (data || []) as EmailTemplate[];
+}
+
+export async function saveEmailTemplate(
+    client: SupabaseClient,
+    template: Pick<EmailTemplate, 'school_id' | 'notification_type' | 'subject' | 'html_body' | 'is_active'>
+): Promise<EmailTemplate> {
+    const { data, error } = await client
+        .from('email_templates')
+        .upsert({ ...template, updated_at: new Date().toISOString() }, { onConflict: 'school_id,notification_type' })
+        .select()
+        .single();
+    if (error) throw error;
+    return data as EmailTemplate;
+}
+
+export async function deleteEmailTemplate(
+    client: SupabaseClient,
+    schoolId: number,
+    notificationType: NotificationType
+): Promise<void> {
+    const { error } = await client
+        .from('email_templates')
+        .delete()
+        .eq('school_id', schoolId)
+        .eq('notification_type', notificationType);
+    if (error) throw error;
+}
@@ -0,0 +1,260 @@
+import type { StudentSubjectEnrollment, TimetableLocation } from '../types.js';
+
+export interface ExamCandidate {
+    studentId: number;
+    name: string;
+    level: string;
+    arm: string;
+}
+
+export interface ExamPaperRequest {
+    key: string; // `${level}|${subjectId}`
+    subjectId: number;
+    subjectName: string;
+    level: string;
+    candidates: ExamCandidate[];
+}
+
+export interface ExamSlot {
+    date: string; // YYYY-MM-DD
+    session: string; // e.g. "Morning"
+}
+
+export interface ScheduledPaper extends ExamSlot {
+    paper: ExamPaperRequest;
+}
+
+export interface ExamSeat {
+    studentId: number;
+    paperKey: string;
+    locationId: number;
+    seatNumber: number;
+}
+
+export interface InvigilationDuty extends ExamSlot {
+    locationId: number;
+    invigilatorId: string;
+}
+
+export interface ExamPlan {
+    schedule: ScheduledPaper[];
+    seats: Record<string, ExamSeat[]>; // keyed by slotKey
+    invigilation: InvigilationDuty[];
+    unscheduled: { paper: ExamPaperRequest; reason: string }[];
+    unseated: { slot: ExamSlot; studentIds: number[] }[];
+}
+
+export const slotKey = (slot: ExamSlot) => `${slot.date}|${slot.session}`;
+
+/** Exam days between two dates, skipping weekends */
+export function listExamDates(startDate: string, endDate: string): string[] {
+    const dates: string[] = [];
+    const end = new Date(`${endDate}T00:00:00Z`);
+    for (const d = new Date(`${startDate}T00:00:00Z`); d <= end; d.setUTCDate(d.getUTCDate() + 1)) {
+        const weekday = d.getUTCDay();
+        if (weekday !== 0 && weekday !== 6) dates.push(d.toISOString().slice(0, 10));
+    }
+    return dates;
+}
+
+/**
+ * One paper per (level, subject) from subject enrolments. Students are grouped
+ * by the level of their academic class so every arm of a level sits together.
+ */
+export function buildExamPapers(
+    enrollments: StudentSubjectEnrollment[],
+    classInfo: Record<number, { level: string; arm: string }>,
+    studentNames: Record<number, string>,
+    subjectNames: Record<number, string>
+): ExamPaperRequest[] {
+    const papers = new Map<string, ExamPaperRequest>();
+    enrollments
+        .filter((e) => e.is_enrolled && classInfo[e.academic_class_id])
+        .forEach((e) => {
+            const { level, arm } = classInfo[e.academic_class_id];
+            const key = `${level}|${e.subject_id}`;
+            if (!papers.has(key)) {
+                papers.set(key, { key, subjectId: e.subject_id, subjectName: subjectNames[e.subject_id] || 'Subject', level, candidates: [] });
+            }
+            const paper = papers.get(key)!;
+            if (!paper.candidates.some((c) => c.studentId === e.student_id)) {
+                paper.candidates.push({ studentId: e.student_id, name: studentNames[e.student_id] || `Student #${e.student_id}`, level, arm });
+            }
+        });
+    return [...papers.values()].sort((a, b) => a.level.localeCompare(b.level) || a.subjectName.localeCompare(b.subjectName));
+}
+
+/**
+ * Assigns every paper to a date/session so that no student sits two papers at
+ * once and each session fits in the total hall capacity. Papers sharing the most
+ * candidates with others are placed first; among valid slots the one that gives
+ * its candidates the fewest papers that day wins.
+ */
+export function scheduleExamPapers(
+    papers: ExamPaperRequest[],
+    dates: string[],
+    sessions: string[],
+    totalHallCapacity: number
+): { schedule: ScheduledPaper[]; unscheduled: { paper: ExamPaperRequest; reason: string }[] } {
+    const candidateSets = new Map(papers.map((p) => [p.key, new Set(p.candidates.map((c) => c.studentId))]));
+    const overlaps = (a: ExamPaperRequest, b: ExamPaperRequest) => {
+        const setB = candidateSets.get(b.key)!;
+        return a.candidates.some((c) => setB.has(c.studentId));
+    };
+    const conflictCount = new Map(papers.map((p) => [p.key, papers.filter((q) => q.key !== p.key && overlaps(p, q)).length]));
+
+    const ordered = [...papers].sort(
+        (a, b) => conflictCount.get(b.key)! - conflictCount.get(a.key)! || b.candidates.length - a.candidates.length || a.key.localeCompare(b.key)
+    );
+
+    const slots: ExamSlot[] = dates.flatMap((date) => sessions.map((session) => ({ date, session })));
+    const schedule: ScheduledPaper[] = [];
+    const unscheduled: { paper: ExamPaperRequest; reason: string }[] = [];
+
+    for (const paper of ordered) {
+        if (totalHallCapacity > 0 && paper.candidates.length > totalHallCapacity) {
+            unscheduled.push({ paper, reason: `${paper.candidates.length} candidates exceed total hall capacity of ${totalHallCapacity}.` });
+            continue;
+        }
+
+        let best: { slot: ExamSlot; sameDayLoad: number } | null = null;
+        let capacityBlocked = false;
+        for (const slot of slots) {
+            const inSlot = schedule.filter((s) => s.date === slot.date && s.session === slot.session);
+            if (inSlot.some((s) => overlaps(paper, s.paper))) continue;
+
+            const seated = inSlot.reduce((sum, s) => sum + s.paper.candidates.length, 0);
+            if (totalHallCapacity > 0 && seated + paper.candidates.length > totalHallCapacity) {
+                capacityBlocked = true;
+                continue;
+            }
+
+            const sameDayLoad = schedule.filter((s) => s.date === slot.date && overlaps(paper, s.paper)).length;
+            if (!best || sameDayLoad < best.sameDayLoad) best = { slot, sameDayLoad };
+            if (sameDayLoad === 0) break;
+        }
+
+        if (best) {
+            schedule.push({ ...best.slot, paper });
+        } else {
+            unscheduled.push({
+                paper,
+                reason: capacityBlocked
+                    ? 'Every clash-free session is already full.'
+                    : 'Every session clashes with another paper for at least one candidate.',
+            });
+        }
+    }
+
+    schedule.sort((a, b) => a.date.localeCompare(b.date) || sessions.indexOf(a.session) - sessions.indexOf(b.session) || a.paper.key.localeCompare(b.paper.key));
+    return { schedule, unscheduled };
+}
+
+/**
+ * Seats every candidate sitting in one session. Candidates are interleaved
+ * round-robin across arm groups (and papers) so neighbours come from different
+ * arms, then poured into halls largest-first.
+ */
+export function allocateSeating(
+    papersInSlot: ExamPaperRequest[],
+    halls: TimetableLocation[]
+): { seats: ExamSeat[]; unseated: number[] } {
+    const groups = new Map<string, { candidate: ExamCandidate; paperKey: string }[]>();
+    papersInSlot.forEach((paper) => {
+        paper.candidates.forEach((candidate) => {
+            const groupKey = `${candidate.level} ${candidate.arm}|${paper.key}`;
+            groups.set(groupKey, [...(groups.get(groupKey) || []), { candidate, paperKey: paper.key }]);
+        });
+    });
+
+    const queues = [...groups.entries()]
+        .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+        .map(([, list]) => [...list].sort((x, y) => x.candidate.name.localeCompare(y.candidate.name)));
+    const interleaved: { candidate: ExamCandidate; paperKey: string }[] = [];
+    while (queues.some((q) => q.length > 0)) {
+        queues.forEach((q) => {
+            const next = q.shift();
+            if (next) interleaved.push(next);
+        });
+    }
+
+    const orderedHalls = [...halls].sort((a, b) => (b.capacity || 0) - (a.capacity || 0) || a.name.localeCompare(b.name));
+    const seats: ExamSeat[] = [];
+    let cursor = 0;
+    for (const hall of orderedHalls) {
+        const capacity = hall.capacity || 0;
+        for (let seat = 1; seat <= capacity && cursor < interleaved.length; seat++, cursor++) {
+            const { candidate, paperKey } = interleaved[cursor];
+            seats.push({ studentId: candidate.studentId, paperKey, locationId: hall.id, seatNumber: seat });
+        }
+    }
+
+    return { seats, unseated: interleaved.slice(cursor).map((item) => item.candidate.studentId) };
+}
+
+/**
+ * Gives each occupied hall in each session ceil(candidates / ratio) invigilators,
+ * rotating through staff so duties stay even and nobody is in two halls at once.
+ */
+export function assignInvigilators(
+    seatsBySlot: Record<string, ExamSeat[]>,
+    slots: ExamSlot[],
+    invigilatorIds: string[],
+    candidatesPerInvigilator: number
+): InvigilationDuty[] {
+    const duties: InvigilationDuty[] = [];
+    const dutyCount = new Map(invigilatorIds.map((id) => [id, 0]));
+
+    for (const slot of slots) {
+        const seats = seatsBySlot[slotKey(slot)] || [];
+        const perHall = new Map<number, number>();
+        seats.forEach((s) => perHall.set(s.locationId, (perHall.get(s.locationId) || 0) + 1));
+        const busy = new Set<string>();
+
+        [...perHall.entries()].sort((a, b) => a[0] - b[0]).forEach(([locationId, count]) => {
+            const needed = Math.max(1, Math.ceil(count / Math.max(1, candidatesPerInvigilator)));
+            for (let i = 0; i < needed; i++) {
+                const next = invigilatorIds
+                    .filter((id) => !busy.has(id))
+                    .sort((a, b) => dutyCount.get(a)! - dutyCount.get(b)! || a.localeCompare(b))[0];
+                if (!next) return;
+                busy.add(next);
+                dutyCount.set(next, dutyCount.get(next)! + 1);
+                duties.push({ ...slot, locationId, invigilatorId: next });
+            }
+        });
+    }
+    return duties;
+}
+
+/** Runs scheduling, seating and invigilation end to end */
+export function buildExamPlan(params: {
+    papers: ExamPaperRequest[];
+    dates: string[];
+    sessions: string[];
+    halls: TimetableLocation[];
+    invigilatorIds: string[];
+    candidatesPerInvigilator: number;
+}): ExamPlan {
+    const { papers, dates, sessions, halls, invigilatorIds, candidatesPerInvigilator } = params;
+    const totalCapacity = halls.reduce((sum, h) => sum + (h.capacity || 0), 0);
+    const { schedule, unscheduled } = scheduleExamPapers(papers, dates, sessions, totalCapacity);
+
+    const seats: Record<string, ExamSeat[]> = {};
+    const unseated: ExamPlan['unseated'] = [];
+    const usedSlots: ExamSlot[] = [];
+    schedule.forEach((item) => {
+        const key = slotKey(item);
+        if (!usedSlots.some((s) => slotKey(s) === key)) usedSlots.push({ date: item.date, session: item.session });
+    });
+
+    usedSlots.forEach((slot) => {
+        const papersInSlot = schedule.filter((s) => slotKey(s) === slotKey(slot)).map((s) => s.paper);
+        const result = allocateSeating(papersInSlot, halls);
+        seats[slotKey(slot)] = result.seats;
+        if (result.unseated.length > 0) unseated.push({ slot, studentIds: result.unseated });
+    });
+
+    const invigilation = assignInvigilators(seats, usedSlots, invigilatorIds, candidatesPerInvigilator);
+    return { schedule, seats, invigilation, unscheduled, unseated };
+}
@@ -0,0 +1,136 @@
+import type { FeeItem, InstallmentStatus, InvoiceInstallment, LateFeeRule } from '../types.js';
+
+/**
+ * Installment schedules are fixed when an invoice is issued and stored in invoice_installments.
+ * Money credited to the invoice fills installments in due date order; refresh_invoice_installments
+ * and apply_late_fees in 20261029_add_invoice_installments.sql mirror the helpers below.
+ */
+
+export const DEFAULT_LATE_FEE_RULE: LateFeeRule = {
+    enabled: false,
+    type: 'flat',
+    value: 0,
+    grace_days: 7,
+    cap: null,
+};
+
+export type PlannedInstallment = Pick<InvoiceInstallment, 'sequence' | 'name' | 'due_date' | 'amount'>;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Schedule for an invoice covering the given fees. Fees that allow installments are split by
+ * their FeeItem.installments (amount or percentage, with rounding left on the last part); other
+ * fees fall due in full on the invoice due date. Parts due on the same day are merged.
+ */
+export function buildInstallmentSchedule(fees: FeeItem[], invoiceDueDate: string): PlannedInstallment[] {
+    const groups = new Map<string, { amount: number; names: string[] }>();
+    const add = (dueDate: string, amount: number, name?: string) => {
+        const group = groups.get(dueDate) || { amount: 0, names: [] };
+        group.amount = roundMoney(group.amount + amount);
+        if (name && !group.names.includes(name)) group.names.push(name);
+        groups.set(dueDate, group);
+    };
+
+    fees.forEach(fee => {
+        const feeAmount = Number(fee.amount) || 0;
+        const parts = fee.allow_installments ? fee.installments || [] : [];
+        if (parts.length === 0) {
+            add(invoiceDueDate, feeAmount);
+            return;
+        }
+        let scheduled = 0;
+        parts.forEach((part, index) => {
+            const amount = index === parts.length - 1
+                ? roundMoney(feeAmount - scheduled)
+                : roundMoney(part.percentage ? feeAmount * part.percentage / 100 : Number(part.amount) || 0);
+            scheduled = roundMoney(scheduled + amount);
+            add(part.due_date || invoiceDueDate, amount, part.name);
+        });
+    });
+
+    const dueDates = Array.from(groups.keys()).sort();
+    return dueDates.map((dueDate, index) => {
+        const group = groups.get(dueDate)!;
+        const name = group.names.length === 1
+            ? group.names[0]
+            : dueDates.length === 1 ? 'Full payment' : `Installment ${index + 1}`;
+        return { sequence: index + 1, name, due_date: dueDate, amount: group.amount };
+    });
+}
+
+/** Spreads what has been paid on the invoice across its installments, earliest due first */
+export function deriveInstallmentProgress<T extends PlannedInstallment>(
+    installments: T[],
+    amountPaid: number,
+    today: string
+): (T & { amount_paid: number; status: InstallmentStatus })[] {
+    let pool = Number(amountPaid) || 0;
+    return [...installments]
+        .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.sequence - b.sequence)
+        .map(installment => {
+            const paid = roundMoney(Math.max(Math.min(pool, installment.amount), 0));
+            pool = roundMoney(pool - paid);
+            let status: InstallmentStatus = 'due';
+            if (paid >= installment.amount) status = 'paid';
+            else if (installment.due_date < today) status = 'overdue';
+            else if (paid > 0) status = 'part_paid';
+            return { ...installment, amount_paid: paid, status };
+        });
+}
+
+/**
+ * Resizes a schedule to a new invoice total. An increase falls due with the last installment;
+ * a decrease comes off the latest installments first. Mirrors how store charges and their
+ * reversals are applied in 20261103_store_orders_on_fee_account.sql.
+ */
+export function resizeInstallments<T extends PlannedInstallment>(installments: T[], total: number): T[] {
+    const ordered = [...installments].sort((a, b) => b.due_date.localeCompare(a.due_date) || b.sequence - a.sequence);
+    let change = roundMoney((Number(total) || 0) - ordered.reduce((sum, i) => sum + Number(i.amount), 0));
+    const amounts = new Map<T, number>();
+    ordered.forEach((installment, index) => {
+        let amount = Number(installment.amount);
+        if (change > 0 && index === 0) {
+            amount = roundMoney(amount + change);
+            change = 0;
+        } else if (change < 0) {
+            const share = Math.min(-change, amount);
+            amount = roundMoney(amount - share);
+            change = roundMoney(change + share);
+        }
+        amounts.set(installment, amount);
+    });
+    return installments.map(installment => ({ ...installment, amount: amounts.get(installment)! }));
+}
+
+/** Late fee for one overdue installment with the given amount still outstanding */
+export function computeLateFee(rule: LateFeeRule | null | undefined, outstanding: number): number {
+    if (!rule?.enabled || outstanding <= 0) return 0;
+    let fee = rule.type === 'percentage'
+        ? roundMoney(outstanding * (Number(rule.value) || 0) / 100)
+        : Number(rule.value) || 0;
+    if (rule.cap && rule.cap > 0) fee = Math.min(fee, rule.cap);
+    return fee > 0 ? fee : 0;
+}
+
+const addDays = (isoDate: string, days: number) => {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+};
+
+/**
+ * The installment a reminder should be about: the earliest one not yet paid, provided it is
+ * overdue or falls due within windowDays. Null when nothing needs chasing yet.
+ */
+export function pickReminderInstallment<T extends Pick<InvoiceInstallment, 'due_date' | 'amount' | 'amount_paid' | 'sequence'>>(
+    installments: T[],
+    today: string,
+    windowDays: number
+): T | null {
+    const horizon = addDays(today, windowDays);
+    const next = installments
+        .filter(i => Number(i.amount_paid) < Number(i.amount))
+        .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.sequence - b.sequence)[0];
+    return next && next.due_date <= horizon ? next : null;
+}
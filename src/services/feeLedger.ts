@@ -0,0 +1,196 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+    LedgerPaymentMethod,
+    type FeeReconciliationRow,
+    type LedgerPayment,
+    type LedgerPaymentSource,
+    type PaymentReceiptPayload,
+    type ReceiptAllocationLine,
+} from '../types.js';
+
+/**
+ * Every payment path (Paystack webhook, manual entry, CSV import) records through the
+ * record_student_payment RPC. It writes the ledger payment and its allocations, and
+ * student_invoices.amount_paid/status are derived from those allocations by trigger.
+ *
+ * Allocation clears fee lines oldest term first and, within a term, by FeeItem.priority
+ * (1 first). An invoice the payer named is cleared before anything else.
+ */
+
+export interface RecordStudentPaymentInput {
+    schoolId: number;
+    studentId: number;
+    amount: number;
+    method: LedgerPaymentMethod;
+    reference?: string | null;
+    source: LedgerPaymentSource;
+    paidAt?: string | null;
+    /** Invoice the payer meant to settle; the remainder flows to other open invoices */
+    invoiceId?: number | null;
+    meta?: Record<string, unknown>;
+}
+
+export interface RecordedPaymentAllocation {
+    invoice_id: number;
+    invoice_number: string;
+    invoice_line_item_id: number | null;
+    description: string | null;
+    amount: number;
+}
+
+export interface RecordStudentPaymentResult {
+    payment_id: number;
+    payment_ref: string;
+    receipt_no: string | null;
+    /** True when a payment with the same reference was already on the ledger */
+    duplicate: boolean;
+    allocations?: RecordedPaymentAllocation[];
+    unallocated?: number;
+    /** Outstanding across the student's invoices after this payment, less any credit */
+    balance?: number;
+}
+
+// Keep in step with the method mapping used for the legacy backfill in 20261027_unify_fee_ledger.sql
+export function toLedgerPaymentMethod(label: string | null | undefined): LedgerPaymentMethod {
+    const value = (label || '').toLowerCase();
+    if (value.includes('pos')) return LedgerPaymentMethod.POS;
+    if (value.includes('cash')) return LedgerPaymentMethod.Cash;
+    if (value.includes('card') || value.includes('paystack')) return LedgerPaymentMethod.Paystack;
+    if (value.includes('transfer') || value.includes('dva')) return LedgerPaymentMethod.Transfer;
+    return LedgerPaymentMethod.Offline;
+}
+
+export async function recordStudentPayment(
+    client: SupabaseClient,
+    input: RecordStudentPaymentInput
+): Promise<RecordStudentPaymentResult> {
+    const { data, error } = await client.rpc('record_student_payment', {
+        p_school_id: input.schoolId,
+        p_student_id: input.studentId,
+        p_amount: input.amount,
+        p_method: input.method,
+        p_reference: input.reference || null,
+        p_source: input.source,
+        p_paid_at: input.paidAt || new Date().toISOString(),
+        p_invoice_id: input.invoiceId ?? null,
+        p_meta: input.meta || {},
+    });
+    if (error) throw error;
+    return data as RecordStudentPaymentResult;
+}
+
+/** Clears and re-applies allocations, e.g. after bill clearing priorities change. Omit studentId for the whole school. */
+export async function reallocateStudentPayments(
+    client: SupabaseClient,
+    schoolId: number,
+    studentId?: number
+): Promise<{ payments: number; students: number }> {
+    const { data, error } = await client.rpc('reallocate_student_payments', {
+        p_school_id: schoolId,
+        p_student_id: studentId ?? null,
+    });
+    if (error) throw error;
+    return data as { payments: number; students: number };
+}
+
+/**
+ * Receipt for a ledger payment loaded with its allocations (and their invoice and line).
+ * Lines follow allocation order, so the receipt reads in the order fees were cleared.
+ */
+export function buildPaymentReceipt(
+    payment: LedgerPayment,
+    studentName: string,
+    currentBalance: number
+): PaymentReceiptPayload {
+    const allocations: ReceiptAllocationLine[] = [...(payment.allocations || [])]
+        .sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+        .map(a => ({
+            invoice_no: a.invoice?.invoice_number || `#${a.invoice_id}`,
+            description: a.line?.description || (a.invoice_line_item_id ? 'Fee item' : 'Other charges'),
+            amount: Number(a.allocated_amount),
+        }));
+    const allocated = allocations.reduce((sum, line) => sum + line.amount, 0);
+    const credit = Math.round((Number(payment.amount) - allocated) * 100) / 100;
+    if (credit > 0) {
+        allocations.push({ invoice_no: '-', description: 'Credit carried forward', amount: credit });
+    }
+
+    const recordedBalance = payment.meta?.balance_after;
+    return {
+        receipt_no: payment.receipt_no || payment.payment_ref,
+        student_name: studentName,
+        student_id: payment.student_id,
+        payment_ref: payment.payment_ref,
+        amount: Number(payment.amount),
+        method: payment.method,
+        paid_at: payment.paid_at,
+        allocations,
+        balance_after: recordedBalance !== undefined && recordedBalance !== null ? Number(recordedBalance) : currentBalance,
+    };
+}
+
+/**
+ * Amount to record when a CSV import says an invoice has more paid than the ledger holds.
+ * Imports can only add money; a lower figure in the file never removes a payment.
+ */
+export function getImportedPaymentTopUp(importedAmountPaid: unknown, ledgerAmountPaid: number): number {
+    const imported = Number(importedAmountPaid);
+    if (!Number.isFinite(imported)) return 0;
+    const topUp = Math.round((imported - (ledgerAmountPaid || 0)) * 100) / 100;
+    return topUp > 0 ? topUp : 0;
+}
+
+const RECONCILIATION_TOLERANCE = 0.005;
+
+/** Reasons a student's balances disagree, in the order a bursar would check them */
+export function describeReconciliationRow(row: FeeReconciliationRow): string[] {
+    const reasons: string[] = [];
+    if (row.unmigrated_payments > 0) {
+        reasons.push(`${row.unmigrated_payments} legacy payment(s) could not be matched to the ledger`);
+    }
+    if (Math.abs(row.legacy_balance - row.ledger_balance) > RECONCILIATION_TOLERANCE) {
+        reasons.push('Balance before the ledger migration differs from the ledger');
+    }
+    if (Math.abs(row.adjustments) > RECONCILIATION_TOLERANCE) {
+        reasons.push('Discounts or surcharges are not reflected on the invoices');
+    }
+    if (row.unallocated_credit > RECONCILIATION_TOLERANCE) {
+        reasons.push('Payment credit not yet allocated to an invoice');
+    }
+    if (reasons.length === 0 && Math.abs(row.invoice_balance - row.ledger_balance) > RECONCILIATION_TOLERANCE) {
+        reasons.push('Invoice balance differs from the ledger');
+    }
+    return reasons;
+}
+
+export function summarizeReconciliation(rows: FeeReconciliationRow[]): {
+    students: number;
+    flagged: number;
+    invoiceBalance: number;
+    ledgerBalance: number;
+} {
+    return rows.reduce(
+        (summary, row) => ({
+            students: summary.students + 1,
+            flagged: summary.flagged + (row.flagged ? 1 : 0),
+            invoiceBalance: summary.invoiceBalance + Number(row.invoice_balance || 0),
+            ledgerBalance: summary.ledgerBalance + Number(row.ledger_balance || 0),
+        }),
+        { students: 0, flagged: 0, invoiceBalance: 0, ledgerBalance: 0 }
+    );
+}
+
+export async function fetchFeeReconciliation(client: SupabaseClient, schoolId: number): Promise<FeeReconciliationRow[]> {
+    const { data, error } = await client.rpc('get_fee_reconciliation', { p_school_id: schoolId });
+    if (error) throw error;
+    return ((data || []) as FeeReconciliationRow[]).map(row => ({
+        ...row,
+        invoiced: Number(row.invoiced),
+        invoice_balance: Number(row.invoice_balance),
+        legacy_balance: Number(row.legacy_balance),
+        ledger_balance: Number(row.ledger_balance),
+        adjustments: Number(row.adjustments),
+        unallocated_credit: Number(row.unallocated_credit),
+        legacy_payments: Number(row.legacy_payments),
+    }));
+}
@@ -11,9 +11,12 @@
  * 4. uploadFile - Pre-upload for bulk sending (valid 15 days)
  * 5. forwardMessages - Forward messages to multiple chats
  * 6. sendInteractiveButtons - Send messages with action buttons (Beta)
+ *
+ * Incoming replies arrive through the greenapi-webhook function (see whatsappInbox.ts).
  */
 
 import { requireSupabaseClient } from './supabaseClient';
+import { recordOutboundWhatsApp } from './whatsappInbox';
 import type {
     GreenApiSettings,
     GreenApiSendMessageParams,
@@ -343,6 +346,19 @@ export async function sendInteractiveButtons(
         }
     );
     
+    // Keep the prompt in the family thread so button replies are linked back to it
+    try {
+        await recordOutboundWhatsApp(requireSupabaseClient(), {
+            chatId: params.chatId,
+            body: params.body,
+            providerMessageId: response.idMessage,
+            buttons: params.buttons.map(({ buttonId, buttonText }) => ({ buttonId, buttonText })),
+            campusId,
+        });
+    } catch (error) {
+        console.warn('Sent buttons message but could not record it in the inbox:', error);
+    }
+    
     return response;
 }
 
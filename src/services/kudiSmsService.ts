@@ -5,11 +5,13 @@
  */
 
 import { requireSupabaseClient } from './supabaseClient';
+import { queueNotifications } from './messageOutbox';
 import type {
     KudiSmsResponse,
     KudiSmsRecipient,
     KudiSmsSettings,
-    NotificationType
+    NotificationType,
+    NotificationAttachment
 } from '../types';
 
 const KUDI_SMS_BASE_URL = 'https://my.kudisms.net/api';
@@ -237,12 +239,16 @@ interface SendNotificationParams {
     variables: Record<string, string>;
     studentId?: number;
     campusId?: number;
+    recipientEmail?: string;
+    attachments?: NotificationAttachment[];
 }
 
 interface SendResult {
     success: boolean;
     channel: 'sms' | 'whatsapp';
     fallback?: boolean;
+    /** Accepted by the message outbox; the channel is decided at delivery */
+    queued?: boolean;
     message?: string;
     error?: string;
 }
@@ -479,51 +485,41 @@ export async function sendWhatsAppMessage(
 }
 
 /**
- * Send notification using the preferred channel for the notification type
+ * Queue a notification in the message outbox. The processor sends it on the preferred
+ * channel for the notification type, falling back to SMS when enabled, and retries failures.
  */
 export async function sendNotificationWithChannel(
     type: NotificationType,
     params: SendNotificationParams
 ): Promise<SendResult> {
-    const { schoolId, campusId } = params;
+    const { recipientPhone, templateName, variables, studentId, campusId, recipientEmail, attachments } = params;
 
     try {
-        // 1. Get settings for school
-        const settings = await getKudiSmsSettings(schoolId, campusId);
-        
-        if (!settings) {
+        const result = await queueNotifications(requireSupabaseClient(), [{
+            recipient_phone: recipientPhone,
+            notification_type: type,
+            template_name: templateName,
+            variables,
+            student_id: studentId,
+            campus_id: campusId,
+            recipient_email: recipientEmail,
+            attachments,
+        }]);
+
+        if (result.queued === 0) {
             return {
                 success: false,
                 channel: 'sms',
-                error: 'Kudi SMS not configured'
+                error: 'Message could not be queued; see Notification History'
             };
         }
 
-        // 2. Get channel preference for this notification type
-        const channel = settings.notification_channels?.[type] || 'sms';
-
-        // 3. Try preferred channel
-        if (channel === 'whatsapp' || channel === 'both') {
-            const result = await sendWhatsAppMessage(params);
-            
-            if (result.success) {
-                return result;
-            }
-
-            // Fallback to SMS if enabled and WhatsApp failed
-            if (channel === 'both' || settings.enable_fallback) {
-                const smsResult = await sendSms(params);
-                return {
-                    ...smsResult,
-                    fallback: true
-                };
-            }
-
-            return result;
-        }
-
-        // 4. SMS only
-        return await sendSms(params);
+        return {
+            success: true,
+            channel: 'sms',
+            queued: true,
+            message: 'Queued for delivery'
+        };
     } catch (error: any) {
         return {
             success: false,
@@ -0,0 +1,131 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationType, OutboxMessage, OutboxRequest, OutboxStatus, QuietHours } from '../types.js';
+
+/**
+ * Outbound notifications are queued in message_outbox and delivered server-side by the
+ * process-message-outbox edge function, with retries and quiet hours handled in
+ * 20261104_message_outbox.sql. Senders only enqueue; the browser can close straight after.
+ */
+
+export const OUTBOX_STATUSES: OutboxStatus[] = ['queued', 'sending', 'sent', 'failed', 'dead'];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+    homework_reminder: 'Homework Reminder',
+    homework_missing: 'Homework Missing',
+    notes_incomplete: 'Notes Incomplete',
+    lesson_published: 'Lesson Published',
+    payment_receipt: 'Payment Receipt',
+    attendance_present: 'Attendance Present',
+    absentee_alert: 'Absentee Alert',
+    late_arrival: 'Late Arrival',
+    subject_absentee: 'Subject Absentee',
+    subject_late: 'Subject Late',
+    report_card_ready: 'Report Card Ready',
+    emergency_broadcast: 'Emergency Broadcast',
+    student_credentials: 'Student Credentials',
+    password_reset: 'Password Reset',
+    payslip_published: 'Payslip Published',
+    dva_account_created: 'Virtual Account Created',
+    cover_assigned: 'Cover Assigned',
+    general: 'General',
+};
+
+/** Lagos is UTC+1 all year */
+const LAGOS_OFFSET_MINUTES = 60;
+
+const parseClock = (value: string): number | null => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec((value || '').trim());
+    if (!match) return null;
+    const minutes = Number(match[1]) * 60 + Number(match[2]);
+    return minutes < 24 * 60 ? minutes : null;
+};
+
+/**
+ * Earliest time at or after `at` outside the quiet window. Mirrors outbox_release_time().
+ * A start later than the end (21:00-07:00) is an overnight window.
+ */
+export function quietHoursRelease(quiet: QuietHours | null | undefined, at: Date): Date {
+    if (!quiet?.enabled) return at;
+    const start = parseClock(quiet.start);
+    const end = parseClock(quiet.end);
+    if (start === null || end === null || start === end) return at;
+
+    const local = new Date(at.getTime() + LAGOS_OFFSET_MINUTES * 60000);
+    const minuteOfDay = local.getUTCHours() * 60 + local.getUTCMinutes() + local.getUTCSeconds() / 60;
+    const localMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+    const releaseOn = (dayOffset: number) =>
+        new Date(localMidnight + (dayOffset * 24 * 60 + end - LAGOS_OFFSET_MINUTES) * 60000);
+
+    if (start < end) {
+        return minuteOfDay >= start && minuteOfDay < end ? releaseOn(0) : at;
+    }
+    if (minuteOfDay >= start) return releaseOn(1);
+    if (minuteOfDay < end) return releaseOn(0);
+    return at;
+}
+
+/** Minutes to wait after the given attempt failed. Mirrors outbox_retry_delay_minutes() */
+export const outboxRetryDelayMinutes = (attempts: number) =>
+    Math.min(4 ** (Math.max(attempts, 1) - 1), 360);
+
+export type OutboxSummary = Record<OutboxStatus, number> & { total: number };
+
+export function summarizeOutbox(rows: Pick<OutboxMessage, 'status'>[]): OutboxSummary {
+    const summary = { queued: 0, sending: 0, sent: 0, failed: 0, dead: 0, total: rows.length };
+    rows.forEach(row => { summary[row.status] += 1; });
+    return summary;
+}
+
+/** A batch is finished once nothing in it is waiting or in flight; failed rows are still retrying */
+export const isBatchSettled = (summary: OutboxSummary) =>
+    summary.queued + summary.sending + summary.failed === 0;
+
+export interface EnqueueResult {
+    batch_id: string;
+    queued: number;
+    rejected: number;
+}
+
+/**
+ * Queues one batch of notifications and nudges the processor so they go out without waiting
+ * for the next scheduled run. Templates are rendered server-side from sms_templates.
+ */
+export async function queueNotifications(
+    client: SupabaseClient,
+    messages: OutboxRequest[],
+    options: { sendAfter?: Date | string | null; bypassQuietHours?: boolean; sentBy?: string } = {}
+): Promise<EnqueueResult> {
+    const { data, error } = await client.rpc('enqueue_notifications', {
+        p_messages: messages,
+        p_send_after: options.sendAfter ? new Date(options.sendAfter).toISOString() : null,
+        p_bypass_quiet_hours: options.bypassQuietHours ?? false,
+        p_sent_by: options.sentBy ?? null,
+    });
+    if (error) throw error;
+    const result = data as EnqueueResult;
+    if (result.queued > 0) triggerOutboxRun(client);
+    return result;
+}
+
+/** Fire-and-forget: the scheduled run picks the messages up anyway if this call fails */
+export function triggerOutboxRun(client: SupabaseClient): void {
+    client.functions.invoke('process-message-outbox', { body: {} }).catch(error => {
+        console.warn('Could not start outbox run; the scheduler will deliver the messages:', error);
+    });
+}
+
+export async function retryOutboxMessage(client: SupabaseClient, id: number): Promise<void> {
+    const { error } = await client.rpc('retry_outbox_message', { p_id: id });
+    if (error) throw error;
+    triggerOutboxRun(client);
+}
+
+export async function getOutboxBatch(client: SupabaseClient, batchId: string): Promise<OutboxMessage[]> {
+    const { data, error } = await client
+        .from('message_outbox')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('id');
+    if (error) throw error;
+    return (data || []) as OutboxMessage[];
+}
@@ -0,0 +1,126 @@
+import {
+    InvoiceStatus,
+    LedgerAdjustmentType,
+    LedgerPaymentStatus,
+    type InvoiceInstallment,
+    type LedgerPayment,
+    type StudentAdjustment,
+    type StudentBalanceSummary,
+    type StudentInvoice,
+} from '../types.js';
+
+/**
+ * Fee statement and checkout helpers for the parent portal. Balances follow the ledger view used
+ * by get_fee_reconciliation: invoice totals plus adjustments not already posted to an invoice,
+ * less every successful payment (so unallocated credit brings the balance down).
+ */
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const isCharge = (type: LedgerAdjustmentType) =>
+    type === LedgerAdjustmentType.Surcharge || type === LedgerAdjustmentType.Correction;
+
+export const invoiceOutstanding = (invoice: Pick<StudentInvoice, 'total_amount' | 'amount_paid'>) =>
+    roundMoney(Math.max(Number(invoice.total_amount) - Number(invoice.amount_paid), 0));
+
+/** Invoices a parent can still pay, oldest due first (the order allocation clears them) */
+export function openInvoices<T extends StudentInvoice>(invoices: T[]): T[] {
+    return invoices
+        .filter(inv => inv.status !== InvoiceStatus.Void && invoiceOutstanding(inv) > 0)
+        .sort((a, b) => (a.due_date || a.created_at).localeCompare(b.due_date || b.created_at) || a.id - b.id);
+}
+
+export function summarizeChildFees(
+    studentId: number,
+    invoices: StudentInvoice[],
+    adjustments: StudentAdjustment[],
+    payments: LedgerPayment[]
+): StudentBalanceSummary {
+    const billed = invoices.filter(inv => inv.status !== InvoiceStatus.Void);
+    // Late fees are added to the invoice total, so they move from "invoiced" to "surcharges"
+    const postedCharges = adjustments
+        .filter(adj => adj.posted_to_invoice && isCharge(adj.type))
+        .reduce((sum, adj) => sum + Number(adj.amount), 0);
+    const surcharges = adjustments
+        .filter(adj => isCharge(adj.type))
+        .reduce((sum, adj) => sum + Number(adj.amount), 0);
+    const reliefs = adjustments
+        .filter(adj => !adj.posted_to_invoice && !isCharge(adj.type))
+        .reduce((sum, adj) => sum + Number(adj.amount), 0);
+    const successful = payments.filter(p => p.status === LedgerPaymentStatus.Success);
+    const paid = successful.reduce((sum, p) => sum + Number(p.amount), 0);
+    const invoiced = billed.reduce((sum, inv) => sum + Number(inv.total_amount), 0) - postedCharges;
+    const latest = [...billed].sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+    return {
+        student_id: studentId,
+        session_id: 0,
+        term_id: latest?.term_id || 0,
+        total_invoiced: roundMoney(invoiced),
+        total_surcharges: roundMoney(surcharges),
+        total_reliefs: roundMoney(reliefs),
+        total_paid: roundMoney(paid),
+        balance: roundMoney(invoiced + surcharges - reliefs - paid),
+        last_payment_date: successful.map(p => p.paid_at).sort().pop() || null,
+    };
+}
+
+export type ParentCheckoutTarget =
+    | { kind: 'balance' }
+    | { kind: 'invoice'; invoice: StudentInvoice }
+    | { kind: 'installment'; invoice: StudentInvoice; installment: InvoiceInstallment };
+
+export interface ParentCheckoutRequest {
+    label: string;
+    /** Naira; Paystack is sent amount * 100 in kobo */
+    amount: number;
+    reference: string;
+    invoiceId: number | null;
+    installmentId: number | null;
+}
+
+/**
+ * Amount and reference for an inline checkout. The INVOICE-{id} prefix lets paystack-webhook
+ * (and a later webhook replay) settle that invoice first; paying the whole balance targets the
+ * oldest open invoice and record_student_payment spills the rest over by clearing priority.
+ */
+export function buildParentCheckout(
+    studentId: number,
+    target: ParentCheckoutTarget,
+    summary: StudentBalanceSummary,
+    invoices: StudentInvoice[],
+    now: number = Date.now()
+): ParentCheckoutRequest {
+    const stamp = now.toString(36).toUpperCase();
+
+    if (target.kind === 'installment') {
+        const { invoice, installment } = target;
+        const due = roundMoney(Number(installment.amount) - Number(installment.amount_paid));
+        return {
+            label: `${installment.name} on ${invoice.invoice_number}`,
+            amount: Math.min(due, invoiceOutstanding(invoice)),
+            reference: `INVOICE-${invoice.id}-I${installment.id ?? installment.sequence}-${stamp}`,
+            invoiceId: invoice.id,
+            installmentId: installment.id ?? null,
+        };
+    }
+
+    if (target.kind === 'invoice') {
+        return {
+            label: `Invoice ${target.invoice.invoice_number}`,
+            amount: invoiceOutstanding(target.invoice),
+            reference: `INVOICE-${target.invoice.id}-${stamp}`,
+            invoiceId: target.invoice.id,
+            installmentId: null,
+        };
+    }
+
+    const oldest = openInvoices(invoices)[0];
+    return {
+        label: 'Outstanding balance',
+        amount: roundMoney(Math.max(summary.balance, 0)),
+        reference: oldest ? `INVOICE-${oldest.id}-B-${stamp}` : `FEES-${studentId}-${stamp}`,
+        invoiceId: oldest?.id ?? null,
+        installmentId: null,
+    };
+}
@@ -0,0 +1,123 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Holiday, LeaveRequest, ProrationLineMetadata, UserProfile } from '../types.js';
+import { isExcusedDate, shortDate } from './attendanceFines.js';
+
+/**
+ * Pro-rating for the payroll pre-run. A month's pay covers the school's working days: weekdays
+ * that are not holidays. Staff who join or leave mid-month, or take unpaid leave, are paid for the
+ * working days they were employed and not on unpaid leave.
+ */
+
+export interface Proration {
+    working_days: number;
+    paid_days: number;
+    unpaid_leave_days: number;
+    factor: number;
+    detail: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function periodBounds(year: number, month: number): { start: string; end: string } {
+    return {
+        start: `${year}-${pad(month)}-01`,
+        end: `${year}-${pad(month)}-${pad(new Date(Date.UTC(year, month, 0)).getUTCDate())}`,
+    };
+}
+
+/** Weekdays in the month that are not school holidays, as YYYY-MM-DD */
+export function schoolWorkingDates(year: number, month: number, holidays: Pick<Holiday, 'date' | 'is_recurring'>[]): string[] {
+    const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const dates: string[] = [];
+    for (let day = 1; day <= days; day++) {
+        const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+        const date = `${year}-${pad(month)}-${pad(day)}`;
+        if (weekday !== 0 && weekday !== 6 && !isExcusedDate(date, holidays, [])) dates.push(date);
+    }
+    return dates;
+}
+
+/** Whether the staff member was employed at any point in the month */
+export function employedInPeriod(
+    staff: Pick<UserProfile, 'employment_start_date' | 'employment_end_date'>,
+    year: number,
+    month: number
+): boolean {
+    const { start, end } = periodBounds(year, month);
+    return !(staff.employment_start_date && staff.employment_start_date > end)
+        && !(staff.employment_end_date && staff.employment_end_date < start);
+}
+
+export function computeProration(params: {
+    year: number;
+    month: number;
+    holidays: Pick<Holiday, 'date' | 'is_recurring'>[];
+    startDate?: string | null;
+    endDate?: string | null;
+    unpaidLeave: Pick<LeaveRequest, 'start_date' | 'end_date'>[];
+}): Proration {
+    const { year, month, holidays, startDate, endDate, unpaidLeave } = params;
+    const { start, end } = periodBounds(year, month);
+    const workingDates = schoolWorkingDates(year, month, holidays);
+    const employedDates = workingDates.filter(date => (!startDate || date >= startDate) && (!endDate || date <= endDate));
+    const unpaidLeaveDays = employedDates.filter(date => unpaidLeave.some(l => l.start_date <= date && date <= l.end_date)).length;
+    const paidDays = employedDates.length - unpaidLeaveDays;
+    // A month with no working days at all is paid in full
+    const factor = workingDates.length > 0 ? paidDays / workingDates.length : 1;
+
+    const reasons = [
+        startDate && startDate > start && startDate <= end ? `joined ${shortDate(startDate)}` : null,
+        endDate && endDate >= start && endDate < end ? `left ${shortDate(endDate)}` : null,
+        unpaidLeaveDays > 0 ? `${unpaidLeaveDays} day${unpaidLeaveDays === 1 ? '' : 's'} unpaid leave` : null,
+    ].filter(Boolean);
+
+    return {
+        working_days: workingDates.length,
+        paid_days: paidDays,
+        unpaid_leave_days: unpaidLeaveDays,
+        factor,
+        detail: `${paidDays} of ${workingDates.length} working days${reasons.length ? ` (${reasons.join(', ')})` : ''}`,
+    };
+}
+
+export function prorate(amount: number, proration: Pick<Proration, 'factor'>): number {
+    return Math.round(amount * proration.factor * 100) / 100;
+}
+
+export function prorationMetadata(fullAmount: number, proration: Proration): ProrationLineMetadata {
+    return {
+        source: 'proration',
+        full_amount: fullAmount,
+        paid_days: proration.paid_days,
+        working_days: proration.working_days,
+        detail: `${fullAmount.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} × ${proration.detail}`,
+    };
+}
+
+/** Holidays and approved unpaid leave overlapping the month */
+export async function getProrationInputs(
+    client: SupabaseClient,
+    schoolId: number,
+    year: number,
+    month: number
+): Promise<{ holidays: Holiday[]; unpaidLeave: LeaveRequest[] }> {
+    const { start, end } = periodBounds(year, month);
+    const [holidays, leave] = await Promise.all([
+        client.from('holidays').select('*').eq('school_id', schoolId),
+        client
+            .from('leave_requests')
+            .select('*, leave_type:leave_types!inner(*)')
+            .eq('school_id', schoolId)
+            .eq('status', 'approved')
+            .eq('leave_type.is_unpaid', true)
+            .lte('start_date', end)
+            .gte('end_date', start),
+    ]);
+    if (holidays.error) throw holidays.error;
+    if (leave.error) throw leave.error;
+
+    return {
+        holidays: (holidays.data || []) as Holiday[],
+        unpaidLeave: (leave.data || []) as LeaveRequest[],
+    };
+}
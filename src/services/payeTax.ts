@@ -0,0 +1,274 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PayeSettings, PayeTaxBand, StaffTaxRecord } from '../types.js';
+
+/**
+ * Statutory PAYE for payroll runs. Tax is worked out on the cumulative basis: pay to date is
+ * annualised, taxed on the school's annual bands after consolidated relief and the tax-exempt
+ * pension, NHF and NHIS deductions, and the month's tax is what is due to date less what
+ * staff_tax_records shows was already deducted this year. See 20261107_paye_tax.sql.
+ */
+
+/** Personal Income Tax Act schedule */
+export const DEFAULT_PAYE_BANDS: PayeTaxBand[] = [
+    { band_size: 300000, rate: 7 },
+    { band_size: 300000, rate: 11 },
+    { band_size: 500000, rate: 15 },
+    { band_size: 500000, rate: 19 },
+    { band_size: 1600000, rate: 21 },
+    { band_size: null, rate: 24 },
+];
+
+export const DEFAULT_PAYE_SETTINGS: Omit<PayeSettings, 'school_id'> = {
+    is_enabled: true,
+    tax_bands: DEFAULT_PAYE_BANDS,
+    cra_enabled: true,
+    cra_fixed_amount: 200000,
+    cra_minimum_percent: 1,
+    cra_gross_percent: 20,
+    minimum_tax_percent: 1,
+    exemption_threshold: 0,
+    nhf_enabled: false,
+    nhf_rate: 2.5,
+    nhis_enabled: false,
+    nhis_rate: 5,
+    revenue_service: 'Lagos State Internal Revenue Service',
+    employer_tin: null,
+};
+
+export interface PayeMonthInput {
+    /** 1 for January; the tax year is the calendar year */
+    month: number;
+    gross_pay: number;
+    pension: number;
+    nhf: number;
+    nhis: number;
+}
+
+export type PayeYearToDate = Pick<StaffTaxRecord, 'ytd_gross_pay' | 'ytd_taxable_pay' | 'ytd_tax'> & {
+    ytd_exempt: number;
+    /** Earlier months this year with a tax record; months before joining or go-live are not counted */
+    months_paid: number;
+};
+
+export const EMPTY_YEAR_TO_DATE: PayeYearToDate = {
+    ytd_gross_pay: 0,
+    ytd_exempt: 0,
+    ytd_taxable_pay: 0,
+    ytd_tax: 0,
+    months_paid: 0,
+};
+
+export type PayeMonthResult = Pick<
+    StaffTaxRecord,
+    'consolidated_relief' | 'taxable_pay' | 'tax' | 'ytd_gross_pay' | 'ytd_taxable_pay' | 'ytd_tax'
+>;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/** Tax on an annual taxable income, band by band */
+export function taxOnBands(annualTaxable: number, bands: PayeTaxBand[]): number {
+    let remaining = Math.max(0, annualTaxable);
+    let tax = 0;
+    for (const band of bands) {
+        if (remaining <= 0) break;
+        const slice = band.band_size === null ? remaining : Math.min(remaining, band.band_size);
+        tax += slice * band.rate / 100;
+        remaining -= slice;
+    }
+    return roundMoney(tax);
+}
+
+export function consolidatedRelief(annualGross: number, settings: Omit<PayeSettings, 'school_id'>): number {
+    if (!settings.cra_enabled || annualGross <= 0) return 0;
+    const base = Math.max(settings.cra_fixed_amount, annualGross * settings.cra_minimum_percent / 100);
+    return roundMoney(base + annualGross * settings.cra_gross_percent / 100);
+}
+
+/** Employee NHF and NHIS for the month, both charged on basic salary */
+export function statutoryDeductions(
+    basicPay: number,
+    settings: Omit<PayeSettings, 'school_id'>
+): { nhf: number; nhis: number } {
+    return {
+        nhf: settings.nhf_enabled ? roundMoney(basicPay * settings.nhf_rate / 100) : 0,
+        nhis: settings.nhis_enabled ? roundMoney(basicPay * settings.nhis_rate / 100) : 0,
+    };
+}
+
+/**
+ * The month's PAYE. Pay to date is annualised over the months actually paid this year, so a
+ * mid-year joiner or first run is taxed on its monthly pay rather than spread over unpaid months.
+ * Income at or under the exemption threshold is not taxed; otherwise tax is never less than
+ * minimum_tax_percent of gross. Over-deduction in earlier months is not refunded, it only lowers
+ * later months to zero.
+ */
+export function computeMonthlyPaye(
+    input: PayeMonthInput,
+    settings: Omit<PayeSettings, 'school_id'>,
+    ytd: PayeYearToDate = EMPTY_YEAR_TO_DATE
+): PayeMonthResult {
+    const monthsPaid = Math.min(12, Math.max(1, input.month), (ytd.months_paid || 0) + 1);
+    const grossToDate = ytd.ytd_gross_pay + input.gross_pay;
+    const exemptToDate = ytd.ytd_exempt + input.pension + input.nhf + input.nhis;
+    const annualGross = grossToDate * 12 / monthsPaid;
+    const annualExempt = exemptToDate * 12 / monthsPaid;
+
+    const relief = consolidatedRelief(annualGross, settings);
+    const annualTaxable = Math.max(0, annualGross - relief - annualExempt);
+    let annualTax = 0;
+    if (settings.is_enabled && annualGross > settings.exemption_threshold) {
+        annualTax = Math.max(
+            taxOnBands(annualTaxable, settings.tax_bands),
+            annualGross * settings.minimum_tax_percent / 100
+        );
+    }
+
+    const taxableToDate = roundMoney(annualTaxable * monthsPaid / 12);
+    const taxToDate = roundMoney(annualTax * monthsPaid / 12);
+    const taxablePay = Math.max(0, roundMoney(taxableToDate - ytd.ytd_taxable_pay));
+    const tax = Math.max(0, roundMoney(taxToDate - ytd.ytd_tax));
+
+    return {
+        consolidated_relief: roundMoney(relief / 12),
+        taxable_pay: taxablePay,
+        tax,
+        ytd_gross_pay: roundMoney(grossToDate),
+        ytd_taxable_pay: roundMoney(ytd.ytd_taxable_pay + taxablePay),
+        ytd_tax: roundMoney(ytd.ytd_tax + tax),
+    };
+}
+
+/** "2026-10" to { year: 2026, month: 10 } */
+export function parsePeriodKey(periodKey: string): { year: number; month: number } | null {
+    const match = /^(\d{4})-(\d{1,2})$/.exec(periodKey.trim());
+    if (!match) return null;
+    const month = Number(match[2]);
+    if (month < 1 || month > 12) return null;
+    return { year: Number(match[1]), month };
+}
+
+/** Year to date per staff member from the latest record before the given month */
+export function yearToDateFromRecords(
+    records: Pick<StaffTaxRecord, 'user_id' | 'tax_month' | 'pension' | 'nhf' | 'nhis' | 'ytd_gross_pay' | 'ytd_taxable_pay' | 'ytd_tax'>[],
+    beforeMonth: number
+): Map<string, PayeYearToDate> {
+    const byUser = new Map<string, PayeYearToDate & { last_month: number }>();
+    [...records]
+        .filter(record => record.tax_month < beforeMonth)
+        .sort((a, b) => a.tax_month - b.tax_month)
+        .forEach(record => {
+            const previous = byUser.get(record.user_id);
+            byUser.set(record.user_id, {
+                last_month: record.tax_month,
+                ytd_gross_pay: Number(record.ytd_gross_pay) || 0,
+                ytd_taxable_pay: Number(record.ytd_taxable_pay) || 0,
+                ytd_tax: Number(record.ytd_tax) || 0,
+                ytd_exempt: roundMoney(
+                    (previous?.ytd_exempt || 0) + (Number(record.pension) || 0) + (Number(record.nhf) || 0) + (Number(record.nhis) || 0)
+                ),
+                months_paid: (previous?.months_paid || 0) + 1,
+            });
+        });
+    const result = new Map<string, PayeYearToDate>();
+    byUser.forEach(({ last_month: _lastMonth, ...ytd }, userId) => result.set(userId, ytd));
+    return result;
+}
+
+const MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/** Monthly remittance schedule in the layout state revenue services accept for PAYE returns */
+export function generatePayeRemittanceCSV(
+    records: StaffTaxRecord[],
+    settings: Pick<PayeSettings, 'revenue_service' | 'employer_tin'>,
+    schoolName: string
+): string {
+    const sorted = [...records].sort((a, b) => (a.staff?.name || '').localeCompare(b.staff?.name || ''));
+    const period = sorted[0] ? `${MONTH_NAMES[sorted[0].tax_month - 1]} ${sorted[0].tax_year}` : '';
+    const rows: string[][] = [
+        ['Revenue Service', settings.revenue_service],
+        ['Employer', schoolName],
+        ['Employer TIN', settings.employer_tin || ''],
+        ['Period', period],
+        [],
+        ['S/N', 'Staff Name', 'Staff Code', 'TIN', 'Gross Pay', 'Pension', 'NHF', 'NHIS', 'Consolidated Relief', 'Taxable Pay', 'Tax Deducted', 'YTD Tax'],
+    ];
+    const totals = { gross: 0, tax: 0 };
+    sorted.forEach((record, index) => {
+        totals.gross += Number(record.gross_pay) || 0;
+        totals.tax += Number(record.tax) || 0;
+        rows.push([
+            String(index + 1),
+            record.staff?.name || 'Unknown',
+            record.staff?.staff_code || '',
+            record.staff?.tax_id || '',
+            Number(record.gross_pay).toFixed(2),
+            Number(record.pension).toFixed(2),
+            Number(record.nhf).toFixed(2),
+            Number(record.nhis).toFixed(2),
+            Number(record.consolidated_relief).toFixed(2),
+            Number(record.taxable_pay).toFixed(2),
+            Number(record.tax).toFixed(2),
+            Number(record.ytd_tax).toFixed(2),
+        ]);
+    });
+    rows.push(['', 'TOTAL', '', '', roundMoney(totals.gross).toFixed(2), '', '', '', '', '', roundMoney(totals.tax).toFixed(2), '']);
+
+    return rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+}
+
+/** Saved settings over the defaults; schools without a row get the statutory defaults */
+export async function getPayeSettings(client: SupabaseClient, schoolId: number): Promise<PayeSettings> {
+    const { data, error } = await client.from('paye_settings').select('*').eq('school_id', schoolId).maybeSingle();
+    if (error) throw error;
+    return { ...DEFAULT_PAYE_SETTINGS, ...(data || {}), school_id: schoolId } as PayeSettings;
+}
+
+export async function savePayeSettings(client: SupabaseClient, settings: PayeSettings): Promise<PayeSettings> {
+    const { id: _id, created_at: _createdAt, ...fields } = settings;
+    const { data, error } = await client
+        .from('paye_settings')
+        .upsert({ ...fields, updated_at: new Date().toISOString() }, { onConflict: 'school_id' })
+        .select()
+        .single();
+    if (error) throw error;
+    return data as PayeSettings;
+}
+
+/** Year to date before the given month for the listed staff */
+export async function getPayeYearToDate(
+    client: SupabaseClient,
+    schoolId: number,
+    year: number,
+    month: number,
+    userIds: string[]
+): Promise<Map<string, PayeYearToDate>> {
+    if (userIds.length === 0 || month <= 1) return new Map();
+    const { data, error } = await client
+        .from('staff_tax_records')
+        .select('user_id, tax_month, pension, nhf, nhis, ytd_gross_pay, ytd_taxable_pay, ytd_tax')
+        .eq('school_id', schoolId)
+        .eq('tax_year', year)
+        .lt('tax_month', month)
+        .in('user_id', userIds);
+    if (error) throw error;
+    return yearToDateFromRecords(data || [], month);
+}
+
+export async function getPayeRemittanceRecords(
+    client: SupabaseClient,
+    schoolId: number,
+    year: number,
+    month: number
+): Promise<StaffTaxRecord[]> {
+    const { data, error } = await client
+        .from('staff_tax_records')
+        .select('*, staff:user_profiles(id, name, staff_code, tax_id)')
+        .eq('school_id', schoolId)
+        .eq('tax_year', year)
+        .eq('tax_month', month);
+    if (error) throw error;
+    return (data || []) as StaffTaxRecord[];
+}
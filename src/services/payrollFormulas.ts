@@ -0,0 +1,368 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PayrollComponent } from '../types.js';
+
+/**
+ * Payroll component formulas. Formulas are a small arithmetic language parsed here and never
+ * handed to eval: numbers, variables, + - * / %, comparisons, && || !, cond ? a : b and the
+ * functions below. Variables are the staff member's pay facts (FORMULA_VARIABLES) and the code of
+ * any other active component, so components are evaluated in dependency order, then by ordering.
+ */
+
+export const FORMULA_VARIABLES: { name: string; label: string }[] = [
+    { name: 'base_pay', label: 'Monthly base pay' },
+    { name: 'commission', label: 'Monthly commission' },
+    { name: 'additions', label: 'Approved additions this run' },
+    { name: 'days_worked', label: 'Days checked in this month' },
+    { name: 'working_days', label: 'Weekdays in the month' },
+    { name: 'grade_level', label: 'Staff grade level' },
+];
+
+export type FormulaVariables = Record<string, number>;
+
+const FUNCTIONS: Record<string, { arity: [number, number]; apply: (...args: number[]) => number }> = {
+    min: { arity: [1, Infinity], apply: (...args) => Math.min(...args) },
+    max: { arity: [1, Infinity], apply: (...args) => Math.max(...args) },
+    round: { arity: [1, 2], apply: (value, places = 0) => Math.round(value * 10 ** places) / 10 ** places },
+    floor: { arity: [1, 1], apply: value => Math.floor(value) },
+    ceil: { arity: [1, 1], apply: value => Math.ceil(value) },
+    abs: { arity: [1, 1], apply: value => Math.abs(value) },
+    if: { arity: [3, 3], apply: (test, then, otherwise) => (test ? then : otherwise) },
+};
+
+export type FormulaNode =
+    | { type: 'number'; value: number }
+    | { type: 'variable'; name: string }
+    | { type: 'unary'; op: '-' | '+' | '!'; arg: FormulaNode }
+    | { type: 'binary'; op: string; left: FormulaNode; right: FormulaNode }
+    | { type: 'conditional'; test: FormulaNode; then: FormulaNode; otherwise: FormulaNode }
+    | { type: 'call'; name: string; args: FormulaNode[] };
+
+type Token = { kind: 'number' | 'name' | 'op'; text: string; position: number };
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|(<=|>=|==|!=|&&|\|\||[-+*/%()<>,?:!]))/y;
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+    while (TOKEN_PATTERN.lastIndex < source.length) {
+        const position = TOKEN_PATTERN.lastIndex;
+        const match = TOKEN_PATTERN.exec(source);
+        if (!match) {
+            if (source.slice(position).trim() === '') break;
+            throw new Error(`Unexpected character "${source.slice(position).trim()[0]}" at position ${position + 1}`);
+        }
+        if (match[1] !== undefined) tokens.push({ kind: 'number', text: match[1], position });
+        else if (match[2] !== undefined) tokens.push({ kind: 'name', text: match[2].toLowerCase(), position });
+        else if (match[3] !== undefined) tokens.push({ kind: 'op', text: match[3], position });
+        else break;
+    }
+    return tokens;
+}
+
+/** Parses a formula, throwing an Error that says where it went wrong */
+export function parseFormula(source: string): FormulaNode {
+    const tokens = tokenize(source);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const accept = (text: string) => {
+        if (peek()?.kind === 'op' && peek().text === text) {
+            index++;
+            return true;
+        }
+        return false;
+    };
+    const expect = (text: string) => {
+        if (!accept(text)) {
+            const token = peek();
+            throw new Error(token ? `Expected "${text}" at position ${token.position + 1}` : `Expected "${text}" at end of formula`);
+        }
+    };
+
+    const binary = (next: () => FormulaNode, ops: string[]) => (): FormulaNode => {
+        let left = next();
+        while (peek()?.kind === 'op' && ops.includes(peek().text)) {
+            const op = tokens[index++].text;
+            left = { type: 'binary', op, left, right: next() };
+        }
+        return left;
+    };
+
+    const primary = (): FormulaNode => {
+        const token = tokens[index++];
+        if (!token) throw new Error('Formula ends unexpectedly');
+        if (token.kind === 'number') return { type: 'number', value: Number(token.text) };
+        if (token.kind === 'name') {
+            if (!accept('(')) return { type: 'variable', name: token.text };
+            const fn = FUNCTIONS[token.text];
+            if (!fn) throw new Error(`Unknown function "${token.text}"`);
+            const args: FormulaNode[] = [];
+            if (!accept(')')) {
+                do args.push(expression()); while (accept(','));
+                expect(')');
+            }
+            if (args.length < fn.arity[0] || args.length > fn.arity[1]) {
+                throw new Error(`Wrong number of arguments to ${token.text}()`);
+            }
+            return { type: 'call', name: token.text, args };
+        }
+        if (token.text === '(') {
+            const inner = expression();
+            expect(')');
+            return inner;
+        }
+        throw new Error(`Unexpected "${token.text}" at position ${token.position + 1}`);
+    };
+
+    const unary = (): FormulaNode => {
+        const token = peek();
+        if (token?.kind === 'op' && (token.text === '-' || token.text === '+' || token.text === '!')) {
+            index++;
+            return { type: 'unary', op: token.text, arg: unary() };
+        }
+        return primary();
+    };
+
+    const multiplicative = binary(unary, ['*', '/', '%']);
+    const additive = binary(multiplicative, ['+', '-']);
+    const comparison = binary(additive, ['<', '<=', '>', '>=', '==', '!=']);
+    const and = binary(comparison, ['&&']);
+    const or = binary(and, ['||']);
+
+    function expression(): FormulaNode {
+        const test = or();
+        if (!accept('?')) return test;
+        const then = expression();
+        expect(':');
+        return { type: 'conditional', test, then, otherwise: expression() };
+    }
+
+    if (tokens.length === 0) throw new Error('Formula is empty');
+    const tree = expression();
+    if (index < tokens.length) {
+        throw new Error(`Unexpected "${tokens[index].text}" at position ${tokens[index].position + 1}`);
+    }
+    return tree;
+}
+
+/** Variable names a formula reads */
+export function formulaVariables(node: FormulaNode, found = new Set<string>()): Set<string> {
+    switch (node.type) {
+        case 'variable': found.add(node.name); break;
+        case 'unary': formulaVariables(node.arg, found); break;
+        case 'binary': formulaVariables(node.left, found); formulaVariables(node.right, found); break;
+        case 'conditional': [node.test, node.then, node.otherwise].forEach(n => formulaVariables(n, found)); break;
+        case 'call': node.args.forEach(n => formulaVariables(n, found)); break;
+    }
+    return found;
+}
+
+export function evaluateFormula(node: FormulaNode, variables: FormulaVariables): number {
+    const evaluate = (n: FormulaNode): number => {
+        switch (n.type) {
+            case 'number':
+                return n.value;
+            case 'variable':
+                if (!(n.name in variables)) throw new Error(`Unknown variable "${n.name}"`);
+                return Number(variables[n.name]) || 0;
+            case 'unary': {
+                const value = evaluate(n.arg);
+                return n.op === '-' ? -value : n.op === '!' ? Number(!value) : value;
+            }
+            case 'conditional':
+                return evaluate(n.test) ? evaluate(n.then) : evaluate(n.otherwise);
+            case 'call':
+                return FUNCTIONS[n.name].apply(...n.args.map(evaluate));
+            case 'binary': {
+                if (n.op === '&&') return Number(Boolean(evaluate(n.left)) && Boolean(evaluate(n.right)));
+                if (n.op === '||') return Number(Boolean(evaluate(n.left)) || Boolean(evaluate(n.right)));
+                const left = evaluate(n.left);
+                const right = evaluate(n.right);
+                switch (n.op) {
+                    case '+': return left + right;
+                    case '-': return left - right;
+                    case '*': return left * right;
+                    case '/':
+                    case '%':
+                        if (right === 0) throw new Error('Division by zero');
+                        return n.op === '/' ? left / right : left % right;
+                    case '<': return Number(left < right);
+                    case '<=': return Number(left <= right);
+                    case '>': return Number(left > right);
+                    case '>=': return Number(left >= right);
+                    case '==': return Number(left === right);
+                    case '!=': return Number(left !== right);
+                }
+                throw new Error(`Unknown operator "${n.op}"`);
+            }
+        }
+    };
+    return evaluate(node);
+}
+
+/** The name other formulas use for a component, or null if it has no usable code */
+export function componentVariable(component: Pick<PayrollComponent, 'code'>): string | null {
+    const code = (component.code || '').trim().toLowerCase();
+    return /^[a-z_][a-z0-9_]*$/.test(code) ? code : null;
+}
+
+const isActive = (component: PayrollComponent) => component.is_active !== false;
+
+/**
+ * Active components in evaluation order: a component comes after every component its formula
+ * reads, and otherwise by ordering. Throws on a formula that does not parse, a code that clashes
+ * with a built-in variable, an unknown variable, or a circular reference (naming the cycle).
+ */
+export function orderPayrollComponents(components: PayrollComponent[]): { component: PayrollComponent; formula: FormulaNode | null }[] {
+    const active = components.filter(isActive);
+    const builtIn = new Set(FORMULA_VARIABLES.map(v => v.name));
+    const byCode = new Map<string, PayrollComponent>();
+    active.forEach(component => {
+        const code = componentVariable(component);
+        if (!code) return;
+        if (builtIn.has(code)) throw new Error(`${component.name}: code "${code}" is a built-in variable`);
+        if (byCode.has(code)) throw new Error(`${component.name}: code "${code}" is used by ${byCode.get(code)!.name}`);
+        byCode.set(code, component);
+    });
+
+    const parsed = new Map<PayrollComponent, FormulaNode | null>();
+    const dependsOn = new Map<PayrollComponent, PayrollComponent[]>();
+    active.forEach(component => {
+        let formula: FormulaNode | null = null;
+        const deps: PayrollComponent[] = [];
+        if (component.calculation_type === 'formula') {
+            try {
+                formula = parseFormula(component.formula || '');
+            } catch (error: any) {
+                throw new Error(`${component.name}: ${error.message}`);
+            }
+            formulaVariables(formula).forEach(name => {
+                if (builtIn.has(name)) return;
+                const dependency = byCode.get(name);
+                if (!dependency) throw new Error(`${component.name}: unknown variable "${name}"`);
+                deps.push(dependency);
+            });
+        }
+        parsed.set(component, formula);
+        dependsOn.set(component, deps);
+    });
+
+    const byOrdering = (a: PayrollComponent, b: PayrollComponent) => (a.ordering - b.ordering) || (a.id - b.id);
+    const ordered: PayrollComponent[] = [];
+    const done = new Set<PayrollComponent>();
+    const remaining = [...active].sort(byOrdering);
+    while (remaining.length > 0) {
+        const nextIndex = remaining.findIndex(c => dependsOn.get(c)!.every(dep => done.has(dep)));
+        if (nextIndex === -1) {
+            throw new Error(`Circular formula: ${describeCycle(remaining, dependsOn)}`);
+        }
+        const [next] = remaining.splice(nextIndex, 1);
+        ordered.push(next);
+        done.add(next);
+    }
+    return ordered.map(component => ({ component, formula: parsed.get(component)! }));
+}
+
+function describeCycle(stuck: PayrollComponent[], dependsOn: Map<PayrollComponent, PayrollComponent[]>): string {
+    const path: PayrollComponent[] = [];
+    let current: PayrollComponent | undefined = stuck[0];
+    while (current && !path.includes(current)) {
+        path.push(current);
+        current = dependsOn.get(current)!.find(dep => stuck.includes(dep));
+    }
+    const cycle = current ? [...path.slice(path.indexOf(current)), current] : path;
+    return cycle.map(c => componentVariable(c) || c.name).join(' -> ');
+}
+
+export interface ComponentResult {
+    component: PayrollComponent;
+    amount: number;
+}
+
+/**
+ * Every active component's amount for one staff member. Amounts are rounded to kobo and never
+ * negative. A failing formula throws with the component's name.
+ */
+export function evaluatePayrollComponents(components: PayrollComponent[], variables: FormulaVariables): ComponentResult[] {
+    const scope: FormulaVariables = { ...variables };
+    return orderPayrollComponents(components).map(({ component, formula }) => {
+        let amount: number;
+        try {
+            amount = formula ? evaluateFormula(formula, scope) : Number(component.amount) || 0;
+        } catch (error: any) {
+            throw new Error(`${component.name}: ${error.message}`);
+        }
+        amount = Number.isFinite(amount) ? Math.max(0, Math.round(amount * 100) / 100) : 0;
+        const code = componentVariable(component);
+        if (code) scope[code] = amount;
+        return { component, amount };
+    });
+}
+
+/** Monday to Friday in the month */
+export function workingDaysInMonth(year: number, month: number): number {
+    const days = new Date(year, month, 0).getDate();
+    let count = 0;
+    for (let day = 1; day <= days; day++) {
+        const weekday = new Date(year, month - 1, day).getDay();
+        if (weekday !== 0 && weekday !== 6) count++;
+    }
+    return count;
+}
+
+export async function getPayrollComponents(client: SupabaseClient, schoolId: number): Promise<PayrollComponent[]> {
+    const { data, error } = await client
+        .from('payroll_components')
+        .select('*')
+        .eq('school_id', schoolId)
+        .order('ordering')
+        .order('id');
+    if (error) throw error;
+    return (data || []) as PayrollComponent[];
+}
+
+export async function savePayrollComponent(
+    client: SupabaseClient,
+    component: Omit<PayrollComponent, 'id'> & { id?: number }
+): Promise<PayrollComponent> {
+    const { id, ...fields } = component;
+    const query = id
+        ? client.from('payroll_components').update(fields).eq('id', id)
+        : client.from('payroll_components').insert(fields);
+    const { data, error } = await query.select().single();
+    if (error) throw error;
+    return data as PayrollComponent;
+}
+
+export async function deletePayrollComponent(client: SupabaseClient, id: number): Promise<void> {
+    const { error } = await client.from('payroll_components').delete().eq('id', id);
+    if (error) throw error;
+}
+
+/** Days each staff member checked in (present, late or remote) during the month */
+export async function getDaysWorked(
+    client: SupabaseClient,
+    schoolId: number,
+    year: number,
+    month: number
+): Promise<Map<string, number>> {
+    const start = `${year}-${String(month).padStart(2, '0')}-01`;
+    const end = `${year}-${String(month).padStart(2, '0')}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+    const { data, error } = await client
+        .from('teacher_checkins')
+        .select('teacher_id, checkin_date')
+        .eq('school_id', schoolId)
+        .in('status', ['Present', 'Late', 'Remote'])
+        .gte('checkin_date', start)
+        .lte('checkin_date', end);
+    if (error) throw error;
+    const dates = new Map<string, Set<string>>();
+    (data || []).forEach((row: { teacher_id: string; checkin_date: string }) => {
+        const seen = dates.get(row.teacher_id) || new Set<string>();
+        seen.add(row.checkin_date);
+        dates.set(row.teacher_id, seen);
+    });
+    const result = new Map<string, number>();
+    dates.forEach((seen, teacherId) => result.set(teacherId, seen.size));
+    return result;
+}
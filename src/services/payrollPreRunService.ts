@@ -8,8 +8,44 @@ import type {
     PayrollRunV2Status,
     UserProfile,
     PayrollAdjustment,
-    PayslipLineItem
+    PayslipLineItem,
+    StaffPension,
+    PayrollComponent
 } from '../types';
+import { calculateMonthlyPension } from '../utils/pensionCalculator';
+import {
+    computeMonthlyPaye,
+    getPayeSettings,
+    getPayeYearToDate,
+    parsePeriodKey,
+    statutoryDeductions
+} from './payeTax';
+import {
+    evaluatePayrollComponents,
+    getDaysWorked,
+    getPayrollComponents,
+    orderPayrollComponents,
+    workingDaysInMonth
+} from './payrollFormulas';
+import { computeAttendanceFines, fineLabel, fineMetadata, getAttendanceFineInputs } from './attendanceFines';
+import {
+    computeProration,
+    employedInPeriod,
+    getProrationInputs,
+    periodBounds,
+    prorate,
+    prorationMetadata
+} from './payProration';
+import {
+    getLoanRepaymentInputs,
+    loanLineLabel,
+    loanLineMetadata,
+    planLoanDeductions,
+    reserveLoanDeductions,
+    releaseLoanDeductions,
+    confirmLoanDeductions
+} from './staffLoans';
+import type { DueInstallment } from './staffLoans';
 
 const AUDIT_ACTIONS = {
     create: 'payroll.run.create',
@@ -17,6 +53,7 @@ const AUDIT_ACTIONS = {
     approve: 'payroll.payslip.approve',
     query: 'payroll.payslip.query',
     resolve: 'payroll.payslip.resolve',
+    waive: 'payroll.payslip.waive_deduction',
     finalize: 'payroll.run.finalize',
     processOffline: 'payroll.run.process_offline',
     processPaystack: 'payroll.run.process_paystack',
@@ -88,12 +125,19 @@ export async function raisePayslipQuery(
     payslipId: string,
     actorId: string,
     message: string,
-    attachmentUrl?: string | null
+    attachmentUrl?: string | null,
+    lineItemId?: string | null
 ): Promise<PayslipQuery> {
     const supabase = requireSupabaseClient();
     const { data, error } = await supabase
         .from('payslip_queries')
-        .insert({ payslip_id: payslipId, raised_by_staff_id: actorId, message, attachment_url: attachmentUrl || null })
+        .insert({
+            payslip_id: payslipId,
+            line_item_id: lineItemId || null,
+            raised_by_staff_id: actorId,
+            message,
+            attachment_url: attachmentUrl || null
+        })
         .select()
         .single();
 
@@ -101,7 +145,7 @@ export async function raisePayslipQuery(
 
     // Move payslip into query state
     await supabase.from('payslips').update({ status: 'QUERY_RAISED' as PayslipStatus }).eq('id', payslipId);
-    await logAudit(AUDIT_ACTIONS.query, actorId, { payslip_id: payslipId, status: 'QUERY_RAISED' });
+    await logAudit(AUDIT_ACTIONS.query, actorId, { payslip_id: payslipId, line_item_id: lineItemId || null, status: 'QUERY_RAISED' });
     return data as PayslipQuery;
 }
 
@@ -128,6 +172,22 @@ export async function resolvePayslipQuery(
     await logAudit(AUDIT_ACTIONS.resolve, actorId, { query_id: queryId, response });
 }
 
+// Drop a challenged attendance fine from a payslip and give the amount back in net pay.
+// The RPC checks the caller manages payroll and refuses any other kind of deduction
+export async function waivePayslipDeduction(lineItemId: string, actorId: string | null) {
+    const supabase = requireSupabaseClient();
+    const { data, error } = await supabase.rpc('waive_payslip_deduction', { p_line_item_id: lineItemId });
+    if (error) throw error;
+
+    await logAudit(AUDIT_ACTIONS.waive, actorId, {
+        payslip_id: data?.payslip_id,
+        line_item_id: lineItemId,
+        label: data?.label,
+        amount: Number(data?.amount) || 0,
+        metadata: data?.metadata ?? null
+    });
+}
+
 export async function finalizePayroll(runId: string, actorId: string | null, processingMethod?: PayrollProcessingMethod | null) {
     const supabase = requireSupabaseClient();
     const payload: Partial<PayrollRunV2> = {
@@ -148,6 +208,8 @@ export async function finalizePayroll(runId: string, actorId: string | null, pro
         .update({ status: 'FINAL' as PayslipStatus, updated_at: new Date().toISOString() })
         .eq('payroll_run_id', runId)
         .eq('status', 'APPROVED');
+
+    await confirmLoanDeductions(supabase, runId);
     
     await logAudit(AUDIT_ACTIONS.finalize, actorId, { run_id: runId, processing_method: processingMethod });
 }
@@ -199,7 +261,7 @@ export async function getPayrollRunWithApprovals(runId: string): Promise<{ run:
 
     const { data: slips, error: slipError } = await supabase
         .from('payslips')
-        .select('*, staff:user_profiles(*), queries:payslip_queries(*)')
+        .select('*, staff:user_profiles(*), line_items:payslip_line_items(*), queries:payslip_queries(*)')
         .eq('payroll_run_id', runId);
     if (slipError) throw slipError;
 
@@ -226,21 +288,34 @@ export async function createPayrollRun(schoolId: number, periodKey: string, acto
     return data as PayrollRunV2;
 }
 
-// Generate payslips for all active staff
+// Generate payslips for all staff employed in the period, pro-rated, with statutory deductions, PAYE,
+// attendance fines and loan repayments
 export async function generatePayslipsForRun(runId: string, schoolId: number): Promise<Payslip[]> {
     const supabase = requireSupabaseClient();
+
+    const { data: run, error: runError } = await supabase
+        .from('payroll_runs_v2')
+        .select('period_key')
+        .eq('id', runId)
+        .single();
+
+    if (runError) throw runError;
+    const now = new Date();
+    const period = parsePeriodKey(run.period_key) || { year: now.getFullYear(), month: now.getMonth() + 1 };
     
-    // Fetch all active staff (non-students, non-guardians)
-    const { data: staff, error: staffError } = await supabase
+    // Fetch active staff (non-students, non-guardians), plus leavers whose last day falls in or after this period
+    const { data: staffRows, error: staffError } = await supabase
         .from('user_profiles')
-        .select('id, name, base_pay, commission, employment_status')
+        .select('id, name, base_pay, commission, grade_level, employment_status, employment_start_date, employment_end_date')
         .eq('school_id', schoolId)
         .neq('role', 'Student')
         .neq('role', 'Guardian')
-        .in('employment_status', ['Active', null]); // Include null for backward compatibility
+        // Include null status for backward compatibility
+        .or(`employment_status.eq.Active,employment_status.is.null,employment_end_date.gte.${periodBounds(period.year, period.month).start}`);
 
     if (staffError) throw staffError;
-    if (!staff || staff.length === 0) return [];
+    const staff = ((staffRows || []) as UserProfile[]).filter(s => employedInPeriod(s, period.year, period.month));
+    if (staff.length === 0) return [];
 
     // Fetch pending payroll adjustments (not yet linked to a run)
     const { data: adjustments, error: adjError } = await supabase
@@ -251,11 +326,52 @@ export async function generatePayslipsForRun(runId: string, schoolId: number): P
 
     if (adjError) throw adjError;
 
+    const { data: pensions, error: pensionError } = await supabase
+        .from('staff_pension')
+        .select('*')
+        .eq('school_id', schoolId)
+        .eq('is_enrolled', true);
+
+    if (pensionError) throw pensionError;
+
+    const payeSettings = await getPayeSettings(supabase, schoolId);
+    const yearToDate = await getPayeYearToDate(
+        supabase,
+        schoolId,
+        period.year,
+        period.month,
+        staff.map(s => s.id)
+    );
+
+    // Fail before writing anything if a component formula is broken or circular
+    const components = await getPayrollComponents(supabase, schoolId);
+    orderPayrollComponents(components);
+    const daysWorked = await getDaysWorked(supabase, schoolId, period.year, period.month);
+    const workingDays = workingDaysInMonth(period.year, period.month);
+    const attendance = await getAttendanceFineInputs(supabase, schoolId, period.year, period.month);
+    const today = new Date().toISOString().slice(0, 10);
+    const prorationInputs = await getProrationInputs(supabase, schoolId, period.year, period.month);
+    await releaseLoanDeductions(supabase, runId);
+    const loanInputs = await getLoanRepaymentInputs(supabase, schoolId, period.year, period.month);
+
     const payslipsToInsert: any[] = [];
     const lineItemsToInsert: any[] = [];
-
-    for (const staffMember of staff as UserProfile[]) {
-        const basePay = staffMember.base_pay || 0;
+    const taxRecordsToUpsert: any[] = [];
+    const loanDeductions: { installment: DueInstallment; payslipId: string }[] = [];
+
+    for (const staffMember of staff) {
+        // Joiners, leavers and unpaid leave are paid for the working days they were due
+        const proration = computeProration({
+            year: period.year,
+            month: period.month,
+            holidays: prorationInputs.holidays,
+            startDate: staffMember.employment_start_date,
+            endDate: staffMember.employment_end_date,
+            unpaidLeave: prorationInputs.unpaidLeave.filter(l => l.requester_id === staffMember.id)
+        });
+        const isProrated = proration.factor < 1;
+        const fullBasePay = staffMember.base_pay || 0;
+        const basePay = prorate(fullBasePay, proration);
         const commission = staffMember.commission || 0;
 
         // Get adjustments for this staff member
@@ -270,8 +386,62 @@ export async function generatePayslipsForRun(runId: string, schoolId: number): P
         const additionsTotal = staffAdditions.reduce((sum, adj) => sum + (adj.amount || 0), 0);
         const deductionsTotal = staffDeductions.reduce((sum, adj) => sum + Math.abs(adj.amount || 0), 0);
 
-        const grossPay = basePay + commission + additionsTotal;
-        const totalDeductions = deductionsTotal;
+        // Formulas see the contractual base pay; pensionable earnings are pro-rated afterwards.
+        // Components hidden from the payslip are helper values for other formulas and are not paid
+        const componentResults = evaluatePayrollComponents(components, {
+            base_pay: fullBasePay,
+            commission,
+            additions: additionsTotal,
+            days_worked: daysWorked.get(staffMember.id) || 0,
+            working_days: workingDays,
+            grade_level: staffMember.grade_level || 0
+        })
+            .map(r => {
+                const prorated = isProrated && r.component.component_type === 'earning' && r.component.pensionable;
+                return { ...r, fullAmount: r.amount, amount: prorated ? prorate(r.amount, proration) : r.amount, prorated };
+            })
+            .filter(r => r.component.show_on_payslip && r.amount > 0);
+        const componentTotal = (type: PayrollComponent['component_type'], exclude?: 'taxable' | 'pensionable') =>
+            componentResults
+                .filter(r => r.component.component_type === type && !(exclude && r.component[exclude]))
+                .reduce((sum, r) => sum + r.amount, 0);
+
+        const grossPay = basePay + commission + additionsTotal + componentTotal('earning');
+        const taxableGross = grossPay - componentTotal('earning', 'taxable');
+        const pensionableGross = grossPay - componentTotal('earning', 'pensionable');
+
+        // Pension, NHF and NHIS come off pay before tax
+        const pensionConfig = ((pensions || []) as StaffPension[]).find(p => p.user_id === staffMember.id);
+        const pension = pensionConfig ? calculateMonthlyPension(pensionableGross, pensionConfig).deductionFromSalary : 0;
+        const { nhf, nhis } = statutoryDeductions(basePay, payeSettings);
+        const paye = computeMonthlyPaye(
+            { month: period.month, gross_pay: taxableGross, pension, nhf, nhis },
+            payeSettings,
+            yearToDate.get(staffMember.id)
+        );
+
+        // Attendance fines come off after tax, one line per breach
+        const fines = computeAttendanceFines({
+            checkins: attendance.checkins.filter(c => c.teacher_id === staffMember.id),
+            shifts: attendance.shifts.filter(s => s.teacher_id === staffMember.id),
+            leave: attendance.leave.filter(l => l.requester_id === staffMember.id),
+            holidays: attendance.holidays,
+            rules: attendance.rules,
+            dailyPay: workingDays > 0 ? fullBasePay / workingDays : 0,
+            asOf: today
+        });
+        const finesTotal = fines.reduce((sum, fine) => sum + fine.amount, 0);
+
+        // Loan repayments come last and pause rather than push net pay below the floor
+        const deductionsBeforeLoans = deductionsTotal + componentTotal('deduction') + pension + nhf + nhis + paye.tax + finesTotal;
+        const loans = planLoanDeductions(
+            grossPay - deductionsBeforeLoans,
+            loanInputs.floor,
+            loanInputs.due.filter(i => i.loan.user_id === staffMember.id)
+        );
+        const loansTotal = loans.deducted.reduce((sum, i) => sum + Number(i.amount), 0);
+
+        const totalDeductions = deductionsBeforeLoans + loansTotal;
         const netPay = grossPay - totalDeductions;
 
         // Generate checksum for integrity using a simple hash
@@ -294,17 +464,33 @@ export async function generatePayslipsForRun(runId: string, schoolId: number): P
             updated_at: new Date().toISOString()
         });
 
+        taxRecordsToUpsert.push({
+            school_id: schoolId,
+            user_id: staffMember.id,
+            payroll_run_id: runId,
+            payslip_id: payslipId,
+            tax_year: period.year,
+            tax_month: period.month,
+            gross_pay: taxableGross,
+            pension,
+            nhf,
+            nhis,
+            ...paye,
+            updated_at: new Date().toISOString()
+        });
+
         // Create line items
         let ordering = 0;
 
-        // Base pay
-        if (basePay > 0) {
+        // Base pay, shown even when pro-rated to nothing so the calculation is visible
+        if (fullBasePay > 0) {
             lineItemsToInsert.push({
                 id: crypto.randomUUID(),
                 payslip_id: payslipId,
                 type: 'EARNING',
-                label: 'Base Salary',
+                label: isProrated ? `Base Salary (${proration.paid_days}/${proration.working_days} days)` : 'Base Salary',
                 amount: basePay,
+                metadata: isProrated ? prorationMetadata(fullBasePay, proration) : null,
                 ordering: ordering++
             });
         }
@@ -321,6 +507,20 @@ export async function generatePayslipsForRun(runId: string, schoolId: number): P
             });
         }
 
+        // Component earnings
+        for (const { component, amount, fullAmount, prorated } of componentResults.filter(r => r.component.component_type === 'earning')) {
+            lineItemsToInsert.push({
+                id: crypto.randomUUID(),
+                payslip_id: payslipId,
+                type: 'EARNING',
+                label: prorated ? `${component.name} (${proration.paid_days}/${proration.working_days} days)` : component.name,
+                amount,
+                component_id: component.id,
+                metadata: prorated ? prorationMetadata(fullAmount, proration) : null,
+                ordering: ordering++
+            });
+        }
+
         // Additions
         for (const addition of staffAdditions) {
             lineItemsToInsert.push({
@@ -344,6 +544,66 @@ export async function generatePayslipsForRun(runId: string, schoolId: number): P
                 ordering: ordering++
             });
         }
+
+        // Component deductions, then employer contributions shown for information
+        for (const { component, amount } of componentResults.filter(r => r.component.component_type !== 'earning')) {
+            lineItemsToInsert.push({
+                id: crypto.randomUUID(),
+                payslip_id: payslipId,
+                type: component.component_type === 'deduction' ? 'DEDUCTION' : 'INFO',
+                label: component.component_type === 'deduction' ? component.name : `${component.name} (Employer)`,
+                amount,
+                component_id: component.id,
+                ordering: ordering++
+            });
+        }
+
+        // Statutory deductions
+        const statutory: [string, number][] = [
+            ['Pension (Employee)', pension],
+            ['National Housing Fund (NHF)', nhf],
+            ['Health Insurance (NHIS)', nhis],
+            ['PAYE Tax', paye.tax]
+        ];
+        for (const [label, amount] of statutory) {
+            if (amount <= 0) continue;
+            lineItemsToInsert.push({
+                id: crypto.randomUUID(),
+                payslip_id: payslipId,
+                type: 'DEDUCTION',
+                label,
+                amount,
+                ordering: ordering++
+            });
+        }
+
+        for (const fine of fines) {
+            lineItemsToInsert.push({
+                id: crypto.randomUUID(),
+                payslip_id: payslipId,
+                type: 'DEDUCTION',
+                label: fineLabel(fine),
+                amount: fine.amount,
+                metadata: fineMetadata(fine),
+                ordering: ordering++
+            });
+        }
+
+        for (const [installment, paused] of [
+            ...loans.deducted.map(i => [i, false] as const),
+            ...loans.paused.map(i => [i, true] as const)
+        ]) {
+            lineItemsToInsert.push({
+                id: crypto.randomUUID(),
+                payslip_id: payslipId,
+                type: paused ? 'INFO' : 'DEDUCTION',
+                label: loanLineLabel(installment, paused),
+                amount: Number(installment.amount),
+                metadata: loanLineMetadata(installment, paused, loanInputs.floor),
+                ordering: ordering++
+            });
+        }
+        loans.deducted.forEach(installment => loanDeductions.push({ installment, payslipId }));
     }
 
     // Insert payslips
@@ -356,6 +616,14 @@ export async function generatePayslipsForRun(runId: string, schoolId: number): P
         if (lineItemError) throw lineItemError;
     }
 
+    // Record this month's tax; regenerating a month replaces its record
+    const { error: taxError } = await supabase
+        .from('staff_tax_records')
+        .upsert(taxRecordsToUpsert, { onConflict: 'user_id,tax_year,tax_month' });
+    if (taxError) throw taxError;
+
+    await reserveLoanDeductions(supabase, runId, loanDeductions);
+
     // Link adjustments to this run
     if (adjustments && adjustments.length > 0) {
         const adjustmentIds = adjustments.map((a: any) => a.id);
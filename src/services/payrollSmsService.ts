@@ -1,5 +1,6 @@
 import { requireSupabaseClient } from './supabaseClient';
 import { sendNotificationWithChannel } from './kudiSmsService';
+import { queueNotifications } from './messageOutbox';
 
 /**
  * Notify a single staff member that their payslip is published
@@ -48,7 +49,7 @@ export async function notifyAllStaffPayslipsPublished(
     // Get all payslips with staff details
     const { data: payslips, error } = await supabase
         .from('payslips')
-        .select('staff_id, staff:user_profiles(id, name, phone_number)')
+        .select('id, staff_id, staff:user_profiles(id, name, phone_number, email)')
         .eq('payroll_run_id', runId);
 
     if (error || !payslips) {
@@ -65,32 +66,39 @@ export async function notifyAllStaffPayslipsPublished(
 
     const periodKey = run?.period_key || 'current period';
 
-    let sent = 0;
-    let failed = 0;
-
-    for (const payslip of payslips) {
-        const staff = payslip.staff as any;
-        if (!staff?.phone_number) {
-            failed++;
-            continue;
-        }
-
-        const success = await notifyStaffPayslipPublished({
-            schoolId,
-            staffId: payslip.staff_id,
-            staffName: staff.name || 'Staff',
-            staffPhone: staff.phone_number,
-            periodKey
-        });
+    // Email copies carry the payslip PDF
+    const messages = payslips
+        .map(payslip => ({ id: payslip.id, staff: payslip.staff as any }))
+        .filter(({ staff }) => staff?.phone_number || staff?.email)
+        .map(({ id, staff }) => ({
+            school_id: schoolId,
+            recipient_phone: staff.phone_number || '',
+            recipient_email: staff.email || undefined,
+            recipient_name: staff.name || 'Staff',
+            notification_type: 'payslip_published' as const,
+            template_name: 'payslip_published',
+            variables: {
+                staff_name: staff.name || 'Staff',
+                period: periodKey
+            },
+            attachments: [{ document: 'payslip' as const, id }]
+        }));
+    const missingContact = payslips.length - messages.length;
 
-        if (success) {
-            sent++;
-        } else {
-            failed++;
-        }
+    if (messages.length === 0) {
+        return { sent: 0, failed: missingContact };
+    }
 
-        // Small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
+    // One outbox batch; delivery and rate limiting happen server-side
+    let sent = 0;
+    let failed = missingContact;
+    try {
+        const result = await queueNotifications(supabase, messages);
+        sent = result.queued;
+        failed += result.rejected;
+    } catch (error) {
+        console.error('Failed to queue payslip notifications:', error);
+        failed += messages.length;
     }
 
     return { sent, failed };
@@ -0,0 +1,62 @@
+/**
+ * Paystack inline (popup) checkout. The script is loaded on first use; the payment itself is
+ * recorded by paystack-webhook on charge.success, never by the browser callback.
+ */
+
+const PAYSTACK_INLINE_SRC = 'https://js.paystack.co/v1/inline.js';
+
+interface PaystackPopHandler {
+    openIframe: () => void;
+}
+
+interface PaystackPopStatic {
+    setup: (options: Record<string, unknown>) => PaystackPopHandler;
+}
+
+let inlineScript: Promise<PaystackPopStatic> | null = null;
+
+function loadPaystackInline(): Promise<PaystackPopStatic> {
+    const existing = (window as any).PaystackPop as PaystackPopStatic | undefined;
+    if (existing) return Promise.resolve(existing);
+
+    if (!inlineScript) {
+        inlineScript = new Promise((resolve, reject) => {
+            const script = document.createElement('script');
+            script.src = PAYSTACK_INLINE_SRC;
+            script.async = true;
+            script.onload = () => resolve((window as any).PaystackPop);
+            script.onerror = () => {
+                inlineScript = null;
+                reject(new Error('Could not load Paystack checkout. Check your connection and try again.'));
+            };
+            document.body.appendChild(script);
+        });
+    }
+    return inlineScript;
+}
+
+export interface PaystackInlineOptions {
+    publicKey: string;
+    email: string;
+    /** Naira */
+    amount: number;
+    reference: string;
+    metadata: Record<string, unknown>;
+    onSuccess: (reference: string) => void;
+    onClose: () => void;
+}
+
+export async function openPaystackCheckout(options: PaystackInlineOptions): Promise<void> {
+    const PaystackPop = await loadPaystackInline();
+    const handler = PaystackPop.setup({
+        key: options.publicKey,
+        email: options.email,
+        amount: Math.round(options.amount * 100),
+        currency: 'NGN',
+        ref: options.reference,
+        metadata: options.metadata,
+        callback: (response: { reference: string }) => options.onSuccess(response.reference),
+        onClose: options.onClose,
+    });
+    handler.openIframe();
+}
@@ -0,0 +1,100 @@
+import type { AcademicClass, AnnualResult, PromotionDecision, PromotionRules } from '../types.js';
+
+export const DEFAULT_PROMOTION_RULES: PromotionRules = {
+    min_average: 45,
+    subject_pass_mark: 40,
+    compulsory_subjects: ['English Language', 'Mathematics'],
+    max_carry_over: 2,
+    probation_margin: 5,
+};
+
+// Level changes that are not a simple increment; null marks the final year
+const DEFAULT_NEXT_LEVELS: Record<string, string | null> = {
+    'JSS 3': 'SS 1',
+    'SS 3': null,
+};
+
+export interface StudentPlacement {
+    studentId: number;
+    decision: PromotionDecision;
+    fromClassId: number;
+    fromLevel: string;
+    arm: string;
+    targetLevel: string;
+}
+
+export interface PlacementPlan {
+    placements: StudentPlacement[];
+    /** Promoted out of the final level; the rollover leaves these for graduation */
+    finalYear: number[];
+    /** No final class recorded for the session, so there is nothing to place from */
+    unplaced: number[];
+}
+
+/**
+ * Level a student moves up to, or null when the level is the final year.
+ * School overrides win, then the built-in JSS/SS transitions, then "<prefix> <n + 1>".
+ */
+export function getNextLevel(level: string, nextLevels?: Record<string, string | null>): string | null {
+    const key = level.trim();
+    const lookup = (map: Record<string, string | null> | undefined) => {
+        if (!map) return undefined;
+        const match = Object.keys(map).find(k => k.trim().toLowerCase() === key.toLowerCase());
+        return match === undefined ? undefined : map[match];
+    };
+
+    const override = lookup(nextLevels);
+    if (override !== undefined) return override;
+    const builtIn = lookup(DEFAULT_NEXT_LEVELS);
+    if (builtIn !== undefined) return builtIn;
+
+    const numbered = key.match(/^(.*?)(\d+)$/);
+    return numbered ? `${numbered[1]}${Number(numbered[2]) + 1}` : null;
+}
+
+export function getEffectiveDecision(result: Pick<AnnualResult, 'recommendation' | 'final_decision'>): PromotionDecision {
+    return result.final_decision || result.recommendation;
+}
+
+export function summarizeDecisions(results: Pick<AnnualResult, 'recommendation' | 'final_decision'>[]): Record<PromotionDecision, number> {
+    const counts: Record<PromotionDecision, number> = { promote: 0, probation: 0, repeat: 0 };
+    results.forEach(r => { counts[getEffectiveDecision(r)]++; });
+    return counts;
+}
+
+/**
+ * Works out the level each student should be enrolled in next session, keeping their arm.
+ * Promoted and probation students move up a level; repeaters stay on the same level.
+ */
+export function planStudentPlacements(
+    results: Pick<AnnualResult, 'student_id' | 'academic_class_id' | 'recommendation' | 'final_decision'>[],
+    sourceClasses: Pick<AcademicClass, 'id' | 'level' | 'arm'>[],
+    nextLevels?: Record<string, string | null>
+): PlacementPlan {
+    const classById = new Map(sourceClasses.map(c => [c.id, c]));
+    const plan: PlacementPlan = { placements: [], finalYear: [], unplaced: [] };
+
+    results.forEach(result => {
+        const sourceClass = result.academic_class_id ? classById.get(result.academic_class_id) : undefined;
+        if (!sourceClass) {
+            plan.unplaced.push(result.student_id);
+            return;
+        }
+        const decision = getEffectiveDecision(result);
+        const targetLevel = decision === 'repeat' ? sourceClass.level : getNextLevel(sourceClass.level, nextLevels);
+        if (!targetLevel) {
+            plan.finalYear.push(result.student_id);
+            return;
+        }
+        plan.placements.push({
+            studentId: result.student_id,
+            decision,
+            fromClassId: sourceClass.id,
+            fromLevel: sourceClass.level,
+            arm: sourceClass.arm,
+            targetLevel,
+        });
+    });
+
+    return plan;
+}
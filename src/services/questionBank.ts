@@ -0,0 +1,144 @@
+import type { QuestionBankItem, QuestionBankUsage, QuestionDifficulty, QuizQuestion } from '../types.js';
+import { seededShuffle } from './cbtMarking.js';
+
+export interface DrawRule {
+    count: number;
+    topic?: string | null;
+    difficulty?: QuestionDifficulty | null;
+    questionType?: QuestionBankItem['question_type'] | null;
+}
+
+export interface DrawShortfall {
+    rule: DrawRule;
+    available: number;
+}
+
+export interface DrawResult {
+    drawn: QuestionBankItem[];
+    shortfalls: DrawShortfall[];
+}
+
+export interface ItemUsageStats {
+    item: QuestionBankItem;
+    quizCount: number;
+    responseCount: number;
+    incorrectCount: number;
+    incorrectRate: number;
+}
+
+const normalize = (value: string | null | undefined) => (value || '').trim().toLowerCase();
+
+const matchesRule = (item: QuestionBankItem, rule: DrawRule) =>
+    (!rule.topic || normalize(item.topic) === normalize(rule.topic))
+    && (!rule.difficulty || item.difficulty === rule.difficulty)
+    && (!rule.questionType || item.question_type === rule.questionType);
+
+/** Human-readable rule, e.g. "10 easy from Photosynthesis" */
+export function describeRule(rule: DrawRule): string {
+    const parts = [String(rule.count)];
+    if (rule.difficulty) parts.push(rule.difficulty);
+    if (rule.questionType) parts.push(rule.questionType === 'theory' ? 'theory' : 'objective');
+    if (rule.topic) parts.push(`from ${rule.topic}`);
+    return parts.join(' ');
+}
+
+/**
+ * Draws items for each rule in turn from the active items that match the subject and level.
+ * An item is never drawn twice, so overlapping rules take from what earlier rules left behind.
+ */
+export function drawQuestions(
+    items: QuestionBankItem[],
+    rules: DrawRule[],
+    options: { subject?: string | null; level?: string | null; seed: number }
+): DrawResult {
+    const pool = items.filter(item => item.is_active
+        && (!options.subject || normalize(item.subject_name) === normalize(options.subject))
+        && (!options.level || normalize(item.level) === normalize(options.level)));
+    const used = new Set<number>();
+    const drawn: QuestionBankItem[] = [];
+    const shortfalls: DrawShortfall[] = [];
+
+    rules.forEach((rule, index) => {
+        if (rule.count <= 0) return;
+        const candidates = pool.filter(item => !used.has(item.id) && matchesRule(item, rule));
+        const picked = seededShuffle(candidates, options.seed + index).slice(0, rule.count);
+        picked.forEach(item => used.add(item.id));
+        drawn.push(...picked);
+        if (picked.length < rule.count) {
+            shortfalls.push({ rule, available: picked.length });
+        }
+    });
+
+    return { drawn, shortfalls };
+}
+
+/**
+ * Index of the correct option for a lesson-plan MCQ. Answers are stored either as
+ * the option text or as a letter ("B", "b)", "Option B"), depending on who wrote them.
+ */
+export function resolveMcqAnswerIndex(options: string[], answer: string | null | undefined): number | null {
+    const target = normalize(answer);
+    if (!target) return null;
+
+    const byText = options.findIndex(option => normalize(option) === target);
+    if (byText >= 0) return byText;
+
+    const letter = target.match(/^(?:option\s+)?([a-z])[).:]?$/);
+    if (letter) {
+        const index = letter[1].charCodeAt(0) - 97;
+        if (index < options.length) return index;
+    }
+
+    // Options are often written "A. Mitochondria"; compare without the leading label
+    const stripLabel = (value: string) => normalize(value).replace(/^[a-z][).:]\s*/, '');
+    const byStripped = options.findIndex(option => stripLabel(option) === stripLabel(target));
+    return byStripped >= 0 ? byStripped : null;
+}
+
+/** Converts a bank item to a quiz question with its CBT answer key filled in */
+export function bankItemToQuizQuestion(item: QuestionBankItem, position: number): QuizQuestion {
+    if (item.question_type === 'multiple_choice') {
+        const options = item.options || [];
+        return {
+            question_text: item.question_text,
+            question_type: 'multiple_choice',
+            position,
+            options: options.map(text => ({ text })),
+            bank_item_id: item.id,
+            marks: Number(item.marks) || 1,
+            correct_option_index: resolveMcqAnswerIndex(options, item.answer),
+            correct_answer: null,
+            explanation: null,
+        };
+    }
+    return {
+        question_text: item.question_text,
+        question_type: 'short_answer',
+        position,
+        options: [],
+        bank_item_id: item.id,
+        marks: Number(item.marks) || 1,
+        correct_option_index: null,
+        correct_answer: item.answer || null,
+        explanation: null,
+    };
+}
+
+/** Items with recorded responses, most often answered wrongly first */
+export function rankByIncorrectRate(items: QuestionBankItem[], usage: QuestionBankUsage[]): ItemUsageStats[] {
+    const byId = new Map(items.map(item => [item.id, item]));
+    return usage
+        .filter(u => byId.has(u.bank_item_id) && Number(u.response_count) > 0)
+        .map(u => {
+            const responseCount = Number(u.response_count);
+            const incorrectCount = Number(u.incorrect_count);
+            return {
+                item: byId.get(u.bank_item_id)!,
+                quizCount: Number(u.quiz_count),
+                responseCount,
+                incorrectCount,
+                incorrectRate: incorrectCount / responseCount,
+            };
+        })
+        .sort((a, b) => b.incorrectRate - a.incorrectRate || b.responseCount - a.responseCount);
+}
@@ -1,10 +1,10 @@
 /**
  * Report Card Service
- * Handles generation and distribution of report card links via SMS
+ * Handles generation and distribution of report card links via SMS (queued in the message outbox)
  */
 
 import { requireSupabaseClient } from './supabaseClient';
-import { sendSmsNotification } from './smsService';
+import { bulkSendSmsNotifications, sendSmsNotification } from './smsService';
 import { createStudentSlug, generateReportToken } from '../utils/reportUrlHelpers';
 import { sanitizeForSms } from '../utils/smsHelpers';
 
@@ -43,91 +43,94 @@ interface BulkSendResult {
     sent: number;
     failed: number;
     errors: Array<{ studentId: number; studentName: string; error: string }>;
+    batchId?: string;
 }
 
 /**
- * Generate and send report card link to a single parent
+ * Get or refresh the student's public report token and build the SMS for it
  */
-export async function sendReportCardToParent(params: SendReportCardParams): Promise<SendResult> {
+async function prepareReportCardNotification(
+    params: SendReportCardParams
+): Promise<{ notification?: Parameters<typeof sendSmsNotification>[0]; token?: string; error?: string }> {
     const { studentId, termId, schoolId, recipientPhone, studentName, termName, className } = params;
     const supabase = requireSupabaseClient();
 
-    try {
-        // 1. Get or create the student term report
-        const { data: existingReport, error: fetchError } = await supabase
-            .from('student_term_reports')
-            .select('id, public_token, token_expires_at')
-            .eq('student_id', studentId)
-            .eq('term_id', termId)
-            .single();
-
-        if (fetchError && fetchError.code !== 'PGRST116') {
-            console.error('Error fetching student term report:', fetchError);
-            return { success: false, error: 'Failed to fetch report' };
-        }
+    // 1. Get or create the student term report
+    const { data: existingReport, error: fetchError } = await supabase
+        .from('student_term_reports')
+        .select('id, public_token, token_expires_at')
+        .eq('student_id', studentId)
+        .eq('term_id', termId)
+        .single();
+
+    if (fetchError && fetchError.code !== 'PGRST116') {
+        console.error('Error fetching student term report:', fetchError);
+        return { error: 'Failed to fetch report' };
+    }
 
-        let reportId: number;
-        let token: string;
-
-        // 2. Check if we need to generate a new token
-        const now = new Date();
-        const needsNewToken = !existingReport?.public_token || 
-            !existingReport?.token_expires_at || 
-            new Date(existingReport.token_expires_at) <= now;
-
-        if (needsNewToken) {
-            // Generate new token with 30-day expiry
-            token = generateReportToken();
-            const expiresAt = new Date();
-            expiresAt.setDate(expiresAt.getDate() + 30);
-
-            if (existingReport) {
-                // Update existing report with new token
-                const { error: updateError } = await supabase
-                    .from('student_term_reports')
-                    .update({
-                        public_token: token,
-                        token_expires_at: expiresAt.toISOString()
-                    })
-                    .eq('id', existingReport.id);
-
-                if (updateError) {
-                    console.error('Error updating token:', updateError);
-                    return { success: false, error: 'Failed to update token' };
-                }
-                reportId = existingReport.id;
-            } else {
-                // Create new report with token
-                const { data: newReport, error: createError } = await supabase
-                    .from('student_term_reports')
-                    .insert({
-                        student_id: studentId,
-                        term_id: termId,
-                        school_id: schoolId,
-                        public_token: token,
-                        token_expires_at: expiresAt.toISOString()
-                    })
-                    .select('id')
-                    .single();
-
-                if (createError || !newReport) {
-                    console.error('Error creating report:', createError);
-                    return { success: false, error: 'Failed to create report' };
-                }
-                reportId = newReport.id;
+    let reportId: number;
+    let token: string;
+
+    // 2. Check if we need to generate a new token
+    const now = new Date();
+    const needsNewToken = !existingReport?.public_token || 
+        !existingReport?.token_expires_at || 
+        new Date(existingReport.token_expires_at) <= now;
+
+    if (needsNewToken) {
+        // Generate new token with 30-day expiry
+        token = generateReportToken();
+        const expiresAt = new Date();
+        expiresAt.setDate(expiresAt.getDate() + 30);
+
+        if (existingReport) {
+            // Update existing report with new token
+            const { error: updateError } = await supabase
+                .from('student_term_reports')
+                .update({
+                    public_token: token,
+                    token_expires_at: expiresAt.toISOString()
+                })
+                .eq('id', existingReport.id);
+
+            if (updateError) {
+                console.error('Error updating token:', updateError);
+                return { error: 'Failed to update token' };
             }
-        } else {
-            // Use existing valid token
-            token = existingReport.public_token!;
             reportId = existingReport.id;
+        } else {
+            // Create new report with token
+            const { data: newReport, error: createError } = await supabase
+                .from('student_term_reports')
+                .insert({
+                    student_id: studentId,
+                    term_id: termId,
+                    school_id: schoolId,
+                    public_token: token,
+                    token_expires_at: expiresAt.toISOString()
+                })
+                .select('id')
+                .single();
+
+            if (createError || !newReport) {
+                console.error('Error creating report:', createError);
+                return { error: 'Failed to create report' };
+            }
+            reportId = newReport.id;
         }
+    } else {
+        // Use existing valid token
+        token = existingReport.public_token!;
+        reportId = existingReport.id;
+    }
 
-        // 3. Build the public URL with student slug
-        const studentSlug = createStudentSlug(studentName);
-        const downloadLink = `${window.location.origin}/report/${token}/${studentSlug}`;
+    // 3. Build the public URL with student slug
+    const studentSlug = createStudentSlug(studentName);
+    const downloadLink = `${window.location.origin}/report/${token}/${studentSlug}`;
 
-        // 4. Send SMS notification
-        const smsSuccess = await sendSmsNotification({
+    return {
+        token,
+        notification: {
             schoolId,
             studentId,
             recipientPhone,
@@ -139,15 +142,31 @@ export async function sendReportCardToParent(params: SendReportCardParams): Prom
                 download_link: downloadLink
             },
             referenceId: reportId,
+            attachments: [{ document: 'report_card', id: reportId }],
             notificationType: 'report_card_ready',
             sentBy: 'system'
-        });
+        }
+    };
+}
+
+/**
+ * Generate and send report card link to a single parent
+ */
+export async function sendReportCardToParent(params: SendReportCardParams): Promise<SendResult> {
+    try {
+        const prepared = await prepareReportCardNotification(params);
+        if (!prepared.notification) {
+            return { success: false, error: prepared.error };
+        }
+
+        // 4. Queue the SMS notification
+        const smsSuccess = await sendSmsNotification(prepared.notification);
 
         if (!smsSuccess) {
-            return { success: false, error: 'Failed to send SMS' };
+            return { success: false, error: 'Failed to queue SMS' };
         }
 
-        return { success: true, token };
+        return { success: true, token: prepared.token };
     } catch (error) {
         console.error('Error in sendReportCardToParent:', error);
         return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -155,7 +174,8 @@ export async function sendReportCardToParent(params: SendReportCardParams): Prom
 }
 
 /**
- * Bulk send report cards to multiple parents
+ * Bulk send report cards to multiple parents. Links are prepared here and every SMS is
+ * queued as one outbox batch, which keeps delivering after this page is closed.
  */
 export async function bulkSendReportCards(params: BulkSendParams): Promise<BulkSendResult> {
     const { students, termId, termName, schoolId } = params;
@@ -166,32 +186,46 @@ export async function bulkSendReportCards(params: BulkSendParams): Promise<BulkS
         errors: []
     };
 
-    // Rate limiting: 100-150ms delay between sends
-    for (const student of students) {
-        const sendResult = await sendReportCardToParent({
-            studentId: student.studentId,
-            termId,
-            schoolId,
-            recipientPhone: student.parentPhone,
-            studentName: student.studentName,
-            termName,
-            className: student.className
-        });
+    const notifications: Parameters<typeof sendSmsNotification>[0][] = [];
+    const recordFailure = (student: BulkSendStudent, error: string) => {
+        result.failed++;
+        result.errors.push({ studentId: student.studentId, studentName: student.studentName, error });
+    };
 
-        if (sendResult.success) {
-            result.sent++;
-        } else {
-            result.failed++;
-            result.errors.push({
+    for (const student of students) {
+        try {
+            const prepared = await prepareReportCardNotification({
                 studentId: student.studentId,
+                termId,
+                schoolId,
+                recipientPhone: student.parentPhone,
                 studentName: student.studentName,
-                error: sendResult.error || 'Unknown error'
+                termName,
+                className: student.className
             });
+            if (prepared.notification) {
+                notifications.push(prepared.notification);
+            } else {
+                recordFailure(student, prepared.error || 'Unknown error');
+            }
+        } catch (error) {
+            recordFailure(student, error instanceof Error ? error.message : 'Unknown error');
         }
+    }
 
-        // Random delay between 100-150ms to avoid API throttling
-        const delay = Math.floor(Math.random() * 51) + 100;
-        await new Promise(resolve => setTimeout(resolve, delay));
+    const queued = await bulkSendSmsNotifications(notifications);
+    result.sent = queued.sent;
+    result.batchId = queued.batchId;
+    if (queued.failed > 0) {
+        result.failed += queued.failed;
+        queued.errors.forEach(error => {
+            const student = students.find(s => s.parentPhone === error.phone);
+            result.errors.push({
+                studentId: student?.studentId ?? 0,
+                studentName: student?.studentName ?? 'Batch',
+                error: error.error
+            });
+        });
     }
 
     return result;
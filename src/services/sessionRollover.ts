@@ -0,0 +1,242 @@
+import type { AcademicClass, AcademicClassStudent, AnnualResult, PromotionDecision, Student, StudentSubjectEnrollment } from '../types.js';
+import { getEffectiveDecision, getNextLevel } from './promotionPlanner.js';
+
+type ClassTemplate = Pick<AcademicClass, 'id' | 'school_id' | 'level' | 'arm'>
+    & Partial<Pick<AcademicClass, 'assessment_structure_id' | 'grading_scheme_id' | 'report_config' | 'campus_id' | 'min_subjects' | 'max_subjects'>>;
+
+type SourceAssignment = {
+    academic_class_id: number;
+    subject_name: string;
+    subject_group?: string | null;
+    teacher_user_id?: string | null;
+    max_ca_score?: number | null;
+    max_exam_score?: number | null;
+};
+
+export interface RolloverClassToCreate {
+    key: string;
+    name: string;
+    level: string;
+    arm: string;
+    template_class_id: number;
+    assessment_structure_id: number | null;
+    grading_scheme_id: number | null;
+    report_config: AcademicClass['report_config'] | null;
+    campus_id: number | null;
+    min_subjects: number | null;
+    max_subjects: number | null;
+}
+
+export interface RolloverAssignment {
+    target_key: string;
+    subject_name: string;
+    subject_group: string | null;
+    teacher_user_id: string | null;
+    max_ca_score: number | null;
+    max_exam_score: number | null;
+}
+
+export interface RolloverStudentMove {
+    student_id: number;
+    from_class_id: number;
+    target_key: string;
+    decision: PromotionDecision;
+    /** classes.id for the target level; null when the level is missing from the classes list */
+    level_id: number | null;
+    annual_result_id: number | null;
+}
+
+export interface RolloverSubjectEnrollment {
+    student_id: number;
+    subject_id: number;
+    target_key: string;
+}
+
+export interface RolloverPlan {
+    is_new_session: boolean;
+    target_session_label: string;
+    classes: RolloverClassToCreate[];
+    assignments: RolloverAssignment[];
+    student_moves: RolloverStudentMove[];
+    graduations: number[];
+    subject_enrollments: RolloverSubjectEnrollment[];
+    /** Subject choices dropped because the subject is not offered at the new level */
+    dropped_subject_enrollments: number;
+    warnings: string[];
+}
+
+export interface RolloverPlanInput {
+    sourceSessionLabel: string;
+    targetSessionLabel: string;
+    sourceClasses: ClassTemplate[];
+    targetClasses: Pick<AcademicClass, 'id' | 'level' | 'arm'>[];
+    sourceAssignments: SourceAssignment[];
+    targetAssignments: Pick<SourceAssignment, 'academic_class_id' | 'subject_name'>[];
+    /** Enrollments in the source term, i.e. where each student is now */
+    sourceEnrollments: Pick<AcademicClassStudent, 'student_id' | 'academic_class_id'>[];
+    students: Pick<Student, 'id' | 'status'>[];
+    /** Approved annual results; students without one are promoted */
+    annualResults: Pick<AnnualResult, 'id' | 'student_id' | 'recommendation' | 'final_decision'>[];
+    levels: { id: number; name: string }[];
+    subjectEnrollments: Pick<StudentSubjectEnrollment, 'student_id' | 'subject_id' | 'is_enrolled'>[];
+    /** Subjects offered per level (class_subjects); a level with none listed accepts every subject */
+    levelSubjects: { class_id: number; subject_id: number }[];
+    nextLevels?: Record<string, string | null>;
+}
+
+const INACTIVE_STATUSES = ['Withdrawn', 'Graduated', 'Expelled', 'Inactive'];
+
+export const classKey = (level: string, arm: string) => `${level}|${arm}`;
+
+const className = (level: string, arm: string, sessionLabel: string) => `${level}${arm ? ` ${arm}` : ''} (${sessionLabel})`;
+
+/**
+ * Works out everything a rollover would change without touching the database, so the
+ * wizard can show it as a dry run and the apply RPC can replay it exactly.
+ */
+export function buildRolloverPlan(input: RolloverPlanInput): RolloverPlan {
+    const isNewSession = input.sourceSessionLabel !== input.targetSessionLabel;
+    const plan: RolloverPlan = {
+        is_new_session: isNewSession,
+        target_session_label: input.targetSessionLabel,
+        classes: [],
+        assignments: [],
+        student_moves: [],
+        graduations: [],
+        subject_enrollments: [],
+        dropped_subject_enrollments: 0,
+        warnings: [],
+    };
+
+    const sourceById = new Map(input.sourceClasses.map(c => [c.id, c]));
+    const sourceByKey = new Map(input.sourceClasses.map(c => [classKey(c.level, c.arm), c]));
+    const targetKeys = new Set(input.targetClasses.map(c => classKey(c.level, c.arm)));
+    const plannedKeys = new Set<string>();
+
+    // Within a session the same classes carry on; across sessions each level/arm needs a new class
+    const targetKeyFor = (level: string, arm: string, fallbackTemplate: ClassTemplate): string => {
+        const key = classKey(level, arm);
+        if (!isNewSession || targetKeys.has(key) || plannedKeys.has(key)) return key;
+        // Settings come from last session's class at the same level when there is one
+        const template = sourceByKey.get(key) || fallbackTemplate;
+        plan.classes.push({
+            key,
+            name: className(level, arm, input.targetSessionLabel),
+            level,
+            arm,
+            template_class_id: template.id,
+            assessment_structure_id: template.assessment_structure_id ?? null,
+            grading_scheme_id: template.grading_scheme_id ?? null,
+            report_config: template.report_config ?? null,
+            campus_id: template.campus_id ?? null,
+            min_subjects: template.min_subjects ?? null,
+            max_subjects: template.max_subjects ?? null,
+        });
+        plannedKeys.add(key);
+        return key;
+    };
+
+    // 1. Teaching assignments follow their class's level and arm
+    const existingAssignments = new Set(input.targetAssignments.map(a => `${a.academic_class_id}|${a.subject_name}`));
+    const targetIdByKey = new Map(input.targetClasses.map(c => [classKey(c.level, c.arm), c.id]));
+    input.sourceAssignments.forEach(assignment => {
+        const sourceClass = sourceById.get(assignment.academic_class_id);
+        if (!sourceClass) return;
+        const key = targetKeyFor(sourceClass.level, sourceClass.arm, sourceClass);
+        const existingTargetId = isNewSession ? targetIdByKey.get(key) : sourceClass.id;
+        if (existingTargetId && existingAssignments.has(`${existingTargetId}|${assignment.subject_name}`)) return;
+        plan.assignments.push({
+            target_key: key,
+            subject_name: assignment.subject_name,
+            subject_group: assignment.subject_group ?? null,
+            teacher_user_id: assignment.teacher_user_id ?? null,
+            max_ca_score: assignment.max_ca_score ?? null,
+            max_exam_score: assignment.max_exam_score ?? null,
+        });
+    });
+
+    // 2. Students move up, repeat or graduate
+    const statusById = new Map(input.students.map(s => [s.id, s.status]));
+    const resultByStudent = new Map(input.annualResults.map(r => [r.student_id, r]));
+    const levelIdByName = new Map(input.levels.map(l => [l.name.trim().toLowerCase(), l.id]));
+    const missingLevels = new Set<string>();
+    const targetLevelByStudent = new Map<number, { key: string; levelId: number | null }>();
+
+    input.sourceEnrollments.forEach(enrollment => {
+        const status = statusById.get(enrollment.student_id);
+        if (status === undefined || INACTIVE_STATUSES.includes(String(status))) return;
+        const sourceClass = sourceById.get(enrollment.academic_class_id);
+        if (!sourceClass) return;
+
+        const result = resultByStudent.get(enrollment.student_id);
+        const decision: PromotionDecision = !isNewSession ? 'promote' : result ? getEffectiveDecision(result) : 'promote';
+        const targetLevel = !isNewSession || decision === 'repeat'
+            ? sourceClass.level
+            : getNextLevel(sourceClass.level, input.nextLevels);
+
+        if (!targetLevel) {
+            plan.graduations.push(enrollment.student_id);
+            return;
+        }
+
+        const key = targetKeyFor(targetLevel, sourceClass.arm, sourceClass);
+        const levelId = levelIdByName.get(targetLevel.trim().toLowerCase()) ?? null;
+        if (levelId === null) missingLevels.add(targetLevel);
+        targetLevelByStudent.set(enrollment.student_id, { key, levelId });
+        plan.student_moves.push({
+            student_id: enrollment.student_id,
+            from_class_id: sourceClass.id,
+            target_key: key,
+            decision,
+            level_id: levelId,
+            annual_result_id: result?.id ?? null,
+        });
+    });
+
+    missingLevels.forEach(level => plan.warnings.push(`"${level}" is not in the class list, so students moving there keep their current class setting.`));
+
+    // 3. Subject choices carry forward where the new level still offers the subject
+    const subjectsByLevel = new Map<number, Set<number>>();
+    input.levelSubjects.forEach(ls => {
+        if (!subjectsByLevel.has(ls.class_id)) subjectsByLevel.set(ls.class_id, new Set());
+        subjectsByLevel.get(ls.class_id)!.add(ls.subject_id);
+    });
+    const seen = new Set<string>();
+    input.subjectEnrollments.forEach(choice => {
+        if (!choice.is_enrolled) return;
+        const target = targetLevelByStudent.get(choice.student_id);
+        if (!target) return;
+        const dedupeKey = `${choice.student_id}|${choice.subject_id}`;
+        if (seen.has(dedupeKey)) return;
+        seen.add(dedupeKey);
+
+        const offered = target.levelId !== null ? subjectsByLevel.get(target.levelId) : undefined;
+        if (offered && !offered.has(choice.subject_id)) {
+            plan.dropped_subject_enrollments++;
+            return;
+        }
+        plan.subject_enrollments.push({ student_id: choice.student_id, subject_id: choice.subject_id, target_key: target.key });
+    });
+
+    return plan;
+}
+
+export interface RolloverMoveGroup {
+    fromClassId: number;
+    targetKey: string;
+    decision: PromotionDecision;
+    studentIds: number[];
+}
+
+/** Student moves grouped by source class, destination and decision for the dry-run diff */
+export function groupStudentMoves(moves: RolloverStudentMove[]): RolloverMoveGroup[] {
+    const groups = new Map<string, RolloverMoveGroup>();
+    moves.forEach(move => {
+        const key = `${move.from_class_id}|${move.target_key}|${move.decision}`;
+        if (!groups.has(key)) {
+            groups.set(key, { fromClassId: move.from_class_id, targetKey: move.target_key, decision: move.decision, studentIds: [] });
+        }
+        groups.get(key)!.studentIds.push(move.student_id);
+    });
+    return [...groups.values()];
+}
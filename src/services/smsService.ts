@@ -1,11 +1,12 @@
 /**
  * SMS Service for Parent Notifications
- * Supports Kudi SMS integration for sending SMS and WhatsApp messages
- * with channel selection and fallback logic
+ * Queues SMS, WhatsApp and email messages in the message outbox, which delivers them
+ * through Kudi SMS / Green-API / SMTP with channel selection and fallback logic
  */
 
 import { requireSupabaseClient } from './supabaseClient';
-import type { SmsTemplate, SmsNotification, NotificationType, NotificationChannel } from '../types';
+import { queueNotifications } from './messageOutbox';
+import type { SmsTemplate, OutboxMessage, NotificationType, NotificationAttachment } from '../types';
 
 interface SendSmsParams {
     schoolId: number;
@@ -17,298 +18,78 @@ interface SendSmsParams {
     notificationType: NotificationType;
     sentBy: string;
     campusId?: number | null;
+    /** Only used when email is a channel for the type; defaults to the parent email on file */
+    recipientEmail?: string;
+    attachments?: NotificationAttachment[];
 }
 
 interface BulkSendResult {
     sent: number;
     failed: number;
     errors: { phone: string; error: string }[];
+    batchId?: string;
 }
 
 /**
- * Send a notification via specific channel (SMS or WhatsApp)
- * Now uses Green-API for WhatsApp if configured, falls back to KudiSMS
- */
-async function sendViaChannel(options: {
-    channel: 'sms' | 'whatsapp';
-    recipientPhone: string;
-    messageContent: string;
-    schoolId: number;
-    templateCode?: string;
-    templateParams?: string;
-    campusId?: number | null;
-}): Promise<{ success: boolean; error?: string }> {
-    const { channel, recipientPhone, messageContent, schoolId, templateCode, templateParams, campusId } = options;
-    const supabase = requireSupabaseClient();
-    try {
-        if (channel === 'whatsapp') {
-            // Check if Green-API is configured for this school
-            const { data: greenApiSettings } = await supabase
-                .from('greenapi_settings')
-                .select('*')
-                .eq('school_id', schoolId)
-                .eq('is_active', true)
-                .maybeSingle();
-
-            if (greenApiSettings) {
-                // Use Green-API for WhatsApp
-                const { data: sendResult, error: sendError } = await supabase.functions.invoke(
-                    'greenapi-send',
-                    {
-                        body: {
-                            school_id: schoolId,
-                            campus_id: campusId,
-                            recipient_phone: recipientPhone,
-                            message: messageContent,
-                            send_type: 'text'
-                        }
-                    }
-                );
-
-                if (sendError || !sendResult?.success) {
-                    return {
-                        success: false,
-                        error: sendError?.message || sendResult?.error || 'Green-API send failed'
-                    };
-                }
-
-                return { success: true };
-            }
-
-            // Fallback to KudiSMS WhatsApp
-            const body: any = {
-                phone_number: recipientPhone,
-                school_id: schoolId,
-                gateway: '2',
-                template_code: templateCode || '',
-                params: templateParams || '',
-            };
-
-            const { data: sendResult, error: sendError } = await supabase.functions.invoke(
-                'kudisms-send',
-                { body }
-            );
-
-            if (sendError || !sendResult?.success) {
-                return {
-                    success: false,
-                    error: sendError?.message || sendResult?.error || 'KudiSMS WhatsApp send failed'
-                };
-            }
-
-            return { success: true };
-        } else {
-            // SMS - always use KudiSMS
-            const body: any = {
-                phone_number: recipientPhone,
-                school_id: schoolId,
-                gateway: '1',
-                message: messageContent,
-            };
-
-            const { data: sendResult, error: sendError } = await supabase.functions.invoke(
-                'kudisms-send',
-                { body }
-            );
-
-            if (sendError || !sendResult?.success) {
-                return {
-                    success: false,
-                    error: sendError?.message || sendResult?.error || 'SMS send failed'
-                };
-            }
-
-            return { success: true };
-        }
-    } catch (error: any) {
-        return { success: false, error: error.message };
-    }
-}
-
-/**
- * Send an SMS/WhatsApp notification using Kudi SMS integration
- * with channel selection and fallback logic
+ * Queue an SMS/WhatsApp notification. Channel, fallback and quiet hours are applied by the
+ * message outbox (see messageOutbox.ts); true means the message was accepted for delivery.
  */
 export async function sendSmsNotification(params: SendSmsParams): Promise<boolean> {
-    const supabase = requireSupabaseClient();
-    const {
-        schoolId,
-        studentId,
-        recipientPhone,
-        templateName,
-        variables = {},
-        referenceId,
-        notificationType,
-        sentBy,
-        campusId
-    } = params;
-
-    try {
-        // 1. Get the template
-        const { data: template, error: templateError } = await supabase
-            .from('sms_templates')
-            .select('*')
-            .eq('school_id', schoolId)
-            .eq('template_name', templateName)
-            .eq('is_active', true)
-            .single();
-
-        if (templateError || !template) {
-            console.error('Template not found:', templateName);
-            return false;
-        }
-
-        // 2. Get Kudi SMS settings to determine channel preference
-        const { data: settings } = await supabase
-            .from('kudisms_settings')
-            .select('*')
-            .eq('school_id', schoolId)
-            .eq('is_active', true)
-            .single();
-
-        const channel: NotificationChannel = settings?.notification_channels?.[notificationType] || 'sms';
-        const enableFallback = settings?.enable_fallback ?? true;
-        const whatsappTemplateCode = settings?.whatsapp_template_codes?.[notificationType];
-
-        // 3. Replace variables in message content
-        let messageContent = template.message_content;
-        if (template.variables && template.variables.length > 0) {
-            template.variables.forEach((variable: string) => {
-                const value = variables[variable] || '';
-                messageContent = messageContent.replace(`{{${variable}}}`, value);
-            });
-        }
-
-        // 4. Create notification record
-        const { data: notification, error: notificationError } = await supabase
-            .from('sms_notifications')
-            .insert({
-                school_id: schoolId,
-                student_id: studentId,
-                recipient_phone: recipientPhone,
-                template_name: templateName,
-                message_content: messageContent,
-                notification_type: notificationType,
-                reference_id: referenceId,
-                status: 'pending',
-                sent_by: sentBy
-            })
-            .select()
-            .single();
-
-        if (notificationError) {
-            console.error('Failed to create notification record:', notificationError);
-            return false;
-        }
-
-        // 5. Send via selected channel with fallback logic
-        let sendResult: { success: boolean; error?: string };
-        let usedChannel: 'sms' | 'whatsapp' = 'sms';
-        let fallbackUsed = false;
-
-        // Prepare WhatsApp template parameters (comma-separated values)
-        const templateParams = template.variables?.map((v: string) => variables[v] || '').join(',');
-
-        if (channel === 'whatsapp' || channel === 'both') {
-            // Try WhatsApp first
-            usedChannel = 'whatsapp';
-            sendResult = await sendViaChannel({
-                channel: 'whatsapp',
-                recipientPhone,
-                messageContent,
-                schoolId,
-                templateCode: whatsappTemplateCode,
-                templateParams,
-                campusId
-            });
-
-            // Fallback to SMS if WhatsApp fails and fallback is enabled
-            if (!sendResult.success && (channel === 'both' || enableFallback)) {
-                console.log('WhatsApp failed, falling back to SMS');
-                usedChannel = 'sms';
-                fallbackUsed = true;
-                sendResult = await sendViaChannel({
-                    channel: 'sms',
-                    recipientPhone,
-                    messageContent,
-                    schoolId,
-                    campusId
-                });
-            }
-        } else {
-            // Send via SMS directly
-            usedChannel = 'sms';
-            sendResult = await sendViaChannel({
-                channel: 'sms',
-                recipientPhone,
-                messageContent,
-                schoolId,
-                campusId
-            });
-        }
-
-        if (!sendResult.success) {
-            // Update notification status to failed
-            await supabase
-                .from('sms_notifications')
-                .update({
-                    status: 'failed',
-                    error_message: sendResult.error || 'Unknown error'
-                })
-                .eq('id', notification.id);
-
-            console.error('Failed to send message:', sendResult.error);
-            return false;
-        }
-
-        // 6. Update notification status to sent
-        await supabase
-            .from('sms_notifications')
-            .update({
-                status: 'sent',
-                sent_at: new Date().toISOString()
-            })
-            .eq('id', notification.id);
-
-        return true;
-    } catch (error) {
-        console.error('Error sending SMS notification:', error);
-        return false;
+    const result = await bulkSendSmsNotifications([params]);
+    if (result.failed > 0) {
+        console.error('Failed to queue notification:', result.errors[0]?.error);
     }
+    return result.sent > 0;
 }
 
 /**
- * Send SMS notifications to multiple recipients with rate limiting
+ * Queue SMS notifications for many recipients in one batch. Delivery and rate limiting happen
+ * server-side, so `sent` counts messages accepted into the outbox.
  */
 export async function bulkSendSmsNotifications(
-    recipients: Array<SendSmsParams>
+    recipients: Array<SendSmsParams>,
+    options: { sendAfter?: Date | string | null } = {}
 ): Promise<BulkSendResult> {
-    const result: BulkSendResult = {
-        sent: 0,
-        failed: 0,
-        errors: []
-    };
+    if (recipients.length === 0) {
+        return { sent: 0, failed: 0, errors: [] };
+    }
 
-    // Rate limiting: 50-150ms delay between messages
-    for (const recipient of recipients) {
-        const success = await sendSmsNotification(recipient);
-        
-        if (success) {
-            result.sent++;
-        } else {
-            result.failed++;
-            result.errors.push({
+    try {
+        const result = await queueNotifications(
+            requireSupabaseClient(),
+            recipients.map(recipient => ({
+                recipient_phone: recipient.recipientPhone,
+                notification_type: recipient.notificationType,
+                template_name: recipient.templateName,
+                variables: recipient.variables || {},
+                student_id: recipient.studentId,
+                campus_id: recipient.campusId ?? undefined,
+                reference_id: recipient.referenceId,
+                recipient_email: recipient.recipientEmail,
+                attachments: recipient.attachments,
+            })),
+            { sendAfter: options.sendAfter, sentBy: recipients[0].sentBy }
+        );
+
+        return {
+            sent: result.queued,
+            failed: result.rejected,
+            errors: result.rejected > 0
+                ? [{ phone: '', error: `${result.rejected} message(s) could not be queued; see Notification History` }]
+                : [],
+            batchId: result.batch_id
+        };
+    } catch (error: any) {
+        console.error('Error queuing SMS notifications:', error);
+        return {
+            sent: 0,
+            failed: recipients.length,
+            errors: recipients.map(recipient => ({
                 phone: recipient.recipientPhone,
-                error: 'Failed to send message'
-            });
-        }
-
-        // Random delay between 50-150ms to avoid rate limiting
-        const delay = Math.floor(Math.random() * 100) + 50;
-        await new Promise(resolve => setTimeout(resolve, delay));
+                error: error?.message || 'Failed to queue message'
+            }))
+        };
     }
-
-    return result;
 }
 
 /**
@@ -324,10 +105,11 @@ export async function wasRecentlyNotified(
     cutoffTime.setMinutes(cutoffTime.getMinutes() - withinMinutes);
 
     const { data, error } = await supabase
-        .from('sms_notifications')
+        .from('message_outbox')
         .select('id')
         .eq('student_id', studentId)
         .eq('notification_type', notificationType)
+        .neq('status', 'dead')
         .gte('created_at', cutoffTime.toISOString())
         .limit(1);
 
@@ -345,10 +127,10 @@ export async function wasRecentlyNotified(
 export async function getNotificationHistory(
     studentId: number,
     limit: number = 50
-): Promise<SmsNotification[]> {
+): Promise<OutboxMessage[]> {
     const supabase = requireSupabaseClient();
     const { data, error } = await supabase
-        .from('sms_notifications')
+        .from('message_outbox')
         .select('*')
         .eq('student_id', studentId)
         .order('created_at', { ascending: false })
@@ -0,0 +1,363 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+    LoanLineMetadata,
+    StaffLoan,
+    StaffLoanInstallment,
+    StaffLoanType,
+} from '../types.js';
+
+/**
+ * Staff loans and salary advances. An approved loan gets a schedule of fixed monthly installments
+ * (interest, if any, on the reducing balance) and each payroll run deducts the oldest installment
+ * due for every active loan. A repayment is paused rather than taken when it would push net pay
+ * below the school's floor; the installment stays due and is picked up by the next run.
+ */
+
+export const LOAN_TYPE_LABELS: Record<StaffLoanType, string> = {
+    advance: 'Salary advance',
+    loan: 'Staff loan',
+};
+
+export type ScheduledInstallment = Pick<
+    StaffLoanInstallment,
+    'installment_number' | 'period_key' | 'principal' | 'interest' | 'amount' | 'balance_after'
+>;
+
+export type DueInstallment = StaffLoanInstallment & { loan: StaffLoan };
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const formatAmount = (value: number) =>
+    value.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** "2026-11" plus n months */
+export function addMonths(periodKey: string, months: number): string {
+    const [year, month] = periodKey.split('-').map(Number);
+    const index = year * 12 + (month - 1) + months;
+    return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Fixed installments: principal ÷ n without interest, otherwise the annuity payment at a monthly
+ * rate of interest_rate / 12. The last installment takes the rounding so the principal clears exactly.
+ */
+export function buildLoanSchedule(
+    principal: number,
+    annualRatePercent: number,
+    installments: number,
+    firstPeriod: string
+): ScheduledInstallment[] {
+    if (!(principal > 0)) throw new Error('Loan amount must be greater than zero');
+    if (!Number.isInteger(installments) || installments < 1) throw new Error('Installments must be a whole number of months');
+    if (!/^\d{4}-\d{2}$/.test(firstPeriod)) throw new Error('First repayment month must be YYYY-MM');
+
+    const rate = (Number(annualRatePercent) || 0) / 12 / 100;
+    const payment = rate > 0
+        ? roundMoney((principal * rate) / (1 - Math.pow(1 + rate, -installments)))
+        : roundMoney(principal / installments);
+
+    const schedule: ScheduledInstallment[] = [];
+    let balance = principal;
+    for (let n = 1; n <= installments; n++) {
+        const interest = roundMoney(balance * rate);
+        const principalPart = n === installments ? balance : Math.min(balance, roundMoney(payment - interest));
+        balance = roundMoney(balance - principalPart);
+        schedule.push({
+            installment_number: n,
+            period_key: addMonths(firstPeriod, n - 1),
+            principal: roundMoney(principalPart),
+            interest,
+            amount: roundMoney(principalPart + interest),
+            balance_after: balance,
+        });
+    }
+    return schedule;
+}
+
+export interface LoanBalance {
+    total_repayable: number;
+    repaid: number;
+    outstanding: number;
+    outstanding_principal: number;
+    installments_left: number;
+    next_installment: StaffLoanInstallment | null;
+}
+
+export function loanBalance(loan: Pick<StaffLoan, 'settlement_amount' | 'schedule'>): LoanBalance {
+    const schedule = [...(loan.schedule || [])].sort((a, b) => a.installment_number - b.installment_number);
+    const pending = schedule.filter(i => i.status === 'pending');
+    const sum = (items: StaffLoanInstallment[], key: 'amount' | 'principal') =>
+        roundMoney(items.reduce((total, i) => total + (Number(i[key]) || 0), 0));
+    return {
+        total_repayable: sum(schedule, 'amount'),
+        repaid: roundMoney(sum(schedule.filter(i => i.status === 'deducted'), 'amount') + (Number(loan.settlement_amount) || 0)),
+        outstanding: sum(pending, 'amount'),
+        outstanding_principal: sum(pending, 'principal'),
+        installments_left: pending.length,
+        next_installment: pending[0] || null,
+    };
+}
+
+/** Paying off early clears the outstanding principal; interest not yet due is waived */
+export function payoffAmount(loan: Pick<StaffLoan, 'schedule'>): number {
+    return loanBalance({ schedule: loan.schedule }).outstanding_principal;
+}
+
+/**
+ * Which of a staff member's due installments this run takes. At most one per loan (the oldest),
+ * oldest loans first, and none that would leave net pay below the floor.
+ */
+export function planLoanDeductions(
+    netPay: number,
+    floor: number,
+    due: DueInstallment[]
+): { deducted: DueInstallment[]; paused: DueInstallment[] } {
+    const oldestPerLoan = new Map<number, DueInstallment>();
+    [...due]
+        .sort((a, b) => a.installment_number - b.installment_number)
+        .forEach(i => { if (!oldestPerLoan.has(i.loan_id)) oldestPerLoan.set(i.loan_id, i); });
+
+    const deducted: DueInstallment[] = [];
+    const paused: DueInstallment[] = [];
+    let remaining = netPay;
+    [...oldestPerLoan.values()]
+        .sort((a, b) => (a.loan.approved_at || a.loan.created_at).localeCompare(b.loan.approved_at || b.loan.created_at) || a.loan_id - b.loan_id)
+        .forEach(installment => {
+            if (remaining - installment.amount < (Number(floor) || 0)) {
+                paused.push(installment);
+            } else {
+                remaining = roundMoney(remaining - installment.amount);
+                deducted.push(installment);
+            }
+        });
+    return { deducted, paused };
+}
+
+export function loanLineLabel(installment: DueInstallment, paused = false): string {
+    const label = LOAN_TYPE_LABELS[installment.loan.loan_type];
+    return `${label} repayment${paused ? ' paused' : ''} (${installment.installment_number} of ${installment.loan.installments})`;
+}
+
+export function loanLineMetadata(installment: DueInstallment, paused: boolean, floor: number): LoanLineMetadata {
+    return {
+        source: 'loan',
+        loan_id: installment.loan_id,
+        installment_id: installment.id,
+        installment_number: installment.installment_number,
+        paused,
+        detail: paused
+            ? `Not deducted: net pay would fall below ${formatAmount(floor)}`
+            : `Balance after this repayment: ${formatAmount(Number(installment.balance_after) || 0)}`,
+    };
+}
+
+/** Outstanding balances for every active loan, for finance to reconcile */
+export function generateLoanBalanceCSV(loans: StaffLoan[]): string {
+    const rows: string[][] = [
+        ['Staff Name', 'Staff Code', 'Type', 'Approved', 'Principal', 'Interest Rate (%)', 'Total Repayable', 'Repaid', 'Outstanding', 'Installments Left', 'Next Due'],
+    ];
+    const totals = { principal: 0, outstanding: 0 };
+    [...loans]
+        .filter(loan => loan.status === 'active')
+        .sort((a, b) => (a.staff?.name || '').localeCompare(b.staff?.name || ''))
+        .forEach(loan => {
+            const balance = loanBalance(loan);
+            totals.principal += Number(loan.principal) || 0;
+            totals.outstanding += balance.outstanding;
+            rows.push([
+                loan.staff?.name || 'Unknown',
+                loan.staff?.staff_code || '',
+                LOAN_TYPE_LABELS[loan.loan_type],
+                loan.approved_at ? loan.approved_at.slice(0, 10) : '',
+                Number(loan.principal).toFixed(2),
+                String(Number(loan.interest_rate) || 0),
+                balance.total_repayable.toFixed(2),
+                balance.repaid.toFixed(2),
+                balance.outstanding.toFixed(2),
+                String(balance.installments_left),
+                balance.next_installment?.period_key || '',
+            ]);
+        });
+    rows.push(['TOTAL', '', '', '', roundMoney(totals.principal).toFixed(2), '', '', '', roundMoney(totals.outstanding).toFixed(2), '', '']);
+
+    return rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+}
+
+const LOAN_SELECT = '*, staff:user_profiles!user_id(id, name, staff_code), schedule:staff_loan_installments(*)';
+
+/** The school's loans, or one staff member's, newest first */
+export async function getStaffLoans(client: SupabaseClient, schoolId: number, userId?: string): Promise<StaffLoan[]> {
+    let query = client.from('staff_loans').select(LOAN_SELECT).eq('school_id', schoolId);
+    if (userId) query = query.eq('user_id', userId);
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []) as StaffLoan[];
+}
+
+export async function requestStaffLoan(
+    client: SupabaseClient,
+    request: Pick<StaffLoan, 'school_id' | 'user_id' | 'loan_type' | 'principal' | 'installments' | 'reason'>
+): Promise<StaffLoan> {
+    if (!(Number(request.principal) > 0)) throw new Error('Loan amount must be greater than zero');
+    const { data, error } = await client
+        .from('staff_loans')
+        .insert({ ...request, interest_rate: 0, status: 'pending' })
+        .select(LOAN_SELECT)
+        .single();
+    if (error) throw error;
+    return data as StaffLoan;
+}
+
+/** Approve on the given terms and write the repayment schedule */
+export async function approveStaffLoan(
+    client: SupabaseClient,
+    loan: StaffLoan,
+    terms: Pick<StaffLoan, 'principal' | 'interest_rate' | 'installments'> & { first_period: string },
+    actorId: string
+): Promise<void> {
+    if (loan.status !== 'pending') throw new Error('Only pending requests can be approved');
+    const schedule = buildLoanSchedule(Number(terms.principal), Number(terms.interest_rate), Number(terms.installments), terms.first_period);
+
+    const { error: scheduleError } = await client
+        .from('staff_loan_installments')
+        .insert(schedule.map(installment => ({ ...installment, loan_id: loan.id, status: 'pending' })));
+    if (scheduleError) throw scheduleError;
+
+    const { error } = await client
+        .from('staff_loans')
+        .update({
+            ...terms,
+            status: 'active',
+            approved_by: actorId,
+            approved_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', loan.id)
+        .eq('status', 'pending');
+    if (error) {
+        await client.from('staff_loan_installments').delete().eq('loan_id', loan.id);
+        throw error;
+    }
+}
+
+/** Reject (by a payroll manager) or cancel (by the requester) a pending request */
+export async function closeStaffLoanRequest(
+    client: SupabaseClient,
+    loanId: number,
+    status: 'rejected' | 'cancelled',
+    notes?: string
+): Promise<void> {
+    const { error } = await client
+        .from('staff_loans')
+        .update({ status, admin_notes: notes || null, updated_at: new Date().toISOString() })
+        .eq('id', loanId)
+        .eq('status', 'pending');
+    if (error) throw error;
+}
+
+/** Record an early payoff made outside payroll; the remaining installments are closed */
+export async function settleStaffLoan(client: SupabaseClient, loan: StaffLoan): Promise<number> {
+    if (loan.status !== 'active') throw new Error('Only active loans can be paid off');
+    const amount = payoffAmount(loan);
+
+    const { error: scheduleError } = await client
+        .from('staff_loan_installments')
+        .update({ status: 'settled' })
+        .eq('loan_id', loan.id)
+        .eq('status', 'pending');
+    if (scheduleError) throw scheduleError;
+
+    const { error } = await client
+        .from('staff_loans')
+        .update({
+            status: 'repaid',
+            settlement_amount: amount,
+            settled_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', loan.id);
+    if (error) throw error;
+    return amount;
+}
+
+/** Pending installments of active loans due in or before the period, with the school's net pay floor */
+export async function getLoanRepaymentInputs(
+    client: SupabaseClient,
+    schoolId: number,
+    year: number,
+    month: number
+): Promise<{ floor: number; due: DueInstallment[] }> {
+    const periodKey = `${year}-${String(month).padStart(2, '0')}`;
+    const [config, due] = await Promise.all([
+        client.from('school_config').select('loan_net_pay_floor').eq('school_id', schoolId).maybeSingle(),
+        client
+            .from('staff_loan_installments')
+            .select('*, loan:staff_loans!inner(*)')
+            .eq('loan.school_id', schoolId)
+            .eq('loan.status', 'active')
+            .eq('status', 'pending')
+            .is('payroll_run_id', null)
+            .lte('period_key', periodKey),
+    ]);
+    if (config.error) throw config.error;
+    if (due.error) throw due.error;
+    return { floor: Number(config.data?.loan_net_pay_floor) || 0, due: (due.data || []) as DueInstallment[] };
+}
+
+/**
+ * Hold installments for a draft run's payslips. They stay pending, so a regenerated or deleted
+ * run gives them back, until confirmLoanDeductions runs when the payroll is finalised.
+ */
+export async function reserveLoanDeductions(
+    client: SupabaseClient,
+    runId: string,
+    deductions: { installment: DueInstallment; payslipId: string }[]
+): Promise<void> {
+    for (const { installment, payslipId } of deductions) {
+        const { error } = await client
+            .from('staff_loan_installments')
+            .update({ payroll_run_id: runId, payslip_id: payslipId })
+            .eq('id', installment.id)
+            .eq('status', 'pending');
+        if (error) throw error;
+    }
+}
+
+/** Give back installments held by a run before its payslips are generated again */
+export async function releaseLoanDeductions(client: SupabaseClient, runId: string): Promise<void> {
+    const { error } = await client
+        .from('staff_loan_installments')
+        .update({ payroll_run_id: null, payslip_id: null })
+        .eq('payroll_run_id', runId)
+        .eq('status', 'pending');
+    if (error) throw error;
+}
+
+/** Mark a finalised run's installments deducted, and close loans with nothing left to repay */
+export async function confirmLoanDeductions(client: SupabaseClient, runId: string): Promise<void> {
+    const { data: deducted, error: deductError } = await client
+        .from('staff_loan_installments')
+        .update({ status: 'deducted' })
+        .eq('payroll_run_id', runId)
+        .eq('status', 'pending')
+        .select('loan_id');
+    if (deductError) throw deductError;
+
+    const loanIds = [...new Set((deducted || []).map((row: { loan_id: number }) => row.loan_id))];
+    if (loanIds.length === 0) return;
+    const { data: stillDue, error } = await client
+        .from('staff_loan_installments')
+        .select('loan_id')
+        .in('loan_id', loanIds)
+        .eq('status', 'pending');
+    if (error) throw error;
+    const open = new Set((stillDue || []).map((row: { loan_id: number }) => row.loan_id));
+    const repaid = loanIds.filter(id => !open.has(id));
+    if (repaid.length > 0) {
+        const { error: repaidError } = await client
+            .from('staff_loans')
+            .update({ status: 'repaid', updated_at: new Date().toISOString() })
+            .in('id', repaid);
+        if (repaidError) throw repaidError;
+    }
+}
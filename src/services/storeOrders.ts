@@ -0,0 +1,239 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { InventoryItem, Order, OrderStatus, StoreBillingAllowance } from '../types.js';
+
+/**
+ * Store order lifecycle. place_store_order reserves stock, Paystack verification (webhook or
+ * verify-store-payment) marks the order Paid, and set_order_status moves it on, taking stock
+ * out on delivery and putting it back on return. See 20261102_storefront_order_fulfilment.sql.
+ * Orders added to the school bill instead stay Pending until the fee ledger settles their
+ * invoice lines (20261103_store_orders_on_fee_account.sql).
+ */
+
+/** Mirrors the transitions set_order_status accepts */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    Pending: ['Paid', 'Cancelled'],
+    Paid: ['Delivered', 'Cancelled'],
+    Delivered: ['Returned'],
+    Returned: [],
+    Cancelled: [],
+};
+
+export const nextOrderStatuses = (status: OrderStatus): OrderStatus[] => ORDER_STATUS_TRANSITIONS[status] || [];
+
+/** Units a buyer can still add to a cart */
+export const availableStock = (item: Pick<InventoryItem, 'stock' | 'reserved'>) =>
+    Math.max(item.stock - (item.reserved || 0), 0);
+
+/** Whole minutes until a Pending order's reservation lapses (0 once expired), or null when nothing is held */
+export function reservationMinutesLeft(order: Pick<Order, 'status' | 'reserved_until'>, now: Date = new Date()): number | null {
+    if (order.status !== 'Pending' || !order.reserved_until) return null;
+    return Math.max(Math.ceil((new Date(order.reserved_until).getTime() - now.getTime()) / 60000), 0);
+}
+
+/** Why an order cannot go on the school bill, or null when it fits the allowance */
+export function storeBillingBlocker(allowance: StoreBillingAllowance | null, orderTotal: number): string | null {
+    if (!allowance || allowance.limit === null) {
+        return 'A parent has not allowed store purchases on the school bill yet.';
+    }
+    if (orderTotal > allowance.remaining) {
+        return `Only ₦${allowance.remaining.toLocaleString()} of the ₦${allowance.limit.toLocaleString()} termly store limit is left.`;
+    }
+    return null;
+}
+
+export const isBilledToFees = (order: Pick<Order, 'billed_invoice_id'>) => order.billed_invoice_id != null;
+
+export interface PickListLine {
+    inventory_item_id: number;
+    name: string;
+    category: string;
+    quantity: number;
+    order_ids: number[];
+}
+
+/**
+ * Items to fetch from the shelves for Paid orders awaiting collection, totalled per item.
+ * Filter by category to give the bookstore and the uniform attendant their own lists.
+ */
+export function buildPickList(orders: Order[], category?: string): PickListLine[] {
+    const lines = new Map<number, PickListLine>();
+    orders
+        .filter(order => order.status === 'Paid')
+        .forEach(order => (order.items || []).forEach(item => {
+            const itemCategory = item.inventory_item?.category || 'General';
+            if (category && itemCategory !== category) return;
+            const line = lines.get(item.inventory_item_id) || {
+                inventory_item_id: item.inventory_item_id,
+                name: item.inventory_item?.name || `Item #${item.inventory_item_id}`,
+                category: itemCategory,
+                quantity: 0,
+                order_ids: [],
+            };
+            line.quantity += item.quantity;
+            if (!line.order_ids.includes(order.id)) line.order_ids.push(order.id);
+            lines.set(item.inventory_item_id, line);
+        }));
+    return Array.from(lines.values()).sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+}
+
+const escapeHtml = (value: unknown) => String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+    <style>
+      body { font-family: Arial, sans-serif; color: #0f172a; margin: 24px; }
+      h1 { font-size: 20px; margin: 0 0 4px; }
+      .meta { color: #475569; font-size: 12px; margin-bottom: 16px; }
+      table { width: 100%; border-collapse: collapse; font-size: 13px; }
+      th, td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: left; }
+      th { background: #f1f5f9; }
+      .num { text-align: right; }
+      .code { font-size: 28px; font-weight: bold; letter-spacing: 4px; border: 2px dashed #0f172a; display: inline-block; padding: 6px 16px; margin: 12px 0; }
+      .sign { margin-top: 40px; display: flex; gap: 48px; font-size: 12px; }
+      .sign div { border-top: 1px solid #0f172a; padding-top: 4px; width: 200px; }
+      .slip { page-break-after: always; }
+    </style>
+`;
+
+export function buildPickListHtml(lines: PickListLine[], options: { schoolName: string; category?: string; generatedAt?: Date }): string {
+    const rows = lines.map(line => `
+        <tr>
+          <td>${escapeHtml(line.name)}</td>
+          <td>${escapeHtml(line.category)}</td>
+          <td class="num">${line.quantity}</td>
+          <td>${line.order_ids.map(id => `#${id}`).join(', ')}</td>
+          <td></td>
+        </tr>
+    `).join('');
+
+    return `
+      <!doctype html>
+      <html>
+        <head><meta charset="utf-8" /><title>Pick List</title>${PRINT_STYLES}</head>
+        <body>
+          <h1>Pick List${options.category ? ` - ${escapeHtml(options.category)}` : ''}</h1>
+          <div class="meta">${escapeHtml(options.schoolName)} • Paid orders awaiting collection • ${(options.generatedAt || new Date()).toLocaleString()}</div>
+          <table>
+            <thead><tr><th>Item</th><th>Category</th><th class="num">Qty</th><th>Orders</th><th>Picked</th></tr></thead>
+            <tbody>${rows || '<tr><td colspan="5">Nothing to pick.</td></tr>'}</tbody>
+          </table>
+        </body>
+      </html>
+    `;
+}
+
+/** One slip per order: the buyer shows the collection code and both sides sign on hand-over */
+export function buildCollectionSlipHtml(orders: Order[], schoolName: string): string {
+    const slips = orders.map(order => {
+        const rows = (order.items || []).map(item => `
+            <tr>
+              <td>${escapeHtml(item.inventory_item?.name || `Item #${item.inventory_item_id}`)}</td>
+              <td class="num">${item.quantity}</td>
+              <td class="num">${Number(item.unit_price).toLocaleString()}</td>
+              <td class="num">${(item.quantity * Number(item.unit_price)).toLocaleString()}</td>
+            </tr>
+        `).join('');
+        return `
+          <div class="slip">
+            <h1>Collection Slip - Order #${order.id}</h1>
+            <div class="meta">
+              ${escapeHtml(schoolName)} • ${escapeHtml(order.user?.name || 'Customer')}
+              • Paid ${order.paid_at ? new Date(order.paid_at).toLocaleString() : 'N/A'}
+              • Ref ${escapeHtml(order.payment_reference || 'N/A')}
+            </div>
+            ${order.collection_code ? `<div class="code">${escapeHtml(order.collection_code)}</div>` : ''}
+            <table>
+              <thead><tr><th>Item</th><th class="num">Qty</th><th class="num">Price (₦)</th><th class="num">Total (₦)</th></tr></thead>
+              <tbody>${rows}</tbody>
+              <tfoot><tr><th colspan="3">Total</th><th class="num">${Number(order.total_amount).toLocaleString()}</th></tr></tfoot>
+            </table>
+            <div class="sign"><div>Issued by</div><div>Received by</div><div>Date</div></div>
+          </div>
+        `;
+    }).join('');
+
+    return `
+      <!doctype html>
+      <html>
+        <head><meta charset="utf-8" /><title>Collection Slips</title>${PRINT_STYLES}</head>
+        <body>${slips}</body>
+      </html>
+    `;
+}
+
+export async function placeStoreOrder(
+    client: SupabaseClient,
+    items: { inventory_item_id: number; quantity: number }[]
+): Promise<Order> {
+    const { data, error } = await client.rpc('place_store_order', { p_items: items });
+    if (error) throw error;
+    return data as Order;
+}
+
+export async function setOrderStatus(
+    client: SupabaseClient,
+    orderId: number,
+    status: OrderStatus,
+    note?: string
+): Promise<Order> {
+    const { data, error } = await client.rpc('set_order_status', {
+        p_order_id: orderId,
+        p_status: status,
+        p_note: note || null,
+    });
+    if (error) throw error;
+    return data as Order;
+}
+
+/** Puts a Pending order on the student's current-term invoice; studentId defaults to the buyer */
+export async function billStoreOrderToFees(
+    client: SupabaseClient,
+    orderId: number,
+    studentId?: number
+): Promise<Order> {
+    const { data, error } = await client.rpc('bill_store_order_to_fees', {
+        p_order_id: orderId,
+        p_student_id: studentId ?? null,
+    });
+    if (error) throw error;
+    return data as Order;
+}
+
+export async function getStoreBillingAllowance(client: SupabaseClient, studentId: number): Promise<StoreBillingAllowance> {
+    const { data, error } = await client.rpc('get_store_billing_allowance', { p_student_id: studentId });
+    if (error) throw error;
+    return data as StoreBillingAllowance;
+}
+
+/** null switches store billing off for the student */
+export async function setStoreSpendLimit(
+    client: SupabaseClient,
+    studentId: number,
+    limit: number | null
+): Promise<StoreBillingAllowance> {
+    const { data, error } = await client.rpc('set_store_spend_limit', { p_student_id: studentId, p_limit: limit });
+    if (error) throw error;
+    return data as StoreBillingAllowance;
+}
+
+export type StorePaymentOutcome = 'paid' | 'already_paid' | 'amount_mismatch' | 'stock_unavailable' | 'not_found' | 'not_paid';
+
+/** Asks Paystack (through verify-store-payment) whether the order's charge succeeded */
+export async function verifyStorePayment(
+    client: SupabaseClient,
+    reference: string
+): Promise<{ outcome: StorePaymentOutcome; order_id?: number; message?: string }> {
+    const { data, error } = await client.functions.invoke('verify-store-payment', { body: { reference } });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data;
+}
+
+export async function getStorePaystackKey(client: SupabaseClient): Promise<string | null> {
+    const { data, error } = await client.rpc('get_store_paystack_key');
+    if (error) throw error;
+    return (data as string | null) || null;
+}
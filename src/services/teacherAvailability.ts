@@ -0,0 +1,144 @@
+import type { LeaveRequest, TeacherShift, TeacherTimetableConstraint, TeacherUnavailableSlot, TimetableEntry, TimetablePeriod } from '../types.js';
+
+export interface TeacherAvailability {
+    unavailableSlots: TeacherUnavailableSlot[];
+    maxConsecutivePeriods?: number | null;
+    maxPeriodsPerDay?: number | null;
+}
+
+export type TeacherAvailabilityMap = Record<string, TeacherAvailability>;
+
+// TeacherShift.day_of_week follows Date#getDay (0 = Sunday)
+const WEEKDAY_INDEX: Record<string, number> = {
+    Sunday: 0,
+    Monday: 1,
+    Tuesday: 2,
+    Wednesday: 3,
+    Thursday: 4,
+    Friday: 5,
+    Saturday: 6,
+};
+
+function ensureTeacher(map: TeacherAvailabilityMap, teacherId: string): TeacherAvailability {
+    if (!map[teacherId]) map[teacherId] = { unavailableSlots: [] };
+    return map[teacherId];
+}
+
+function toMinutes(time: string): number {
+    const [h, m] = time.split(':').map(Number);
+    return (h || 0) * 60 + (m || 0);
+}
+
+/**
+ * True when the leave covers every occurrence of the weekday between rangeStart
+ * and rangeEnd. The class timetable repeats weekly, so only leave that removes a
+ * teacher for the whole range blocks the slot; shorter absences are handled as cover.
+ */
+function leaveCoversEveryWeekday(leave: LeaveRequest, weekday: number, rangeStart: string, rangeEnd: string): boolean {
+    const start = new Date(`${rangeStart}T00:00:00Z`);
+    const end = new Date(`${rangeEnd}T00:00:00Z`);
+    const leaveStart = new Date(`${leave.start_date.slice(0, 10)}T00:00:00Z`);
+    const leaveEnd = new Date(`${leave.end_date.slice(0, 10)}T00:00:00Z`);
+    let sawWeekday = false;
+    for (const d = new Date(start); d <= end; d.setUTCDate(d.getUTCDate() + 1)) {
+        if (d.getUTCDay() !== weekday) continue;
+        sawWeekday = true;
+        if (d < leaveStart || d > leaveEnd) return false;
+    }
+    return sawWeekday;
+}
+
+interface BuildAvailabilityParams {
+    constraints?: TeacherTimetableConstraint[];
+    shifts?: TeacherShift[];
+    leaveRequests?: LeaveRequest[];
+    periods: TimetablePeriod[];
+    days: string[];
+    /** Date range the timetable applies to, usually the selected term */
+    range?: { start_date: string; end_date: string } | null;
+}
+
+/**
+ * Merges stored constraints with shift patterns and approved leave into a
+ * single availability map keyed by teacher id.
+ * - Teachers with shifts are unavailable on days without a shift and in periods
+ *   that fall outside their shift window.
+ * - Approved leave spanning every occurrence of a weekday in the range blocks that day.
+ */
+export function buildTeacherAvailability(params: BuildAvailabilityParams): TeacherAvailabilityMap {
+    const { constraints = [], shifts = [], leaveRequests = [], periods, days, range } = params;
+    const map: TeacherAvailabilityMap = {};
+
+    for (const constraint of constraints) {
+        const availability = ensureTeacher(map, constraint.teacher_id);
+        availability.unavailableSlots.push(...(constraint.unavailable_slots || []));
+        availability.maxConsecutivePeriods = constraint.max_consecutive_periods ?? null;
+        availability.maxPeriodsPerDay = constraint.max_periods_per_day ?? null;
+    }
+
+    const lessonPeriods = periods.filter((p) => p.type === 'lesson');
+    const shiftsByTeacher = new Map<string, TeacherShift[]>();
+    shifts.forEach((shift) => {
+        shiftsByTeacher.set(shift.teacher_id, [...(shiftsByTeacher.get(shift.teacher_id) || []), shift]);
+    });
+
+    shiftsByTeacher.forEach((teacherShifts, teacherId) => {
+        const availability = ensureTeacher(map, teacherId);
+        for (const day of days) {
+            const dayShifts = teacherShifts.filter((s) => s.day_of_week === WEEKDAY_INDEX[day]);
+            if (dayShifts.length === 0) {
+                availability.unavailableSlots.push({ day_of_week: day, period_id: null });
+                continue;
+            }
+            for (const period of lessonPeriods) {
+                const withinShift = dayShifts.some(
+                    (s) => toMinutes(period.start_time) >= toMinutes(s.start_time) && toMinutes(period.end_time) <= toMinutes(s.end_time)
+                );
+                if (!withinShift) availability.unavailableSlots.push({ day_of_week: day, period_id: period.id });
+            }
+        }
+    });
+
+    if (range?.start_date && range?.end_date) {
+        leaveRequests
+            .filter((leave) => leave.status === 'approved')
+            .forEach((leave) => {
+                for (const day of days) {
+                    if (leaveCoversEveryWeekday(leave, WEEKDAY_INDEX[day], range.start_date, range.end_date)) {
+                        ensureTeacher(map, leave.requester_id).unavailableSlots.push({ day_of_week: day, period_id: null });
+                    }
+                }
+            });
+    }
+
+    return map;
+}
+
+export function isSlotUnavailable(availability: TeacherAvailability | undefined, day: string, periodId: number): boolean {
+    if (!availability) return false;
+    return availability.unavailableSlots.some(
+        (slot) => slot.day_of_week === day && (slot.period_id == null || slot.period_id === periodId)
+    );
+}
+
+/** Longest run of back-to-back periods taught, in bell-schedule order */
+export function longestConsecutiveRun(taughtPeriodIds: Set<number>, periods: TimetablePeriod[]): number {
+    const ordered = [...periods].sort((a, b) => a.start_time.localeCompare(b.start_time));
+    let longest = 0;
+    let current = 0;
+    for (const period of ordered) {
+        current = taughtPeriodIds.has(period.id) ? current + 1 : 0;
+        longest = Math.max(longest, current);
+    }
+    return longest;
+}
+
+/** Lessons per teacher per day, used for the workload heat map */
+export function computeTeacherLoad(entries: TimetableEntry[]): Record<string, Record<string, number>> {
+    const load: Record<string, Record<string, number>> = {};
+    entries.forEach((entry) => {
+        if (!load[entry.teacher_id]) load[entry.teacher_id] = {};
+        load[entry.teacher_id][entry.day_of_week] = (load[entry.teacher_id][entry.day_of_week] || 0) + 1;
+    });
+    return load;
+}
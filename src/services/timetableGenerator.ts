@@ -0,0 +1,197 @@
+import type { AcademicClass, AcademicTeachingAssignment, Subject, TimetableEntry, TimetableLocation, TimetablePeriod } from '../types.js';
+import { applySchedulingRules, type TimetableCandidate } from './timetableScheduler.js';
+import type { TeacherAvailabilityMap } from './teacherAvailability.js';
+
+export const DEFAULT_TIMETABLE_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+export interface GeneratorParams {
+    assignments: AcademicTeachingAssignment[];
+    periods: TimetablePeriod[];
+    subjects: Subject[];
+    academicClasses: AcademicClass[];
+    locations?: TimetableLocation[];
+    existingEntries?: TimetableEntry[];
+    /** Target lessons per week keyed by subject id */
+    periodsPerWeek: Record<number, number>;
+    /** Enrolled student count keyed by academic class id, used for location capacity */
+    classSizes?: Record<number, number>;
+    teacherAvailability?: TeacherAvailabilityMap;
+    days?: string[];
+}
+
+export interface UnplacedAssignment {
+    assignment: AcademicTeachingAssignment;
+    requested: number;
+    placed: number;
+    reason: string;
+}
+
+export interface GeneratedTimetableDraft {
+    entries: TimetableCandidate[];
+    unplaced: UnplacedAssignment[];
+}
+
+interface Demand {
+    assignment: AcademicTeachingAssignment;
+    subject: Subject;
+    requested: number;
+}
+
+function findSubjectForAssignment(assignment: AcademicTeachingAssignment, subjects: Subject[]): Subject | undefined {
+    const name = (assignment.subject_name || assignment.subject?.name || '').trim().toLowerCase();
+    return subjects.find((s) => s.name.trim().toLowerCase() === name);
+}
+
+function pickLocation(
+    candidate: TimetableCandidate,
+    campusLocations: TimetableLocation[],
+    classSize: number,
+    scheduled: TimetableEntry[]
+): { locationId: number | null; error?: string } {
+    if (campusLocations.length === 0) return { locationId: null };
+
+    const booked = new Set(
+        scheduled
+            .filter((e) => e.day_of_week === candidate.day_of_week && e.period_id === candidate.period_id && e.location_id)
+            .map((e) => e.location_id)
+    );
+    const fitting = campusLocations
+        .filter((l) => !l.capacity || l.capacity >= classSize)
+        .sort((a, b) => (a.capacity ?? Number.MAX_SAFE_INTEGER) - (b.capacity ?? Number.MAX_SAFE_INTEGER));
+
+    if (fitting.length === 0) {
+        return { locationId: null, error: `No location can seat ${classSize} students.` };
+    }
+    const free = fitting.find((l) => !booked.has(l.id));
+    if (!free) {
+        return { locationId: null, error: 'Every suitable location is already booked at this time.' };
+    }
+    return { locationId: free.id };
+}
+
+/**
+ * Builds a whole-school timetable draft from teaching assignments.
+ * Each candidate slot is validated through applySchedulingRules so the draft
+ * honours teacher double-booking and availability, solo/co-run subjects and
+ * priority. The generator never evicts entries already on the timetable: a slot
+ * that would require a replacement is treated as unavailable.
+ */
+export function generateTimetableDraft(params: GeneratorParams): GeneratedTimetableDraft {
+    const {
+        assignments,
+        periods,
+        subjects,
+        academicClasses,
+        locations = [],
+        existingEntries = [],
+        periodsPerWeek,
+        classSizes = {},
+        teacherAvailability,
+        days = DEFAULT_TIMETABLE_DAYS,
+    } = params;
+
+    const draft: GeneratedTimetableDraft = { entries: [], unplaced: [] };
+    const lessonPeriods = [...periods]
+        .filter((p) => p.type === 'lesson')
+        .sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+    const demands: Demand[] = [];
+    for (const assignment of assignments) {
+        const subject = findSubjectForAssignment(assignment, subjects);
+        if (!subject) {
+            draft.unplaced.push({ assignment, requested: 0, placed: 0, reason: `Subject "${assignment.subject_name}" is not in the subject list.` });
+            continue;
+        }
+        const requested = periodsPerWeek[subject.id] ?? 0;
+        if (requested <= 0) continue;
+        demands.push({ assignment, subject, requested });
+    }
+
+    if (lessonPeriods.length === 0) {
+        draft.unplaced.push(...demands.map((d) => ({ assignment: d.assignment, requested: d.requested, placed: 0, reason: 'No lesson periods are configured in the bell schedule.' })));
+        return draft;
+    }
+
+    // Highest priority first, then the heaviest loads while the grid is still open
+    demands.sort((a, b) => {
+        const priorityDiff = (b.subject.priority ?? 1) - (a.subject.priority ?? 1);
+        if (priorityDiff !== 0) return priorityDiff;
+        if (b.requested !== a.requested) return b.requested - a.requested;
+        return a.assignment.id - b.assignment.id;
+    });
+
+    const scheduled: TimetableEntry[] = [...existingEntries];
+    let tempId = -1;
+
+    for (const demand of demands) {
+        const { assignment, subject, requested } = demand;
+        const academicClass = academicClasses.find((c) => c.id === assignment.academic_class_id);
+        const campusLocations = locations.filter((l) => !academicClass?.campus_id || l.campus_id === academicClass.campus_id);
+        const classSize = classSizes[assignment.academic_class_id] ?? 0;
+        const failures = new Map<string, number>();
+        let placed = 0;
+
+        for (let lesson = 0; lesson < requested; lesson++) {
+            // Spread lessons: days with fewest of this subject for this class come first
+            const dayLoad = (day: string) =>
+                scheduled.filter((e) => e.day_of_week === day && e.academic_class_id === assignment.academic_class_id && e.subject_id === subject.id).length;
+            const orderedDays = [...days].sort((a, b) => dayLoad(a) - dayLoad(b) || days.indexOf(a) - days.indexOf(b));
+
+            let slotFound = false;
+            for (const day of orderedDays) {
+                for (const period of lessonPeriods) {
+                    const candidate: TimetableCandidate = {
+                        day_of_week: day,
+                        period_id: period.id,
+                        academic_class_id: assignment.academic_class_id,
+                        subject_id: subject.id,
+                        teacher_id: assignment.teacher_user_id,
+                        term_id: assignment.term_id,
+                        school_id: assignment.school_id,
+                    };
+
+                    const decision = applySchedulingRules({
+                        existingEntries: scheduled,
+                        candidateEntry: candidate,
+                        subjects,
+                        dryRun: true,
+                        teacherAvailability,
+                        periods,
+                    });
+                    const error = decision.error || (decision.entriesToDelete.length > 0 ? 'Slot is held by a lower-priority subject already on the timetable.' : undefined);
+                    if (error) {
+                        failures.set(error, (failures.get(error) || 0) + 1);
+                        continue;
+                    }
+
+                    const location = pickLocation(candidate, campusLocations, classSize, scheduled);
+                    if (location.error) {
+                        failures.set(location.error, (failures.get(location.error) || 0) + 1);
+                        continue;
+                    }
+
+                    const entry: TimetableCandidate = { ...candidate, location_id: location.locationId };
+                    draft.entries.push(entry);
+                    scheduled.push({ ...entry, id: tempId--, term_id: assignment.term_id, school_id: assignment.school_id } as TimetableEntry);
+                    placed++;
+                    slotFound = true;
+                    break;
+                }
+                if (slotFound) break;
+            }
+            if (!slotFound) break;
+        }
+
+        if (placed < requested) {
+            const commonest = [...failures.entries()].sort((a, b) => b[1] - a[1])[0];
+            draft.unplaced.push({
+                assignment,
+                requested,
+                placed,
+                reason: commonest ? commonest[0] : 'No free slot was available.',
+            });
+        }
+    }
+
+    return draft;
+}
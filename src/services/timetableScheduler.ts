@@ -1,4 +1,5 @@
-import type { TimetableEntry, Subject } from '../types.js';
+import type { TimetableEntry, TimetablePeriod, Subject } from '../types.js';
+import { isSlotUnavailable, longestConsecutiveRun, type TeacherAvailabilityMap } from './teacherAvailability.js';
 
 export interface TimetableCandidate extends Partial<TimetableEntry> {
     day_of_week: string;
@@ -15,6 +16,8 @@ interface SchedulingParams {
     candidateEntry: TimetableCandidate;
     subjects: Subject[];
     dryRun?: boolean;
+    teacherAvailability?: TeacherAvailabilityMap;
+    periods?: TimetablePeriod[];
 }
 
 export interface SchedulingResult {
@@ -72,6 +75,36 @@ function hasLocationConflict(existingEntries: TimetableEntry[], candidate: Timet
     return conflict || null;
 }
 
+function getTeacherConstraintError(
+    existingEntries: TimetableEntry[],
+    candidate: TimetableCandidate,
+    teacherAvailability: TeacherAvailabilityMap,
+    periods: TimetablePeriod[]
+): string | null {
+    const availability = teacherAvailability[candidate.teacher_id];
+    if (!availability) return null;
+
+    if (isSlotUnavailable(availability, candidate.day_of_week, candidate.period_id)) {
+        return 'Teacher is unavailable at this time.';
+    }
+
+    const sameDay = existingEntries.filter(
+        (e) => e.teacher_id === candidate.teacher_id && e.day_of_week === candidate.day_of_week && e.id !== candidate.id
+    );
+    if (availability.maxPeriodsPerDay && sameDay.length + 1 > availability.maxPeriodsPerDay) {
+        return `Teacher would exceed ${availability.maxPeriodsPerDay} periods on ${candidate.day_of_week}.`;
+    }
+
+    if (availability.maxConsecutivePeriods && periods.length > 0) {
+        const taught = new Set([...sameDay.map((e) => e.period_id), candidate.period_id]);
+        if (longestConsecutiveRun(taught, periods) > availability.maxConsecutivePeriods) {
+            return `Teacher would exceed ${availability.maxConsecutivePeriods} consecutive periods.`;
+        }
+    }
+
+    return null;
+}
+
 /**
  * Applies scheduling rules to determine whether a timetable entry can be inserted/updated.
  * Rules covered:
@@ -79,9 +112,10 @@ function hasLocationConflict(existingEntries: TimetableEntry[], candidate: Timet
  * - Solo vs co-running subjects
  * - Location uniqueness per slot
  * - Teacher double-booking prevention
+ * - Teacher availability, daily load and consecutive-period limits (when provided)
  */
 export function applySchedulingRules(params: SchedulingParams): SchedulingResult {
-    const { existingEntries, candidateEntry, subjects } = params;
+    const { existingEntries, candidateEntry, subjects, teacherAvailability, periods = [] } = params;
     const baseResult: SchedulingResult = { entriesToUpsert: [], entriesToDelete: [] };
 
     // Minimal validation
@@ -93,6 +127,13 @@ export function applySchedulingRules(params: SchedulingParams): SchedulingResult
         return { ...baseResult, error: 'Teacher is already assigned to another class in this slot.' };
     }
 
+    if (teacherAvailability) {
+        const constraintError = getTeacherConstraintError(existingEntries, candidateEntry, teacherAvailability, periods);
+        if (constraintError) {
+            return { ...baseResult, error: constraintError };
+        }
+    }
+
     const locationConflict = hasLocationConflict(existingEntries, candidateEntry);
     if (locationConflict) {
         const locationName = locationConflict.location?.name || 'Location';
@@ -0,0 +1,175 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+    DedicatedVirtualAccount,
+    Student,
+    StudentInvoice,
+    StudentMatchSuggestion,
+    UnmatchedPayment,
+} from '../types.js';
+import type { RecordStudentPaymentResult } from './feeLedger.js';
+
+/**
+ * Credits the Paystack webhook could not tie to a student land in unmatched_payments.
+ * Bursars pick the student from ranked suggestions; assigning goes through the
+ * assign_unmatched_payment RPC, which records the ledger payment and writes audit_log.
+ */
+
+export interface MatchCandidate {
+    student: Pick<Student, 'id' | 'name' | 'admission_number' | 'email'>;
+    accounts: Pick<DedicatedVirtualAccount, 'account_number' | 'account_name'>[];
+    openInvoices: Pick<StudentInvoice, 'id' | 'invoice_number' | 'total_amount' | 'amount_paid'>[];
+}
+
+const MIN_SUGGESTION_SCORE = 20;
+
+const normalize = (value: string | null | undefined) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const nameTokens = (value: string | null | undefined) =>
+    (value || '').toLowerCase().split(/[^a-z]+/).filter(token => token.length > 1);
+
+const bigrams = (token: string) => {
+    const pairs: string[] = [];
+    for (let i = 0; i < token.length - 1; i++) pairs.push(token.slice(i, i + 2));
+    return pairs;
+};
+
+/** Dice coefficient on letter pairs, tolerant of typos like "Chukwuma"/"Chukuma" */
+function tokenSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    const left = bigrams(a);
+    const right = bigrams(b);
+    if (left.length === 0 || right.length === 0) return 0;
+    const remaining = [...right];
+    let shared = 0;
+    left.forEach(pair => {
+        const index = remaining.indexOf(pair);
+        if (index >= 0) {
+            shared++;
+            remaining.splice(index, 1);
+        }
+    });
+    return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Share of the shorter name's words that appear (allowing typos) in the other. Payers are
+ * usually parents, so a shared surname alone scores 0.5 against a two-word student name.
+ */
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+    const left = nameTokens(a);
+    const right = nameTokens(b);
+    if (left.length === 0 || right.length === 0) return 0;
+    const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+    const matched = shorter.filter(token => longer.some(other => tokenSimilarity(token, other) >= 0.75)).length;
+    return matched / shorter.length;
+}
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.01;
+
+/** Students most likely to have made the payment, best first, each with the reasons it scored */
+export function suggestStudentMatches(
+    payment: Pick<UnmatchedPayment, 'reference' | 'amount' | 'payer_name' | 'customer_email' | 'account_number' | 'narration'>,
+    candidates: MatchCandidate[],
+    limit = 5
+): StudentMatchSuggestion[] {
+    const paymentText = normalize(`${payment.reference} ${payment.narration || ''}`);
+    const amount = Number(payment.amount);
+
+    return candidates
+        .map(({ student, accounts, openInvoices }) => {
+            let score = 0;
+            const reasons: string[] = [];
+            let invoiceId: number | undefined;
+
+            if (payment.account_number && accounts.some(a => a.account_number === payment.account_number)) {
+                score += 100;
+                reasons.push('Paid into this student\'s virtual account');
+            }
+
+            const admission = normalize(student.admission_number);
+            if (admission.length >= 3 && paymentText.includes(admission)) {
+                score += 60;
+                reasons.push(`Reference mentions admission number ${student.admission_number}`);
+            }
+
+            const referencedInvoice = openInvoices.find(inv =>
+                paymentText.includes(normalize(inv.invoice_number)) || paymentText.includes(`invoice${inv.id}`)
+            );
+            if (referencedInvoice) {
+                score += 60;
+                invoiceId = referencedInvoice.id;
+                reasons.push(`Reference mentions invoice ${referencedInvoice.invoice_number}`);
+            }
+
+            if (payment.customer_email && student.email && payment.customer_email.toLowerCase() === student.email.toLowerCase()) {
+                score += 60;
+                reasons.push('Payer email matches the student record');
+            }
+
+            const similarity = Math.max(
+                nameSimilarity(payment.payer_name, student.name),
+                ...accounts.map(a => nameSimilarity(payment.payer_name, a.account_name))
+            );
+            if (similarity >= 0.5) {
+                score += Math.round(40 * similarity);
+                reasons.push(similarity === 1 ? 'Payer name matches' : 'Payer name is similar');
+            }
+
+            const balances = openInvoices.map(inv => ({ inv, balance: inv.total_amount - inv.amount_paid }));
+            const clearedInvoice = balances.find(b => sameAmount(b.balance, amount));
+            const totalBalance = balances.reduce((sum, b) => sum + b.balance, 0);
+            if (clearedInvoice) {
+                score += 20;
+                invoiceId = invoiceId ?? clearedInvoice.inv.id;
+                reasons.push(`Amount clears invoice ${clearedInvoice.inv.invoice_number}`);
+            } else if (totalBalance > 0 && sameAmount(totalBalance, amount)) {
+                score += 20;
+                reasons.push('Amount matches the outstanding balance');
+            }
+
+            return {
+                student_id: student.id,
+                student_name: student.name,
+                admission_number: student.admission_number,
+                score,
+                reasons,
+                invoice_id: invoiceId,
+            };
+        })
+        .filter(s => s.score >= MIN_SUGGESTION_SCORE)
+        .sort((a, b) => b.score - a.score || a.student_name.localeCompare(b.student_name))
+        .slice(0, limit);
+}
+
+export async function assignUnmatchedPayment(
+    client: SupabaseClient,
+    unmatchedId: number,
+    studentId: number,
+    invoiceId?: number | null,
+    notes?: string
+): Promise<RecordStudentPaymentResult> {
+    const { data, error } = await client.rpc('assign_unmatched_payment', {
+        p_unmatched_id: unmatchedId,
+        p_student_id: studentId,
+        p_invoice_id: invoiceId ?? null,
+        p_notes: notes || null,
+    });
+    if (error) throw error;
+    return data as RecordStudentPaymentResult;
+}
+
+export async function dismissUnmatchedPayment(client: SupabaseClient, unmatchedId: number, reason: string): Promise<void> {
+    const { error } = await client.rpc('dismiss_unmatched_payment', { p_unmatched_id: unmatchedId, p_reason: reason });
+    if (error) throw error;
+}
+
+export type WebhookReplayOutcome = 'recorded' | 'duplicate' | 'unmatched' | 'ignored';
+
+export async function replayWebhookEvent(
+    client: SupabaseClient,
+    eventId: number
+): Promise<Partial<RecordStudentPaymentResult> & { outcome: WebhookReplayOutcome; student_id?: number | null; message?: string }> {
+    const { data, error } = await client.rpc('replay_webhook_event', { p_event_id: eventId });
+    if (error) throw error;
+    return data;
+}
@@ -0,0 +1,216 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+    Student,
+    WhatsAppButtonAnswer,
+    WhatsAppCannedReply,
+    WhatsAppConversation,
+    WhatsAppThreadMessage,
+} from '../types.js';
+
+/**
+ * Two-way WhatsApp inbox. The greenapi-webhook edge function stores parent messages in
+ * per-phone family threads; staff replies go out through greenapi-send and are recorded with
+ * record_outbound_whatsapp. See 20261105_whatsapp_conversations.sql.
+ */
+
+/** Last ten digits of a phone number. Mirrors phone_match_key() */
+export const phoneMatchKey = (phone: string | null | undefined) =>
+    (phone || '').replace(/\D/g, '').slice(-10);
+
+/** Students whose father, mother or legacy parent phone matches the given number */
+export function studentsForPhone<T extends Pick<Student, 'father_phone' | 'mother_phone' | 'parent_phone_number_1' | 'parent_phone_number_2'>>(
+    students: T[],
+    phone: string
+): T[] {
+    const key = phoneMatchKey(phone);
+    if (!key) return [];
+    return students.filter(student => [
+        student.father_phone,
+        student.mother_phone,
+        student.parent_phone_number_1,
+        student.parent_phone_number_2,
+    ].some(candidate => phoneMatchKey(candidate) === key));
+}
+
+/** "Parent of Ada Obi & Tobi Obi", falling back to the WhatsApp name, then the number */
+export function conversationTitle(
+    conversation: Pick<WhatsAppConversation, 'student_ids' | 'contact_name' | 'phone'>,
+    studentNames: Map<number, string>
+): string {
+    const names = conversation.student_ids.map(id => studentNames.get(id)).filter(Boolean);
+    if (names.length > 0) return `Parent of ${names.join(' & ')}`;
+    return conversation.contact_name || `+${conversation.phone}`;
+}
+
+export type InboxView = 'all' | 'mine' | 'unassigned' | 'unread' | 'closed';
+
+/** Open threads first by latest message; closed threads only show in the closed view */
+export function filterConversations(
+    conversations: WhatsAppConversation[],
+    view: InboxView,
+    userId: string
+): WhatsAppConversation[] {
+    return conversations
+        .filter(c => (view === 'closed' ? c.status === 'closed' : c.status === 'open'))
+        .filter(c => {
+            if (view === 'mine') return c.assigned_to === userId;
+            if (view === 'unassigned') return !c.assigned_to;
+            if (view === 'unread') return c.unread_count > 0;
+            return true;
+        })
+        .sort((a, b) => (b.last_message_at || '').localeCompare(a.last_message_at || ''));
+}
+
+/** Fills {{placeholders}} in a canned reply; unknown placeholders are left for the sender to edit */
+export const fillCannedReply = (body: string, values: Record<string, string>) =>
+    body.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] ?? match);
+
+export interface ButtonAnswerTally {
+    button_text: string;
+    count: number;
+    student_ids: number[];
+}
+
+/** How families answered a buttons prompt, most common answer first */
+export function tallyButtonAnswers(answers: Pick<WhatsAppButtonAnswer, 'button_text' | 'student_ids'>[]): ButtonAnswerTally[] {
+    const tallies = new Map<string, ButtonAnswerTally>();
+    answers.forEach(answer => {
+        const tally = tallies.get(answer.button_text) || { button_text: answer.button_text, count: 0, student_ids: [] };
+        tally.count += 1;
+        answer.student_ids.forEach(id => { if (!tally.student_ids.includes(id)) tally.student_ids.push(id); });
+        tallies.set(answer.button_text, tally);
+    });
+    return Array.from(tallies.values()).sort((a, b) => b.count - a.count || a.button_text.localeCompare(b.button_text));
+}
+
+export async function getConversations(client: SupabaseClient, schoolId: number): Promise<WhatsAppConversation[]> {
+    const { data, error } = await client
+        .from('whatsapp_conversations')
+        .select('*')
+        .eq('school_id', schoolId)
+        .order('last_message_at', { ascending: false, nullsFirst: false })
+        .limit(500);
+    if (error) throw error;
+    return (data || []) as WhatsAppConversation[];
+}
+
+export async function getConversationMessages(client: SupabaseClient, conversationId: number): Promise<WhatsAppThreadMessage[]> {
+    const { data, error } = await client
+        .from('whatsapp_messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at');
+    if (error) throw error;
+    return (data || []) as WhatsAppThreadMessage[];
+}
+
+export async function getButtonAnswers(client: SupabaseClient, conversationId: number): Promise<WhatsAppButtonAnswer[]> {
+    const { data, error } = await client
+        .from('whatsapp_button_answers')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('answered_at', { ascending: false });
+    if (error) throw error;
+    return (data || []) as WhatsAppButtonAnswer[];
+}
+
+export async function markConversationRead(client: SupabaseClient, conversationId: number): Promise<void> {
+    const { error } = await client.rpc('mark_whatsapp_conversation_read', { p_conversation_id: conversationId });
+    if (error) throw error;
+}
+
+/** assignee null unassigns; leave it undefined to only change the status */
+export async function updateConversation(
+    client: SupabaseClient,
+    conversationId: number,
+    changes: { assignee?: string | null; status?: WhatsAppConversation['status'] }
+): Promise<WhatsAppConversation> {
+    const { data, error } = await client.rpc('update_whatsapp_conversation', {
+        p_conversation_id: conversationId,
+        p_assignee: changes.assignee ?? null,
+        p_unassign: changes.assignee === null,
+        p_status: changes.status ?? null,
+    });
+    if (error) throw error;
+    return data as WhatsAppConversation;
+}
+
+/** Sends a reply through Green-API and records it in the thread */
+export async function sendConversationReply(
+    client: SupabaseClient,
+    conversation: Pick<WhatsAppConversation, 'school_id' | 'campus_id' | 'chat_id' | 'phone'>,
+    body: string,
+    quotedMessageId?: string | null
+): Promise<number> {
+    const { data, error } = await client.functions.invoke('greenapi-send', {
+        body: {
+            school_id: conversation.school_id,
+            campus_id: conversation.campus_id,
+            recipient_phone: conversation.phone,
+            message: body,
+            quoted_message_id: quotedMessageId || undefined,
+            send_type: 'text',
+        },
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.message || data?.error || 'WhatsApp reply failed');
+
+    return recordOutboundWhatsApp(client, {
+        chatId: conversation.chat_id,
+        body,
+        providerMessageId: data.response?.idMessage ?? null,
+        quotedMessageId,
+        campusId: conversation.campus_id,
+    });
+}
+
+export async function recordOutboundWhatsApp(
+    client: SupabaseClient,
+    message: {
+        chatId: string;
+        body: string;
+        providerMessageId: string | null;
+        buttons?: { buttonId: string; buttonText: string }[];
+        quotedMessageId?: string | null;
+        campusId?: number | null;
+    }
+): Promise<number> {
+    const { data, error } = await client.rpc('record_outbound_whatsapp', {
+        p_chat_id: message.chatId,
+        p_body: message.body,
+        p_provider_message_id: message.providerMessageId,
+        p_buttons: message.buttons ?? null,
+        p_quoted_message_id: message.quotedMessageId ?? null,
+        p_campus_id: message.campusId ?? null,
+    });
+    if (error) throw error;
+    return data as number;
+}
+
+export async function getCannedReplies(client: SupabaseClient, schoolId: number): Promise<WhatsAppCannedReply[]> {
+    const { data, error } = await client
+        .from('whatsapp_canned_replies')
+        .select('*')
+        .eq('school_id', schoolId)
+        .order('title');
+    if (error) throw error;
+    return (data || []) as WhatsAppCannedReply[];
+}
+
+export async function saveCannedReply(
+    client: SupabaseClient,
+    reply: Pick<WhatsAppCannedReply, 'school_id' | 'title' | 'body'> & { created_by?: string }
+): Promise<WhatsAppCannedReply> {
+    const { data, error } = await client
+        .from('whatsapp_canned_replies')
+        .insert(reply)
+        .select()
+        .single();
+    if (error) throw error;
+    return data as WhatsAppCannedReply;
+}
+
+export async function deleteCannedReply(client: SupabaseClient, id: number): Promise<void> {
+    const { error } = await client.from('whatsapp_canned_replies').delete().eq('id', id);
+    if (error) throw error;
+}
@@ -26,6 +26,10 @@ export interface UserProfile {
     bank_name?: string;
     account_number?: string;
     account_name?: string;
+    tax_id?: string | null;
+    grade_level?: number | null;
+    employment_start_date?: string | null; // YYYY-MM-DD
+    employment_end_date?: string | null;
     base_pay?: number;
     commission?: number;
     campus_id?: number | null;
@@ -73,6 +77,7 @@ export interface Student {
     class_id?: number | null;
     arm_id?: number | null;
     campus_id?: number | null; // Campus assignment
+    store_spend_limit?: number | null; // Per-term cap on store orders billed to fees
     date_of_birth?: string;
     
     // ============================================
@@ -717,6 +722,89 @@ export interface QuizQuestion {
     question_type: QuizQuestionType;
     position: number;
     options?: MultipleChoiceOption[]; 
+    bank_item_id?: number | null; // set when the question was drawn from the question bank
+    // CBT answer key - edited with the question but stored in quiz_answer_keys, which students cannot read
+    marks?: number;
+    correct_option_index?: number | null;
+    correct_answer?: string | null;
+    explanation?: string | null;
+}
+
+export interface QuizAnswerKey {
+    id?: number;
+    quiz_id: number;
+    position: number; // matches QuizQuestion.position so keys survive question re-inserts
+    marks: number;
+    correct_option_index?: number | null; // multiple choice
+    correct_answer?: string | null; // 'True'/'False', expected rating, or a model answer for markers
+    explanation?: string | null;
+}
+
+export interface CbtSettings {
+    enabled: boolean;
+    time_limit_minutes?: number | null;
+    shuffle_questions?: boolean;
+    shuffle_options?: boolean;
+    term_id?: number | null;
+    subject_name?: string | null;
+    score_component?: string | null; // component_scores key to push into, e.g. "CA1"
+    component_max_score?: number | null;
+}
+
+export type QuizAttemptStatus = 'in_progress' | 'pending_marking' | 'marked';
+
+export interface QuizAttempt {
+    id: number;
+    quiz_id: number;
+    user_id: string;
+    student_id?: number | null;
+    started_at: string;
+    submitted_at?: string | null;
+    auto_score: number;
+    manual_score: number;
+    max_score: number;
+    status: QuizAttemptStatus;
+    pushed_at?: string | null;
+    saved_answers?: { question_id: number; answer_text?: string; selected_option?: number; ranking_value?: number }[];
+}
+
+export interface QuizAttemptResponse {
+    id: number;
+    attempt_id: number;
+    question_id: number;
+    answer_text?: string | null;
+    selected_option_index?: number | null;
+    ranking_value?: number | null;
+    is_correct?: boolean | null;
+    awarded_marks?: number | null; // null while waiting in the manual-marking queue
+}
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuestionBankItem {
+    id: number;
+    school_id: number;
+    subject_name: string;
+    level?: string | null;
+    topic?: string | null;
+    difficulty: QuestionDifficulty;
+    question_type: 'multiple_choice' | 'theory';
+    question_text: string;
+    options?: string[] | null;
+    answer?: string | null; // option text or letter for MCQs, a model answer for theory
+    marks: number;
+    is_active: boolean;
+    source_lesson_plan_id?: number | null;
+    source_key?: string | null;
+    created_by?: string | null;
+    created_at?: string;
+}
+
+export interface QuestionBankUsage {
+    bank_item_id: number;
+    quiz_count: number;
+    response_count: number;
+    incorrect_count: number;
 }
 
 export interface AudienceRule {
@@ -736,6 +824,7 @@ export interface QuizWithQuestions {
     created_at: string;
     questions: QuizQuestion[];
     audience: AudienceRule[];
+    cbt_settings?: CbtSettings | null;
 }
 
 export type Survey = QuizWithQuestions;
@@ -875,6 +964,8 @@ export interface SchoolConfig {
     active_grading_scheme_id?: number | null;
     current_term_id?: number | null;
     term_weights?: { term1: number, term2: number, term3: number };
+    promotion_rules?: PromotionRules | null;
+    late_fee_rule?: LateFeeRule | null;
     student_id_prefix?: string;
     staff_id_prefix?: string;
     id_year_mode?: 'current_year' | 'admission_year' | null;
@@ -882,6 +973,7 @@ export interface SchoolConfig {
     late_checkin_deduction_percent?: number | null;
     fine_early_checkout?: number | null;
     fine_no_checkout?: number | null;
+    loan_net_pay_floor?: number | null;
 }
 
 export interface Term {
@@ -1130,6 +1222,76 @@ export interface StudentTermReport {
     term?: Term;
 }
 
+export interface PromotionRules {
+    min_average: number;
+    subject_pass_mark: number;
+    compulsory_subjects: string[]; // e.g. English Language, Mathematics
+    max_carry_over: number; // failed subjects a student may carry into the next session
+    probation_margin: number; // points below min_average that still allow promotion on probation
+    next_levels?: Record<string, string | null>; // overrides for levels that don't simply increment, e.g. "JSS 3" -> "SS 1"
+}
+
+export type PromotionDecision = 'promote' | 'probation' | 'repeat';
+
+export interface AnnualResult {
+    id: number;
+    school_id: number;
+    session_label: string;
+    student_id: number;
+    academic_class_id: number | null;
+    weighted_average: number;
+    subject_count: number;
+    subjects_failed: number;
+    carry_over_subjects: string[];
+    class_position: number | null;
+    class_size: number | null;
+    level_position: number | null;
+    level_size: number | null;
+    recommendation: PromotionDecision;
+    recommendation_reason?: string | null;
+    final_decision?: PromotionDecision | null; // principal override of the recommendation
+    decision_note?: string | null;
+    status: 'draft' | 'approved';
+    approved_by?: string | null;
+    approved_at?: string | null;
+    rolled_over_at?: string | null;
+    computed_at: string;
+    subjects?: AnnualResultSubject[];
+}
+
+export interface AnnualResultSubject {
+    id: number;
+    annual_result_id: number;
+    subject_name: string;
+    term1_score: number | null;
+    term2_score: number | null;
+    term3_score: number | null;
+    annual_score: number;
+    grade_label: string | null;
+    remark: string | null;
+    subject_position: number | null;
+    passed: boolean;
+}
+
+export interface SessionRollover {
+    id: number;
+    school_id: number;
+    source_term_id: number | null;
+    target_term_id: number | null;
+    plan: Record<string, unknown>;
+    summary: {
+        classes?: number;
+        assignments?: number;
+        students_moved?: number;
+        graduated?: number;
+        subject_enrollments?: number;
+    };
+    status: 'applied' | 'undone';
+    applied_by: string | null;
+    applied_at: string;
+    undone_at: string | null;
+}
+
 export interface StudentAcademicGoal {
     id: number;
     student_id: number;
@@ -1265,14 +1427,98 @@ export interface PayslipLineItem {
     type: PayslipLineItemType;
     label: string;
     amount: number;
+    component_id?: number | null;
+    metadata?: PayslipLineItemMetadata | null;
     ordering?: number;
     created_at?: string;
     updated_at?: string;
 }
 
+export type AttendanceFineKind = 'late' | 'early_checkout' | 'no_checkout';
+
+/** A payroll deduction for one attendance breach, with the evidence shown to staff */
+export interface AttendanceFine {
+    kind: AttendanceFineKind;
+    date: string; // YYYY-MM-DD
+    amount: number;
+    checkin_id: number;
+    detail: string;
+}
+
+export interface AttendanceFineLineMetadata {
+    source: 'attendance';
+    kind: AttendanceFineKind;
+    date: string;
+    checkin_id: number;
+    detail: string;
+}
+
+/** How a pro-rated line was worked out, e.g. "200,000.00 × 15 of 22 working days (joined 8 Oct)" */
+export interface ProrationLineMetadata {
+    source: 'proration';
+    full_amount: number;
+    paid_days: number;
+    working_days: number;
+    detail: string;
+}
+
+/** Which loan installment a repayment line (or a paused repayment) belongs to */
+export interface LoanLineMetadata {
+    source: 'loan';
+    loan_id: number;
+    installment_id: number;
+    installment_number: number;
+    paused: boolean;
+    detail: string;
+}
+
+export type PayslipLineItemMetadata = AttendanceFineLineMetadata | ProrationLineMetadata | LoanLineMetadata;
+
+export type StaffLoanType = 'advance' | 'loan';
+export type StaffLoanStatus = 'pending' | 'active' | 'rejected' | 'cancelled' | 'repaid';
+export type StaffLoanInstallmentStatus = 'pending' | 'deducted' | 'settled';
+
+export interface StaffLoanInstallment {
+    id: number;
+    loan_id: number;
+    installment_number: number;
+    period_key: string; // YYYY-MM the installment falls due
+    principal: number;
+    interest: number;
+    amount: number;
+    balance_after: number;
+    status: StaffLoanInstallmentStatus;
+    payroll_run_id?: string | null;
+    payslip_id?: string | null;
+    created_at?: string;
+}
+
+export interface StaffLoan {
+    id: number;
+    school_id: number;
+    user_id: string;
+    loan_type: StaffLoanType;
+    principal: number;
+    interest_rate: number; // annual %, on the reducing balance
+    installments: number;
+    first_period?: string | null; // YYYY-MM of the first deduction
+    status: StaffLoanStatus;
+    reason?: string | null;
+    admin_notes?: string | null;
+    approved_by?: string | null;
+    approved_at?: string | null;
+    settled_at?: string | null;
+    settlement_amount?: number | null;
+    created_at: string;
+    updated_at?: string;
+    staff?: Pick<UserProfile, 'id' | 'name' | 'staff_code'>;
+    schedule?: StaffLoanInstallment[];
+}
+
 export interface PayslipQuery {
     id: string;
     payslip_id: string;
+    line_item_id?: string | null;
     raised_by_staff_id: string;
     status: PayslipQueryStatus;
     message: string;
@@ -1300,6 +1546,58 @@ export interface Payslip {
     queries?: PayslipQuery[];
 }
 
+/** One band of the annual PAYE schedule; band_size null takes the remainder */
+export interface PayeTaxBand {
+    band_size: number | null;
+    rate: number;
+}
+
+export interface PayeSettings {
+    id?: number;
+    school_id: number;
+    is_enabled: boolean;
+    tax_bands: PayeTaxBand[];
+    // Consolidated relief allowance: the higher of cra_fixed_amount and cra_minimum_percent
+    // of gross, plus cra_gross_percent of gross
+    cra_enabled: boolean;
+    cra_fixed_amount: number;
+    cra_minimum_percent: number;
+    cra_gross_percent: number;
+    minimum_tax_percent: number;
+    exemption_threshold: number;
+    nhf_enabled: boolean;
+    nhf_rate: number;
+    nhis_enabled: boolean;
+    nhis_rate: number;
+    revenue_service: string;
+    employer_tin?: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface StaffTaxRecord {
+    id: number;
+    school_id: number;
+    user_id: string;
+    payroll_run_id?: string | null;
+    payslip_id?: string | null;
+    tax_year: number;
+    tax_month: number;
+    gross_pay: number;
+    pension: number;
+    nhf: number;
+    nhis: number;
+    consolidated_relief: number;
+    taxable_pay: number;
+    tax: number;
+    ytd_gross_pay: number;
+    ytd_taxable_pay: number;
+    ytd_tax: number;
+    created_at: string;
+    updated_at: string;
+    staff?: Pick<UserProfile, 'id' | 'name' | 'staff_code' | 'tax_id'>;
+}
+
 export interface PayrollItem {
     id: number;
     payroll_run_id: number;
@@ -1337,6 +1635,7 @@ export interface PayrollComponent {
     ordering: number;
     show_on_payslip: boolean;
     is_default: boolean;
+    is_active?: boolean;
     metadata?: any;
 }
 
@@ -1401,6 +1700,9 @@ export interface Campus {
     paystack_secret_key?: string;
     paystack_public_key?: string;
     dva_provider?: string; // e.g., 'wema-bank', 'titan-paystack'
+    // Admission numbers
+    code?: string | null; // e.g. 'UPSS', used for the {CAMPUS} token
+    admission_number_template?: string | null; // e.g. '{CAMPUS}/{YY}/{SEQ:4}'
 }
 
 export type TeacherCheckinStatus = 'Present' | 'Late' | 'Remote' | 'Absent';
@@ -1448,6 +1750,7 @@ export interface LeaveType {
     name: string;
     days_allowed?: number | null; // per year
     requires_approval: boolean;
+    is_unpaid?: boolean;
 }
 
 export enum LeaveRequestStatus {
@@ -1616,7 +1919,33 @@ export interface StudentInvoice {
     due_date?: string;
     created_at: string;
     student?: { name: string, admission_number?: string };
-    line_items?: { description: string, amount: number }[];
+    line_items?: { description: string, amount: number, store_order_id?: number | null }[];
+    installments?: InvoiceInstallment[];
+}
+
+export type InstallmentStatus = 'due' | 'part_paid' | 'paid' | 'overdue';
+
+export interface InvoiceInstallment {
+    id?: number;
+    school_id?: number;
+    invoice_id?: number;
+    sequence: number;
+    name: string;
+    due_date: string;
+    amount: number;
+    amount_paid: number;
+    status: InstallmentStatus;
+    surcharge_adjustment_id?: number | null;
+    surcharged_at?: string | null;
+    invoice?: StudentInvoice;
+}
+
+export interface LateFeeRule {
+    enabled: boolean;
+    type: 'flat' | 'percentage';
+    value: number; // naira for flat, percent of the installment's outstanding amount for percentage
+    grace_days: number;
+    cap?: number | null; // maximum fee per installment
 }
 
 export enum LedgerInvoiceStatus {
@@ -1686,38 +2015,52 @@ export interface LedgerStudentInvoice {
     lines?: StudentInvoiceLine[];
 }
 
+export type LedgerPaymentSource = 'dva' | 'paystack' | 'manual' | 'csv_import' | 'bank_statement' | 'legacy';
+
 export interface LedgerPayment {
     id: number;
+    school_id?: number | null;
     student_id: number;
-    session_id: number;
-    term_id: number;
+    session_id: number | null;
+    term_id: number | null;
     payment_ref: string;
     method: LedgerPaymentMethod;
     amount: number;
     paid_at: string;
     status: LedgerPaymentStatus;
+    source?: LedgerPaymentSource;
+    legacy_payment_id?: number | null;
+    /** Invoice the payer named; allocation clears it first */
+    target_invoice_id?: number | null;
     recorded_by?: string | null;
     receipt_no?: string | null;
+    meta?: Record<string, any>;
     allocations?: StudentPaymentAllocation[];
+    student?: { name: string; admission_number?: string };
 }
 
 export interface StudentPaymentAllocation {
     id?: number;
     payment_id: number;
     invoice_id: number;
+    /** Fee line the amount cleared; null for invoice totals not broken into lines */
+    invoice_line_item_id?: number | null;
     allocated_amount: number;
+    invoice?: { invoice_number: string };
+    line?: { description?: string | null } | null;
 }
 
 export interface StudentAdjustment {
     id?: number;
     student_id: number;
-    session_id: number;
-    term_id: number;
+    session_id: number | null;
+    term_id: number | null;
     type: LedgerAdjustmentType;
     reason: string;
     amount: number;
     applied_to_invoice_id?: number | null;
     external_ref?: string | null;
+    posted_to_invoice?: boolean; // already added to the invoice total, e.g. late fees
     created_by?: string | null;
     created_at?: string;
 }
@@ -1734,8 +2077,76 @@ export interface StudentBalanceSummary {
     last_payment_date?: string | null;
 }
 
+/** One row of get_fee_reconciliation: a student's invoice screen balance against the ledger */
+export interface FeeReconciliationRow {
+    student_id: number;
+    student_name: string;
+    admission_number?: string | null;
+    invoiced: number;
+    /** Sum of total_amount - amount_paid, as invoice screens show it */
+    invoice_balance: number;
+    /** Invoice screen balance before the ledger migration */
+    legacy_balance: number;
+    /** Charges and adjustments less every successful ledger payment */
+    ledger_balance: number;
+    adjustments: number;
+    unallocated_credit: number;
+    legacy_payments: number;
+    unmigrated_payments: number;
+    flagged: boolean;
+}
+
+export type UnmatchedPaymentStatus = 'open' | 'assigned' | 'dismissed';
+
+/** A webhook credit that could not be tied to a student, awaiting a bursar */
+export interface UnmatchedPayment {
+    id: number;
+    reference: string;
+    amount: number;
+    payment_date?: string | null;
+    payment_method?: string | null;
+    customer_email?: string | null;
+    payer_name?: string | null;
+    account_number?: string | null;
+    narration?: string | null;
+    raw_data?: Record<string, any> | null;
+    status: UnmatchedPaymentStatus;
+    matched_student_id?: number | null;
+    matched_invoice_id?: number | null;
+    ledger_payment_id?: number | null;
+    matched_by_user_id?: string | null;
+    matched_at?: string | null;
+    webhook_event_id?: number | null;
+    notes?: string | null;
+    created_at: string;
+    matched_student?: { name: string; admission_number?: string } | null;
+}
+
+export interface PaystackWebhookEvent {
+    id: number;
+    event_type: string;
+    payload: Record<string, any>;
+    processed: boolean;
+    processed_at?: string | null;
+    error_message?: string | null;
+    replay_count?: number;
+    last_replayed_at?: string | null;
+    created_at: string;
+}
+
+export interface StudentMatchSuggestion {
+    student_id: number;
+    student_name: string;
+    admission_number?: string;
+    score: number;
+    reasons: string[];
+    /** Open invoice the amount would clear, if any */
+    invoice_id?: number;
+}
+
 export interface ReceiptAllocationLine {
     invoice_no: string;
+    description?: string;
     amount: number;
 }
 
@@ -1809,6 +2220,80 @@ export interface TimetableLocation {
     campus?: { name: string };
 }
 
+export interface TeacherUnavailableSlot {
+    day_of_week: string;
+    period_id?: number | null; // null/undefined blocks the whole day
+}
+
+export interface TeacherTimetableConstraint {
+    id: number;
+    school_id: number;
+    teacher_id: string;
+    unavailable_slots: TeacherUnavailableSlot[]; // stored as JSONB
+    max_consecutive_periods?: number | null;
+    max_periods_per_day?: number | null;
+    updated_at?: string;
+}
+
+export type TimetableCoverSource = 'leave' | 'checkin';
+
+export interface TimetableCover {
+    id: number;
+    school_id: number;
+    term_id?: number | null;
+    timetable_entry_id: number;
+    cover_date: string; // YYYY-MM-DD
+    absent_teacher_id: string;
+    substitute_teacher_id?: string | null;
+    absence_source: TimetableCoverSource;
+    leave_request_id?: number | null;
+    status: 'assigned' | 'cancelled';
+    notes?: string | null;
+    notified_at?: string | null;
+    assigned_by?: string | null;
+    created_at?: string;
+}
+
+export interface ExamPeriod {
+    id: number;
+    school_id: number;
+    term_id: number;
+    name: string;
+    start_date: string; // YYYY-MM-DD
+    end_date: string;
+    sessions: string[]; // e.g. ['Morning', 'Afternoon'], stored as JSONB
+    candidates_per_invigilator: number;
+    status: 'draft' | 'published';
+    created_at?: string;
+}
+
+export interface ExamPaper {
+    id: number;
+    exam_period_id: number;
+    subject_id: number;
+    level: string;
+    exam_date: string; // YYYY-MM-DD
+    session: string;
+    candidate_count: number;
+}
+
+export interface ExamSeatAllocation {
+    id: number;
+    exam_paper_id: number;
+    student_id: number;
+    location_id: number;
+    seat_number: number;
+}
+
+export interface ExamInvigilation {
+    id: number;
+    exam_period_id: number;
+    exam_date: string;
+    session: string;
+    location_id: number;
+    invigilator_id: string;
+}
+
 export interface GlobalSearchResult {
     result_type: 'Student' | 'Staff' | 'Report' | 'Task' | 'Lesson Plan';
     result_id: string | number; // Cast as needed
@@ -1902,10 +2387,24 @@ export interface InventoryItem {
     image_url?: string | null;
     description?: string | null;
     is_published?: boolean;
+    /** Units held by store orders that are placed but not yet delivered */
+    reserved?: number;
 }
 
 export type OrderStatus = 'Pending' | 'Paid' | 'Delivered' | 'Returned' | 'Cancelled';
 
+export type OrderStockState = 'reserved' | 'issued' | 'released' | 'restocked';
+
+/** Per-term store spending allowed on a student's school bill (get_store_billing_allowance) */
+export interface StoreBillingAllowance {
+    student_id: number;
+    term_id: number | null;
+    /** null: parents have not allowed store purchases on the bill */
+    limit: number | null;
+    billed: number;
+    remaining: number;
+}
+
 export interface Order {
     id: number;
     school_id: number;
@@ -1913,6 +2412,21 @@ export interface Order {
     total_amount: number;
     status: OrderStatus;
     payment_reference?: string | null;
+    stock_state?: OrderStockState;
+    /** Pending orders are cancelled and their stock released after this */
+    reserved_until?: string | null;
+    paid_amount?: number | null;
+    paid_at?: string | null;
+    delivered_at?: string | null;
+    returned_at?: string | null;
+    cancelled_at?: string | null;
+    cancel_reason?: string | null;
+    collection_code?: string | null;
+    /** Student whose school bill the order was added to */
+    student_id?: number | null;
+    /** Set while the order is settled through the fee ledger instead of at checkout */
+    billed_invoice_id?: number | null;
+    billed_at?: string | null;
     created_at: string;
     updated_at: string;
     user?: { name: string; email: string };
@@ -1926,7 +2440,7 @@ export interface OrderItem {
     inventory_item_id: number;
     quantity: number;
     unit_price: number;
-    inventory_item?: { name: string; image_url?: string };
+    inventory_item?: { name: string; image_url?: string; category?: InventoryItem['category'] };
 }
 
 export interface OrderNote {
@@ -2064,7 +2578,8 @@ export interface CommunicationLogData {
 // Kudi SMS Integration Types
 // ============================================
 
-export type NotificationChannel = 'sms' | 'whatsapp' | 'both';
+/** 'both' is the old single-choice value for WhatsApp with SMS fallback; settings now list channels */
+export type NotificationChannel = 'sms' | 'whatsapp' | 'email' | 'both';
 
 export type NotificationType = 
     'homework_reminder' | 
@@ -2083,24 +2598,26 @@ export type NotificationType =
     'password_reset' | 
     'payslip_published' | 
     'dva_account_created' |
+    'cover_assigned' |
     'general';
 
 export interface NotificationChannelConfig {
-    payment_receipt: NotificationChannel;
-    homework_missing: NotificationChannel;
-    homework_reminder: NotificationChannel;
-    notes_incomplete: NotificationChannel;
-    lesson_published: NotificationChannel;
-    attendance_present: NotificationChannel;
-    absentee_alert: NotificationChannel;
-    late_arrival: NotificationChannel;
-    subject_absentee: NotificationChannel;
-    subject_late: NotificationChannel;
-    report_card_ready: NotificationChannel;
-    emergency_broadcast: NotificationChannel;
-    student_credentials: NotificationChannel;
-    password_reset: NotificationChannel;
-    payslip_published: NotificationChannel;
+    payment_receipt: NotificationChannel[];
+    homework_missing: NotificationChannel[];
+    homework_reminder: NotificationChannel[];
+    notes_incomplete: NotificationChannel[];
+    lesson_published: NotificationChannel[];
+    attendance_present: NotificationChannel[];
+    absentee_alert: NotificationChannel[];
+    late_arrival: NotificationChannel[];
+    subject_absentee: NotificationChannel[];
+    subject_late: NotificationChannel[];
+    report_card_ready: NotificationChannel[];
+    emergency_broadcast: NotificationChannel[];
+    student_credentials: NotificationChannel[];
+    password_reset: NotificationChannel[];
+    payslip_published: NotificationChannel[];
+    cover_assigned: NotificationChannel[];
 }
 
 export interface WhatsAppTemplateCodes {
@@ -2119,6 +2636,7 @@ export interface WhatsAppTemplateCodes {
     student_credentials?: string;
     password_reset?: string;
     payslip_published?: string;
+    cover_assigned?: string;
 }
 
 export interface KudiSmsSettings {
@@ -2128,14 +2646,22 @@ export interface KudiSmsSettings {
     token: string;
     sender_id: string;
     enable_fallback?: boolean;
-    notification_channels?: NotificationChannelConfig | Record<string, 'sms' | 'whatsapp' | 'both'>;
+    notification_channels?: NotificationChannelConfig | Record<string, NotificationChannel[] | NotificationChannel>;
     whatsapp_template_codes?: WhatsAppTemplateCodes | Record<string, string>;
+    quiet_hours?: QuietHours | null;
     is_active: boolean;
     created_at: string;
     updated_at: string;
     campus?: { name: string };
 }
 
+/** Window (HH:MM, Lagos time) in which queued messages wait; start after end means overnight */
+export interface QuietHours {
+    enabled: boolean;
+    start: string;
+    end: string;
+}
+
 export interface KudiSmsResponse {
     status: 'success' | 'error';
     status_msg: string;
@@ -2165,6 +2691,8 @@ export interface GreenApiSettings {
     api_token: string;
     api_url: string;
     media_url: string;
+    /** Bearer token Green-API must send with webhooks (webhookUrlToken) */
+    webhook_token?: string;
     is_active: boolean;
     created_at: string;
     updated_at: string;
@@ -2220,6 +2748,67 @@ export interface GreenApiForwardResponse {
     messages: string[];
 }
 
+/** One WhatsApp thread per parent phone, linked to that family's students */
+export interface WhatsAppConversation {
+    id: number;
+    school_id: number;
+    campus_id: number | null;
+    chat_id: string;
+    phone: string;
+    contact_name: string | null;
+    student_ids: number[];
+    status: 'open' | 'closed';
+    assigned_to: string | null;
+    unread_count: number;
+    last_message_at: string | null;
+    last_message_preview: string | null;
+    last_read_at: string | null;
+    last_read_by: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface WhatsAppThreadMessage {
+    id: number;
+    conversation_id: number;
+    school_id: number;
+    direction: 'inbound' | 'outbound';
+    provider_message_id: string | null;
+    message_type: string;
+    body: string | null;
+    media_url: string | null;
+    button_id: string | null;
+    button_text: string | null;
+    buttons: Pick<GreenApiInteractiveButton, 'buttonId' | 'buttonText'>[] | null;
+    quoted_message_id: string | null;
+    status: 'received' | 'sent' | 'delivered' | 'read' | 'failed';
+    sent_by: string | null;
+    read_at: string | null;
+    created_at: string;
+}
+
+/** A parent's choice on an interactive buttons prompt */
+export interface WhatsAppButtonAnswer {
+    id: number;
+    school_id: number;
+    conversation_id: number;
+    message_id: number;
+    prompt_message_id: number | null;
+    student_ids: number[];
+    button_id: string | null;
+    button_text: string;
+    answered_at: string;
+}
+
+export interface WhatsAppCannedReply {
+    id: number;
+    school_id: number;
+    title: string;
+    body: string;
+    created_by: string | null;
+    created_at: string;
+}
+
 export interface SmsMessageLog {
     id: number;
     school_id: number;
@@ -2462,6 +3051,97 @@ export interface SmsNotification {
     student?: Student;
 }
 
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'dead';
+
+export interface OutboxMessage {
+    id: number;
+    school_id: number;
+    campus_id: number | null;
+    student_id: number | null;
+    batch_id: string;
+    recipient_phone: string;
+    recipient_name: string | null;
+    notification_type: NotificationType;
+    template_name: string | null;
+    message_content: string | null;
+    channel: NotificationChannel;
+    enable_fallback: boolean;
+    status: OutboxStatus;
+    attempts: number;
+    max_attempts: number;
+    send_after: string;
+    next_attempt_at: string;
+    bypass_quiet_hours: boolean;
+    used_channel: 'sms' | 'whatsapp' | 'email' | null;
+    recipient_email: string | null;
+    email_subject: string | null;
+    attachments: NotificationAttachment[];
+    fallback_used: boolean;
+    last_error: string | null;
+    reference_id: number | null;
+    sent_by: string | null;
+    sent_at: string | null;
+    created_at: string;
+    updated_at: string;
+    student?: Pick<Student, 'id' | 'name'>;
+}
+
+/** One recipient handed to enqueue_notifications: either a template with variables or a raw message */
+export interface OutboxRequest {
+    recipient_phone: string;
+    notification_type: NotificationType;
+    template_name?: string;
+    variables?: Record<string, string>;
+    message?: string;
+    student_id?: number;
+    campus_id?: number;
+    reference_id?: number;
+    recipient_name?: string;
+    /** Defaults to the parent email on the student record when email is a configured channel */
+    recipient_email?: string;
+    subject?: string;
+    /** Rendered to PDF and attached when the message goes out by email */
+    attachments?: NotificationAttachment[];
+    /** Only read for service-role callers; staff always queue for their own school */
+    school_id?: number;
+}
+
+export interface NotificationAttachment {
+    document: 'report_card' | 'invoice' | 'receipt' | 'payslip';
+    /** student_term_reports, student_invoices or student_payments id, or the payslip uuid */
+    id: number | string;
+}
+
+export type SmtpSecurity = 'starttls' | 'tls' | 'none';
+
+export interface SmtpSettings {
+    id: number;
+    school_id: number;
+    campus_id: number | null;
+    host: string;
+    port: number;
+    security: SmtpSecurity;
+    username: string | null;
+    password?: string | null;
+    from_email: string;
+    from_name: string | null;
+    reply_to: string | null;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface EmailTemplate {
+    id: number;
+    school_id: number;
+    notification_type: NotificationType;
+    subject: string;
+    html_body: string;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
 // Notification Types for Messaging System
 // (alias retained above for backward compatibility)
 
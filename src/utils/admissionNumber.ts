@@ -1,12 +1,30 @@
 /**
  * Utility functions for generating student admission numbers
- * Format: {CAMPUS}/{YY}/{NNNN}
- * Example: UPSS/25/0001, CAM/25/0123, CAGS/25/1234
+ *
+ * Each campus stores its own template built from these tokens:
+ *   {CAMPUS}  campus code, e.g. UPSS
+ *   {YYYY}    four-digit year, {YY} two-digit year (current or admission year, see id_year_mode)
+ *   {LEVEL}   class level without spaces, e.g. JSS1
+ *   {SEQ:n}   sequence zero-padded to n digits ({SEQ} pads to 4)
+ *
+ * The default template {CAMPUS}/{YY}/{SEQ:4} gives UPSS/25/0001, CAM/25/0123, CAGS/25/1234.
+ * Classes without a campus fall back to the legacy class name mapping below.
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AcademicClass, Campus, SchoolConfig } from '../types.js';
+
+export const DEFAULT_ADMISSION_NUMBER_TEMPLATE = '{CAMPUS}/{YY}/{SEQ:4}';
+
+export interface AdmissionNumberContext {
+  campusCode: string;
+  level?: string | null;
+  year: number;
+}
+
 /**
- * Class name to campus mapping
- * Maps specific class names to their corresponding campus prefixes
+ * Legacy class name to campus mapping
+ * Only used when a student's campus has no code configured
  */
 const CLASS_TO_CAMPUS: Record<string, string> = {
   // UPSS Campus classes
@@ -65,64 +83,187 @@ export function getCampusFromClassName(className: string): string | null {
   return matchedKey ? CLASS_TO_CAMPUS[matchedKey] : null;
 }
 
+const SEQ_TOKEN = /\{SEQ(?::(\d+))?\}/g;
+const KNOWN_TOKENS = /\{(CAMPUS|YYYY|YY|LEVEL|SEQ(?::\d+)?)\}/g;
+
 /**
- * Extract the sequential number from an admission number
- * @param admissionNumber - Admission number in format CAMPUS/YY/NNNN
- * @returns The sequential number or 0 if invalid
+ * Check a template before saving it
+ * @returns An error message, or null when the template is usable
  */
-function extractSequentialNumber(admissionNumber: string): number {
+export function validateAdmissionTemplate(template: string): string | null {
+  if (!template || !template.trim()) return 'Template is required';
+  const seqCount = (template.match(SEQ_TOKEN) || []).length;
+  if (seqCount !== 1) return 'Template must contain exactly one {SEQ} or {SEQ:n} token';
+  const unknown = template.replace(KNOWN_TOKENS, '').match(/\{[^}]*\}/);
+  if (unknown) return `Unknown token ${unknown[0]}`;
+  return null;
+}
+
+/**
+ * Class level as used in the {LEVEL} token
+ * @example levelCode('JSS 1') // 'JSS1'
+ */
+export function levelCode(level: string | null | undefined): string {
+  return (level || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Replace every token except the sequence
+ */
+function renderTokens(template: string, context: AdmissionNumberContext): string {
+  const fullYear = String(context.year);
+  return template
+    .replace(/\{CAMPUS\}/g, context.campusCode)
+    .replace(/\{YYYY\}/g, fullYear)
+    .replace(/\{YY\}/g, fullYear.slice(-2))
+    .replace(/\{LEVEL\}/g, levelCode(context.level));
+}
+
+function getSequenceWidth(template: string): number {
+  const match = new RegExp(SEQ_TOKEN.source).exec(template);
+  return match?.[1] ? parseInt(match[1], 10) : 4;
+}
+
+/**
+ * The admission number with the sequence left out. Numbers sharing a scope share a
+ * counter, so the template decides whether numbering restarts each year or per level.
+ * @example getSequenceScope('{CAMPUS}/{YY}/{SEQ:4}', { campusCode: 'UPSS', year: 2025 }) // 'UPSS/25/#'
+ */
+export function getSequenceScope(template: string, context: AdmissionNumberContext): string {
+  return renderTokens(template, context).replace(SEQ_TOKEN, '#');
+}
+
+/**
+ * Extract the sequential number from an admission number made with the same template and context
+ * @returns The sequential number or 0 if the number does not match
+ */
+export function parseAdmissionSequence(
+  template: string,
+  context: AdmissionNumberContext,
+  admissionNumber: string
+): number {
   if (!admissionNumber) return 0;
-  
-  const parts = admissionNumber.split('/');
-  if (parts.length !== 3) return 0;
-  
-  const seqNum = parseInt(parts[2], 10);
-  return isNaN(seqNum) ? 0 : seqNum;
+
+  const [prefix, suffix] = getSequenceScope(template, context).split('#');
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = admissionNumber.match(new RegExp(`^${escape(prefix)}(\\d+)${escape(suffix ?? '')}$`));
+  return match ? parseInt(match[1], 10) : 0;
 }
 
 /**
- * Get the current year in YY format
- * @returns Two-digit year string (e.g., "25" for 2025)
+ * Fill in a template for a given sequential number
+ * @returns The admission number, or null when the sequence no longer fits the padding
  */
-function getCurrentYear(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  return year.toString().slice(-2);
+export function formatAdmissionNumber(
+  template: string,
+  context: AdmissionNumberContext,
+  sequence: number
+): string | null {
+  const width = getSequenceWidth(template);
+  if (sequence.toString().length > width) return null;
+  return renderTokens(template, context).replace(SEQ_TOKEN, sequence.toString().padStart(width, '0'));
 }
 
 /**
- * Find the next sequential number for a given campus prefix
- * @param campusPrefix - Campus prefix (UPSS, CAM, CAGS)
- * @param existingNumbers - Array of existing admission numbers
- * @returns The next sequential number (1-9999)
+ * Highest sequential number already used in the template's scope
  */
-function getNextSequentialNumber(campusPrefix: string, existingNumbers: string[]): number {
-  const currentYear = getCurrentYear();
-  const prefix = `${campusPrefix}/${currentYear}/`;
-  
-  // Filter admission numbers for the same campus and year
-  const relevantNumbers = existingNumbers
-    .filter(num => num && num.startsWith(prefix))
-    .map(extractSequentialNumber)
-    .filter(num => num > 0);
-  
-  // If no existing numbers, start at 1
-  if (relevantNumbers.length === 0) {
-    return 1;
+export function getHighestAdmissionSequence(
+  template: string,
+  context: AdmissionNumberContext,
+  existingNumbers: string[]
+): number {
+  return existingNumbers.reduce(
+    (max, num) => Math.max(max, parseAdmissionSequence(template, context, num)),
+    0
+  );
+}
+
+/**
+ * Generate the next admission number for a template from the numbers already issued.
+ * Only safe for a single writer (the migration script and tests); the app allocates
+ * through allocateAdmissionNumber so concurrent registrations never collide.
+ */
+export function generateAdmissionNumberFromTemplate(
+  template: string,
+  context: AdmissionNumberContext,
+  existingNumbers: string[]
+): string | null {
+  const next = getHighestAdmissionSequence(template, context, existingNumbers) + 1;
+  const result = formatAdmissionNumber(template, context, next);
+  if (!result) {
+    console.error(`Sequential number exceeded maximum for ${getSequenceScope(template, context)}`);
   }
-  
-  // Find the maximum number and add 1
-  const maxNumber = Math.max(...relevantNumbers);
-  return maxNumber + 1;
+  return result;
+}
+
+/**
+ * Year used in the {YY}/{YYYY} tokens. With id_year_mode 'admission_year' the student's
+ * admission date wins; otherwise (and for new students) it is the current year.
+ */
+export function resolveAdmissionYear(
+  yearMode: SchoolConfig['id_year_mode'],
+  admittedOn?: string | null,
+  now: Date = new Date()
+): number {
+  if (yearMode === 'admission_year' && admittedOn) {
+    const admitted = new Date(admittedOn);
+    if (!isNaN(admitted.getTime())) return admitted.getFullYear();
+  }
+  return now.getFullYear();
 }
 
 /**
- * Format a sequential number with leading zeros
- * @param num - The sequential number (1-9999)
- * @returns Four-digit string with leading zeros (e.g., "0001", "0123", "1234")
+ * Work out which template and tokens apply to a student.
+ * The campus is the student's own, otherwise the campus of an academic class at the
+ * student's level; classes without a campus use the legacy class name mapping.
+ * @returns null when no campus code can be found for the student
  */
-function formatSequentialNumber(num: number): string {
-  return num.toString().padStart(4, '0');
+export function resolveAdmissionTemplate(params: {
+  className: string;
+  campusId?: number | null;
+  campuses: Pick<Campus, 'id' | 'code' | 'admission_number_template'>[];
+  academicClasses?: Pick<AcademicClass, 'level' | 'campus_id'>[];
+  yearMode?: SchoolConfig['id_year_mode'];
+  admittedOn?: string | null;
+  now?: Date;
+}): { template: string; context: AdmissionNumberContext } | null {
+  const normalizedLevel = params.className.trim().toLowerCase();
+  const campusId = params.campusId
+    ?? params.academicClasses?.find(ac => ac.campus_id && ac.level.trim().toLowerCase() === normalizedLevel)?.campus_id
+    ?? null;
+  const campus = campusId ? params.campuses.find(c => c.id === campusId) : undefined;
+  const campusCode = campus?.code?.trim() || getCampusFromClassName(params.className);
+  if (!campusCode) return null;
+
+  return {
+    template: campus?.admission_number_template?.trim() || DEFAULT_ADMISSION_NUMBER_TEMPLATE,
+    context: {
+      campusCode,
+      level: params.className,
+      year: resolveAdmissionYear(params.yearMode, params.admittedOn, params.now),
+    },
+  };
+}
+
+/**
+ * Allocate the next admission number from the database sequence for the template's scope.
+ * The sequence is bumped in a single statement, so two admins registering at once get
+ * different numbers. Numbers issued before the sequence existed are passed in as a floor.
+ */
+export async function allocateAdmissionNumber(
+  client: SupabaseClient,
+  schoolId: number,
+  template: string,
+  context: AdmissionNumberContext,
+  existingNumbers: string[] = []
+): Promise<string | null> {
+  const { data, error } = await client.rpc('next_admission_sequence', {
+    p_school_id: schoolId,
+    p_scope: getSequenceScope(template, context),
+    p_floor: getHighestAdmissionSequence(template, context, existingNumbers),
+  });
+  if (error) throw error;
+  return formatAdmissionNumber(template, context, Number(data));
 }
 
 /**
@@ -153,22 +294,12 @@ export function generateAdmissionNumber(
     console.warn(`Unable to determine campus for class: ${className}`);
     return null;
   }
-  
-  // Get current year in YY format
-  const year = getCurrentYear();
-  
-  // Get next sequential number
-  const seqNum = getNextSequentialNumber(campusPrefix, existingNumbers);
-  
-  // Validate sequential number is within range
-  if (seqNum > 9999) {
-    console.error(`Sequential number exceeded maximum for ${campusPrefix}/${year}`);
-    return null;
-  }
-  
-  // Format and return the admission number
-  const formattedSeqNum = formatSequentialNumber(seqNum);
-  return `${campusPrefix}/${year}/${formattedSeqNum}`;
+
+  return generateAdmissionNumberFromTemplate(
+    DEFAULT_ADMISSION_NUMBER_TEMPLATE,
+    { campusCode: campusPrefix, level: className, year: new Date().getFullYear() },
+    existingNumbers
+  );
 }
 
 /**
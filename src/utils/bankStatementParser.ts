@@ -0,0 +1,189 @@
+/**
+ * Bank statement parsing for fee reconciliation.
+ *
+ * Handles plain CSV exports and the layouts Nigerian banks commonly produce (GTBank, Access,
+ * Zenith, First Bank, UBA): a few preamble lines (account name, period) above the header row,
+ * separate Debit/Credit columns or a single Amount with a DR/CR marker, day-first dates and
+ * amounts with thousands separators.
+ */
+
+import { findColumnByVariations, normalizeHeaderName, parseFlexibleCsv } from './feesCsvUtils.js';
+
+export interface BankStatementLine {
+  /** Row number in the uploaded file (1-based, as a spreadsheet shows it) */
+  row: number;
+  date: string | null;
+  narration: string;
+  reference: string;
+  credit: number;
+  debit: number;
+  /** 1 for the first line in the file with this date, amount, reference and narration, 2 for an identical second one */
+  occurrence: number;
+}
+
+export interface BankStatementParseResult {
+  lines: BankStatementLine[];
+  /** Credit lines only, which are the candidate fee payments */
+  credits: BankStatementLine[];
+  headerRow: number;
+  skippedRows: number;
+}
+
+const COLUMN_VARIATIONS = {
+  date: ['Trans. Date', 'Trans Date', 'Tran Date', 'Transaction Date', 'Txn Date', 'Date Posted', 'Posted Date', 'Posting Date', 'Value Date', 'Date'],
+  narration: ['Narration', 'Description', 'Remarks', 'Transaction Details', 'Details', 'Particulars', 'Memo'],
+  reference: ['Reference', 'Reference No', 'Ref. No', 'Ref No', 'Ref', 'Transaction Reference', 'Transaction Ref', 'Session ID', 'Chq. No', 'Cheque No', 'Document No'],
+  credit: ['Credit', 'Credits', 'Credit Amount', 'Lodgement', 'Lodgements', 'Deposit', 'Deposits', 'Money In', 'CR'],
+  debit: ['Debit', 'Debits', 'Debit Amount', 'Withdrawal', 'Withdrawals', 'Money Out', 'DR'],
+  amount: ['Amount', 'Transaction Amount'],
+  type: ['Type', 'Dr/Cr', 'DR/CR', 'Cr/Dr', 'Transaction Type'],
+};
+
+const EXPECTED_COLUMNS = Object.values(COLUMN_VARIATIONS).flat();
+const HEADER_SCAN_LIMIT = 25;
+
+const isHeaderLike = (cells: string[], variations: string[]) => {
+  const wanted = new Set(variations.map(normalizeHeaderName));
+  return cells.some(cell => wanted.has(normalizeHeaderName(cell)));
+};
+
+/**
+ * Index of the header line: the first line naming a date column and either a credit column
+ * or an amount column. Preamble lines above it are ignored.
+ */
+export function findStatementHeaderLine(lines: string[]): number {
+  for (let i = 0; i < Math.min(lines.length, HEADER_SCAN_LIMIT); i++) {
+    const cells = lines[i].split(/[,;\t|]/).map(cell => cell.replace(/"/g, ''));
+    if (isHeaderLike(cells, COLUMN_VARIATIONS.date)
+      && (isHeaderLike(cells, COLUMN_VARIATIONS.credit) || isHeaderLike(cells, COLUMN_VARIATIONS.amount))) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** "₦1,250,000.00", "(5,000.00)", "5000 CR" and blanks to a number (0 when blank or invalid) */
+export function parseStatementAmount(value: unknown): number {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+  const text = String(value ?? '').trim();
+  if (!text || text === '-') return 0;
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  const amount = Number(text.replace(/[^0-9.]/g, ''));
+  if (!Number.isFinite(amount)) return 0;
+  return negative ? -amount : amount;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${fullYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/** Statement dates to YYYY-MM-DD. Slash and dash dates are read day first, as Nigerian banks print them. */
+export function parseStatementDate(value: string): string | null {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (match) return toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = text.match(/^(\d{1,2})[\s/-]([A-Za-z]{3})[A-Za-z]*[\s/-](\d{2,4})/);
+  if (match && MONTHS[match[2].toLowerCase()]) {
+    return toIsoDate(Number(match[3]), MONTHS[match[2].toLowerCase()], Number(match[1]));
+  }
+  return null;
+}
+
+/** Parse statement text (CSV, or an XLSX sheet converted to CSV) into transaction lines */
+export function parseBankStatement(text: string): BankStatementParseResult {
+  const allLines = text.replace(/\r\n/g, '\n').replace(/^\uFEFF/, '').split('\n');
+  const headerIndex = findStatementHeaderLine(allLines);
+  if (headerIndex < 0) {
+    throw new Error('Could not find the statement header row. Expected a date column and a credit or amount column.');
+  }
+
+  const { data, matchResult } = parseFlexibleCsv(allLines.slice(headerIndex).join('\n'), EXPECTED_COLUMNS);
+  const headers = new Map(matchResult.matchedColumns.map(header => [normalizeHeaderName(header), header]));
+  const column = (key: keyof typeof COLUMN_VARIATIONS) => findColumnByVariations(headers, COLUMN_VARIATIONS[key]);
+  const columns = {
+    date: column('date'),
+    narration: column('narration'),
+    reference: column('reference'),
+    credit: column('credit'),
+    debit: column('debit'),
+    amount: column('amount'),
+    type: column('type'),
+  };
+
+  const lines: BankStatementLine[] = [];
+  const occurrences = new Map<string, number>();
+  let skippedRows = 0;
+  // parseCsv drops blank lines, so walk the file lines to keep spreadsheet row numbers
+  let dataIndex = 0;
+  allLines.slice(headerIndex + 1).forEach((text, offset) => {
+    if (text.trim() === '') return;
+    const row = data[dataIndex++];
+    if (!row) return;
+    const fileRow = headerIndex + offset + 2;
+    const date = columns.date ? parseStatementDate(String(row[columns.date] ?? '')) : null;
+
+    let credit = columns.credit ? parseStatementAmount(row[columns.credit]) : 0;
+    let debit = columns.debit ? parseStatementAmount(row[columns.debit]) : 0;
+    if (!columns.credit && columns.amount) {
+      const amount = parseStatementAmount(row[columns.amount]);
+      const type = columns.type ? String(row[columns.type] ?? '').trim().toUpperCase() : '';
+      if (type.startsWith('C') || (!type && amount > 0)) credit = Math.abs(amount);
+      else debit = Math.abs(amount);
+    }
+
+    // Opening/closing balance and summary rows carry no date
+    if (!date || (credit <= 0 && debit <= 0)) {
+      skippedRows++;
+      return;
+    }
+
+    const line = {
+      row: fileRow,
+      date,
+      narration: columns.narration ? String(row[columns.narration] ?? '').trim() : '',
+      reference: columns.reference ? String(row[columns.reference] ?? '').trim() : '',
+      credit: Math.max(credit, 0),
+      debit: Math.max(debit, 0),
+    };
+    // Two identical same-day transfers are both real payments, so they must not share a reference
+    const key = `${statementLineKey(line)}|${line.debit.toFixed(2)}`;
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+    lines.push({ ...line, occurrence });
+  });
+
+  return { lines, credits: lines.filter(line => line.credit > 0), headerRow: headerIndex + 1, skippedRows };
+}
+
+/** 10-digit account numbers (NUBAN) quoted in a narration, e.g. the DVA a parent paid into */
+export function extractAccountNumbers(narration: string): string[] {
+  return Array.from(new Set(narration.match(/\b\d{10}\b/g) || []));
+}
+
+const statementLineKey = (line: Pick<BankStatementLine, 'date' | 'narration' | 'reference' | 'credit'>) =>
+  `${line.date}|${line.credit.toFixed(2)}|${line.reference}|${line.narration}`.toLowerCase();
+
+/**
+ * Stable ledger reference for a statement line, so importing the same statement twice does not
+ * record a payment twice (record_student_payment skips references it has seen). Repeats of an
+ * identical line in the same file are numbered by their occurrence.
+ */
+export function statementLineReference(line: Pick<BankStatementLine, 'date' | 'narration' | 'reference' | 'credit' | 'occurrence'>): string {
+  const key = line.occurrence > 1 ? `${statementLineKey(line)}|${line.occurrence}` : statementLineKey(line);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `BANK-${line.date?.replace(/-/g, '')}-${hash.toString(16).padStart(8, '0')}`;
+}
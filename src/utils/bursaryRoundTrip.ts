@@ -210,6 +210,37 @@ export async function parseAdjustmentsUpload(file: File | { name: string; text:
   };
 }
 
+function worksheetCellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((part) => part.text).join('');
+    if ('result' in value) return worksheetCellText(value.result as ExcelJS.CellValue);
+    if ('text' in value) return String(value.text);
+    return '';
+  }
+  return String(value);
+}
+
+/**
+ * Bank statements arrive as CSV or XLSX; XLSX exports are flattened to CSV text (dates as
+ * YYYY-MM-DD) so both go through parseBankStatement.
+ */
+export async function readBankStatementFile(file: File | { name: string; text: () => Promise<string>; arrayBuffer: () => Promise<ArrayBuffer>; }): Promise<string> {
+  if (!/\.xlsx$/i.test(file.name)) {
+    return file.text();
+  }
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const worksheet = workbook.worksheets[0];
+  const lines: string[] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    const values = (row.values as ExcelJS.CellValue[]).slice(1);
+    lines.push(values.map((value) => escapeCsvCell(worksheetCellText(value))).join(','));
+  });
+  return lines.join('\n');
+}
+
 export function computeInvoiceTotals(
   invoice: LedgerStudentInvoice,
   adjustments: StudentAdjustment[] = [],
@@ -372,6 +403,7 @@ export function buildReceiptPdfHtml(payload: PaymentReceiptPayload, school: { na
   const allocations = (payload.allocations || []).map((alloc) => `
     <tr>
       <td>${alloc.invoice_no}</td>
+      <td>${alloc.description || ''}</td>
       <td>${Number(alloc.amount).toFixed(2)}</td>
     </tr>
   `).join('');
@@ -398,7 +430,7 @@ export function buildReceiptPdfHtml(payload: PaymentReceiptPayload, school: { na
           </div>
           <table>
             <thead>
-              <tr><th>Invoice</th><th>Allocated Amount</th></tr>
+              <tr><th>Invoice</th><th>Item</th><th>Allocated Amount</th></tr>
             </thead>
             <tbody>${allocations}</tbody>
           </table>
@@ -0,0 +1,165 @@
+// @ts-ignore
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+// @ts-ignore
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface GreenApiWebhook {
+  typeWebhook: string;
+  instanceData?: { idInstance: number | string; wid?: string };
+  timestamp?: number;
+  idMessage?: string;
+  chatId?: string;
+  status?: string;
+  senderData?: { chatId: string; sender?: string; senderName?: string; chatName?: string };
+  messageData?: Record<string, any> & { typeMessage: string };
+}
+
+interface ParsedMessage {
+  type: string;
+  body: string | null;
+  mediaUrl: string | null;
+  buttonId: string | null;
+  buttonText: string | null;
+  quotedMessageId: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+/**
+ * Pull the text, attachment and any button choice out of Green-API messageData. Button replies
+ * come in several shapes depending on how the prompt was sent (buttons, template buttons or
+ * sendInteractiveButtons), so look for the selected id/text wherever it appears.
+ */
+function parseMessage(data: Record<string, any>): ParsedMessage {
+  const type = data.typeMessage || 'unknown';
+  const file = data.fileMessageData;
+  const extended = data.extendedTextMessageData;
+
+  let buttonId: string | null = null;
+  let buttonText: string | null = null;
+  let stanzaId: string | null = null;
+  for (const value of Object.values(data)) {
+    if (!value || typeof value !== 'object') continue;
+    const id = value.selectedButtonId ?? value.selectedId ?? value.buttonId ?? null;
+    const text = value.selectedButtonText ?? value.selectedDisplayText ?? value.buttonText ?? null;
+    if (text) {
+      buttonId = id != null ? String(id) : null;
+      buttonText = String(text);
+      stanzaId = value.stanzaId ?? null;
+      break;
+    }
+  }
+
+  return {
+    type: buttonText ? 'button_reply' : type,
+    body: data.textMessageData?.textMessage ?? extended?.text ?? file?.caption ?? buttonText ?? null,
+    mediaUrl: file?.downloadUrl ?? null,
+    buttonId,
+    buttonText,
+    quotedMessageId: stanzaId ?? extended?.stanzaId ?? data.quotedMessage?.stanzaId ?? null,
+  };
+}
+
+/**
+ * Green-API Webhook
+ *
+ * Receives Green-API notifications (set this function's URL as the instance webhookUrl and
+ * greenapi_settings.webhook_token as webhookUrlToken). Incoming parent messages are stored in
+ * their family conversation through record_inbound_whatsapp; outgoingMessageStatus receipts
+ * update messages staff sent from the inbox. See 20261105_whatsapp_conversations.sql.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const payload: GreenApiWebhook = await req.json();
+    const instanceId = payload.instanceData?.idInstance;
+    if (!instanceId) {
+      return json({ error: 'Missing instanceData' }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: settingsRows, error: settingsError } = await supabaseAdmin
+      .from('greenapi_settings')
+      .select('school_id, campus_id, webhook_token')
+      .eq('instance_id', String(instanceId))
+      .eq('is_active', true)
+      .limit(1);
+
+    const settings = settingsRows?.[0];
+    if (settingsError || !settings) {
+      console.error('No active Green-API settings for instance', instanceId, settingsError);
+      return json({ error: 'Unknown instance' }, 404);
+    }
+
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '');
+    if (!settings.webhook_token || token !== settings.webhook_token) {
+      return json({ error: 'Invalid webhook token' }, 401);
+    }
+
+    if (payload.typeWebhook === 'outgoingMessageStatus' && payload.idMessage && payload.status) {
+      const { error } = await supabaseAdmin.rpc('update_whatsapp_message_status', {
+        p_school_id: settings.school_id,
+        p_provider_message_id: payload.idMessage,
+        p_status: payload.status,
+      });
+      if (error) throw error;
+      return json({ success: true });
+    }
+
+    if (payload.typeWebhook !== 'incomingMessageReceived' || !payload.senderData || !payload.messageData) {
+      // State changes, outgoing API messages, calls: nothing to store
+      return json({ success: true, ignored: payload.typeWebhook });
+    }
+
+    // Group chats are not family conversations
+    if (!payload.senderData.chatId.endsWith('@c.us')) {
+      return json({ success: true, ignored: 'group' });
+    }
+
+    const message = parseMessage(payload.messageData);
+    const { data: messageId, error } = await supabaseAdmin.rpc('record_inbound_whatsapp', {
+      p_school_id: settings.school_id,
+      p_campus_id: settings.campus_id,
+      p_chat_id: payload.senderData.chatId,
+      p_sender_name: payload.senderData.senderName || payload.senderData.chatName || null,
+      p_provider_message_id: payload.idMessage || null,
+      p_message_type: message.type,
+      p_body: message.body,
+      p_media_url: message.mediaUrl,
+      p_button_id: message.buttonId,
+      p_button_text: message.buttonText,
+      p_quoted_message_id: message.quotedMessageId,
+      p_sent_at: payload.timestamp ? new Date(payload.timestamp * 1000).toISOString() : null,
+      p_raw: payload,
+    });
+    if (error) throw error;
+
+    return json({ success: true, message_id: messageId, duplicate: messageId === null });
+  } catch (error) {
+    console.error('Green-API webhook error:', error);
+    // Green-API retries on non-2xx, which is what we want for transient database errors
+    return json({ error: error.message }, 500);
+  }
+});
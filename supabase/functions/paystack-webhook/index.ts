@@ -21,6 +21,8 @@ interface WebhookEvent {
       email: string;
       customer_code: string;
       id: number;
+      first_name?: string | null;
+      last_name?: string | null;
     };
     dedicated_account?: {
       account_number: string;
@@ -31,6 +33,14 @@ interface WebhookEvent {
         slug: string;
       };
     };
+    /** Set by parent portal inline checkout */
+    metadata?: {
+      student_id?: number | string;
+      school_id?: number | string;
+      invoice_id?: number | string | null;
+      installment_id?: number | string | null;
+      parent_id?: string;
+    } | string | null;
     reference: string;
     status: string;
     paid_at: string;
@@ -38,112 +48,116 @@ interface WebhookEvent {
 }
 
 /**
- * Send SMS payment receipt to parent
+ * Queue a credit that could not be tied to a student for the bursar's unmatched payments
+ * workspace, keeping the payer details used to suggest likely students
  */
-async function sendSmsPaymentReceipt(
+async function queueUnmatchedPayment(
+  supabaseAdmin: any,
+  event: WebhookEvent,
+  paymentMethod: string,
+  webhookEventId: number | null
+) {
+  const { data } = event;
+  const customerName = [data.customer?.first_name, data.customer?.last_name].filter(Boolean).join(' ');
+  const { error } = await supabaseAdmin.from('unmatched_payments').insert({
+    reference: data.reference,
+    amount: data.amount / 100,
+    payment_date: data.paid_at,
+    payment_method: paymentMethod,
+    customer_email: data.customer?.email,
+    payer_name: data.authorization?.sender_name || customerName || null,
+    account_number: data.dedicated_account?.account_number || null,
+    narration: data.authorization?.narration || null,
+    webhook_event_id: webhookEventId,
+    raw_data: data,
+    verified: true,
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error('Could not log unmatched payment:', error.message);
+  } else {
+    console.log('Payment logged to unmatched_payments for manual review');
+  }
+}
+
+/**
+ * Queue the payment receipt for the parent in the message outbox, which sends it on the channels
+ * the school chose for payment_receipt. Email copies carry the PDF receipt.
+ */
+async function queuePaymentReceipt(
   supabaseAdmin: any,
   schoolId: number,
   studentId: number,
+  paymentId: number,
   amountPaid: number,
   reference: string,
   paymentDate: string,
-  totalPaid: number,
-  totalAmount: number,
+  remainingBalance: number,
   paymentMethod: string
 ) {
   try {
-    // Get student details
     const { data: student, error: studentError } = await supabaseAdmin
       .from('students')
-      .select('name, parent_phone_number_1')
+      .select('name, campus_id, father_phone, mother_phone, parent_phone_number_1, parent_phone_number_2, father_email, mother_email')
       .eq('id', studentId)
       .single();
 
-    if (studentError || !student || !student.parent_phone_number_1) {
-      console.log('Cannot send receipt: No parent phone number found for student', studentId);
+    if (studentError || !student) {
+      console.log('Cannot send receipt: student not found', studentId);
+      return;
+    }
+
+    const phone = student.father_phone || student.mother_phone || student.parent_phone_number_1 || student.parent_phone_number_2 || '';
+    if (!phone && !student.father_email && !student.mother_email) {
+      console.log('Cannot send receipt: no parent phone number or email for student', studentId);
       return;
     }
 
-    const remainingBalance = totalAmount - totalPaid;
     const formattedDate = new Date(paymentDate).toLocaleDateString('en-GB', {
       day: '2-digit',
       month: 'long',
       year: 'numeric'
     });
 
-    // Prepare SMS message
     const message = `Dear Parent,\n\nPayment Receipt Confirmation\n\n` +
       `Student: ${student.name}\n` +
       `Amount Paid: ₦${amountPaid.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n` +
       `Payment Method: ${paymentMethod}\n` +
       `Reference: ${reference}\n` +
       `Date: ${formattedDate}\n` +
-      `Total Paid: ₦${totalPaid.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n` +
       `Remaining Balance: ₦${remainingBalance.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n\n` +
       `Thank you for your payment.\n\n` +
       `School Guardian 360`;
 
-    // Get Kudi SMS settings
-    const { data: kudiSettings } = await supabaseAdmin
-      .from('kudisms_settings')
-      .select('token, sender_id, is_active')
-      .eq('school_id', schoolId)
-      .eq('is_active', true)
-      .single();
-
-    if (!kudiSettings) {
-      console.log('Kudi SMS not configured for school', schoolId);
-      return;
-    }
-
-    // Format phone number
-    let formattedPhone = student.parent_phone_number_1.replace(/\D/g, '');
-    if (formattedPhone.startsWith('0')) {
-      formattedPhone = formattedPhone.substring(1);
-    }
-    if (!formattedPhone.startsWith('234')) {
-      formattedPhone = '234' + formattedPhone;
-    }
-
-    // Send via Kudi SMS
-    const kudiUrl = 'https://my.kudisms.net/api/personalisedsms';
-    const kudiPayload = {
-      token: kudiSettings.token,
-      senderID: kudiSettings.sender_id,
-      message: message,
-      csvHeaders: ['phone_number', 'name'],
-      recipients: [
-        {
-          phone_number: formattedPhone,
-          name: student.name
-        }
-      ]
-    };
-
-    const kudiResponse = await fetch(kudiUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(kudiPayload),
-    });
-
-    const kudiResult = await kudiResponse.json();
-    
-    // Log the message
-    await supabaseAdmin.from('sms_message_logs').insert({
-      school_id: schoolId,
-      recipient_phone: formattedPhone,
-      message_type: 'personalised',
-      message_content: message,
-      kudi_response: kudiResult,
-      status: (kudiResponse.ok && kudiResult.error_code === '000') ? 'sent' : 'failed',
-      error_message: (kudiResponse.ok && kudiResult.error_code === '000') ? null : (kudiResult.msg || 'Failed to send'),
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
+    const { data: queued, error: queueError } = await supabaseAdmin.rpc('enqueue_notifications', {
+      p_messages: [{
+        school_id: schoolId,
+        campus_id: student.campus_id,
+        student_id: studentId,
+        recipient_phone: phone,
+        notification_type: 'payment_receipt',
+        message,
+        subject: `Payment receipt for ${student.name}`,
+        reference_id: paymentId,
+        attachments: [{ document: 'receipt', id: paymentId }],
+      }],
     });
+    if (queueError) throw queueError;
 
-    console.log(`SMS receipt sent to ${formattedPhone} for payment ${reference}`);
+    // Deliver now rather than on the next scheduled run
+    await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/process-message-outbox`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+        'Content-Type': 'application/json',
+      },
+      body: '{}',
+    }).catch(() => undefined);
+
+    console.log(`Receipt queued for payment ${reference} (batch ${queued?.batch_id})`);
   } catch (error) {
-    console.error('Error sending SMS receipt:', error);
+    console.error('Error queuing payment receipt:', error);
     // Don't throw - receipt sending is non-critical
   }
 }
@@ -155,9 +169,8 @@ async function sendSmsPaymentReceipt(
  * When a payment is made to a student's DVA, this function automatically:
  * - Verifies the webhook signature
  * - Finds the student by account number
- * - Finds their unpaid invoice
- * - Records the payment
- * - Updates the invoice status
+ * - Records the payment on the fee ledger (record_student_payment), which allocates it
+ *   to open invoices and derives their amount_paid and status
  */
 serve(async (req) => {
   // Handle CORS preflight
@@ -222,14 +235,16 @@ serve(async (req) => {
     );
 
     // Log the webhook event for audit trail
+    let webhookEventId: number | null = null;
     try {
-      const { error: insertError } = await supabaseAdmin.from('webhook_events').insert({
+      const { data: loggedEvent, error: insertError } = await supabaseAdmin.from('webhook_events').insert({
         event_type: event.event,
         payload: event,
         signature: signature,
         processed: false,
         created_at: new Date().toISOString(),
-      });
+      }).select('id').single();
+      webhookEventId = loggedEvent?.id ?? null;
       
       if (insertError) {
         // Table might not exist or other error occurred
@@ -260,24 +275,6 @@ serve(async (req) => {
 
       console.log(`Processing payment: ${amount} NGN to account ${accountNumber}, reference: ${reference}`);
 
-      // Check for duplicate payment (idempotency)
-      const { data: existingPayment } = await supabaseAdmin
-        .from('payments')
-        .select('id')
-        .eq('reference', reference)
-        .single();
-
-      if (existingPayment) {
-        console.log(`Payment with reference ${reference} already exists, skipping`);
-        return new Response(JSON.stringify({ 
-          success: true, 
-          message: 'Payment already processed' 
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        });
-      }
-
       // Find the DVA record by account number
       const { data: dvaRecord, error: dvaError } = await supabaseAdmin
         .from('dedicated_virtual_accounts')
@@ -287,9 +284,11 @@ serve(async (req) => {
 
       if (dvaError || !dvaRecord) {
         console.error('DVA not found for account number:', accountNumber, dvaError);
+        await queueUnmatchedPayment(supabaseAdmin, event, 'Bank Transfer (DVA)', webhookEventId);
         return new Response(JSON.stringify({ 
           error: 'Account not found',
-          message: 'DVA record not found for this account number'
+          message: 'DVA record not found for this account number',
+          requires_manual_review: true,
         }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           status: 200, // Return 200 to acknowledge receipt
@@ -298,154 +297,54 @@ serve(async (req) => {
 
       console.log(`Found DVA for student ${dvaRecord.student_id} in school ${dvaRecord.school_id}`);
 
-      // Get current term from school config
-      const { data: schoolConfig, error: configError } = await supabaseAdmin
-        .from('school_config')
-        .select('current_term_id')
-        .eq('school_id', dvaRecord.school_id)
-        .single();
-
-      if (configError || !schoolConfig?.current_term_id) {
-        console.error('Could not get current term for school:', dvaRecord.school_id, configError);
-        // Still record the payment, but without invoice association
-        await supabaseAdmin.from('payments').insert({
-          school_id: dvaRecord.school_id,
-          invoice_id: null,
-          amount: amount,
-          payment_date: paidAt,
-          payment_method: 'Bank Transfer (DVA)',
-          reference: reference,
-          verified: true,
-          created_at: new Date().toISOString(),
-        });
-
-        return new Response(JSON.stringify({ 
-          success: true,
-          message: 'Payment recorded without invoice (no current term configured)'
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        });
-      }
-
-      const currentTermId = schoolConfig.current_term_id;
-
-      // Find unpaid or partially paid invoice for this student in current term
-      const { data: invoices, error: invoiceError } = await supabaseAdmin
-        .from('student_invoices')
-        .select('id, total_amount, amount_paid, status')
-        .eq('student_id', dvaRecord.student_id)
-        .eq('term_id', currentTermId)
-        .in('status', ['Unpaid', 'Partial'])
-        .order('created_at', { ascending: true });
-
-      if (invoiceError) {
-        console.error('Error fetching invoices:', invoiceError);
-        // Record payment without invoice association
-        await supabaseAdmin.from('payments').insert({
-          school_id: dvaRecord.school_id,
-          invoice_id: null,
-          amount: amount,
-          payment_date: paidAt,
-          payment_method: 'Bank Transfer (DVA)',
-          reference: reference,
-          verified: true,
-          created_at: new Date().toISOString(),
-        });
-
-        return new Response(JSON.stringify({ 
-          success: true,
-          message: 'Payment recorded without invoice (error fetching invoices)'
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        });
-      }
-
-      // Take the first unpaid/partial invoice
-      const invoice = invoices && invoices.length > 0 ? invoices[0] : null;
-
-      if (!invoice) {
-        console.log('No open invoice found for student, recording payment without invoice');
-        await supabaseAdmin.from('payments').insert({
-          school_id: dvaRecord.school_id,
-          invoice_id: null,
-          amount: amount,
-          payment_date: paidAt,
-          payment_method: 'Bank Transfer (DVA)',
-          reference: reference,
-          verified: true,
-          created_at: new Date().toISOString(),
-        });
-
-        return new Response(JSON.stringify({ 
-          success: true,
-          message: 'Payment recorded without invoice (no open invoice found)'
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        });
-      }
-
-      // Create payment record
-      const { error: paymentError } = await supabaseAdmin.from('payments').insert({
-        school_id: dvaRecord.school_id,
-        invoice_id: invoice.id,
-        amount: amount,
-        payment_date: paidAt,
-        payment_method: 'Bank Transfer (DVA)',
-        reference: reference,
-        verified: true,
-        created_at: new Date().toISOString(),
+      // Record on the fee ledger. The RPC skips references it has already seen, splits the
+      // credit across open fee lines (oldest term first, then bill clearing priority) and
+      // keeps anything left over as credit.
+      const { data: recorded, error: recordError } = await supabaseAdmin.rpc('record_student_payment', {
+        p_school_id: dvaRecord.school_id,
+        p_student_id: dvaRecord.student_id,
+        p_amount: amount,
+        p_method: 'TRANSFER',
+        p_reference: reference,
+        p_source: 'dva',
+        p_paid_at: paidAt,
+        p_meta: { account_number: accountNumber, bank: data.dedicated_account.bank?.name },
       });
 
-      if (paymentError) {
-        console.error('Error creating payment record:', paymentError);
+      if (recordError) {
+        console.error('Error recording payment on the ledger:', recordError);
         return new Response(JSON.stringify({ 
           error: 'Failed to record payment',
-          message: paymentError.message
+          message: recordError.message
         }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           status: 200, // Return 200 to acknowledge receipt
         });
       }
 
-      // Update invoice
-      const newAmountPaid = (parseFloat(invoice.amount_paid?.toString() || '0') + amount);
-      const totalAmount = parseFloat(invoice.total_amount?.toString() || '0');
-      const newStatus = newAmountPaid >= totalAmount ? 'Paid' : 'Partial';
-
-      const { error: updateError } = await supabaseAdmin
-        .from('student_invoices')
-        .update({
-          amount_paid: newAmountPaid,
-          status: newStatus,
-        })
-        .eq('id', invoice.id);
-
-      if (updateError) {
-        console.error('Error updating invoice:', updateError);
+      if (recorded.duplicate) {
+        console.log(`Payment with reference ${reference} already exists, skipping`);
         return new Response(JSON.stringify({ 
-          error: 'Payment recorded but invoice update failed',
-          message: updateError.message
+          success: true, 
+          message: 'Payment already processed' 
         }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           status: 200,
         });
       }
 
-      console.log(`Payment processed successfully: ${amount} NGN, invoice ${invoice.id} updated to ${newStatus}`);
+      console.log(`Payment processed successfully: ${amount} NGN, receipt ${recorded.receipt_no}, ${recorded.allocations.length} invoice(s) updated`);
 
-      // Send SMS payment receipt to parent
-      await sendSmsPaymentReceipt(
+      // Send the payment receipt to the parent
+      await queuePaymentReceipt(
         supabaseAdmin,
         dvaRecord.school_id,
         dvaRecord.student_id,
+        recorded.payment_id,
         amount,
         reference,
         paidAt,
-        newAmountPaid,
-        totalAmount,
+        Number(recorded.balance),
         'Bank Transfer (DVA)'
       );
 
@@ -472,9 +371,10 @@ serve(async (req) => {
         message: 'Payment processed successfully',
         data: {
           amount: amount,
-          invoice_id: invoice.id,
-          new_status: newStatus,
           reference: reference,
+          receipt_no: recorded.receipt_no,
+          allocations: recorded.allocations,
+          unallocated: recorded.unallocated,
         }
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -503,54 +403,92 @@ serve(async (req) => {
 
       console.log(`Processing card payment: ${amount} NGN, reference: ${reference}`);
 
-      // Check for duplicate payment (idempotency)
-      const { data: existingPayment } = await supabaseAdmin
-        .from('payments')
-        .select('id')
-        .eq('reference', reference)
-        .single();
+      // Storefront orders (STORE-{order_id}-...) are settled on the order, not the fee ledger
+      if (reference.startsWith('STORE-')) {
+        const { data: storeResult, error: storeError } = await supabaseAdmin.rpc('mark_store_order_paid', {
+          p_reference: reference,
+          p_amount: amount,
+          p_paid_at: paidAt,
+          p_meta: { customer_email: customerEmail, channel: data.authorization?.channel },
+        });
 
-      if (existingPayment) {
-        console.log(`Payment with reference ${reference} already exists, skipping`);
-        return new Response(JSON.stringify({ 
-          success: true, 
-          message: 'Payment already processed' 
-        }), {
+        if (storeError) {
+          console.error('Error marking store order paid:', storeError);
+          return new Response(JSON.stringify({
+            error: 'Failed to record store payment',
+            message: storeError.message
+          }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 200,
+          });
+        }
+
+        console.log(`Store payment ${reference}: ${storeResult.outcome}`);
+
+        try {
+          await supabaseAdmin
+            .from('webhook_events')
+            .update({
+              processed: storeResult.outcome === 'paid' || storeResult.outcome === 'already_paid',
+              processed_at: new Date().toISOString(),
+            })
+            .eq('event_type', event.event)
+            .filter('payload->>reference', 'eq', reference);
+        } catch (error: any) {
+          console.log('Could not update webhook_events table:', error?.message);
+        }
+
+        return new Response(JSON.stringify({ success: true, data: storeResult }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           status: 200,
         });
       }
 
-      // Try to find student by email or reference pattern
+      // Try to find student by checkout metadata, reference pattern or email
       // Reference format might be: INVOICE-{invoice_id}-{timestamp} or custom format
       let studentId: number | null = null;
       let schoolId: number | null = null;
       let invoiceId: number | null = null;
+      const metadata = typeof data.metadata === 'object' && data.metadata ? data.metadata : null;
+
+      // Parent portal checkouts name the student and the invoice (or installment) being paid
+      if (metadata?.student_id) {
+        const { data: studentData } = await supabaseAdmin
+          .from('students')
+          .select('id, school_id')
+          .eq('id', Number(metadata.student_id))
+          .maybeSingle();
+
+        if (studentData) {
+          studentId = studentData.id;
+          schoolId = studentData.school_id;
+
+          if (metadata.invoice_id) {
+            const { data: invoiceData } = await supabaseAdmin
+              .from('student_invoices')
+              .select('id')
+              .eq('id', Number(metadata.invoice_id))
+              .eq('student_id', studentData.id)
+              .maybeSingle();
+            invoiceId = invoiceData?.id ?? null;
+          }
+        }
+      }
 
-      // First, check if reference contains invoice ID
-      const invoiceMatch = reference.match(/INVOICE-(\d+)/i);
+      // Otherwise, check if reference contains invoice ID
+      const invoiceMatch = studentId ? null : reference.match(/INVOICE-(\d+)/i);
       if (invoiceMatch) {
         const extractedInvoiceId = parseInt(invoiceMatch[1]);
         const { data: invoiceData } = await supabaseAdmin
           .from('student_invoices')
-          .select('id, student_id, term_id, total_amount, amount_paid, status')
+          .select('id, student_id, school_id')
           .eq('id', extractedInvoiceId)
           .single();
 
         if (invoiceData) {
           invoiceId = invoiceData.id;
-          
-          // Get student and school info
-          const { data: studentData } = await supabaseAdmin
-            .from('students')
-            .select('id, school_id, name, parent_phone_number_1')
-            .eq('id', invoiceData.student_id)
-            .single();
-
-          if (studentData) {
-            studentId = studentData.id;
-            schoolId = studentData.school_id;
-          }
+          studentId = invoiceData.student_id;
+          schoolId = invoiceData.school_id;
         }
       }
 
@@ -558,72 +496,24 @@ serve(async (req) => {
       if (!studentId && customerEmail) {
         const { data: studentData } = await supabaseAdmin
           .from('students')
-          .select('id, school_id, name, parent_phone_number_1')
+          .select('id, school_id')
           .eq('email', customerEmail)
           .single();
 
         if (studentData) {
           studentId = studentData.id;
           schoolId = studentData.school_id;
-
-          // Find unpaid invoice
-          const { data: schoolConfig } = await supabaseAdmin
-            .from('school_config')
-            .select('current_term_id')
-            .eq('school_id', schoolId)
-            .single();
-
-          if (schoolConfig?.current_term_id) {
-            const { data: invoices } = await supabaseAdmin
-              .from('student_invoices')
-              .select('id, total_amount, amount_paid, status')
-              .eq('student_id', studentId)
-              .eq('term_id', schoolConfig.current_term_id)
-              .in('status', ['Unpaid', 'Partial'])
-              .order('created_at', { ascending: true });
-
-            if (invoices && invoices.length > 0) {
-              invoiceId = invoices[0].id;
-            }
-          }
         }
       }
 
-      // If we still don't have school info, we can't process this properly
-      if (!schoolId) {
-        console.error('Could not determine school for card payment');
+      // Without a student the payment cannot go on the ledger
+      if (!studentId || !schoolId) {
+        console.error('Could not determine student for card payment');
         console.error('Payment details:', { reference, amount, customerEmail });
         console.error('This payment requires manual review and association');
         
         // Record to a separate unmatched_payments table for manual review
-        // If table doesn't exist, just log the issue
-        try {
-          await supabaseAdmin.from('unmatched_payments').insert({
-            reference: reference,
-            amount: amount,
-            payment_date: paidAt,
-            payment_method: 'Card Payment',
-            customer_email: customerEmail,
-            raw_data: data,
-            verified: true,
-            created_at: new Date().toISOString(),
-          });
-          
-          console.log('Payment logged to unmatched_payments for manual review');
-        } catch (unmatchedError) {
-          // Table might not exist, log to default payments table with null school
-          console.log('unmatched_payments table not available, using payments table');
-          await supabaseAdmin.from('payments').insert({
-            school_id: null,
-            invoice_id: null,
-            amount: amount,
-            payment_date: paidAt,
-            payment_method: 'Card Payment',
-            reference: reference,
-            verified: true,
-            created_at: new Date().toISOString(),
-          });
-        }
+        await queueUnmatchedPayment(supabaseAdmin, event, 'Card Payment', webhookEventId);
 
         return new Response(JSON.stringify({ 
           success: true,
@@ -635,72 +525,59 @@ serve(async (req) => {
         });
       }
 
-      // Record payment
-      const { error: paymentError } = await supabaseAdmin.from('payments').insert({
-        school_id: schoolId,
-        invoice_id: invoiceId,
-        amount: amount,
-        payment_date: paidAt,
-        payment_method: 'Card Payment',
-        reference: reference,
-        verified: true,
-        created_at: new Date().toISOString(),
+      // Record on the fee ledger, settling the referenced invoice first
+      const { data: recorded, error: recordError } = await supabaseAdmin.rpc('record_student_payment', {
+        p_school_id: schoolId,
+        p_student_id: studentId,
+        p_amount: amount,
+        p_method: 'PAYSTACK',
+        p_reference: reference,
+        p_source: 'paystack',
+        p_paid_at: paidAt,
+        p_invoice_id: invoiceId,
+        p_meta: {
+          customer_email: customerEmail,
+          channel: data.authorization?.channel,
+          installment_id: metadata?.installment_id ?? null,
+          parent_id: metadata?.parent_id ?? null,
+        },
       });
 
-      if (paymentError) {
-        console.error('Error creating payment record:', paymentError);
+      if (recordError) {
+        console.error('Error recording payment on the ledger:', recordError);
         return new Response(JSON.stringify({ 
           error: 'Failed to record payment',
-          message: paymentError.message
+          message: recordError.message
         }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           status: 200,
         });
       }
 
-      // Update invoice if found
-      let newAmountPaid = amount;
-      let totalAmount = amount;
-      let newStatus = 'Paid';
-
-      if (invoiceId) {
-        const { data: invoice } = await supabaseAdmin
-          .from('student_invoices')
-          .select('id, total_amount, amount_paid, status')
-          .eq('id', invoiceId)
-          .single();
-
-        if (invoice) {
-          newAmountPaid = (parseFloat(invoice.amount_paid?.toString() || '0') + amount);
-          totalAmount = parseFloat(invoice.total_amount?.toString() || '0');
-          newStatus = newAmountPaid >= totalAmount ? 'Paid' : 'Partial';
-
-          await supabaseAdmin
-            .from('student_invoices')
-            .update({
-              amount_paid: newAmountPaid,
-              status: newStatus,
-            })
-            .eq('id', invoice.id);
-
-          console.log(`Card payment processed: ${amount} NGN, invoice ${invoice.id} updated to ${newStatus}`);
-        }
+      if (recorded.duplicate) {
+        console.log(`Payment with reference ${reference} already exists, skipping`);
+        return new Response(JSON.stringify({ 
+          success: true, 
+          message: 'Payment already processed' 
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        });
       }
 
-      // Send SMS receipt if we have student info
-      if (studentId) {
-        await sendSmsPaymentReceipt(
-          supabaseAdmin,
-          schoolId,
-          studentId,
-          amount,
-          reference,
-          paidAt,
-          newAmountPaid,
-          totalAmount,
-          'Card Payment'
-        );
-      }
+      console.log(`Card payment processed: ${amount} NGN, receipt ${recorded.receipt_no}, ${recorded.allocations.length} invoice(s) updated`);
+
+      await queuePaymentReceipt(
+        supabaseAdmin,
+        schoolId,
+        studentId,
+        recorded.payment_id,
+        amount,
+        reference,
+        paidAt,
+        Number(recorded.balance),
+        'Card Payment'
+      );
 
       // Mark webhook as processed
       try {
@@ -719,8 +596,9 @@ serve(async (req) => {
         data: {
           amount: amount,
           reference: reference,
-          invoice_id: invoiceId,
-          new_status: newStatus,
+          receipt_no: recorded.receipt_no,
+          allocations: recorded.allocations,
+          unallocated: recorded.unallocated,
         }
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
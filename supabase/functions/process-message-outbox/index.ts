@@ -0,0 +1,241 @@
+// @ts-ignore
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+// @ts-ignore
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Stop claiming new work well before the edge function wall-clock limit
+const RUN_BUDGET_MS = 45_000;
+const BATCH_SIZE = 50;
+// Pause between provider calls to stay under KudiSMS / Green-API rate limits
+const SEND_GAP_MS = 120;
+
+interface OutboxMessage {
+  id: number;
+  school_id: number;
+  campus_id: number | null;
+  recipient_phone: string;
+  recipient_name: string | null;
+  message_content: string | null;
+  channel: 'sms' | 'whatsapp' | 'email' | 'both';
+  enable_fallback: boolean;
+  whatsapp_template_code: string | null;
+  whatsapp_params: string | null;
+  recipient_email: string | null;
+  email_subject: string | null;
+  email_html: string | null;
+  attachments: { document: string; id: number | string }[] | null;
+  attempts: number;
+}
+
+interface AttemptResult {
+  success: boolean;
+  error?: string;
+  /** Retrying cannot help, e.g. the phone number is invalid */
+  permanent?: boolean;
+  response?: unknown;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Process Message Outbox
+ *
+ * Delivers due rows from message_outbox (see 20261104_message_outbox.sql). Runs every minute
+ * from pg_cron and is also triggered by the app straight after it queues messages. Each message
+ * goes out on its configured channel: WhatsApp through Green-API when the school has it set up,
+ * otherwise a KudiSMS WhatsApp template, falling back to SMS when the WhatsApp attempt fails and
+ * the school allows it. Email rows go out through the send-email function, which attaches
+ * report cards, invoices, receipts and payslips as PDFs. Failures are retried with backoff by
+ * complete_outbox_message.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '');
+
+    const adminClient = createClient(supabaseUrl, serviceKey);
+
+    // The scheduler calls with the service key; signed-in staff may trigger a run after queuing
+    if (token !== serviceKey) {
+      const { data: { user } } = await adminClient.auth.getUser(token);
+      if (!user) throw new Error('User not authenticated');
+    }
+
+    const callFunction = async (name: string, body: Record<string, unknown>) => {
+      const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${serviceKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      return { ok: response.ok && data?.success === true, status: response.status, data };
+    };
+
+    const greenApiSchools = new Map<string, boolean>();
+    const hasGreenApi = async (schoolId: number, campusId: number | null) => {
+      const key = `${schoolId}:${campusId ?? ''}`;
+      if (!greenApiSchools.has(key)) {
+        const { data } = await adminClient
+          .from('greenapi_settings')
+          .select('id')
+          .eq('school_id', schoolId)
+          .eq('is_active', true)
+          .limit(1);
+        greenApiSchools.set(key, (data || []).length > 0);
+      }
+      return greenApiSchools.get(key)!;
+    };
+
+    const sendSms = async (msg: OutboxMessage): Promise<AttemptResult> => {
+      const result = await callFunction('kudisms-send', {
+        phone_number: msg.recipient_phone,
+        school_id: msg.school_id,
+        recipient_name: msg.recipient_name || '',
+        gateway: '1',
+        message: msg.message_content,
+      });
+      if (result.ok) return { success: true, response: result.data?.response };
+      return {
+        success: false,
+        error: result.data?.message || result.data?.error || `kudisms-send returned ${result.status}`,
+        permanent: result.data?.error === 'Invalid phone number',
+        response: result.data,
+      };
+    };
+
+    const sendWhatsApp = async (msg: OutboxMessage): Promise<AttemptResult> => {
+      if (await hasGreenApi(msg.school_id, msg.campus_id)) {
+        const result = await callFunction('greenapi-send', {
+          school_id: msg.school_id,
+          campus_id: msg.campus_id,
+          recipient_phone: msg.recipient_phone,
+          message: msg.message_content,
+          send_type: 'text',
+        });
+        if (result.ok) return { success: true, response: result.data };
+        return { success: false, error: result.data?.error || `greenapi-send returned ${result.status}`, response: result.data };
+      }
+
+      if (!msg.whatsapp_template_code) {
+        return { success: false, error: 'No WhatsApp template code is configured for this notification type' };
+      }
+      const result = await callFunction('kudisms-send', {
+        phone_number: msg.recipient_phone,
+        school_id: msg.school_id,
+        gateway: '2',
+        template_code: msg.whatsapp_template_code,
+        params: msg.whatsapp_params || '',
+      });
+      if (result.ok) return { success: true, response: result.data?.response };
+      return {
+        success: false,
+        error: result.data?.message || result.data?.error || `kudisms-send returned ${result.status}`,
+        permanent: result.data?.error === 'Invalid phone number',
+        response: result.data,
+      };
+    };
+
+    const sendEmail = async (msg: OutboxMessage): Promise<AttemptResult> => {
+      if (!msg.recipient_email) {
+        return { success: false, error: 'No recipient email address', permanent: true };
+      }
+      const result = await callFunction('send-email', {
+        school_id: msg.school_id,
+        campus_id: msg.campus_id,
+        to: msg.recipient_email,
+        to_name: msg.recipient_name,
+        subject: msg.email_subject,
+        html: msg.email_html,
+        text: msg.message_content,
+        attachments: msg.attachments || [],
+      });
+      if (result.ok) return { success: true, response: result.data };
+      return {
+        success: false,
+        error: result.data?.error || `send-email returned ${result.status}`,
+        permanent: result.data?.error === 'Invalid email address',
+        response: result.data,
+      };
+    };
+
+    const deliver = async (msg: OutboxMessage) => {
+      if (msg.channel === 'email') {
+        return { ...(await sendEmail(msg)), usedChannel: 'email', fallbackUsed: false };
+      }
+      if (msg.channel === 'sms') {
+        return { ...(await sendSms(msg)), usedChannel: 'sms', fallbackUsed: false };
+      }
+
+      const whatsapp = await sendWhatsApp(msg);
+      if (whatsapp.success || whatsapp.permanent || !(msg.channel === 'both' || msg.enable_fallback)) {
+        return { ...whatsapp, usedChannel: 'whatsapp', fallbackUsed: false };
+      }
+
+      const sms = await sendSms(msg);
+      return {
+        ...sms,
+        error: sms.success ? undefined : `WhatsApp: ${whatsapp.error}; SMS: ${sms.error}`,
+        usedChannel: 'sms',
+        fallbackUsed: true,
+      };
+    };
+
+    const startedAt = Date.now();
+    const counts: Record<string, number> = { sent: 0, failed: 0, dead: 0 };
+
+    while (Date.now() - startedAt < RUN_BUDGET_MS) {
+      const { data: claimed, error: claimError } = await adminClient.rpc('claim_outbox_messages', { p_limit: BATCH_SIZE });
+      if (claimError) throw claimError;
+      if (!claimed || claimed.length === 0) break;
+
+      for (const msg of claimed as OutboxMessage[]) {
+        let result;
+        try {
+          result = await deliver(msg);
+        } catch (error) {
+          result = { success: false, error: error.message, usedChannel: null, fallbackUsed: false };
+        }
+
+        const { data: status, error: completeError } = await adminClient.rpc('complete_outbox_message', {
+          p_id: msg.id,
+          p_success: result.success,
+          p_used_channel: result.usedChannel,
+          p_fallback_used: result.fallbackUsed,
+          p_error: result.error || null,
+          p_permanent: result.permanent === true,
+          p_response: result.response ?? null,
+        });
+        if (completeError) {
+          console.error(`Could not record outbox message ${msg.id}:`, completeError);
+        } else {
+          counts[status] = (counts[status] || 0) + 1;
+        }
+
+        await sleep(SEND_GAP_MS);
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, ...counts }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    });
+  } catch (error) {
+    console.error('Outbox processing error:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400,
+    });
+  }
+});
@@ -0,0 +1,254 @@
+// @ts-ignore
+import { jsPDF } from 'https://esm.sh/jspdf@2.5.1';
+
+/**
+ * PDF attachments for notification emails. Each document is loaded with the service role and
+ * checked against the sending school before it is rendered, because attachment references come
+ * from the enqueue payload.
+ */
+
+export interface AttachmentRef {
+  document: 'report_card' | 'invoice' | 'receipt' | 'payslip';
+  id: number | string;
+}
+
+export interface RenderedDocument {
+  filename: string;
+  content: Uint8Array;
+}
+
+// The standard PDF fonts have no naira sign
+const money = (value: number | string | null | undefined) =>
+  `NGN ${Number(value || 0).toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString('en-GB', { day: '2-digit', month: 'long', year: 'numeric' }) : '-';
+
+const safeName = (text: string) => text.replace(/[^A-Za-z0-9-]+/g, '_').replace(/^_+|_+$/g, '');
+
+/** A4 page with the school name, a title, key/value details and a table */
+class DocumentBuilder {
+  private pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  private y = 20;
+
+  constructor(schoolName: string, title: string) {
+    this.pdf.setFont('helvetica', 'bold');
+    this.pdf.setFontSize(16);
+    this.pdf.text(schoolName, 105, this.y, { align: 'center' });
+    this.y += 8;
+    this.pdf.setFontSize(12);
+    this.pdf.text(title.toUpperCase(), 105, this.y, { align: 'center' });
+    this.y += 4;
+    this.pdf.line(15, this.y, 195, this.y);
+    this.y += 8;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > 280) {
+      this.pdf.addPage();
+      this.y = 20;
+    }
+  }
+
+  details(rows: [string, string][]) {
+    this.pdf.setFontSize(10);
+    rows.forEach(([label, value]) => {
+      this.ensureSpace(6);
+      this.pdf.setFont('helvetica', 'bold');
+      this.pdf.text(label, 15, this.y);
+      this.pdf.setFont('helvetica', 'normal');
+      this.pdf.text(value || '-', 60, this.y);
+      this.y += 6;
+    });
+    this.y += 4;
+    return this;
+  }
+
+  table(headers: string[], rows: string[][], columnX: number[]) {
+    this.ensureSpace(14);
+    this.pdf.setFontSize(10);
+    this.pdf.setFont('helvetica', 'bold');
+    headers.forEach((header, i) => this.pdf.text(header, columnX[i], this.y));
+    this.y += 2;
+    this.pdf.line(15, this.y, 195, this.y);
+    this.y += 5;
+    this.pdf.setFont('helvetica', 'normal');
+    rows.forEach(row => {
+      this.ensureSpace(6);
+      row.forEach((cell, i) => this.pdf.text(String(cell ?? ''), columnX[i], this.y, { maxWidth: (columnX[i + 1] ?? 195) - columnX[i] - 2 }));
+      this.y += 6;
+    });
+    this.pdf.line(15, this.y - 3, 195, this.y - 3);
+    this.y += 4;
+    return this;
+  }
+
+  paragraph(label: string, text: string | null | undefined) {
+    if (!text) return this;
+    const lines = this.pdf.splitTextToSize(text, 180);
+    this.ensureSpace(8 + lines.length * 5);
+    this.pdf.setFontSize(10);
+    this.pdf.setFont('helvetica', 'bold');
+    this.pdf.text(label, 15, this.y);
+    this.y += 5;
+    this.pdf.setFont('helvetica', 'normal');
+    this.pdf.text(lines, 15, this.y);
+    this.y += lines.length * 5 + 4;
+    return this;
+  }
+
+  output(): Uint8Array {
+    this.pdf.setFontSize(8);
+    this.pdf.setFont('helvetica', 'italic');
+    this.pdf.text(`Generated ${formatDate(new Date().toISOString())}`, 105, 290, { align: 'center' });
+    return new Uint8Array(this.pdf.output('arraybuffer'));
+  }
+}
+
+async function renderReceipt(admin: any, schoolId: number, schoolName: string, id: number | string): Promise<RenderedDocument> {
+  const { data: payment, error } = await admin
+    .from('student_payments')
+    .select('id, school_id, receipt_no, payment_ref, method, amount, paid_at, meta, student:students(name, admission_number), allocations:student_payment_allocations(allocated_amount, invoice:student_invoices(invoice_number), line:invoice_line_items(description))')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!payment || payment.school_id !== schoolId) throw new Error(`Receipt ${id} not found`);
+
+  const receiptNo = payment.receipt_no || `RCT-${String(payment.id).padStart(6, '0')}`;
+  const content = new DocumentBuilder(schoolName, 'Payment Receipt')
+    .details([
+      ['Receipt No', receiptNo],
+      ['Student', `${payment.student?.name || ''}${payment.student?.admission_number ? ` (${payment.student.admission_number})` : ''}`],
+      ['Date', formatDate(payment.paid_at)],
+      ['Method', String(payment.method || '')],
+      ['Reference', payment.payment_ref || ''],
+      ['Amount Paid', money(payment.amount)],
+      ...(payment.meta?.balance_after != null ? [['Balance After', money(payment.meta.balance_after)] as [string, string]] : []),
+    ])
+    .table(
+      ['Applied To', 'Item', 'Amount'],
+      (payment.allocations || []).map((a: any) => [a.invoice?.invoice_number || '-', a.line?.description || 'Invoice balance', money(a.allocated_amount)]),
+      [15, 70, 150]
+    )
+    .output();
+  return { filename: `Receipt_${safeName(receiptNo)}.pdf`, content };
+}
+
+async function renderInvoice(admin: any, schoolId: number, schoolName: string, id: number | string): Promise<RenderedDocument> {
+  const { data: invoice, error } = await admin
+    .from('student_invoices')
+    .select('id, school_id, invoice_number, total_amount, amount_paid, status, due_date, created_at, student:students(name, admission_number), line_items:invoice_line_items(description, amount), installments:invoice_installments(name, due_date, amount, amount_paid)')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!invoice || invoice.school_id !== schoolId) throw new Error(`Invoice ${id} not found`);
+
+  const builder = new DocumentBuilder(schoolName, 'Invoice')
+    .details([
+      ['Invoice No', invoice.invoice_number || String(invoice.id)],
+      ['Student', `${invoice.student?.name || ''}${invoice.student?.admission_number ? ` (${invoice.student.admission_number})` : ''}`],
+      ['Issued', formatDate(invoice.created_at)],
+      ['Due', formatDate(invoice.due_date)],
+      ['Status', String(invoice.status || '')],
+    ])
+    .table(
+      ['Item', 'Amount'],
+      [
+        ...(invoice.line_items || []).map((line: any) => [line.description || '', money(line.amount)]),
+        ['Total', money(invoice.total_amount)],
+        ['Paid', money(invoice.amount_paid)],
+        ['Balance', money(Number(invoice.total_amount || 0) - Number(invoice.amount_paid || 0))],
+      ],
+      [15, 150]
+    );
+  if ((invoice.installments || []).length > 0) {
+    builder.table(
+      ['Installment', 'Due', 'Amount', 'Paid'],
+      invoice.installments.map((i: any) => [i.name, formatDate(i.due_date), money(i.amount), money(i.amount_paid)]),
+      [15, 75, 120, 160]
+    );
+  }
+  return { filename: `Invoice_${safeName(invoice.invoice_number || String(invoice.id))}.pdf`, content: builder.output() };
+}
+
+async function renderReportCard(admin: any, schoolId: number, schoolName: string, id: number | string): Promise<RenderedDocument> {
+  const { data: report, error } = await admin
+    .from('student_term_reports')
+    .select('id, average_score, total_score, position_in_class, teacher_comment, principal_comment, student:students(name, admission_number, school_id), term:terms(session_label, term_label), subjects:student_term_report_subjects(subject_name, total_score, grade_label, remark, subject_position)')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!report || report.student?.school_id !== schoolId) throw new Error(`Report card ${id} not found`);
+
+  const termName = report.term ? `${report.term.term_label} ${report.term.session_label}` : '';
+  const content = new DocumentBuilder(schoolName, 'Report Card')
+    .details([
+      ['Student', `${report.student?.name || ''}${report.student?.admission_number ? ` (${report.student.admission_number})` : ''}`],
+      ['Term', termName],
+      ['Total Score', report.total_score != null ? String(report.total_score) : '-'],
+      ['Average', report.average_score != null ? Number(report.average_score).toFixed(2) : '-'],
+      ['Position in Class', report.position_in_class != null ? String(report.position_in_class) : '-'],
+    ])
+    .table(
+      ['Subject', 'Score', 'Grade', 'Position', 'Remark'],
+      (report.subjects || []).map((s: any) => [
+        s.subject_name || '',
+        s.total_score != null ? String(s.total_score) : '-',
+        s.grade_label || '-',
+        s.subject_position != null ? String(s.subject_position) : '-',
+        s.remark || '',
+      ]),
+      [15, 85, 110, 130, 155]
+    )
+    .paragraph("Class Teacher's Comment", report.teacher_comment)
+    .paragraph("Principal's Comment", report.principal_comment)
+    .output();
+  return { filename: `Report_Card_${safeName(report.student?.name || String(report.id))}_${safeName(termName)}.pdf`, content };
+}
+
+async function renderPayslip(admin: any, schoolId: number, schoolName: string, id: number | string): Promise<RenderedDocument> {
+  const { data: payslip, error } = await admin
+    .from('payslips')
+    .select('id, currency, gross_pay, total_deductions, net_pay, run:payroll_runs_v2(period_key, school_id), staff:user_profiles(name), line_items:payslip_line_items(type, label, amount, ordering)')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!payslip || payslip.run?.school_id !== schoolId) throw new Error(`Payslip ${id} not found`);
+
+  const lines = [...(payslip.line_items || [])].sort((a: any, b: any) => (a.ordering ?? 0) - (b.ordering ?? 0));
+  const section = (type: string) => lines.filter((l: any) => l.type === type).map((l: any) => [l.label, money(l.amount)]);
+  const content = new DocumentBuilder(schoolName, 'Payslip')
+    .details([
+      ['Staff', payslip.staff?.name || ''],
+      ['Period', payslip.run?.period_key || ''],
+    ])
+    .table(['Earnings', 'Amount'], [...section('EARNING'), ['Gross Pay', money(payslip.gross_pay)]], [15, 150])
+    .table(['Deductions', 'Amount'], [...section('DEDUCTION'), ['Total Deductions', money(payslip.total_deductions)]], [15, 150])
+    .table(['', ''], [['Net Pay', money(payslip.net_pay)]], [15, 150])
+    .output();
+  return { filename: `Payslip_${safeName(payslip.staff?.name || 'Staff')}_${safeName(payslip.run?.period_key || '')}.pdf`, content };
+}
+
+export async function renderDocument(admin: any, schoolId: number, schoolName: string, ref: AttachmentRef): Promise<RenderedDocument> {
+  switch (ref.document) {
+    case 'receipt':
+      return renderReceipt(admin, schoolId, schoolName, ref.id);
+    case 'invoice':
+      return renderInvoice(admin, schoolId, schoolName, ref.id);
+    case 'report_card':
+      return renderReportCard(admin, schoolId, schoolName, ref.id);
+    case 'payslip':
+      return renderPayslip(admin, schoolId, schoolName, ref.id);
+    default:
+      throw new Error(`Unknown document type ${(ref as AttachmentRef).document}`);
+  }
+}
+
+/** One-page sample attached to settings test emails */
+export function renderSamplePdf(schoolName: string): RenderedDocument {
+  const content = new DocumentBuilder(schoolName, 'Test Attachment')
+    .details([['Sent', formatDate(new Date().toISOString())]])
+    .paragraph('About', 'Report cards, invoices, receipts and payslips are attached to notification emails like this.')
+    .output();
+  return { filename: 'Test_Attachment.pdf', content };
+}
@@ -0,0 +1,166 @@
+// @ts-ignore
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+// @ts-ignore
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+// @ts-ignore
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import { renderDocument, renderSamplePdf, type AttachmentRef } from './documents.ts';
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface SendEmailRequest {
+  school_id: number;
+  campus_id?: number | null;
+  to: string;
+  to_name?: string | null;
+  subject?: string;
+  html?: string | null;
+  text?: string | null;
+  attachments?: AttachmentRef[];
+  /** Settings screen check: sends a sample email with a sample PDF */
+  test?: boolean;
+}
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Mirrors textToEmailHtml() in src/services/emailNotifications.ts
+const textToEmailHtml = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*([^*\n]+)\*/g, '<strong>$1</strong>')
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+const layout = (schoolName: string, body: string) => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif;color:#1e293b;">
+  <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <div style="padding:16px 24px;background:#1e40af;color:#ffffff;font-size:18px;font-weight:bold;">${escapeHtml(schoolName)}</div>
+    <div style="padding:24px;font-size:14px;line-height:1.6;">${body}</div>
+    <div style="padding:12px 24px;background:#f8fafc;color:#64748b;font-size:12px;">Sent by ${escapeHtml(schoolName)}. Please contact the school office with any questions.</div>
+  </div>
+</body>
+</html>`;
+
+/**
+ * Send Email
+ *
+ * Sends one notification email over the school's SMTP server (smtp_settings, campus row first,
+ * then the school-wide row) and attaches the listed documents as PDFs. Called by
+ * process-message-outbox with the service key, and by admins from the settings screen with
+ * `test: true`.
+ *
+ * Local testing: set SMTP_CATCHALL_HOST (and optionally SMTP_CATCHALL_PORT, default 1025) in
+ * the function environment to deliver every email to a catch-all server such as Mailpit or the
+ * Supabase CLI's Inbucket, without TLS or login, whatever the school has configured.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '');
+    const admin = createClient(supabaseUrl, serviceKey);
+
+    const body: SendEmailRequest = await req.json();
+    if (!body.school_id || !body.to) {
+      return json({ success: false, error: 'school_id and to are required' }, 400);
+    }
+
+    // Only the outbox processor sends notifications; staff may only send test emails
+    if (token !== serviceKey) {
+      const { data: { user } } = await admin.auth.getUser(token);
+      if (!user) return json({ success: false, error: 'User not authenticated' }, 401);
+      const { data: profile } = await admin.from('user_profiles').select('school_id, role').eq('id', user.id).maybeSingle();
+      if (!body.test || profile?.school_id !== body.school_id || profile?.role !== 'Admin') {
+        return json({ success: false, error: 'Not allowed' }, 403);
+      }
+    }
+
+    if (!EMAIL_PATTERN.test(body.to.trim())) {
+      return json({ success: false, error: 'Invalid email address' }, 400);
+    }
+
+    const { data: settingsRows, error: settingsError } = await admin
+      .from('smtp_settings')
+      .select('*')
+      .eq('school_id', body.school_id)
+      .eq('is_active', true);
+    if (settingsError) throw settingsError;
+    const settings = (settingsRows || []).find((s: any) => body.campus_id && s.campus_id === body.campus_id)
+      || (settingsRows || []).find((s: any) => s.campus_id === null);
+    if (!settings) {
+      return json({ success: false, error: 'Email (SMTP) is not configured for this school' }, 400);
+    }
+
+    const { data: school } = await admin.from('schools').select('name').eq('id', body.school_id).maybeSingle();
+    const schoolName = school?.name || settings.from_name || 'School';
+
+    const documents = body.test
+      ? [renderSamplePdf(schoolName)]
+      : await Promise.all((body.attachments || []).map(ref => renderDocument(admin, body.school_id, schoolName, ref)));
+
+    const subject = body.test ? `Test email from ${schoolName}` : (body.subject || `Message from ${schoolName}`);
+    const text = body.test
+      ? 'Your email settings work. Notification emails will be sent from this address.'
+      : (body.text || '');
+    const html = layout(schoolName, body.html || textToEmailHtml(text));
+
+    const catchAllHost = Deno.env.get('SMTP_CATCHALL_HOST');
+    const client = new SMTPClient(catchAllHost
+      ? {
+          connection: { hostname: catchAllHost, port: Number(Deno.env.get('SMTP_CATCHALL_PORT') || 1025), tls: false },
+          debug: { allowUnsecure: true, noStartTLS: true },
+        }
+      : {
+          connection: {
+            hostname: settings.host,
+            port: settings.port,
+            tls: settings.security === 'tls',
+            ...(settings.username ? { auth: { username: settings.username, password: settings.password || '' } } : {}),
+          },
+          debug: settings.security === 'none' ? { allowUnsecure: true, noStartTLS: true } : {},
+        });
+
+    try {
+      await client.send({
+        from: settings.from_name ? `${settings.from_name} <${settings.from_email}>` : settings.from_email,
+        to: body.to_name ? `${body.to_name} <${body.to.trim()}>` : body.to.trim(),
+        ...(settings.reply_to ? { replyTo: settings.reply_to } : {}),
+        subject,
+        content: text || 'This message is best viewed in an email app that shows HTML.',
+        html,
+        attachments: documents.map(doc => ({
+          filename: doc.filename,
+          content: doc.content,
+          encoding: 'binary',
+          contentType: 'application/pdf',
+        })),
+      });
+    } finally {
+      await client.close();
+    }
+
+    return json({ success: true, attachments: documents.map(doc => doc.filename) });
+  } catch (error) {
+    console.error('Send email error:', error);
+    return json({ success: false, error: error.message }, 500);
+  }
+});
@@ -0,0 +1,109 @@
+// @ts-ignore
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+// @ts-ignore
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Verify Store Payment
+ *
+ * Called by the storefront after Paystack inline checkout reports success. The charge is
+ * checked with Paystack's Verify Transaction API before the order moves to Paid, so a
+ * tampered callback cannot mark an order paid. paystack-webhook does the same on
+ * charge.success; whichever arrives second is a no-op.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { reference } = await req.json();
+    if (!reference || !String(reference).startsWith('STORE-')) {
+      throw new Error("A store order payment reference is required.");
+    }
+
+    const paystackSecretKey = Deno.env.get('PAYSTACK_SECRET_KEY');
+    if (!paystackSecretKey) {
+      throw new Error('Paystack secret key is not configured.');
+    }
+
+    // Only the buyer or staff of the order's school may trigger verification
+    const { data: order } = await supabaseClient
+      .from('orders')
+      .select('id')
+      .eq('payment_reference', reference)
+      .maybeSingle();
+    if (!order) {
+      throw new Error('Order not found for this payment reference.');
+    }
+
+    const verifyResponse = await fetch(`https://api.paystack.co/transaction/verify/${encodeURIComponent(reference)}`, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${paystackSecretKey}`,
+        'Content-Type': 'application/json'
+      },
+    });
+
+    const verifyData = await verifyResponse.json();
+
+    if (!verifyResponse.ok || !verifyData.status) {
+      throw new Error(`Failed to verify payment: ${verifyData.message}`);
+    }
+
+    if (verifyData.data.status !== 'success') {
+      return new Response(JSON.stringify({
+        success: false,
+        outcome: 'not_paid',
+        message: `Paystack reports this payment as ${verifyData.data.status}`,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      });
+    }
+
+    // Use Service Role for backend operations
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: result, error } = await adminClient.rpc('mark_store_order_paid', {
+      p_reference: reference,
+      p_amount: verifyData.data.amount / 100,
+      p_paid_at: verifyData.data.paid_at,
+      p_meta: { channel: verifyData.data.channel, verified_by: user.id },
+    });
+    if (error) throw error;
+
+    return new Response(JSON.stringify({
+      success: result.outcome === 'paid' || result.outcome === 'already_paid',
+      ...result,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    });
+
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400,
+    });
+  }
+});
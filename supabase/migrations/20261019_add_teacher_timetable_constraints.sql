@@ -0,0 +1,47 @@
+-- ============================================
+-- Teacher Timetable Constraints
+-- ============================================
+-- Per-teacher availability and workload limits enforced by the timetable
+-- scheduler and the bulk timetable generator.
+
+CREATE TABLE IF NOT EXISTS public.teacher_timetable_constraints (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    teacher_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    -- [{ "day_of_week": "Monday", "period_id": 3 }], period_id NULL blocks the whole day
+    unavailable_slots JSONB NOT NULL DEFAULT '[]'::jsonb,
+    max_consecutive_periods INTEGER CHECK (max_consecutive_periods IS NULL OR max_consecutive_periods > 0),
+    max_periods_per_day INTEGER CHECK (max_periods_per_day IS NULL OR max_periods_per_day > 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_teacher_timetable_constraint UNIQUE (teacher_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_teacher_timetable_constraints_school ON public.teacher_timetable_constraints(school_id);
+
+ALTER TABLE public.teacher_timetable_constraints ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Staff can read constraints for their school (needed when scheduling)
+DROP POLICY IF EXISTS "Staff can view teacher timetable constraints" ON public.teacher_timetable_constraints;
+CREATE POLICY "Staff can view teacher timetable constraints" ON public.teacher_timetable_constraints
+FOR SELECT
+USING (
+    school_id IN (
+        SELECT school_id FROM public.user_profiles WHERE id = auth.uid()
+    )
+);
+
+-- Policy: Timetable administrators manage constraints
+DROP POLICY IF EXISTS "Admins can manage teacher timetable constraints" ON public.teacher_timetable_constraints;
+CREATE POLICY "Admins can manage teacher timetable constraints" ON public.teacher_timetable_constraints
+FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid()
+        AND school_id = teacher_timetable_constraints.school_id
+        AND role IN ('Admin', 'Principal', 'Team Lead')
+    )
+);
+
+COMMENT ON TABLE public.teacher_timetable_constraints IS 'Per-teacher unavailable slots and daily/consecutive period limits used by the timetable scheduler';
@@ -0,0 +1,69 @@
+-- ============================================
+-- Timetable Cover (Substitute Teacher) Assignments
+-- ============================================
+-- One row per timetable entry that needs covering on a specific date because
+-- the scheduled teacher is on approved leave or checked in as Absent.
+
+CREATE TABLE IF NOT EXISTS public.timetable_covers (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    term_id INTEGER REFERENCES public.terms(id) ON DELETE CASCADE,
+    timetable_entry_id INTEGER NOT NULL REFERENCES public.timetable_entries(id) ON DELETE CASCADE,
+    cover_date DATE NOT NULL,
+    absent_teacher_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    substitute_teacher_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    absence_source TEXT NOT NULL CHECK (absence_source IN ('leave', 'checkin')),
+    leave_request_id INTEGER REFERENCES public.leave_requests(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'assigned' CHECK (status IN ('assigned', 'cancelled')),
+    notes TEXT,
+    notified_at TIMESTAMPTZ,
+    assigned_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_cover_per_entry_date UNIQUE (timetable_entry_id, cover_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_timetable_covers_date ON public.timetable_covers(school_id, cover_date);
+CREATE INDEX IF NOT EXISTS idx_timetable_covers_term_substitute ON public.timetable_covers(term_id, substitute_teacher_id);
+
+ALTER TABLE public.timetable_covers ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Staff can see covers for their school (substitutes need to see their duties)
+DROP POLICY IF EXISTS "Staff can view timetable covers" ON public.timetable_covers;
+CREATE POLICY "Staff can view timetable covers" ON public.timetable_covers
+FOR SELECT
+USING (
+    school_id IN (
+        SELECT school_id FROM public.user_profiles WHERE id = auth.uid()
+    )
+);
+
+-- Policy: Timetable administrators assign and cancel covers
+DROP POLICY IF EXISTS "Admins can manage timetable covers" ON public.timetable_covers;
+CREATE POLICY "Admins can manage timetable covers" ON public.timetable_covers
+FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid()
+        AND school_id = timetable_covers.school_id
+        AND role IN ('Admin', 'Principal', 'Team Lead')
+    )
+);
+
+COMMENT ON TABLE public.timetable_covers IS 'Substitute teacher assignments for lessons left uncovered by approved leave or absent check-ins';
+
+-- Notification template for the chosen substitute
+INSERT INTO sms_templates (school_id, template_name, message_content, variables, is_active)
+SELECT 
+    schools.id as school_id,
+    'cover_assigned' as template_name,
+    'Dear {{teacher_name}},
+
+You have been assigned to cover {{subject}} for {{class_name}} on {{date}} ({{period}}{{location}}), in place of {{absent_teacher}}.
+
+Thank you.' as message_content,
+    ARRAY['teacher_name', 'subject', 'class_name', 'date', 'period', 'location', 'absent_teacher']::text[] as variables,
+    true as is_active
+FROM schools
+ON CONFLICT (school_id, template_name) DO NOTHING;
@@ -0,0 +1,164 @@
+-- ============================================
+-- Examination Timetable and Hall Seating
+-- ============================================
+-- An exam period holds the dates and sessions for terminal exams. Each paper is
+-- one subject for one level placed in a date/session; seats and invigilation
+-- duties are stored per paper and per hall-session so plans can be reprinted.
+
+CREATE TABLE IF NOT EXISTS public.exam_periods (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    term_id INTEGER NOT NULL REFERENCES public.terms(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    sessions JSONB NOT NULL DEFAULT '["Morning", "Afternoon"]'::jsonb,
+    candidates_per_invigilator INTEGER NOT NULL DEFAULT 30 CHECK (candidates_per_invigilator > 0),
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+    created_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT valid_exam_period_dates CHECK (end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS public.exam_papers (
+    id SERIAL PRIMARY KEY,
+    exam_period_id INTEGER NOT NULL REFERENCES public.exam_periods(id) ON DELETE CASCADE,
+    subject_id INTEGER NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+    level TEXT NOT NULL,
+    exam_date DATE NOT NULL,
+    session TEXT NOT NULL,
+    candidate_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_exam_paper_per_level UNIQUE (exam_period_id, level, subject_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.exam_seat_allocations (
+    id SERIAL PRIMARY KEY,
+    exam_paper_id INTEGER NOT NULL REFERENCES public.exam_papers(id) ON DELETE CASCADE,
+    student_id INTEGER NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+    location_id INTEGER NOT NULL REFERENCES public.timetable_locations(id) ON DELETE CASCADE,
+    seat_number INTEGER NOT NULL,
+    CONSTRAINT unique_exam_seat_per_student UNIQUE (exam_paper_id, student_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.exam_invigilations (
+    id SERIAL PRIMARY KEY,
+    exam_period_id INTEGER NOT NULL REFERENCES public.exam_periods(id) ON DELETE CASCADE,
+    exam_date DATE NOT NULL,
+    session TEXT NOT NULL,
+    location_id INTEGER NOT NULL REFERENCES public.timetable_locations(id) ON DELETE CASCADE,
+    invigilator_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    CONSTRAINT unique_invigilator_per_session UNIQUE (exam_period_id, exam_date, session, invigilator_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exam_periods_term ON public.exam_periods(school_id, term_id);
+CREATE INDEX IF NOT EXISTS idx_exam_papers_period ON public.exam_papers(exam_period_id);
+CREATE INDEX IF NOT EXISTS idx_exam_seat_allocations_student ON public.exam_seat_allocations(student_id);
+CREATE INDEX IF NOT EXISTS idx_exam_invigilations_period ON public.exam_invigilations(exam_period_id);
+
+ALTER TABLE public.exam_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exam_papers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exam_seat_allocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exam_invigilations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Staff can view exam periods for their school
+DROP POLICY IF EXISTS "Staff can view exam periods" ON public.exam_periods;
+CREATE POLICY "Staff can view exam periods" ON public.exam_periods
+FOR SELECT
+USING (
+    school_id IN (
+        SELECT school_id FROM public.user_profiles WHERE id = auth.uid()
+    )
+);
+
+-- Policy: Timetable administrators manage exam periods
+DROP POLICY IF EXISTS "Admins can manage exam periods" ON public.exam_periods;
+CREATE POLICY "Admins can manage exam periods" ON public.exam_periods
+FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid()
+        AND school_id = exam_periods.school_id
+        AND role IN ('Admin', 'Principal', 'Team Lead')
+    )
+);
+
+-- Papers, seats and invigilation duties follow the visibility of their exam period
+DROP POLICY IF EXISTS "Staff can view exam papers" ON public.exam_papers;
+CREATE POLICY "Staff can view exam papers" ON public.exam_papers
+FOR SELECT
+USING (
+    exam_period_id IN (
+        SELECT id FROM public.exam_periods WHERE school_id IN (
+            SELECT school_id FROM public.user_profiles WHERE id = auth.uid()
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "Admins can manage exam papers" ON public.exam_papers;
+CREATE POLICY "Admins can manage exam papers" ON public.exam_papers
+FOR ALL
+USING (
+    exam_period_id IN (
+        SELECT ep.id FROM public.exam_periods ep
+        JOIN public.user_profiles up ON up.school_id = ep.school_id
+        WHERE up.id = auth.uid()
+        AND up.role IN ('Admin', 'Principal', 'Team Lead')
+    )
+);
+
+DROP POLICY IF EXISTS "Staff can view exam seats" ON public.exam_seat_allocations;
+CREATE POLICY "Staff can view exam seats" ON public.exam_seat_allocations
+FOR SELECT
+USING (
+    exam_paper_id IN (
+        SELECT p.id FROM public.exam_papers p
+        JOIN public.exam_periods ep ON ep.id = p.exam_period_id
+        WHERE ep.school_id IN (
+            SELECT school_id FROM public.user_profiles WHERE id = auth.uid()
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "Admins can manage exam seats" ON public.exam_seat_allocations;
+CREATE POLICY "Admins can manage exam seats" ON public.exam_seat_allocations
+FOR ALL
+USING (
+    exam_paper_id IN (
+        SELECT p.id FROM public.exam_papers p
+        JOIN public.exam_periods ep ON ep.id = p.exam_period_id
+        JOIN public.user_profiles up ON up.school_id = ep.school_id
+        WHERE up.id = auth.uid()
+        AND up.role IN ('Admin', 'Principal', 'Team Lead')
+    )
+);
+
+DROP POLICY IF EXISTS "Staff can view exam invigilations" ON public.exam_invigilations;
+CREATE POLICY "Staff can view exam invigilations" ON public.exam_invigilations
+FOR SELECT
+USING (
+    exam_period_id IN (
+        SELECT id FROM public.exam_periods WHERE school_id IN (
+            SELECT school_id FROM public.user_profiles WHERE id = auth.uid()
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "Admins can manage exam invigilations" ON public.exam_invigilations;
+CREATE POLICY "Admins can manage exam invigilations" ON public.exam_invigilations
+FOR ALL
+USING (
+    exam_period_id IN (
+        SELECT ep.id FROM public.exam_periods ep
+        JOIN public.user_profiles up ON up.school_id = ep.school_id
+        WHERE up.id = auth.uid()
+        AND up.role IN ('Admin', 'Principal', 'Team Lead')
+    )
+);
+
+COMMENT ON TABLE public.exam_periods IS 'Terminal examination windows with their daily sessions';
+COMMENT ON TABLE public.exam_papers IS 'One subject paper per level placed in an exam date and session';
+COMMENT ON TABLE public.exam_seat_allocations IS 'Hall and seat number for each candidate of an exam paper';
+COMMENT ON TABLE public.exam_invigilations IS 'Invigilator duties per hall, date and session';
@@ -0,0 +1,237 @@
+-- ============================================
+-- Computer-Based Tests (CBT) for Quizzes
+-- ============================================
+-- Adds answer keys, timed single attempts and auto-marking to the quizzes
+-- tables. Answer keys live in their own table so students, who can read
+-- quiz_questions, never see the correct answers. Keys are matched to questions
+-- by position because questions are re-inserted whenever a quiz is saved.
+-- Answers are saved to the attempt as the student works, so an attempt
+-- submitted after the time limit is closed out on what was saved in time.
+
+ALTER TABLE public.quizzes ADD COLUMN IF NOT EXISTS cbt_settings JSONB;
+
+CREATE TABLE IF NOT EXISTS public.quiz_answer_keys (
+    id SERIAL PRIMARY KEY,
+    quiz_id INTEGER NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    marks NUMERIC(6,2) NOT NULL DEFAULT 1 CHECK (marks >= 0),
+    correct_option_index INTEGER,
+    correct_answer TEXT,
+    explanation TEXT,
+    CONSTRAINT unique_answer_key_position UNIQUE (quiz_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.quiz_attempts (
+    id SERIAL PRIMARY KEY,
+    quiz_id INTEGER NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    student_id INTEGER REFERENCES public.students(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    submitted_at TIMESTAMPTZ,
+    auto_score NUMERIC(8,2) NOT NULL DEFAULT 0,
+    manual_score NUMERIC(8,2) NOT NULL DEFAULT 0,
+    max_score NUMERIC(8,2) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'pending_marking', 'marked')),
+    pushed_at TIMESTAMPTZ,
+    saved_answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+    CONSTRAINT one_attempt_per_user UNIQUE (quiz_id, user_id)
+);
+
+ALTER TABLE public.quiz_responses ADD COLUMN IF NOT EXISTS attempt_id INTEGER REFERENCES public.quiz_attempts(id) ON DELETE CASCADE;
+ALTER TABLE public.quiz_responses ADD COLUMN IF NOT EXISTS is_correct BOOLEAN;
+ALTER TABLE public.quiz_responses ADD COLUMN IF NOT EXISTS awarded_marks NUMERIC(6,2);
+ALTER TABLE public.quiz_responses ADD COLUMN IF NOT EXISTS marked_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_quiz ON public.quiz_attempts(quiz_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_responses_attempt ON public.quiz_responses(attempt_id);
+-- One marked answer per question per attempt; survey responses (no attempt) are unaffected
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_responses_attempt_question ON public.quiz_responses(attempt_id, question_id);
+
+ALTER TABLE public.quiz_answer_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only staff of the quiz's school can read or edit answer keys
+DROP POLICY IF EXISTS "Staff can manage quiz answer keys" ON public.quiz_answer_keys;
+CREATE POLICY "Staff can manage quiz answer keys" ON public.quiz_answer_keys
+FOR ALL
+USING (
+    quiz_id IN (
+        SELECT q.id FROM public.quizzes q
+        WHERE q.school_id IN (
+            SELECT school_id FROM public.user_profiles WHERE id = auth.uid()
+        )
+    )
+);
+
+-- Policy: Students see their own attempt
+DROP POLICY IF EXISTS "Users can view own quiz attempts" ON public.quiz_attempts;
+CREATE POLICY "Users can view own quiz attempts" ON public.quiz_attempts
+FOR SELECT
+USING (user_id = auth.uid());
+
+-- Policy: Staff mark attempts and record score pushes for their school
+DROP POLICY IF EXISTS "Staff can manage quiz attempts" ON public.quiz_attempts;
+CREATE POLICY "Staff can manage quiz attempts" ON public.quiz_attempts
+FOR ALL
+USING (
+    quiz_id IN (
+        SELECT q.id FROM public.quizzes q
+        WHERE q.school_id IN (
+            SELECT school_id FROM public.user_profiles WHERE id = auth.uid()
+        )
+    )
+);
+
+-- Starts (or resumes) the caller's single attempt at a CBT quiz of their own school
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_id INT)
+RETURNS public.quiz_attempts AS $$
+DECLARE
+    v_attempt public.quiz_attempts;
+    v_school_id INT;
+BEGIN
+    SELECT school_id INTO v_school_id FROM public.user_profiles WHERE id = auth.uid();
+    IF v_school_id IS NULL THEN
+        SELECT school_id INTO v_school_id FROM public.student_profiles WHERE id = auth.uid();
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM public.quizzes
+        WHERE id = p_quiz_id
+        AND school_id = v_school_id
+        AND COALESCE((cbt_settings->>'enabled')::BOOLEAN, FALSE)
+    ) THEN
+        RAISE EXCEPTION 'Test not found';
+    END IF;
+
+    SELECT * INTO v_attempt FROM public.quiz_attempts WHERE quiz_id = p_quiz_id AND user_id = auth.uid();
+    IF FOUND THEN
+        RETURN v_attempt;
+    END IF;
+
+    INSERT INTO public.quiz_attempts (quiz_id, user_id, student_id, max_score)
+    VALUES (
+        p_quiz_id,
+        auth.uid(),
+        (SELECT student_record_id FROM public.student_profiles WHERE id = auth.uid()),
+        (
+            SELECT COALESCE(SUM(COALESCE(k.marks, 1)), 0)
+            FROM public.quiz_questions q
+            LEFT JOIN public.quiz_answer_keys k ON k.quiz_id = q.quiz_id AND k.position = q.position
+            WHERE q.quiz_id = p_quiz_id
+        )
+    )
+    RETURNING * INTO v_attempt;
+    RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Saves the caller's answers so far. Saves after the time limit are ignored.
+CREATE OR REPLACE FUNCTION public.save_quiz_attempt_answers(p_attempt_id INT, p_answers JSONB)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.quiz_attempts a
+    SET saved_answers = COALESCE(p_answers, '[]'::jsonb)
+    FROM public.quizzes q
+    WHERE a.id = p_attempt_id
+    AND a.user_id = auth.uid()
+    AND a.status = 'in_progress'
+    AND q.id = a.quiz_id
+    AND (
+        NULLIF(q.cbt_settings->>'time_limit_minutes', '')::INT IS NULL
+        OR NULLIF(q.cbt_settings->>'time_limit_minutes', '')::INT <= 0
+        OR NOW() <= a.started_at + make_interval(mins => NULLIF(q.cbt_settings->>'time_limit_minutes', '')::INT)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Records and auto-marks a CBT submission. Multiple choice, true/false and
+-- rating answers are marked against the key; short answers wait for a marker.
+-- Past the time limit the submitted answers are ignored and the attempt is
+-- marked on the answers saved in time.
+CREATE OR REPLACE FUNCTION public.submit_quiz_attempt(p_attempt_id INT, p_answers JSONB)
+RETURNS public.quiz_attempts AS $$
+DECLARE
+    v_attempt public.quiz_attempts;
+    v_time_limit INT;
+    v_answers JSONB := p_answers;
+    answer_record JSONB;
+    v_question RECORD;
+    v_correct BOOLEAN;
+    v_auto NUMERIC := 0;
+    v_pending INT := 0;
+BEGIN
+    SELECT * INTO v_attempt FROM public.quiz_attempts WHERE id = p_attempt_id AND user_id = auth.uid() FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found';
+    END IF;
+    IF v_attempt.status <> 'in_progress' THEN
+        RAISE EXCEPTION 'This test has already been submitted';
+    END IF;
+
+    -- Two minutes of grace covers the auto-submit round trip
+    SELECT NULLIF(cbt_settings->>'time_limit_minutes', '')::INT INTO v_time_limit FROM public.quizzes WHERE id = v_attempt.quiz_id;
+    IF v_time_limit IS NOT NULL AND v_time_limit > 0
+        AND NOW() > v_attempt.started_at + make_interval(mins => v_time_limit + 2) THEN
+        v_answers := v_attempt.saved_answers;
+    END IF;
+
+    -- One answer per question: when a question is sent more than once the last entry counts
+    FOR answer_record IN
+        SELECT DISTINCT ON ((a->>'question_id')::INT) a
+        FROM jsonb_array_elements(COALESCE(v_answers, '[]'::jsonb)) WITH ORDINALITY AS t(a, ord)
+        ORDER BY (a->>'question_id')::INT, ord DESC
+    LOOP
+        SELECT q.id, q.question_type, COALESCE(k.marks, 1) AS marks, k.correct_option_index, k.correct_answer
+        INTO v_question
+        FROM public.quiz_questions q
+        LEFT JOIN public.quiz_answer_keys k ON k.quiz_id = q.quiz_id AND k.position = q.position
+        WHERE q.id = (answer_record->>'question_id')::INT AND q.quiz_id = v_attempt.quiz_id;
+
+        IF NOT FOUND THEN
+            CONTINUE;
+        END IF;
+
+        v_correct := CASE v_question.question_type
+            WHEN 'multiple_choice' THEN (answer_record->>'selected_option')::INT = v_question.correct_option_index
+            WHEN 'true_false' THEN LOWER(answer_record->>'answer_text') = LOWER(TRIM(v_question.correct_answer))
+            WHEN 'ranking' THEN (answer_record->>'ranking_value') = TRIM(v_question.correct_answer)
+            ELSE NULL
+        END;
+
+        IF v_question.question_type = 'short_answer' THEN
+            v_pending := v_pending + 1;
+        ELSIF COALESCE(v_correct, FALSE) THEN
+            v_auto := v_auto + v_question.marks;
+        END IF;
+
+        INSERT INTO public.quiz_responses (quiz_id, user_id, question_id, attempt_id, answer_text, selected_option_index, ranking_value, is_correct, awarded_marks)
+        VALUES (
+            v_attempt.quiz_id,
+            auth.uid(),
+            v_question.id,
+            v_attempt.id,
+            answer_record->>'answer_text',
+            (answer_record->>'selected_option')::INT,
+            (answer_record->>'ranking_value')::INT,
+            CASE WHEN v_question.question_type = 'short_answer' THEN NULL ELSE COALESCE(v_correct, FALSE) END,
+            CASE WHEN v_question.question_type = 'short_answer' THEN NULL
+                 WHEN COALESCE(v_correct, FALSE) THEN v_question.marks ELSE 0 END
+        );
+    END LOOP;
+
+    UPDATE public.quiz_attempts
+    SET submitted_at = NOW(),
+        auto_score = v_auto,
+        status = CASE WHEN v_pending > 0 THEN 'pending_marking' ELSE 'marked' END
+    WHERE id = v_attempt.id
+    RETURNING * INTO v_attempt;
+
+    RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.start_quiz_attempt(INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_quiz_attempt_answers(INT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_quiz_attempt(INT, JSONB) TO authenticated;
+
+COMMENT ON TABLE public.quiz_answer_keys IS 'CBT answer keys and marks per question position, hidden from students';
+COMMENT ON TABLE public.quiz_attempts IS 'One timed CBT attempt per user with auto and manual marks';
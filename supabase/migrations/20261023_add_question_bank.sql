@@ -0,0 +1,159 @@
+-- ============================================
+-- School-wide Question Bank
+-- ============================================
+-- Reusable questions tagged by subject, level, topic and difficulty. MCQs and
+-- theory questions from approved lesson plan sessions are harvested in
+-- automatically; teachers can also add items by hand. Quiz questions drawn
+-- from the bank keep a link back so usage statistics can be reported.
+
+CREATE TABLE IF NOT EXISTS public.question_bank_items (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    subject_name TEXT NOT NULL,
+    level TEXT,
+    topic TEXT,
+    difficulty TEXT NOT NULL DEFAULT 'medium' CHECK (difficulty IN ('easy', 'medium', 'hard')),
+    question_type TEXT NOT NULL CHECK (question_type IN ('multiple_choice', 'theory')),
+    question_text TEXT NOT NULL,
+    options JSONB,
+    answer TEXT,
+    marks NUMERIC(6,2) NOT NULL DEFAULT 1,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    source_lesson_plan_id INTEGER REFERENCES public.lesson_plans(id) ON DELETE SET NULL,
+    source_key TEXT, -- "<session index>:mcq:<n>" or "<session index>:theory:<n>" for harvested items
+    created_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_harvested_question UNIQUE (source_lesson_plan_id, source_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_bank_lookup ON public.question_bank_items(school_id, subject_name, level);
+
+ALTER TABLE public.quiz_questions ADD COLUMN IF NOT EXISTS bank_item_id INTEGER REFERENCES public.question_bank_items(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_bank_item ON public.quiz_questions(bank_item_id);
+
+ALTER TABLE public.question_bank_items ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Staff can use the question bank for their school
+DROP POLICY IF EXISTS "Staff can manage question bank" ON public.question_bank_items;
+CREATE POLICY "Staff can manage question bank" ON public.question_bank_items
+FOR ALL
+USING (
+    school_id IN (
+        SELECT school_id FROM public.user_profiles WHERE id = auth.uid()
+    )
+);
+
+-- Copies a lesson plan's session MCQs and theory questions into the bank.
+-- Subject and level fall back to the plan's teaching assignment when unset.
+CREATE OR REPLACE FUNCTION public.harvest_lesson_plan_questions(p_lesson_plan_id INT)
+RETURNS INT AS $$
+DECLARE
+    v_plan RECORD;
+    v_session JSONB;
+    v_session_index INT := 0;
+    v_item JSONB;
+    v_item_index INT;
+    v_count INT := 0;
+    v_inserted INT;
+BEGIN
+    SELECT lp.id, lp.school_id, lp.sessions, lp.author_id,
+           COALESCE(NULLIF(lp.subject, ''), ta.subject_name) AS subject_name,
+           COALESCE(NULLIF(lp.grade_level, ''), ac.level) AS level
+    INTO v_plan
+    FROM public.lesson_plans lp
+    LEFT JOIN public.teaching_assignments ta ON ta.id = lp.teaching_entity_id
+    LEFT JOIN public.academic_classes ac ON ac.id = ta.academic_class_id
+    WHERE lp.id = p_lesson_plan_id;
+
+    IF NOT FOUND OR v_plan.sessions IS NULL OR v_plan.subject_name IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    FOR v_session IN SELECT * FROM jsonb_array_elements(v_plan.sessions)
+    LOOP
+        v_item_index := 0;
+        FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(v_session->'mcqs', '[]'::jsonb))
+        LOOP
+            IF COALESCE(v_item->>'question', '') <> '' THEN
+                INSERT INTO public.question_bank_items (school_id, subject_name, level, topic, question_type, question_text, options, answer, source_lesson_plan_id, source_key, created_by)
+                VALUES (v_plan.school_id, v_plan.subject_name, v_plan.level, v_session->>'title', 'multiple_choice',
+                        v_item->>'question', v_item->'options', v_item->>'answer', v_plan.id,
+                        v_session_index || ':mcq:' || v_item_index, v_plan.author_id)
+                ON CONFLICT (source_lesson_plan_id, source_key) DO NOTHING;
+                GET DIAGNOSTICS v_inserted = ROW_COUNT;
+                v_count := v_count + v_inserted;
+            END IF;
+            v_item_index := v_item_index + 1;
+        END LOOP;
+
+        v_item_index := 0;
+        FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(v_session->'theory_questions', '[]'::jsonb))
+        LOOP
+            IF COALESCE(v_item->>'question', '') <> '' THEN
+                INSERT INTO public.question_bank_items (school_id, subject_name, level, topic, question_type, question_text, answer, marks, source_lesson_plan_id, source_key, created_by)
+                VALUES (v_plan.school_id, v_plan.subject_name, v_plan.level, v_session->>'title', 'theory',
+                        v_item->>'question', v_item->>'answer', 5, v_plan.id,
+                        v_session_index || ':theory:' || v_item_index, v_plan.author_id)
+                ON CONFLICT (source_lesson_plan_id, source_key) DO NOTHING;
+                GET DIAGNOSTICS v_inserted = ROW_COUNT;
+                v_count := v_count + v_inserted;
+            END IF;
+            v_item_index := v_item_index + 1;
+        END LOOP;
+
+        v_session_index := v_session_index + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs from the approval trigger only; it bypasses RLS, so API users cannot call it
+REVOKE ALL ON FUNCTION public.harvest_lesson_plan_questions(INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.harvest_lesson_plan_questions(INT) TO service_role;
+
+-- Harvest whenever a plan becomes approved (or is published straight away)
+CREATE OR REPLACE FUNCTION public.harvest_approved_lesson_plan()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IN ('approved', 'published') AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status) THEN
+        PERFORM public.harvest_lesson_plan_questions(NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_lesson_plan_approved_harvest ON public.lesson_plans;
+CREATE TRIGGER on_lesson_plan_approved_harvest
+    AFTER INSERT OR UPDATE OF status ON public.lesson_plans
+    FOR EACH ROW EXECUTE FUNCTION public.harvest_approved_lesson_plan();
+
+-- Backfill plans that were approved before the bank existed
+SELECT public.harvest_lesson_plan_questions(id)
+FROM public.lesson_plans
+WHERE status IN ('approved', 'published') AND sessions IS NOT NULL;
+
+-- How often each bank item has been answered, and answered wrongly, in quizzes
+CREATE OR REPLACE FUNCTION public.get_question_bank_usage(p_school_id INT)
+RETURNS TABLE (
+    bank_item_id INT,
+    quiz_count BIGINT,
+    response_count BIGINT,
+    incorrect_count BIGINT
+) AS $$
+    SELECT
+        qq.bank_item_id,
+        COUNT(DISTINCT qq.quiz_id) AS quiz_count,
+        COUNT(r.id) FILTER (WHERE r.is_correct IS NOT NULL) AS response_count,
+        COUNT(r.id) FILTER (WHERE r.is_correct = FALSE) AS incorrect_count
+    FROM public.quiz_questions qq
+    JOIN public.question_bank_items b ON b.id = qq.bank_item_id
+    LEFT JOIN public.quiz_responses r ON r.question_id = qq.id
+    WHERE b.school_id = p_school_id
+    GROUP BY qq.bank_item_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.get_question_bank_usage(INT) TO authenticated;
+
+COMMENT ON TABLE public.question_bank_items IS 'Reusable questions tagged by subject, level, topic and difficulty, harvested from approved lesson plans or added by teachers';
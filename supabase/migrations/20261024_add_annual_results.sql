@@ -0,0 +1,250 @@
+-- ============================================
+-- Annual (Cumulative) Results and Promotion
+-- ============================================
+-- Persists each student's weighted session average, per-subject annual grades
+-- and positions, and a promote / probation / repeat recommendation derived from
+-- school_config.promotion_rules. Principals review and approve the list before
+-- the session rollover uses it to place students in next session's classes.
+
+-- Promotion rules, e.g.
+-- {"min_average": 45, "subject_pass_mark": 40, "compulsory_subjects": ["English Language", "Mathematics"],
+--  "max_carry_over": 2, "probation_margin": 5, "next_levels": {"JSS 3": "SS 1"}}
+ALTER TABLE public.school_config ADD COLUMN IF NOT EXISTS promotion_rules JSONB
+    DEFAULT '{"min_average": 45, "subject_pass_mark": 40, "compulsory_subjects": ["English Language", "Mathematics"], "max_carry_over": 2, "probation_margin": 5}';
+
+CREATE TABLE IF NOT EXISTS public.annual_results (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    session_label TEXT NOT NULL,
+    student_id INTEGER NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+    academic_class_id INTEGER REFERENCES public.academic_classes(id) ON DELETE SET NULL, -- class in the last term of the session
+    weighted_average NUMERIC(6,2) NOT NULL DEFAULT 0,
+    subject_count INTEGER NOT NULL DEFAULT 0,
+    subjects_failed INTEGER NOT NULL DEFAULT 0,
+    carry_over_subjects TEXT[] NOT NULL DEFAULT '{}',
+    class_position INTEGER,
+    class_size INTEGER,
+    level_position INTEGER,
+    level_size INTEGER,
+    recommendation TEXT NOT NULL CHECK (recommendation IN ('promote', 'probation', 'repeat')),
+    recommendation_reason TEXT,
+    final_decision TEXT CHECK (final_decision IN ('promote', 'probation', 'repeat')), -- principal override
+    decision_note TEXT,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved')),
+    approved_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    approved_at TIMESTAMPTZ,
+    rolled_over_at TIMESTAMPTZ,
+    computed_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_annual_result UNIQUE (school_id, session_label, student_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.annual_result_subjects (
+    id SERIAL PRIMARY KEY,
+    annual_result_id INTEGER NOT NULL REFERENCES public.annual_results(id) ON DELETE CASCADE,
+    subject_name TEXT NOT NULL,
+    term1_score NUMERIC(6,2),
+    term2_score NUMERIC(6,2),
+    term3_score NUMERIC(6,2),
+    annual_score NUMERIC(6,2) NOT NULL,
+    grade_label TEXT,
+    remark TEXT,
+    subject_position INTEGER,
+    passed BOOLEAN NOT NULL DEFAULT TRUE,
+    CONSTRAINT unique_annual_result_subject UNIQUE (annual_result_id, subject_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_annual_results_session ON public.annual_results(school_id, session_label);
+
+ALTER TABLE public.annual_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.annual_result_subjects ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Staff can view annual results for their school
+DROP POLICY IF EXISTS "Staff can view annual results" ON public.annual_results;
+CREATE POLICY "Staff can view annual results" ON public.annual_results
+FOR SELECT
+USING (
+    school_id IN (
+        SELECT school_id FROM public.user_profiles WHERE id = auth.uid()
+    )
+);
+
+-- Policy: Principals and admins review and approve promotion decisions
+DROP POLICY IF EXISTS "Admins can manage annual results" ON public.annual_results;
+CREATE POLICY "Admins can manage annual results" ON public.annual_results
+FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid()
+        AND school_id = annual_results.school_id
+        AND role IN ('Admin', 'Principal', 'Team Lead')
+    )
+);
+
+DROP POLICY IF EXISTS "Staff can view annual result subjects" ON public.annual_result_subjects;
+CREATE POLICY "Staff can view annual result subjects" ON public.annual_result_subjects
+FOR SELECT
+USING (
+    annual_result_id IN (
+        SELECT id FROM public.annual_results
+        WHERE school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+    )
+);
+
+-- Computes (or recomputes) the draft annual results for one session.
+-- Terms are ordered by start date; a subject missing a term is averaged over the
+-- weights of the terms it does have, so mid-session admissions are not penalised.
+CREATE OR REPLACE FUNCTION public.compute_annual_results(p_school_id INT, p_session_label TEXT)
+RETURNS INT AS $$
+DECLARE
+    v_weights JSONB;
+    v_rules JSONB;
+    v_grading_scheme_id INT;
+    v_w1 NUMERIC;
+    v_w2 NUMERIC;
+    v_w3 NUMERIC;
+    v_min_average NUMERIC;
+    v_pass_mark NUMERIC;
+    v_max_carry INT;
+    v_margin NUMERIC;
+    v_compulsory TEXT[];
+    v_count INT;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = p_school_id
+        AND role IN ('Admin', 'Principal', 'Team Lead')
+    ) THEN
+        RAISE EXCEPTION 'Only administrators can compute annual results';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.annual_results
+        WHERE school_id = p_school_id AND session_label = p_session_label AND status = 'approved'
+    ) THEN
+        RAISE EXCEPTION 'Annual results for % have already been approved', p_session_label;
+    END IF;
+
+    SELECT COALESCE(term_weights, '{"term1": 10, "term2": 10, "term3": 80}'::jsonb),
+           COALESCE(promotion_rules, '{}'::jsonb),
+           active_grading_scheme_id
+    INTO v_weights, v_rules, v_grading_scheme_id
+    FROM public.school_config WHERE school_id = p_school_id;
+
+    v_w1 := COALESCE((v_weights->>'term1')::NUMERIC, 0);
+    v_w2 := COALESCE((v_weights->>'term2')::NUMERIC, 0);
+    v_w3 := COALESCE((v_weights->>'term3')::NUMERIC, 0);
+    v_min_average := COALESCE((v_rules->>'min_average')::NUMERIC, 45);
+    v_pass_mark := COALESCE((v_rules->>'subject_pass_mark')::NUMERIC, 40);
+    v_max_carry := COALESCE((v_rules->>'max_carry_over')::INT, 2);
+    v_margin := COALESCE((v_rules->>'probation_margin')::NUMERIC, 5);
+    v_compulsory := ARRAY(SELECT lower(trim(value)) FROM jsonb_array_elements_text(COALESCE(v_rules->'compulsory_subjects', '[]'::jsonb)));
+
+    DELETE FROM public.annual_results WHERE school_id = p_school_id AND session_label = p_session_label;
+
+    DROP TABLE IF EXISTS tmp_annual_subjects;
+    CREATE TEMP TABLE tmp_annual_subjects ON COMMIT DROP AS
+    WITH session_terms AS (
+        SELECT id, ROW_NUMBER() OVER (ORDER BY start_date, id) AS term_no
+        FROM public.terms
+        WHERE school_id = p_school_id AND session_label = p_session_label
+    ),
+    final_class AS (
+        SELECT DISTINCT ON (acs.student_id) acs.student_id, acs.academic_class_id, ac.level, ac.grading_scheme_id
+        FROM public.academic_class_students acs
+        JOIN session_terms st ON st.id = acs.enrolled_term_id
+        JOIN public.academic_classes ac ON ac.id = acs.academic_class_id
+        JOIN public.students s ON s.id = acs.student_id
+        WHERE COALESCE(s.status, 'Active') NOT IN ('Withdrawn', 'Graduated', 'Expelled', 'Inactive')
+        ORDER BY acs.student_id, st.term_no DESC
+    ),
+    term_scores AS (
+        SELECT se.student_id, se.subject_name,
+               MAX(se.total_score) FILTER (WHERE st.term_no = 1) AS t1,
+               MAX(se.total_score) FILTER (WHERE st.term_no = 2) AS t2,
+               MAX(se.total_score) FILTER (WHERE st.term_no = 3) AS t3
+        FROM public.score_entries se
+        JOIN session_terms st ON st.id = se.term_id
+        WHERE se.subject_name IS NOT NULL
+        GROUP BY se.student_id, se.subject_name
+    )
+    SELECT fc.student_id, fc.academic_class_id, fc.level,
+           COALESCE(fc.grading_scheme_id, v_grading_scheme_id) AS grading_scheme_id,
+           ts.subject_name, ts.t1, ts.t2, ts.t3,
+           ROUND(
+               (COALESCE(ts.t1 * v_w1, 0) + COALESCE(ts.t2 * v_w2, 0) + COALESCE(ts.t3 * v_w3, 0))
+               / NULLIF(
+                   (CASE WHEN ts.t1 IS NOT NULL THEN v_w1 ELSE 0 END)
+                 + (CASE WHEN ts.t2 IS NOT NULL THEN v_w2 ELSE 0 END)
+                 + (CASE WHEN ts.t3 IS NOT NULL THEN v_w3 ELSE 0 END), 0),
+           2) AS annual_score
+    FROM final_class fc
+    JOIN term_scores ts ON ts.student_id = fc.student_id;
+
+    DELETE FROM tmp_annual_subjects WHERE annual_score IS NULL;
+
+    WITH per_student AS (
+        SELECT student_id, academic_class_id, level,
+               ROUND(AVG(annual_score), 2) AS weighted_average,
+               COUNT(*) AS subject_count,
+               COUNT(*) FILTER (WHERE annual_score < v_pass_mark) AS subjects_failed,
+               COUNT(*) FILTER (WHERE annual_score < v_pass_mark AND lower(trim(subject_name)) = ANY(v_compulsory)) AS compulsory_failed,
+               COALESCE(ARRAY_AGG(subject_name ORDER BY subject_name) FILTER (WHERE annual_score < v_pass_mark), '{}') AS failed_subjects
+        FROM tmp_annual_subjects
+        GROUP BY student_id, academic_class_id, level
+    ),
+    ranked AS (
+        SELECT ps.*,
+               RANK() OVER (PARTITION BY academic_class_id ORDER BY weighted_average DESC) AS class_position,
+               COUNT(*) OVER (PARTITION BY academic_class_id) AS class_size,
+               RANK() OVER (PARTITION BY level ORDER BY weighted_average DESC) AS level_position,
+               COUNT(*) OVER (PARTITION BY level) AS level_size,
+               CASE
+                   WHEN weighted_average >= v_min_average AND compulsory_failed = 0 AND subjects_failed <= v_max_carry THEN 'promote'
+                   WHEN weighted_average >= v_min_average - v_margin AND compulsory_failed <= 1 AND subjects_failed <= v_max_carry + 1 THEN 'probation'
+                   ELSE 'repeat'
+               END AS recommendation
+        FROM per_student ps
+    )
+    INSERT INTO public.annual_results (
+        school_id, session_label, student_id, academic_class_id, weighted_average, subject_count, subjects_failed,
+        carry_over_subjects, class_position, class_size, level_position, level_size, recommendation, recommendation_reason
+    )
+    SELECT p_school_id, p_session_label, r.student_id, r.academic_class_id, r.weighted_average, r.subject_count, r.subjects_failed,
+           -- Students moving up carry their failed subjects into the next session; repeaters retake everything
+           CASE WHEN r.recommendation = 'repeat' THEN '{}' ELSE r.failed_subjects END,
+           r.class_position, r.class_size, r.level_position, r.level_size, r.recommendation,
+           CASE
+               WHEN r.recommendation = 'promote' AND r.subjects_failed > 0 THEN 'Met promotion rules with carry-over subjects'
+               WHEN r.recommendation = 'promote' THEN 'Met promotion rules'
+               ELSE concat_ws('; ',
+                   CASE WHEN r.weighted_average < v_min_average THEN 'Average ' || r.weighted_average || ' below ' || v_min_average END,
+                   CASE WHEN r.compulsory_failed > 0 THEN 'Failed ' || r.compulsory_failed || ' compulsory subject(s)' END,
+                   CASE WHEN r.subjects_failed > v_max_carry THEN r.subjects_failed || ' failed subjects exceeds carry-over limit of ' || v_max_carry END)
+           END
+    FROM ranked r;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    INSERT INTO public.annual_result_subjects (
+        annual_result_id, subject_name, term1_score, term2_score, term3_score, annual_score, grade_label, remark, subject_position, passed
+    )
+    SELECT ar.id, t.subject_name, t.t1, t.t2, t.t3, t.annual_score,
+           g.grade->>'grade_label', g.grade->>'remark',
+           RANK() OVER (PARTITION BY t.level, t.subject_name ORDER BY t.annual_score DESC),
+           t.annual_score >= v_pass_mark
+    FROM tmp_annual_subjects t
+    JOIN public.annual_results ar
+      ON ar.school_id = p_school_id AND ar.session_label = p_session_label AND ar.student_id = t.student_id
+    LEFT JOIN LATERAL (
+        SELECT public.compute_grade(t.annual_score, t.grading_scheme_id, t.subject_name) AS grade
+    ) g ON t.grading_scheme_id IS NOT NULL;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.compute_annual_results(INT, TEXT) TO authenticated;
+
+COMMENT ON TABLE public.annual_results IS 'Per-student weighted session average, positions and promotion decision, reviewed and approved by principals before rollover';
+COMMENT ON TABLE public.annual_result_subjects IS 'Per-subject annual (cumulative) scores, grades and positions behind each annual result';
@@ -0,0 +1,323 @@
+-- ============================================
+-- Session Rollover Journal and Undo
+-- ============================================
+-- The rollover wizard builds a plan in the browser (shown to the user as a dry
+-- run) and applies it here in a single transaction. Everything the rollover
+-- changes is recorded in the journal so the whole rollover can be undone until
+-- scores are entered in the new term.
+
+CREATE TABLE IF NOT EXISTS public.session_rollovers (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    source_term_id INTEGER REFERENCES public.terms(id) ON DELETE SET NULL,
+    target_term_id INTEGER REFERENCES public.terms(id) ON DELETE SET NULL,
+    plan JSONB NOT NULL,
+    journal JSONB NOT NULL DEFAULT '{}',
+    summary JSONB NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'undone')),
+    applied_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    applied_at TIMESTAMPTZ DEFAULT NOW(),
+    undone_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_rollovers_school ON public.session_rollovers(school_id, applied_at DESC);
+
+ALTER TABLE public.session_rollovers ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins can view rollover history; changes only go through the RPCs below
+DROP POLICY IF EXISTS "Admins can view session rollovers" ON public.session_rollovers;
+CREATE POLICY "Admins can view session rollovers" ON public.session_rollovers
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid()
+        AND school_id = session_rollovers.school_id
+        AND role IN ('Admin', 'Principal', 'Team Lead')
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.apply_session_rollover(
+    p_school_id INT,
+    p_source_term_id INT,
+    p_target_term_id INT,
+    p_plan JSONB
+)
+RETURNS INT AS $$
+DECLARE
+    v_target_session TEXT;
+    v_source_session TEXT;
+    v_item JSONB;
+    v_class_id INT;
+    v_new_id INT;
+    v_key_map JSONB := '{}'::jsonb;
+    v_created_classes INT[] := '{}';
+    v_created_assignments INT[] := '{}';
+    v_created_enrollments INT[] := '{}';
+    v_created_subject_enrollments INT[] := '{}';
+    v_removed_enrollments JSONB := '[]'::jsonb;
+    v_students JSONB := '[]'::jsonb;
+    v_annual_results INT[] := '{}';
+    v_rollover_id INT;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = p_school_id
+        AND role IN ('Admin', 'Principal', 'Team Lead')
+    ) THEN
+        RAISE EXCEPTION 'Only administrators can roll over a session';
+    END IF;
+
+    SELECT session_label INTO v_source_session FROM public.terms WHERE id = p_source_term_id AND school_id = p_school_id;
+    SELECT session_label INTO v_target_session FROM public.terms WHERE id = p_target_term_id AND school_id = p_school_id;
+    IF v_source_session IS NULL OR v_target_session IS NULL THEN
+        RAISE EXCEPTION 'Source or target term not found';
+    END IF;
+
+    -- Moving students re-runs the enrollment sync for every active term, which would
+    -- rewrite the finished session's enrollments if its terms were still active
+    IF v_source_session <> v_target_session AND EXISTS (
+        SELECT 1 FROM public.terms
+        WHERE school_id = p_school_id AND session_label = v_source_session AND is_active = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Deactivate the % terms before rolling over to a new session', v_source_session;
+    END IF;
+
+    -- 1. Classes for the target session
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_plan->'classes', '[]'::jsonb))
+    LOOP
+        SELECT id INTO v_class_id FROM public.academic_classes
+        WHERE school_id = p_school_id AND session_label = v_target_session
+          AND level = v_item->>'level' AND arm = v_item->>'arm'
+        ORDER BY id LIMIT 1;
+
+        IF v_class_id IS NULL THEN
+            INSERT INTO public.academic_classes (
+                school_id, name, level, arm, session_label, is_active,
+                assessment_structure_id, grading_scheme_id, report_config, campus_id, min_subjects, max_subjects
+            )
+            VALUES (
+                p_school_id, v_item->>'name', v_item->>'level', v_item->>'arm', v_target_session, TRUE,
+                (v_item->>'assessment_structure_id')::INT, (v_item->>'grading_scheme_id')::INT,
+                v_item->'report_config', (v_item->>'campus_id')::INT,
+                (v_item->>'min_subjects')::INT, (v_item->>'max_subjects')::INT
+            )
+            RETURNING id INTO v_class_id;
+            v_created_classes := v_created_classes || v_class_id;
+        END IF;
+        v_key_map := v_key_map || jsonb_build_object(v_item->>'key', v_class_id);
+    END LOOP;
+
+    -- Keys not created above resolve to classes that already exist in the target session
+    FOR v_item IN
+        SELECT DISTINCT value FROM (
+            SELECT jsonb_array_elements(COALESCE(p_plan->'assignments', '[]'::jsonb))->'target_key' AS value
+            UNION ALL
+            SELECT jsonb_array_elements(COALESCE(p_plan->'student_moves', '[]'::jsonb))->'target_key'
+        ) keys
+    LOOP
+        IF NOT v_key_map ? (v_item #>> '{}') THEN
+            SELECT id INTO v_class_id FROM public.academic_classes
+            WHERE school_id = p_school_id AND session_label = v_target_session
+              AND level || '|' || arm = v_item #>> '{}'
+            ORDER BY id LIMIT 1;
+            IF v_class_id IS NULL THEN
+                RAISE EXCEPTION 'No class found in % for %', v_target_session, v_item #>> '{}';
+            END IF;
+            v_key_map := v_key_map || jsonb_build_object(v_item #>> '{}', v_class_id);
+        END IF;
+    END LOOP;
+
+    -- 2. Teaching assignments
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_plan->'assignments', '[]'::jsonb))
+    LOOP
+        v_class_id := (v_key_map->>(v_item->>'target_key'))::INT;
+        IF NOT EXISTS (
+            SELECT 1 FROM public.teaching_assignments
+            WHERE term_id = p_target_term_id AND academic_class_id = v_class_id AND subject_name = v_item->>'subject_name'
+        ) THEN
+            INSERT INTO public.teaching_assignments (
+                school_id, term_id, academic_class_id, subject_name, subject_group, teacher_user_id, max_ca_score, max_exam_score, is_locked
+            )
+            VALUES (
+                p_school_id, p_target_term_id, v_class_id, v_item->>'subject_name', v_item->>'subject_group',
+                (v_item->>'teacher_user_id')::UUID, (v_item->>'max_ca_score')::NUMERIC, (v_item->>'max_exam_score')::NUMERIC, FALSE
+            )
+            RETURNING id INTO v_new_id;
+            v_created_assignments := v_created_assignments || v_new_id;
+        END IF;
+    END LOOP;
+
+    -- 3. Student moves. students.class_id is updated first so the enrollment sync it
+    -- triggers is then replaced by a manual enrollment in the planned class.
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_plan->'student_moves', '[]'::jsonb))
+    LOOP
+        v_class_id := (v_key_map->>(v_item->>'target_key'))::INT;
+
+        v_students := v_students || (
+            SELECT jsonb_build_object('id', s.id, 'class_id', s.class_id, 'arm_id', s.arm_id, 'status', s.status)
+            FROM public.students s WHERE s.id = (v_item->>'student_id')::INT
+        );
+
+        IF v_item->>'level_id' IS NOT NULL THEN
+            UPDATE public.students SET class_id = (v_item->>'level_id')::INT
+            WHERE id = (v_item->>'student_id')::INT AND class_id IS DISTINCT FROM (v_item->>'level_id')::INT;
+        END IF;
+
+        v_removed_enrollments := v_removed_enrollments || COALESCE((
+            SELECT jsonb_agg(to_jsonb(acs.*)) FROM public.academic_class_students acs
+            WHERE acs.student_id = (v_item->>'student_id')::INT AND acs.enrolled_term_id = p_target_term_id
+        ), '[]'::jsonb);
+        DELETE FROM public.academic_class_students
+        WHERE student_id = (v_item->>'student_id')::INT AND enrolled_term_id = p_target_term_id;
+
+        INSERT INTO public.academic_class_students (academic_class_id, student_id, enrolled_term_id, manually_enrolled)
+        VALUES (v_class_id, (v_item->>'student_id')::INT, p_target_term_id, TRUE)
+        RETURNING id INTO v_new_id;
+        v_created_enrollments := v_created_enrollments || v_new_id;
+
+        IF v_item->>'annual_result_id' IS NOT NULL THEN
+            v_annual_results := v_annual_results || (v_item->>'annual_result_id')::INT;
+        END IF;
+    END LOOP;
+
+    -- 4. Final-year students are archived as graduated
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_plan->'graduations', '[]'::jsonb))
+    LOOP
+        v_students := v_students || (
+            SELECT jsonb_build_object('id', s.id, 'class_id', s.class_id, 'arm_id', s.arm_id, 'status', s.status)
+            FROM public.students s WHERE s.id = (v_item #>> '{}')::INT
+        );
+        UPDATE public.students SET status = 'Graduated' WHERE id = (v_item #>> '{}')::INT;
+    END LOOP;
+
+    -- 5. Subject choices carried forward
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_plan->'subject_enrollments', '[]'::jsonb))
+    LOOP
+        INSERT INTO public.student_subject_enrollments (school_id, student_id, subject_id, academic_class_id, term_id, is_enrolled)
+        VALUES (
+            p_school_id, (v_item->>'student_id')::INT, (v_item->>'subject_id')::INT,
+            (v_key_map->>(v_item->>'target_key'))::INT, p_target_term_id, TRUE
+        )
+        ON CONFLICT (student_id, subject_id, academic_class_id, term_id) DO NOTHING
+        RETURNING id INTO v_new_id;
+        IF v_new_id IS NOT NULL THEN
+            v_created_subject_enrollments := v_created_subject_enrollments || v_new_id;
+        END IF;
+        v_new_id := NULL;
+    END LOOP;
+
+    IF array_length(v_annual_results, 1) > 0 THEN
+        UPDATE public.annual_results SET rolled_over_at = NOW() WHERE id = ANY(v_annual_results);
+    END IF;
+
+    INSERT INTO public.session_rollovers (school_id, source_term_id, target_term_id, plan, journal, summary, applied_by)
+    VALUES (
+        p_school_id, p_source_term_id, p_target_term_id, p_plan,
+        jsonb_build_object(
+            'created_classes', to_jsonb(v_created_classes),
+            'created_assignments', to_jsonb(v_created_assignments),
+            'created_enrollments', to_jsonb(v_created_enrollments),
+            'removed_enrollments', v_removed_enrollments,
+            'created_subject_enrollments', to_jsonb(v_created_subject_enrollments),
+            'students', v_students,
+            'annual_results', to_jsonb(v_annual_results)
+        ),
+        jsonb_build_object(
+            'classes', COALESCE(array_length(v_created_classes, 1), 0),
+            'assignments', COALESCE(array_length(v_created_assignments, 1), 0),
+            'students_moved', COALESCE(array_length(v_created_enrollments, 1), 0),
+            'graduated', jsonb_array_length(COALESCE(p_plan->'graduations', '[]'::jsonb)),
+            'subject_enrollments', COALESCE(array_length(v_created_subject_enrollments, 1), 0)
+        ),
+        auth.uid()
+    )
+    RETURNING id INTO v_rollover_id;
+
+    RETURN v_rollover_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.apply_session_rollover(INT, INT, INT, JSONB) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.undo_session_rollover(p_rollover_id INT)
+RETURNS VOID AS $$
+DECLARE
+    v_rollover public.session_rollovers%ROWTYPE;
+    v_student JSONB;
+    v_student_ids INT[];
+BEGIN
+    SELECT * INTO v_rollover FROM public.session_rollovers WHERE id = p_rollover_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Rollover not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = v_rollover.school_id
+        AND role IN ('Admin', 'Principal', 'Team Lead')
+    ) THEN
+        RAISE EXCEPTION 'Only administrators can undo a rollover';
+    END IF;
+
+    IF v_rollover.status <> 'applied' THEN
+        RAISE EXCEPTION 'This rollover has already been undone';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.session_rollovers
+        WHERE school_id = v_rollover.school_id AND status = 'applied' AND id > p_rollover_id
+    ) THEN
+        RAISE EXCEPTION 'Undo the later rollovers first';
+    END IF;
+
+    SELECT ARRAY(SELECT (value->>'id')::INT FROM jsonb_array_elements(v_rollover.journal->'students'))
+    INTO v_student_ids;
+
+    IF EXISTS (
+        SELECT 1 FROM public.score_entries
+        WHERE term_id = v_rollover.target_term_id AND student_id = ANY(v_student_ids)
+    ) THEN
+        RAISE EXCEPTION 'Scores have already been entered for the new term, so this rollover can no longer be undone';
+    END IF;
+
+    -- Students first, so the enrollment sync they trigger is cleaned up below
+    FOR v_student IN SELECT * FROM jsonb_array_elements(v_rollover.journal->'students')
+    LOOP
+        UPDATE public.students
+        SET class_id = (v_student->>'class_id')::INT,
+            arm_id = (v_student->>'arm_id')::INT,
+            status = v_student->>'status'
+        WHERE id = (v_student->>'id')::INT;
+    END LOOP;
+
+    DELETE FROM public.student_subject_enrollments
+    WHERE id IN (SELECT value::INT FROM jsonb_array_elements_text(v_rollover.journal->'created_subject_enrollments'));
+
+    DELETE FROM public.academic_class_students
+    WHERE enrolled_term_id = v_rollover.target_term_id AND student_id = ANY(v_student_ids);
+
+    INSERT INTO public.academic_class_students (id, academic_class_id, student_id, enrolled_term_id, manually_enrolled)
+    SELECT r.id, r.academic_class_id, r.student_id, r.enrolled_term_id, COALESCE(r.manually_enrolled, FALSE)
+    FROM jsonb_populate_recordset(NULL::public.academic_class_students, v_rollover.journal->'removed_enrollments') r
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM public.teaching_assignments
+    WHERE id IN (SELECT value::INT FROM jsonb_array_elements_text(v_rollover.journal->'created_assignments'));
+
+    DELETE FROM public.academic_classes
+    WHERE id IN (SELECT value::INT FROM jsonb_array_elements_text(v_rollover.journal->'created_classes'));
+
+    UPDATE public.annual_results SET rolled_over_at = NULL
+    WHERE id IN (SELECT value::INT FROM jsonb_array_elements_text(v_rollover.journal->'annual_results'));
+
+    UPDATE public.session_rollovers
+    SET status = 'undone', undone_by = auth.uid(), undone_at = NOW()
+    WHERE id = p_rollover_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.undo_session_rollover(INT) TO authenticated;
+
+COMMENT ON TABLE public.session_rollovers IS 'Applied session rollovers with the plan and a journal of every change, used to undo a rollover';
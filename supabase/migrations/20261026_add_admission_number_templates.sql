@@ -0,0 +1,92 @@
+-- ============================================
+-- Admission Number Templates per Campus
+-- ============================================
+-- Each campus has a code and a template such as '{CAMPUS}/{YY}/{SEQ:4}'. The app renders
+-- the template; this migration only adds the columns and a counter per "scope" (the
+-- admission number with the sequence left out, e.g. 'UPSS/25/#') so that concurrent
+-- registrations never receive the same number.
+
+ALTER TABLE public.campuses ADD COLUMN IF NOT EXISTS code TEXT;
+ALTER TABLE public.campuses ADD COLUMN IF NOT EXISTS admission_number_template TEXT DEFAULT '{CAMPUS}/{YY}/{SEQ:4}';
+
+-- Keep existing numbers working: campuses named after the legacy prefixes get them as codes.
+-- Whole words only, so "Main Campus" is not taken for CAM; other campuses are coded by admins
+UPDATE public.campuses SET code = 'UPSS' WHERE code IS NULL AND name ~* '\mUPSS\M';
+UPDATE public.campuses SET code = 'CAGS' WHERE code IS NULL AND name ~* '\mCAGS\M';
+UPDATE public.campuses SET code = 'CAM' WHERE code IS NULL AND name ~* '\mCAM\M';
+
+CREATE TABLE IF NOT EXISTS public.admission_number_sequences (
+    school_id INTEGER NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    scope TEXT NOT NULL,
+    last_value INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (school_id, scope)
+);
+
+ALTER TABLE public.admission_number_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Staff can view counters; they only change through next_admission_sequence
+DROP POLICY IF EXISTS "Staff can view admission number sequences" ON public.admission_number_sequences;
+CREATE POLICY "Staff can view admission number sequences" ON public.admission_number_sequences
+FOR SELECT
+USING (
+    school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+);
+
+-- Returns the next sequence for a scope. p_floor is the highest number already issued in
+-- that scope (including numbers typed in by hand), so the counter never reuses one.
+-- The upsert takes a row lock, which serialises concurrent callers.
+CREATE OR REPLACE FUNCTION public.next_admission_sequence(
+    p_school_id INT,
+    p_scope TEXT,
+    p_floor INT DEFAULT 0
+)
+RETURNS INT AS $$
+DECLARE
+    v_next INT;
+BEGIN
+    IF auth.role() <> 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = p_school_id
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to allocate admission numbers for this school';
+    END IF;
+
+    INSERT INTO public.admission_number_sequences (school_id, scope, last_value)
+    VALUES (p_school_id, p_scope, GREATEST(COALESCE(p_floor, 0), 0) + 1)
+    ON CONFLICT (school_id, scope) DO UPDATE
+    SET last_value = GREATEST(public.admission_number_sequences.last_value, COALESCE(p_floor, 0)) + 1,
+        updated_at = NOW()
+    RETURNING last_value INTO v_next;
+
+    RETURN v_next;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.next_admission_sequence(INT, TEXT, INT) TO authenticated;
+
+-- Used by the migration script after it issues numbers. p_exact sets the counter outright
+-- (after renumbering every student); otherwise it is only ever raised.
+CREATE OR REPLACE FUNCTION public.reset_admission_sequence(
+    p_school_id INT,
+    p_scope TEXT,
+    p_value INT,
+    p_exact BOOLEAN DEFAULT FALSE
+)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Admission number sequences can only be reset by the migration script';
+    END IF;
+
+    INSERT INTO public.admission_number_sequences (school_id, scope, last_value)
+    VALUES (p_school_id, p_scope, p_value)
+    ON CONFLICT (school_id, scope) DO UPDATE
+    SET last_value = CASE WHEN p_exact THEN EXCLUDED.last_value
+                          ELSE GREATEST(public.admission_number_sequences.last_value, EXCLUDED.last_value) END,
+        updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN public.campuses.admission_number_template IS 'Admission number template with {CAMPUS}, {YYYY}, {YY}, {LEVEL} and {SEQ:n} tokens';
+COMMENT ON TABLE public.admission_number_sequences IS 'Last admission number sequence issued per school and template scope';
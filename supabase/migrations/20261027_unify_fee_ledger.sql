@@ -0,0 +1,473 @@
+-- ============================================
+-- Unified Fee Ledger
+-- ============================================
+-- Payments used to be written to two places: the legacy `payments` table (Paystack webhook,
+-- manual entry, CSV import) and the ledger tables (`student_payments`,
+-- `student_payment_allocations`, `student_adjustments`) used by the bursary round trip.
+-- From this migration on the ledger is the only place a payment is recorded:
+--   * every payment path goes through record_student_payment()
+--   * student_invoices.amount_paid and status are derived from successful allocations
+--   * historical `payments` rows are copied into the ledger once and the table becomes read-only
+--   * get_fee_reconciliation() lists students whose invoice screen and ledger balances differ
+
+-- ============================================
+-- 1. Ledger columns
+-- ============================================
+
+ALTER TABLE public.student_payments ADD COLUMN IF NOT EXISTS school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE;
+ALTER TABLE public.student_payments ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual';
+ALTER TABLE public.student_payments ADD COLUMN IF NOT EXISTS legacy_payment_id INTEGER UNIQUE;
+-- Legacy invoices carry a term but no session, and credits can arrive before any invoice exists
+ALTER TABLE public.student_payments ALTER COLUMN session_id DROP NOT NULL;
+ALTER TABLE public.student_payments ALTER COLUMN term_id DROP NOT NULL;
+
+UPDATE public.student_payments sp
+SET school_id = s.school_id
+FROM public.students s
+WHERE s.id = sp.student_id AND sp.school_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_student_payments_school ON public.student_payments(school_id, paid_at DESC);
+CREATE INDEX IF NOT EXISTS idx_student_payment_allocations_payment ON public.student_payment_allocations(payment_id);
+
+-- Balance shown on invoice screens before the ledger took over, kept for the reconciliation report
+ALTER TABLE public.student_invoices ADD COLUMN IF NOT EXISTS legacy_amount_paid NUMERIC;
+UPDATE public.student_invoices SET legacy_amount_paid = COALESCE(amount_paid, 0) WHERE legacy_amount_paid IS NULL;
+
+-- The webhook wrote 'Partial' while the app expects 'Partially Paid'
+UPDATE public.student_invoices SET status = 'Partially Paid' WHERE status = 'Partial';
+
+ALTER TABLE public.student_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_payment_allocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_adjustments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Staff see their school's ledger, students see their own payments.
+-- Writes go through record_student_payment().
+DROP POLICY IF EXISTS "Staff and students can view student payments" ON public.student_payments;
+CREATE POLICY "Staff and students can view student payments" ON public.student_payments
+FOR SELECT
+USING (
+    school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+    OR student_id IN (SELECT student_record_id FROM public.student_profiles WHERE id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Staff and students can view payment allocations" ON public.student_payment_allocations;
+CREATE POLICY "Staff and students can view payment allocations" ON public.student_payment_allocations
+FOR SELECT
+USING (
+    payment_id IN (SELECT id FROM public.student_payments)
+);
+
+DROP POLICY IF EXISTS "Staff can manage student adjustments" ON public.student_adjustments;
+CREATE POLICY "Staff can manage student adjustments" ON public.student_adjustments
+FOR ALL
+USING (
+    student_id IN (
+        SELECT s.id FROM public.students s
+        WHERE s.school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+    )
+);
+
+-- ============================================
+-- 2. One-time copy of legacy payments
+-- ============================================
+-- Payments without an invoice (DVA credits that arrived before invoicing) are traced back to
+-- the student through the logged webhook and the virtual account it was paid into.
+
+WITH legacy AS (
+    SELECT
+        p.*,
+        COALESCE(inv.student_id, dva.student_id) AS resolved_student_id,
+        inv.term_id AS invoice_term_id,
+        ROW_NUMBER() OVER (PARTITION BY NULLIF(TRIM(p.reference), '') ORDER BY p.id) AS ref_rank
+    FROM public.payments p
+    LEFT JOIN public.student_invoices inv ON inv.id = p.invoice_id
+    LEFT JOIN LATERAL (
+        SELECT d.student_id
+        FROM public.webhook_events we
+        JOIN public.dedicated_virtual_accounts d
+          ON d.account_number = we.payload->'data'->'dedicated_account'->>'account_number'
+        WHERE p.invoice_id IS NULL
+          AND we.payload->'data'->>'reference' = p.reference
+        LIMIT 1
+    ) dva ON TRUE
+)
+INSERT INTO public.student_payments (
+    school_id, student_id, term_id, payment_ref, method, amount, paid_at, status,
+    recorded_by, source, legacy_payment_id, meta, created_at
+)
+SELECT
+    l.school_id,
+    l.resolved_student_id,
+    l.invoice_term_id,
+    CASE
+        WHEN NULLIF(TRIM(l.reference), '') IS NULL OR l.ref_rank > 1
+             OR EXISTS (SELECT 1 FROM public.student_payments sp WHERE sp.payment_ref = l.reference)
+        THEN 'LEGACY-' || l.id
+        ELSE l.reference
+    END,
+    (CASE
+        WHEN l.payment_method ILIKE '%pos%' THEN 'POS'
+        WHEN l.payment_method ILIKE '%cash%' THEN 'CASH'
+        WHEN l.payment_method ILIKE '%card%' THEN 'PAYSTACK'
+        WHEN l.payment_method ILIKE '%transfer%' OR l.payment_method ILIKE '%dva%' THEN 'TRANSFER'
+        ELSE 'OFFLINE'
+    END)::public.payment_method,
+    COALESCE(l.amount, 0),
+    COALESCE(l.payment_date, l.created_at, NOW()),
+    (CASE WHEN l.verified = FALSE THEN 'PENDING' ELSE 'SUCCESS' END)::public.payment_status,
+    l.recorded_by,
+    'legacy',
+    l.id,
+    jsonb_build_object('legacy_method', l.payment_method, 'legacy_reference', l.reference),
+    COALESCE(l.created_at, NOW())
+FROM legacy l
+WHERE l.resolved_student_id IS NOT NULL
+  AND COALESCE(l.amount, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM public.student_payments sp WHERE sp.legacy_payment_id = l.id);
+
+INSERT INTO public.student_payment_allocations (payment_id, invoice_id, allocated_amount)
+SELECT sp.id, p.invoice_id, sp.amount
+FROM public.student_payments sp
+JOIN public.payments p ON p.id = sp.legacy_payment_id
+WHERE p.invoice_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.student_payment_allocations a WHERE a.payment_id = sp.id);
+
+-- Invoices whose amount_paid was typed in (CSV imports) have no payment rows behind them.
+-- An opening balance payment keeps what those invoices show today.
+WITH ledger_paid AS (
+    SELECT a.invoice_id, SUM(a.allocated_amount) AS paid
+    FROM public.student_payment_allocations a
+    JOIN public.student_payments sp ON sp.id = a.payment_id AND sp.status = 'SUCCESS'
+    GROUP BY a.invoice_id
+),
+gaps AS (
+    SELECT inv.id AS invoice_id, inv.school_id, inv.student_id, inv.term_id,
+           inv.legacy_amount_paid - COALESCE(lp.paid, 0) AS gap
+    FROM public.student_invoices inv
+    LEFT JOIN ledger_paid lp ON lp.invoice_id = inv.id
+    WHERE inv.legacy_amount_paid - COALESCE(lp.paid, 0) > 0.005
+),
+opening AS (
+    INSERT INTO public.student_payments (school_id, student_id, term_id, payment_ref, method, amount, status, source, meta)
+    SELECT g.school_id, g.student_id, g.term_id, 'LEGACY-OPENING-' || g.invoice_id, 'OFFLINE', g.gap, 'SUCCESS', 'legacy',
+           jsonb_build_object('note', 'Opening balance for amount_paid recorded without a payment', 'invoice_id', g.invoice_id)
+    FROM gaps g
+    ON CONFLICT (payment_ref) DO NOTHING
+    RETURNING id, amount, (meta->>'invoice_id')::INT AS invoice_id
+)
+INSERT INTO public.student_payment_allocations (payment_id, invoice_id, allocated_amount)
+SELECT id, invoice_id, amount FROM opening;
+
+-- ============================================
+-- 3. Invoice totals derived from the ledger
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.derive_invoice_payment_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_paid NUMERIC;
+BEGIN
+    SELECT COALESCE(SUM(a.allocated_amount), 0) INTO v_paid
+    FROM public.student_payment_allocations a
+    JOIN public.student_payments p ON p.id = a.payment_id
+    WHERE a.invoice_id = NEW.id AND p.status = 'SUCCESS';
+
+    NEW.amount_paid := v_paid;
+
+    IF NEW.status = 'Void' THEN
+        RETURN NEW;
+    END IF;
+
+    IF v_paid >= COALESCE(NEW.total_amount, 0) AND COALESCE(NEW.total_amount, 0) > 0 THEN
+        NEW.status := 'Paid';
+    ELSIF v_paid > 0 THEN
+        NEW.status := 'Partially Paid';
+    ELSIF NEW.status IS DISTINCT FROM 'Overdue' THEN
+        NEW.status := 'Unpaid';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_derive_invoice_payment_status ON public.student_invoices;
+CREATE TRIGGER trg_derive_invoice_payment_status
+BEFORE INSERT OR UPDATE ON public.student_invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.derive_invoice_payment_status();
+
+-- Re-saving an invoice re-runs the derivation above
+CREATE OR REPLACE FUNCTION public.touch_allocated_invoices()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'student_payments' THEN
+        UPDATE public.student_invoices SET amount_paid = amount_paid
+        WHERE id IN (SELECT invoice_id FROM public.student_payment_allocations WHERE payment_id = NEW.id);
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        UPDATE public.student_invoices SET amount_paid = amount_paid WHERE id = OLD.invoice_id;
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        UPDATE public.student_invoices SET amount_paid = amount_paid WHERE id = NEW.invoice_id;
+        RETURN NEW;
+    END IF;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_allocation_touch_invoice ON public.student_payment_allocations;
+CREATE TRIGGER trg_allocation_touch_invoice
+AFTER INSERT OR UPDATE OR DELETE ON public.student_payment_allocations
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_allocated_invoices();
+
+DROP TRIGGER IF EXISTS trg_payment_status_touch_invoice ON public.student_payments;
+CREATE TRIGGER trg_payment_status_touch_invoice
+AFTER UPDATE OF status ON public.student_payments
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_allocated_invoices();
+
+UPDATE public.student_invoices SET amount_paid = amount_paid;
+
+-- The legacy table stays as an archive only. Changes cascaded from a deleted school or
+-- invoice (which arrive through the foreign key triggers) still go through.
+CREATE OR REPLACE FUNCTION public.block_legacy_payment_writes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF pg_trigger_depth() > 1 THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+    RAISE EXCEPTION 'The payments table is read-only. Record payments with record_student_payment().';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_block_legacy_payment_writes ON public.payments;
+CREATE TRIGGER trg_block_legacy_payment_writes
+BEFORE INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.block_legacy_payment_writes();
+
+-- ============================================
+-- 4. Recording payments
+-- ============================================
+-- Used by the Paystack webhook (service role) and by bursary staff. Idempotent on the
+-- reference so webhook retries and double clicks never count a payment twice.
+-- The amount goes to p_invoice_id first (when given), then to the student's other open
+-- invoices oldest first; anything left over stays on the payment as credit.
+
+CREATE OR REPLACE FUNCTION public.record_student_payment(
+    p_school_id INT,
+    p_student_id INT,
+    p_amount NUMERIC,
+    p_method TEXT,
+    p_reference TEXT DEFAULT NULL,
+    p_source TEXT DEFAULT 'manual',
+    p_paid_at TIMESTAMPTZ DEFAULT NOW(),
+    p_invoice_id INT DEFAULT NULL,
+    p_meta JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_ref TEXT := NULLIF(TRIM(p_reference), '');
+    v_existing RECORD;
+    v_payment_id BIGINT;
+    v_term_id INT;
+    v_remaining NUMERIC := p_amount;
+    v_share NUMERIC;
+    v_invoice RECORD;
+    v_allocations JSONB := '[]'::jsonb;
+    v_balance NUMERIC;
+BEGIN
+    -- The ledger is the record of what was paid, so only bursary staff post to it
+    IF auth.role() <> 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = p_school_id
+        AND role IN ('Admin', 'Principal', 'School Owner', 'Accountant')
+    ) THEN
+        RAISE EXCEPTION 'Only bursary staff can record payments for this school';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Payment amount must be greater than zero';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.students WHERE id = p_student_id AND school_id = p_school_id) THEN
+        RAISE EXCEPTION 'Student % does not belong to this school', p_student_id;
+    END IF;
+
+    IF v_ref IS NOT NULL THEN
+        SELECT id, receipt_no INTO v_existing FROM public.student_payments WHERE payment_ref = v_ref;
+        IF FOUND THEN
+            RETURN jsonb_build_object('payment_id', v_existing.id, 'payment_ref', v_ref,
+                                      'receipt_no', v_existing.receipt_no, 'duplicate', TRUE);
+        END IF;
+    ELSE
+        v_ref := 'PAY-' || p_student_id || '-' || REPLACE(gen_random_uuid()::TEXT, '-', '');
+    END IF;
+
+    IF p_invoice_id IS NOT NULL THEN
+        SELECT term_id INTO v_term_id FROM public.student_invoices
+        WHERE id = p_invoice_id AND student_id = p_student_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Invoice % does not belong to student %', p_invoice_id, p_student_id;
+        END IF;
+    ELSE
+        SELECT current_term_id INTO v_term_id FROM public.school_config WHERE school_id = p_school_id;
+    END IF;
+
+    INSERT INTO public.student_payments (
+        school_id, student_id, term_id, payment_ref, method, amount, paid_at, status,
+        recorded_by, source, meta
+    )
+    VALUES (
+        p_school_id, p_student_id, v_term_id, v_ref, UPPER(p_method)::public.payment_method, p_amount,
+        COALESCE(p_paid_at, NOW()), 'SUCCESS', auth.uid(), COALESCE(p_source, 'manual'), COALESCE(p_meta, '{}'::jsonb)
+    )
+    RETURNING id INTO v_payment_id;
+
+    UPDATE public.student_payments
+    SET receipt_no = 'RCT-' || LPAD(v_payment_id::TEXT, 6, '0')
+    WHERE id = v_payment_id;
+
+    FOR v_invoice IN
+        SELECT id, invoice_number, COALESCE(total_amount, 0) - COALESCE(amount_paid, 0) AS outstanding
+        FROM public.student_invoices
+        WHERE student_id = p_student_id
+          AND school_id = p_school_id
+          AND status IS DISTINCT FROM 'Void'
+          AND COALESCE(total_amount, 0) - COALESCE(amount_paid, 0) > 0
+        ORDER BY (id = p_invoice_id) DESC, due_date NULLS LAST, created_at, id
+    LOOP
+        EXIT WHEN v_remaining <= 0;
+        v_share := LEAST(v_remaining, v_invoice.outstanding);
+
+        INSERT INTO public.student_payment_allocations (payment_id, invoice_id, allocated_amount)
+        VALUES (v_payment_id, v_invoice.id, v_share);
+
+        v_allocations := v_allocations || jsonb_build_object(
+            'invoice_id', v_invoice.id, 'invoice_number', v_invoice.invoice_number, 'amount', v_share);
+        v_remaining := v_remaining - v_share;
+    END LOOP;
+
+    SELECT COALESCE(SUM(COALESCE(total_amount, 0) - COALESCE(amount_paid, 0)), 0) INTO v_balance
+    FROM public.student_invoices
+    WHERE student_id = p_student_id AND status IS DISTINCT FROM 'Void';
+
+    RETURN jsonb_build_object(
+        'payment_id', v_payment_id,
+        'payment_ref', v_ref,
+        'receipt_no', 'RCT-' || LPAD(v_payment_id::TEXT, 6, '0'),
+        'allocations', v_allocations,
+        'unallocated', v_remaining,
+        'balance', v_balance - v_remaining,
+        'duplicate', FALSE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.record_student_payment(INT, INT, NUMERIC, TEXT, TEXT, TEXT, TIMESTAMPTZ, INT, JSONB) TO authenticated;
+
+-- ============================================
+-- 5. Reconciliation report
+-- ============================================
+-- invoice_balance is what invoice screens show (total_amount - amount_paid).
+-- ledger_balance is what the bursary round trip shows: charges plus surcharges, less reliefs
+-- and every successful payment including unallocated credit.
+-- legacy_balance is what invoice screens showed before this migration.
+
+CREATE OR REPLACE FUNCTION public.get_fee_reconciliation(p_school_id INT)
+RETURNS TABLE (
+    student_id INT,
+    student_name TEXT,
+    admission_number TEXT,
+    invoiced NUMERIC,
+    invoice_balance NUMERIC,
+    legacy_balance NUMERIC,
+    ledger_balance NUMERIC,
+    adjustments NUMERIC,
+    unallocated_credit NUMERIC,
+    legacy_payments NUMERIC,
+    unmigrated_payments INT,
+    flagged BOOLEAN
+) AS $$
+#variable_conflict use_column
+BEGIN
+    IF auth.role() <> 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = p_school_id
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to view fee reconciliation for this school';
+    END IF;
+
+    RETURN QUERY
+    WITH inv AS (
+        SELECT i.student_id,
+               SUM(COALESCE(i.total_amount, 0)) AS invoiced,
+               SUM(COALESCE(i.total_amount, 0) - COALESCE(i.amount_paid, 0)) AS invoice_balance,
+               SUM(COALESCE(i.total_amount, 0) - COALESCE(i.legacy_amount_paid, i.amount_paid, 0)) AS legacy_balance
+        FROM public.student_invoices i
+        WHERE i.school_id = p_school_id AND i.status IS DISTINCT FROM 'Void'
+        GROUP BY i.student_id
+    ),
+    adj AS (
+        SELECT a.student_id,
+               SUM(CASE WHEN a.type IN ('SURCHARGE', 'CORRECTION') THEN a.amount ELSE -a.amount END) AS net
+        FROM public.student_adjustments a
+        JOIN public.students s ON s.id = a.student_id AND s.school_id = p_school_id
+        GROUP BY a.student_id
+    ),
+    pay AS (
+        SELECT sp.student_id,
+               SUM(sp.amount) AS paid,
+               SUM(sp.amount - COALESCE((SELECT SUM(al.allocated_amount) FROM public.student_payment_allocations al
+                                         WHERE al.payment_id = sp.id), 0)) AS credit
+        FROM public.student_payments sp
+        WHERE sp.school_id = p_school_id AND sp.status = 'SUCCESS'
+        GROUP BY sp.student_id
+    ),
+    legacy AS (
+        SELECT COALESCE(i.student_id, sp.student_id) AS student_id,
+               SUM(COALESCE(p.amount, 0)) AS paid,
+               COUNT(*) FILTER (WHERE sp.id IS NULL)::INT AS unmigrated
+        FROM public.payments p
+        LEFT JOIN public.student_invoices i ON i.id = p.invoice_id
+        LEFT JOIN public.student_payments sp ON sp.legacy_payment_id = p.id
+        WHERE p.school_id = p_school_id
+        GROUP BY COALESCE(i.student_id, sp.student_id)
+    ),
+    report AS (
+        SELECT s.id AS sid, s.name::TEXT AS sname, s.admission_number::TEXT AS adm,
+               COALESCE(inv.invoiced, 0) AS invoiced,
+               COALESCE(inv.invoice_balance, 0) AS invoice_balance,
+               COALESCE(inv.legacy_balance, 0) AS legacy_balance,
+               COALESCE(inv.invoiced, 0) + COALESCE(adj.net, 0) - COALESCE(pay.paid, 0) AS ledger_balance,
+               COALESCE(adj.net, 0) AS adjustments,
+               COALESCE(pay.credit, 0) AS credit,
+               COALESCE(legacy.paid, 0) AS legacy_paid,
+               COALESCE(legacy.unmigrated, 0) AS unmigrated
+        FROM public.students s
+        LEFT JOIN inv ON inv.student_id = s.id
+        LEFT JOIN adj ON adj.student_id = s.id
+        LEFT JOIN pay ON pay.student_id = s.id
+        LEFT JOIN legacy ON legacy.student_id = s.id
+        WHERE s.school_id = p_school_id
+          AND (inv.student_id IS NOT NULL OR pay.student_id IS NOT NULL OR legacy.student_id IS NOT NULL)
+    )
+    SELECT r.sid, r.sname, r.adm, r.invoiced, r.invoice_balance, r.legacy_balance, r.ledger_balance,
+           r.adjustments, r.credit, r.legacy_paid, r.unmigrated,
+           (ABS(r.invoice_balance - r.ledger_balance) > 0.005
+            OR ABS(r.legacy_balance - r.ledger_balance) > 0.005
+            OR r.unmigrated > 0)
+    FROM report r
+    ORDER BY 12 DESC, r.sname;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_fee_reconciliation(INT) TO authenticated;
+
+COMMENT ON COLUMN public.student_payments.source IS 'Where the payment came from: dva, paystack, manual, csv_import or legacy';
+COMMENT ON COLUMN public.student_payments.legacy_payment_id IS 'Row in the archived payments table this payment was copied from';
+COMMENT ON COLUMN public.student_invoices.legacy_amount_paid IS 'amount_paid before the ledger took over, kept for reconciliation';
+COMMENT ON TABLE public.payments IS 'Archived legacy payments. Read-only; the ledger (student_payments) is the source of truth.';
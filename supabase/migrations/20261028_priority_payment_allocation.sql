@@ -0,0 +1,287 @@
+-- ============================================
+-- Priority-based Payment Allocation
+-- ============================================
+-- Payments are split across a student's open invoices fee line by fee line:
+--   1. the invoice the payer named (Paystack INVOICE-{id} reference, manual entry)
+--   2. oldest term first
+--   3. fee_items.priority within a term (1 = cleared first, e.g. tuition before bus)
+--   4. older invoices, then line order
+-- The part of an invoice total not covered by its lines (imported invoices have none)
+-- is cleared last. Bursars can re-run allocation when priorities change.
+
+ALTER TABLE public.student_payment_allocations
+    ADD COLUMN IF NOT EXISTS invoice_line_item_id INTEGER REFERENCES public.invoice_line_items(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_student_payment_allocations_line ON public.student_payment_allocations(invoice_line_item_id);
+
+ALTER TABLE public.student_payments
+    ADD COLUMN IF NOT EXISTS target_invoice_id INTEGER REFERENCES public.student_invoices(id) ON DELETE SET NULL;
+
+-- Remember which invoice existing payments were meant for so a re-run keeps honouring it
+UPDATE public.student_payments sp
+SET target_invoice_id = p.invoice_id
+FROM public.payments p
+WHERE p.id = sp.legacy_payment_id AND sp.target_invoice_id IS NULL;
+
+UPDATE public.student_payments sp
+SET target_invoice_id = (
+    SELECT a.invoice_id FROM public.student_payment_allocations a
+    WHERE a.payment_id = sp.id ORDER BY a.id LIMIT 1
+)
+WHERE sp.target_invoice_id IS NULL
+  AND sp.source IN ('manual', 'csv_import', 'paystack');
+
+-- Opening balances from the ledger migration stand for one invoice's amount_paid
+UPDATE public.student_payments sp
+SET target_invoice_id = i.id
+FROM public.student_invoices i
+WHERE sp.target_invoice_id IS NULL
+  AND sp.source = 'legacy'
+  AND sp.payment_ref LIKE 'LEGACY-OPENING-%'
+  AND i.id = (sp.meta->>'invoice_id')::INT;
+
+-- ============================================
+-- Allocation engine
+-- ============================================
+-- Allocates whatever part of a payment is not yet allocated. Returns the allocations it made.
+
+CREATE OR REPLACE FUNCTION public.allocate_student_payment(p_payment_id BIGINT)
+RETURNS JSONB AS $$
+DECLARE
+    v_payment RECORD;
+    v_remaining NUMERIC;
+    v_item RECORD;
+    v_item_open NUMERIC;
+    v_invoice_open NUMERIC;
+    v_share NUMERIC;
+    v_allocations JSONB := '[]'::jsonb;
+BEGIN
+    SELECT * INTO v_payment FROM public.student_payments WHERE id = p_payment_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment % does not exist', p_payment_id;
+    END IF;
+
+    IF auth.role() <> 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = v_payment.school_id
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to allocate payments for this school';
+    END IF;
+
+    IF v_payment.status <> 'SUCCESS' THEN
+        RETURN v_allocations;
+    END IF;
+
+    v_remaining := v_payment.amount - COALESCE((
+        SELECT SUM(allocated_amount) FROM public.student_payment_allocations WHERE payment_id = p_payment_id
+    ), 0);
+
+    FOR v_item IN
+        WITH open_invoices AS (
+            SELECT i.id, i.invoice_number, COALESCE(i.total_amount, 0) AS total_amount,
+                   COALESCE(i.due_date::TIMESTAMPTZ, i.created_at) AS invoice_date, t.start_date AS term_start
+            FROM public.student_invoices i
+            LEFT JOIN public.terms t ON t.id = i.term_id
+            WHERE i.student_id = v_payment.student_id
+              AND i.status IS DISTINCT FROM 'Void'
+              AND COALESCE(i.total_amount, 0) - COALESCE(i.amount_paid, 0) > 0
+        )
+        SELECT * FROM (
+        SELECT oi.id AS invoice_id, oi.invoice_number, oi.invoice_date, oi.term_start,
+               li.id AS line_id, li.description, COALESCE(li.amount, 0) AS amount,
+               COALESCE(fi.priority, 1) AS priority
+        FROM open_invoices oi
+        JOIN public.invoice_line_items li ON li.invoice_id = oi.id
+        LEFT JOIN public.fee_items fi ON fi.id = li.fee_item_id
+        UNION ALL
+        SELECT oi.id, oi.invoice_number, oi.invoice_date, oi.term_start,
+               NULL, 'Other charges',
+               oi.total_amount - COALESCE((SELECT SUM(COALESCE(li.amount, 0)) FROM public.invoice_line_items li WHERE li.invoice_id = oi.id), 0),
+               2147483647
+        FROM open_invoices oi
+        ) items
+        ORDER BY (items.invoice_id = v_payment.target_invoice_id) IS TRUE DESC,
+                 items.term_start NULLS LAST, items.priority, items.invoice_date, items.invoice_id, items.line_id NULLS LAST
+    LOOP
+        EXIT WHEN v_remaining <= 0;
+
+        SELECT v_item.amount - COALESCE(SUM(a.allocated_amount), 0) INTO v_item_open
+        FROM public.student_payment_allocations a
+        JOIN public.student_payments p ON p.id = a.payment_id AND p.status = 'SUCCESS'
+        WHERE a.invoice_id = v_item.invoice_id
+          AND a.invoice_line_item_id IS NOT DISTINCT FROM v_item.line_id;
+
+        -- amount_paid is refreshed by trigger after every allocation
+        SELECT COALESCE(total_amount, 0) - COALESCE(amount_paid, 0) INTO v_invoice_open
+        FROM public.student_invoices WHERE id = v_item.invoice_id;
+
+        v_share := LEAST(v_remaining, v_item_open, v_invoice_open);
+        CONTINUE WHEN v_share <= 0;
+
+        INSERT INTO public.student_payment_allocations (payment_id, invoice_id, invoice_line_item_id, allocated_amount)
+        VALUES (p_payment_id, v_item.invoice_id, v_item.line_id, v_share);
+
+        v_allocations := v_allocations || jsonb_build_object(
+            'invoice_id', v_item.invoice_id,
+            'invoice_number', v_item.invoice_number,
+            'invoice_line_item_id', v_item.line_id,
+            'description', v_item.description,
+            'amount', v_share);
+        v_remaining := v_remaining - v_share;
+    END LOOP;
+
+    RETURN v_allocations;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same signature as before; allocation now goes through allocate_student_payment()
+CREATE OR REPLACE FUNCTION public.record_student_payment(
+    p_school_id INT,
+    p_student_id INT,
+    p_amount NUMERIC,
+    p_method TEXT,
+    p_reference TEXT DEFAULT NULL,
+    p_source TEXT DEFAULT 'manual',
+    p_paid_at TIMESTAMPTZ DEFAULT NOW(),
+    p_invoice_id INT DEFAULT NULL,
+    p_meta JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_ref TEXT := NULLIF(TRIM(p_reference), '');
+    v_existing RECORD;
+    v_payment_id BIGINT;
+    v_term_id INT;
+    v_allocations JSONB;
+    v_allocated NUMERIC;
+    v_balance NUMERIC;
+BEGIN
+    -- The ledger is the record of what was paid, so only bursary staff post to it
+    IF auth.role() <> 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = p_school_id
+        AND role IN ('Admin', 'Principal', 'School Owner', 'Accountant')
+    ) THEN
+        RAISE EXCEPTION 'Only bursary staff can record payments for this school';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Payment amount must be greater than zero';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.students WHERE id = p_student_id AND school_id = p_school_id) THEN
+        RAISE EXCEPTION 'Student % does not belong to this school', p_student_id;
+    END IF;
+
+    IF v_ref IS NOT NULL THEN
+        SELECT id, receipt_no INTO v_existing FROM public.student_payments WHERE payment_ref = v_ref;
+        IF FOUND THEN
+            RETURN jsonb_build_object('payment_id', v_existing.id, 'payment_ref', v_ref,
+                                      'receipt_no', v_existing.receipt_no, 'duplicate', TRUE);
+        END IF;
+    ELSE
+        v_ref := 'PAY-' || p_student_id || '-' || REPLACE(gen_random_uuid()::TEXT, '-', '');
+    END IF;
+
+    IF p_invoice_id IS NOT NULL THEN
+        SELECT term_id INTO v_term_id FROM public.student_invoices
+        WHERE id = p_invoice_id AND student_id = p_student_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Invoice % does not belong to student %', p_invoice_id, p_student_id;
+        END IF;
+    ELSE
+        SELECT current_term_id INTO v_term_id FROM public.school_config WHERE school_id = p_school_id;
+    END IF;
+
+    INSERT INTO public.student_payments (
+        school_id, student_id, term_id, payment_ref, method, amount, paid_at, status,
+        recorded_by, source, target_invoice_id, meta
+    )
+    VALUES (
+        p_school_id, p_student_id, v_term_id, v_ref, UPPER(p_method)::public.payment_method, p_amount,
+        COALESCE(p_paid_at, NOW()), 'SUCCESS', auth.uid(), COALESCE(p_source, 'manual'), p_invoice_id,
+        COALESCE(p_meta, '{}'::jsonb)
+    )
+    RETURNING id INTO v_payment_id;
+
+    UPDATE public.student_payments
+    SET receipt_no = 'RCT-' || LPAD(v_payment_id::TEXT, 6, '0')
+    WHERE id = v_payment_id;
+
+    v_allocations := public.allocate_student_payment(v_payment_id);
+    SELECT COALESCE(SUM((a->>'amount')::NUMERIC), 0) INTO v_allocated FROM jsonb_array_elements(v_allocations) a;
+
+    SELECT COALESCE(SUM(COALESCE(total_amount, 0) - COALESCE(amount_paid, 0)), 0) INTO v_balance
+    FROM public.student_invoices
+    WHERE student_id = p_student_id AND status IS DISTINCT FROM 'Void';
+    v_balance := v_balance - (p_amount - v_allocated);
+
+    -- Receipts printed later show the balance as it stood when the payment came in
+    UPDATE public.student_payments
+    SET meta = COALESCE(meta, '{}'::jsonb) || jsonb_build_object('balance_after', v_balance)
+    WHERE id = v_payment_id;
+
+    RETURN jsonb_build_object(
+        'payment_id', v_payment_id,
+        'payment_ref', v_ref,
+        'receipt_no', 'RCT-' || LPAD(v_payment_id::TEXT, 6, '0'),
+        'allocations', v_allocations,
+        'unallocated', p_amount - v_allocated,
+        'balance', v_balance,
+        'duplicate', FALSE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Clears and re-applies the allocations of every successful payment, oldest payment first.
+-- p_student_id NULL re-runs the whole school (after fee priorities change).
+
+CREATE OR REPLACE FUNCTION public.reallocate_student_payments(
+    p_school_id INT,
+    p_student_id INT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_payment RECORD;
+    v_payments INT := 0;
+    v_students INT;
+BEGIN
+    IF auth.role() <> 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = p_school_id
+        AND role IN ('Admin', 'Principal', 'School Owner', 'Accountant')
+    ) THEN
+        RAISE EXCEPTION 'Only bursary staff can re-run payment allocation';
+    END IF;
+
+    DELETE FROM public.student_payment_allocations a
+    USING public.student_payments p
+    WHERE p.id = a.payment_id
+      AND p.school_id = p_school_id
+      AND p.status = 'SUCCESS'
+      AND (p_student_id IS NULL OR p.student_id = p_student_id);
+
+    FOR v_payment IN
+        SELECT id FROM public.student_payments
+        WHERE school_id = p_school_id
+          AND status = 'SUCCESS'
+          AND (p_student_id IS NULL OR student_id = p_student_id)
+        -- Opening balances predate every ledger payment, so they go back on their invoice first
+        ORDER BY (source = 'legacy' AND payment_ref LIKE 'LEGACY-OPENING-%') DESC, paid_at, id
+    LOOP
+        PERFORM public.allocate_student_payment(v_payment.id);
+        v_payments := v_payments + 1;
+    END LOOP;
+
+    SELECT COUNT(DISTINCT student_id) INTO v_students FROM public.student_payments
+    WHERE school_id = p_school_id AND status = 'SUCCESS'
+      AND (p_student_id IS NULL OR student_id = p_student_id);
+
+    RETURN jsonb_build_object('payments', v_payments, 'students', v_students);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.allocate_student_payment(BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reallocate_student_payments(INT, INT) TO authenticated;
+
+COMMENT ON COLUMN public.student_payment_allocations.invoice_line_item_id IS 'Fee line the amount cleared; NULL for the part of an invoice not covered by lines';
+COMMENT ON COLUMN public.student_payments.target_invoice_id IS 'Invoice the payer named; allocation clears it before anything else';
@@ -0,0 +1,334 @@
+-- ============================================
+-- Invoice Installment Schedules and Late Fees
+-- ============================================
+-- Every invoice carries its installment schedule (built from FeeItem.installments when the
+-- invoice is issued, or a single "Full payment" row). Payments credited to the invoice fill
+-- installments in due date order, giving each one a status of due, part_paid, paid or overdue.
+--
+-- school_config.late_fee_rule, e.g.
+-- {"enabled": true, "type": "percentage", "value": 5, "grace_days": 7, "cap": 10000}
+-- Once an installment is overdue past the grace days, apply_late_fees() posts one SURCHARGE
+-- adjustment for it, adds the fee to the invoice as a "Late fee" line and to the installment
+-- itself, so the schedule keeps adding up to the invoice total.
+
+ALTER TABLE public.school_config ADD COLUMN IF NOT EXISTS late_fee_rule JSONB
+    DEFAULT '{"enabled": false, "type": "flat", "value": 0, "grace_days": 7, "cap": null}';
+
+-- Late fees are raised against legacy invoices, which carry a term but no session
+ALTER TABLE public.student_adjustments ALTER COLUMN session_id DROP NOT NULL;
+ALTER TABLE public.student_adjustments ALTER COLUMN term_id DROP NOT NULL;
+-- TRUE when the amount has also been added to the invoice total (so it is not counted twice)
+ALTER TABLE public.student_adjustments ADD COLUMN IF NOT EXISTS posted_to_invoice BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS public.invoice_installments (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    invoice_id INTEGER NOT NULL REFERENCES public.student_invoices(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    due_date DATE NOT NULL,
+    amount NUMERIC(14,2) NOT NULL CHECK (amount >= 0),
+    amount_paid NUMERIC(14,2) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'due' CHECK (status IN ('due', 'part_paid', 'paid', 'overdue')),
+    surcharge_adjustment_id BIGINT REFERENCES public.student_adjustments(id) ON DELETE SET NULL,
+    surcharged_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (invoice_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_installments_due ON public.invoice_installments(school_id, status, due_date);
+
+ALTER TABLE public.invoice_installments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Staff manage their school's schedules, students see their own
+DROP POLICY IF EXISTS "Staff can manage invoice installments" ON public.invoice_installments;
+CREATE POLICY "Staff can manage invoice installments" ON public.invoice_installments
+FOR ALL
+USING (
+    school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Students can view their invoice installments" ON public.invoice_installments;
+CREATE POLICY "Students can view their invoice installments" ON public.invoice_installments
+FOR SELECT
+USING (
+    invoice_id IN (
+        SELECT i.id FROM public.student_invoices i
+        WHERE i.student_id IN (SELECT student_record_id FROM public.student_profiles WHERE id = auth.uid())
+    )
+);
+
+-- Invoices issued before schedules existed are due in full on their due date
+INSERT INTO public.invoice_installments (school_id, invoice_id, sequence, name, due_date, amount)
+SELECT i.school_id, i.id, 1, 'Full payment', COALESCE(i.due_date, i.created_at::DATE), COALESCE(i.total_amount, 0)
+FROM public.student_invoices i
+WHERE i.school_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.invoice_installments x WHERE x.invoice_id = i.id);
+
+-- ============================================
+-- Installment progress
+-- ============================================
+-- Mirrors deriveInstallmentProgress() in src/services/feeInstallments.ts
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_installments(p_invoice_id INT)
+RETURNS VOID AS $$
+DECLARE
+    v_pool NUMERIC;
+    v_installment RECORD;
+    v_paid NUMERIC;
+BEGIN
+    SELECT COALESCE(amount_paid, 0) INTO v_pool FROM public.student_invoices WHERE id = p_invoice_id;
+
+    FOR v_installment IN
+        SELECT id, amount, due_date FROM public.invoice_installments
+        WHERE invoice_id = p_invoice_id
+        ORDER BY due_date, sequence
+    LOOP
+        v_paid := GREATEST(LEAST(v_pool, v_installment.amount), 0);
+        v_pool := v_pool - v_paid;
+
+        UPDATE public.invoice_installments
+        SET amount_paid = v_paid,
+            status = CASE
+                WHEN v_paid >= v_installment.amount THEN 'paid'
+                WHEN v_installment.due_date < CURRENT_DATE THEN 'overdue'
+                WHEN v_paid > 0 THEN 'part_paid'
+                ELSE 'due'
+            END,
+            updated_at = NOW()
+        WHERE id = v_installment.id;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.refresh_installments_on_invoice_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.refresh_invoice_installments(NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_refresh_invoice_installments ON public.student_invoices;
+CREATE TRIGGER trg_refresh_invoice_installments
+AFTER UPDATE OF amount_paid ON public.student_invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_installments_on_invoice_change();
+
+CREATE OR REPLACE FUNCTION public.set_new_installment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.due_date < CURRENT_DATE AND NEW.amount_paid < NEW.amount THEN
+        NEW.status := 'overdue';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_set_new_installment_status ON public.invoice_installments;
+CREATE TRIGGER trg_set_new_installment_status
+BEFORE INSERT ON public.invoice_installments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_new_installment_status();
+
+SELECT public.refresh_invoice_installments(id) FROM public.student_invoices;
+
+-- ============================================
+-- Late fees
+-- ============================================
+-- Idempotent: each installment is surcharged at most once (external_ref LATE-FEE-{id}).
+-- p_school_id NULL runs every school and is reserved for the scheduled job.
+
+CREATE OR REPLACE FUNCTION public.apply_late_fees(p_school_id INT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+    v_installment RECORD;
+    v_rule JSONB;
+    v_outstanding NUMERIC;
+    v_fee NUMERIC;
+    v_adjustment_id BIGINT;
+    v_count INT := 0;
+    v_total NUMERIC := 0;
+BEGIN
+    IF auth.role() <> 'service_role' AND (p_school_id IS NULL OR NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = p_school_id
+    )) THEN
+        RAISE EXCEPTION 'Not allowed to apply late fees for this school';
+    END IF;
+
+    UPDATE public.invoice_installments
+    SET status = 'overdue', updated_at = NOW()
+    WHERE status IN ('due', 'part_paid')
+      AND due_date < CURRENT_DATE
+      AND (p_school_id IS NULL OR school_id = p_school_id);
+
+    FOR v_installment IN
+        SELECT ii.*, i.student_id, i.term_id, i.invoice_number, sc.late_fee_rule
+        FROM public.invoice_installments ii
+        JOIN public.student_invoices i ON i.id = ii.invoice_id
+        JOIN public.school_config sc ON sc.school_id = ii.school_id
+        WHERE ii.status = 'overdue'
+          AND ii.surcharge_adjustment_id IS NULL
+          AND i.status IS DISTINCT FROM 'Void'
+          AND COALESCE((sc.late_fee_rule->>'enabled')::BOOLEAN, FALSE)
+          AND ii.due_date + COALESCE((sc.late_fee_rule->>'grace_days')::INT, 0) < CURRENT_DATE
+          AND (p_school_id IS NULL OR ii.school_id = p_school_id)
+        ORDER BY ii.due_date, ii.id
+    LOOP
+        v_rule := v_installment.late_fee_rule;
+        v_outstanding := v_installment.amount - v_installment.amount_paid;
+        CONTINUE WHEN v_outstanding <= 0;
+
+        -- Mirrors computeLateFee() in src/services/feeInstallments.ts
+        IF v_rule->>'type' = 'percentage' THEN
+            v_fee := ROUND(v_outstanding * COALESCE((v_rule->>'value')::NUMERIC, 0) / 100, 2);
+        ELSE
+            v_fee := COALESCE((v_rule->>'value')::NUMERIC, 0);
+        END IF;
+        IF COALESCE((v_rule->>'cap')::NUMERIC, 0) > 0 THEN
+            v_fee := LEAST(v_fee, (v_rule->>'cap')::NUMERIC);
+        END IF;
+        CONTINUE WHEN v_fee <= 0;
+
+        INSERT INTO public.student_adjustments (
+            student_id, term_id, type, reason, amount, applied_to_invoice_id, external_ref, posted_to_invoice
+        )
+        VALUES (
+            v_installment.student_id, v_installment.term_id, 'SURCHARGE',
+            'Late fee: ' || v_installment.name || ' on ' || v_installment.invoice_number || ' overdue since ' || v_installment.due_date,
+            v_fee, v_installment.invoice_id, 'LATE-FEE-' || v_installment.id, TRUE
+        )
+        ON CONFLICT (external_ref) DO NOTHING
+        RETURNING id INTO v_adjustment_id;
+
+        CONTINUE WHEN v_adjustment_id IS NULL;
+
+        INSERT INTO public.invoice_line_items (invoice_id, description, amount)
+        VALUES (v_installment.invoice_id, 'Late fee: ' || v_installment.name, v_fee);
+
+        UPDATE public.student_invoices
+        SET total_amount = COALESCE(total_amount, 0) + v_fee
+        WHERE id = v_installment.invoice_id;
+
+        UPDATE public.invoice_installments
+        SET amount = amount + v_fee,
+            surcharge_adjustment_id = v_adjustment_id,
+            surcharged_at = NOW(),
+            updated_at = NOW()
+        WHERE id = v_installment.id;
+        PERFORM public.refresh_invoice_installments(v_installment.invoice_id);
+
+        v_count := v_count + 1;
+        v_total := v_total + v_fee;
+    END LOOP;
+
+    RETURN jsonb_build_object('surcharges', v_count, 'amount', v_total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.apply_late_fees(INT) TO authenticated;
+
+-- Run nightly where pg_cron is installed; otherwise bursars use "Apply Late Fees" in Student Finance
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('apply-late-fees', '15 0 * * *', 'SELECT public.apply_late_fees()');
+    END IF;
+END $$;
+
+-- Late fees are already in the invoice total, so reconciliation only counts adjustments not posted to an invoice
+CREATE OR REPLACE FUNCTION public.get_fee_reconciliation(p_school_id INT)
+RETURNS TABLE (
+    student_id INT,
+    student_name TEXT,
+    admission_number TEXT,
+    invoiced NUMERIC,
+    invoice_balance NUMERIC,
+    legacy_balance NUMERIC,
+    ledger_balance NUMERIC,
+    adjustments NUMERIC,
+    unallocated_credit NUMERIC,
+    legacy_payments NUMERIC,
+    unmigrated_payments INT,
+    flagged BOOLEAN
+) AS $$
+#variable_conflict use_column
+BEGIN
+    IF auth.role() <> 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND school_id = p_school_id
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to view fee reconciliation for this school';
+    END IF;
+
+    RETURN QUERY
+    WITH inv AS (
+        SELECT i.student_id,
+               SUM(COALESCE(i.total_amount, 0)) AS invoiced,
+               SUM(COALESCE(i.total_amount, 0) - COALESCE(i.amount_paid, 0)) AS invoice_balance,
+               SUM(COALESCE(i.total_amount, 0) - COALESCE(i.legacy_amount_paid, i.amount_paid, 0)) AS legacy_balance
+        FROM public.student_invoices i
+        WHERE i.school_id = p_school_id AND i.status IS DISTINCT FROM 'Void'
+        GROUP BY i.student_id
+    ),
+    adj AS (
+        SELECT a.student_id,
+               SUM(CASE WHEN a.type IN ('SURCHARGE', 'CORRECTION') THEN a.amount ELSE -a.amount END) AS net
+        FROM public.student_adjustments a
+        JOIN public.students s ON s.id = a.student_id AND s.school_id = p_school_id
+        WHERE NOT a.posted_to_invoice
+        GROUP BY a.student_id
+    ),
+    pay AS (
+        SELECT sp.student_id,
+               SUM(sp.amount) AS paid,
+               SUM(sp.amount - COALESCE((SELECT SUM(al.allocated_amount) FROM public.student_payment_allocations al
+                                         WHERE al.payment_id = sp.id), 0)) AS credit
+        FROM public.student_payments sp
+        WHERE sp.school_id = p_school_id AND sp.status = 'SUCCESS'
+        GROUP BY sp.student_id
+    ),
+    legacy AS (
+        SELECT COALESCE(i.student_id, sp.student_id) AS student_id,
+               SUM(COALESCE(p.amount, 0)) AS paid,
+               COUNT(*) FILTER (WHERE sp.id IS NULL)::INT AS unmigrated
+        FROM public.payments p
+        LEFT JOIN public.student_invoices i ON i.id = p.invoice_id
+        LEFT JOIN public.student_payments sp ON sp.legacy_payment_id = p.id
+        WHERE p.school_id = p_school_id
+        GROUP BY COALESCE(i.student_id, sp.student_id)
+    ),
+    report AS (
+        SELECT s.id AS sid, s.name::TEXT AS sname, s.admission_number::TEXT AS adm,
+               COALESCE(inv.invoiced, 0) AS invoiced,
+               COALESCE(inv.invoice_balance, 0) AS invoice_balance,
+               COALESCE(inv.legacy_balance, 0) AS legacy_balance,
+               COALESCE(inv.invoiced, 0) + COALESCE(adj.net, 0) - COALESCE(pay.paid, 0) AS ledger_balance,
+               COALESCE(adj.net, 0) AS adjustments,
+               COALESCE(pay.credit, 0) AS credit,
+               COALESCE(legacy.paid, 0) AS legacy_paid,
+               COALESCE(legacy.unmigrated, 0) AS unmigrated
+        FROM public.students s
+        LEFT JOIN inv ON inv.student_id = s.id
+        LEFT JOIN adj ON adj.student_id = s.id
+        LEFT JOIN pay ON pay.student_id = s.id
+        LEFT JOIN legacy ON legacy.student_id = s.id
+        WHERE s.school_id = p_school_id
+          AND (inv.student_id IS NOT NULL OR pay.student_id IS NOT NULL OR legacy.student_id IS NOT NULL)
+    )
+    SELECT r.sid, r.sname, r.adm, r.invoiced, r.invoice_balance, r.legacy_balance, r.ledger_balance,
+           r.adjustments, r.credit, r.legacy_paid, r.unmigrated,
+           (ABS(r.invoice_balance - r.ledger_balance) > 0.005
+            OR ABS(r.legacy_balance - r.ledger_balance) > 0.005
+            OR r.unmigrated > 0)
+    FROM report r
+    ORDER BY 12 DESC, r.sname;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_fee_reconciliation(INT) TO authenticated;
+
+COMMENT ON COLUMN public.school_config.late_fee_rule IS 'Late fee rule: enabled, type (flat|percentage), value, grace_days, cap';
+COMMENT ON TABLE public.invoice_installments IS 'Installment schedule per invoice with payment progress and late fee tracking';
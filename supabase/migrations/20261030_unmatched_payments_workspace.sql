@@ -0,0 +1,333 @@
+-- ============================================
+-- Unmatched Payments Workspace
+-- ============================================
+-- Bursars review credits the Paystack webhook could not tie to a student, assign them
+-- (which records the ledger payment and its allocations) or dismiss them, and can inspect
+-- or replay logged webhook events. Every action is written to audit_log.
+
+ALTER TABLE public.unmatched_payments ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'assigned', 'dismissed'));
+ALTER TABLE public.unmatched_payments ADD COLUMN IF NOT EXISTS payer_name TEXT;
+ALTER TABLE public.unmatched_payments ADD COLUMN IF NOT EXISTS account_number TEXT;
+ALTER TABLE public.unmatched_payments ADD COLUMN IF NOT EXISTS narration TEXT;
+ALTER TABLE public.unmatched_payments ADD COLUMN IF NOT EXISTS matched_student_id INTEGER REFERENCES public.students(id) ON DELETE SET NULL;
+ALTER TABLE public.unmatched_payments ADD COLUMN IF NOT EXISTS ledger_payment_id BIGINT REFERENCES public.student_payments(id) ON DELETE SET NULL;
+ALTER TABLE public.unmatched_payments ADD COLUMN IF NOT EXISTS webhook_event_id INTEGER REFERENCES public.webhook_events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_unmatched_payments_status ON public.unmatched_payments(status, created_at DESC);
+
+ALTER TABLE public.webhook_events ADD COLUMN IF NOT EXISTS replay_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.webhook_events ADD COLUMN IF NOT EXISTS last_replayed_at TIMESTAMPTZ;
+
+-- Payer details as Paystack reports them on DVA credits (authorization.sender_*) and charges (customer.*)
+CREATE OR REPLACE FUNCTION public.webhook_payer_name(p_data JSONB)
+RETURNS TEXT AS $$
+    SELECT NULLIF(TRIM(COALESCE(
+        p_data->'authorization'->>'sender_name',
+        NULLIF(TRIM(COALESCE(p_data->'customer'->>'first_name', '') || ' ' || COALESCE(p_data->'customer'->>'last_name', '')), ''),
+        p_data->'metadata'->>'student_name',
+        ''
+    )), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE public.unmatched_payments
+SET status = 'assigned'
+WHERE manually_matched = TRUE AND status = 'open';
+
+UPDATE public.unmatched_payments
+SET payer_name = COALESCE(payer_name, public.webhook_payer_name(raw_data)),
+    account_number = COALESCE(account_number, raw_data->'dedicated_account'->>'account_number'),
+    narration = COALESCE(narration, raw_data->'authorization'->>'narration')
+WHERE raw_data IS NOT NULL;
+
+-- Policy: Finance staff can work the queue and read the webhook log
+DROP POLICY IF EXISTS "Admins can manage unmatched payments" ON public.unmatched_payments;
+CREATE POLICY "Admins can manage unmatched payments" ON public.unmatched_payments
+FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid()
+        AND role IN ('Admin', 'Principal', 'School Owner', 'Accountant')
+    )
+);
+
+DROP POLICY IF EXISTS "Finance staff can view webhook events" ON public.webhook_events;
+CREATE POLICY "Finance staff can view webhook events" ON public.webhook_events
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid()
+        AND role IN ('Admin', 'Principal', 'School Owner', 'Accountant')
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.require_finance_staff(p_school_id INT)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.role() <> 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid()
+        AND (p_school_id IS NULL OR school_id = p_school_id)
+        AND role IN ('Admin', 'Principal', 'School Owner', 'Accountant')
+    ) THEN
+        RAISE EXCEPTION 'Only finance staff can reconcile payments for this school';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Assign an unmatched credit to a student
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.assign_unmatched_payment(
+    p_unmatched_id INT,
+    p_student_id INT,
+    p_invoice_id INT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_unmatched RECORD;
+    v_school_id INT;
+    v_is_dva BOOLEAN;
+    v_result JSONB;
+BEGIN
+    SELECT * INTO v_unmatched FROM public.unmatched_payments WHERE id = p_unmatched_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unmatched payment % not found', p_unmatched_id;
+    END IF;
+    IF v_unmatched.status <> 'open' THEN
+        RAISE EXCEPTION 'Unmatched payment % is already %', p_unmatched_id, v_unmatched.status;
+    END IF;
+
+    SELECT school_id INTO v_school_id FROM public.students WHERE id = p_student_id;
+    IF v_school_id IS NULL THEN
+        RAISE EXCEPTION 'Student % not found', p_student_id;
+    END IF;
+    PERFORM public.require_finance_staff(v_school_id);
+
+    IF p_invoice_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.student_invoices WHERE id = p_invoice_id AND student_id = p_student_id
+    ) THEN
+        RAISE EXCEPTION 'Invoice % does not belong to student %', p_invoice_id, p_student_id;
+    END IF;
+
+    v_is_dva := v_unmatched.account_number IS NOT NULL OR v_unmatched.payment_method ILIKE '%transfer%';
+
+    v_result := public.record_student_payment(
+        v_school_id,
+        p_student_id,
+        v_unmatched.amount,
+        CASE WHEN v_is_dva THEN 'TRANSFER' WHEN v_unmatched.payment_method ILIKE '%card%' THEN 'PAYSTACK' ELSE 'OFFLINE' END,
+        v_unmatched.reference,
+        CASE WHEN v_is_dva THEN 'dva' ELSE 'paystack' END,
+        COALESCE(v_unmatched.payment_date, v_unmatched.created_at),
+        p_invoice_id,
+        jsonb_build_object('unmatched_payment_id', v_unmatched.id, 'assigned_by', auth.uid(), 'payer_name', v_unmatched.payer_name)
+    );
+
+    IF (v_result->>'duplicate')::BOOLEAN THEN
+        RAISE EXCEPTION 'Reference % is already on the ledger as payment %', v_unmatched.reference, v_result->>'payment_id';
+    END IF;
+
+    UPDATE public.unmatched_payments
+    SET status = 'assigned',
+        manually_matched = TRUE,
+        matched_school_id = v_school_id,
+        matched_student_id = p_student_id,
+        matched_invoice_id = p_invoice_id,
+        ledger_payment_id = (v_result->>'payment_id')::BIGINT,
+        matched_by_user_id = auth.uid(),
+        matched_at = NOW(),
+        notes = COALESCE(NULLIF(TRIM(p_notes), ''), notes),
+        updated_at = NOW()
+    WHERE id = v_unmatched.id;
+
+    INSERT INTO public.audit_log (school_id, actor_user_id, action, details)
+    VALUES (v_school_id, auth.uid(), 'finance.unmatched_payment.assign', jsonb_build_object(
+        'unmatched_payment_id', v_unmatched.id,
+        'reference', v_unmatched.reference,
+        'amount', v_unmatched.amount,
+        'student_id', p_student_id,
+        'invoice_id', p_invoice_id,
+        'payment_id', v_result->'payment_id',
+        'receipt_no', v_result->'receipt_no',
+        'notes', p_notes
+    ));
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.assign_unmatched_payment(INT, INT, INT, TEXT) TO authenticated;
+
+-- Credits that are not school fees (refunds, misdirected transfers) are dismissed with a reason
+CREATE OR REPLACE FUNCTION public.dismiss_unmatched_payment(p_unmatched_id INT, p_reason TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_unmatched RECORD;
+    v_school_id INT;
+BEGIN
+    PERFORM public.require_finance_staff(NULL);
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required to dismiss a payment';
+    END IF;
+
+    SELECT * INTO v_unmatched FROM public.unmatched_payments WHERE id = p_unmatched_id FOR UPDATE;
+    IF NOT FOUND OR v_unmatched.status <> 'open' THEN
+        RAISE EXCEPTION 'Unmatched payment % is not open', p_unmatched_id;
+    END IF;
+
+    SELECT school_id INTO v_school_id FROM public.user_profiles WHERE id = auth.uid();
+
+    UPDATE public.unmatched_payments
+    SET status = 'dismissed',
+        matched_by_user_id = auth.uid(),
+        matched_at = NOW(),
+        notes = p_reason,
+        updated_at = NOW()
+    WHERE id = p_unmatched_id;
+
+    INSERT INTO public.audit_log (school_id, actor_user_id, action, details)
+    VALUES (v_school_id, auth.uid(), 'finance.unmatched_payment.dismiss', jsonb_build_object(
+        'unmatched_payment_id', p_unmatched_id,
+        'reference', v_unmatched.reference,
+        'amount', v_unmatched.amount,
+        'reason', p_reason
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.dismiss_unmatched_payment(INT, TEXT) TO authenticated;
+
+-- ============================================
+-- Replay a logged webhook event
+-- ============================================
+-- Re-runs the matching the paystack-webhook function does (DVA account number, INVOICE-{id}
+-- reference, customer email) against current data, e.g. after a DVA is created or an email
+-- is corrected. Payments already on the ledger are reported as duplicates, never re-recorded.
+
+CREATE OR REPLACE FUNCTION public.replay_webhook_event(p_event_id INT)
+RETURNS JSONB AS $$
+DECLARE
+    v_event RECORD;
+    v_data JSONB;
+    v_reference TEXT;
+    v_amount NUMERIC;
+    v_paid_at TIMESTAMPTZ;
+    v_student_id INT;
+    v_school_id INT;
+    v_invoice_id INT;
+    v_method TEXT;
+    v_source TEXT;
+    v_result JSONB;
+    v_outcome TEXT;
+BEGIN
+    PERFORM public.require_finance_staff(NULL);
+
+    SELECT * INTO v_event FROM public.webhook_events WHERE id = p_event_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook event % not found', p_event_id;
+    END IF;
+
+    v_data := v_event.payload->'data';
+    v_reference := v_data->>'reference';
+    v_amount := (v_data->>'amount')::NUMERIC / 100;
+    v_paid_at := COALESCE((v_data->>'paid_at')::TIMESTAMPTZ, v_event.created_at);
+
+    IF v_event.event_type = 'dedicatedaccount.credit' THEN
+        v_method := 'TRANSFER';
+        v_source := 'dva';
+        SELECT student_id, school_id INTO v_student_id, v_school_id
+        FROM public.dedicated_virtual_accounts
+        WHERE account_number = v_data->'dedicated_account'->>'account_number';
+    ELSIF v_event.event_type = 'charge.success' THEN
+        v_method := 'PAYSTACK';
+        v_source := 'paystack';
+        IF v_reference ~* 'INVOICE-\d+' THEN
+            SELECT id, student_id, school_id INTO v_invoice_id, v_student_id, v_school_id
+            FROM public.student_invoices
+            WHERE id = (regexp_match(v_reference, 'INVOICE-(\d+)', 'i'))[1]::INT;
+        END IF;
+        IF v_student_id IS NULL AND v_data->'customer'->>'email' IS NOT NULL THEN
+            SELECT id, school_id INTO v_student_id, v_school_id
+            FROM public.students
+            WHERE email = v_data->'customer'->>'email'
+            ORDER BY id
+            LIMIT 1;
+        END IF;
+    ELSE
+        RETURN jsonb_build_object('outcome', 'ignored', 'message', 'Event type ' || v_event.event_type || ' does not carry a payment');
+    END IF;
+
+    IF v_reference IS NULL OR v_amount IS NULL OR v_amount <= 0 THEN
+        RAISE EXCEPTION 'Webhook event % has no reference or amount', p_event_id;
+    END IF;
+
+    IF v_student_id IS NOT NULL THEN
+        PERFORM public.require_finance_staff(v_school_id);
+        v_result := public.record_student_payment(
+            v_school_id, v_student_id, v_amount, v_method, v_reference, v_source, v_paid_at, v_invoice_id,
+            jsonb_build_object('webhook_event_id', p_event_id, 'replayed_by', auth.uid())
+        );
+        v_outcome := CASE WHEN (v_result->>'duplicate')::BOOLEAN THEN 'duplicate' ELSE 'recorded' END;
+
+        UPDATE public.unmatched_payments
+        SET status = 'assigned',
+            matched_school_id = v_school_id,
+            matched_student_id = v_student_id,
+            matched_invoice_id = v_invoice_id,
+            ledger_payment_id = (v_result->>'payment_id')::BIGINT,
+            matched_by_user_id = auth.uid(),
+            matched_at = NOW(),
+            updated_at = NOW()
+        WHERE reference = v_reference AND status = 'open';
+
+        UPDATE public.webhook_events
+        SET processed = TRUE, processed_at = NOW(), error_message = NULL
+        WHERE id = p_event_id;
+    ELSE
+        v_outcome := 'unmatched';
+        INSERT INTO public.unmatched_payments (
+            reference, amount, payment_date, payment_method, customer_email, raw_data,
+            payer_name, account_number, narration, webhook_event_id
+        )
+        VALUES (
+            v_reference, v_amount, v_paid_at,
+            CASE WHEN v_source = 'dva' THEN 'Bank Transfer (DVA)' ELSE 'Card Payment' END,
+            v_data->'customer'->>'email', v_data,
+            public.webhook_payer_name(v_data), v_data->'dedicated_account'->>'account_number',
+            v_data->'authorization'->>'narration', p_event_id
+        )
+        ON CONFLICT (reference) DO NOTHING;
+
+        UPDATE public.webhook_events
+        SET error_message = 'No student matched; queued for manual review'
+        WHERE id = p_event_id;
+    END IF;
+
+    UPDATE public.webhook_events
+    SET replay_count = replay_count + 1, last_replayed_at = NOW()
+    WHERE id = p_event_id;
+
+    INSERT INTO public.audit_log (school_id, actor_user_id, action, details)
+    VALUES (
+        COALESCE(v_school_id, (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())),
+        auth.uid(),
+        'finance.webhook_event.replay',
+        jsonb_build_object('webhook_event_id', p_event_id, 'reference', v_reference, 'outcome', v_outcome,
+                           'student_id', v_student_id, 'payment_id', v_result->'payment_id')
+    );
+
+    RETURN COALESCE(v_result, '{}'::jsonb) || jsonb_build_object('outcome', v_outcome, 'student_id', v_student_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.replay_webhook_event(INT) TO authenticated;
+
+COMMENT ON COLUMN public.unmatched_payments.status IS 'open until a bursar assigns it to a student (ledger payment recorded) or dismisses it';
+COMMENT ON FUNCTION public.assign_unmatched_payment IS 'Records an unmatched credit on the fee ledger for a student and logs the assignment to audit_log';
+COMMENT ON FUNCTION public.replay_webhook_event IS 'Re-runs student matching for a logged Paystack event and records or queues the payment';
@@ -0,0 +1,94 @@
+-- ============================================
+-- Bank Statement Import
+-- ============================================
+-- Transfers that never reach paystack-webhook are imported from bank statements in the
+-- Unmatched Payments workspace. Matched credits are recorded with source 'bank_statement'
+-- and a BANK-{date}-{hash} reference, so re-importing a statement cannot record a line twice.
+-- Unmatched credits are queued in unmatched_payments with payment_method
+-- 'Bank Transfer (Statement)'; assigning one later records it as a bank_statement transfer.
+
+CREATE OR REPLACE FUNCTION public.assign_unmatched_payment(
+    p_unmatched_id INT,
+    p_student_id INT,
+    p_invoice_id INT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_unmatched RECORD;
+    v_school_id INT;
+    v_is_dva BOOLEAN;
+    v_is_statement BOOLEAN;
+    v_result JSONB;
+BEGIN
+    SELECT * INTO v_unmatched FROM public.unmatched_payments WHERE id = p_unmatched_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unmatched payment % not found', p_unmatched_id;
+    END IF;
+    IF v_unmatched.status <> 'open' THEN
+        RAISE EXCEPTION 'Unmatched payment % is already %', p_unmatched_id, v_unmatched.status;
+    END IF;
+
+    SELECT school_id INTO v_school_id FROM public.students WHERE id = p_student_id;
+    IF v_school_id IS NULL THEN
+        RAISE EXCEPTION 'Student % not found', p_student_id;
+    END IF;
+    PERFORM public.require_finance_staff(v_school_id);
+
+    IF p_invoice_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.student_invoices WHERE id = p_invoice_id AND student_id = p_student_id
+    ) THEN
+        RAISE EXCEPTION 'Invoice % does not belong to student %', p_invoice_id, p_student_id;
+    END IF;
+
+    v_is_statement := v_unmatched.payment_method ILIKE '%statement%';
+    v_is_dva := NOT v_is_statement AND (v_unmatched.account_number IS NOT NULL OR v_unmatched.payment_method ILIKE '%transfer%');
+
+    v_result := public.record_student_payment(
+        v_school_id,
+        p_student_id,
+        v_unmatched.amount,
+        CASE WHEN v_is_dva OR v_is_statement THEN 'TRANSFER' WHEN v_unmatched.payment_method ILIKE '%card%' THEN 'PAYSTACK' ELSE 'OFFLINE' END,
+        v_unmatched.reference,
+        CASE WHEN v_is_statement THEN 'bank_statement' WHEN v_is_dva THEN 'dva' ELSE 'paystack' END,
+        COALESCE(v_unmatched.payment_date, v_unmatched.created_at),
+        p_invoice_id,
+        jsonb_build_object('unmatched_payment_id', v_unmatched.id, 'assigned_by', auth.uid(), 'payer_name', v_unmatched.payer_name)
+    );
+
+    IF (v_result->>'duplicate')::BOOLEAN THEN
+        RAISE EXCEPTION 'Reference % is already on the ledger as payment %', v_unmatched.reference, v_result->>'payment_id';
+    END IF;
+
+    UPDATE public.unmatched_payments
+    SET status = 'assigned',
+        manually_matched = TRUE,
+        matched_school_id = v_school_id,
+        matched_student_id = p_student_id,
+        matched_invoice_id = p_invoice_id,
+        ledger_payment_id = (v_result->>'payment_id')::BIGINT,
+        matched_by_user_id = auth.uid(),
+        matched_at = NOW(),
+        notes = COALESCE(NULLIF(TRIM(p_notes), ''), notes),
+        updated_at = NOW()
+    WHERE id = v_unmatched.id;
+
+    INSERT INTO public.audit_log (school_id, actor_user_id, action, details)
+    VALUES (v_school_id, auth.uid(), 'finance.unmatched_payment.assign', jsonb_build_object(
+        'unmatched_payment_id', v_unmatched.id,
+        'reference', v_unmatched.reference,
+        'amount', v_unmatched.amount,
+        'student_id', p_student_id,
+        'invoice_id', p_invoice_id,
+        'payment_id', v_result->'payment_id',
+        'receipt_no', v_result->'receipt_no',
+        'notes', p_notes
+    ));
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.assign_unmatched_payment(INT, INT, INT, TEXT) TO authenticated;
+
+COMMENT ON COLUMN public.student_payments.source IS 'Where the payment came from: dva, paystack, manual, csv_import, bank_statement or legacy';
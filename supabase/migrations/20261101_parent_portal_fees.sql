@@ -0,0 +1,90 @@
+-- ============================================
+-- Parent Portal Fees
+-- ============================================
+-- Parents with can_view_finances on a parent_student_links row can read that child's
+-- invoices, installments, adjustments, ledger payments and virtual account, and pay
+-- through Paystack inline checkout. Checkout references are INVOICE-{invoice_id}-..., and
+-- the metadata carries student_id, invoice_id and installment_id, so charge.success in
+-- paystack-webhook settles the invoice the parent chose first.
+
+CREATE OR REPLACE FUNCTION public.parent_can_view_finances(p_student_id INT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.parent_student_links
+        WHERE parent_id = auth.uid()
+          AND student_id = p_student_id
+          AND can_view_finances
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.parent_can_view_finances(INT) TO authenticated;
+
+DROP POLICY IF EXISTS "Parents view linked child invoices" ON public.student_invoices;
+CREATE POLICY "Parents view linked child invoices" ON public.student_invoices
+    FOR SELECT USING (public.parent_can_view_finances(student_id));
+
+DROP POLICY IF EXISTS "Parents view linked child invoice lines" ON public.invoice_line_items;
+CREATE POLICY "Parents view linked child invoice lines" ON public.invoice_line_items
+    FOR SELECT USING (
+        invoice_id IN (SELECT id FROM public.student_invoices WHERE public.parent_can_view_finances(student_id))
+    );
+
+DROP POLICY IF EXISTS "Parents view linked child installments" ON public.invoice_installments;
+CREATE POLICY "Parents view linked child installments" ON public.invoice_installments
+    FOR SELECT USING (
+        invoice_id IN (SELECT id FROM public.student_invoices WHERE public.parent_can_view_finances(student_id))
+    );
+
+DROP POLICY IF EXISTS "Parents view linked child adjustments" ON public.student_adjustments;
+CREATE POLICY "Parents view linked child adjustments" ON public.student_adjustments
+    FOR SELECT USING (public.parent_can_view_finances(student_id));
+
+DROP POLICY IF EXISTS "Parents view linked child payments" ON public.student_payments;
+CREATE POLICY "Parents view linked child payments" ON public.student_payments
+    FOR SELECT USING (public.parent_can_view_finances(student_id));
+
+DROP POLICY IF EXISTS "Parents view linked child allocations" ON public.student_payment_allocations;
+CREATE POLICY "Parents view linked child allocations" ON public.student_payment_allocations
+    FOR SELECT USING (
+        payment_id IN (SELECT id FROM public.student_payments WHERE public.parent_can_view_finances(student_id))
+    );
+
+DROP POLICY IF EXISTS "Parents view linked child virtual accounts" ON public.dedicated_virtual_accounts;
+CREATE POLICY "Parents view linked child virtual accounts" ON public.dedicated_virtual_accounts
+    FOR SELECT USING (public.parent_can_view_finances(student_id));
+
+-- Paystack public key for a child's school (campus settings first, then the school default).
+-- paystack_api_settings holds secret keys, so parents never read the table itself.
+CREATE OR REPLACE FUNCTION public.get_parent_paystack_key(p_student_id INT)
+RETURNS TEXT AS $$
+DECLARE
+    v_school_id INT;
+    v_campus_id INT;
+    v_key TEXT;
+BEGIN
+    IF NOT public.parent_can_view_finances(p_student_id) THEN
+        RAISE EXCEPTION 'Not allowed to pay fees for this student';
+    END IF;
+
+    SELECT s.school_id, c.campus_id INTO v_school_id, v_campus_id
+    FROM public.students s
+    LEFT JOIN public.classes c ON c.id = s.class_id
+    WHERE s.id = p_student_id;
+
+    SELECT public_key INTO v_key
+    FROM public.paystack_api_settings
+    WHERE school_id = v_school_id
+      AND enabled
+      AND public_key IS NOT NULL
+      AND (campus_id = v_campus_id OR campus_id IS NULL)
+    ORDER BY (campus_id IS NULL), id
+    LIMIT 1;
+
+    RETURN v_key;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_parent_paystack_key(INT) TO authenticated;
+
+COMMENT ON FUNCTION public.parent_can_view_finances IS 'True when the signed-in parent is linked to the student with can_view_finances';
+COMMENT ON FUNCTION public.get_parent_paystack_key IS 'Paystack public key for inline checkout of a linked child''s fees; NULL when online payment is not configured';
@@ -0,0 +1,483 @@
+-- ============================================
+-- Storefront Order Fulfilment
+-- ============================================
+-- Placing an order reserves stock (inventory_items.reserved) for
+-- school_config.store_reservation_minutes. A verified Paystack payment (paystack-webhook or
+-- the verify-store-payment function) moves the order to Paid. Delivery takes the stock out,
+-- a return puts it back, and cancelling or letting the reservation expire releases it.
+--
+-- orders.stock_state records what the order has done to inventory so each move happens once:
+--   reserved  -> counted in inventory_items.reserved
+--   issued    -> taken out of inventory_items.stock
+--   released  -> reservation given back (cancelled or expired)
+--   restocked -> issued stock put back (returned, or cancelled after issue)
+-- Orders placed before this migration took stock at checkout, so they start as 'issued'.
+
+ALTER TABLE public.school_config
+    ADD COLUMN IF NOT EXISTS store_reservation_minutes INTEGER DEFAULT 30;
+
+ALTER TABLE public.inventory_items
+    ADD COLUMN IF NOT EXISTS reserved INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.inventory_items DROP CONSTRAINT IF EXISTS inventory_items_reserved_check;
+ALTER TABLE public.inventory_items ADD CONSTRAINT inventory_items_reserved_check CHECK (reserved >= 0);
+
+ALTER TABLE public.orders
+    ADD COLUMN IF NOT EXISTS stock_state TEXT,
+    ADD COLUMN IF NOT EXISTS reserved_until TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS paid_amount NUMERIC,
+    ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS returned_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS cancel_reason TEXT,
+    ADD COLUMN IF NOT EXISTS collection_code TEXT;
+
+UPDATE public.orders SET stock_state = 'issued' WHERE stock_state IS NULL;
+
+ALTER TABLE public.orders ALTER COLUMN stock_state SET DEFAULT 'reserved';
+ALTER TABLE public.orders ALTER COLUMN stock_state SET NOT NULL;
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_stock_state_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_stock_state_check
+    CHECK (stock_state IN ('reserved', 'issued', 'released', 'restocked'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_payment_reference
+    ON public.orders(payment_reference) WHERE payment_reference IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_pending_reservations
+    ON public.orders(reserved_until) WHERE status = 'Pending' AND stock_state = 'reserved';
+
+-- Moves an order's items between stock states. Internal: callers check permissions.
+CREATE OR REPLACE FUNCTION public.move_order_stock(p_order_id INT, p_to TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_from TEXT;
+    v_short RECORD;
+BEGIN
+    SELECT stock_state INTO v_from FROM public.orders WHERE id = p_order_id FOR UPDATE;
+    IF v_from = p_to THEN
+        RETURN;
+    END IF;
+
+    IF v_from = 'reserved' AND p_to = 'issued' THEN
+        UPDATE public.inventory_items i
+        SET stock = GREATEST(i.stock - q.qty, 0), reserved = GREATEST(i.reserved - q.qty, 0)
+        FROM (SELECT inventory_item_id, SUM(quantity) AS qty FROM public.order_items
+              WHERE order_id = p_order_id GROUP BY inventory_item_id) q
+        WHERE i.id = q.inventory_item_id;
+    ELSIF v_from = 'reserved' AND p_to = 'released' THEN
+        UPDATE public.inventory_items i
+        SET reserved = GREATEST(i.reserved - q.qty, 0)
+        FROM (SELECT inventory_item_id, SUM(quantity) AS qty FROM public.order_items
+              WHERE order_id = p_order_id GROUP BY inventory_item_id) q
+        WHERE i.id = q.inventory_item_id;
+    ELSIF v_from = 'issued' AND p_to = 'restocked' THEN
+        UPDATE public.inventory_items i
+        SET stock = i.stock + q.qty
+        FROM (SELECT inventory_item_id, SUM(quantity) AS qty FROM public.order_items
+              WHERE order_id = p_order_id GROUP BY inventory_item_id) q
+        WHERE i.id = q.inventory_item_id;
+    ELSIF v_from = 'released' AND p_to = 'reserved' THEN
+        -- A late payment on an expired order takes the stock again if it is still there
+        SELECT i.name, i.stock - i.reserved AS available, q.qty INTO v_short
+        FROM public.inventory_items i
+        JOIN (SELECT inventory_item_id, SUM(quantity) AS qty FROM public.order_items
+              WHERE order_id = p_order_id GROUP BY inventory_item_id) q ON q.inventory_item_id = i.id
+        WHERE i.stock - i.reserved < q.qty
+        LIMIT 1
+        FOR UPDATE OF i;
+        IF FOUND THEN
+            RAISE EXCEPTION 'Only % of % left', GREATEST(v_short.available, 0), v_short.name;
+        END IF;
+        UPDATE public.inventory_items i
+        SET reserved = i.reserved + q.qty
+        FROM (SELECT inventory_item_id, SUM(quantity) AS qty FROM public.order_items
+              WHERE order_id = p_order_id GROUP BY inventory_item_id) q
+        WHERE i.id = q.inventory_item_id;
+    ELSE
+        RAISE EXCEPTION 'Cannot move stock for order % from % to %', p_order_id, v_from, p_to;
+    END IF;
+
+    UPDATE public.orders SET stock_state = p_to WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.move_order_stock(INT, TEXT) FROM PUBLIC;
+
+-- Cancels Pending orders whose reservation has run out and gives the stock back.
+-- Only the scheduled job and place_store_order call this, so it is not exposed to API users
+CREATE OR REPLACE FUNCTION public.expire_store_orders(p_school_id INT DEFAULT NULL)
+RETURNS INT AS $$
+DECLARE
+    v_order RECORD;
+    v_count INT := 0;
+BEGIN
+    FOR v_order IN
+        SELECT id FROM public.orders
+        WHERE status = 'Pending'
+          AND stock_state = 'reserved'
+          AND reserved_until < NOW()
+          AND (p_school_id IS NULL OR school_id = p_school_id)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        PERFORM public.move_order_stock(v_order.id, 'released');
+        UPDATE public.orders
+        SET status = 'Cancelled', cancelled_at = NOW(), cancel_reason = 'expired', updated_at = NOW()
+        WHERE id = v_order.id;
+        INSERT INTO public.order_notes (order_id, author_id, note)
+        VALUES (v_order.id, NULL, 'Cancelled automatically: payment was not completed before the reservation expired.');
+        v_count := v_count + 1;
+    END LOOP;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.expire_store_orders(INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_store_orders(INT) TO service_role;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('expire-store-orders', '*/10 * * * *', 'SELECT public.expire_store_orders()');
+    END IF;
+END $$;
+
+-- Creates a Pending order at current store prices and reserves its stock.
+-- p_items: [{ "inventory_item_id": 1, "quantity": 2 }, ...]
+CREATE OR REPLACE FUNCTION public.place_store_order(p_items JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_school_id INT;
+    v_minutes INT;
+    v_order_id INT;
+    v_item JSONB;
+    v_inv RECORD;
+    v_qty INT;
+    v_total NUMERIC := 0;
+BEGIN
+    SELECT school_id INTO v_school_id FROM public.user_profiles WHERE id = auth.uid();
+    IF v_school_id IS NULL THEN
+        SELECT school_id INTO v_school_id FROM public.student_profiles WHERE id = auth.uid();
+    END IF;
+    IF v_school_id IS NULL THEN
+        RAISE EXCEPTION 'Sign in to place an order';
+    END IF;
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'Your cart is empty';
+    END IF;
+
+    -- Free stock held by abandoned checkouts before checking availability
+    PERFORM public.expire_store_orders(v_school_id);
+
+    SELECT store_reservation_minutes INTO v_minutes FROM public.school_config WHERE school_id = v_school_id;
+
+    INSERT INTO public.orders (school_id, user_id, total_amount, status, stock_state, reserved_until, collection_code)
+    VALUES (
+        v_school_id, auth.uid(), 0, 'Pending', 'reserved',
+        NOW() + make_interval(mins => COALESCE(v_minutes, 30)),
+        upper(substr(md5(random()::TEXT || clock_timestamp()::TEXT), 1, 6))
+    )
+    RETURNING id INTO v_order_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_qty := (v_item->>'quantity')::INT;
+        IF v_qty IS NULL OR v_qty <= 0 THEN
+            RAISE EXCEPTION 'Quantities must be at least 1';
+        END IF;
+
+        SELECT * INTO v_inv FROM public.inventory_items
+        WHERE id = (v_item->>'inventory_item_id')::INT AND school_id = v_school_id
+        FOR UPDATE;
+        IF NOT FOUND OR NOT COALESCE(v_inv.is_published, FALSE) THEN
+            RAISE EXCEPTION 'Item % is no longer sold in the store', v_item->>'inventory_item_id';
+        END IF;
+        IF v_inv.stock - v_inv.reserved < v_qty THEN
+            RAISE EXCEPTION 'Only % of % left', GREATEST(v_inv.stock - v_inv.reserved, 0), v_inv.name;
+        END IF;
+
+        UPDATE public.inventory_items SET reserved = reserved + v_qty WHERE id = v_inv.id;
+        INSERT INTO public.order_items (order_id, inventory_item_id, quantity, unit_price)
+        VALUES (v_order_id, v_inv.id, v_qty, v_inv.price);
+        v_total := v_total + v_qty * COALESCE(v_inv.price, 0);
+    END LOOP;
+
+    UPDATE public.orders
+    SET total_amount = v_total,
+        payment_reference = 'STORE-' || v_order_id || '-' || to_char(NOW(), 'YYYYMMDDHH24MISS')
+    WHERE id = v_order_id;
+
+    RETURN (SELECT to_jsonb(o) FROM public.orders o WHERE o.id = v_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.place_store_order(JSONB) TO authenticated;
+
+-- Staff status changes. Allowed moves (mirrored by ORDER_STATUS_TRANSITIONS in storeOrders.ts):
+-- Pending -> Paid | Cancelled, Paid -> Delivered | Cancelled, Delivered -> Returned.
+-- Buyers may cancel their own Pending order.
+CREATE OR REPLACE FUNCTION public.set_order_status(p_order_id INT, p_status TEXT, p_note TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+    v_order RECORD;
+    v_is_staff BOOLEAN;
+BEGIN
+    SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order % not found', p_order_id;
+    END IF;
+
+    v_is_staff := EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND school_id = v_order.school_id);
+    IF NOT v_is_staff AND NOT (v_order.user_id = auth.uid() AND v_order.status = 'Pending' AND p_status = 'Cancelled') THEN
+        RAISE EXCEPTION 'Not allowed to update order %', p_order_id;
+    END IF;
+
+    IF NOT (
+        (v_order.status = 'Pending' AND p_status IN ('Paid', 'Cancelled'))
+        OR (v_order.status = 'Paid' AND p_status IN ('Delivered', 'Cancelled'))
+        OR (v_order.status = 'Delivered' AND p_status = 'Returned')
+    ) THEN
+        RAISE EXCEPTION 'Cannot move order #% from % to %', p_order_id, v_order.status, p_status;
+    END IF;
+
+    IF p_status = 'Paid' THEN
+        -- Manual confirmation, e.g. cash at the counter
+        IF v_order.stock_state = 'released' THEN
+            PERFORM public.move_order_stock(p_order_id, 'reserved');
+        END IF;
+        UPDATE public.orders
+        SET paid_at = NOW(), paid_amount = COALESCE(paid_amount, total_amount), reserved_until = NULL
+        WHERE id = p_order_id;
+    ELSIF p_status = 'Delivered' THEN
+        PERFORM public.move_order_stock(p_order_id, 'issued');
+        UPDATE public.orders SET delivered_at = NOW() WHERE id = p_order_id;
+    ELSIF p_status = 'Returned' THEN
+        PERFORM public.move_order_stock(p_order_id, 'restocked');
+        UPDATE public.orders SET returned_at = NOW() WHERE id = p_order_id;
+    ELSIF p_status = 'Cancelled' THEN
+        IF v_order.stock_state = 'reserved' THEN
+            PERFORM public.move_order_stock(p_order_id, 'released');
+        ELSIF v_order.stock_state = 'issued' THEN
+            PERFORM public.move_order_stock(p_order_id, 'restocked');
+        END IF;
+        UPDATE public.orders
+        SET cancelled_at = NOW(), cancel_reason = COALESCE(p_note, CASE WHEN v_is_staff THEN 'staff' ELSE 'buyer' END)
+        WHERE id = p_order_id;
+    END IF;
+
+    UPDATE public.orders SET status = p_status, updated_at = NOW() WHERE id = p_order_id;
+
+    INSERT INTO public.order_notes (order_id, author_id, note)
+    VALUES (p_order_id, auth.uid(), 'Status changed from ' || v_order.status || ' to ' || p_status
+            || COALESCE(': ' || p_note, ''));
+
+    RETURN (SELECT to_jsonb(o) FROM public.orders o WHERE o.id = p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_order_status(INT, TEXT, TEXT) TO authenticated;
+
+-- Marks an order Paid after Paystack has confirmed the charge. Service role only
+-- (paystack-webhook and verify-store-payment); safe to call more than once.
+CREATE OR REPLACE FUNCTION public.mark_store_order_paid(
+    p_reference TEXT,
+    p_amount NUMERIC,
+    p_paid_at TIMESTAMPTZ DEFAULT NOW(),
+    p_meta JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_order RECORD;
+BEGIN
+    IF auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Store payments are confirmed by the payment provider only';
+    END IF;
+
+    SELECT * INTO v_order FROM public.orders WHERE payment_reference = p_reference FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('outcome', 'not_found');
+    END IF;
+
+    IF v_order.status IN ('Paid', 'Delivered', 'Returned') THEN
+        RETURN jsonb_build_object('outcome', 'already_paid', 'order_id', v_order.id);
+    END IF;
+
+    IF p_amount < v_order.total_amount THEN
+        INSERT INTO public.order_notes (order_id, author_id, note)
+        VALUES (v_order.id, NULL, 'Paystack payment of ' || p_amount || ' is less than the order total of '
+                || v_order.total_amount || '; left unpaid for review.');
+        RETURN jsonb_build_object('outcome', 'amount_mismatch', 'order_id', v_order.id);
+    END IF;
+
+    IF v_order.stock_state = 'released' THEN
+        BEGIN
+            PERFORM public.move_order_stock(v_order.id, 'reserved');
+        EXCEPTION WHEN OTHERS THEN
+            UPDATE public.orders SET paid_amount = p_amount, paid_at = p_paid_at, updated_at = NOW() WHERE id = v_order.id;
+            INSERT INTO public.order_notes (order_id, author_id, note)
+            VALUES (v_order.id, NULL, 'Paid after the reservation expired, but ' || SQLERRM
+                    || '. Restock and mark Paid, or refund the customer.');
+            RETURN jsonb_build_object('outcome', 'stock_unavailable', 'order_id', v_order.id, 'message', SQLERRM);
+        END;
+    END IF;
+
+    UPDATE public.orders
+    SET status = 'Paid',
+        paid_amount = p_amount,
+        paid_at = p_paid_at,
+        reserved_until = NULL,
+        cancelled_at = NULL,
+        cancel_reason = NULL,
+        updated_at = NOW()
+    WHERE id = v_order.id;
+
+    INSERT INTO public.order_notes (order_id, author_id, note)
+    VALUES (v_order.id, NULL, 'Payment verified by Paystack (' || p_reference || ')'
+            || COALESCE(' via ' || (p_meta->>'channel'), '') || '.');
+
+    RETURN jsonb_build_object('outcome', 'paid', 'order_id', v_order.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Paystack public key for the signed-in buyer's school (never the secret key)
+CREATE OR REPLACE FUNCTION public.get_store_paystack_key()
+RETURNS TEXT AS $$
+    SELECT s.public_key
+    FROM public.paystack_api_settings s
+    WHERE s.school_id = COALESCE(
+            (SELECT school_id FROM public.user_profiles WHERE id = auth.uid()),
+            (SELECT school_id FROM public.student_profiles WHERE id = auth.uid()))
+      AND s.enabled
+      AND s.public_key IS NOT NULL
+    ORDER BY (s.campus_id IS NOT NULL), s.id
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_store_paystack_key() TO authenticated;
+
+-- Store order charges are not fee payments, so replaying one must not put it on the fee ledger
+CREATE OR REPLACE FUNCTION public.replay_webhook_event(p_event_id INT)
+RETURNS JSONB AS $$
+DECLARE
+    v_event RECORD;
+    v_data JSONB;
+    v_reference TEXT;
+    v_amount NUMERIC;
+    v_paid_at TIMESTAMPTZ;
+    v_student_id INT;
+    v_school_id INT;
+    v_invoice_id INT;
+    v_method TEXT;
+    v_source TEXT;
+    v_result JSONB;
+    v_outcome TEXT;
+BEGIN
+    PERFORM public.require_finance_staff(NULL);
+
+    SELECT * INTO v_event FROM public.webhook_events WHERE id = p_event_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook event % not found', p_event_id;
+    END IF;
+
+    v_data := v_event.payload->'data';
+    v_reference := v_data->>'reference';
+    v_amount := (v_data->>'amount')::NUMERIC / 100;
+    v_paid_at := COALESCE((v_data->>'paid_at')::TIMESTAMPTZ, v_event.created_at);
+
+    IF v_event.event_type = 'dedicatedaccount.credit' THEN
+        v_method := 'TRANSFER';
+        v_source := 'dva';
+        SELECT student_id, school_id INTO v_student_id, v_school_id
+        FROM public.dedicated_virtual_accounts
+        WHERE account_number = v_data->'dedicated_account'->>'account_number';
+    ELSIF v_event.event_type = 'charge.success' AND v_reference LIKE 'STORE-%' THEN
+        RETURN jsonb_build_object('outcome', 'ignored', 'message', 'Store order payment; paystack-webhook and verify-store-payment settle it on the order');
+    ELSIF v_event.event_type = 'charge.success' THEN
+        v_method := 'PAYSTACK';
+        v_source := 'paystack';
+        IF v_reference ~* 'INVOICE-\d+' THEN
+            SELECT id, student_id, school_id INTO v_invoice_id, v_student_id, v_school_id
+            FROM public.student_invoices
+            WHERE id = (regexp_match(v_reference, 'INVOICE-(\d+)', 'i'))[1]::INT;
+        END IF;
+        IF v_student_id IS NULL AND v_data->'customer'->>'email' IS NOT NULL THEN
+            SELECT id, school_id INTO v_student_id, v_school_id
+            FROM public.students
+            WHERE email = v_data->'customer'->>'email'
+            ORDER BY id
+            LIMIT 1;
+        END IF;
+    ELSE
+        RETURN jsonb_build_object('outcome', 'ignored', 'message', 'Event type ' || v_event.event_type || ' does not carry a payment');
+    END IF;
+
+    IF v_reference IS NULL OR v_amount IS NULL OR v_amount <= 0 THEN
+        RAISE EXCEPTION 'Webhook event % has no reference or amount', p_event_id;
+    END IF;
+
+    IF v_student_id IS NOT NULL THEN
+        PERFORM public.require_finance_staff(v_school_id);
+        v_result := public.record_student_payment(
+            v_school_id, v_student_id, v_amount, v_method, v_reference, v_source, v_paid_at, v_invoice_id,
+            jsonb_build_object('webhook_event_id', p_event_id, 'replayed_by', auth.uid())
+        );
+        v_outcome := CASE WHEN (v_result->>'duplicate')::BOOLEAN THEN 'duplicate' ELSE 'recorded' END;
+
+        UPDATE public.unmatched_payments
+        SET status = 'assigned',
+            matched_school_id = v_school_id,
+            matched_student_id = v_student_id,
+            matched_invoice_id = v_invoice_id,
+            ledger_payment_id = (v_result->>'payment_id')::BIGINT,
+            matched_by_user_id = auth.uid(),
+            matched_at = NOW(),
+            updated_at = NOW()
+        WHERE reference = v_reference AND status = 'open';
+
+        UPDATE public.webhook_events
+        SET processed = TRUE, processed_at = NOW(), error_message = NULL
+        WHERE id = p_event_id;
+    ELSE
+        v_outcome := 'unmatched';
+        INSERT INTO public.unmatched_payments (
+            reference, amount, payment_date, payment_method, customer_email, raw_data,
+            payer_name, account_number, narration, webhook_event_id
+        )
+        VALUES (
+            v_reference, v_amount, v_paid_at,
+            CASE WHEN v_source = 'dva' THEN 'Bank Transfer (DVA)' ELSE 'Card Payment' END,
+            v_data->'customer'->>'email', v_data,
+            public.webhook_payer_name(v_data), v_data->'dedicated_account'->>'account_number',
+            v_data->'authorization'->>'narration', p_event_id
+        )
+        ON CONFLICT (reference) DO NOTHING;
+
+        UPDATE public.webhook_events
+        SET error_message = 'No student matched; queued for manual review'
+        WHERE id = p_event_id;
+    END IF;
+
+    UPDATE public.webhook_events
+    SET replay_count = replay_count + 1, last_replayed_at = NOW()
+    WHERE id = p_event_id;
+
+    INSERT INTO public.audit_log (school_id, actor_user_id, action, details)
+    VALUES (
+        COALESCE(v_school_id, (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())),
+        auth.uid(),
+        'finance.webhook_event.replay',
+        jsonb_build_object('webhook_event_id', p_event_id, 'reference', v_reference, 'outcome', v_outcome,
+                           'student_id', v_student_id, 'payment_id', v_result->'payment_id')
+    );
+
+    RETURN COALESCE(v_result, '{}'::jsonb) || jsonb_build_object('outcome', v_outcome, 'student_id', v_student_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.replay_webhook_event(INT) TO authenticated;
+
+COMMENT ON COLUMN public.inventory_items.reserved IS 'Units held by Pending and Paid orders that have not been delivered yet';
+COMMENT ON COLUMN public.orders.stock_state IS 'reserved, issued, released or restocked: what the order has done to inventory';
+COMMENT ON COLUMN public.orders.collection_code IS 'Short code printed on the collection slip and checked at hand-over';
+COMMENT ON FUNCTION public.place_store_order IS 'Creates a Pending store order at current prices and reserves its stock';
+COMMENT ON FUNCTION public.set_order_status IS 'Moves an order through Pending, Paid, Delivered, Returned and Cancelled, updating stock';
+COMMENT ON FUNCTION public.mark_store_order_paid IS 'Marks a store order Paid once Paystack has confirmed the charge';
+COMMENT ON FUNCTION public.expire_store_orders IS 'Cancels Pending orders whose stock reservation has expired';
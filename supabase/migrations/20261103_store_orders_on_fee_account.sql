@@ -0,0 +1,442 @@
+-- ============================================
+-- Store Orders on the School Bill
+-- ============================================
+-- A Pending store order can be added to the student's current-term invoice instead of being
+-- paid at checkout. Each order item becomes an invoice_line_items row tagged with
+-- store_order_id, the invoice total goes up, and the stock stays reserved. The order moves to
+-- Paid once ledger allocation (allocate_student_payment) has fully covered its lines.
+--
+-- students.store_spend_limit caps what can be billed this way per term. Parents set it from the
+-- parent portal; NULL means store purchases cannot be billed for the student at all.
+
+ALTER TABLE public.students
+    ADD COLUMN IF NOT EXISTS store_spend_limit NUMERIC;
+
+ALTER TABLE public.students DROP CONSTRAINT IF EXISTS students_store_spend_limit_check;
+ALTER TABLE public.students ADD CONSTRAINT students_store_spend_limit_check
+    CHECK (store_spend_limit IS NULL OR store_spend_limit >= 0);
+
+ALTER TABLE public.orders
+    ADD COLUMN IF NOT EXISTS student_id INTEGER REFERENCES public.students(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS billed_invoice_id INTEGER REFERENCES public.student_invoices(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS billed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.invoice_line_items
+    ADD COLUMN IF NOT EXISTS store_order_id INTEGER REFERENCES public.orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_billed_invoice
+    ON public.orders(billed_invoice_id) WHERE billed_invoice_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_store_order
+    ON public.invoice_line_items(store_order_id) WHERE store_order_id IS NOT NULL;
+
+-- Students see the orders billed to them even when staff placed them
+DROP POLICY IF EXISTS "Students view orders billed to them" ON public.orders;
+CREATE POLICY "Students view orders billed to them" ON public.orders
+    FOR SELECT USING (
+        student_id IN (SELECT student_record_id FROM public.student_profiles WHERE id = auth.uid())
+    );
+
+-- ============================================
+-- Spending limit
+-- ============================================
+
+-- Limit, amount already billed this term and what is left
+CREATE OR REPLACE FUNCTION public.get_store_billing_allowance(p_student_id INT)
+RETURNS JSONB AS $$
+DECLARE
+    v_student RECORD;
+    v_term_id INT;
+    v_billed NUMERIC;
+BEGIN
+    SELECT id, school_id, store_spend_limit INTO v_student FROM public.students WHERE id = p_student_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Student % not found', p_student_id;
+    END IF;
+
+    IF NOT (
+        public.parent_can_view_finances(p_student_id)
+        OR EXISTS (SELECT 1 FROM public.student_profiles WHERE id = auth.uid() AND student_record_id = p_student_id)
+        OR EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND school_id = v_student.school_id)
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to view the store allowance for this student';
+    END IF;
+
+    SELECT current_term_id INTO v_term_id FROM public.school_config WHERE school_id = v_student.school_id;
+
+    SELECT COALESCE(SUM(o.total_amount), 0) INTO v_billed
+    FROM public.orders o
+    JOIN public.student_invoices i ON i.id = o.billed_invoice_id
+    WHERE o.student_id = p_student_id
+      AND o.status <> 'Cancelled'
+      AND i.term_id IS NOT DISTINCT FROM v_term_id;
+
+    RETURN jsonb_build_object(
+        'student_id', p_student_id,
+        'term_id', v_term_id,
+        'limit', v_student.store_spend_limit,
+        'billed', v_billed,
+        'remaining', CASE WHEN v_student.store_spend_limit IS NULL THEN 0
+                          ELSE GREATEST(v_student.store_spend_limit - v_billed, 0) END
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_store_billing_allowance(INT) TO authenticated;
+
+-- Parents with finance access (or finance staff) set the per-term limit; NULL turns billing off
+CREATE OR REPLACE FUNCTION public.set_store_spend_limit(p_student_id INT, p_limit NUMERIC)
+RETURNS JSONB AS $$
+DECLARE
+    v_school_id INT;
+BEGIN
+    SELECT school_id INTO v_school_id FROM public.students WHERE id = p_student_id;
+    IF v_school_id IS NULL THEN
+        RAISE EXCEPTION 'Student % not found', p_student_id;
+    END IF;
+
+    IF NOT public.parent_can_view_finances(p_student_id) THEN
+        PERFORM public.require_finance_staff(v_school_id);
+    END IF;
+
+    IF p_limit IS NOT NULL AND p_limit < 0 THEN
+        RAISE EXCEPTION 'The spending limit cannot be negative';
+    END IF;
+
+    UPDATE public.students SET store_spend_limit = p_limit WHERE id = p_student_id;
+
+    INSERT INTO public.audit_log (school_id, actor_user_id, action, details)
+    VALUES (v_school_id, auth.uid(), 'store.spend_limit.set',
+            jsonb_build_object('student_id', p_student_id, 'limit', p_limit));
+
+    RETURN public.get_store_billing_allowance(p_student_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_store_spend_limit(INT, NUMERIC) TO authenticated;
+
+-- ============================================
+-- Billing an order
+-- ============================================
+
+-- Adds a Pending order to the student's current-term invoice. p_student_id defaults to the
+-- buyer's own student record; staff of the school may bill any of its students.
+CREATE OR REPLACE FUNCTION public.bill_store_order_to_fees(p_order_id INT, p_student_id INT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+    v_order RECORD;
+    v_student_id INT;
+    v_student RECORD;
+    v_allowance JSONB;
+    v_term RECORD;
+    v_invoice RECORD;
+    v_installment_id INT;
+BEGIN
+    SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order % not found', p_order_id;
+    END IF;
+
+    v_student_id := COALESCE(p_student_id,
+        (SELECT student_record_id FROM public.student_profiles WHERE id = v_order.user_id));
+    IF v_student_id IS NULL THEN
+        RAISE EXCEPTION 'Choose the student whose school bill order #% goes on', p_order_id;
+    END IF;
+
+    SELECT id, school_id, name, store_spend_limit INTO v_student FROM public.students WHERE id = v_student_id;
+    IF NOT FOUND OR v_student.school_id <> v_order.school_id THEN
+        RAISE EXCEPTION 'Student % is not enrolled at this school', v_student_id;
+    END IF;
+
+    IF NOT (
+        EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND school_id = v_order.school_id)
+        OR (v_order.user_id = auth.uid()
+            AND EXISTS (SELECT 1 FROM public.student_profiles WHERE id = auth.uid() AND student_record_id = v_student_id))
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to bill order % to this student', p_order_id;
+    END IF;
+
+    IF v_order.status <> 'Pending' THEN
+        RAISE EXCEPTION 'Only Pending orders can be added to the school bill (order #% is %)', p_order_id, v_order.status;
+    END IF;
+    IF v_order.billed_invoice_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Order #% is already on invoice %', p_order_id, v_order.billed_invoice_id;
+    END IF;
+
+    v_allowance := public.get_store_billing_allowance(v_student_id);
+    IF v_student.store_spend_limit IS NULL THEN
+        RAISE EXCEPTION 'No store spending limit is set for %. A parent can set one under Fees in the parent portal', v_student.name;
+    END IF;
+    IF v_order.total_amount > (v_allowance->>'remaining')::NUMERIC THEN
+        RAISE EXCEPTION 'Order total of % exceeds the % left of %''s store spending limit this term',
+            v_order.total_amount, v_allowance->>'remaining', v_student.name;
+    END IF;
+
+    SELECT t.id, t.end_date INTO v_term
+    FROM public.school_config sc
+    JOIN public.terms t ON t.id = sc.current_term_id
+    WHERE sc.school_id = v_order.school_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Set the current term in school settings before billing store orders';
+    END IF;
+
+    -- An expired checkout takes its stock again if it is still there
+    IF v_order.stock_state = 'released' THEN
+        PERFORM public.move_order_stock(p_order_id, 'reserved');
+    END IF;
+
+    SELECT * INTO v_invoice
+    FROM public.student_invoices
+    WHERE student_id = v_student_id AND term_id = v_term.id AND status IS DISTINCT FROM 'Void'
+    ORDER BY id
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        INSERT INTO public.student_invoices (school_id, student_id, term_id, invoice_number, total_amount, due_date, status)
+        VALUES (
+            v_order.school_id, v_student_id, v_term.id,
+            'INV-' || (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT || '-' || v_student_id,
+            0, COALESCE(v_term.end_date, CURRENT_DATE), 'Unpaid'
+        )
+        RETURNING * INTO v_invoice;
+
+        INSERT INTO public.invoice_installments (school_id, invoice_id, sequence, name, due_date, amount)
+        VALUES (v_order.school_id, v_invoice.id, 1, 'Full payment', v_invoice.due_date, 0);
+    END IF;
+
+    INSERT INTO public.invoice_line_items (invoice_id, description, amount, store_order_id)
+    SELECT v_invoice.id,
+           'Store order #' || p_order_id || ': ' || COALESCE(i.name, 'Item #' || oi.inventory_item_id)
+               || CASE WHEN oi.quantity > 1 THEN ' x' || oi.quantity ELSE '' END,
+           oi.quantity * oi.unit_price,
+           p_order_id
+    FROM public.order_items oi
+    LEFT JOIN public.inventory_items i ON i.id = oi.inventory_item_id
+    WHERE oi.order_id = p_order_id
+    ORDER BY oi.id;
+
+    UPDATE public.student_invoices
+    SET total_amount = COALESCE(total_amount, 0) + v_order.total_amount
+    WHERE id = v_invoice.id;
+
+    -- Store charges fall due with the last installment so the schedule still adds up to the invoice
+    SELECT id INTO v_installment_id FROM public.invoice_installments
+    WHERE invoice_id = v_invoice.id
+    ORDER BY due_date DESC, sequence DESC
+    LIMIT 1;
+    UPDATE public.invoice_installments
+    SET amount = amount + v_order.total_amount, updated_at = NOW()
+    WHERE id = v_installment_id;
+    PERFORM public.refresh_invoice_installments(v_invoice.id);
+
+    -- The order is settled through the ledger now, so it no longer expires or takes a card payment
+    UPDATE public.orders
+    SET student_id = v_student_id,
+        billed_invoice_id = v_invoice.id,
+        billed_at = NOW(),
+        reserved_until = NULL,
+        payment_reference = NULL,
+        updated_at = NOW()
+    WHERE id = p_order_id;
+
+    INSERT INTO public.order_notes (order_id, author_id, note)
+    VALUES (p_order_id, auth.uid(), 'Added to ' || v_student.name || '''s school bill on invoice '
+            || v_invoice.invoice_number || '. Marked Paid once the invoice lines are settled.');
+
+    RETURN (SELECT to_jsonb(o) FROM public.orders o WHERE o.id = p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.bill_store_order_to_fees(INT, INT) TO authenticated;
+
+-- Takes an unsettled billed order off its invoice. Internal: set_order_status calls it when a
+-- billed order is cancelled or paid at the counter instead.
+CREATE OR REPLACE FUNCTION public.unbill_store_order(p_order_id INT)
+RETURNS VOID AS $$
+DECLARE
+    v_order RECORD;
+    v_amount NUMERIC;
+    v_installment RECORD;
+    v_share NUMERIC;
+BEGIN
+    SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+    IF v_order.billed_invoice_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.student_payment_allocations a
+        JOIN public.student_payments p ON p.id = a.payment_id AND p.status = 'SUCCESS'
+        JOIN public.invoice_line_items li ON li.id = a.invoice_line_item_id
+        WHERE li.store_order_id = p_order_id
+    ) THEN
+        RAISE EXCEPTION 'Payments are already allocated to order #% on the school bill; reallocate them first', p_order_id;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_amount
+    FROM public.invoice_line_items
+    WHERE invoice_id = v_order.billed_invoice_id AND store_order_id = p_order_id;
+
+    DELETE FROM public.invoice_line_items
+    WHERE invoice_id = v_order.billed_invoice_id AND store_order_id = p_order_id;
+
+    UPDATE public.student_invoices
+    SET total_amount = GREATEST(COALESCE(total_amount, 0) - v_amount, 0)
+    WHERE id = v_order.billed_invoice_id;
+
+    -- Undo the installment increase, latest installment first
+    FOR v_installment IN
+        SELECT id, amount FROM public.invoice_installments
+        WHERE invoice_id = v_order.billed_invoice_id
+        ORDER BY due_date DESC, sequence DESC
+    LOOP
+        EXIT WHEN v_amount <= 0;
+        v_share := LEAST(v_amount, v_installment.amount);
+        UPDATE public.invoice_installments SET amount = amount - v_share, updated_at = NOW() WHERE id = v_installment.id;
+        v_amount := v_amount - v_share;
+    END LOOP;
+    PERFORM public.refresh_invoice_installments(v_order.billed_invoice_id);
+
+    UPDATE public.orders
+    SET billed_invoice_id = NULL,
+        billed_at = NULL,
+        payment_reference = 'STORE-' || p_order_id || '-' || to_char(NOW(), 'YYYYMMDDHH24MISS')
+    WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.unbill_store_order(INT) FROM PUBLIC;
+
+-- ============================================
+-- Settlement through the ledger
+-- ============================================
+
+-- Marks billed Pending orders on the invoice Paid once successful allocations cover their lines
+CREATE OR REPLACE FUNCTION public.settle_billed_store_orders(p_invoice_id INT)
+RETURNS INT AS $$
+DECLARE
+    v_order RECORD;
+    v_count INT := 0;
+BEGIN
+    FOR v_order IN
+        SELECT o.id, o.total_amount, inv.invoice_number
+        FROM public.orders o
+        JOIN public.student_invoices inv ON inv.id = o.billed_invoice_id
+        WHERE o.billed_invoice_id = p_invoice_id
+          AND o.status = 'Pending'
+          AND NOT EXISTS (
+              SELECT 1 FROM public.invoice_line_items li
+              WHERE li.store_order_id = o.id
+                AND COALESCE(li.amount, 0) > COALESCE((
+                    SELECT SUM(a.allocated_amount)
+                    FROM public.student_payment_allocations a
+                    JOIN public.student_payments p ON p.id = a.payment_id AND p.status = 'SUCCESS'
+                    WHERE a.invoice_line_item_id = li.id
+                ), 0)
+          )
+        FOR UPDATE OF o
+    LOOP
+        UPDATE public.orders
+        SET status = 'Paid', paid_amount = v_order.total_amount, paid_at = NOW(), updated_at = NOW()
+        WHERE id = v_order.id;
+
+        INSERT INTO public.order_notes (order_id, author_id, note)
+        VALUES (v_order.id, NULL, 'Settled on the school bill (invoice ' || v_order.invoice_number || ').');
+        v_count := v_count + 1;
+    END LOOP;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.settle_billed_store_orders(INT) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.settle_store_orders_on_invoice_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.orders WHERE billed_invoice_id = NEW.id AND status = 'Pending') THEN
+        PERFORM public.settle_billed_store_orders(NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- touch_allocated_invoices re-saves amount_paid after every allocation change
+DROP TRIGGER IF EXISTS trg_settle_billed_store_orders ON public.student_invoices;
+CREATE TRIGGER trg_settle_billed_store_orders
+AFTER UPDATE OF amount_paid ON public.student_invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_store_orders_on_invoice_change();
+
+-- Same transitions as 20261102; a billed Pending order comes off the invoice when it is
+-- cancelled or paid at the counter instead.
+CREATE OR REPLACE FUNCTION public.set_order_status(p_order_id INT, p_status TEXT, p_note TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+    v_order RECORD;
+    v_is_staff BOOLEAN;
+BEGIN
+    SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order % not found', p_order_id;
+    END IF;
+
+    v_is_staff := EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND school_id = v_order.school_id);
+    IF NOT v_is_staff AND NOT (v_order.user_id = auth.uid() AND v_order.status = 'Pending' AND p_status = 'Cancelled') THEN
+        RAISE EXCEPTION 'Not allowed to update order %', p_order_id;
+    END IF;
+
+    IF NOT (
+        (v_order.status = 'Pending' AND p_status IN ('Paid', 'Cancelled'))
+        OR (v_order.status = 'Paid' AND p_status IN ('Delivered', 'Cancelled'))
+        OR (v_order.status = 'Delivered' AND p_status = 'Returned')
+    ) THEN
+        RAISE EXCEPTION 'Cannot move order #% from % to %', p_order_id, v_order.status, p_status;
+    END IF;
+
+    IF v_order.status = 'Pending' AND v_order.billed_invoice_id IS NOT NULL THEN
+        PERFORM public.unbill_store_order(p_order_id);
+    END IF;
+
+    IF p_status = 'Paid' THEN
+        -- Manual confirmation, e.g. cash at the counter
+        IF v_order.stock_state = 'released' THEN
+            PERFORM public.move_order_stock(p_order_id, 'reserved');
+        END IF;
+        UPDATE public.orders
+        SET paid_at = NOW(), paid_amount = COALESCE(paid_amount, total_amount), reserved_until = NULL
+        WHERE id = p_order_id;
+    ELSIF p_status = 'Delivered' THEN
+        PERFORM public.move_order_stock(p_order_id, 'issued');
+        UPDATE public.orders SET delivered_at = NOW() WHERE id = p_order_id;
+    ELSIF p_status = 'Returned' THEN
+        PERFORM public.move_order_stock(p_order_id, 'restocked');
+        UPDATE public.orders SET returned_at = NOW() WHERE id = p_order_id;
+    ELSIF p_status = 'Cancelled' THEN
+        IF v_order.stock_state = 'reserved' THEN
+            PERFORM public.move_order_stock(p_order_id, 'released');
+        ELSIF v_order.stock_state = 'issued' THEN
+            PERFORM public.move_order_stock(p_order_id, 'restocked');
+        END IF;
+        UPDATE public.orders
+        SET cancelled_at = NOW(), cancel_reason = COALESCE(p_note, CASE WHEN v_is_staff THEN 'staff' ELSE 'buyer' END)
+        WHERE id = p_order_id;
+    END IF;
+
+    UPDATE public.orders SET status = p_status, updated_at = NOW() WHERE id = p_order_id;
+
+    INSERT INTO public.order_notes (order_id, author_id, note)
+    VALUES (p_order_id, auth.uid(), 'Status changed from ' || v_order.status || ' to ' || p_status
+            || COALESCE(': ' || p_note, ''));
+
+    RETURN (SELECT to_jsonb(o) FROM public.orders o WHERE o.id = p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_order_status(INT, TEXT, TEXT) TO authenticated;
+
+COMMENT ON COLUMN public.students.store_spend_limit IS 'Most that store orders may add to this student''s bill per term; NULL disables billing';
+COMMENT ON COLUMN public.orders.billed_invoice_id IS 'Invoice the order was added to; the order turns Paid when its lines are settled';
+COMMENT ON COLUMN public.invoice_line_items.store_order_id IS 'Store order this line bills for';
+COMMENT ON FUNCTION public.bill_store_order_to_fees IS 'Adds a Pending store order to the student''s current-term invoice within their spending limit';
+COMMENT ON FUNCTION public.set_store_spend_limit IS 'Sets the per-term store spending limit a parent allows on a child''s school bill';
+COMMENT ON FUNCTION public.get_store_billing_allowance IS 'Store spending limit, amount billed this term and remaining allowance for a student';
@@ -0,0 +1,401 @@
+-- ============================================
+-- Outbound Message Queue
+-- ============================================
+-- Every parent and staff notification is written to message_outbox first and delivered by the
+-- process-message-outbox edge function, so closing the browser mid-send no longer loses the
+-- rest of a bulk run. Each row is one message to one phone number:
+--   queued  -> waiting for its send time (scheduled, quiet hours or retry backoff)
+--   sending -> claimed by a processor run
+--   sent    -> accepted by the provider
+--   failed  -> last attempt failed; retried at next_attempt_at
+--   dead    -> gave up (max_attempts reached or a permanent error such as a bad number)
+--
+-- kudisms_settings.quiet_hours holds the school's quiet window in Lagos time, e.g.
+-- {"enabled": true, "start": "21:00", "end": "07:00"}. Messages due inside it wait until it ends;
+-- emergency broadcasts skip it.
+
+ALTER TABLE public.kudisms_settings
+    ADD COLUMN IF NOT EXISTS quiet_hours JSONB;
+
+CREATE TABLE IF NOT EXISTS public.message_outbox (
+    id BIGSERIAL PRIMARY KEY,
+    school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE NOT NULL,
+    campus_id INTEGER REFERENCES public.campuses(id) ON DELETE SET NULL,
+    student_id INTEGER REFERENCES public.students(id) ON DELETE SET NULL,
+    batch_id UUID NOT NULL,
+    recipient_phone TEXT NOT NULL,
+    recipient_name TEXT,
+    notification_type TEXT NOT NULL DEFAULT 'general' CHECK (notification_type IN (
+        'homework_reminder', 'homework_missing', 'notes_incomplete', 'lesson_published',
+        'payment_receipt', 'attendance_present', 'absentee_alert', 'late_arrival',
+        'subject_absentee', 'subject_late', 'report_card_ready', 'emergency_broadcast',
+        'student_credentials', 'password_reset', 'payslip_published', 'dva_account_created',
+        'cover_assigned', 'general'
+    )),
+    template_name TEXT,
+    message_content TEXT,
+    channel TEXT NOT NULL DEFAULT 'sms' CHECK (channel IN ('sms', 'whatsapp', 'both')),
+    enable_fallback BOOLEAN NOT NULL DEFAULT TRUE,
+    whatsapp_template_code TEXT,
+    whatsapp_params TEXT,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    send_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    bypass_quiet_hours BOOLEAN NOT NULL DEFAULT FALSE,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    used_channel TEXT,
+    fallback_used BOOLEAN NOT NULL DEFAULT FALSE,
+    last_error TEXT,
+    provider_response JSONB,
+    reference_id INTEGER,
+    sent_by TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_outbox_due
+    ON public.message_outbox(next_attempt_at) WHERE status IN ('queued', 'failed');
+CREATE INDEX IF NOT EXISTS idx_message_outbox_school_created ON public.message_outbox(school_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_outbox_batch ON public.message_outbox(batch_id);
+CREATE INDEX IF NOT EXISTS idx_message_outbox_student_type ON public.message_outbox(student_id, notification_type, created_at DESC);
+
+ALTER TABLE public.message_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by enqueue_notifications and updated by the processor only
+DROP POLICY IF EXISTS "School staff can view outbox" ON public.message_outbox;
+CREATE POLICY "School staff can view outbox" ON public.message_outbox
+FOR SELECT
+USING (
+    school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+);
+
+-- NotificationHistory follows delivery live
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'message_outbox'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.message_outbox;
+    END IF;
+END $$;
+
+-- ============================================
+-- Quiet hours and backoff
+-- ============================================
+
+-- Earliest time at or after p_at that falls outside the quiet window.
+-- Mirrors quietHoursRelease() in src/services/messageOutbox.ts
+CREATE OR REPLACE FUNCTION public.outbox_release_time(p_quiet JSONB, p_at TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    v_local TIMESTAMP := p_at AT TIME ZONE 'Africa/Lagos';
+    v_time TIME := (p_at AT TIME ZONE 'Africa/Lagos')::TIME;
+    v_start TIME;
+    v_end TIME;
+BEGIN
+    IF p_quiet IS NULL OR NOT COALESCE((p_quiet->>'enabled')::BOOLEAN, FALSE) THEN
+        RETURN p_at;
+    END IF;
+    v_start := (p_quiet->>'start')::TIME;
+    v_end := (p_quiet->>'end')::TIME;
+    IF v_start IS NULL OR v_end IS NULL OR v_start = v_end THEN
+        RETURN p_at;
+    END IF;
+
+    IF v_start < v_end THEN
+        -- Daytime window, e.g. 13:00-14:00
+        IF v_time >= v_start AND v_time < v_end THEN
+            RETURN (v_local::DATE + v_end) AT TIME ZONE 'Africa/Lagos';
+        END IF;
+    ELSIF v_time >= v_start THEN
+        -- Overnight window, e.g. 21:00-07:00, evening side
+        RETURN ((v_local::DATE + 1) + v_end) AT TIME ZONE 'Africa/Lagos';
+    ELSIF v_time < v_end THEN
+        RETURN (v_local::DATE + v_end) AT TIME ZONE 'Africa/Lagos';
+    END IF;
+    RETURN p_at;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Minutes to wait after a failed attempt: 1, 4, 16, 64, then 256 (capped at 6 hours).
+-- Mirrors outboxRetryDelayMinutes() in src/services/messageOutbox.ts
+CREATE OR REPLACE FUNCTION public.outbox_retry_delay_minutes(p_attempts INT)
+RETURNS INT AS $$
+    SELECT LEAST(power(4, GREATEST(p_attempts, 1) - 1)::INT, 360);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Messaging settings for a campus, falling back to the school-wide row
+CREATE OR REPLACE FUNCTION public.outbox_settings(p_school_id INT, p_campus_id INT)
+RETURNS public.kudisms_settings AS $$
+    SELECT s.*
+    FROM public.kudisms_settings s
+    WHERE s.school_id = p_school_id
+      AND s.is_active
+      AND (s.campus_id IS NULL OR s.campus_id = p_campus_id)
+    ORDER BY (s.campus_id IS NOT NULL) DESC, s.id
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.outbox_settings(INT, INT) FROM PUBLIC;
+
+-- ============================================
+-- Enqueue
+-- ============================================
+-- p_messages: [{ "recipient_phone": "0803...", "notification_type": "absentee_alert",
+--   "template_name": "absentee_alert", "variables": { "student_name": "Ada" },
+--   "student_id": 12, "campus_id": null, "reference_id": null, "recipient_name": "Mrs Obi" }, ...]
+-- or { "message": "..." } instead of a template. Templates are rendered here and channel,
+-- fallback and WhatsApp template code come from kudisms_settings at enqueue time.
+CREATE OR REPLACE FUNCTION public.enqueue_notifications(
+    p_messages JSONB,
+    p_send_after TIMESTAMPTZ DEFAULT NULL,
+    p_bypass_quiet_hours BOOLEAN DEFAULT FALSE,
+    p_sent_by TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_caller_school INT;
+    v_batch_id UUID := gen_random_uuid();
+    v_msg JSONB;
+    v_school_id INT;
+    v_campus_id INT;
+    v_type TEXT;
+    v_settings public.kudisms_settings;
+    v_template RECORD;
+    v_content TEXT;
+    v_params TEXT;
+    v_var RECORD;
+    v_error TEXT;
+    v_send_after TIMESTAMPTZ := GREATEST(COALESCE(p_send_after, NOW()), NOW());
+    v_queued INT := 0;
+    v_rejected INT := 0;
+BEGIN
+    SELECT school_id INTO v_caller_school FROM public.user_profiles WHERE id = auth.uid();
+    IF v_caller_school IS NULL AND auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Only school staff can send notifications';
+    END IF;
+    IF p_messages IS NULL OR jsonb_typeof(p_messages) <> 'array' THEN
+        RAISE EXCEPTION 'p_messages must be a JSON array';
+    END IF;
+
+    FOR v_msg IN SELECT * FROM jsonb_array_elements(p_messages) LOOP
+        v_school_id := COALESCE(v_caller_school, (v_msg->>'school_id')::INT);
+        v_campus_id := (v_msg->>'campus_id')::INT;
+        v_type := COALESCE(v_msg->>'notification_type', 'general');
+        v_settings := public.outbox_settings(v_school_id, v_campus_id);
+        v_content := v_msg->>'message';
+        v_params := NULL;
+        v_error := NULL;
+
+        IF v_msg->>'template_name' IS NOT NULL THEN
+            SELECT message_content, variables INTO v_template
+            FROM public.sms_templates
+            WHERE school_id = v_school_id AND template_name = v_msg->>'template_name' AND is_active;
+
+            IF NOT FOUND THEN
+                v_error := 'Template ' || (v_msg->>'template_name') || ' not found';
+            ELSE
+                v_content := v_template.message_content;
+                FOR v_var IN SELECT key, value FROM jsonb_each_text(COALESCE(v_msg->'variables', '{}'::jsonb)) LOOP
+                    v_content := replace(v_content, '{{' || v_var.key || '}}', COALESCE(v_var.value, ''));
+                END LOOP;
+                -- KudiSMS WhatsApp templates take the values in template variable order
+                SELECT string_agg(COALESCE(v_msg->'variables'->>name, ''), ',' ORDER BY ord) INTO v_params
+                FROM unnest(v_template.variables) WITH ORDINALITY AS t(name, ord);
+            END IF;
+        END IF;
+
+        IF v_error IS NULL AND COALESCE(trim(v_msg->>'recipient_phone'), '') = '' THEN
+            v_error := 'No recipient phone number';
+        END IF;
+        IF v_error IS NULL AND COALESCE(v_content, '') = '' THEN
+            v_error := 'Message is empty';
+        END IF;
+
+        INSERT INTO public.message_outbox (
+            school_id, campus_id, student_id, batch_id, recipient_phone, recipient_name, notification_type,
+            template_name, message_content, channel, enable_fallback, whatsapp_template_code, whatsapp_params,
+            status, send_after, next_attempt_at, bypass_quiet_hours, last_error, reference_id, sent_by
+        )
+        VALUES (
+            v_school_id, v_campus_id, (v_msg->>'student_id')::INT, v_batch_id,
+            COALESCE(trim(v_msg->>'recipient_phone'), ''), v_msg->>'recipient_name', v_type,
+            v_msg->>'template_name', v_content,
+            COALESCE(v_settings.notification_channels->>v_type, 'sms'),
+            COALESCE(v_settings.enable_fallback, TRUE),
+            v_settings.whatsapp_template_codes->>v_type,
+            v_params,
+            CASE WHEN v_error IS NULL THEN 'queued' ELSE 'dead' END,
+            v_send_after,
+            CASE WHEN p_bypass_quiet_hours THEN v_send_after
+                 ELSE public.outbox_release_time(v_settings.quiet_hours, v_send_after) END,
+            p_bypass_quiet_hours,
+            v_error,
+            (v_msg->>'reference_id')::INT,
+            COALESCE(p_sent_by, auth.uid()::TEXT)
+        );
+
+        IF v_error IS NULL THEN
+            v_queued := v_queued + 1;
+        ELSE
+            v_rejected := v_rejected + 1;
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object('batch_id', v_batch_id, 'queued', v_queued, 'rejected', v_rejected);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.enqueue_notifications(JSONB, TIMESTAMPTZ, BOOLEAN, TEXT) TO authenticated;
+
+-- Puts a failed or dead message back in the queue for another round of attempts
+CREATE OR REPLACE FUNCTION public.retry_outbox_message(p_id BIGINT)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.message_outbox
+    SET status = 'queued',
+        attempts = 0,
+        next_attempt_at = NOW(),
+        locked_at = NULL,
+        updated_at = NOW()
+    WHERE id = p_id
+      AND status IN ('failed', 'dead')
+      AND school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid());
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Message % cannot be retried', p_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.retry_outbox_message(BIGINT) TO authenticated;
+
+-- ============================================
+-- Processor (service role only)
+-- ============================================
+
+-- Claims up to p_limit due messages for one processor run. Messages that became due inside
+-- quiet hours are pushed to the end of the window instead. Rows stuck in 'sending' for 10
+-- minutes (a run that died) are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_outbox_messages(p_limit INT DEFAULT 50)
+RETURNS SETOF public.message_outbox AS $$
+DECLARE
+    v_row RECORD;
+    v_release TIMESTAMPTZ;
+BEGIN
+    IF auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'The outbox is processed by the process-message-outbox function only';
+    END IF;
+
+    FOR v_row IN
+        SELECT o.id, o.bypass_quiet_hours, o.school_id, o.campus_id
+        FROM public.message_outbox o
+        WHERE (o.status IN ('queued', 'failed') AND o.next_attempt_at <= NOW())
+           OR (o.status = 'sending' AND o.locked_at < NOW() - INTERVAL '10 minutes')
+        ORDER BY o.next_attempt_at, o.id
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        IF NOT v_row.bypass_quiet_hours THEN
+            v_release := public.outbox_release_time((public.outbox_settings(v_row.school_id, v_row.campus_id)).quiet_hours, NOW());
+            IF v_release > NOW() THEN
+                UPDATE public.message_outbox
+                SET status = CASE WHEN status = 'sending' THEN 'queued' ELSE status END,
+                    next_attempt_at = v_release, locked_at = NULL, updated_at = NOW()
+                WHERE id = v_row.id;
+                CONTINUE;
+            END IF;
+        END IF;
+
+        RETURN QUERY
+        UPDATE public.message_outbox
+        SET status = 'sending', attempts = attempts + 1, locked_at = NOW(), updated_at = NOW()
+        WHERE id = v_row.id
+        RETURNING *;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Records the result of one delivery attempt
+CREATE OR REPLACE FUNCTION public.complete_outbox_message(
+    p_id BIGINT,
+    p_success BOOLEAN,
+    p_used_channel TEXT DEFAULT NULL,
+    p_fallback_used BOOLEAN DEFAULT FALSE,
+    p_error TEXT DEFAULT NULL,
+    p_permanent BOOLEAN DEFAULT FALSE,
+    p_response JSONB DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_row RECORD;
+    v_status TEXT;
+BEGIN
+    IF auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'The outbox is processed by the process-message-outbox function only';
+    END IF;
+
+    SELECT * INTO v_row FROM public.message_outbox WHERE id = p_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Outbox message % not found', p_id;
+    END IF;
+
+    v_status := CASE
+        WHEN p_success THEN 'sent'
+        WHEN p_permanent OR v_row.attempts >= v_row.max_attempts THEN 'dead'
+        ELSE 'failed'
+    END;
+
+    UPDATE public.message_outbox
+    SET status = v_status,
+        used_channel = COALESCE(p_used_channel, used_channel),
+        fallback_used = p_fallback_used,
+        last_error = CASE WHEN p_success THEN NULL ELSE p_error END,
+        provider_response = p_response,
+        sent_at = CASE WHEN p_success THEN NOW() ELSE sent_at END,
+        next_attempt_at = CASE WHEN v_status = 'failed'
+                               THEN NOW() + make_interval(mins => public.outbox_retry_delay_minutes(v_row.attempts))
+                               ELSE next_attempt_at END,
+        locked_at = NULL,
+        updated_at = NOW()
+    WHERE id = p_id;
+
+    RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deliver every minute where pg_cron and pg_net are installed. Set app.settings.functions_url
+-- (https://<project>.supabase.co/functions/v1) and app.settings.service_role_key for the job;
+-- senders also trigger a run straight after queuing.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        PERFORM cron.schedule('process-message-outbox', '* * * * *', $job$
+            SELECT net.http_post(
+                url := current_setting('app.settings.functions_url') || '/process-message-outbox',
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+                ),
+                body := '{}'::jsonb
+            )
+            WHERE EXISTS (
+                SELECT 1 FROM public.message_outbox
+                WHERE (status IN ('queued', 'failed') AND next_attempt_at <= NOW())
+                   OR (status = 'sending' AND locked_at < NOW() - INTERVAL '10 minutes')
+            )
+        $job$);
+    END IF;
+END $$;
+
+COMMENT ON TABLE public.message_outbox IS 'Durable queue of outbound SMS/WhatsApp notifications, one row per recipient';
+COMMENT ON COLUMN public.message_outbox.batch_id IS 'Groups the messages queued by one send action so progress can be followed';
+COMMENT ON COLUMN public.kudisms_settings.quiet_hours IS 'Quiet window in Lagos time, e.g. {"enabled": true, "start": "21:00", "end": "07:00"}';
+COMMENT ON FUNCTION public.enqueue_notifications IS 'Renders and queues notifications; returns the batch_id';
+COMMENT ON FUNCTION public.claim_outbox_messages IS 'Claims due outbox messages for delivery, honouring quiet hours';
+COMMENT ON FUNCTION public.complete_outbox_message IS 'Records a delivery attempt and schedules the retry or gives up';
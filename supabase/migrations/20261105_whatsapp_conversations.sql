@@ -0,0 +1,413 @@
+-- ============================================
+-- Two-way WhatsApp conversations (Green-API)
+-- ============================================
+-- Green-API posts every incoming message to the greenapi-webhook edge function, which stores it
+-- through record_inbound_whatsapp. Messages are threaded per parent phone number
+-- (whatsapp_conversations) and linked to every student whose father_phone / mother_phone
+-- (or the legacy parent_phone_number_1/2) matches, so siblings share one family thread.
+-- Replies to sendInteractiveButtons prompts are also kept as structured answers in
+-- whatsapp_button_answers.
+
+-- Sent by Green-API as "Authorization: Bearer <token>" when set as webhookUrlToken in the console
+ALTER TABLE public.greenapi_settings
+    ADD COLUMN IF NOT EXISTS webhook_token TEXT NOT NULL DEFAULT replace(gen_random_uuid()::TEXT, '-', '');
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_conversations (
+    id BIGSERIAL PRIMARY KEY,
+    school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE NOT NULL,
+    campus_id INTEGER REFERENCES public.campuses(id) ON DELETE SET NULL,
+    chat_id TEXT NOT NULL,
+    phone TEXT NOT NULL,
+    contact_name TEXT,
+    student_ids INTEGER[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+    assigned_to UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    unread_count INTEGER NOT NULL DEFAULT 0,
+    last_message_at TIMESTAMP WITH TIME ZONE,
+    last_message_preview TEXT,
+    last_read_at TIMESTAMP WITH TIME ZONE,
+    last_read_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (school_id, chat_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_conversations_inbox
+    ON public.whatsapp_conversations(school_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_conversations_assigned ON public.whatsapp_conversations(assigned_to);
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_messages (
+    id BIGSERIAL PRIMARY KEY,
+    conversation_id BIGINT REFERENCES public.whatsapp_conversations(id) ON DELETE CASCADE NOT NULL,
+    school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE NOT NULL,
+    direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+    -- Green-API idMessage; inbound webhooks can be delivered more than once
+    provider_message_id TEXT,
+    message_type TEXT NOT NULL DEFAULT 'text',
+    body TEXT,
+    media_url TEXT,
+    button_id TEXT,
+    button_text TEXT,
+    -- The buttons offered on an outbound prompt: [{ "buttonId": "ack", "buttonText": "Acknowledge" }]
+    buttons JSONB,
+    quoted_message_id TEXT,
+    status TEXT NOT NULL DEFAULT 'received'
+        CHECK (status IN ('received', 'sent', 'delivered', 'read', 'failed')),
+    sent_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    read_at TIMESTAMP WITH TIME ZONE,
+    raw JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_messages_provider_id
+    ON public.whatsapp_messages(school_id, provider_message_id) WHERE provider_message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_thread ON public.whatsapp_messages(conversation_id, created_at);
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_button_answers (
+    id BIGSERIAL PRIMARY KEY,
+    school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE NOT NULL,
+    conversation_id BIGINT REFERENCES public.whatsapp_conversations(id) ON DELETE CASCADE NOT NULL,
+    message_id BIGINT REFERENCES public.whatsapp_messages(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    prompt_message_id BIGINT REFERENCES public.whatsapp_messages(id) ON DELETE SET NULL,
+    student_ids INTEGER[] NOT NULL DEFAULT '{}',
+    button_id TEXT,
+    button_text TEXT NOT NULL,
+    answered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_button_answers_prompt ON public.whatsapp_button_answers(prompt_message_id);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_button_answers_school ON public.whatsapp_button_answers(school_id, answered_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_canned_replies (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_canned_replies_school ON public.whatsapp_canned_replies(school_id);
+
+ALTER TABLE public.whatsapp_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.whatsapp_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.whatsapp_button_answers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.whatsapp_canned_replies ENABLE ROW LEVEL SECURITY;
+
+-- Staff read everything for their school; writes go through the functions below
+DROP POLICY IF EXISTS "School staff can view WhatsApp conversations" ON public.whatsapp_conversations;
+CREATE POLICY "School staff can view WhatsApp conversations" ON public.whatsapp_conversations
+FOR SELECT
+USING (school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid()));
+
+DROP POLICY IF EXISTS "School staff can view WhatsApp messages" ON public.whatsapp_messages;
+CREATE POLICY "School staff can view WhatsApp messages" ON public.whatsapp_messages
+FOR SELECT
+USING (school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid()));
+
+DROP POLICY IF EXISTS "School staff can view WhatsApp button answers" ON public.whatsapp_button_answers;
+CREATE POLICY "School staff can view WhatsApp button answers" ON public.whatsapp_button_answers
+FOR SELECT
+USING (school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid()));
+
+DROP POLICY IF EXISTS "School staff can manage canned replies" ON public.whatsapp_canned_replies;
+CREATE POLICY "School staff can manage canned replies" ON public.whatsapp_canned_replies
+FOR ALL
+USING (school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid()))
+WITH CHECK (school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid()));
+
+-- The inbox follows new messages live
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        FOREACH v_table IN ARRAY ARRAY['whatsapp_conversations', 'whatsapp_messages'] LOOP
+            IF NOT EXISTS (
+                SELECT 1 FROM pg_publication_tables
+                WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+            ) THEN
+                EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+            END IF;
+        END LOOP;
+    END IF;
+END $$;
+
+-- ============================================
+-- Matching parents to students
+-- ============================================
+
+-- Last ten digits, so 0803..., 234803... and +234 803... compare equal.
+-- Mirrors phoneMatchKey() in src/services/whatsappInbox.ts
+CREATE OR REPLACE FUNCTION public.phone_match_key(p_phone TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(right(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 10), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.students_for_parent_phone(p_school_id INT, p_phone TEXT)
+RETURNS INTEGER[] AS $$
+    SELECT COALESCE(array_agg(s.id ORDER BY s.id), '{}')
+    FROM public.students s
+    WHERE s.school_id = p_school_id
+      AND public.phone_match_key(p_phone) IN (
+          public.phone_match_key(s.father_phone),
+          public.phone_match_key(s.mother_phone),
+          public.phone_match_key(s.parent_phone_number_1),
+          public.phone_match_key(s.parent_phone_number_2)
+      );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.students_for_parent_phone(INT, TEXT) FROM PUBLIC;
+
+-- ============================================
+-- Webhook (service role only)
+-- ============================================
+
+-- Finds or opens the family thread for a chat and refreshes the linked students
+CREATE OR REPLACE FUNCTION public.upsert_whatsapp_conversation(
+    p_school_id INT,
+    p_campus_id INT,
+    p_chat_id TEXT,
+    p_contact_name TEXT DEFAULT NULL
+)
+RETURNS public.whatsapp_conversations AS $$
+DECLARE
+    v_phone TEXT := split_part(p_chat_id, '@', 1);
+    v_conversation public.whatsapp_conversations;
+BEGIN
+    INSERT INTO public.whatsapp_conversations (school_id, campus_id, chat_id, phone, contact_name, student_ids)
+    VALUES (p_school_id, p_campus_id, p_chat_id, v_phone, NULLIF(p_contact_name, ''),
+            public.students_for_parent_phone(p_school_id, v_phone))
+    ON CONFLICT (school_id, chat_id) DO UPDATE
+    SET contact_name = COALESCE(NULLIF(EXCLUDED.contact_name, ''), whatsapp_conversations.contact_name),
+        student_ids = EXCLUDED.student_ids,
+        updated_at = NOW()
+    RETURNING * INTO v_conversation;
+    RETURN v_conversation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.upsert_whatsapp_conversation(INT, INT, TEXT, TEXT) FROM PUBLIC;
+
+-- Stores one incoming message. Button replies are also recorded against the prompt they
+-- answer (matched through the quoted Green-API message id). Returns the message id, or NULL
+-- when Green-API re-delivered a message that is already stored.
+CREATE OR REPLACE FUNCTION public.record_inbound_whatsapp(
+    p_school_id INT,
+    p_campus_id INT,
+    p_chat_id TEXT,
+    p_sender_name TEXT,
+    p_provider_message_id TEXT,
+    p_message_type TEXT,
+    p_body TEXT,
+    p_media_url TEXT DEFAULT NULL,
+    p_button_id TEXT DEFAULT NULL,
+    p_button_text TEXT DEFAULT NULL,
+    p_quoted_message_id TEXT DEFAULT NULL,
+    p_sent_at TIMESTAMPTZ DEFAULT NULL,
+    p_raw JSONB DEFAULT NULL
+)
+RETURNS BIGINT AS $$
+DECLARE
+    v_conversation public.whatsapp_conversations;
+    v_message_id BIGINT;
+    v_prompt_id BIGINT;
+    v_at TIMESTAMPTZ := COALESCE(p_sent_at, NOW());
+BEGIN
+    IF auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Inbound WhatsApp messages are recorded by the greenapi-webhook function only';
+    END IF;
+
+    v_conversation := public.upsert_whatsapp_conversation(p_school_id, p_campus_id, p_chat_id, p_sender_name);
+
+    INSERT INTO public.whatsapp_messages (
+        conversation_id, school_id, direction, provider_message_id, message_type, body, media_url,
+        button_id, button_text, quoted_message_id, status, raw, created_at
+    )
+    VALUES (
+        v_conversation.id, p_school_id, 'inbound', p_provider_message_id, COALESCE(p_message_type, 'text'), p_body,
+        p_media_url, p_button_id, p_button_text, p_quoted_message_id, 'received', p_raw, v_at
+    )
+    ON CONFLICT (school_id, provider_message_id) WHERE provider_message_id IS NOT NULL DO NOTHING
+    RETURNING id INTO v_message_id;
+
+    IF v_message_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE public.whatsapp_conversations
+    SET unread_count = unread_count + 1,
+        status = 'open',
+        last_message_at = v_at,
+        last_message_preview = left(COALESCE(p_button_text, p_body, '[' || COALESCE(p_message_type, 'message') || ']'), 140),
+        updated_at = NOW()
+    WHERE id = v_conversation.id;
+
+    IF p_button_text IS NOT NULL THEN
+        SELECT id INTO v_prompt_id
+        FROM public.whatsapp_messages
+        WHERE school_id = p_school_id
+          AND direction = 'outbound'
+          AND p_quoted_message_id IS NOT NULL
+          AND provider_message_id = p_quoted_message_id;
+
+        INSERT INTO public.whatsapp_button_answers (
+            school_id, conversation_id, message_id, prompt_message_id, student_ids, button_id, button_text, answered_at
+        )
+        VALUES (
+            p_school_id, v_conversation.id, v_message_id, v_prompt_id, v_conversation.student_ids,
+            p_button_id, p_button_text, v_at
+        );
+    END IF;
+
+    RETURN v_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Delivery receipts for messages the school sent (outgoingMessageStatus webhooks)
+CREATE OR REPLACE FUNCTION public.update_whatsapp_message_status(
+    p_school_id INT,
+    p_provider_message_id TEXT,
+    p_status TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Delivery receipts are recorded by the greenapi-webhook function only';
+    END IF;
+    IF p_status NOT IN ('sent', 'delivered', 'read', 'failed') THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.whatsapp_messages
+    SET status = p_status
+    WHERE school_id = p_school_id
+      AND provider_message_id = p_provider_message_id
+      AND direction = 'outbound'
+      -- Receipts can arrive out of order; never move a message backwards
+      AND ((p_status = 'failed' AND status = 'sent')
+           OR array_position(ARRAY['sent', 'delivered', 'read'], p_status)
+              > COALESCE(array_position(ARRAY['sent', 'delivered', 'read'], status), 0));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Staff actions
+-- ============================================
+
+-- Records a message staff sent through Green-API (a reply or a button prompt) in its family thread
+CREATE OR REPLACE FUNCTION public.record_outbound_whatsapp(
+    p_chat_id TEXT,
+    p_body TEXT,
+    p_provider_message_id TEXT,
+    p_buttons JSONB DEFAULT NULL,
+    p_quoted_message_id TEXT DEFAULT NULL,
+    p_campus_id INT DEFAULT NULL
+)
+RETURNS BIGINT AS $$
+DECLARE
+    v_school_id INT;
+    v_conversation public.whatsapp_conversations;
+    v_message_id BIGINT;
+BEGIN
+    SELECT school_id INTO v_school_id FROM public.user_profiles WHERE id = auth.uid();
+    IF v_school_id IS NULL THEN
+        RAISE EXCEPTION 'Only school staff can send WhatsApp messages';
+    END IF;
+
+    v_conversation := public.upsert_whatsapp_conversation(v_school_id, p_campus_id, p_chat_id, NULL);
+
+    INSERT INTO public.whatsapp_messages (
+        conversation_id, school_id, direction, provider_message_id, message_type, body, buttons,
+        quoted_message_id, status, sent_by
+    )
+    VALUES (
+        v_conversation.id, v_school_id, 'outbound', p_provider_message_id,
+        CASE WHEN p_buttons IS NULL THEN 'text' ELSE 'buttons' END,
+        p_body, p_buttons, p_quoted_message_id, 'sent', auth.uid()
+    )
+    RETURNING id INTO v_message_id;
+
+    UPDATE public.whatsapp_conversations
+    SET last_message_at = NOW(),
+        last_message_preview = left(p_body, 140),
+        updated_at = NOW()
+    WHERE id = v_conversation.id;
+
+    RETURN v_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.record_outbound_whatsapp(TEXT, TEXT, TEXT, JSONB, TEXT, INT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.mark_whatsapp_conversation_read(p_conversation_id BIGINT)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.whatsapp_conversations
+    SET unread_count = 0, last_read_at = NOW(), last_read_by = auth.uid(), updated_at = NOW()
+    WHERE id = p_conversation_id
+      AND school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid());
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conversation % not found', p_conversation_id;
+    END IF;
+
+    UPDATE public.whatsapp_messages
+    SET read_at = NOW()
+    WHERE conversation_id = p_conversation_id AND direction = 'inbound' AND read_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.mark_whatsapp_conversation_read(BIGINT) TO authenticated;
+
+-- p_assignee NULL unassigns; p_status NULL leaves the status alone
+CREATE OR REPLACE FUNCTION public.update_whatsapp_conversation(
+    p_conversation_id BIGINT,
+    p_assignee UUID DEFAULT NULL,
+    p_unassign BOOLEAN DEFAULT FALSE,
+    p_status TEXT DEFAULT NULL
+)
+RETURNS public.whatsapp_conversations AS $$
+DECLARE
+    v_school_id INT;
+    v_conversation public.whatsapp_conversations;
+BEGIN
+    SELECT school_id INTO v_school_id FROM public.user_profiles WHERE id = auth.uid();
+
+    IF p_assignee IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.user_profiles WHERE id = p_assignee AND school_id = v_school_id
+    ) THEN
+        RAISE EXCEPTION 'Conversations can only be assigned to staff of this school';
+    END IF;
+    IF p_status IS NOT NULL AND p_status NOT IN ('open', 'closed') THEN
+        RAISE EXCEPTION 'Unknown conversation status %', p_status;
+    END IF;
+
+    UPDATE public.whatsapp_conversations
+    SET assigned_to = CASE WHEN p_unassign THEN NULL ELSE COALESCE(p_assignee, assigned_to) END,
+        status = COALESCE(p_status, status),
+        updated_at = NOW()
+    WHERE id = p_conversation_id AND school_id = v_school_id
+    RETURNING * INTO v_conversation;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conversation % not found', p_conversation_id;
+    END IF;
+
+    IF p_assignee IS NOT NULL OR p_unassign THEN
+        INSERT INTO public.audit_log (school_id, actor_user_id, action, details)
+        VALUES (v_school_id, auth.uid(), 'whatsapp_conversation_assigned',
+                jsonb_build_object('conversation_id', p_conversation_id, 'assigned_to', v_conversation.assigned_to));
+    END IF;
+
+    RETURN v_conversation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.update_whatsapp_conversation(BIGINT, UUID, BOOLEAN, TEXT) TO authenticated;
+
+COMMENT ON TABLE public.whatsapp_conversations IS 'One WhatsApp thread per parent phone, linked to the students that phone belongs to';
+COMMENT ON TABLE public.whatsapp_messages IS 'Inbound and outbound WhatsApp messages in a conversation';
+COMMENT ON TABLE public.whatsapp_button_answers IS 'Structured answers from interactive button replies, linked to the prompt they answer';
+COMMENT ON TABLE public.whatsapp_canned_replies IS 'Saved replies staff can drop into a conversation';
+COMMENT ON COLUMN public.greenapi_settings.webhook_token IS 'Bearer token Green-API sends with webhooks (webhookUrlToken)';
+COMMENT ON FUNCTION public.record_inbound_whatsapp IS 'Stores an incoming Green-API message in its family thread';
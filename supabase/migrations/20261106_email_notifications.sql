@@ -0,0 +1,417 @@
+-- ============================================
+-- Email Notification Channel
+-- ============================================
+-- Email joins SMS and WhatsApp as a delivery channel for every notification type.
+--   * smtp_settings holds the SMTP server per school, optionally overridden per campus
+--     (looked up the same way as kudisms_settings: campus row first, then the school-wide row)
+--   * email_templates holds an HTML email per notification type; types without one are sent
+--     as the rendered SMS text wrapped in the school email layout
+--   * kudisms_settings.notification_channels now stores a list of channels per type, e.g.
+--     {"report_card_ready": ["whatsapp", "email"]}. Each listed channel gets its own outbox
+--     row. The old single values are converted below; 'both' meant WhatsApp with SMS
+--     fallback, which enable_fallback already provides
+--   * message_outbox rows for email carry the address, subject, HTML and the documents to
+--     attach. Documents ({"document": "receipt", "id": 42}) are rendered to PDF by the
+--     send-email function when the message goes out
+
+CREATE TABLE IF NOT EXISTS public.smtp_settings (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE NOT NULL,
+    campus_id INTEGER REFERENCES public.campuses(id) ON DELETE CASCADE,
+    host TEXT NOT NULL,
+    port INTEGER NOT NULL DEFAULT 587,
+    security TEXT NOT NULL DEFAULT 'starttls' CHECK (security IN ('starttls', 'tls', 'none')),
+    username TEXT,
+    password TEXT,
+    from_email TEXT NOT NULL,
+    from_name TEXT,
+    reply_to TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_smtp_settings_school_campus
+    ON public.smtp_settings(school_id, COALESCE(campus_id, 0));
+
+CREATE TABLE IF NOT EXISTS public.email_templates (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE NOT NULL,
+    notification_type TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    html_body TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(school_id, notification_type)
+);
+
+ALTER TABLE public.message_outbox
+    ADD COLUMN IF NOT EXISTS recipient_email TEXT,
+    ADD COLUMN IF NOT EXISTS email_subject TEXT,
+    ADD COLUMN IF NOT EXISTS email_html TEXT,
+    ADD COLUMN IF NOT EXISTS attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.message_outbox DROP CONSTRAINT IF EXISTS message_outbox_channel_check;
+ALTER TABLE public.message_outbox
+    ADD CONSTRAINT message_outbox_channel_check CHECK (channel IN ('sms', 'whatsapp', 'email', 'both'));
+
+ALTER TABLE public.smtp_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+-- The SMTP password is only visible to admins, like the KudiSMS token
+DROP POLICY IF EXISTS "Admins can manage smtp settings" ON public.smtp_settings;
+CREATE POLICY "Admins can manage smtp settings" ON public.smtp_settings
+FOR ALL
+USING (
+    school_id IN (
+        SELECT school_id FROM public.user_profiles
+        WHERE id = auth.uid()
+        AND role = 'Admin'
+    )
+);
+
+DROP POLICY IF EXISTS "School staff can view email templates" ON public.email_templates;
+CREATE POLICY "School staff can view email templates" ON public.email_templates
+FOR SELECT
+USING (
+    school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Admins can manage email templates" ON public.email_templates;
+CREATE POLICY "Admins can manage email templates" ON public.email_templates
+FOR ALL
+USING (
+    school_id IN (
+        SELECT school_id FROM public.user_profiles
+        WHERE id = auth.uid()
+        AND role = 'Admin'
+    )
+);
+
+-- ============================================
+-- Channel lists
+-- ============================================
+
+-- Channels configured for one notification type, in delivery order. Accepts the list form and
+-- the old single values. Mirrors normalizeChannels() in src/services/emailNotifications.ts
+CREATE OR REPLACE FUNCTION public.notification_channel_list(p_value JSONB)
+RETURNS TEXT[] AS $$
+DECLARE
+    v_channels TEXT[];
+BEGIN
+    IF p_value IS NULL THEN
+        RETURN ARRAY['sms'];
+    END IF;
+
+    IF jsonb_typeof(p_value) = 'array' THEN
+        SELECT array_agg(c ORDER BY array_position(ARRAY['whatsapp', 'sms', 'email'], c)) INTO v_channels
+        FROM (
+            SELECT DISTINCT c FROM jsonb_array_elements_text(p_value) AS t(c)
+            WHERE c IN ('whatsapp', 'sms', 'email')
+        ) chosen;
+        RETURN COALESCE(v_channels, ARRAY['sms']);
+    END IF;
+
+    RETURN CASE p_value #>> '{}'
+        WHEN 'whatsapp' THEN ARRAY['whatsapp']
+        WHEN 'both' THEN ARRAY['whatsapp']
+        WHEN 'email' THEN ARRAY['email']
+        ELSE ARRAY['sms']
+    END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+UPDATE public.kudisms_settings s
+SET notification_channels = (
+    SELECT COALESCE(jsonb_object_agg(key, to_jsonb(public.notification_channel_list(value))), '{}'::jsonb)
+    FROM jsonb_each(s.notification_channels)
+)
+WHERE jsonb_typeof(s.notification_channels) = 'object';
+
+ALTER TABLE public.kudisms_settings ALTER COLUMN notification_channels SET DEFAULT '{
+  "payment_receipt": ["whatsapp"],
+  "homework_missing": ["sms"],
+  "homework_reminder": ["sms"],
+  "notes_incomplete": ["sms"],
+  "lesson_published": ["whatsapp"],
+  "attendance_present": ["whatsapp"],
+  "absentee_alert": ["whatsapp"],
+  "late_arrival": ["whatsapp"],
+  "subject_absentee": ["sms"],
+  "subject_late": ["sms"],
+  "report_card_ready": ["sms"],
+  "emergency_broadcast": ["whatsapp"]
+}'::jsonb;
+
+-- The parent email that goes with the phone a message was addressed to: the mother's email
+-- for the mother's number, the father's for the father's, otherwise whichever is on file.
+-- Mirrors parentEmailFor() in src/services/emailNotifications.ts
+CREATE OR REPLACE FUNCTION public.parent_email_for(p_student_id INT, p_phone TEXT)
+RETURNS TEXT AS $$
+    SELECT COALESCE(
+        CASE WHEN public.phone_match_key(s.mother_phone) = public.phone_match_key(p_phone)
+             THEN NULLIF(trim(s.mother_email), '') END,
+        CASE WHEN public.phone_match_key(s.father_phone) = public.phone_match_key(p_phone)
+             THEN NULLIF(trim(s.father_email), '') END,
+        NULLIF(trim(s.father_email), ''),
+        NULLIF(trim(s.mother_email), '')
+    )
+    FROM public.students s
+    WHERE s.id = p_student_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.parent_email_for(INT, TEXT) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.escape_html(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT replace(replace(replace(replace(replace(COALESCE(p_text, ''),
+        '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Why a message's attachments may not be sent, or NULL when they can be. Student documents
+-- must belong to the message's student; payslips need manage-payroll and one owner per message
+CREATE OR REPLACE FUNCTION public.notification_attachment_error(p_school_id INT, p_student_id INT, p_attachments JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    v_ref JSONB;
+    v_owner UUID;
+    v_payslip_owner UUID;
+BEGIN
+    FOR v_ref IN SELECT * FROM jsonb_array_elements(p_attachments) LOOP
+        CASE v_ref->>'document'
+            WHEN 'receipt' THEN
+                PERFORM 1 FROM public.student_payments
+                WHERE id::TEXT = v_ref->>'id' AND school_id = p_school_id AND student_id = p_student_id;
+            WHEN 'invoice' THEN
+                PERFORM 1 FROM public.student_invoices
+                WHERE id::TEXT = v_ref->>'id' AND school_id = p_school_id AND student_id = p_student_id;
+            WHEN 'report_card' THEN
+                PERFORM 1 FROM public.student_term_reports r
+                JOIN public.students s ON s.id = r.student_id
+                WHERE r.id::TEXT = v_ref->>'id' AND s.school_id = p_school_id AND r.student_id = p_student_id;
+            WHEN 'payslip' THEN
+                IF NOT public.user_has_permission(auth.uid(), 'manage-payroll') THEN
+                    RETURN 'Only payroll managers can send payslips';
+                END IF;
+                SELECT p.staff_id INTO v_payslip_owner
+                FROM public.payslips p
+                JOIN public.payroll_runs_v2 r ON r.id = p.payroll_run_id
+                WHERE p.id::TEXT = v_ref->>'id' AND r.school_id = p_school_id;
+                IF FOUND AND v_owner IS NOT NULL AND v_owner <> v_payslip_owner THEN
+                    RETURN 'Payslips for different staff must be sent separately';
+                END IF;
+                v_owner := COALESCE(v_owner, v_payslip_owner);
+            ELSE
+                RETURN 'Unknown attachment ' || COALESCE(v_ref->>'document', '');
+        END CASE;
+        IF NOT FOUND THEN
+            RETURN initcap(replace(v_ref->>'document', '_', ' ')) || ' ' || COALESCE(v_ref->>'id', '') || ' does not belong to this recipient';
+        END IF;
+    END LOOP;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.notification_attachment_error(INT, INT, JSONB) FROM PUBLIC;
+
+-- ============================================
+-- Enqueue
+-- ============================================
+-- Same call as before. Messages may also carry "recipient_email" (otherwise the parent email
+-- on the student record is used), "subject" and "attachments":
+--   [{ "document": "report_card" | "invoice" | "receipt" | "payslip", "id": 12 }]
+-- One row is queued per configured channel the recipient can be reached on. A type set to
+-- email only falls back to SMS for parents without an email address when fallback is on.
+-- Staff callers can only attach documents that belong to the recipient, and attached
+-- documents always go to the address on record: the parent email for student documents,
+-- the staff email for payslips. A message with any other attachment is rejected.
+CREATE OR REPLACE FUNCTION public.enqueue_notifications(
+    p_messages JSONB,
+    p_send_after TIMESTAMPTZ DEFAULT NULL,
+    p_bypass_quiet_hours BOOLEAN DEFAULT FALSE,
+    p_sent_by TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_caller_school INT;
+    v_batch_id UUID := gen_random_uuid();
+    v_msg JSONB;
+    v_school_id INT;
+    v_campus_id INT;
+    v_type TEXT;
+    v_settings public.kudisms_settings;
+    v_template RECORD;
+    v_email_template RECORD;
+    v_content TEXT;
+    v_params TEXT;
+    v_subject TEXT;
+    v_html TEXT;
+    v_attachments JSONB;
+    v_attachment_error TEXT;
+    v_var RECORD;
+    v_template_error TEXT;
+    v_phone TEXT;
+    v_email TEXT;
+    v_channels TEXT[];
+    v_reachable TEXT[];
+    v_channel TEXT;
+    v_missing TEXT;
+    v_error TEXT;
+    v_send_after TIMESTAMPTZ := GREATEST(COALESCE(p_send_after, NOW()), NOW());
+    v_queued INT := 0;
+    v_rejected INT := 0;
+BEGIN
+    SELECT school_id INTO v_caller_school FROM public.user_profiles WHERE id = auth.uid();
+    IF v_caller_school IS NULL AND auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Only school staff can send notifications';
+    END IF;
+    IF p_messages IS NULL OR jsonb_typeof(p_messages) <> 'array' THEN
+        RAISE EXCEPTION 'p_messages must be a JSON array';
+    END IF;
+
+    FOR v_msg IN SELECT * FROM jsonb_array_elements(p_messages) LOOP
+        v_school_id := COALESCE(v_caller_school, (v_msg->>'school_id')::INT);
+        v_campus_id := (v_msg->>'campus_id')::INT;
+        v_type := COALESCE(v_msg->>'notification_type', 'general');
+        v_settings := public.outbox_settings(v_school_id, v_campus_id);
+        v_channels := public.notification_channel_list(v_settings.notification_channels->v_type);
+        v_phone := COALESCE(trim(v_msg->>'recipient_phone'), '');
+        v_content := v_msg->>'message';
+        v_params := NULL;
+        v_template_error := NULL;
+        v_email := NULL;
+        v_subject := NULL;
+        v_html := NULL;
+        v_missing := NULL;
+
+        IF v_msg->>'template_name' IS NOT NULL THEN
+            SELECT message_content, variables INTO v_template
+            FROM public.sms_templates
+            WHERE school_id = v_school_id AND template_name = v_msg->>'template_name' AND is_active;
+
+            IF NOT FOUND THEN
+                v_template_error := 'Template ' || (v_msg->>'template_name') || ' not found';
+            ELSE
+                v_content := v_template.message_content;
+                FOR v_var IN SELECT key, value FROM jsonb_each_text(COALESCE(v_msg->'variables', '{}'::jsonb)) LOOP
+                    v_content := replace(v_content, '{{' || v_var.key || '}}', COALESCE(v_var.value, ''));
+                END LOOP;
+                -- KudiSMS WhatsApp templates take the values in template variable order
+                SELECT string_agg(COALESCE(v_msg->'variables'->>name, ''), ',' ORDER BY ord) INTO v_params
+                FROM unnest(v_template.variables) WITH ORDINALITY AS t(name, ord);
+            END IF;
+        END IF;
+
+        v_attachments := CASE WHEN jsonb_typeof(v_msg->'attachments') = 'array' THEN v_msg->'attachments' ELSE '[]'::jsonb END;
+        v_attachment_error := NULL;
+        IF v_caller_school IS NOT NULL AND jsonb_array_length(v_attachments) > 0 THEN
+            v_attachment_error := public.notification_attachment_error(v_school_id, (v_msg->>'student_id')::INT, v_attachments);
+        END IF;
+
+        IF 'email' = ANY(v_channels) THEN
+            IF v_caller_school IS NOT NULL AND jsonb_array_length(v_attachments) > 0 THEN
+                SELECT NULLIF(trim(u.email), '') INTO v_email
+                FROM public.payslips p
+                JOIN public.user_profiles u ON u.id = p.staff_id
+                WHERE p.id::TEXT IN (SELECT a->>'id' FROM jsonb_array_elements(v_attachments) a WHERE a->>'document' = 'payslip')
+                LIMIT 1;
+                v_email := COALESCE(v_email, public.parent_email_for((v_msg->>'student_id')::INT, v_phone));
+            ELSE
+                v_email := COALESCE(
+                    NULLIF(trim(v_msg->>'recipient_email'), ''),
+                    public.parent_email_for((v_msg->>'student_id')::INT, v_phone)
+                );
+            END IF;
+
+            SELECT subject, html_body INTO v_email_template
+            FROM public.email_templates
+            WHERE school_id = v_school_id AND notification_type = v_type AND is_active;
+
+            IF FOUND THEN
+                v_subject := v_email_template.subject;
+                v_html := v_email_template.html_body;
+                FOR v_var IN SELECT key, value FROM jsonb_each_text(COALESCE(v_msg->'variables', '{}'::jsonb)) LOOP
+                    v_subject := replace(v_subject, '{{' || v_var.key || '}}', COALESCE(v_var.value, ''));
+                    v_html := replace(v_html, '{{' || v_var.key || '}}', public.escape_html(v_var.value));
+                END LOOP;
+            END IF;
+            v_subject := COALESCE(
+                NULLIF(trim(v_msg->>'subject'), ''),
+                v_subject,
+                CASE WHEN v_type = 'general' THEN 'Message from the school' ELSE initcap(replace(v_type, '_', ' ')) END
+            );
+        END IF;
+
+        -- Channels this recipient can actually be reached on
+        SELECT COALESCE(array_agg(c ORDER BY ord), ARRAY[]::TEXT[]) INTO v_reachable
+        FROM unnest(v_channels) WITH ORDINALITY AS t(c, ord)
+        WHERE (c = 'email' AND v_email IS NOT NULL) OR (c <> 'email' AND v_phone <> '');
+
+        IF cardinality(v_reachable) = 0 AND v_channels = ARRAY['email'] AND v_phone <> ''
+           AND COALESCE(v_settings.enable_fallback, TRUE) THEN
+            v_reachable := ARRAY['sms'];
+        END IF;
+
+        IF cardinality(v_reachable) = 0 THEN
+            v_missing := CASE WHEN v_channels = ARRAY['email'] THEN 'No recipient email address' ELSE 'No recipient phone number' END;
+            v_reachable := ARRAY[v_channels[1]];
+        END IF;
+
+        FOREACH v_channel IN ARRAY v_reachable LOOP
+            v_error := COALESCE(
+                v_missing,
+                CASE WHEN v_channel = 'email' THEN v_attachment_error END,
+                CASE WHEN v_channel = 'email' AND v_html IS NOT NULL THEN NULL ELSE v_template_error END,
+                CASE WHEN COALESCE(v_content, '') = '' AND NOT (v_channel = 'email' AND v_html IS NOT NULL)
+                     THEN 'Message is empty' END
+            );
+
+            INSERT INTO public.message_outbox (
+                school_id, campus_id, student_id, batch_id, recipient_phone, recipient_name, notification_type,
+                template_name, message_content, channel, enable_fallback, whatsapp_template_code, whatsapp_params,
+                recipient_email, email_subject, email_html, attachments,
+                status, send_after, next_attempt_at, bypass_quiet_hours, last_error, reference_id, sent_by
+            )
+            VALUES (
+                v_school_id, v_campus_id, (v_msg->>'student_id')::INT, v_batch_id,
+                v_phone, v_msg->>'recipient_name', v_type,
+                v_msg->>'template_name', v_content, v_channel,
+                -- No SMS fallback when the recipient is getting an SMS copy anyway
+                COALESCE(v_settings.enable_fallback, TRUE) AND NOT ('sms' = ANY(v_reachable)),
+                v_settings.whatsapp_template_codes->>v_type,
+                v_params,
+                CASE WHEN v_channel = 'email' THEN v_email END,
+                CASE WHEN v_channel = 'email' THEN v_subject END,
+                CASE WHEN v_channel = 'email' THEN v_html END,
+                CASE WHEN v_channel = 'email' THEN v_attachments ELSE '[]'::jsonb END,
+                CASE WHEN v_error IS NULL THEN 'queued' ELSE 'dead' END,
+                v_send_after,
+                CASE WHEN p_bypass_quiet_hours THEN v_send_after
+                     ELSE public.outbox_release_time(v_settings.quiet_hours, v_send_after) END,
+                p_bypass_quiet_hours,
+                v_error,
+                (v_msg->>'reference_id')::INT,
+                COALESCE(p_sent_by, auth.uid()::TEXT)
+            );
+
+            IF v_error IS NULL THEN
+                v_queued := v_queued + 1;
+            ELSE
+                v_rejected := v_rejected + 1;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    RETURN jsonb_build_object('batch_id', v_batch_id, 'queued', v_queued, 'rejected', v_rejected);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.enqueue_notifications(JSONB, TIMESTAMPTZ, BOOLEAN, TEXT) TO authenticated;
+
+COMMENT ON TABLE public.smtp_settings IS 'SMTP server for notification emails per school, optionally overridden per campus';
+COMMENT ON COLUMN public.smtp_settings.security IS 'starttls (usually port 587), tls (port 465) or none (local catch-all servers such as Mailpit)';
+COMMENT ON TABLE public.email_templates IS 'HTML email per notification type; {{variables}} are filled in and escaped at enqueue time';
+COMMENT ON COLUMN public.message_outbox.attachments IS 'Documents rendered to PDF and attached to email rows, e.g. [{"document": "receipt", "id": 42}]';
+COMMENT ON COLUMN public.kudisms_settings.notification_channels IS 'Channels per notification type, e.g. {"report_card_ready": ["whatsapp", "email"]}';
+COMMENT ON FUNCTION public.notification_channel_list IS 'Normalises a notification_channels entry to an ordered list of channels';
@@ -0,0 +1,111 @@
+-- ============================================
+-- Statutory PAYE for payroll runs
+-- ============================================
+-- generatePayslipsForRun works out each staff member's PAYE with src/services/payeTax.ts and
+-- posts it as a DEDUCTION line item alongside pension, NHF and NHIS. paye_settings holds the
+-- school's annual tax bands and reliefs; a school without a row gets the Personal Income Tax Act
+-- defaults. staff_tax_records keeps one row per staff member per month with the year-to-date
+-- taxable pay and tax the next month builds on, and is the source of the monthly remittance
+-- schedule filed with the state revenue service.
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS tax_id TEXT;
+
+COMMENT ON COLUMN public.user_profiles.tax_id IS 'Staff Tax Identification Number (TIN) for PAYE returns';
+
+CREATE TABLE IF NOT EXISTS public.paye_settings (
+    id SERIAL PRIMARY KEY,
+    school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    -- [{"band_size": 300000, "rate": 7}, ..., {"band_size": null, "rate": 24}]
+    tax_bands JSONB NOT NULL DEFAULT '[
+        {"band_size": 300000, "rate": 7},
+        {"band_size": 300000, "rate": 11},
+        {"band_size": 500000, "rate": 15},
+        {"band_size": 500000, "rate": 19},
+        {"band_size": 1600000, "rate": 21},
+        {"band_size": null, "rate": 24}
+    ]'::jsonb,
+    cra_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    cra_fixed_amount NUMERIC(14,2) NOT NULL DEFAULT 200000,
+    cra_minimum_percent NUMERIC(5,2) NOT NULL DEFAULT 1,
+    cra_gross_percent NUMERIC(5,2) NOT NULL DEFAULT 20,
+    minimum_tax_percent NUMERIC(5,2) NOT NULL DEFAULT 1,
+    exemption_threshold NUMERIC(14,2) NOT NULL DEFAULT 0,
+    nhf_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    nhf_rate NUMERIC(5,2) NOT NULL DEFAULT 2.5,
+    nhis_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    nhis_rate NUMERIC(5,2) NOT NULL DEFAULT 5,
+    revenue_service TEXT NOT NULL DEFAULT 'Lagos State Internal Revenue Service',
+    employer_tin TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.staff_tax_records (
+    id BIGSERIAL PRIMARY KEY,
+    school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.user_profiles(id) ON DELETE CASCADE NOT NULL,
+    payroll_run_id UUID REFERENCES public.payroll_runs_v2(id) ON DELETE SET NULL,
+    payslip_id UUID REFERENCES public.payslips(id) ON DELETE SET NULL,
+    tax_year INTEGER NOT NULL,
+    tax_month INTEGER NOT NULL CHECK (tax_month BETWEEN 1 AND 12),
+    gross_pay NUMERIC(14,2) NOT NULL DEFAULT 0,
+    pension NUMERIC(14,2) NOT NULL DEFAULT 0,
+    nhf NUMERIC(14,2) NOT NULL DEFAULT 0,
+    nhis NUMERIC(14,2) NOT NULL DEFAULT 0,
+    consolidated_relief NUMERIC(14,2) NOT NULL DEFAULT 0,
+    taxable_pay NUMERIC(14,2) NOT NULL DEFAULT 0,
+    tax NUMERIC(14,2) NOT NULL DEFAULT 0,
+    ytd_gross_pay NUMERIC(14,2) NOT NULL DEFAULT 0,
+    ytd_taxable_pay NUMERIC(14,2) NOT NULL DEFAULT 0,
+    ytd_tax NUMERIC(14,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, tax_year, tax_month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_tax_records_school_period
+    ON public.staff_tax_records(school_id, tax_year, tax_month);
+CREATE INDEX IF NOT EXISTS idx_staff_tax_records_run ON public.staff_tax_records(payroll_run_id);
+
+ALTER TABLE public.paye_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_tax_records ENABLE ROW LEVEL SECURITY;
+
+-- Payroll managers read and change their school's settings; the bands are not secret
+DROP POLICY IF EXISTS "School staff can view PAYE settings" ON public.paye_settings;
+CREATE POLICY "School staff can view PAYE settings" ON public.paye_settings
+FOR SELECT
+USING (
+    school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Payroll managers can manage PAYE settings" ON public.paye_settings;
+CREATE POLICY "Payroll managers can manage PAYE settings" ON public.paye_settings
+FOR ALL
+USING (
+    public.user_has_permission(auth.uid(), 'manage-payroll')
+    AND school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+)
+WITH CHECK (
+    public.user_has_permission(auth.uid(), 'manage-payroll')
+    AND school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+);
+
+-- Staff see their own tax history; payroll managers see and write the school's
+DROP POLICY IF EXISTS "Staff can view own tax records" ON public.staff_tax_records;
+CREATE POLICY "Staff can view own tax records" ON public.staff_tax_records
+FOR SELECT
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Payroll managers can manage tax records" ON public.staff_tax_records;
+CREATE POLICY "Payroll managers can manage tax records" ON public.staff_tax_records
+FOR ALL
+USING (
+    public.user_has_permission(auth.uid(), 'manage-payroll')
+    AND school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+)
+WITH CHECK (
+    public.user_has_permission(auth.uid(), 'manage-payroll')
+    AND school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+);
@@ -0,0 +1,24 @@
+-- ============================================
+-- Formula-driven payroll components
+-- ============================================
+-- generatePayslipsForRun now evaluates every active payroll_components row per staff member
+-- (see src/services/payrollFormulas.ts). Formulas read base_pay, commission, additions,
+-- days_worked, working_days, grade_level and other components by their code. Components can be
+-- switched off without deleting them, and payslip line items remember which component they
+-- came from.
+
+ALTER TABLE public.payroll_components
+    ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Codes are formula variable names, so they must be unique within a school
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_components_school_code
+    ON public.payroll_components(school_id, lower(code))
+    WHERE code IS NOT NULL AND code <> '';
+
+ALTER TABLE public.payslip_line_items
+    ADD COLUMN IF NOT EXISTS component_id INTEGER REFERENCES public.payroll_components(id) ON DELETE SET NULL;
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS grade_level INTEGER;
+
+COMMENT ON COLUMN public.user_profiles.grade_level IS 'Salary grade level, available to payroll component formulas as grade_level';
@@ -0,0 +1,63 @@
+-- ============================================
+-- Attendance fines on payslips
+-- ============================================
+-- generatePayslipsForRun now applies the late check-in, early checkout and missing checkout
+-- rules from school_config (see src/services/attendanceFines.ts). Each fine is its own
+-- deduction line, and its metadata keeps the evidence: {source, kind, date, checkin_id, detail}.
+-- Staff can query a single line, and a payroll manager can waive it when resolving the query
+-- through waive_payslip_deduction(), which only drops attendance fines.
+
+ALTER TABLE public.payslip_line_items
+    ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+ALTER TABLE public.payslip_queries
+    ADD COLUMN IF NOT EXISTS line_item_id UUID REFERENCES public.payslip_line_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payslip_queries_line_item ON public.payslip_queries(line_item_id);
+
+-- Drops an attendance fine from a payslip and gives the amount back in net pay. Tax, pension
+-- and loan lines have records of their own that a waiver would leave behind, so they are refused
+CREATE OR REPLACE FUNCTION public.waive_payslip_deduction(p_line_item_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_line RECORD;
+BEGIN
+    SELECT li.*, r.school_id INTO v_line
+    FROM public.payslip_line_items li
+    JOIN public.payslips p ON p.id = li.payslip_id
+    JOIN public.payroll_runs_v2 r ON r.id = p.payroll_run_id
+    WHERE li.id = p_line_item_id
+    FOR UPDATE OF li;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payslip line not found';
+    END IF;
+    IF NOT public.user_has_permission(auth.uid(), 'manage-payroll')
+       OR v_line.school_id NOT IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only payroll managers can waive deductions';
+    END IF;
+    IF v_line.type <> 'DEDUCTION' OR v_line.metadata->>'source' IS DISTINCT FROM 'attendance' THEN
+        RAISE EXCEPTION 'Only attendance fines can be waived';
+    END IF;
+
+    DELETE FROM public.payslip_line_items WHERE id = p_line_item_id;
+
+    UPDATE public.payslips
+    SET total_deductions = COALESCE(total_deductions, 0) - COALESCE(v_line.amount, 0),
+        net_pay = COALESCE(net_pay, 0) + COALESCE(v_line.amount, 0),
+        updated_at = NOW()
+    WHERE id = v_line.payslip_id;
+
+    RETURN jsonb_build_object(
+        'payslip_id', v_line.payslip_id,
+        'label', v_line.label,
+        'amount', COALESCE(v_line.amount, 0),
+        'metadata', v_line.metadata
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.waive_payslip_deduction(UUID) TO authenticated;
+
+COMMENT ON COLUMN public.payslip_line_items.metadata IS 'Evidence for generated lines, e.g. the check-in behind an attendance fine';
+COMMENT ON COLUMN public.payslip_queries.line_item_id IS 'The payslip line being challenged, if the query is about one line';
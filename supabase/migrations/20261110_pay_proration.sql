@@ -0,0 +1,23 @@
+-- ============================================
+-- Pro-rated pay for joiners, leavers and unpaid leave
+-- ============================================
+-- generatePayslipsForRun now pays base pay and pensionable components for the school working
+-- days (weekdays that are not holidays) each staff member was employed and not on unpaid leave
+-- (see src/services/payProration.ts). Pro-rated lines carry the calculation in metadata.
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS employment_start_date DATE,
+    ADD COLUMN IF NOT EXISTS employment_end_date DATE;
+
+ALTER TABLE public.user_profiles
+    DROP CONSTRAINT IF EXISTS user_profiles_employment_dates_check;
+ALTER TABLE public.user_profiles
+    ADD CONSTRAINT user_profiles_employment_dates_check
+    CHECK (employment_end_date IS NULL OR employment_start_date IS NULL OR employment_end_date >= employment_start_date);
+
+ALTER TABLE public.leave_types
+    ADD COLUMN IF NOT EXISTS is_unpaid BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN public.user_profiles.employment_start_date IS 'First working day; pay is pro-rated in the month it falls in';
+COMMENT ON COLUMN public.user_profiles.employment_end_date IS 'Last working day; leavers are paid up to this date';
+COMMENT ON COLUMN public.leave_types.is_unpaid IS 'Approved leave of this type is deducted from pay by pro-rating';
@@ -0,0 +1,119 @@
+-- ============================================
+-- Staff loans and salary advances
+-- ============================================
+-- Staff request an advance or loan; a payroll manager approves it with the final amount, interest
+-- rate and number of installments, which writes the repayment schedule to
+-- staff_loan_installments (see src/services/staffLoans.ts). generatePayslipsForRun reserves the
+-- oldest pending installment of each active loan by stamping payroll_run_id and payslip_id; the
+-- installment stays pending until finalizePayroll marks it 'deducted', so regenerating or deleting
+-- a draft run gives it back. A repayment that would push net pay below
+-- school_config.loan_net_pay_floor is skipped for that run and stays pending.
+-- An early payoff closes the remaining installments as 'settled'.
+
+ALTER TABLE public.school_config
+    ADD COLUMN IF NOT EXISTS loan_net_pay_floor NUMERIC(14,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.school_config.loan_net_pay_floor IS 'Loan repayments are paused when net pay would fall below this amount';
+
+CREATE TABLE IF NOT EXISTS public.staff_loans (
+    id BIGSERIAL PRIMARY KEY,
+    school_id INTEGER REFERENCES public.schools(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.user_profiles(id) ON DELETE CASCADE NOT NULL,
+    loan_type TEXT NOT NULL DEFAULT 'loan' CHECK (loan_type IN ('advance', 'loan')),
+    principal NUMERIC(14,2) NOT NULL CHECK (principal > 0),
+    interest_rate NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (interest_rate >= 0),
+    installments INTEGER NOT NULL DEFAULT 1 CHECK (installments >= 1),
+    first_period TEXT CHECK (first_period ~ '^\d{4}-\d{2}$'),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'rejected', 'cancelled', 'repaid')),
+    reason TEXT,
+    admin_notes TEXT,
+    approved_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    settled_at TIMESTAMP WITH TIME ZONE,
+    settlement_amount NUMERIC(14,2),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.staff_loan_installments (
+    id BIGSERIAL PRIMARY KEY,
+    loan_id BIGINT REFERENCES public.staff_loans(id) ON DELETE CASCADE NOT NULL,
+    installment_number INTEGER NOT NULL,
+    period_key TEXT NOT NULL,
+    principal NUMERIC(14,2) NOT NULL,
+    interest NUMERIC(14,2) NOT NULL DEFAULT 0,
+    amount NUMERIC(14,2) NOT NULL,
+    balance_after NUMERIC(14,2) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'deducted', 'settled')),
+    payroll_run_id UUID REFERENCES public.payroll_runs_v2(id) ON DELETE SET NULL,
+    payslip_id UUID REFERENCES public.payslips(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (loan_id, installment_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_loans_school_status ON public.staff_loans(school_id, status);
+CREATE INDEX IF NOT EXISTS idx_staff_loans_user ON public.staff_loans(user_id);
+CREATE INDEX IF NOT EXISTS idx_staff_loan_installments_due ON public.staff_loan_installments(status, period_key);
+
+ALTER TABLE public.staff_loans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_loan_installments ENABLE ROW LEVEL SECURITY;
+
+-- Staff see their own loans, request new ones and cancel requests not yet decided
+DROP POLICY IF EXISTS "Staff can view own loans" ON public.staff_loans;
+CREATE POLICY "Staff can view own loans" ON public.staff_loans
+FOR SELECT
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Staff can request loans" ON public.staff_loans;
+CREATE POLICY "Staff can request loans" ON public.staff_loans
+FOR INSERT
+WITH CHECK (
+    user_id = auth.uid()
+    AND status = 'pending'
+    AND school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Staff can cancel pending loan requests" ON public.staff_loans;
+CREATE POLICY "Staff can cancel pending loan requests" ON public.staff_loans
+FOR UPDATE
+USING (user_id = auth.uid() AND status = 'pending')
+WITH CHECK (user_id = auth.uid() AND status IN ('pending', 'cancelled'));
+
+DROP POLICY IF EXISTS "Payroll managers can manage loans" ON public.staff_loans;
+CREATE POLICY "Payroll managers can manage loans" ON public.staff_loans
+FOR ALL
+USING (
+    public.user_has_permission(auth.uid(), 'manage-payroll')
+    AND school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+)
+WITH CHECK (
+    public.user_has_permission(auth.uid(), 'manage-payroll')
+    AND school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Staff can view own loan schedule" ON public.staff_loan_installments;
+CREATE POLICY "Staff can view own loan schedule" ON public.staff_loan_installments
+FOR SELECT
+USING (
+    EXISTS (SELECT 1 FROM public.staff_loans l WHERE l.id = loan_id AND l.user_id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Payroll managers can manage loan schedules" ON public.staff_loan_installments;
+CREATE POLICY "Payroll managers can manage loan schedules" ON public.staff_loan_installments
+FOR ALL
+USING (
+    public.user_has_permission(auth.uid(), 'manage-payroll')
+    AND EXISTS (
+        SELECT 1 FROM public.staff_loans l
+        WHERE l.id = loan_id
+        AND l.school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+    )
+)
+WITH CHECK (
+    public.user_has_permission(auth.uid(), 'manage-payroll')
+    AND EXISTS (
+        SELECT 1 FROM public.staff_loans l
+        WHERE l.id = loan_id
+        AND l.school_id IN (SELECT school_id FROM public.user_profiles WHERE id = auth.uid())
+    )
+);
@@ -1,8 +1,13 @@
 import assert from 'assert';
 import { 
   generateAdmissionNumber, 
+  generateAdmissionNumberFromTemplate,
   getCampusFromClassName,
-  isValidAdmissionNumber 
+  getSequenceScope,
+  isValidAdmissionNumber,
+  resolveAdmissionTemplate,
+  resolveAdmissionYear,
+  validateAdmissionTemplate
 } from '../src/utils/admissionNumber.js';
 
 type TestFn = () => void;
@@ -319,4 +324,54 @@ test('generateAdmissionNumber generates unique numbers in batch', () => {
   assert.equal(generated[4], `UPSS/${currentYear}/0005`);
 });
 
+// Test campus templates
+test('generateAdmissionNumberFromTemplate renders every token', () => {
+  const context = { campusCode: 'NEW', level: 'JSS 1', year: 2026 };
+  const result = generateAdmissionNumberFromTemplate('{CAMPUS}-{YYYY}-{LEVEL}-{SEQ:3}', context, ['NEW-2026-JSS1-007']);
+  assert.equal(result, 'NEW-2026-JSS1-008');
+});
+
+test('generateAdmissionNumberFromTemplate keeps separate counters per scope', () => {
+  const template = '{CAMPUS}/{LEVEL}/{SEQ}';
+  const existing = ['UPSS/JSS1/0004', 'UPSS/JSS2/0010', 'CAM/JSS1/0099'];
+  assert.equal(generateAdmissionNumberFromTemplate(template, { campusCode: 'UPSS', level: 'JSS 1', year: 2026 }, existing), 'UPSS/JSS1/0005');
+  assert.equal(getSequenceScope(template, { campusCode: 'UPSS', level: 'JSS 1', year: 2026 }), 'UPSS/JSS1/#');
+});
+
+test('generateAdmissionNumberFromTemplate returns null when the padding overflows', () => {
+  const result = generateAdmissionNumberFromTemplate('{CAMPUS}{SEQ:2}', { campusCode: 'X', year: 2026 }, ['X99']);
+  assert.equal(result, null);
+});
+
+test('validateAdmissionTemplate requires one sequence and known tokens', () => {
+  assert.equal(validateAdmissionTemplate('{CAMPUS}/{YY}/{SEQ:4}'), null);
+  assert(validateAdmissionTemplate('{CAMPUS}/{YY}'));
+  assert(validateAdmissionTemplate('{SEQ}/{SEQ}'));
+  assert(validateAdmissionTemplate('{CAMPUS}/{TERM}/{SEQ}'));
+});
+
+test('resolveAdmissionYear honours id_year_mode', () => {
+  const now = new Date('2026-10-01T00:00:00Z');
+  assert.equal(resolveAdmissionYear('admission_year', '2021-09-15', now), 2021);
+  assert.equal(resolveAdmissionYear('current_year', '2021-09-15', now), 2026);
+  assert.equal(resolveAdmissionYear('admission_year', null, now), 2026);
+});
+
+test('resolveAdmissionTemplate uses the campus of the level before the legacy mapping', () => {
+  const campuses = [{ id: 4, code: 'NEW', admission_number_template: '{CAMPUS}/{YYYY}/{SEQ:5}' }];
+  const resolved = resolveAdmissionTemplate({
+    className: 'Year 7',
+    campuses,
+    academicClasses: [{ level: 'Year 7', campus_id: 4 }],
+    now: new Date('2026-10-01T00:00:00Z'),
+  });
+  assert(resolved !== null);
+  assert.equal(generateAdmissionNumberFromTemplate(resolved.template, resolved.context, []), 'NEW/2026/00001');
+
+  const legacy = resolveAdmissionTemplate({ className: 'JSS 1', campuses });
+  assert(legacy !== null);
+  assert.equal(legacy.context.campusCode, 'UPSS');
+  assert.equal(resolveAdmissionTemplate({ className: 'Year 7', campuses }), null);
+});
+
 console.log('\n✅ All admission number generator tests passed!');
@@ -0,0 +1,85 @@
+import { strict as assert } from 'node:assert';
+import { computeAttendanceFines, fineLabel, isExcusedDate } from '../src/services/attendanceFines.js';
+import type { LeaveRequest, TeacherCheckin } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+let nextId = 1;
+const checkin = (overrides: Partial<TeacherCheckin>): TeacherCheckin => ({
+  id: nextId++,
+  school_id: 1,
+  teacher_id: 'staff-1',
+  checkin_date: '2026-10-05',
+  status: 'Present',
+  created_at: '2026-10-05T06:55:00Z',
+  checkout_time: '2026-10-05T15:05:00Z',
+  ...overrides,
+});
+
+// Monday to Friday, 08:00 to 16:00 Lagos time
+const shifts = [1, 2, 3, 4, 5].map(day_of_week => ({ day_of_week, start_time: '08:00', end_time: '16:00' }));
+const rules = { late_checkin_deduction_percent: 10, fine_early_checkout: 1000, fine_no_checkout: 500 };
+const base = { shifts, leave: [], holidays: [], rules, dailyPay: 10000, asOf: '2026-10-20' };
+
+test('late, early and missing checkouts each become a dated fine with evidence', () => {
+  const fines = computeAttendanceFines({
+    ...base,
+    checkins: [
+      checkin({ checkin_date: '2026-10-07', created_at: '2026-10-07T07:00:00Z', checkout_time: null }),
+      checkin({ checkin_date: '2026-10-05', status: 'Late', created_at: '2026-10-05T07:25:00Z' }),
+      checkin({ checkin_date: '2026-10-06', checkout_time: '2026-10-06T13:30:00Z' }),
+      checkin({ checkin_date: '2026-10-08' }),
+    ],
+  });
+  assert.deepEqual(fines.map(f => [f.kind, f.date, f.amount, f.detail]), [
+    ['late', '2026-10-05', 1000, 'Checked in 08:25, shift starts 08:00'],
+    ['early_checkout', '2026-10-06', 1000, 'Checked out 14:30, shift ends 16:00'],
+    ['no_checkout', '2026-10-07', 500, 'No checkout recorded'],
+  ]);
+  assert.equal(fineLabel(fines[0]), 'Late arrival (5 Oct)');
+});
+
+test('holidays, approved leave and absences are never fined', () => {
+  const leave = [
+    { start_date: '2026-10-12', end_date: '2026-10-13', status: 'approved' },
+    { start_date: '2026-10-14', end_date: '2026-10-14', status: 'pending' },
+  ] as Pick<LeaveRequest, 'start_date' | 'end_date' | 'status'>[];
+  const fines = computeAttendanceFines({
+    ...base,
+    leave,
+    holidays: [{ date: '2025-10-01', is_recurring: true }, { date: '2026-10-09', is_recurring: false }],
+    checkins: [
+      checkin({ checkin_date: '2026-10-01', status: 'Late' }),
+      checkin({ checkin_date: '2026-10-09', checkout_time: null }),
+      checkin({ checkin_date: '2026-10-12', status: 'Late' }),
+      checkin({ checkin_date: '2026-10-13', checkout_time: '2026-10-13T10:00:00Z' }),
+      checkin({ checkin_date: '2026-10-14', status: 'Late' }),
+      checkin({ checkin_date: '2026-10-15', status: 'Absent', checkout_time: null }),
+    ],
+  });
+  assert.deepEqual(fines.map(f => [f.kind, f.date]), [['late', '2026-10-14']]);
+  assert.equal(isExcusedDate('2026-10-01', [{ date: '2025-10-01', is_recurring: false }], []), false);
+});
+
+test('rules set to zero, unfinished days and days without a shift are skipped', () => {
+  const checkins = [
+    checkin({ checkin_date: '2026-10-20', checkout_time: null }),
+    checkin({ checkin_date: '2026-10-10', checkout_time: '2026-10-10T10:00:00Z' }),
+  ];
+  assert.deepEqual(computeAttendanceFines({ ...base, checkins }), []);
+  assert.deepEqual(computeAttendanceFines({
+    ...base,
+    rules: { late_checkin_deduction_percent: 0, fine_early_checkout: null, fine_no_checkout: 0 },
+    checkins: [checkin({ status: 'Late', checkout_time: null })],
+  }), []);
+});
+
+console.log('All attendance fine tests passed.');
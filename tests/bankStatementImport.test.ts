@@ -0,0 +1,127 @@
+import { strict as assert } from 'node:assert';
+import {
+  extractAccountNumbers,
+  parseBankStatement,
+  parseStatementAmount,
+  parseStatementDate,
+  statementLineReference,
+} from '../src/utils/bankStatementParser.js';
+import { AUTO_CONFIRM_CONFIDENCE, matchStatementCredit } from '../src/services/bankStatementReconciliation.js';
+import type { MatchCandidate } from '../src/services/unmatchedPayments.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const gtbankStyle = [
+  'UNIVERSITY PREPARATORY SECONDARY SCHOOL',
+  'Account No: 0123456789,Period: 01-Sep-2026 to 30-Sep-2026',
+  '',
+  'Trans. Date,Value Date,Reference,Debits,Credits,Balance,Remarks',
+  '"Opening Balance",,,,,"1,000,000.00",',
+  '02-Sep-2026,02-Sep-2026,FT2609021,,"150,000.00","1,150,000.00","TRF FRM OBI CHUKWUMA/UPSS/2024/015 SCHOOL FEES"',
+  '03-Sep-2026,03-Sep-2026,CHG001,"50.00",,"1,149,950.00",SMS ALERT CHARGES',
+  '',
+  '05-Sep-2026,05-Sep-2026,FT2609055,,"75,000.00","1,224,950.00","NIP TRANSFER TO 9920000002 FROM MRS BAKARE"',
+  'Closing Balance,,,,,"1,224,950.00",',
+].join('\n');
+
+test('reads credits from a statement with preamble lines and summary rows', () => {
+  const result = parseBankStatement(gtbankStyle);
+  assert.equal(result.headerRow, 4);
+  assert.equal(result.lines.length, 3);
+  assert.equal(result.skippedRows, 2);
+  assert.deepEqual(result.credits.map(line => [line.row, line.date, line.reference, line.credit]), [
+    [6, '2026-09-02', 'FT2609021', 150000],
+    [9, '2026-09-05', 'FT2609055', 75000],
+  ]);
+  assert.equal(result.lines[1].debit, 50);
+});
+
+test('reads single amount columns with a DR/CR marker', () => {
+  const result = parseBankStatement([
+    'Transaction Date;Description;Amount;Dr/Cr',
+    '2026-09-10;School fees Ada Obi;45000;CR',
+    '2026-09-11;Diesel;20000;DR',
+  ].join('\n'));
+  assert.deepEqual(result.credits.map(line => [line.narration, line.credit]), [['School fees Ada Obi', 45000]]);
+  assert.equal(result.lines[1].debit, 20000);
+});
+
+test('rejects files without a recognisable header', () => {
+  assert.throws(() => parseBankStatement('foo,bar\n1,2'), /header row/);
+});
+
+test('normalises amounts and day-first dates', () => {
+  assert.equal(parseStatementAmount('₦1,250,000.50'), 1250000.5);
+  assert.equal(parseStatementAmount('(5,000.00)'), -5000);
+  assert.equal(parseStatementAmount(''), 0);
+  assert.equal(parseStatementDate('07/09/2026'), '2026-09-07');
+  assert.equal(parseStatementDate('7-Sept-26'), '2026-09-07');
+  assert.equal(parseStatementDate('2026-09-07 10:15'), '2026-09-07');
+  assert.equal(parseStatementDate('Opening Balance'), null);
+});
+
+test('derives a stable reference for each statement line', () => {
+  const [line] = parseBankStatement(gtbankStyle).credits;
+  assert.equal(statementLineReference(line), statementLineReference({ ...line }));
+  assert.notEqual(statementLineReference(line), statementLineReference({ ...line, credit: 150001 }));
+  assert.match(statementLineReference(line), /^BANK-20260902-[0-9a-f]{8}$/);
+  assert.deepEqual(extractAccountNumbers('TO 9920000002 FROM 08031234567 REF 12345678901'), ['9920000002']);
+});
+
+test('gives identical same-day credits in one file their own references', () => {
+  const statement = [
+    'Date,Reference,Debit,Credit,Narration',
+    '08/09/2026,,,"20,000.00",POS TRANSFER SCHOOL FEES',
+    '08/09/2026,,,"20,000.00",POS TRANSFER SCHOOL FEES',
+    '08/09/2026,,"20,000.00",,POS TRANSFER SCHOOL FEES',
+  ].join('\n');
+  const { credits, lines } = parseBankStatement(statement);
+  assert.deepEqual(credits.map(line => line.occurrence), [1, 2]);
+  assert.equal(lines[2].occurrence, 1);
+  assert.notEqual(statementLineReference(credits[0]), statementLineReference(credits[1]));
+  assert.equal(statementLineReference(credits[1]), statementLineReference(parseBankStatement(statement).credits[1]));
+});
+
+const candidates: MatchCandidate[] = [
+  {
+    student: { id: 1, name: 'Ada Obi', admission_number: 'UPSS/2024/015' },
+    accounts: [],
+    openInvoices: [{ id: 40, invoice_number: 'INV-40', total_amount: 150000, amount_paid: 0 }],
+  },
+  {
+    student: { id: 2, name: 'Tunde Bakare', admission_number: 'UPSS/2024/016' },
+    accounts: [{ account_number: '9920000002', account_name: 'UPSS/Tunde Bakare' }],
+    openInvoices: [],
+  },
+  {
+    student: { id: 3, name: 'Emeka Obi', admission_number: 'UPSS/2023/101' },
+    accounts: [],
+    openInvoices: [],
+  },
+];
+
+test('scores statement credits and auto-confirms only clear winners', () => {
+  const [feesLine, dvaLine] = parseBankStatement(gtbankStyle).credits;
+
+  const fees = matchStatementCredit(feesLine, candidates);
+  assert.equal(fees.suggestions[0].student_id, 1);
+  assert.equal(fees.suggestions[0].invoice_id, 40);
+  assert.ok(fees.confidence >= AUTO_CONFIRM_CONFIDENCE);
+
+  const dva = matchStatementCredit(dvaLine, candidates);
+  assert.equal(dva.suggestions[0].student_id, 2);
+  assert.equal(dva.confidence, 100);
+
+  const ambiguous = matchStatementCredit({ ...feesLine, narration: 'TRF FRM MR OBI', credit: 1000 }, candidates);
+  assert.ok(ambiguous.confidence < AUTO_CONFIRM_CONFIDENCE);
+});
+
+console.log('All bank statement import tests passed.');
@@ -0,0 +1,105 @@
+import { strict as assert } from 'node:assert';
+import {
+  buildPresentedQuestions,
+  getRemainingSeconds,
+  mergeAnswerKeys,
+  mergeComponentScore,
+  scaleToComponent,
+  seededShuffle,
+  splitAnswerKeys,
+  summarizeAttempt,
+} from '../src/services/cbtMarking.js';
+import type { QuizAttemptResponse, QuizQuestion } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const questions: QuizQuestion[] = [
+  { id: 1, question_text: 'Capital of Nigeria?', question_type: 'multiple_choice', position: 1, options: [{ text: 'Lagos' }, { text: 'Abuja' }, { text: 'Kano' }], marks: 2, correct_option_index: 1 },
+  { id: 2, question_text: 'The sun is a star.', question_type: 'true_false', position: 2, marks: 1, correct_answer: 'True' },
+  { id: 3, question_text: 'Explain photosynthesis.', question_type: 'short_answer', position: 3, marks: 5, correct_answer: 'Plants make food using light.' },
+];
+
+function buildResponse(id: number, questionId: number, awarded: number | null): QuizAttemptResponse {
+  return { id, attempt_id: 9, question_id: questionId, awarded_marks: awarded };
+}
+
+test('seeded shuffle is stable for a seed and keeps every item', () => {
+  const items = [1, 2, 3, 4, 5, 6, 7, 8];
+  assert.deepEqual(seededShuffle(items, 42), seededShuffle(items, 42));
+  assert.deepEqual([...seededShuffle(items, 42)].sort(), items);
+  assert.notDeepEqual(seededShuffle(items, 42), seededShuffle(items, 43));
+});
+
+test('presents questions in position order when shuffling is off', () => {
+  const presented = buildPresentedQuestions([questions[2], questions[0], questions[1]], { seed: 1 });
+  assert.deepEqual(presented.map((p) => p.question.id), [1, 2, 3]);
+  assert.deepEqual(presented[0].optionOrder, [0, 1, 2]);
+});
+
+test('shuffled options still cover every original option index', () => {
+  const presented = buildPresentedQuestions(questions, { shuffleQuestions: true, shuffleOptions: true, seed: 7 });
+  const mc = presented.find((p) => p.question.id === 1)!;
+  assert.deepEqual([...mc.optionOrder].sort(), [0, 1, 2]);
+  assert.equal(presented.length, 3);
+});
+
+test('remaining time counts down and stops at zero', () => {
+  const startedAt = '2026-03-09T09:00:00Z';
+  assert.equal(getRemainingSeconds(startedAt, null), null);
+  assert.equal(getRemainingSeconds(startedAt, 30, new Date('2026-03-09T09:10:00Z')), 1200);
+  assert.equal(getRemainingSeconds(startedAt, 30, new Date('2026-03-09T10:00:00Z')), 0);
+});
+
+test('answer keys round-trip by position', () => {
+  const { questions: rows, keys } = splitAnswerKeys(5, questions);
+  assert.equal('correct_option_index' in rows[0], false);
+  assert.equal(keys[0].correct_option_index, 1);
+  assert.equal(keys[1].correct_option_index, null);
+  assert.equal(keys[2].marks, 5);
+
+  const merged = mergeAnswerKeys(rows, keys);
+  assert.equal(merged[0].correct_option_index, 1);
+  assert.equal(merged[1].correct_answer, 'True');
+});
+
+test('attempt stays pending until every short answer is marked', () => {
+  const pending = summarizeAttempt([buildResponse(1, 1, 2), buildResponse(2, 2, 0), buildResponse(3, 3, null)], questions);
+  assert.deepEqual(pending, { autoScore: 2, manualScore: 0, pendingCount: 1, status: 'pending_marking' });
+
+  const marked = summarizeAttempt([buildResponse(1, 1, 2), buildResponse(3, 3, 3.5)], questions);
+  assert.equal(marked.manualScore, 3.5);
+  assert.equal(marked.status, 'marked');
+});
+
+test('scales attempt totals to the component maximum', () => {
+  assert.equal(scaleToComponent({ auto_score: 3, manual_score: 3.5, max_score: 8 }, 20), 16.3);
+  assert.equal(scaleToComponent({ auto_score: 0, manual_score: 0, max_score: 0 }, 20), 0);
+});
+
+test('merges a CA component and recomputes the total', () => {
+  const update = mergeComponentScore({ component_scores: { CA1: 5, Exam: 40 }, ca_scores_breakdown: { CA1: 5 } }, 'CA2', 12);
+  assert.deepEqual(update.component_scores, { CA1: 5, Exam: 40, CA2: 12 });
+  assert.equal(update.total_score, 57);
+  assert.deepEqual(update.ca_scores_breakdown, { CA1: 5, CA2: 12 });
+
+  const fresh = mergeComponentScore(undefined, 'Exam', 55);
+  assert.equal(fresh.total_score, 55);
+  assert.equal(fresh.exam_score, 55);
+});
+
+test('mergeComponentScore keeps an exam mark held only in exam_score', () => {
+  const update = mergeComponentScore({ component_scores: {}, ca_scores_breakdown: { CA1: 8 }, exam_score: 45 }, 'CA2', 10);
+  assert.deepEqual(update.component_scores, { CA1: 8, Exam: 45, CA2: 10 });
+  assert.equal(update.total_score, 63);
+  assert.equal(update.exam_score, undefined);
+});
+
+console.log('All CBT marking tests passed.');
@@ -0,0 +1,95 @@
+import { strict as assert } from 'node:assert';
+import {
+  buildCoverFairnessReport,
+  findLessonsNeedingCover,
+  getAbsentTeachers,
+  getWeekdayName,
+  suggestCoverTeachers,
+} from '../src/services/coverAssignment.js';
+import { LeaveRequestStatus, type TimetableCover, type TimetableEntry, type UserProfile } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+function buildEntry(id: number, overrides: Partial<TimetableEntry> = {}): TimetableEntry {
+  return { id, school_id: 1, term_id: 1, day_of_week: 'Monday', period_id: 1, academic_class_id: 10, subject_id: 1, teacher_id: 'absent', ...overrides };
+}
+
+function buildCover(id: number, overrides: Partial<TimetableCover> = {}): TimetableCover {
+  return {
+    id, school_id: 1, term_id: 1, timetable_entry_id: 99, cover_date: '2026-01-05',
+    absent_teacher_id: 'absent', substitute_teacher_id: 'busy-cover', absence_source: 'leave', status: 'assigned', ...overrides,
+  };
+}
+
+const teachers = [
+  { id: 'absent', name: 'Absent Teacher' },
+  { id: 'maths', name: 'Maths Colleague' },
+  { id: 'free', name: 'Free Teacher' },
+  { id: 'teaching', name: 'Teaching Now' },
+  { id: 'busy-cover', name: 'Busy Cover' },
+] as UserProfile[];
+
+// 2026-01-05 is a Monday
+const date = '2026-01-05';
+
+test('weekday names follow the timetable convention', () => {
+  assert.strictEqual(getWeekdayName(date), 'Monday');
+});
+
+test('approved leave and absent check-ins mark teachers absent', () => {
+  const absences = getAbsentTeachers(
+    date,
+    [
+      { id: 7, school_id: 1, requester_id: 'absent', leave_type_id: 1, start_date: '2026-01-01', end_date: '2026-01-09', status: LeaveRequestStatus.Approved, created_at: '' },
+      { id: 8, school_id: 1, requester_id: 'free', leave_type_id: 1, start_date: '2026-01-01', end_date: '2026-01-09', status: LeaveRequestStatus.Pending, created_at: '' },
+    ],
+    [{ id: 1, school_id: 1, teacher_id: 'teaching', checkin_date: date, status: 'Absent', created_at: '' }]
+  );
+  assert.deepStrictEqual(absences.map((a) => `${a.teacherId}:${a.source}`).sort(), ['absent:leave', 'teaching:checkin']);
+  assert.strictEqual(absences.find((a) => a.teacherId === 'absent')?.leaveRequestId, 7);
+});
+
+test('suggestions exclude busy teachers and prefer same subject then fewest covers', () => {
+  const entries = [
+    buildEntry(1),
+    buildEntry(2, { teacher_id: 'teaching', academic_class_id: 11 }),
+    buildEntry(3, { teacher_id: 'maths', day_of_week: 'Tuesday' }),
+    buildEntry(99, { teacher_id: 'absent', academic_class_id: 12, subject_id: 2 }),
+  ];
+  const covers = [buildCover(1), buildCover(2, { cover_date: '2025-12-01', substitute_teacher_id: 'free', timetable_entry_id: 5 })];
+  const lessons = findLessonsNeedingCover(date, [{ teacherId: 'absent', source: 'leave' }], entries, covers);
+  assert.strictEqual(lessons.length, 2);
+  assert.ok(lessons.find((l) => l.entry.id === 99)?.cover);
+
+  const suggestions = suggestCoverTeachers({
+    lesson: entries[0],
+    date,
+    entries,
+    covers,
+    teachers,
+    absentTeacherIds: new Set(['absent']),
+  });
+  assert.deepStrictEqual(suggestions.map((s) => s.teacherId), ['maths', 'free']);
+});
+
+test('fairness report balances covers given against covers needed', () => {
+  const report = buildCoverFairnessReport(
+    [buildCover(1), buildCover(2, { substitute_teacher_id: 'free' }), buildCover(3, { substitute_teacher_id: 'free', status: 'cancelled' })],
+    teachers
+  );
+  assert.deepStrictEqual(report.map((r) => [r.teacherId, r.coversGiven, r.coversNeeded]), [
+    ['busy-cover', 1, 0],
+    ['free', 1, 0],
+    ['absent', 0, 2],
+  ]);
+});
+
+console.log('All cover assignment tests passed.');
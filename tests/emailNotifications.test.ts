@@ -0,0 +1,65 @@
+import { strict as assert } from 'node:assert';
+import {
+  escapeHtml,
+  normalizeChannels,
+  parentEmailFor,
+  renderEmailTemplate,
+  textToEmailHtml,
+} from '../src/services/emailNotifications.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+test('normalizeChannels reads legacy single values', () => {
+  assert.deepEqual(normalizeChannels('sms'), ['sms']);
+  assert.deepEqual(normalizeChannels('whatsapp'), ['whatsapp']);
+  assert.deepEqual(normalizeChannels('both'), ['whatsapp']);
+  assert.deepEqual(normalizeChannels('email'), ['email']);
+  assert.deepEqual(normalizeChannels(undefined), ['sms']);
+});
+
+test('normalizeChannels orders combinations and never returns none', () => {
+  assert.deepEqual(normalizeChannels(['email', 'sms', 'whatsapp']), ['whatsapp', 'sms', 'email']);
+  assert.deepEqual(normalizeChannels(['email', 'both']), ['email']);
+  assert.deepEqual(normalizeChannels([]), ['sms']);
+});
+
+test('parentEmailFor prefers the parent whose phone was messaged', () => {
+  const student = {
+    father_phone: '08031234567',
+    father_email: 'dad@example.com',
+    mother_phone: '+234 805 555 0000',
+    mother_email: ' mum@example.com ',
+  };
+  assert.equal(parentEmailFor(student, '2348055550000'), 'mum@example.com');
+  assert.equal(parentEmailFor(student, '2348031234567'), 'dad@example.com');
+  assert.equal(parentEmailFor(student, null), 'dad@example.com');
+  assert.equal(parentEmailFor({ mother_email: 'mum@example.com' }, '08031234567'), 'mum@example.com');
+  assert.equal(parentEmailFor({ father_email: '  ' }), null);
+});
+
+test('renderEmailTemplate escapes values in the body only', () => {
+  const rendered = renderEmailTemplate(
+    { subject: 'Report for {{student_name}}', html_body: '<p>Dear parent of {{student_name}}</p>' },
+    { student_name: 'Ada <O\'Neil> & Co' }
+  );
+  assert.equal(rendered.subject, 'Report for Ada <O\'Neil> & Co');
+  assert.equal(rendered.html, '<p>Dear parent of Ada &lt;O&#39;Neil&gt; &amp; Co</p>');
+  assert.equal(escapeHtml(null), '');
+});
+
+test('textToEmailHtml keeps paragraphs, line breaks and bold', () => {
+  assert.equal(
+    textToEmailHtml('Dear *Parent*,\nFees are due.\n\nThanks <school>'),
+    '<p>Dear <strong>Parent</strong>,<br>Fees are due.</p>\n<p>Thanks &lt;school&gt;</p>'
+  );
+});
+
+console.log('All email notification tests passed.');
@@ -0,0 +1,143 @@
+import { strict as assert } from 'node:assert';
+import {
+  allocateSeating,
+  assignInvigilators,
+  buildExamPapers,
+  buildExamPlan,
+  listExamDates,
+  scheduleExamPapers,
+  slotKey,
+  type ExamCandidate,
+  type ExamPaperRequest,
+} from '../src/services/examPlanner.js';
+import type { StudentSubjectEnrollment, TimetableLocation } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+function buildCandidates(ids: number[], arm: string, level = 'JSS 1'): ExamCandidate[] {
+  return ids.map((studentId) => ({ studentId, name: `Student ${studentId}`, level, arm }));
+}
+
+function buildPaper(key: string, candidates: ExamCandidate[]): ExamPaperRequest {
+  return { key, subjectId: Number(key.split('|')[1]), subjectName: key, level: candidates[0]?.level ?? 'JSS 1', candidates };
+}
+
+function buildHall(id: number, capacity: number): TimetableLocation {
+  return { id, school_id: 1, campus_id: 1, name: `Hall ${id}`, capacity };
+}
+
+test('lists weekday exam dates only', () => {
+  // 2026-03-06 is a Friday
+  assert.deepEqual(listExamDates('2026-03-06', '2026-03-10'), ['2026-03-06', '2026-03-09', '2026-03-10']);
+});
+
+test('builds one paper per level and subject across arms', () => {
+  const enrollments = [
+    { id: 1, school_id: 1, student_id: 1, subject_id: 5, academic_class_id: 10, term_id: 1, is_enrolled: true },
+    { id: 2, school_id: 1, student_id: 2, subject_id: 5, academic_class_id: 11, term_id: 1, is_enrolled: true },
+    { id: 3, school_id: 1, student_id: 3, subject_id: 5, academic_class_id: 12, term_id: 1, is_enrolled: true },
+    { id: 4, school_id: 1, student_id: 4, subject_id: 5, academic_class_id: 10, term_id: 1, is_enrolled: false },
+  ] as StudentSubjectEnrollment[];
+  const classInfo = { 10: { level: 'JSS 1', arm: 'Gold' }, 11: { level: 'JSS 1', arm: 'Blue' }, 12: { level: 'JSS 2', arm: 'Gold' } };
+
+  const papers = buildExamPapers(enrollments, classInfo, {}, { 5: 'Maths' });
+
+  assert.equal(papers.length, 2);
+  assert.deepEqual(papers[0].candidates.map((c) => c.studentId), [1, 2]);
+  assert.equal(papers[1].level, 'JSS 2');
+});
+
+test('never schedules two papers for the same student in one session', () => {
+  const papers = [
+    buildPaper('JSS 1|1', buildCandidates([1, 2], 'Gold')),
+    buildPaper('JSS 1|2', buildCandidates([1, 2], 'Gold')),
+    buildPaper('JSS 2|1', buildCandidates([3, 4], 'Blue', 'JSS 2')),
+  ];
+
+  const { schedule, unscheduled } = scheduleExamPapers(papers, ['2026-03-09'], ['Morning', 'Afternoon'], 0);
+
+  assert.equal(unscheduled.length, 0);
+  const jss1Slots = schedule.filter((s) => s.paper.level === 'JSS 1').map((s) => slotKey(s));
+  assert.equal(new Set(jss1Slots).size, 2);
+  const jss2 = schedule.find((s) => s.paper.level === 'JSS 2')!;
+  assert.equal(jss2.session, 'Morning');
+});
+
+test('reports papers that cannot fit anywhere', () => {
+  const papers = [
+    buildPaper('JSS 1|1', buildCandidates([1], 'Gold')),
+    buildPaper('JSS 1|2', buildCandidates([1], 'Gold')),
+  ];
+
+  const { schedule, unscheduled } = scheduleExamPapers(papers, ['2026-03-09'], ['Morning'], 0);
+
+  assert.equal(schedule.length, 1);
+  assert.match(unscheduled[0].reason, /clashes/);
+});
+
+test('respects total hall capacity per session', () => {
+  const papers = [
+    buildPaper('JSS 1|1', buildCandidates([1, 2, 3], 'Gold')),
+    buildPaper('JSS 2|1', buildCandidates([4, 5, 6], 'Blue', 'JSS 2')),
+  ];
+
+  const { schedule } = scheduleExamPapers(papers, ['2026-03-09'], ['Morning', 'Afternoon'], 4);
+
+  assert.equal(new Set(schedule.map((s) => slotKey(s))).size, 2);
+});
+
+test('seating alternates arms and overflows into the next hall', () => {
+  const paper = buildPaper('JSS 1|1', [...buildCandidates([1, 2], 'Gold'), ...buildCandidates([3, 4], 'Blue')]);
+
+  const { seats, unseated } = allocateSeating([paper], [buildHall(1, 3), buildHall(2, 3)]);
+
+  assert.equal(unseated.length, 0);
+  const hallOne = seats.filter((s) => s.locationId === 1).sort((a, b) => a.seatNumber - b.seatNumber);
+  assert.equal(hallOne.length, 3);
+  const arms = hallOne.map((s) => paper.candidates.find((c) => c.studentId === s.studentId)!.arm);
+  assert.notEqual(arms[0], arms[1]);
+  assert.notEqual(arms[1], arms[2]);
+  assert.equal(seats.filter((s) => s.locationId === 2).length, 1);
+});
+
+test('assigns invigilators by ratio without double-booking a session', () => {
+  const slot = { date: '2026-03-09', session: 'Morning' };
+  const seats = {
+    [slotKey(slot)]: [
+      ...[1, 2, 3].map((n) => ({ studentId: n, paperKey: 'JSS 1|1', locationId: 1, seatNumber: n })),
+      { studentId: 4, paperKey: 'JSS 1|1', locationId: 2, seatNumber: 1 },
+    ],
+  };
+
+  const duties = assignInvigilators(seats, [slot], ['a', 'b', 'c', 'd'], 2);
+
+  assert.equal(duties.filter((d) => d.locationId === 1).length, 2);
+  assert.equal(duties.filter((d) => d.locationId === 2).length, 1);
+  assert.equal(new Set(duties.map((d) => d.invigilatorId)).size, 3);
+});
+
+test('builds a complete plan end to end', () => {
+  const plan = buildExamPlan({
+    papers: [buildPaper('JSS 1|1', buildCandidates([1, 2], 'Gold')), buildPaper('JSS 1|2', buildCandidates([1, 2], 'Gold'))],
+    dates: ['2026-03-09', '2026-03-10'],
+    sessions: ['Morning'],
+    halls: [buildHall(1, 10)],
+    invigilatorIds: ['a', 'b'],
+    candidatesPerInvigilator: 30,
+  });
+
+  assert.equal(plan.schedule.length, 2);
+  assert.notEqual(plan.schedule[0].date, plan.schedule[1].date);
+  assert.equal(plan.invigilation.length, 2);
+  assert.deepEqual([...new Set(plan.invigilation.map((d) => d.invigilatorId))].sort(), ['a', 'b']);
+});
+
+console.log('All exam planner tests passed.');
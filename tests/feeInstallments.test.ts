@@ -0,0 +1,110 @@
+import { strict as assert } from 'node:assert';
+import {
+  buildInstallmentSchedule,
+  computeLateFee,
+  deriveInstallmentProgress,
+  pickReminderInstallment,
+  resizeInstallments,
+} from '../src/services/feeInstallments.js';
+import type { FeeItem } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const fee = (overrides: Partial<FeeItem> = {}): FeeItem => ({
+  id: 1,
+  school_id: 1,
+  name: 'Tuition',
+  amount: 100000,
+  is_compulsory: true,
+  ...overrides,
+});
+
+test('a fee without installments falls due in full on the invoice due date', () => {
+  assert.deepEqual(buildInstallmentSchedule([fee(), fee({ id: 2, amount: 20000 })], '2026-10-01'), [
+    { sequence: 1, name: 'Full payment', due_date: '2026-10-01', amount: 120000 },
+  ]);
+});
+
+test('splits fees that allow installments and merges parts due on the same day', () => {
+  const tuition = fee({
+    allow_installments: true,
+    installments: [
+      { name: '1st Installment', amount: 0, percentage: 33.33, due_date: '2026-09-15' },
+      { name: '2nd Installment', amount: 0, percentage: 33.33, due_date: '2026-10-15' },
+      { name: '3rd Installment', amount: 0, percentage: 33.34, due_date: '2026-11-15' },
+    ],
+  });
+  const schedule = buildInstallmentSchedule([tuition, fee({ id: 2, name: 'Bus', amount: 15000 })], '2026-09-15');
+  assert.deepEqual(schedule, [
+    { sequence: 1, name: '1st Installment', due_date: '2026-09-15', amount: 48330 },
+    { sequence: 2, name: '2nd Installment', due_date: '2026-10-15', amount: 33330 },
+    { sequence: 3, name: '3rd Installment', due_date: '2026-11-15', amount: 33340 },
+  ]);
+  assert.equal(schedule.reduce((sum, i) => sum + i.amount, 0), 115000);
+});
+
+test('ignores installment plans on fees that do not allow them', () => {
+  const schedule = buildInstallmentSchedule(
+    [fee({ allow_installments: false, installments: [{ name: 'Half', amount: 50000, due_date: '2026-09-01' }] })],
+    '2026-10-01'
+  );
+  assert.equal(schedule.length, 1);
+  assert.equal(schedule[0].due_date, '2026-10-01');
+});
+
+test('fills installments in due order and marks past-due gaps overdue', () => {
+  const progress = deriveInstallmentProgress(
+    [
+      { sequence: 2, name: 'Second', due_date: '2026-10-15', amount: 50000 },
+      { sequence: 1, name: 'First', due_date: '2026-09-15', amount: 50000 },
+      { sequence: 3, name: 'Third', due_date: '2026-11-15', amount: 50000 },
+    ],
+    60000,
+    '2026-10-20'
+  );
+  assert.deepEqual(progress.map(i => [i.name, i.amount_paid, i.status]), [
+    ['First', 50000, 'paid'],
+    ['Second', 10000, 'overdue'],
+    ['Third', 0, 'due'],
+  ]);
+  assert.equal(deriveInstallmentProgress(progress, 60000, '2026-10-01')[1].status, 'part_paid');
+});
+
+test('resizes a schedule to a new invoice total from the last installment', () => {
+  const schedule = [
+    { sequence: 1, name: 'First', due_date: '2026-09-15', amount: 50000 },
+    { sequence: 2, name: 'Second', due_date: '2026-10-15', amount: 30000 },
+  ];
+  assert.deepEqual(resizeInstallments(schedule, 85000).map(i => i.amount), [50000, 35000]);
+  assert.deepEqual(resizeInstallments(schedule, 40000).map(i => i.amount), [40000, 0]);
+  assert.deepEqual(resizeInstallments(schedule, 80000), schedule);
+});
+
+test('computes flat and percentage late fees with a cap', () => {
+  assert.equal(computeLateFee({ enabled: false, type: 'flat', value: 5000, grace_days: 7 }, 20000), 0);
+  assert.equal(computeLateFee({ enabled: true, type: 'flat', value: 5000, grace_days: 7 }, 20000), 5000);
+  assert.equal(computeLateFee({ enabled: true, type: 'percentage', value: 5, grace_days: 0 }, 33333), 1666.65);
+  assert.equal(computeLateFee({ enabled: true, type: 'percentage', value: 10, grace_days: 0, cap: 2000 }, 50000), 2000);
+  assert.equal(computeLateFee({ enabled: true, type: 'flat', value: 5000, grace_days: 7 }, 0), 0);
+});
+
+test('reminds about the earliest unpaid installment once it is close to due', () => {
+  const installments = [
+    { sequence: 1, due_date: '2026-09-15', amount: 50000, amount_paid: 50000 },
+    { sequence: 2, due_date: '2026-10-25', amount: 50000, amount_paid: 20000 },
+    { sequence: 3, due_date: '2026-11-15', amount: 50000, amount_paid: 0 },
+  ];
+  assert.equal(pickReminderInstallment(installments, '2026-10-20', 7)?.sequence, 2);
+  assert.equal(pickReminderInstallment(installments, '2026-10-01', 7), null);
+  assert.equal(pickReminderInstallment(installments, '2026-11-30', 0)?.sequence, 2);
+});
+
+console.log('All fee installment tests passed.');
@@ -0,0 +1,119 @@
+import { strict as assert } from 'node:assert';
+import {
+  buildPaymentReceipt,
+  describeReconciliationRow,
+  getImportedPaymentTopUp,
+  summarizeReconciliation,
+  toLedgerPaymentMethod,
+} from '../src/services/feeLedger.js';
+import {
+  LedgerPaymentMethod,
+  LedgerPaymentStatus,
+  type FeeReconciliationRow,
+  type LedgerPayment,
+} from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const row = (overrides: Partial<FeeReconciliationRow> = {}): FeeReconciliationRow => ({
+  student_id: 1,
+  student_name: 'Ada Obi',
+  invoiced: 100000,
+  invoice_balance: 40000,
+  legacy_balance: 40000,
+  ledger_balance: 40000,
+  adjustments: 0,
+  unallocated_credit: 0,
+  legacy_payments: 60000,
+  unmigrated_payments: 0,
+  flagged: false,
+  ...overrides,
+});
+
+test('maps legacy and UI method labels onto ledger methods', () => {
+  assert.equal(toLedgerPaymentMethod('Cash'), LedgerPaymentMethod.Cash);
+  assert.equal(toLedgerPaymentMethod('POS'), LedgerPaymentMethod.POS);
+  assert.equal(toLedgerPaymentMethod('Bank Transfer (DVA)'), LedgerPaymentMethod.Transfer);
+  assert.equal(toLedgerPaymentMethod('Card Payment'), LedgerPaymentMethod.Paystack);
+  assert.equal(toLedgerPaymentMethod('Cheque'), LedgerPaymentMethod.Offline);
+  assert.equal(toLedgerPaymentMethod(undefined), LedgerPaymentMethod.Offline);
+});
+
+test('records only the extra amount a CSV import says was paid', () => {
+  assert.equal(getImportedPaymentTopUp('25000', 10000), 15000);
+  assert.equal(getImportedPaymentTopUp(10000, 10000), 0);
+  assert.equal(getImportedPaymentTopUp(5000, 10000), 0);
+  assert.equal(getImportedPaymentTopUp('', 0), 0);
+  assert.equal(getImportedPaymentTopUp('abc', 0), 0);
+  assert.equal(getImportedPaymentTopUp(100.1, 0.2), 99.9);
+});
+
+test('explains why a student is flagged', () => {
+  assert.deepEqual(describeReconciliationRow(row()), []);
+  assert.deepEqual(describeReconciliationRow(row({ ledger_balance: 35000, adjustments: -5000 })), [
+    'Balance before the ledger migration differs from the ledger',
+    'Discounts or surcharges are not reflected on the invoices',
+  ]);
+  assert.deepEqual(describeReconciliationRow(row({ unmigrated_payments: 2 })), [
+    '2 legacy payment(s) could not be matched to the ledger',
+  ]);
+  assert.deepEqual(describeReconciliationRow(row({ legacy_balance: 30000, ledger_balance: 30000 })), [
+    'Invoice balance differs from the ledger',
+  ]);
+});
+
+test('summarises the reconciliation report', () => {
+  const summary = summarizeReconciliation([
+    row(),
+    row({ student_id: 2, invoice_balance: 10000, ledger_balance: 0, unallocated_credit: 10000, flagged: true }),
+  ]);
+  assert.deepEqual(summary, { students: 2, flagged: 1, invoiceBalance: 50000, ledgerBalance: 40000 });
+});
+
+const payment = (overrides: Partial<LedgerPayment> = {}): LedgerPayment => ({
+  id: 7,
+  student_id: 1,
+  session_id: null,
+  term_id: 3,
+  payment_ref: 'PSK-123',
+  method: LedgerPaymentMethod.Paystack,
+  amount: 50000,
+  paid_at: '2026-09-14T10:00:00Z',
+  status: LedgerPaymentStatus.Success,
+  receipt_no: 'RCT-000007',
+  allocations: [
+    { id: 12, payment_id: 7, invoice_id: 2, invoice_line_item_id: 21, allocated_amount: 5000, invoice: { invoice_number: 'INV-2' }, line: { description: 'Bus' } },
+    { id: 11, payment_id: 7, invoice_id: 2, invoice_line_item_id: 20, allocated_amount: 30000, invoice: { invoice_number: 'INV-2' }, line: { description: 'Tuition' } },
+    { id: 13, payment_id: 7, invoice_id: 3, invoice_line_item_id: null, allocated_amount: 10000 },
+  ],
+  ...overrides,
+});
+
+test('lists receipt lines in the order fees were cleared', () => {
+  const receipt = buildPaymentReceipt(payment({ meta: { balance_after: 12000 } }), 'Ada Obi', 99999);
+  assert.deepEqual(receipt.allocations, [
+    { invoice_no: 'INV-2', description: 'Tuition', amount: 30000 },
+    { invoice_no: 'INV-2', description: 'Bus', amount: 5000 },
+    { invoice_no: '#3', description: 'Other charges', amount: 10000 },
+    { invoice_no: '-', description: 'Credit carried forward', amount: 5000 },
+  ]);
+  assert.equal(receipt.receipt_no, 'RCT-000007');
+  assert.equal(receipt.balance_after, 12000);
+});
+
+test('falls back to the current balance for payments recorded before balances were kept', () => {
+  const receipt = buildPaymentReceipt(payment({ receipt_no: null, allocations: [] }), 'Ada Obi', 42000);
+  assert.equal(receipt.receipt_no, 'PSK-123');
+  assert.equal(receipt.balance_after, 42000);
+  assert.deepEqual(receipt.allocations, [{ invoice_no: '-', description: 'Credit carried forward', amount: 50000 }]);
+});
+
+console.log('All fee ledger tests passed.');
@@ -0,0 +1,60 @@
+import { strict as assert } from 'node:assert';
+import {
+  isBatchSettled,
+  outboxRetryDelayMinutes,
+  quietHoursRelease,
+  summarizeOutbox,
+} from '../src/services/messageOutbox.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const overnight = { enabled: true, start: '21:00', end: '07:00' };
+
+test('holds messages queued overnight until quiet hours end in Lagos', () => {
+  // 22:30 Lagos on 19 Oct -> 07:00 Lagos on 20 Oct
+  assert.equal(quietHoursRelease(overnight, new Date('2026-10-19T21:30:00Z')).toISOString(), '2026-10-20T06:00:00.000Z');
+  // 05:15 Lagos -> 07:00 the same morning
+  assert.equal(quietHoursRelease(overnight, new Date('2026-10-20T04:15:00Z')).toISOString(), '2026-10-20T06:00:00.000Z');
+  // 12:00 Lagos is outside the window
+  const noon = new Date('2026-10-20T11:00:00Z');
+  assert.equal(quietHoursRelease(overnight, noon), noon);
+  // Exactly at the end of the window sends straight away
+  const seven = new Date('2026-10-20T06:00:00Z');
+  assert.equal(quietHoursRelease(overnight, seven), seven);
+});
+
+test('handles daytime windows and switched-off quiet hours', () => {
+  const lunch = { enabled: true, start: '13:00', end: '14:00' };
+  assert.equal(quietHoursRelease(lunch, new Date('2026-10-20T12:20:00Z')).toISOString(), '2026-10-20T13:00:00.000Z');
+  const morning = new Date('2026-10-20T08:00:00Z');
+  assert.equal(quietHoursRelease(lunch, morning), morning);
+
+  const late = new Date('2026-10-19T22:00:00Z');
+  assert.equal(quietHoursRelease({ ...overnight, enabled: false }, late), late);
+  assert.equal(quietHoursRelease(null, late), late);
+  assert.equal(quietHoursRelease({ enabled: true, start: '21:00', end: '21:00' }, late), late);
+});
+
+test('backs off retries and caps the wait at six hours', () => {
+  assert.deepEqual([1, 2, 3, 4, 5, 6].map(outboxRetryDelayMinutes), [1, 4, 16, 64, 256, 360]);
+  assert.equal(outboxRetryDelayMinutes(0), 1);
+});
+
+test('summarizes a batch and knows when it has finished', () => {
+  const summary = summarizeOutbox([
+    { status: 'sent' }, { status: 'sent' }, { status: 'queued' }, { status: 'failed' }, { status: 'dead' },
+  ]);
+  assert.deepEqual(summary, { queued: 1, sending: 0, sent: 2, failed: 1, dead: 1, total: 5 });
+  assert.equal(isBatchSettled(summary), false);
+  assert.equal(isBatchSettled(summarizeOutbox([{ status: 'sent' }, { status: 'dead' }])), true);
+});
+
+console.log('All message outbox tests passed.');
@@ -0,0 +1,106 @@
+import { strict as assert } from 'node:assert';
+import { buildParentCheckout, openInvoices, summarizeChildFees } from '../src/services/parentFees.js';
+import {
+  InvoiceStatus,
+  LedgerAdjustmentType,
+  LedgerPaymentMethod,
+  LedgerPaymentStatus,
+  type LedgerPayment,
+  type StudentAdjustment,
+  type StudentInvoice,
+} from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const invoice = (id: number, total: number, paid: number, dueDate: string, status = InvoiceStatus.Unpaid): StudentInvoice => ({
+  id,
+  school_id: 1,
+  student_id: 7,
+  term_id: id,
+  invoice_number: `INV-${id}`,
+  total_amount: total,
+  amount_paid: paid,
+  status,
+  due_date: dueDate,
+  created_at: `${dueDate}T00:00:00Z`,
+});
+
+const payment = (id: number, amount: number, paidAt: string, status = LedgerPaymentStatus.Success): LedgerPayment => ({
+  id,
+  student_id: 7,
+  session_id: null,
+  term_id: null,
+  payment_ref: `REF-${id}`,
+  method: LedgerPaymentMethod.Transfer,
+  amount,
+  paid_at: paidAt,
+  status,
+});
+
+const invoices = [
+  invoice(2, 120000, 0, '2026-12-01'),
+  invoice(1, 105000, 60000, '2026-09-30'),
+  invoice(3, 50000, 0, '2026-08-01', InvoiceStatus.Void),
+];
+
+const adjustments: StudentAdjustment[] = [
+  { student_id: 7, session_id: null, term_id: null, type: LedgerAdjustmentType.Surcharge, reason: 'Late fee', amount: 5000, applied_to_invoice_id: 1, posted_to_invoice: true },
+  { student_id: 7, session_id: null, term_id: null, type: LedgerAdjustmentType.Scholarship, reason: 'Sibling', amount: 10000 },
+];
+
+test('summarises billed, charged, relieved and paid amounts like the ledger', () => {
+  const summary = summarizeChildFees(7, invoices, adjustments, [
+    payment(1, 50000, '2026-09-02'),
+    payment(2, 10000, '2026-10-01'),
+    payment(3, 99999, '2026-10-05', LedgerPaymentStatus.Failed),
+  ]);
+  assert.equal(summary.total_invoiced, 220000);
+  assert.equal(summary.total_surcharges, 5000);
+  assert.equal(summary.total_reliefs, 10000);
+  assert.equal(summary.total_paid, 60000);
+  assert.equal(summary.balance, 155000);
+  assert.equal(summary.last_payment_date, '2026-10-01');
+  assert.equal(summary.term_id, 2);
+});
+
+test('lists open invoices oldest due first, skipping void and settled ones', () => {
+  const settled = invoice(4, 1000, 1000, '2026-01-01', InvoiceStatus.Paid);
+  assert.deepEqual(openInvoices([...invoices, settled]).map(inv => inv.id), [1, 2]);
+});
+
+test('builds checkouts whose references point the webhook at the right invoice', () => {
+  const summary = summarizeChildFees(7, invoices, adjustments, [payment(1, 60000, '2026-09-02')]);
+  const now = 1790000000000;
+  const stamp = now.toString(36).toUpperCase();
+
+  const whole = buildParentCheckout(7, { kind: 'invoice', invoice: invoices[0] }, summary, invoices, now);
+  assert.deepEqual(whole, { label: 'Invoice INV-2', amount: 120000, reference: `INVOICE-2-${stamp}`, invoiceId: 2, installmentId: null });
+
+  const part = buildParentCheckout(7, {
+    kind: 'installment',
+    invoice: invoices[1],
+    installment: { id: 31, sequence: 2, name: '2nd Installment', due_date: '2026-10-15', amount: 52500, amount_paid: 7500, status: 'part_paid' },
+  }, summary, invoices, now);
+  assert.equal(part.amount, 45000);
+  assert.equal(part.reference, `INVOICE-1-I31-${stamp}`);
+  assert.equal(part.installmentId, 31);
+
+  const balance = buildParentCheckout(7, { kind: 'balance' }, summary, invoices, now);
+  assert.equal(balance.amount, 155000);
+  assert.equal(balance.invoiceId, 1);
+  assert.match(balance.reference, /^INVOICE-1-B-/);
+
+  const cleared = buildParentCheckout(7, { kind: 'balance' }, { ...summary, balance: -2000 }, [], now);
+  assert.equal(cleared.amount, 0);
+  assert.equal(cleared.reference, `FEES-7-${stamp}`);
+});
+
+console.log('All parent fees tests passed.');
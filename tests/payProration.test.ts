@@ -0,0 +1,78 @@
+import { strict as assert } from 'node:assert';
+import {
+  computeProration,
+  employedInPeriod,
+  prorate,
+  prorationMetadata,
+  schoolWorkingDates,
+} from '../src/services/payProration.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+// October 2026 has 22 weekdays; 1 October is a recurring public holiday
+const holidays = [{ date: '2020-10-01', is_recurring: true }];
+const october = { year: 2026, month: 10, holidays, unpaidLeave: [] };
+
+test('school working days skip weekends and holidays', () => {
+  const dates = schoolWorkingDates(2026, 10, holidays);
+  assert.equal(dates.length, 21);
+  assert.equal(dates[0], '2026-10-02');
+  assert.ok(!dates.includes('2026-10-03'));
+});
+
+test('staff employed all month are paid in full', () => {
+  const proration = computeProration({ ...october, startDate: '2024-01-08', endDate: null });
+  assert.equal(proration.factor, 1);
+  assert.equal(proration.detail, '21 of 21 working days');
+});
+
+test('joiners and leavers are paid for the working days they were employed', () => {
+  const joiner = computeProration({ ...october, startDate: '2026-10-19' });
+  assert.equal(joiner.paid_days, 10);
+  assert.equal(joiner.detail, '10 of 21 working days (joined 19 Oct)');
+  assert.equal(prorate(210000, joiner), 100000);
+
+  const leaver = computeProration({ ...october, startDate: '2026-10-05', endDate: '2026-10-09' });
+  assert.equal(leaver.paid_days, 5);
+  assert.equal(leaver.detail, '5 of 21 working days (joined 5 Oct, left 9 Oct)');
+});
+
+test('unpaid leave only counts working days while employed', () => {
+  const proration = computeProration({
+    ...october,
+    endDate: '2026-10-23',
+    unpaidLeave: [{ start_date: '2026-09-28', end_date: '2026-10-06' }, { start_date: '2026-10-22', end_date: '2026-11-10' }],
+  });
+  // 2 Oct, 5 Oct, 6 Oct, 22 Oct and 23 Oct
+  assert.equal(proration.unpaid_leave_days, 5);
+  assert.equal(proration.paid_days, 11);
+  assert.equal(proration.detail, '11 of 21 working days (left 23 Oct, 5 days unpaid leave)');
+});
+
+test('pro-rated lines record the calculation', () => {
+  const proration = computeProration({ ...october, startDate: '2026-10-19' });
+  assert.deepEqual(prorationMetadata(210000, proration), {
+    source: 'proration',
+    full_amount: 210000,
+    paid_days: 10,
+    working_days: 21,
+    detail: '210,000.00 × 10 of 21 working days (joined 19 Oct)',
+  });
+});
+
+test('employedInPeriod drops staff who start after or leave before the month', () => {
+  assert.equal(employedInPeriod({ employment_start_date: '2026-11-02' }, 2026, 10), false);
+  assert.equal(employedInPeriod({ employment_end_date: '2026-09-30' }, 2026, 10), false);
+  assert.equal(employedInPeriod({ employment_start_date: '2026-10-31', employment_end_date: null }, 2026, 10), true);
+  assert.equal(employedInPeriod({}, 2026, 10), true);
+});
+
+console.log('All pay proration tests passed.');
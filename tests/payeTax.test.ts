@@ -0,0 +1,140 @@
+import { strict as assert } from 'node:assert';
+import {
+  DEFAULT_PAYE_SETTINGS,
+  EMPTY_YEAR_TO_DATE,
+  computeMonthlyPaye,
+  consolidatedRelief,
+  generatePayeRemittanceCSV,
+  parsePeriodKey,
+  statutoryDeductions,
+  taxOnBands,
+  yearToDateFromRecords,
+} from '../src/services/payeTax.js';
+import type { StaffTaxRecord } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const settings = DEFAULT_PAYE_SETTINGS;
+const month = (overrides: Partial<Parameters<typeof computeMonthlyPaye>[0]> = {}) => ({
+  month: 1,
+  gross_pay: 500000,
+  pension: 0,
+  nhf: 0,
+  nhis: 0,
+  ...overrides,
+});
+
+test('taxOnBands fills each band in order and taxes the remainder at the top rate', () => {
+  assert.equal(taxOnBands(0, settings.tax_bands), 0);
+  assert.equal(taxOnBands(300000, settings.tax_bands), 21000);
+  assert.equal(taxOnBands(3200000, settings.tax_bands), 560000);
+  assert.equal(taxOnBands(4600000, settings.tax_bands), 896000);
+});
+
+test('consolidatedRelief takes the higher base and adds the gross percentage', () => {
+  assert.equal(consolidatedRelief(6000000, settings), 1400000);
+  assert.equal(consolidatedRelief(30000000, settings), 6300000);
+  assert.equal(consolidatedRelief(6000000, { ...settings, cra_enabled: false }), 0);
+});
+
+test('statutoryDeductions charges NHF and NHIS on basic pay only when enabled', () => {
+  assert.deepEqual(statutoryDeductions(200000, settings), { nhf: 0, nhis: 0 });
+  assert.deepEqual(
+    statutoryDeductions(200000, { ...settings, nhf_enabled: true, nhis_enabled: true }),
+    { nhf: 5000, nhis: 10000 }
+  );
+});
+
+test('computeMonthlyPaye taxes annualised pay after relief and exempt deductions', () => {
+  const plain = computeMonthlyPaye(month(), settings);
+  assert.equal(plain.tax, 74666.67);
+  assert.equal(plain.consolidated_relief, 116666.67);
+  assert.equal(plain.taxable_pay, 383333.33);
+
+  const withPension = computeMonthlyPaye(month({ pension: 40000 }), settings);
+  assert.equal(withPension.tax, 65066.67);
+});
+
+test('computeMonthlyPaye builds on year to date and spreads a bonus over the year', () => {
+  const january = computeMonthlyPaye(month(), settings);
+  const ytd = { ...EMPTY_YEAR_TO_DATE, ...january, months_paid: 1 };
+
+  const february = computeMonthlyPaye(month({ month: 2 }), settings, ytd);
+  assert.equal(february.tax, 74666.66);
+  assert.equal(february.ytd_tax, 149333.33);
+  assert.equal(february.ytd_gross_pay, 1000000);
+
+  const bonus = computeMonthlyPaye(month({ month: 2, gross_pay: 1000000 }), settings, ytd);
+  assert.equal(bonus.tax, 170666.66);
+});
+
+test('computeMonthlyPaye applies minimum tax, the exemption threshold and the switch', () => {
+  assert.equal(computeMonthlyPaye(month({ gross_pay: 30000 }), settings).tax, 513.33);
+  assert.equal(computeMonthlyPaye(month({ gross_pay: 30000, pension: 30000 }), settings).tax, 300);
+  assert.equal(computeMonthlyPaye(month({ gross_pay: 30000 }), { ...settings, exemption_threshold: 840000 }).tax, 0);
+  assert.equal(computeMonthlyPaye(month(), { ...settings, is_enabled: false }).tax, 0);
+});
+
+test('computeMonthlyPaye taxes a first run mid-year on the months actually paid', () => {
+  const october = computeMonthlyPaye(month({ month: 10 }), settings);
+  assert.equal(october.tax, 74666.67);
+  assert.equal(october.taxable_pay, 383333.33);
+
+  const november = computeMonthlyPaye(month({ month: 11 }), settings, { ...EMPTY_YEAR_TO_DATE, ...october, months_paid: 1 });
+  assert.equal(november.tax, 74666.66);
+  assert.equal(november.ytd_tax, 149333.33);
+});
+
+test('computeMonthlyPaye never refunds tax already deducted', () => {
+  const ytd = { ytd_gross_pay: 500000, ytd_exempt: 0, ytd_taxable_pay: 383333.33, ytd_tax: 200000, months_paid: 1 };
+  const result = computeMonthlyPaye(month({ month: 2 }), settings, ytd);
+  assert.equal(result.tax, 0);
+  assert.equal(result.ytd_tax, 200000);
+});
+
+test('parsePeriodKey reads run period keys', () => {
+  assert.deepEqual(parsePeriodKey('2026-10'), { year: 2026, month: 10 });
+  assert.deepEqual(parsePeriodKey('2026-3'), { year: 2026, month: 3 });
+  assert.equal(parsePeriodKey('2026-13'), null);
+  assert.equal(parsePeriodKey('October 2026'), null);
+});
+
+test('yearToDateFromRecords keeps the latest totals and sums exempt deductions', () => {
+  const ytd = yearToDateFromRecords([
+    { user_id: 'a', tax_month: 2, pension: 40000, nhf: 5000, nhis: 0, ytd_gross_pay: 1000000, ytd_taxable_pay: 700000, ytd_tax: 130000 },
+    { user_id: 'a', tax_month: 1, pension: 40000, nhf: 5000, nhis: 0, ytd_gross_pay: 500000, ytd_taxable_pay: 350000, ytd_tax: 65000 },
+    { user_id: 'a', tax_month: 3, pension: 40000, nhf: 5000, nhis: 0, ytd_gross_pay: 1500000, ytd_taxable_pay: 1050000, ytd_tax: 195000 },
+  ], 3);
+  assert.deepEqual(ytd.get('a'), { ytd_gross_pay: 1000000, ytd_taxable_pay: 700000, ytd_tax: 130000, ytd_exempt: 90000, months_paid: 2 });
+  assert.equal(ytd.has('b'), false);
+});
+
+test('generatePayeRemittanceCSV lists staff by name with a total', () => {
+  const record = (name: string, tax: number, taxId: string | null): StaffTaxRecord => ({
+    id: 1, school_id: 1, user_id: name, tax_year: 2026, tax_month: 10,
+    gross_pay: 500000, pension: 40000, nhf: 0, nhis: 0, consolidated_relief: 116666.67,
+    taxable_pay: 343333.33, tax, ytd_gross_pay: 5000000, ytd_taxable_pay: 3433333.3, ytd_tax: tax * 10,
+    created_at: '', updated_at: '',
+    staff: { id: name, name, staff_code: 'EMP', tax_id: taxId },
+  });
+  const csv = generatePayeRemittanceCSV(
+    [record('Zainab "Zee" Bello', 65066.67, '1234'), record('Ade Obi', 65066.67, null)],
+    { revenue_service: 'LIRS', employer_tin: '999' },
+    'Yebo School'
+  ).split('\n');
+  assert.equal(csv[0], '"Revenue Service","LIRS"');
+  assert.equal(csv[3], '"Period","October 2026"');
+  assert.ok(csv[6].startsWith('"1","Ade Obi","EMP","",'));
+  assert.ok(csv[7].startsWith('"2","Zainab ""Zee"" Bello","EMP","1234",'));
+  assert.equal(csv[8], '"","TOTAL","","","1000000.00","","","","","","130133.34",""');
+});
+
+console.log('All PAYE tax tests passed.');
@@ -0,0 +1,124 @@
+import { strict as assert } from 'node:assert';
+import {
+  evaluateFormula,
+  evaluatePayrollComponents,
+  formulaVariables,
+  orderPayrollComponents,
+  parseFormula,
+  workingDaysInMonth,
+} from '../src/services/payrollFormulas.js';
+import type { PayrollComponent } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const run = (formula: string, variables: Record<string, number> = {}) => evaluateFormula(parseFormula(formula), variables);
+
+const component = (overrides: Partial<PayrollComponent>): PayrollComponent => ({
+  id: 1,
+  school_id: 1,
+  name: 'Component',
+  code: null,
+  component_type: 'earning',
+  taxable: true,
+  pensionable: false,
+  calculation_type: 'formula',
+  amount: 0,
+  formula: '0',
+  ordering: 100,
+  show_on_payslip: true,
+  is_default: false,
+  ...overrides,
+});
+
+const variables = { base_pay: 200000, commission: 0, additions: 0, days_worked: 18, working_days: 20, grade_level: 8 };
+
+test('parseFormula follows arithmetic precedence and parentheses', () => {
+  assert.equal(run('2 + 3 * 4'), 14);
+  assert.equal(run('(2 + 3) * 4'), 20);
+  assert.equal(run('-2 * -3 + 10 % 4'), 8);
+  assert.equal(run('.5 * base_pay', { base_pay: 100 }), 50);
+});
+
+test('conditions, logic and functions', () => {
+  assert.equal(run('grade_level >= 10 ? 20000 : 10000', { grade_level: 12 }), 20000);
+  assert.equal(run('grade_level >= 10 ? 20000 : grade_level > 5 ? 15000 : 10000', { grade_level: 7 }), 15000);
+  assert.equal(run('if(days_worked == working_days && !late, 5000, 0)', { days_worked: 20, working_days: 20, late: 0 }), 5000);
+  assert.equal(run('round(BASE_PAY * days_worked / working_days, 2)', { base_pay: 1000, days_worked: 2, working_days: 3 }), 666.67);
+  assert.equal(run('min(max(base_pay * 0.1, 5000), 15000)', { base_pay: 200000 }), 15000);
+});
+
+test('parseFormula rejects anything outside the language', () => {
+  assert.throws(() => parseFormula(''), /empty/);
+  assert.throws(() => parseFormula('base_pay *'), /ends unexpectedly/);
+  assert.throws(() => parseFormula('(1 + 2'), /Expected "\)"/);
+  assert.throws(() => parseFormula('alert(1)'), /Unknown function "alert"/);
+  assert.throws(() => parseFormula('base_pay; 1'), /Unexpected character ";"/);
+  assert.throws(() => parseFormula('constructor.name'), /Unexpected character "\."/);
+  assert.throws(() => parseFormula('round()'), /Wrong number of arguments/);
+  assert.throws(() => run('base_pay / days_worked', { base_pay: 1, days_worked: 0 }), /Division by zero/);
+  assert.throws(() => run('salary * 2'), /Unknown variable "salary"/);
+});
+
+test('formulaVariables lists what a formula reads', () => {
+  assert.deepEqual([...formulaVariables(parseFormula('max(housing, base_pay * 0.1) + transport'))].sort(), ['base_pay', 'housing', 'transport']);
+});
+
+test('components are evaluated after the components they read, then by ordering', () => {
+  const results = evaluatePayrollComponents([
+    component({ id: 1, name: 'Leave Bonus', code: 'leave', ordering: 10, formula: '(housing + transport) * 0.5' }),
+    component({ id: 2, name: 'Housing', code: 'housing', ordering: 20, formula: 'base_pay * 0.3' }),
+    component({ id: 3, name: 'Transport', code: 'transport', ordering: 30, calculation_type: 'fixed', amount: 15000 }),
+    component({ id: 4, name: 'Lateness', code: 'lateness', ordering: 5, component_type: 'deduction', formula: '(working_days - days_worked) * 1000' }),
+    component({ id: 5, name: 'Old', code: 'old', ordering: 1, is_active: false, formula: 'missing * 2' }),
+  ], variables);
+  assert.deepEqual(results.map(r => [r.component.name, r.amount]), [
+    ['Lateness', 2000],
+    ['Housing', 60000],
+    ['Transport', 15000],
+    ['Leave Bonus', 37500],
+  ]);
+});
+
+test('amounts are rounded and never negative', () => {
+  const results = evaluatePayrollComponents([
+    component({ id: 1, code: 'a', formula: 'base_pay / 3' }),
+    component({ id: 2, code: 'b', formula: 'days_worked - working_days' }),
+  ], variables);
+  assert.deepEqual(results.map(r => r.amount), [66666.67, 0]);
+});
+
+test('circular formulas are rejected with the cycle', () => {
+  assert.throws(() => orderPayrollComponents([
+    component({ id: 1, name: 'A', code: 'a', formula: 'b + 1' }),
+    component({ id: 2, name: 'B', code: 'b', formula: 'c + 1' }),
+    component({ id: 3, name: 'C', code: 'c', formula: 'a + base_pay' }),
+  ]), /Circular formula: a -> b -> c -> a/);
+  assert.throws(() => orderPayrollComponents([
+    component({ id: 1, name: 'Self', code: 'self', formula: 'self * 2' }),
+  ]), /Circular formula: self -> self/);
+});
+
+test('bad codes and references name the component at fault', () => {
+  assert.throws(() => orderPayrollComponents([component({ name: 'Basic', code: 'base_pay' })]), /Basic: code "base_pay" is a built-in variable/);
+  assert.throws(() => orderPayrollComponents([
+    component({ id: 1, name: 'One', code: 'dup' }),
+    component({ id: 2, name: 'Two', code: 'DUP' }),
+  ]), /Two: code "dup" is used by One/);
+  assert.throws(() => orderPayrollComponents([component({ name: 'Meal', formula: 'meals * 500' })]), /Meal: unknown variable "meals"/);
+  assert.throws(() => evaluatePayrollComponents([component({ name: 'Rate', formula: 'base_pay / (days_worked - 18)' })], variables), /Rate: Division by zero/);
+});
+
+test('workingDaysInMonth counts weekdays', () => {
+  assert.equal(workingDaysInMonth(2026, 10), 22);
+  assert.equal(workingDaysInMonth(2026, 2), 20);
+});
+
+console.log('All payroll formula tests passed.');
@@ -0,0 +1,83 @@
+import { strict as assert } from 'node:assert';
+import {
+  getEffectiveDecision,
+  getNextLevel,
+  planStudentPlacements,
+  summarizeDecisions,
+} from '../src/services/promotionPlanner.js';
+import type { AnnualResult } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+type ResultInput = Pick<AnnualResult, 'student_id' | 'academic_class_id' | 'recommendation' | 'final_decision'>;
+
+const classes = [
+  { id: 1, level: 'JSS 1', arm: 'Gold' },
+  { id: 2, level: 'JSS 3', arm: 'Silver' },
+  { id: 3, level: 'SS 3', arm: 'Gold' },
+];
+
+test('increments numbered levels and applies built-in transitions', () => {
+  assert.equal(getNextLevel('JSS 1'), 'JSS 2');
+  assert.equal(getNextLevel('Primary 5'), 'Primary 6');
+  assert.equal(getNextLevel('JSS 3'), 'SS 1');
+  assert.equal(getNextLevel('SS 3'), null);
+  assert.equal(getNextLevel('Nursery'), null);
+});
+
+test('school overrides win over the defaults', () => {
+  const overrides = { 'Primary 6': 'JSS 1', 'jss 3': null, 'Nursery': 'Primary 1' };
+  assert.equal(getNextLevel('Primary 6', overrides), 'JSS 1');
+  assert.equal(getNextLevel('JSS 3', overrides), null);
+  assert.equal(getNextLevel('Nursery', overrides), 'Primary 1');
+  assert.equal(getNextLevel('JSS 1', overrides), 'JSS 2');
+});
+
+test('principal overrides replace the recommendation', () => {
+  assert.equal(getEffectiveDecision({ recommendation: 'repeat', final_decision: 'probation' }), 'probation');
+  assert.equal(getEffectiveDecision({ recommendation: 'promote', final_decision: null }), 'promote');
+  assert.deepEqual(
+    summarizeDecisions([
+      { recommendation: 'promote', final_decision: null },
+      { recommendation: 'repeat', final_decision: 'promote' },
+      { recommendation: 'probation' },
+    ]),
+    { promote: 2, probation: 1, repeat: 0 },
+  );
+});
+
+test('places promoted students a level up and repeaters on the same level, keeping the arm', () => {
+  const results: ResultInput[] = [
+    { student_id: 10, academic_class_id: 1, recommendation: 'promote' },
+    { student_id: 11, academic_class_id: 1, recommendation: 'repeat' },
+    { student_id: 12, academic_class_id: 2, recommendation: 'repeat', final_decision: 'probation' },
+  ];
+  const plan = planStudentPlacements(results, classes);
+  assert.deepEqual(
+    plan.placements.map(p => [p.studentId, p.targetLevel, p.arm, p.decision]),
+    [[10, 'JSS 2', 'Gold', 'promote'], [11, 'JSS 1', 'Gold', 'repeat'], [12, 'SS 1', 'Silver', 'probation']],
+  );
+});
+
+test('separates final-year and unplaced students', () => {
+  const results: ResultInput[] = [
+    { student_id: 20, academic_class_id: 3, recommendation: 'promote' },
+    { student_id: 21, academic_class_id: 3, recommendation: 'repeat' },
+    { student_id: 22, academic_class_id: null, recommendation: 'promote' },
+    { student_id: 23, academic_class_id: 99, recommendation: 'promote' },
+  ];
+  const plan = planStudentPlacements(results, classes);
+  assert.deepEqual(plan.finalYear, [20]);
+  assert.deepEqual(plan.unplaced, [22, 23]);
+  assert.deepEqual(plan.placements.map(p => [p.studentId, p.targetLevel]), [[21, 'SS 3']]);
+});
+
+console.log('All promotion planner tests passed.');
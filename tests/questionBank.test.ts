@@ -0,0 +1,116 @@
+import { strict as assert } from 'node:assert';
+import {
+  bankItemToQuizQuestion,
+  describeRule,
+  drawQuestions,
+  rankByIncorrectRate,
+  resolveMcqAnswerIndex,
+} from '../src/services/questionBank.js';
+import type { QuestionBankItem, QuestionDifficulty } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+let nextId = 1;
+function item(overrides: Partial<QuestionBankItem> & { difficulty: QuestionDifficulty }): QuestionBankItem {
+  return {
+    id: nextId++,
+    school_id: 1,
+    subject_name: 'Biology',
+    level: 'SS 1',
+    topic: 'Cells',
+    question_type: 'multiple_choice',
+    question_text: `Question ${nextId}`,
+    options: ['Nucleus', 'Ribosome', 'Vacuole', 'Wall'],
+    answer: 'Nucleus',
+    marks: 1,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+const bank: QuestionBankItem[] = [
+  ...Array.from({ length: 6 }, () => item({ difficulty: 'easy' })),
+  ...Array.from({ length: 3 }, () => item({ difficulty: 'hard' })),
+  ...Array.from({ length: 4 }, () => item({ difficulty: 'easy', topic: 'Genetics' })),
+  item({ difficulty: 'easy', is_active: false }),
+  item({ difficulty: 'easy', subject_name: 'Chemistry' }),
+  item({ difficulty: 'easy', level: 'SS 2' }),
+];
+
+test('draws the requested mix from the chosen subject and level only', () => {
+  const { drawn, shortfalls } = drawQuestions(bank, [{ count: 4, difficulty: 'easy', topic: 'Cells' }, { count: 2, difficulty: 'hard' }], { subject: 'biology', level: 'SS 1', seed: 7 });
+  assert.equal(drawn.length, 6);
+  assert.equal(shortfalls.length, 0);
+  assert.equal(drawn.filter(i => i.difficulty === 'easy' && i.topic === 'Cells').length, 4);
+  assert.ok(drawn.every(i => i.is_active && i.subject_name === 'Biology' && i.level === 'SS 1'));
+});
+
+test('never draws the same item twice across overlapping rules', () => {
+  const { drawn } = drawQuestions(bank, [{ count: 5, difficulty: 'easy' }, { count: 5, difficulty: 'easy' }], { subject: 'Biology', level: 'SS 1', seed: 3 });
+  assert.equal(new Set(drawn.map(i => i.id)).size, drawn.length);
+  assert.equal(drawn.length, 10);
+});
+
+test('reports a shortfall when a rule cannot be filled', () => {
+  const { drawn, shortfalls } = drawQuestions(bank, [{ count: 5, difficulty: 'hard' }], { subject: 'Biology', seed: 1 });
+  assert.equal(drawn.length, 3);
+  assert.deepEqual(shortfalls.map(s => s.available), [3]);
+});
+
+test('the same seed gives the same draw', () => {
+  const rules = [{ count: 3, difficulty: 'easy' as const }];
+  const first = drawQuestions(bank, rules, { subject: 'Biology', seed: 42 }).drawn.map(i => i.id);
+  const second = drawQuestions(bank, rules, { subject: 'Biology', seed: 42 }).drawn.map(i => i.id);
+  assert.deepEqual(first, second);
+});
+
+test('resolves MCQ answers given as text, letters or labelled options', () => {
+  const options = ['Nucleus', 'Ribosome', 'Vacuole'];
+  assert.equal(resolveMcqAnswerIndex(options, ' ribosome '), 1);
+  assert.equal(resolveMcqAnswerIndex(options, 'C'), 2);
+  assert.equal(resolveMcqAnswerIndex(options, 'b)'), 1);
+  assert.equal(resolveMcqAnswerIndex(options, 'Option A'), 0);
+  assert.equal(resolveMcqAnswerIndex(['A. Nucleus', 'B. Ribosome'], 'Ribosome'), 1);
+  assert.equal(resolveMcqAnswerIndex(options, 'a cell wall'), null);
+  assert.equal(resolveMcqAnswerIndex(options, 'E'), null);
+});
+
+test('converts bank items to quiz questions with answer keys', () => {
+  const mcq = bankItemToQuizQuestion(item({ difficulty: 'easy', answer: 'B', marks: 2 }), 0);
+  assert.equal(mcq.question_type, 'multiple_choice');
+  assert.equal(mcq.correct_option_index, 1);
+  assert.equal(mcq.marks, 2);
+  assert.equal(mcq.options?.length, 4);
+
+  const theory = bankItemToQuizQuestion(item({ difficulty: 'hard', question_type: 'theory', options: null, answer: 'Cells divide by mitosis.', marks: 5 }), 1);
+  assert.equal(theory.question_type, 'short_answer');
+  assert.equal(theory.correct_answer, 'Cells divide by mitosis.');
+  assert.equal(theory.position, 1);
+  assert.ok(theory.bank_item_id);
+});
+
+test('ranks items by how often they are answered wrongly', () => {
+  const [a, b, c] = bank;
+  const ranked = rankByIncorrectRate(bank, [
+    { bank_item_id: a.id, quiz_count: 1, response_count: 10, incorrect_count: 2 },
+    { bank_item_id: b.id, quiz_count: 2, response_count: 20, incorrect_count: 15 },
+    { bank_item_id: c.id, quiz_count: 1, response_count: 0, incorrect_count: 0 },
+  ]);
+  assert.deepEqual(ranked.map(r => r.item.id), [b.id, a.id]);
+  assert.equal(ranked[0].incorrectRate, 0.75);
+});
+
+test('describes rules for draw summaries', () => {
+  assert.equal(describeRule({ count: 10, difficulty: 'easy', topic: 'Photosynthesis' }), '10 easy from Photosynthesis');
+  assert.equal(describeRule({ count: 2, questionType: 'theory' }), '2 theory');
+});
+
+console.log('All question bank tests passed.');
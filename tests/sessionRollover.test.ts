@@ -0,0 +1,118 @@
+import { strict as assert } from 'node:assert';
+import { buildRolloverPlan, groupStudentMoves, type RolloverPlanInput } from '../src/services/sessionRollover.js';
+import { StudentStatus } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const baseInput = (): RolloverPlanInput => ({
+  sourceSessionLabel: '2025/2026',
+  targetSessionLabel: '2026/2027',
+  sourceClasses: [
+    { id: 1, school_id: 1, level: 'JSS 1', arm: 'Gold', assessment_structure_id: 7, grading_scheme_id: 3, campus_id: 2 },
+    { id: 2, school_id: 1, level: 'JSS 2', arm: 'Gold', assessment_structure_id: 8, grading_scheme_id: 4, campus_id: 2 },
+    { id: 3, school_id: 1, level: 'SS 3', arm: 'Science' },
+  ],
+  targetClasses: [],
+  sourceAssignments: [
+    { academic_class_id: 1, subject_name: 'Mathematics', teacher_user_id: 'teacher-1' },
+  ],
+  targetAssignments: [],
+  sourceEnrollments: [
+    { student_id: 10, academic_class_id: 1 },
+    { student_id: 11, academic_class_id: 1 },
+    { student_id: 12, academic_class_id: 3 },
+    { student_id: 13, academic_class_id: 1 },
+  ],
+  students: [
+    { id: 10, status: StudentStatus.Active },
+    { id: 11, status: StudentStatus.Active },
+    { id: 12, status: StudentStatus.Active },
+    { id: 13, status: StudentStatus.Withdrawn },
+  ],
+  annualResults: [
+    { id: 100, student_id: 11, recommendation: 'promote', final_decision: 'repeat' },
+  ],
+  levels: [{ id: 51, name: 'JSS 1' }, { id: 52, name: 'JSS 2' }],
+  subjectEnrollments: [],
+  levelSubjects: [],
+});
+
+test('creates next session classes from last session settings', () => {
+  const plan = buildRolloverPlan(baseInput());
+  assert.deepEqual(plan.classes.map(c => c.key), ['JSS 1|Gold', 'JSS 2|Gold']);
+  const jss2 = plan.classes.find(c => c.key === 'JSS 2|Gold')!;
+  // Same level last session wins over the promoted student's own class
+  assert.equal(jss2.template_class_id, 2);
+  assert.equal(jss2.assessment_structure_id, 8);
+  assert.equal(jss2.name, 'JSS 2 Gold (2026/2027)');
+  assert.equal(plan.assignments[0].target_key, 'JSS 1|Gold');
+});
+
+test('moves, repeats and graduates students and skips inactive ones', () => {
+  const plan = buildRolloverPlan(baseInput());
+  assert.deepEqual(plan.student_moves.map(m => [m.student_id, m.target_key, m.decision, m.level_id]), [
+    [10, 'JSS 2|Gold', 'promote', 52],
+    [11, 'JSS 1|Gold', 'repeat', 51],
+  ]);
+  assert.equal(plan.student_moves[1].annual_result_id, 100);
+  assert.deepEqual(plan.graduations, [12]);
+});
+
+test('reuses existing target classes and assignments', () => {
+  const input = baseInput();
+  input.targetClasses = [{ id: 90, level: 'JSS 1', arm: 'Gold' }];
+  input.targetAssignments = [{ academic_class_id: 90, subject_name: 'Mathematics' }];
+  const plan = buildRolloverPlan(input);
+  assert.deepEqual(plan.classes.map(c => c.key), ['JSS 2|Gold']);
+  assert.equal(plan.assignments.length, 0);
+});
+
+test('keeps students and classes in place within a session', () => {
+  const input = baseInput();
+  input.targetSessionLabel = input.sourceSessionLabel;
+  const plan = buildRolloverPlan(input);
+  assert.equal(plan.classes.length, 0);
+  assert.equal(plan.graduations.length, 0);
+  assert.deepEqual(plan.student_moves.map(m => m.target_key), ['JSS 1|Gold', 'JSS 1|Gold', 'SS 3|Science']);
+});
+
+test('carries subject choices forward only where the new level offers them', () => {
+  const input = baseInput();
+  input.subjectEnrollments = [
+    { student_id: 10, subject_id: 1, is_enrolled: true },
+    { student_id: 10, subject_id: 2, is_enrolled: true },
+    { student_id: 10, subject_id: 3, is_enrolled: false },
+    { student_id: 12, subject_id: 1, is_enrolled: true },
+  ];
+  input.levelSubjects = [{ class_id: 52, subject_id: 1 }];
+  const plan = buildRolloverPlan(input);
+  assert.deepEqual(plan.subject_enrollments, [{ student_id: 10, subject_id: 1, target_key: 'JSS 2|Gold' }]);
+  assert.equal(plan.dropped_subject_enrollments, 1);
+});
+
+test('warns when the next level is missing from the class list', () => {
+  const input = baseInput();
+  input.levels = [{ id: 51, name: 'JSS 1' }];
+  const plan = buildRolloverPlan(input);
+  assert.equal(plan.student_moves[0].level_id, null);
+  assert.equal(plan.warnings.length, 1);
+});
+
+test('groups student moves for the dry-run diff', () => {
+  const plan = buildRolloverPlan(baseInput());
+  const groups = groupStudentMoves([...plan.student_moves, { ...plan.student_moves[0], student_id: 14 }]);
+  assert.deepEqual(groups.map(g => [g.targetKey, g.studentIds]), [
+    ['JSS 2|Gold', [10, 14]],
+    ['JSS 1|Gold', [11]],
+  ]);
+});
+
+console.log('All session rollover tests passed.');
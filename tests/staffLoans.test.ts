@@ -0,0 +1,123 @@
+import { strict as assert } from 'node:assert';
+import {
+  addMonths,
+  buildLoanSchedule,
+  generateLoanBalanceCSV,
+  loanBalance,
+  loanLineLabel,
+  payoffAmount,
+  planLoanDeductions,
+} from '../src/services/staffLoans.js';
+import type { DueInstallment } from '../src/services/staffLoans.js';
+import type { StaffLoan, StaffLoanInstallment } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const loan = (overrides: Partial<StaffLoan>): StaffLoan => ({
+  id: 1,
+  school_id: 1,
+  user_id: 'staff-1',
+  loan_type: 'loan',
+  principal: 120000,
+  interest_rate: 0,
+  installments: 3,
+  status: 'active',
+  created_at: '2026-09-01T00:00:00Z',
+  approved_at: '2026-09-02T00:00:00Z',
+  ...overrides,
+});
+
+const withSchedule = (base: StaffLoan, statuses: StaffLoanInstallment['status'][]): StaffLoan => ({
+  ...base,
+  schedule: buildLoanSchedule(base.principal, base.interest_rate, base.installments, '2026-10').map((installment, index) => ({
+    ...installment,
+    id: base.id * 100 + index,
+    loan_id: base.id,
+    status: statuses[index] || 'pending',
+  })),
+});
+
+const due = (source: StaffLoan, installmentNumber: number, amount: number): DueInstallment => ({
+  id: source.id * 100 + installmentNumber,
+  loan_id: source.id,
+  installment_number: installmentNumber,
+  period_key: '2026-10',
+  principal: amount,
+  interest: 0,
+  amount,
+  balance_after: 0,
+  status: 'pending',
+  loan: source,
+});
+
+test('addMonths rolls over the year', () => {
+  assert.equal(addMonths('2026-11', 1), '2026-12');
+  assert.equal(addMonths('2026-11', 3), '2027-02');
+});
+
+test('interest-free schedules split the principal and absorb rounding in the last month', () => {
+  const schedule = buildLoanSchedule(100000, 0, 3, '2026-11');
+  assert.deepEqual(schedule.map(i => [i.period_key, i.amount, i.balance_after]), [
+    ['2026-11', 33333.33, 66666.67],
+    ['2026-12', 33333.33, 33333.34],
+    ['2027-01', 33333.34, 0],
+  ]);
+});
+
+test('interest is charged on the reducing balance with fixed installments', () => {
+  const schedule = buildLoanSchedule(120000, 12, 12, '2026-10');
+  assert.equal(schedule.length, 12);
+  assert.equal(schedule[0].interest, 1200);
+  assert.equal(schedule[0].amount, 10661.85);
+  assert.ok(schedule.slice(0, -1).every(i => i.amount === 10661.85));
+  assert.equal(schedule[11].amount, 10661.91);
+  assert.equal(schedule[11].balance_after, 0);
+  assert.equal(Math.round(schedule.reduce((sum, i) => sum + i.principal, 0) * 100) / 100, 120000);
+});
+
+test('schedules reject impossible terms', () => {
+  assert.throws(() => buildLoanSchedule(0, 0, 3, '2026-10'), /greater than zero/);
+  assert.throws(() => buildLoanSchedule(1000, 0, 1.5, '2026-10'), /whole number/);
+  assert.throws(() => buildLoanSchedule(1000, 0, 2, 'October'), /YYYY-MM/);
+});
+
+test('balances, early payoff and the outstanding report follow the schedule', () => {
+  const active = withSchedule(loan({ principal: 120000, interest_rate: 12, installments: 12, staff: { id: 'staff-1', name: 'Ada Obi', staff_code: 'EMP-001' } }), ['deducted', 'deducted']);
+  const balance = loanBalance(active);
+  assert.equal(balance.installments_left, 10);
+  assert.equal(balance.repaid, 21323.7);
+  assert.equal(balance.next_installment?.period_key, '2026-12');
+  assert.equal(payoffAmount(active), active.schedule![1].balance_after);
+  assert.ok(payoffAmount(active) < balance.outstanding);
+
+  const csv = generateLoanBalanceCSV([active, loan({ id: 2, status: 'repaid' })]).split('\n');
+  assert.equal(csv.length, 3);
+  assert.ok(csv[1].startsWith('"Ada Obi","EMP-001","Staff loan"'));
+  assert.ok(csv[1].includes(`"${balance.outstanding.toFixed(2)}","10","2026-12"`));
+});
+
+test('one installment per loan, oldest loan first, paused below the net pay floor', () => {
+  const older = loan({ id: 1, approved_at: '2026-08-01T00:00:00Z' });
+  const newer = loan({ id: 2, loan_type: 'advance', installments: 1, approved_at: '2026-09-15T00:00:00Z' });
+  const plan = planLoanDeductions(100000, 60000, [
+    due(newer, 1, 30000),
+    due(older, 3, 20000),
+    due(older, 2, 20000),
+  ]);
+  assert.deepEqual(plan.deducted.map(i => [i.loan_id, i.installment_number]), [[1, 2]]);
+  assert.deepEqual(plan.paused.map(i => [i.loan_id, i.installment_number]), [[2, 1]]);
+  assert.equal(loanLineLabel(plan.deducted[0]), 'Staff loan repayment (2 of 3)');
+  assert.equal(loanLineLabel(plan.paused[0], true), 'Salary advance repayment paused (1 of 1)');
+
+  assert.equal(planLoanDeductions(100000, 0, [due(newer, 1, 30000), due(older, 2, 20000)]).deducted.length, 2);
+});
+
+console.log('All staff loan tests passed.');
@@ -0,0 +1,108 @@
+import { strict as assert } from 'node:assert';
+import {
+  availableStock,
+  buildCollectionSlipHtml,
+  buildPickList,
+  buildPickListHtml,
+  isBilledToFees,
+  nextOrderStatuses,
+  reservationMinutesLeft,
+  storeBillingBlocker,
+} from '../src/services/storeOrders.js';
+import type { Order, OrderItem } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const item = (id: number, inventoryId: number, name: string, category: 'Bookstore' | 'General', quantity: number): OrderItem => ({
+  id,
+  order_id: 0,
+  inventory_item_id: inventoryId,
+  quantity,
+  unit_price: 1500,
+  inventory_item: { name, category },
+});
+
+const order = (id: number, status: Order['status'], items: OrderItem[], extra: Partial<Order> = {}): Order => ({
+  id,
+  school_id: 1,
+  user_id: 'u1',
+  total_amount: items.reduce((sum, i) => sum + i.quantity * i.unit_price, 0),
+  status,
+  created_at: '2026-10-01T08:00:00Z',
+  updated_at: '2026-10-01T08:00:00Z',
+  items,
+  ...extra,
+});
+
+test('only offers the moves set_order_status accepts', () => {
+  assert.deepEqual(nextOrderStatuses('Pending'), ['Paid', 'Cancelled']);
+  assert.deepEqual(nextOrderStatuses('Paid'), ['Delivered', 'Cancelled']);
+  assert.deepEqual(nextOrderStatuses('Delivered'), ['Returned']);
+  assert.deepEqual(nextOrderStatuses('Returned'), []);
+  assert.deepEqual(nextOrderStatuses('Cancelled'), []);
+});
+
+test('subtracts reserved units from what buyers can add', () => {
+  assert.equal(availableStock({ stock: 10, reserved: 4 }), 6);
+  assert.equal(availableStock({ stock: 3, reserved: 5 }), 0);
+  assert.equal(availableStock({ stock: 7 }), 7);
+});
+
+test('counts down the reservation on pending orders only', () => {
+  const now = new Date('2026-10-01T08:10:00Z');
+  assert.equal(reservationMinutesLeft({ status: 'Pending', reserved_until: '2026-10-01T08:30:00Z' }, now), 20);
+  assert.equal(reservationMinutesLeft({ status: 'Pending', reserved_until: '2026-10-01T08:00:00Z' }, now), 0);
+  assert.equal(reservationMinutesLeft({ status: 'Paid', reserved_until: null }, now), null);
+});
+
+const orders = [
+  order(1, 'Paid', [item(1, 10, 'Basic Science JSS1', 'Bookstore', 2), item(2, 20, 'Sports Vest (M)', 'General', 1)]),
+  order(2, 'Paid', [item(3, 10, 'Basic Science JSS1', 'Bookstore', 1)]),
+  order(3, 'Pending', [item(4, 10, 'Basic Science JSS1', 'Bookstore', 5)]),
+  order(4, 'Delivered', [item(5, 20, 'Sports Vest (M)', 'General', 3)]),
+];
+
+test('totals paid orders into a pick list per counter', () => {
+  assert.deepEqual(buildPickList(orders).map(line => [line.name, line.quantity, line.order_ids]), [
+    ['Basic Science JSS1', 3, [1, 2]],
+    ['Sports Vest (M)', 1, [1]],
+  ]);
+  assert.deepEqual(buildPickList(orders, 'General').map(line => line.inventory_item_id), [20]);
+});
+
+test('prints pick lists and collection slips with escaped names', () => {
+  const html = buildPickListHtml(buildPickList(orders, 'Bookstore'), { schoolName: 'UPSS <Main>', category: 'Bookstore' });
+  assert.match(html, /Pick List - Bookstore/);
+  assert.match(html, /UPSS &lt;Main&gt;/);
+  assert.match(html, /#1, #2/);
+
+  const slip = buildCollectionSlipHtml([order(5, 'Paid', [item(6, 10, 'Basic Science JSS1', 'Bookstore', 2)], {
+    collection_code: 'A1B2C3',
+    payment_reference: 'STORE-5-20261001080000',
+  })], 'UPSS');
+  assert.match(slip, /Collection Slip - Order #5/);
+  assert.match(slip, /A1B2C3/);
+  assert.match(slip, /3,000/);
+});
+
+test('only bills orders that fit the limit parents set', () => {
+  const allowance = { student_id: 7, term_id: 3, limit: 20000, billed: 12000, remaining: 8000 };
+  assert.equal(storeBillingBlocker(allowance, 8000), null);
+  assert.match(storeBillingBlocker(allowance, 9000) || '', /₦8,000 of the ₦20,000/);
+  assert.match(storeBillingBlocker({ ...allowance, limit: null, remaining: 0 }, 100) || '', /not allowed/);
+  assert.match(storeBillingBlocker(null, 100) || '', /not allowed/);
+
+  assert.equal(isBilledToFees({ billed_invoice_id: 12 }), true);
+  assert.equal(isBilledToFees({ billed_invoice_id: null }), false);
+  assert.equal(isBilledToFees({}), false);
+});
+
+console.log('All store order tests passed.');
@@ -0,0 +1,124 @@
+import { strict as assert } from 'node:assert';
+import { generateTimetableDraft } from '../src/services/timetableGenerator.js';
+import type { AcademicClass, AcademicTeachingAssignment, Subject, TimetableLocation, TimetablePeriod } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const subjects: Subject[] = [
+  { id: 1, name: 'Mathematics', priority: 2 },
+  { id: 2, name: 'English', priority: 1 },
+  { id: 3, name: 'Chemistry', priority: 1, is_solo: true },
+];
+
+const periods: TimetablePeriod[] = [
+  { id: 1, school_id: 1, name: 'Period 1', start_time: '08:00', end_time: '08:40', type: 'lesson' },
+  { id: 2, school_id: 1, name: 'Break', start_time: '08:40', end_time: '09:00', type: 'break' },
+  { id: 3, school_id: 1, name: 'Period 2', start_time: '09:00', end_time: '09:40', type: 'lesson' },
+];
+
+const classes = [
+  { id: 10, school_id: 1, name: 'JSS 1 Gold', level: 'JSS 1', arm: 'Gold', session_label: '2025/2026', is_active: true, campus_id: 1 },
+  { id: 11, school_id: 1, name: 'JSS 1 Blue', level: 'JSS 1', arm: 'Blue', session_label: '2025/2026', is_active: true, campus_id: 1 },
+] as AcademicClass[];
+
+function buildAssignment(id: number, overrides: Partial<AcademicTeachingAssignment> = {}): AcademicTeachingAssignment {
+  return {
+    id,
+    school_id: 1,
+    term_id: 1,
+    academic_class_id: 10,
+    subject_name: 'Mathematics',
+    teacher_user_id: 'teacher-1',
+    is_locked: false,
+    ...overrides,
+  };
+}
+
+test('places requested lessons only in lesson periods and spreads them across days', () => {
+  const draft = generateTimetableDraft({
+    assignments: [buildAssignment(1)],
+    periods,
+    subjects,
+    academicClasses: classes,
+    periodsPerWeek: { 1: 3 },
+    days: ['Monday', 'Tuesday', 'Wednesday'],
+  });
+  assert.strictEqual(draft.entries.length, 3);
+  assert.strictEqual(draft.unplaced.length, 0);
+  assert.ok(draft.entries.every((e) => e.period_id !== 2));
+  assert.deepStrictEqual(new Set(draft.entries.map((e) => e.day_of_week)).size, 3);
+});
+
+test('a teacher is never double-booked across classes', () => {
+  const draft = generateTimetableDraft({
+    assignments: [buildAssignment(1), buildAssignment(2, { academic_class_id: 11 })],
+    periods,
+    subjects,
+    academicClasses: classes,
+    periodsPerWeek: { 1: 2 },
+    days: ['Monday'],
+  });
+  const slots = draft.entries.map((e) => `${e.day_of_week}-${e.period_id}-${e.teacher_id}`);
+  assert.strictEqual(new Set(slots).size, slots.length);
+  assert.strictEqual(draft.entries.length, 2);
+  assert.strictEqual(draft.unplaced.length, 1);
+  assert.ok(draft.unplaced[0].reason.includes('Teacher is already assigned'));
+});
+
+test('locations must fit the class size', () => {
+  const locations: TimetableLocation[] = [
+    { id: 1, school_id: 1, campus_id: 1, name: 'Small Room', capacity: 20 },
+    { id: 2, school_id: 1, campus_id: 1, name: 'Hall', capacity: 60 },
+  ];
+  const draft = generateTimetableDraft({
+    assignments: [buildAssignment(1)],
+    periods,
+    subjects,
+    academicClasses: classes,
+    locations,
+    classSizes: { 10: 35 },
+    periodsPerWeek: { 1: 1 },
+  });
+  assert.strictEqual(draft.entries[0].location_id, 2);
+});
+
+test('unplaced assignments report the reason', () => {
+  const draft = generateTimetableDraft({
+    assignments: [buildAssignment(1, { subject_name: 'Latin' }), buildAssignment(2)],
+    periods,
+    subjects,
+    academicClasses: classes,
+    locations: [{ id: 1, school_id: 1, campus_id: 1, name: 'Small Room', capacity: 10 }],
+    classSizes: { 10: 35 },
+    periodsPerWeek: { 1: 1 },
+  });
+  assert.strictEqual(draft.entries.length, 0);
+  assert.ok(draft.unplaced[0].reason.includes('Latin'));
+  assert.ok(draft.unplaced[1].reason.includes('seat 35'));
+});
+
+test('solo subjects keep the class slot to themselves', () => {
+  const draft = generateTimetableDraft({
+    assignments: [
+      buildAssignment(1, { subject_name: 'Chemistry', teacher_user_id: 't-chem' }),
+      buildAssignment(2, { subject_name: 'English', teacher_user_id: 't-eng' }),
+    ],
+    periods,
+    subjects,
+    academicClasses: classes,
+    periodsPerWeek: { 2: 1, 3: 1 },
+    days: ['Monday'],
+  });
+  const slotKeys = draft.entries.map((e) => `${e.day_of_week}-${e.period_id}`);
+  assert.strictEqual(new Set(slotKeys).size, 2);
+});
+
+console.log('All timetable generator tests passed.');
@@ -1,7 +1,8 @@
 import { strict as assert } from 'node:assert';
 import { applySchedulingRules } from '../src/services/timetableScheduler.js';
+import { buildTeacherAvailability } from '../src/services/teacherAvailability.js';
 import { resolveTimetableAccess } from '../src/utils/timetableAccess.js';
-import type { TimetableEntry, Subject } from '../src/types.js';
+import { LeaveRequestStatus, type TimetableEntry, type TimetablePeriod, type Subject } from '../src/types.js';
 
 function test(name: string, fn: () => void) {
   try {
@@ -75,4 +76,74 @@ test('location uniqueness is enforced', () => {
   assert.ok(result.error?.includes('already booked'));
 });
 
+const periods: TimetablePeriod[] = [
+  { id: 1, school_id: 1, name: 'P1', start_time: '08:00', end_time: '08:40', type: 'lesson' },
+  { id: 2, school_id: 1, name: 'P2', start_time: '08:40', end_time: '09:20', type: 'lesson' },
+  { id: 3, school_id: 1, name: 'Break', start_time: '09:20', end_time: '09:40', type: 'break' },
+  { id: 4, school_id: 1, name: 'P3', start_time: '09:40', end_time: '10:20', type: 'lesson' },
+  { id: 5, school_id: 1, name: 'P4', start_time: '10:20', end_time: '11:00', type: 'lesson' },
+];
+
+test('unavailable slots block assignment', () => {
+  const teacherAvailability = buildTeacherAvailability({
+    constraints: [{ id: 1, school_id: 1, teacher_id: 'teacher-1', unavailable_slots: [{ day_of_week: 'Monday', period_id: null }] }],
+    periods,
+    days: ['Monday', 'Tuesday'],
+  });
+  const result = applySchedulingRules({ existingEntries: [], candidateEntry: buildEntry(0, { id: undefined }), subjects, teacherAvailability, periods });
+  assert.ok(result.error?.includes('unavailable'));
+});
+
+test('max periods per day is enforced', () => {
+  const teacherAvailability = buildTeacherAvailability({
+    constraints: [{ id: 1, school_id: 1, teacher_id: 'teacher-1', unavailable_slots: [], max_periods_per_day: 1 }],
+    periods,
+    days: ['Monday'],
+  });
+  const existing = [buildEntry(1, { period_id: 1, academic_class_id: 11 })];
+  const result = applySchedulingRules({ existingEntries: existing, candidateEntry: buildEntry(0, { id: undefined, period_id: 5 }), subjects, teacherAvailability, periods });
+  assert.ok(result.error?.includes('1 periods on Monday'));
+});
+
+test('consecutive limit counts runs and breaks reset them', () => {
+  const teacherAvailability = buildTeacherAvailability({
+    constraints: [{ id: 1, school_id: 1, teacher_id: 'teacher-1', unavailable_slots: [], max_consecutive_periods: 2 }],
+    periods,
+    days: ['Monday'],
+  });
+  const existing = [buildEntry(1, { period_id: 1, academic_class_id: 11 }), buildEntry(2, { period_id: 2, academic_class_id: 12 })];
+  const afterBreak = applySchedulingRules({ existingEntries: existing, candidateEntry: buildEntry(0, { id: undefined, period_id: 4 }), subjects, teacherAvailability, periods });
+  assert.ok(!afterBreak.error);
+
+  const third = [buildEntry(1, { period_id: 4, academic_class_id: 11 }), buildEntry(2, { period_id: 5, academic_class_id: 12 })];
+  const result = applySchedulingRules({ existingEntries: third, candidateEntry: buildEntry(0, { id: undefined, period_id: 2 }), subjects, teacherAvailability, periods });
+  assert.ok(!result.error, 'break between P2 and P3 splits the run');
+
+  const tighter = buildTeacherAvailability({
+    constraints: [{ id: 1, school_id: 1, teacher_id: 'teacher-1', unavailable_slots: [], max_consecutive_periods: 1 }],
+    periods,
+    days: ['Monday'],
+  });
+  const overLimit = applySchedulingRules({ existingEntries: [buildEntry(1, { period_id: 4, academic_class_id: 11 })], candidateEntry: buildEntry(0, { id: undefined, period_id: 5 }), subjects, teacherAvailability: tighter, periods });
+  assert.ok(overLimit.error?.includes('exceed 1 consecutive periods'));
+});
+
+test('shift windows and term-long leave feed availability', () => {
+  const availability = buildTeacherAvailability({
+    shifts: [{ id: 1, school_id: 1, teacher_id: 'teacher-1', day_of_week: 1, start_time: '08:00', end_time: '09:20' }],
+    leaveRequests: [{
+      id: 1, school_id: 1, requester_id: 'teacher-2', leave_type_id: 1, start_date: '2026-01-05', end_date: '2026-01-16',
+      status: LeaveRequestStatus.Approved, created_at: '2026-01-01',
+    }],
+    periods,
+    days: ['Monday', 'Tuesday'],
+    range: { start_date: '2026-01-05', end_date: '2026-01-16' },
+  });
+  const t1 = availability['teacher-1'].unavailableSlots;
+  assert.ok(t1.some((s) => s.day_of_week === 'Tuesday' && s.period_id == null), 'no shift on Tuesday');
+  assert.ok(t1.some((s) => s.day_of_week === 'Monday' && s.period_id === 4), 'P3 is outside the Monday shift');
+  assert.ok(!t1.some((s) => s.day_of_week === 'Monday' && s.period_id === 1));
+  assert.strictEqual(availability['teacher-2'].unavailableSlots.length, 2);
+});
+
 console.log('All timetable scheduling tests passed.');
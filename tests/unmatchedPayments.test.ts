@@ -0,0 +1,83 @@
+import { strict as assert } from 'node:assert';
+import { nameSimilarity, suggestStudentMatches, type MatchCandidate } from '../src/services/unmatchedPayments.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const candidates: MatchCandidate[] = [
+  {
+    student: { id: 1, name: 'Ada Obi', admission_number: 'UPSS/2024/015' },
+    accounts: [{ account_number: '9920000001', account_name: 'UPSS/Ada Obi' }],
+    openInvoices: [{ id: 40, invoice_number: 'INV-40', total_amount: 150000, amount_paid: 100000 }],
+  },
+  {
+    student: { id: 2, name: 'Tunde Bakare', admission_number: 'UPSS/2024/016', email: 'bakare.family@example.com' },
+    accounts: [],
+    openInvoices: [{ id: 41, invoice_number: 'INV-41', total_amount: 150000, amount_paid: 0 }],
+  },
+  {
+    student: { id: 3, name: 'Chidi Okafor', admission_number: 'UPSS/2023/101' },
+    accounts: [],
+    openInvoices: [],
+  },
+];
+
+const payment = (overrides = {}) => ({
+  reference: 'T123456789',
+  amount: 12345,
+  payer_name: null,
+  customer_email: null,
+  account_number: null,
+  narration: null,
+  ...overrides,
+});
+
+test('compares names word by word and tolerates typos', () => {
+  assert.equal(nameSimilarity('OBI CHUKWUMA JAMES', 'Ada Obi'), 0.5);
+  assert.equal(nameSimilarity('Bakare Tunde', 'Tunde Bakare'), 1);
+  assert.equal(nameSimilarity('Chukuma Okafor', 'Chukwuma Okafor'), 1);
+  assert.equal(nameSimilarity('', 'Ada Obi'), 0);
+  assert.equal(nameSimilarity('Ngozi Eze', 'Ada Obi'), 0);
+});
+
+test('ranks a virtual account hit above everything else', () => {
+  const [top] = suggestStudentMatches(payment({ account_number: '9920000001', payer_name: 'Tunde Bakare' }), candidates);
+  assert.equal(top.student_id, 1);
+  assert.deepEqual(top.reasons, ['Paid into this student\'s virtual account']);
+});
+
+test('uses admission numbers and invoice references found in the narration', () => {
+  const byAdmission = suggestStudentMatches(payment({ narration: 'school fees upss 2023 101' }), candidates);
+  assert.equal(byAdmission[0].student_id, 3);
+
+  const byInvoice = suggestStudentMatches(payment({ reference: 'INVOICE-41-1699999' }), candidates);
+  assert.equal(byInvoice[0].student_id, 2);
+  assert.equal(byInvoice[0].invoice_id, 41);
+});
+
+test('combines payer name, email and amount and drops weak matches', () => {
+  const suggestions = suggestStudentMatches(
+    payment({ payer_name: 'Mrs Bakare Folake', amount: 150000, customer_email: 'Bakare.Family@example.com' }),
+    candidates
+  );
+  assert.equal(suggestions.length, 1);
+  assert.equal(suggestions[0].student_id, 2);
+  assert.equal(suggestions[0].invoice_id, 41);
+  assert.deepEqual(suggestions[0].reasons, [
+    'Payer email matches the student record',
+    'Payer name is similar',
+    'Amount clears invoice INV-41',
+  ]);
+
+  assert.deepEqual(suggestStudentMatches(payment({ amount: 50000 }), candidates).map(s => s.student_id), [1]);
+  assert.deepEqual(suggestStudentMatches(payment(), candidates), []);
+});
+
+console.log('All unmatched payment tests passed.');
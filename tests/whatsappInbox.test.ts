@@ -0,0 +1,100 @@
+import { strict as assert } from 'node:assert';
+import {
+  conversationTitle,
+  fillCannedReply,
+  filterConversations,
+  phoneMatchKey,
+  studentsForPhone,
+  tallyButtonAnswers,
+} from '../src/services/whatsappInbox.js';
+import type { WhatsAppConversation } from '../src/types.js';
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    throw error;
+  }
+}
+
+const conversation = (overrides: Partial<WhatsAppConversation>): WhatsAppConversation => ({
+  id: 1,
+  school_id: 1,
+  campus_id: null,
+  chat_id: '2348031234567@c.us',
+  phone: '2348031234567',
+  contact_name: null,
+  student_ids: [],
+  status: 'open',
+  assigned_to: null,
+  unread_count: 0,
+  last_message_at: null,
+  last_message_preview: null,
+  last_read_at: null,
+  last_read_by: null,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  ...overrides,
+});
+
+test('matches local and international forms of a parent number', () => {
+  assert.equal(phoneMatchKey('+234 803 123 4567'), '8031234567');
+  assert.equal(phoneMatchKey('08031234567'), '8031234567');
+  assert.equal(phoneMatchKey(null), '');
+
+  const students = [
+    { id: 1, father_phone: '08031234567' },
+    { id: 2, mother_phone: '+2348031234567' },
+    { id: 3, father_phone: '08099999999' },
+    { id: 4, parent_phone_number_1: '0803 123 4567' },
+  ];
+  assert.deepEqual(studentsForPhone(students, '2348031234567').map(s => s.id), [1, 2, 4]);
+  assert.deepEqual(studentsForPhone(students, ''), []);
+});
+
+test('titles a thread by the family it belongs to', () => {
+  const names = new Map([[1, 'Ada Obi'], [2, 'Tobi Obi']]);
+  assert.equal(conversationTitle(conversation({ student_ids: [1, 2] }), names), 'Parent of Ada Obi & Tobi Obi');
+  assert.equal(conversationTitle(conversation({ contact_name: 'Mrs Obi' }), names), 'Mrs Obi');
+  assert.equal(conversationTitle(conversation({}), names), '+2348031234567');
+});
+
+test('filters the inbox views and orders by latest message', () => {
+  const conversations = [
+    conversation({ id: 1, assigned_to: 'u1', last_message_at: '2026-10-18T10:00:00Z' }),
+    conversation({ id: 2, unread_count: 3, last_message_at: '2026-10-19T10:00:00Z' }),
+    conversation({ id: 3, status: 'closed', assigned_to: 'u1', last_message_at: '2026-10-19T11:00:00Z' }),
+  ];
+  assert.deepEqual(filterConversations(conversations, 'all', 'u1').map(c => c.id), [2, 1]);
+  assert.deepEqual(filterConversations(conversations, 'mine', 'u1').map(c => c.id), [1]);
+  assert.deepEqual(filterConversations(conversations, 'unassigned', 'u1').map(c => c.id), [2]);
+  assert.deepEqual(filterConversations(conversations, 'unread', 'u1').map(c => c.id), [2]);
+  assert.deepEqual(filterConversations(conversations, 'closed', 'u1').map(c => c.id), [3]);
+});
+
+test('fills canned reply placeholders and leaves unknown ones', () => {
+  assert.equal(
+    fillCannedReply('Dear {{parent_name}}, {{student_name}} is fine. {{staff_name}} {{term}}', {
+      parent_name: 'Mrs Obi',
+      student_name: 'Ada',
+      staff_name: 'Mr Bello',
+    }),
+    'Dear Mrs Obi, Ada is fine. Mr Bello {{term}}'
+  );
+});
+
+test('tallies button answers per choice', () => {
+  const tallies = tallyButtonAnswers([
+    { button_text: 'Yes', student_ids: [1, 2] },
+    { button_text: 'No', student_ids: [3] },
+    { button_text: 'Yes', student_ids: [2, 4] },
+  ]);
+  assert.deepEqual(tallies, [
+    { button_text: 'Yes', count: 2, student_ids: [1, 2, 4] },
+    { button_text: 'No', count: 1, student_ids: [3] },
+  ]);
+});
+
+console.log('All WhatsApp inbox tests passed.');